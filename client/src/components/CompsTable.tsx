@@ -85,10 +85,15 @@ export function CompsTable({ comps, subjectProperty }: CompsTableProps) {
                   <p className="text-xs text-muted-foreground">
                     {comp.property.city}, {comp.property.state} {comp.property.zipCode}
                   </p>
+                  {comp.selectionReasons && comp.selectionReasons.length > 0 && (
+                    <p className="text-xs text-muted-foreground" title={comp.selectionReasons.join("\n")}>
+                      {comp.selectionReasons.slice(0, 2).join(" · ")}
+                    </p>
+                  )}
                 </div>
               </TableCell>
               <TableCell className="text-right font-medium tabular-nums">
-                {formatPrice(comp.property.lastSalePrice)}
+                {formatPrice(comp.compSalePrice ?? comp.property.lastSalePrice)}
               </TableCell>
               <TableCell className="text-right tabular-nums">
                 {comp.property.pricePerSqft
@@ -102,7 +107,7 @@ export function CompsTable({ comps, subjectProperty }: CompsTableProps) {
                 {comp.property.sqft?.toLocaleString() || "N/A"}
               </TableCell>
               <TableCell className="text-right">
-                {formatDate(comp.property.lastSaleDate)}
+                {formatDate(comp.compSaleDate ?? comp.property.lastSaleDate)}
               </TableCell>
               <TableCell className="text-right">
                 <Badge
@@ -132,6 +137,16 @@ export function CompsTable({ comps, subjectProperty }: CompsTableProps) {
                       Beds: {formatAdjustment(comp.bedsAdjustment)}
                     </div>
                   )}
+                  {comp.bathsAdjustment !== null && comp.bathsAdjustment !== 0 && (
+                    <div className="text-muted-foreground">
+                      Baths: {formatAdjustment(comp.bathsAdjustment)}
+                    </div>
+                  )}
+                  {comp.timeAdjustment !== null && comp.timeAdjustment !== 0 && (
+                    <div className="text-muted-foreground">
+                      Time: {formatAdjustment(comp.timeAdjustment)}
+                    </div>
+                  )}
                 </div>
               </TableCell>
               <TableCell className="text-right font-medium tabular-nums">
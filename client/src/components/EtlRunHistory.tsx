@@ -0,0 +1,250 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import {
+  CheckCircle2,
+  AlertCircle,
+  Loader2,
+  SkipForward,
+  Circle,
+  ChevronDown,
+  ChevronRight,
+  RotateCcw,
+} from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { LoadingState } from "@/components/LoadingState";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { EtlRunWithSteps, EtlRunStep } from "@shared/schema";
+
+const PIPELINE_LABELS: Record<string, string> = {
+  refresh_all_data: "Full Data Refresh",
+  refresh_prices: "Price Refresh",
+  finish_refresh: "Finish Refresh",
+  etl_imports: "NYC Feed Imports",
+  nyc_deep_coverage: "NYC Deep Coverage",
+};
+
+function formatDuration(ms: number | null | undefined): string {
+  if (ms === null || ms === undefined) return "—";
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+function formatStepName(name: string): string {
+  return name.replace(/_/g, " ").replace(/^\w/, (c) => c.toUpperCase());
+}
+
+function statusColor(status: string): string {
+  switch (status) {
+    case "succeeded":
+      return "text-emerald-600 dark:text-emerald-400";
+    case "failed":
+      return "text-red-600 dark:text-red-400";
+    case "running":
+      return "text-blue-600 dark:text-blue-400";
+    default:
+      return "text-muted-foreground";
+  }
+}
+
+function StatusIcon({ status }: { status: string }) {
+  const className = `h-4 w-4 ${statusColor(status)}`;
+  switch (status) {
+    case "succeeded":
+      return <CheckCircle2 className={className} />;
+    case "failed":
+      return <AlertCircle className={className} />;
+    case "running":
+      return <Loader2 className={`${className} animate-spin`} />;
+    case "skipped":
+      return <SkipForward className={className} />;
+    default:
+      return <Circle className={className} />;
+  }
+}
+
+function StepTimeline({ run }: { run: EtlRunWithSteps }) {
+  const runStart = run.startedAt ? new Date(run.startedAt).getTime() : 0;
+  const runEnd = run.finishedAt ? new Date(run.finishedAt).getTime() : Date.now();
+  const span = Math.max(runEnd - runStart, 1);
+
+  const barFor = (step: EtlRunStep) => {
+    if (!step.startedAt) return null;
+    const start = new Date(step.startedAt).getTime();
+    const end = step.finishedAt ? new Date(step.finishedAt).getTime() : Date.now();
+    return {
+      left: `${((start - runStart) / span) * 100}%`,
+      width: `${Math.max(((end - start) / span) * 100, 0.5)}%`,
+    };
+  };
+
+  return (
+    <div className="space-y-2 border-t pt-3">
+      {run.steps.map((step) => {
+        const bar = barFor(step);
+        return (
+          <div key={step.id} className="space-y-1" data-testid={`etl-step-${step.stepName}`}>
+            <div className="flex items-center justify-between gap-3 text-sm">
+              <div className="flex items-center gap-2">
+                <StatusIcon status={step.status} />
+                <span className={step.status === "skipped" ? "text-muted-foreground" : ""}>
+                  {formatStepName(step.stepName)}
+                </span>
+                {step.status === "skipped" && (
+                  <span className="text-xs text-muted-foreground">completed in an earlier run</span>
+                )}
+              </div>
+              <div className="flex items-center gap-3 text-xs text-muted-foreground tabular-nums">
+                {step.rowsRead !== null && <span>{step.rowsRead.toLocaleString()} read</span>}
+                {step.rowsWritten !== null && <span>{step.rowsWritten.toLocaleString()} written</span>}
+                {!!step.rowsRejected && (
+                  <span className="text-amber-600 dark:text-amber-400">
+                    {step.rowsRejected.toLocaleString()} rejected
+                  </span>
+                )}
+                <span className="w-16 text-right">{formatDuration(step.durationMs)}</span>
+              </div>
+            </div>
+            <div className="relative h-1.5 rounded-full bg-muted">
+              {bar && (
+                <div
+                  className={`absolute h-1.5 rounded-full ${
+                    step.status === "failed"
+                      ? "bg-red-500"
+                      : step.status === "running"
+                        ? "bg-blue-500"
+                        : "bg-emerald-500"
+                  }`}
+                  style={bar}
+                />
+              )}
+            </div>
+            {step.error && (
+              <pre className="max-h-48 overflow-auto whitespace-pre-wrap rounded-md bg-red-50 p-2 text-xs text-red-700 dark:bg-red-950/30 dark:text-red-300">
+                {step.error}
+              </pre>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export function EtlRunHistory() {
+  const { toast } = useToast();
+  const [expandedRunId, setExpandedRunId] = useState<string | null>(null);
+
+  const { data: runs, isLoading } = useQuery<EtlRunWithSteps[]>({
+    queryKey: ["/api/admin/etl-runs"],
+    refetchInterval: (query) =>
+      query.state.data?.some((run) => run.status === "running") ? 10000 : false,
+  });
+
+  const resumeMutation = useMutation({
+    mutationFn: async (runId: string) => {
+      await apiRequest("POST", `/api/admin/etl-runs/${runId}/resume`);
+    },
+    onSuccess: () => {
+      toast({ title: "Resume started", description: "The run will appear here once it starts." });
+      setTimeout(() => {
+        queryClient.invalidateQueries({ queryKey: ["/api/admin/etl-runs"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/admin/etl-status"] });
+      }, 3000);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not resume run", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // Only the most recent run of a pipeline can be resumed
+  const latestRunIds = new Set<string>();
+  const seenPipelines = new Set<string>();
+  for (const run of runs || []) {
+    if (seenPipelines.has(run.pipeline)) continue;
+    seenPipelines.add(run.pipeline);
+    latestRunIds.add(run.id);
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Recent ETL Runs</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <LoadingState type="skeleton-list" count={5} />
+        ) : !runs || runs.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            No ETL runs recorded yet. Runs appear here once a refresh script has been run.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {runs.map((run) => {
+              const expanded = expandedRunId === run.id;
+              const rowsWritten = run.steps.reduce((sum, step) => sum + (step.rowsWritten || 0), 0);
+              const canResume = run.status === "failed" && latestRunIds.has(run.id);
+
+              return (
+                <div key={run.id} className="space-y-3 rounded-lg border p-3" data-testid={`etl-run-${run.id}`}>
+                  <div className="flex items-center justify-between gap-3">
+                    <button
+                      type="button"
+                      className="flex flex-1 items-center gap-2 text-left"
+                      onClick={() => setExpandedRunId(expanded ? null : run.id)}
+                      data-testid={`button-expand-run-${run.id}`}
+                    >
+                      {expanded ? (
+                        <ChevronDown className="h-4 w-4 text-muted-foreground" />
+                      ) : (
+                        <ChevronRight className="h-4 w-4 text-muted-foreground" />
+                      )}
+                      <div>
+                        <p className="font-medium">{PIPELINE_LABELS[run.pipeline] || run.pipeline}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {run.startedAt ? format(new Date(run.startedAt), "MMM d, h:mm a") : "—"} •{" "}
+                          {formatDuration(run.durationMs)} • {run.trigger}
+                          {run.resumedFromRunId && " (resumed)"}
+                        </p>
+                      </div>
+                    </button>
+                    <div className="flex items-center gap-3">
+                      <span className="text-sm text-muted-foreground tabular-nums">
+                        {rowsWritten.toLocaleString()} rows
+                      </span>
+                      <Badge variant="outline" className={statusColor(run.status)}>
+                        {run.status}
+                      </Badge>
+                      {canResume && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => resumeMutation.mutate(run.id)}
+                          disabled={resumeMutation.isPending}
+                          data-testid={`button-resume-run-${run.id}`}
+                        >
+                          <RotateCcw className="mr-2 h-4 w-4" />
+                          Resume
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                  {run.status === "failed" && !expanded && (
+                    <p className="text-sm text-red-600 dark:text-red-400">{run.error}</p>
+                  )}
+                  {expanded && <StepTimeline run={run} />}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
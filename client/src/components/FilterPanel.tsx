@@ -7,14 +7,17 @@ import { Slider } from "@/components/ui/slider";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
-import { propertyTypes, bedsBands, bathsBands, yearBuiltBands, sizeBands, states, confidenceLevels } from "@shared/schema";
-import type { ScreenerFilters } from "@shared/schema";
+import { propertyTypes, bedsBands, bathsBands, yearBuiltBands, sizeBands, scoreBands, bandRanges, states, confidenceLevels } from "@shared/schema";
+import type { ScreenerFacetKey, ScreenerFacets, ScreenerFilters } from "@shared/schema";
 
 interface FilterPanelProps {
   filters: ScreenerFilters;
   onChange: (filters: ScreenerFilters) => void;
   onReset: () => void;
   entityType?: "properties" | "units";
+  // Property counts per option, given the other active filters; ignored in
+  // units mode
+  facets?: ScreenerFacets;
 }
 
 interface FilterSectionProps {
@@ -41,8 +44,28 @@ function FilterSection({ title, children, defaultOpen = true }: FilterSectionPro
   );
 }
 
-export function FilterPanel({ filters, onChange, onReset, entityType = "properties" }: FilterPanelProps) {
+function FacetCount({ count }: { count?: number }) {
+  if (count === undefined) return null;
+  return <span className="ml-auto text-xs tabular-nums text-muted-foreground">{count.toLocaleString()}</span>;
+}
+
+export function FilterPanel({ filters, onChange, onReset, entityType = "properties", facets: propertyFacets }: FilterPanelProps) {
   const isUnitsMode = entityType === "units";
+  // Facets count properties, so they aren't shown against unit results
+  const facets = isUnitsMode ? undefined : propertyFacets;
+  const facetCount = (key: ScreenerFacetKey, value: string) =>
+    facets?.[key].find((f) => f.value === value)?.count;
+
+  // The score filter is a minimum, so each bucket counts everything at or above it
+  const scoreThresholds = facets
+    ? scoreBands
+        .map((band, i) => ({
+          min: bandRanges.score[band][0] ?? 0,
+          count: scoreBands.slice(i).reduce((sum, b) => sum + (facetCount("score", b) ?? 0), 0),
+        }))
+        .filter(({ min }) => min > 0)
+        .reverse()
+    : [];
   const handleArrayToggle = <K extends keyof ScreenerFilters>(
     key: K,
     value: string
@@ -66,6 +89,10 @@ export function FilterPanel({ filters, onChange, onReset, entityType = "properti
     onChange({ ...filters, opportunityScoreMin: values[0] });
   };
 
+  const handleDistressChange = (values: number[]) => {
+    onChange({ ...filters, distressScoreMin: values[0] || undefined });
+  };
+
   const priceMin = (filters.priceMin || 0) / 10000;
   const priceMax = (filters.priceMax || 5000000) / 10000;
 
@@ -118,6 +145,56 @@ export function FilterPanel({ filters, onChange, onReset, entityType = "properti
 
             <Separator />
 
+            {facets && facets.city.length > 0 && (
+              <>
+                <FilterSection title="City" defaultOpen={false}>
+                  <div className="space-y-2">
+                    {facets.city.map(({ value, count }) => (
+                      <div key={value} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`city-${value}`}
+                          checked={filters.cities?.includes(value)}
+                          onCheckedChange={() => handleArrayToggle("cities", value)}
+                          data-testid={`filter-city-${value}`}
+                        />
+                        <Label htmlFor={`city-${value}`} className="text-sm cursor-pointer">
+                          {value}
+                        </Label>
+                        <FacetCount count={count} />
+                      </div>
+                    ))}
+                  </div>
+                </FilterSection>
+
+                <Separator />
+              </>
+            )}
+
+            {facets && facets.zipCode.length > 0 && (
+              <>
+                <FilterSection title="ZIP Code" defaultOpen={false}>
+                  <div className="space-y-2">
+                    {facets.zipCode.map(({ value, count }) => (
+                      <div key={value} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`zip-${value}`}
+                          checked={filters.zipCodes?.includes(value)}
+                          onCheckedChange={() => handleArrayToggle("zipCodes", value)}
+                          data-testid={`filter-zip-${value}`}
+                        />
+                        <Label htmlFor={`zip-${value}`} className="text-sm cursor-pointer">
+                          {value}
+                        </Label>
+                        <FacetCount count={count} />
+                      </div>
+                    ))}
+                  </div>
+                </FilterSection>
+
+                <Separator />
+              </>
+            )}
+
             <FilterSection title="Property Type">
               <div className="space-y-2">
                 {propertyTypes.map((type) => (
@@ -131,6 +208,7 @@ export function FilterPanel({ filters, onChange, onReset, entityType = "properti
                     <Label htmlFor={`type-${type}`} className="text-sm cursor-pointer">
                       {type}
                     </Label>
+                    <FacetCount count={facetCount("propertyType", type)} />
                   </div>
                 ))}
               </div>
@@ -150,6 +228,9 @@ export function FilterPanel({ filters, onChange, onReset, entityType = "properti
                     data-testid={`filter-beds-${band}`}
                   >
                     {band}
+                    {facetCount("beds", band) !== undefined && (
+                      <span className="ml-1 text-xs tabular-nums opacity-70">{facetCount("beds", band)!.toLocaleString()}</span>
+                    )}
                   </Button>
                 ))}
               </div>
@@ -169,6 +250,9 @@ export function FilterPanel({ filters, onChange, onReset, entityType = "properti
                     data-testid={`filter-baths-${band}`}
                   >
                     {band}
+                    {facetCount("baths", band) !== undefined && (
+                      <span className="ml-1 text-xs tabular-nums opacity-70">{facetCount("baths", band)!.toLocaleString()}</span>
+                    )}
                   </Button>
                 ))}
               </div>
@@ -189,6 +273,7 @@ export function FilterPanel({ filters, onChange, onReset, entityType = "properti
                     <Label htmlFor={`year-${band}`} className="text-sm cursor-pointer">
                       {band}
                     </Label>
+                    <FacetCount count={facetCount("yearBuilt", band)} />
                   </div>
                 ))}
               </div>
@@ -209,6 +294,7 @@ export function FilterPanel({ filters, onChange, onReset, entityType = "properti
                     <Label htmlFor={`size-${band}`} className="text-sm cursor-pointer">
                       {band} sqft
                     </Label>
+                    <FacetCount count={facetCount("size", band)} />
                   </div>
                 ))}
               </div>
@@ -251,6 +337,21 @@ export function FilterPanel({ filters, onChange, onReset, entityType = "properti
               <span>Min: {filters.opportunityScoreMin || 0}</span>
               <span>Max: 100</span>
             </div>
+            {!isUnitsMode && scoreThresholds.length > 0 && (
+              <div className="space-y-1">
+                {scoreThresholds.map(({ min, count }) => (
+                  <button
+                    key={min}
+                    className="flex w-full items-center rounded-md px-2 py-1 text-sm hover-elevate"
+                    onClick={() => onChange({ ...filters, opportunityScoreMin: min })}
+                    data-testid={`filter-score-min-${min}`}
+                  >
+                    {min}+
+                    <FacetCount count={count} />
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
         </FilterSection>
 
@@ -271,10 +372,33 @@ export function FilterPanel({ filters, onChange, onReset, entityType = "properti
                     <Label htmlFor={`confidence-${level}`} className="text-sm cursor-pointer">
                       {level}
                     </Label>
+                    <FacetCount count={facetCount("confidenceLevel", level)} />
                   </div>
                 ))}
               </div>
             </FilterSection>
+
+            <Separator />
+
+            <FilterSection title="Distress Score" defaultOpen={false}>
+              <div className="space-y-4 px-1">
+                <Slider
+                  value={[filters.distressScoreMin || 0]}
+                  min={0}
+                  max={100}
+                  step={5}
+                  onValueChange={handleDistressChange}
+                  data-testid="filter-distress-slider"
+                />
+                <div className="flex items-center justify-between text-sm text-muted-foreground">
+                  <span>Min: {filters.distressScoreMin || 0}</span>
+                  <span>Max: 100</span>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  NYC lis pendens, tax lien sale lists and mortgages nearing maturity
+                </p>
+              </div>
+            </FilterSection>
           </>
         )}
       </div>
@@ -6,27 +6,12 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { SearchLimitUpgradeCard } from "@/components/SearchLimitUpgradeCard";
 import { cn } from "@/lib/utils";
+import type { BuildingSearchResult, GeoSearchResult, UnitSearchResult } from "@shared/schema";
 
 interface SearchResult {
-  buildings: Array<{
-    baseBbl: string;
-    displayAddress: string;
-    borough: string | null;
-    unitCount: number;
-  }>;
-  units: Array<{
-    unitBbl: string;
-    baseBbl: string;
-    unitDesignation: string | null;
-    displayAddress: string | null;
-    borough: string | null;
-  }>;
-  locations: Array<{
-    type: string;
-    id: string;
-    name: string;
-    state: string;
-  }>;
+  buildings: BuildingSearchResult[];
+  units: UnitSearchResult[];
+  locations: GeoSearchResult[];
 }
 
 interface RateLimitError {
@@ -38,6 +23,15 @@ interface RateLimitError {
 
 type EntityFilter = "all" | "buildings" | "units";
 
+const PLACE_KIND_LABELS: Record<string, string> = {
+  state: "State",
+  borough: "Borough",
+  county: "County",
+  town: "Town",
+  neighborhood: "Neighborhood",
+  zip: "ZIP Code",
+};
+
 export function GlobalSearch() {
   const [, navigate] = useLocation();
   const [query, setQuery] = useState("");
@@ -90,7 +84,7 @@ export function GlobalSearch() {
     return () => clearTimeout(timeoutId);
   }, [query, entityFilter]);
 
-  const handleSelect = (type: "building" | "unit" | "location", id: string, locationData?: { type: string; state: string }) => {
+  const handleSelect = (type: "building" | "unit" | "location", id: string, location?: GeoSearchResult) => {
     setIsOpen(false);
     setQuery("");
     
@@ -98,15 +92,14 @@ export function GlobalSearch() {
       navigate(`/building/${id}`);
     } else if (type === "unit") {
       navigate(`/unit/${id}`);
-    } else if (type === "location" && locationData) {
-      const { type: locType, state } = locationData;
-      if (locType === "zip") {
-        navigate(`/market-intelligence?state=${state}&zipCode=${id}`);
-      } else if (locType === "city") {
-        navigate(`/market-intelligence?state=${state}&city=${id}`);
-      } else if (locType === "neighborhood") {
-        navigate(`/market-intelligence?state=${state}&cd=${id}`);
-      }
+    } else if (type === "location" && location) {
+      const params = new URLSearchParams({
+        geoType: location.type,
+        geoId: location.id,
+        name: location.name,
+        state: location.state,
+      });
+      navigate(`/market-intelligence?${params.toString()}`);
     }
   };
 
@@ -223,6 +216,7 @@ export function GlobalSearch() {
                           <p className="font-medium truncate">{building.displayAddress}</p>
                           <p className="text-xs text-muted-foreground">
                             {building.borough} · {building.unitCount} units
+                            {building.matchType === "fuzzy" ? " · Closest match" : ""}
                           </p>
                         </div>
                         <Badge variant="secondary" className="shrink-0 text-xs">
@@ -254,6 +248,7 @@ export function GlobalSearch() {
                           </p>
                           <p className="text-xs text-muted-foreground truncate">
                             {unit.unitDesignation || ""}{unit.borough ? ` · ${unit.borough}` : "NYC"}
+                            {unit.matchType === "fuzzy" ? " · Closest match" : ""}
                           </p>
                         </div>
                         <Badge variant="secondary" className="shrink-0 text-xs bg-emerald-100 text-emerald-700 dark:bg-emerald-900 dark:text-emerald-300">
@@ -273,7 +268,7 @@ export function GlobalSearch() {
                       <button
                         key={`${location.type}-${location.id}`}
                         className="w-full flex items-center gap-3 p-3 hover-elevate text-left"
-                        onClick={() => handleSelect("location", location.id, { type: location.type, state: location.state })}
+                        onClick={() => handleSelect("location", location.id, location)}
                         data-testid={`result-location-${location.id}`}
                       >
                         <div className="flex h-8 w-8 items-center justify-center rounded-full bg-amber-100 dark:bg-amber-900 shrink-0">
@@ -281,8 +276,11 @@ export function GlobalSearch() {
                         </div>
                         <div className="flex-1 min-w-0">
                           <p className="font-medium truncate">{location.name}</p>
-                          <p className="text-xs text-muted-foreground">
-                            {location.state} · {location.type}
+                          <p className="text-xs text-muted-foreground truncate">
+                            {PLACE_KIND_LABELS[location.kind] || location.kind}
+                            {location.parentName && location.kind !== "neighborhood" ? ` · ${location.parentName}` : ""}
+                            {` · ${location.state}`}
+                            {location.matchedAlias ? ` · "${location.matchedAlias}"` : ""}
                           </p>
                         </div>
                       </button>
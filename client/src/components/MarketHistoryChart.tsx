@@ -0,0 +1,133 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ResponsiveContainer, ComposedChart, Line, Bar, XAxis, YAxis, Tooltip as RTooltip, CartesianGrid, Legend } from "recharts";
+import { Activity, LineChart } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { MarketAggregateSnapshot } from "@shared/schema";
+
+interface MarketHistoryChartProps {
+  geoType: string;
+  geoId: string;
+  state?: string;
+  propertyType?: string;
+  bedsBand?: string;
+  yearBuiltBand?: string;
+}
+
+type Metric = "price" | "ppsf";
+
+function formatPrice(value: number): string {
+  if (value >= 1000000) return `$${(value / 1000000).toFixed(1)}M`;
+  if (value >= 1000) return `$${(value / 1000).toFixed(0)}K`;
+  return `$${Math.round(value)}`;
+}
+
+function formatPeriod(period: string): string {
+  const [year, month] = period.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, 1)).toLocaleDateString("en-US", { month: "short", year: "2-digit", timeZone: "UTC" });
+}
+
+export function MarketHistoryChart({ geoType, geoId, state, propertyType, bedsBand, yearBuiltBand }: MarketHistoryChartProps) {
+  const [metric, setMetric] = useState<Metric>("price");
+
+  const { data: history, isLoading } = useQuery<MarketAggregateSnapshot[]>({
+    queryKey: ["/api/market/aggregates/history", geoType, geoId, state, propertyType, bedsBand, yearBuiltBand],
+    queryFn: async () => {
+      const params = new URLSearchParams({ geoType, geoId });
+      if (state) params.append("state", state);
+      if (propertyType && propertyType !== "all") params.append("propertyType", propertyType);
+      if (bedsBand && bedsBand !== "all") params.append("bedsBand", bedsBand);
+      if (yearBuiltBand && yearBuiltBand !== "all") params.append("yearBuiltBand", yearBuiltBand);
+
+      const res = await fetch(`/api/market/aggregates/history?${params.toString()}`, {
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error("Failed to fetch market history");
+      return res.json();
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex h-[320px] items-center justify-center">
+        <Activity className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!history || history.length < 2) {
+    return (
+      <div className="flex h-[200px] items-center justify-center" data-testid="market-history-empty">
+        <div className="text-center">
+          <LineChart className="mx-auto mb-3 h-10 w-10 text-muted-foreground" />
+          <p className="text-sm text-muted-foreground">
+            Not enough history yet. A snapshot is recorded each month the market data refreshes.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const data = history.map((row) => ({
+    period: row.period,
+    median: metric === "price" ? row.medianPrice : row.medianPricePerSqft,
+    p25: metric === "price" ? row.p25Price : row.p25PricePerSqft,
+    p75: metric === "price" ? row.p75Price : row.p75PricePerSqft,
+    transactionCount: row.transactionCount,
+  }));
+  const formatValue = (v: number) => (metric === "price" ? formatPrice(v) : `$${Math.round(v).toLocaleString()}`);
+
+  return (
+    <div className="space-y-4" data-testid="market-history-chart">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm font-medium">Monthly History</p>
+        <div className="flex gap-1">
+          <Button
+            size="sm"
+            variant={metric === "price" ? "default" : "outline"}
+            onClick={() => setMetric("price")}
+            data-testid="button-history-price"
+          >
+            Median Price
+          </Button>
+          <Button
+            size="sm"
+            variant={metric === "ppsf" ? "default" : "outline"}
+            onClick={() => setMetric("ppsf")}
+            data-testid="button-history-ppsf"
+          >
+            $/Sqft
+          </Button>
+        </div>
+      </div>
+      <div className="h-[320px] w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={data} margin={{ top: 8, right: 16, left: 8, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+            <XAxis dataKey="period" stroke="hsl(var(--muted-foreground))" fontSize={11} tickFormatter={formatPeriod} />
+            <YAxis yAxisId="value" stroke="hsl(var(--muted-foreground))" fontSize={11} tickFormatter={formatValue} />
+            <YAxis yAxisId="count" orientation="right" stroke="hsl(var(--muted-foreground))" fontSize={11} allowDecimals={false} />
+            <RTooltip
+              contentStyle={{
+                background: "hsl(var(--popover))",
+                border: "1px solid hsl(var(--border))",
+                borderRadius: "6px",
+                fontSize: "12px",
+              }}
+              formatter={(v: number, name: string) => {
+                if (name === "Transactions") return [v.toLocaleString(), name];
+                return [formatValue(v), name];
+              }}
+              labelFormatter={(p) => formatPeriod(String(p))}
+            />
+            <Legend wrapperStyle={{ fontSize: "12px" }} />
+            <Bar yAxisId="count" dataKey="transactionCount" fill="hsl(var(--muted-foreground) / 0.25)" name="Transactions" />
+            <Line yAxisId="value" type="monotone" dataKey="p25" stroke="hsl(217 91% 60% / 0.4)" strokeWidth={1} strokeDasharray="3 3" dot={false} name="25th %ile" connectNulls />
+            <Line yAxisId="value" type="monotone" dataKey="p75" stroke="hsl(217 91% 60% / 0.4)" strokeWidth={1} strokeDasharray="3 3" dot={false} name="75th %ile" connectNulls />
+            <Line yAxisId="value" type="monotone" dataKey="median" stroke="hsl(217 91% 60%)" strokeWidth={2.5} dot={{ r: 3 }} name={metric === "price" ? "Median Price" : "Median $/Sqft"} connectNulls />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
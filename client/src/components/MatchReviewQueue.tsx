@@ -0,0 +1,296 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Check, ChevronDown, ChevronRight, Link2, X } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { LoadingState } from "@/components/LoadingState";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type {
+  MatchCandidate,
+  MatchReviewAction,
+  MatchReviewGroup,
+  MatchReviewItem,
+} from "@shared/schema";
+
+const REASON_LABELS: Record<string, string> = {
+  no_unit_or_property_match: "No unit or property on the block/lot",
+  missing_bbl_components: "Missing borough, block or lot",
+  no_address_match: "No address match",
+  unmatched: "Unmatched source records",
+};
+
+function reasonLabel(reason: string): string {
+  if (REASON_LABELS[reason]) return REASON_LABELS[reason];
+  if (reason.startsWith("low_confidence_")) {
+    return `Low confidence: ${reason.slice("low_confidence_".length).replace(/_/g, " ")}`;
+  }
+  return reason.replace(/_/g, " ");
+}
+
+function groupKey(group: MatchReviewGroup): string {
+  return `${group.subjectType}:${group.reason}`;
+}
+
+interface DecisionInput {
+  item: MatchReviewItem;
+  reason: string;
+  action: MatchReviewAction;
+  propertyId?: string | null;
+  unitBbl?: string | null;
+}
+
+function ReviewItemDetail({
+  item,
+  onDecide,
+  isPending,
+}: {
+  item: MatchReviewItem;
+  onDecide: (input: Omit<DecisionInput, "item" | "reason">) => void;
+  isPending: boolean;
+}) {
+  const [manualTarget, setManualTarget] = useState("");
+  const { data: candidates, isLoading } = useQuery<MatchCandidate[]>({
+    queryKey: [
+      `/api/admin/match-review/candidates?subjectType=${item.subjectType}&subjectKey=${encodeURIComponent(item.subjectKey)}`,
+    ],
+  });
+
+  // Unit BBLs are ten digits; anything else is taken as a property id
+  const reassignManually = () => {
+    const target = manualTarget.trim();
+    if (!target) return;
+    onDecide(/^\d{10}$/.test(target) ? { action: "reassign", unitBbl: target } : { action: "reassign", propertyId: target });
+  };
+
+  return (
+    <div className="space-y-3 border-t pt-3">
+      {item.currentPropertyId && (
+        <div className="flex items-center justify-between gap-3 rounded-md bg-muted/50 p-2 text-sm">
+          <span>
+            Currently matched to <span className="font-medium">{item.currentAddress || item.currentPropertyId}</span>
+          </span>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => onDecide({ action: "accept" })}
+            disabled={isPending}
+            data-testid={`button-accept-current-${item.subjectKey}`}
+          >
+            <Check className="mr-2 h-4 w-4" />
+            Accept
+          </Button>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <p className="text-xs font-medium uppercase text-muted-foreground">Suggested matches</p>
+        {isLoading ? (
+          <LoadingState type="skeleton-list" count={2} />
+        ) : !candidates || candidates.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No nearby lots or address matches found.</p>
+        ) : (
+          candidates.map((candidate) => (
+            <div
+              key={candidate.unitBbl || candidate.propertyId}
+              className="flex items-center justify-between gap-3 rounded-md border p-2 text-sm"
+            >
+              <div>
+                <p className="font-medium">{candidate.address}</p>
+                <p className="text-xs text-muted-foreground">
+                  {candidate.bbl ? `BBL ${candidate.bbl} • ` : ""}
+                  {candidate.detail}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Badge variant="outline">{candidate.via === "block_lot" ? "Block/lot" : "Address"}</Badge>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() =>
+                    onDecide({
+                      action: item.currentPropertyId ? "reassign" : "accept",
+                      propertyId: candidate.propertyId,
+                      unitBbl: candidate.unitBbl,
+                    })
+                  }
+                  disabled={isPending}
+                  data-testid={`button-use-candidate-${candidate.unitBbl || candidate.propertyId}`}
+                >
+                  <Link2 className="mr-2 h-4 w-4" />
+                  Use
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          value={manualTarget}
+          onChange={(e) => setManualTarget(e.target.value)}
+          placeholder="Property ID or unit BBL"
+          className="h-8 max-w-xs"
+          data-testid={`input-reassign-${item.subjectKey}`}
+        />
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={reassignManually}
+          disabled={isPending || !manualTarget.trim()}
+          data-testid={`button-reassign-${item.subjectKey}`}
+        >
+          Reassign
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="text-red-600 dark:text-red-400"
+          onClick={() => onDecide({ action: "reject" })}
+          disabled={isPending}
+          data-testid={`button-reject-${item.subjectKey}`}
+        >
+          <X className="mr-2 h-4 w-4" />
+          Reject
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function MatchReviewQueue() {
+  const { toast } = useToast();
+  const [selectedGroup, setSelectedGroup] = useState<string | null>(null);
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+
+  const { data: groups, isLoading } = useQuery<MatchReviewGroup[]>({
+    queryKey: ["/api/admin/match-review"],
+  });
+
+  const decideMutation = useMutation({
+    mutationFn: async ({ item, reason, ...decision }: DecisionInput) => {
+      await apiRequest("POST", "/api/admin/match-review/decisions", {
+        subjectType: item.subjectType,
+        subjectKey: item.subjectKey,
+        reason,
+        ...decision,
+      });
+    },
+    onSuccess: (_data, { action }) => {
+      toast({
+        title: action === "reject" ? "Match rejected" : "Match saved",
+        description: "The decision will be reapplied on future ETL runs.",
+      });
+      setExpandedKey(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/match-review"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not save decision", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const active = groups?.find((g) => groupKey(g) === selectedGroup) || groups?.[0];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Match Review</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <LoadingState type="skeleton-list" count={5} />
+        ) : !groups || groups.length === 0 || !active ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            Nothing to review. Unresolved sales and low-confidence matches appear here after matching runs.
+          </p>
+        ) : (
+          <div className="grid gap-6 lg:grid-cols-3">
+            <div className="space-y-2">
+              {groups.map((group) => (
+                <button
+                  key={groupKey(group)}
+                  type="button"
+                  onClick={() => {
+                    setSelectedGroup(groupKey(group));
+                    setExpandedKey(null);
+                  }}
+                  className={`flex w-full items-center justify-between gap-3 rounded-lg border p-3 text-left hover-elevate ${
+                    groupKey(group) === groupKey(active) ? "border-primary bg-primary/5" : ""
+                  }`}
+                  data-testid={`button-review-group-${groupKey(group)}`}
+                >
+                  <div>
+                    <p className="text-sm font-medium">{reasonLabel(group.reason)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {group.subjectType === "sale" ? "Sales" : "Entity matches"}
+                    </p>
+                  </div>
+                  <Badge variant="outline" className="tabular-nums">
+                    {group.count.toLocaleString()}
+                  </Badge>
+                </button>
+              ))}
+            </div>
+
+            <div className="space-y-3 lg:col-span-2">
+              {active.count > active.items.length && (
+                <p className="text-sm text-muted-foreground">
+                  Showing {active.items.length} of {active.count.toLocaleString()}
+                </p>
+              )}
+              {active.items.map((item) => {
+                const expanded = expandedKey === item.subjectKey;
+                return (
+                  <div
+                    key={item.subjectKey}
+                    className="space-y-3 rounded-lg border p-3"
+                    data-testid={`review-item-${item.sourceRecordId}`}
+                  >
+                    <button
+                      type="button"
+                      className="flex w-full items-center gap-2 text-left"
+                      onClick={() => setExpandedKey(expanded ? null : item.subjectKey)}
+                    >
+                      {expanded ? (
+                        <ChevronDown className="h-4 w-4 text-muted-foreground" />
+                      ) : (
+                        <ChevronRight className="h-4 w-4 text-muted-foreground" />
+                      )}
+                      <div className="flex-1">
+                        <p className="font-medium">{item.address || item.sourceRecordId}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {[
+                            item.sourceSystem,
+                            item.bbl && `BBL ${item.bbl}`,
+                            item.detail,
+                          ]
+                            .filter(Boolean)
+                            .join(" • ")}
+                        </p>
+                      </div>
+                      {item.matchConfidence !== null && (
+                        <Badge variant="outline" className="tabular-nums">
+                          {Math.round(item.matchConfidence * 100)}%
+                        </Badge>
+                      )}
+                    </button>
+                    {expanded && (
+                      <ReviewItemDetail
+                        item={item}
+                        isPending={decideMutation.isPending}
+                        onDecide={(decision) => decideMutation.mutate({ item, reason: active.reason, ...decision })}
+                      />
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -18,7 +18,8 @@ import {
   Info,
   TrendingUp,
   TrendingDown,
-  Minus
+  Minus,
+  Gavel
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -35,7 +36,7 @@ import {
   CollapsibleContent,
   CollapsibleTrigger,
 } from "@/components/ui/collapsible";
-import type { PropertySignalSummary } from "@shared/schema";
+import type { DistressEvidence, FloodScenario, PropertySignalSummary } from "@shared/schema";
 
 interface SignalResponse {
   hasDeepCoverage: boolean;
@@ -305,6 +306,31 @@ function getBuildingHealthExplanation(signals: PropertySignalSummary): string[]
   return bullets;
 }
 
+const FLOOD_SCENARIO_LABELS: Record<FloodScenario, string> = {
+  slr_2050s_100yr: "2050s 100-year floodplain (sea level rise)",
+  slr_2080s_100yr: "2080s 100-year floodplain (sea level rise)",
+  stormwater_moderate_2050: "Moderate stormwater flood, 2050 sea levels",
+  stormwater_extreme_2080: "Extreme stormwater flood, 2080 sea levels",
+};
+
+function formatDistance(meters: number): string {
+  return meters >= 1000 ? `${(meters / 1000).toFixed(1)} km` : `${meters} m`;
+}
+
+const DISTRESS_LEVEL_STYLES: Record<string, string> = {
+  none: "bg-emerald-100 text-emerald-700 dark:bg-emerald-900 dark:text-emerald-300",
+  low: "bg-yellow-100 text-yellow-700 dark:bg-yellow-900 dark:text-yellow-300",
+  elevated: "bg-orange-100 text-orange-700 dark:bg-orange-900 dark:text-orange-300",
+  high: "bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-300",
+};
+
+function formatLoanAge(months: number): string {
+  if (months < 12) return `${months} mo`;
+  const years = Math.floor(months / 12);
+  const rest = months % 12;
+  return rest > 0 ? `${years} yr ${rest} mo` : `${years} yr`;
+}
+
 function getFloodRiskExplanation(signals: PropertySignalSummary): string[] {
   const bullets: string[] = [];
   
@@ -320,6 +346,21 @@ function getFloodRiskExplanation(signals: PropertySignalSummary): string[] {
     
     bullets.push(zoneDescriptions[signals.floodZone] || `FEMA Zone ${signals.floodZone}`);
   }
+
+  if (signals.floodDataSource === "fema_nfhl") {
+    bullets.push("Zone from the FEMA National Flood Hazard Layer polygon containing this property");
+  } else if (signals.floodZone) {
+    bullets.push("Zone estimated from location; FEMA flood maps have not been matched to this property");
+  }
+  if (signals.baseFloodElevation !== null) {
+    bullets.push(`Base flood elevation: ${signals.baseFloodElevation} ft`);
+  }
+  if (signals.floodHighRiskDistanceMeters !== null && signals.floodHighRiskDistanceMeters > 0) {
+    bullets.push(`${formatDistance(signals.floodHighRiskDistanceMeters)} from the nearest high-risk (A/V) flood zone`);
+  }
+  for (const scenario of signals.futureFloodScenarios || []) {
+    bullets.push(`Floods in the NYC ${FLOOD_SCENARIO_LABELS[scenario as FloodScenario] || scenario} scenario`);
+  }
   
   if (signals.isFloodHighRisk) {
     bullets.push("Flood insurance required if mortgaged");
@@ -705,7 +746,9 @@ export function NycDeepInsights({ propertyId, city, state }: NycDeepInsightsProp
               </CardTitle>
               <DataSourceBadge type="building" />
             </div>
-            <CardDescription>FEMA flood zone classification</CardDescription>
+            <CardDescription>
+              {signals.floodDataSource === "fema_nfhl" ? "FEMA flood hazard map" : "Estimated FEMA flood zone"}
+            </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
             <div className="flex items-center gap-3">
@@ -718,6 +761,36 @@ export function NycDeepInsights({ propertyId, city, state }: NycDeepInsightsProp
                 <span className="text-muted-foreground">Zone data unavailable</span>
               )}
             </div>
+            {(signals.baseFloodElevation !== null || signals.floodHighRiskDistanceMeters !== null) && (
+              <div className="grid grid-cols-2 gap-3 text-sm">
+                {signals.baseFloodElevation !== null && (
+                  <div data-testid="text-base-flood-elevation">
+                    <div className="text-xs text-muted-foreground">Base flood elevation</div>
+                    <div className="font-medium">{signals.baseFloodElevation} ft</div>
+                  </div>
+                )}
+                {signals.floodHighRiskDistanceMeters !== null && (
+                  <div data-testid="text-flood-distance">
+                    <div className="text-xs text-muted-foreground">To nearest high-risk zone</div>
+                    <div className="font-medium">
+                      {signals.floodHighRiskDistanceMeters === 0 ? "Inside" : formatDistance(signals.floodHighRiskDistanceMeters)}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+            {signals.futureFloodScenarios && signals.futureFloodScenarios.length > 0 && (
+              <div className="space-y-1" data-testid="list-future-flood-scenarios">
+                <div className="text-xs text-muted-foreground">Future flood scenarios</div>
+                <div className="flex flex-wrap gap-1">
+                  {signals.futureFloodScenarios.map((scenario) => (
+                    <Badge key={scenario} variant="outline" className="text-xs">
+                      {FLOOD_SCENARIO_LABELS[scenario as FloodScenario] || scenario}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            )}
             <div className="text-sm text-muted-foreground">
               {signals.isFloodHighRisk && (
                 <p className="text-orange-600 dark:text-orange-400">
@@ -731,7 +804,8 @@ export function NycDeepInsights({ propertyId, city, state }: NycDeepInsightsProp
               )}
               {!signals.isFloodHighRisk && !signals.isFloodModerateRisk && signals.floodZone && (
                 <p className="text-emerald-600 dark:text-emerald-400">
-                  This property has minimal flood risk based on FEMA mapping.
+                  This property has minimal flood risk based on FEMA mapping
+                  {signals.futureFloodScenarios && signals.futureFloodScenarios.length > 0 ? ", but floods in future scenarios." : "."}
                 </p>
               )}
             </div>
@@ -744,6 +818,69 @@ export function NycDeepInsights({ propertyId, city, state }: NycDeepInsightsProp
           </CardContent>
         </Card>
 
+        {signals.distressLevel && (
+          <Card className="md:col-span-2" data-testid="card-distress-signals">
+            <CardHeader className="pb-2">
+              <div className="flex items-center justify-between">
+                <CardTitle className="flex items-center gap-2 text-base">
+                  <Gavel className="h-5 w-5 text-primary" />
+                  Distress Signals
+                </CardTitle>
+                <DataSourceBadge type="building" />
+              </div>
+              <CardDescription>Lis pendens, tax lien sale lists and mortgage maturity</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-2xl font-bold" data-testid="text-distress-score">{signals.distressScore ?? 0}</span>
+                    <Badge variant="secondary" className={DISTRESS_LEVEL_STYLES[signals.distressLevel]}>
+                      {signals.distressLevel.charAt(0).toUpperCase() + signals.distressLevel.slice(1)}
+                    </Badge>
+                  </div>
+                  <div className="text-xs text-muted-foreground">Distress Score</div>
+                </div>
+                <div>
+                  <div className="text-lg font-semibold">{signals.activeLisPendens || 0}</div>
+                  <div className="text-xs text-muted-foreground">Pending Lis Pendens</div>
+                </div>
+                <div>
+                  <div className="text-lg font-semibold">
+                    {signals.loanAgeMonths !== null ? formatLoanAge(signals.loanAgeMonths) : "--"}
+                  </div>
+                  <div className="text-xs text-muted-foreground">Mortgage Age</div>
+                </div>
+                <div>
+                  <div className="text-lg font-semibold" data-testid="text-estimated-maturity">
+                    {signals.estimatedMaturityDate
+                      ? new Date(signals.estimatedMaturityDate).toLocaleDateString("en-US", { month: "short", year: "numeric" })
+                      : "--"}
+                  </div>
+                  <div className="text-xs text-muted-foreground">Est. Maturity</div>
+                </div>
+              </div>
+              {(signals.distressEvidence as DistressEvidence[] | null)?.length ? (
+                <ul className="space-y-1 text-sm" data-testid="list-distress-evidence">
+                  {(signals.distressEvidence as DistressEvidence[]).map((e) => (
+                    <li key={`${e.flag}-${e.sourceId}`} className="flex items-center justify-between gap-2">
+                      <span>{e.label}</span>
+                      <span className="shrink-0 text-xs text-muted-foreground tabular-nums">+{e.points}</span>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  No lis pendens, tax lien listing or maturing mortgage on record.
+                </p>
+              )}
+              <p className="text-xs text-muted-foreground">
+                Maturity assumes a 10-year term for apartment, commercial and mixed-use loans and 30 years otherwise.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
         <Card className="md:col-span-2">
           <CardHeader className="pb-2">
             <div className="flex items-center justify-between">
@@ -1,4 +1,4 @@
-import { Info, HelpCircle, TrendingUp, CheckCircle } from "lucide-react";
+import { Info, HelpCircle, TrendingUp, CheckCircle, FileText } from "lucide-react";
 import { cn } from "@/lib/utils";
 import {
   Tooltip,
@@ -11,7 +11,7 @@ const BREAKDOWN_EXPLANATIONS: Record<string, string> = {
   Mispricing: "How much the property is priced below market value based on comparables.",
   Confidence: "Reliability of our estimate based on data quality and comp matches.",
   Liquidity: "How quickly similar properties sell in this market.",
-  Risk: "Market stability and potential downside factors.",
+  Risk: "Market stability and potential downside factors. Higher is safer.",
   "Value-Add": "Improvement potential to increase property value.",
 };
 
@@ -149,6 +149,26 @@ export function OpportunityScore({
               </ul>
             </div>
           )}
+
+          {breakdown.evidence.length > 0 && (
+            <div className="space-y-2 rounded-lg border p-3">
+              <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
+                Evidence
+              </p>
+              <ul className="space-y-1.5">
+                {breakdown.evidence.map((item) => (
+                  <li
+                    key={`${item.type}-${item.id}`}
+                    className="flex items-start gap-2 text-sm text-muted-foreground"
+                    data-testid={`evidence-${item.type}-${item.id}`}
+                  >
+                    <FileText className="h-4 w-4 shrink-0 mt-0.5" />
+                    <span>{item.description}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
       )}
     </div>
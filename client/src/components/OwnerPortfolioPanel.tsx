@@ -0,0 +1,219 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { format } from "date-fns";
+import { Briefcase, Building2, Landmark, Link2, Users } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { OwnerProfile } from "@shared/schema";
+
+interface OwnerPortfolioPanelProps {
+  propertyId?: string;
+  baseBbl?: string;
+}
+
+const ENTITY_TYPE_LABELS: Record<string, string> = {
+  llc: "LLC",
+  corporation: "Corporation",
+  partnership: "Partnership",
+  trust: "Trust",
+  bank: "Bank",
+  government: "Government",
+  individual: "Individual",
+  other: "Owner",
+};
+
+const LINK_TYPE_LABELS: Record<string, string> = {
+  shared_address: "Same mailing address",
+  shared_signatory: "Shared officer",
+};
+
+const MAX_HOLDINGS = 8;
+
+function formatPrice(price: number) {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: "USD",
+    notation: price >= 1_000_000 ? "compact" : "standard",
+    maximumFractionDigits: price >= 1_000_000 ? 1 : 0,
+  }).format(price);
+}
+
+function formatDate(date: Date | string) {
+  return format(new Date(date), "MMM yyyy");
+}
+
+export function OwnerPortfolioPanel({ propertyId, baseBbl }: OwnerPortfolioPanelProps) {
+  const queryKey = propertyId ? ["/api/properties", propertyId, "owner"] : ["/api/buildings", baseBbl, "owner"];
+  const { data: profile, isLoading } = useQuery<OwnerProfile | null>({
+    queryKey,
+    enabled: !!(propertyId || baseBbl),
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-48 w-full" />;
+  }
+
+  if (!profile) {
+    return (
+      <Card data-testid="card-owner-portfolio">
+        <CardHeader>
+          <CardTitle className="text-base flex items-center gap-2">
+            <Briefcase className="h-4 w-4 text-muted-foreground" />
+            Owner Portfolio
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-muted-foreground">
+            No recorded deed names the current owner yet.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { entity, cadence } = profile;
+  const otherHoldings = profile.holdings.filter((h) =>
+    propertyId ? h.propertyId !== propertyId : h.bbl !== baseBbl
+  );
+  const maxYearCount = Math.max(1, ...profile.acquisitionsByYear.map((y) => y.count));
+  const otherSpellings = profile.aliases.filter((a) => a.rawName !== entity.name);
+
+  return (
+    <Card data-testid="card-owner-portfolio">
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Briefcase className="h-4 w-4 text-muted-foreground" />
+          Owner Portfolio
+        </CardTitle>
+        <CardDescription>
+          Current owner from ACRIS deed records, with the other properties it holds
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="font-semibold" data-testid="text-owner-name">{entity.name}</span>
+          <Badge variant="secondary">{ENTITY_TYPE_LABELS[entity.entityType] || entity.entityType}</Badge>
+          {profile.group && (
+            <Badge variant="outline" data-testid="badge-owner-group">
+              <Users className="mr-1 h-3 w-3" />
+              Group of {profile.group.entityCount} entities · {profile.group.propertyCount} properties
+            </Badge>
+          )}
+        </div>
+        {otherSpellings.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            Also recorded as {otherSpellings.slice(0, 3).map((a) => a.rawName).join(", ")}
+          </p>
+        )}
+
+        <div className="grid grid-cols-2 gap-4 sm:grid-cols-4 text-sm">
+          <div>
+            <p className="text-muted-foreground">Properties held</p>
+            <p className="font-semibold" data-testid="text-owner-property-count">{entity.propertyCount ?? 0}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Acquisitions</p>
+            <p className="font-semibold">{entity.acquisitionCount ?? 0}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Buys every</p>
+            <p className="font-semibold" data-testid="text-owner-cadence">
+              {cadence.medianMonthsBetween === null ? "—" : `${cadence.medianMonthsBetween} mo`}
+            </p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Last 12 months</p>
+            <p className="font-semibold">{cadence.last12Months}</p>
+          </div>
+        </div>
+
+        {profile.acquisitionsByYear.length > 1 && (
+          <div className="flex h-12 items-end gap-1" data-testid="chart-owner-acquisitions">
+            {profile.acquisitionsByYear.map((y) => (
+              <div
+                key={y.year}
+                className="flex-1 rounded-sm bg-primary/60"
+                style={{ height: `${Math.max(8, (y.count / maxYearCount) * 100)}%` }}
+                title={`${y.year}: ${y.count} acquisition${y.count === 1 ? "" : "s"}`}
+              />
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <p className="flex items-center gap-1.5 text-sm font-medium">
+            <Building2 className="h-4 w-4 text-muted-foreground" />
+            Other holdings
+          </p>
+          {otherHoldings.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No other current holdings on record.</p>
+          ) : (
+            <ul className="divide-y text-sm">
+              {otherHoldings.slice(0, MAX_HOLDINGS).map((h) => (
+                <li key={`${h.bbl}-${h.propertyId}`} className="flex items-center justify-between gap-2 py-1.5" data-testid={`row-owner-holding-${h.bbl}`}>
+                  {h.propertyId ? (
+                    <Link href={`/property/${h.propertyId}`} className="truncate hover:underline">
+                      {h.address || `BBL ${h.bbl}`}
+                    </Link>
+                  ) : (
+                    <span className="truncate">{h.address || `BBL ${h.bbl}`}</span>
+                  )}
+                  <span className="shrink-0 text-xs text-muted-foreground tabular-nums">
+                    {formatDate(h.acquiredAt)}
+                    {h.price ? ` · ${formatPrice(h.price)}` : ""}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+          {otherHoldings.length > MAX_HOLDINGS && (
+            <p className="text-xs text-muted-foreground">and {otherHoldings.length - MAX_HOLDINGS} more</p>
+          )}
+        </div>
+
+        {profile.lenders.length > 0 && (
+          <div className="space-y-2">
+            <p className="flex items-center gap-1.5 text-sm font-medium">
+              <Landmark className="h-4 w-4 text-muted-foreground" />
+              Lenders
+            </p>
+            <ul className="space-y-1 text-sm">
+              {profile.lenders.slice(0, 5).map((l) => (
+                <li key={l.id} className="flex items-center justify-between gap-2">
+                  <span className="truncate">{l.name}</span>
+                  <span className="shrink-0 text-xs text-muted-foreground tabular-nums">
+                    {l.loanCount} loan{l.loanCount === 1 ? "" : "s"}
+                    {l.totalAmount ? ` · ${formatPrice(l.totalAmount)}` : ""} · last {formatDate(l.lastLoanDate)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {profile.linkedEntities.length > 0 && (
+          <div className="space-y-2">
+            <p className="flex items-center gap-1.5 text-sm font-medium">
+              <Link2 className="h-4 w-4 text-muted-foreground" />
+              Related entities
+            </p>
+            <ul className="space-y-1 text-sm">
+              {profile.linkedEntities.slice(0, 6).map((e) => (
+                <li key={`${e.id}-${e.linkType}`} className="flex items-center justify-between gap-2">
+                  <span className="truncate">
+                    {e.name}
+                    <span className="text-muted-foreground"> · {e.propertyCount} properties</span>
+                  </span>
+                  <Badge variant="outline" className="shrink-0 text-xs" title={e.evidence || undefined}>
+                    {LINK_TYPE_LABELS[e.linkType] || e.linkType}
+                  </Badge>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,15 +1,16 @@
 import { useCallback, useRef, useMemo, useState } from "react";
-import { GoogleMap, Marker, InfoWindow } from "@react-google-maps/api";
+import { GoogleMap, Marker, InfoWindow, Polygon, Polyline, Circle } from "@react-google-maps/api";
 import { MapProvider, useMap } from "./MapProvider";
 import { StaticMapImage } from "./StaticMapImage";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Bed, Bath, Square, MapPin, ExternalLink, Map as MapIcon } from "lucide-react";
+import { Bed, Bath, Square, MapPin, ExternalLink, Map as MapIcon, PenLine, CircleDot, Check, X } from "lucide-react";
 import { Link } from "wouter";
 import { cn } from "@/lib/utils";
 import { getPropertyUrl, formatPropertyAddress } from "@/lib/propertySlug";
-import type { Property } from "@shared/schema";
+import { MAX_SEARCH_AREA_VERTICES, MAX_SEARCH_RADIUS_METERS } from "@shared/schema";
+import type { Property, NeighborhoodBoundaryFeature, SearchArea } from "@shared/schema";
 
 interface PropertyMapProps {
   properties: Property[];
@@ -22,10 +23,42 @@ interface PropertyMapProps {
   selectedPropertyId?: string;
   getMarkerUrl?: (property: Property) => string;
   interactiveByDefault?: boolean;
+  // Neighborhood polygon drawn under the markers and included in the fit
+  boundary?: NeighborhoodBoundaryFeature | null;
+  // Drawn search area; the draw controls are shown when onSearchAreaChange is set
+  searchArea?: SearchArea | null;
+  onSearchAreaChange?: (area: SearchArea | null) => void;
 }
 
+type DrawMode = "polygon" | "radius" | null;
+
 const defaultCenter = { lat: 40.7128, lng: -74.006 };
 
+const boundaryOptions: google.maps.PolygonOptions = {
+  fillColor: "#2563eb",
+  fillOpacity: 0.08,
+  strokeColor: "#2563eb",
+  strokeOpacity: 0.8,
+  strokeWeight: 2,
+  clickable: false,
+};
+
+const searchAreaOptions = {
+  fillColor: "#16a34a",
+  fillOpacity: 0.08,
+  strokeColor: "#16a34a",
+  strokeOpacity: 0.9,
+  strokeWeight: 2,
+  clickable: false,
+};
+
+const draftOptions: google.maps.PolylineOptions = {
+  strokeColor: "#16a34a",
+  strokeOpacity: 0.9,
+  strokeWeight: 2,
+  clickable: false,
+};
+
 const mapContainerStyle = {
   width: "100%",
   height: "100%",
@@ -137,10 +170,15 @@ function PropertyMapInner({
   onPropertySelect,
   selectedPropertyId,
   getMarkerUrl,
+  boundary,
+  searchArea,
+  onSearchAreaChange,
 }: PropertyMapProps) {
   const { isLoaded, loadError, hasApiKey, authError } = useMap();
   const mapRef = useRef<google.maps.Map | null>(null);
   const [selectedProperty, setSelectedProperty] = useState<Property | null>(null);
+  const [drawMode, setDrawMode] = useState<DrawMode>(null);
+  const [draftPoints, setDraftPoints] = useState<google.maps.LatLngLiteral[]>([]);
 
   const validProperties = useMemo(
     () => properties.filter((p) => p.latitude && p.longitude),
@@ -168,6 +206,20 @@ function PropertyMapInner({
     return validProperties;
   }, [showStandaloneSubject, subjectProperty, validProperties]);
 
+  // One path list per polygon: the outer ring followed by its holes
+  const boundaryPaths = useMemo(
+    () =>
+      (boundary?.geometry.coordinates || []).map((polygon) =>
+        polygon.map((ring) => ring.map(([lng, lat]) => ({ lat, lng })))
+      ),
+    [boundary]
+  );
+
+  const searchAreaPath = useMemo(
+    () => (searchArea?.type === "polygon" ? searchArea.coordinates.map(([lng, lat]) => ({ lat, lng })) : []),
+    [searchArea]
+  );
+
   const mapCenter = useMemo(() => {
     if (center) return center;
     if (subjectProperty?.latitude && subjectProperty?.longitude) {
@@ -183,16 +235,21 @@ function PropertyMapInner({
   const onMapLoad = useCallback((map: google.maps.Map) => {
     mapRef.current = map;
 
-    if (allMarkers.length > 0) {
+    if (allMarkers.length > 0 || boundaryPaths.length > 0 || searchArea) {
       const bounds = new google.maps.LatLngBounds();
       allMarkers.forEach((p) => {
         bounds.extend({ lat: p.latitude!, lng: p.longitude! });
       });
+      boundaryPaths.forEach((polygon) => polygon[0]?.forEach((point) => bounds.extend(point)));
+      searchAreaPath.forEach((point) => bounds.extend(point));
+      if (searchArea?.type === "radius") {
+        bounds.union(new google.maps.Circle({ center: searchArea.center, radius: searchArea.radiusMeters }).getBounds()!);
+      }
       map.fitBounds(bounds, { top: 50, right: 50, bottom: 50, left: 50 });
 
       setTimeout(() => {
         const currentZoom = map.getZoom();
-        if (allMarkers.length <= 10) {
+        if (allMarkers.length <= 10 && boundaryPaths.length === 0) {
           if (currentZoom !== undefined && currentZoom < 14) {
             map.setZoom(14);
           } else if (currentZoom !== undefined && currentZoom > 17) {
@@ -201,12 +258,52 @@ function PropertyMapInner({
         }
       }, 100);
     }
-  }, [allMarkers]);
+  }, [allMarkers, boundaryPaths, searchArea, searchAreaPath]);
 
   const onMapUnmount = useCallback(() => {
     mapRef.current = null;
   }, []);
 
+  const startDrawing = (mode: DrawMode) => {
+    setDraftPoints([]);
+    setDrawMode(mode);
+  };
+
+  const cancelDrawing = () => {
+    setDraftPoints([]);
+    setDrawMode(null);
+  };
+
+  const finishPolygon = () => {
+    if (draftPoints.length < 3) return;
+    onSearchAreaChange?.({ type: "polygon", coordinates: draftPoints.map((p) => [p.lng, p.lat] as [number, number]) });
+    cancelDrawing();
+  };
+
+  // Polygon mode adds a vertex per click; radius mode takes the center, then
+  // a point on the edge
+  const handleMapClick = useCallback((e: google.maps.MapMouseEvent) => {
+    if (!drawMode || !e.latLng) return;
+    const point = { lat: e.latLng.lat(), lng: e.latLng.lng() };
+    if (drawMode === "polygon") {
+      setDraftPoints((points) => (points.length < MAX_SEARCH_AREA_VERTICES ? [...points, point] : points));
+      return;
+    }
+    if (draftPoints.length === 0) {
+      setDraftPoints([point]);
+      return;
+    }
+    const center = draftPoints[0];
+    const radius = google.maps.geometry.spherical.computeDistanceBetween(center, point);
+    onSearchAreaChange?.({
+      type: "radius",
+      center,
+      radiusMeters: Math.max(50, Math.min(MAX_SEARCH_RADIUS_METERS, Math.round(radius))),
+    });
+    setDraftPoints([]);
+    setDrawMode(null);
+  }, [drawMode, draftPoints, onSearchAreaChange]);
+
   const handleMarkerClick = useCallback((property: Property) => {
     setSelectedProperty(property);
     onPropertySelect?.(property);
@@ -305,7 +402,23 @@ function PropertyMapInner({
         options={mapOptions}
         onLoad={onMapLoad}
         onUnmount={onMapUnmount}
+        onClick={handleMapClick}
       >
+        {boundaryPaths.map((paths, i) => (
+          <Polygon key={i} paths={paths} options={boundaryOptions} />
+        ))}
+        {searchArea?.type === "polygon" && !drawMode && (
+          <Polygon paths={searchAreaPath} options={searchAreaOptions} />
+        )}
+        {searchArea?.type === "radius" && !drawMode && (
+          <Circle center={searchArea.center} radius={searchArea.radiusMeters} options={searchAreaOptions} />
+        )}
+        {drawMode === "polygon" && draftPoints.length > 0 && (
+          <Polyline path={draftPoints} options={draftOptions} />
+        )}
+        {drawMode === "radius" && draftPoints.length === 1 && (
+          <Marker position={draftPoints[0]} clickable={false} />
+        )}
         {allMarkers.map((property) => {
           const isSubject = subjectProperty?.id === property.id;
           return (
@@ -435,6 +548,46 @@ function PropertyMapInner({
         </div>
       )}
 
+      {onSearchAreaChange && (
+        <div className="absolute top-4 left-4 z-10 flex flex-wrap gap-2" data-testid="map-draw-controls">
+          {drawMode ? (
+            <>
+              <Badge variant="secondary" className="shadow-lg">
+                {drawMode === "polygon"
+                  ? `Click to add points (${draftPoints.length})`
+                  : draftPoints.length === 0 ? "Click the center" : "Click the edge of the circle"}
+              </Badge>
+              {drawMode === "polygon" && (
+                <Button size="sm" className="h-7 shadow-lg" onClick={finishPolygon} disabled={draftPoints.length < 3} data-testid="button-finish-area">
+                  <Check className="mr-1 h-3 w-3" />
+                  Done
+                </Button>
+              )}
+              <Button size="sm" variant="secondary" className="h-7 shadow-lg" onClick={cancelDrawing} data-testid="button-cancel-area">
+                Cancel
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button size="sm" variant="secondary" className="h-7 shadow-lg" onClick={() => startDrawing("polygon")} data-testid="button-draw-polygon">
+                <PenLine className="mr-1 h-3 w-3" />
+                Draw area
+              </Button>
+              <Button size="sm" variant="secondary" className="h-7 shadow-lg" onClick={() => startDrawing("radius")} data-testid="button-draw-radius">
+                <CircleDot className="mr-1 h-3 w-3" />
+                Radius
+              </Button>
+              {searchArea && (
+                <Button size="sm" variant="secondary" className="h-7 shadow-lg" onClick={() => onSearchAreaChange(null)} data-testid="button-clear-area">
+                  <X className="mr-1 h-3 w-3" />
+                  Clear area
+                </Button>
+              )}
+            </>
+          )}
+        </div>
+      )}
+
       <div className="absolute top-4 right-4 z-10">
         <Badge variant="secondary" className="shadow-lg">
           {validProperties.length} {validProperties.length === 1 ? "property" : "properties"}
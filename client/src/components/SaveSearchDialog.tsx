@@ -55,6 +55,16 @@ function getFilterSummary(filters: ScreenerFilters): string[] {
   if (filters.opportunityScoreMin) {
     summary.push(`Score ${filters.opportunityScoreMin}+`);
   }
+  if (filters.distressScoreMin) {
+    summary.push(`Distress ${filters.distressScoreMin}+`);
+  }
+  if (filters.area) {
+    summary.push(
+      filters.area.type === "radius"
+        ? `Within ${(filters.area.radiusMeters / 1000).toFixed(1)} km of a point`
+        : "Inside a drawn area"
+    );
+  }
   if (filters.bedsBands?.length) {
     summary.push(`${filters.bedsBands.join(', ')} beds`);
   }
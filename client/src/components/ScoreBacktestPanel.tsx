@@ -0,0 +1,181 @@
+import { useQuery } from "@tanstack/react-query";
+import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip as RTooltip, CartesianGrid, ReferenceLine, Cell } from "recharts";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { LoadingState } from "@/components/LoadingState";
+import type { ScoreBacktest, ScoreBacktestReport, ScoreBacktestRow } from "@shared/schema";
+
+function pct(value: number | null | undefined): string {
+  if (value === null || value === undefined) return "—";
+  return `${value > 0 ? "+" : ""}${(value * 100).toFixed(1)}%`;
+}
+
+function share(value: number | null | undefined): string {
+  if (value === null || value === undefined) return "—";
+  return `${(value * 100).toFixed(0)}%`;
+}
+
+function BacktestTable({ rows, labelHeader, segment }: { rows: ScoreBacktestRow[]; labelHeader: string; segment: boolean }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{labelHeader}</TableHead>
+          <TableHead className="text-right">Properties</TableHead>
+          <TableHead className="text-right">Sold</TableHead>
+          <TableHead className="text-right">Avg Score</TableHead>
+          <TableHead className="text-right">vs AVM</TableHead>
+          <TableHead className="text-right">Excess Return</TableHead>
+          <TableHead className="text-right">Median Excess</TableHead>
+          <TableHead className="text-right">Hit Rate</TableHead>
+          {segment && <TableHead className="text-right">Top-Bottom Spread</TableHead>}
+          {segment && <TableHead className="text-right">Rank Corr.</TableHead>}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map((row) => (
+          <TableRow key={row.label} data-testid={`backtest-row-${labelHeader.toLowerCase()}-${row.label}`}>
+            <TableCell className="font-medium">{row.label}</TableCell>
+            <TableCell className="text-right tabular-nums">{row.properties.toLocaleString()}</TableCell>
+            <TableCell className="text-right tabular-nums">{row.sold.toLocaleString()}</TableCell>
+            <TableCell className="text-right tabular-nums">{row.meanScore.toFixed(1)}</TableCell>
+            <TableCell className="text-right tabular-nums">{pct(row.meanVsAvm)}</TableCell>
+            <TableCell className="text-right tabular-nums">{pct(row.meanExcessReturn)}</TableCell>
+            <TableCell className="text-right tabular-nums">{pct(row.medianExcessReturn)}</TableCell>
+            <TableCell className="text-right tabular-nums">{share(row.hitRate)}</TableCell>
+            {segment && <TableCell className="text-right tabular-nums">{pct(row.decileSpread)}</TableCell>}
+            {segment && (
+              <TableCell className="text-right tabular-nums">
+                {row.rankCorrelation === null || row.rankCorrelation === undefined ? "—" : row.rankCorrelation.toFixed(2)}
+              </TableCell>
+            )}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+export function ScoreBacktestPanel() {
+  const { data: backtest, isLoading } = useQuery<ScoreBacktest | null>({
+    queryKey: ["/api/admin/score-backtest/latest"],
+  });
+
+  if (isLoading) {
+    return <LoadingState type="skeleton-list" count={5} />;
+  }
+
+  if (!backtest) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center text-sm text-muted-foreground">
+          No backtest has been run. Run scripts/backtest-opportunity-score.ts to replay the score against later sales.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const report = backtest.report as ScoreBacktestReport;
+  const { summary } = report;
+  const stats = [
+    { label: "Top decile excess return", value: pct(summary.topDecileExcessReturn) },
+    { label: "Bottom decile excess return", value: pct(summary.bottomDecileExcessReturn) },
+    { label: "Top-bottom spread", value: pct(summary.decileSpread) },
+    { label: "Rank correlation", value: summary.rankCorrelation === null ? "—" : summary.rankCorrelation.toFixed(2) },
+    { label: "Top decile hit rate", value: `${share(summary.topDecileHitRate)} (all ${share(summary.overallHitRate)})` },
+  ];
+
+  return (
+    <div className="space-y-6" data-testid="score-backtest">
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <CardTitle>Opportunity Score Backtest</CardTitle>
+            <div className="flex items-center gap-2">
+              <Badge variant="outline">{summary.modelVersion}</Badge>
+              <span className="text-sm text-muted-foreground">
+                Run {format(new Date(summary.generatedAt), "MMM d, yyyy")}
+              </span>
+            </div>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {summary.propertiesScored.toLocaleString()} properties scored as of{" "}
+            {format(new Date(summary.asOf), "MMM d, yyyy")} using only data available then;{" "}
+            {summary.salesObserved.toLocaleString()} sold within {summary.horizonMonths} months. Excess return is the sale
+            price against the as-of AVM value grown by the repeat-sales index.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5">
+            {stats.map((stat) => (
+              <div key={stat.label} className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">{stat.label}</p>
+                <p className="text-lg font-semibold tabular-nums">{stat.value}</p>
+              </div>
+            ))}
+          </div>
+          <div className="h-[260px] w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={report.byDecile} margin={{ top: 8, right: 16, left: 8, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                <XAxis dataKey="label" stroke="hsl(var(--muted-foreground))" fontSize={11} />
+                <YAxis
+                  stroke="hsl(var(--muted-foreground))"
+                  fontSize={11}
+                  tickFormatter={(v: number) => `${(v * 100).toFixed(0)}%`}
+                />
+                <RTooltip
+                  contentStyle={{
+                    background: "hsl(var(--popover))",
+                    border: "1px solid hsl(var(--border))",
+                    borderRadius: "6px",
+                    fontSize: "12px",
+                  }}
+                  formatter={(v: number) => [pct(v), "Mean excess return"]}
+                  labelFormatter={(label) => `Score decile ${label}`}
+                />
+                <ReferenceLine y={0} stroke="hsl(var(--muted-foreground))" />
+                <Bar dataKey="meanExcessReturn" name="Mean excess return">
+                  {report.byDecile.map((row) => (
+                    <Cell
+                      key={row.label}
+                      fill={(row.meanExcessReturn ?? 0) >= 0 ? "hsl(217 91% 60%)" : "hsl(0 84% 60%)"}
+                    />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+          <BacktestTable rows={report.byDecile} labelHeader="Decile" segment={false} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>By State</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <BacktestTable rows={report.byState} labelHeader="State" segment />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>By Property Type</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <BacktestTable rows={report.byPropertyType} labelHeader="Type" segment />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import { useQuery } from "@tanstack/react-query";
+import { ResponsiveContainer, LineChart, Line, YAxis, Tooltip as RTooltip, Dot } from "recharts";
+import { format } from "date-fns";
+import { History } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import type { ScoreHistory, ScoreHistoryPoint } from "@shared/schema";
+
+interface ScoreHistorySparklineProps {
+  subjectType: "property" | "unit";
+  subjectId: string;
+}
+
+const MAX_ANNOTATED_MOVES = 4;
+
+function changeLabel(change: number): string {
+  return `${change > 0 ? "+" : ""}${change}`;
+}
+
+export function ScoreHistorySparkline({ subjectType, subjectId }: ScoreHistorySparklineProps) {
+  const base = subjectType === "property" ? "/api/properties" : "/api/units";
+  const { data: history } = useQuery<ScoreHistory>({
+    queryKey: [base, subjectId, "score-history"],
+    enabled: !!subjectId,
+  });
+
+  const points = history?.points ?? [];
+  if (points.length < 2) {
+    return (
+      <div className="flex items-center gap-2 text-xs text-muted-foreground" data-testid="score-history-empty">
+        <History className="h-3.5 w-3.5" />
+        Score history will appear once the score changes between scoring runs.
+      </div>
+    );
+  }
+
+  // Latest moves first; a move is annotated with the events since the
+  // previous point and flagged when the scoring model changed
+  const moves = points
+    .map((point, i) => ({ point, modelChanged: i > 0 && points[i - 1].modelVersion !== point.modelVersion }))
+    .filter(({ point }) => point.change !== null && point.change !== 0)
+    .reverse()
+    .slice(0, MAX_ANNOTATED_MOVES);
+  const first = points[0];
+  const last = points[points.length - 1];
+  const netChange = last.score - first.score;
+
+  return (
+    <div className="space-y-3" data-testid="score-history">
+      <div className="flex items-center justify-between gap-2">
+        <p className="flex items-center gap-1.5 text-sm font-medium">
+          <History className="h-4 w-4 text-muted-foreground" />
+          Score History
+        </p>
+        <span className="text-xs text-muted-foreground">
+          {changeLabel(netChange)} since {format(new Date(first.recordedAt), "MMM d, yyyy")}
+        </span>
+      </div>
+      <div className="h-16 w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={points} margin={{ top: 4, right: 4, left: 4, bottom: 4 }}>
+            <YAxis hide domain={["dataMin - 5", "dataMax + 5"]} />
+            <RTooltip
+              contentStyle={{
+                background: "hsl(var(--popover))",
+                border: "1px solid hsl(var(--border))",
+                borderRadius: "6px",
+                fontSize: "12px",
+              }}
+              formatter={(v: number) => [v, "Score"]}
+              labelFormatter={(_, payload) => {
+                const point = payload?.[0]?.payload as ScoreHistoryPoint | undefined;
+                return point ? format(new Date(point.recordedAt), "MMM d, yyyy") : "";
+              }}
+            />
+            <Line
+              type="monotone"
+              dataKey="score"
+              stroke="hsl(217 91% 60%)"
+              strokeWidth={2}
+              isAnimationActive={false}
+              dot={(props: any) => {
+                const point = props.payload as ScoreHistoryPoint;
+                if (point.events.length === 0) return <g key={props.key} />;
+                return <Dot key={props.key} cx={props.cx} cy={props.cy} r={3} fill="hsl(217 91% 60%)" stroke="none" />;
+              }}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+      {moves.length > 0 && (
+        <ul className="space-y-2">
+          {moves.map(({ point, modelChanged }) => (
+            <li key={point.recordedAt} className="text-xs" data-testid={`score-move-${point.recordedAt}`}>
+              <div className="flex items-center gap-2">
+                <Badge
+                  variant="outline"
+                  className={point.change! > 0 ? "text-emerald-600" : "text-red-600"}
+                >
+                  {changeLabel(point.change!)}
+                </Badge>
+                <span className="text-muted-foreground">{format(new Date(point.recordedAt), "MMM d, yyyy")}</span>
+                {modelChanged && <span className="text-muted-foreground">· scoring model updated</span>}
+              </div>
+              {point.events.length > 0 ? (
+                <ul className="mt-1 space-y-0.5 pl-2 text-muted-foreground">
+                  {point.events.map((event) => (
+                    <li key={`${event.type}-${event.id}`}>
+                      {format(new Date(event.date), "MMM d")}: {event.description}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                !modelChanged && (
+                  <p className="mt-1 pl-2 text-muted-foreground">No new sale, permit or violation; market inputs moved.</p>
+                )
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
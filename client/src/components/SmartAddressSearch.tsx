@@ -5,27 +5,16 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { SearchLimitUpgradeCard } from "@/components/SearchLimitUpgradeCard";
 import { cn } from "@/lib/utils";
-
-type BuildingResult = {
-  baseBbl: string;
-  displayAddress: string;
-  borough: string | null;
-  unitCount: number;
-};
-
-type UnitResult = {
-  unitBbl: string;
-  baseBbl: string;
-  unitDesignation: string | null;
-  displayAddress: string | null;
-  borough: string | null;
-  slug?: string | null;
-};
+import type {
+  BuildingSearchResult as BuildingResult,
+  GeoSearchResult,
+  UnitSearchResult as UnitResult,
+} from "@shared/schema";
 
 type SearchResults = {
   buildings: BuildingResult[];
   units: UnitResult[];
-  locations: Array<{ type: string; id: string; name: string; state: string }>;
+  locations: GeoSearchResult[];
 };
 
 interface SmartAddressSearchProps {
@@ -243,6 +232,12 @@ export function SmartAddressSearch({
                         <span>{formatBoroughLabel(building.borough)}</span>
                         <span className="text-xs">•</span>
                         <span>{building.unitCount} units</span>
+                        {building.matchType === "fuzzy" && (
+                          <>
+                            <span className="text-xs">•</span>
+                            <span>Closest match</span>
+                          </>
+                        )}
                       </div>
                     </div>
                   </button>
@@ -279,6 +274,7 @@ export function SmartAddressSearch({
                       </div>
                       <div className="text-sm text-muted-foreground">
                         {formatBoroughLabel(unit.borough)}
+                        {unit.matchType === "fuzzy" && " • Closest match"}
                       </div>
                     </div>
                   </button>
@@ -11,7 +11,9 @@ import {
   Map,
   Settings,
   Download,
-  Search
+  Search,
+  GitMerge,
+  FlaskConical
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -29,6 +31,9 @@ import {
 } from "@/components/ui/table";
 import { AppLayout } from "@/components/layouts";
 import { LoadingState } from "@/components/LoadingState";
+import { EtlRunHistory } from "@/components/EtlRunHistory";
+import { MatchReviewQueue } from "@/components/MatchReviewQueue";
+import { ScoreBacktestPanel } from "@/components/ScoreBacktestPanel";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import type { DataSource, CoverageMatrix as CoverageMatrixType } from "@shared/schema";
@@ -81,8 +86,8 @@ export default function AdminConsole() {
   });
 
   const { data: etlStatus } = useQuery<{
-    lastRun: string;
-    status: string;
+    lastRun: string | null;
+    status: "healthy" | "running" | "failing";
     recordsProcessed: number;
     errors: number;
   }>({
@@ -127,14 +132,26 @@ export default function AdminConsole() {
         <div className="mb-8 grid gap-4 md:grid-cols-4">
           <Card>
             <CardContent className="flex items-center gap-4 p-4">
-              <div className="flex h-12 w-12 items-center justify-center rounded-lg bg-emerald-100 text-emerald-600 dark:bg-emerald-900/30 dark:text-emerald-400">
-                <CheckCircle2 className="h-6 w-6" />
-              </div>
+              {etlStatus?.status === "failing" ? (
+                <div className="flex h-12 w-12 items-center justify-center rounded-lg bg-red-100 text-red-600 dark:bg-red-900/30 dark:text-red-400">
+                  <AlertCircle className="h-6 w-6" />
+                </div>
+              ) : (
+                <div className="flex h-12 w-12 items-center justify-center rounded-lg bg-emerald-100 text-emerald-600 dark:bg-emerald-900/30 dark:text-emerald-400">
+                  <CheckCircle2 className="h-6 w-6" />
+                </div>
+              )}
               <div>
                 <p className="text-sm text-muted-foreground">ETL Status</p>
-                <p className="text-lg font-semibold text-emerald-600 dark:text-emerald-400">
-                  Healthy
-                </p>
+                {etlStatus?.status === "failing" ? (
+                  <p className="text-lg font-semibold text-red-600 dark:text-red-400" data-testid="text-etl-status">
+                    {etlStatus.errors} {etlStatus.errors === 1 ? "pipeline" : "pipelines"} failing
+                  </p>
+                ) : (
+                  <p className="text-lg font-semibold text-emerald-600 dark:text-emerald-400" data-testid="text-etl-status">
+                    {etlStatus?.status === "running" ? "Running" : "Healthy"}
+                  </p>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -191,6 +208,14 @@ export default function AdminConsole() {
               <RefreshCw className="mr-2 h-4 w-4" />
               ETL Status
             </TabsTrigger>
+            <TabsTrigger value="matching" data-testid="tab-matching">
+              <GitMerge className="mr-2 h-4 w-4" />
+              Match Review
+            </TabsTrigger>
+            <TabsTrigger value="backtest" data-testid="tab-backtest">
+              <FlaskConical className="mr-2 h-4 w-4" />
+              Score Backtest
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="catalog">
@@ -483,85 +508,10 @@ export default function AdminConsole() {
           </TabsContent>
 
           <TabsContent value="etl">
-            <div className="grid gap-6 md:grid-cols-2">
-              <Card>
-                <CardHeader>
-                  <CardTitle>Recent ETL Runs</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="space-y-3">
-                    {[
-                      {
-                        job: "Daily Aggregates",
-                        time: "Today, 6:00 AM",
-                        duration: "12m 34s",
-                        status: "success",
-                        records: 45823,
-                      },
-                      {
-                        job: "NYC Property Sync",
-                        time: "Today, 5:30 AM",
-                        duration: "8m 12s",
-                        status: "success",
-                        records: 12456,
-                      },
-                      {
-                        job: "Opportunity Scoring",
-                        time: "Today, 4:00 AM",
-                        duration: "45m 23s",
-                        status: "success",
-                        records: 890234,
-                      },
-                      {
-                        job: "Comps Computation",
-                        time: "Yesterday, 11:00 PM",
-                        duration: "1h 23m",
-                        status: "success",
-                        records: 234567,
-                      },
-                      {
-                        job: "NJ Data Refresh",
-                        time: "Yesterday, 6:00 AM",
-                        duration: "15m 45s",
-                        status: "warning",
-                        records: 34521,
-                      },
-                    ].map((run, i) => (
-                      <div
-                        key={i}
-                        className="flex items-center justify-between rounded-lg border p-3"
-                      >
-                        <div>
-                          <p className="font-medium">{run.job}</p>
-                          <p className="text-sm text-muted-foreground">
-                            {run.time} • {run.duration}
-                          </p>
-                        </div>
-                        <div className="flex items-center gap-3">
-                          <span className="text-sm text-muted-foreground tabular-nums">
-                            {run.records.toLocaleString()} records
-                          </span>
-                          <div
-                            className={`flex items-center gap-1 ${
-                              run.status === "success"
-                                ? "text-emerald-600 dark:text-emerald-400"
-                                : run.status === "warning"
-                                  ? "text-amber-600 dark:text-amber-400"
-                                  : "text-red-600 dark:text-red-400"
-                            }`}
-                          >
-                            {run.status === "success" ? (
-                              <CheckCircle2 className="h-4 w-4" />
-                            ) : (
-                              <AlertCircle className="h-4 w-4" />
-                            )}
-                          </div>
-                        </div>
-                      </div>
-                    ))}
-                  </div>
-                </CardContent>
-              </Card>
+            <div className="grid gap-6 lg:grid-cols-3">
+              <div className="lg:col-span-2">
+                <EtlRunHistory />
+              </div>
 
               <Card>
                 <CardHeader>
@@ -627,6 +577,14 @@ export default function AdminConsole() {
               </Card>
             </div>
           </TabsContent>
+
+          <TabsContent value="matching">
+            <MatchReviewQueue />
+          </TabsContent>
+
+          <TabsContent value="backtest">
+            <ScoreBacktestPanel />
+          </TabsContent>
         </Tabs>
       </div>
     </AppLayout>
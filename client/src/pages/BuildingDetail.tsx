@@ -29,6 +29,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { PropertyBreadcrumbs } from "@/components/BuildingContext";
 import { BuildingUnitsSection } from "@/components/BuildingUnitsSection";
 import { BuildingSalesHistory } from "@/components/BuildingSalesHistory";
+import { OwnerPortfolioPanel } from "@/components/OwnerPortfolioPanel";
 import { LoadingState } from "@/components/LoadingState";
 import { EmptyState } from "@/components/EmptyState";
 import { cn } from "@/lib/utils";
@@ -571,6 +572,8 @@ export default function BuildingDetail() {
                 )}
               </CardContent>
             </Card>
+
+            <OwnerPortfolioPanel baseBbl={baseBbl} />
           </TabsContent>
 
           <TabsContent value="units">
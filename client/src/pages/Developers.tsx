@@ -261,8 +261,15 @@ export default function Developers() {
                         <li><code>propertyTypes</code> - Filter by property type</li>
                         <li><code>opportunityScoreMin</code> - Minimum opportunity score (0-100)</li>
                         <li><code>priceMin</code> / <code>priceMax</code> - Price range</li>
+                        <li><code>bedsBands</code>, <code>bathsBands</code>, <code>yearBuiltBands</code>, <code>sizeBands</code> - Comma-separated bands (e.g. <code>2,3</code>, <code>pre-1940</code>, <code>1000-1499</code>)</li>
+                        <li><code>bedsMin</code> / <code>bedsMax</code> / <code>bathsMin</code> - Unit size range</li>
+                        <li><code>transitScoreMin</code>, <code>buildingHealthMin</code>, <code>floodRiskMax</code> - NYC signal thresholds (only properties with signal data match)</li>
+                        <li><code>distressScoreMin</code> - Minimum NYC distress score (0-100) from lis pendens, tax lien sale lists and mortgage maturity</li>
+                        <li><code>area</code> - URL-encoded JSON search area: <code>{'{"type":"polygon","coordinates":[[lng,lat],...]}'}</code> (up to 200 points) or <code>{'{"type":"radius","center":{"lat":40.72,"lng":-73.99},"radiusMeters":800}'}</code> (up to 50 km); an invalid area returns 400</li>
+                        <li><code>sort</code> - <code>score</code> (default), <code>price</code>, <code>price_per_sqft</code>, <code>last_sale_date</code> or <code>score_change</code>; ties break on id and rows without a value come last</li>
+                        <li><code>order</code> - <code>desc</code> (default) or <code>asc</code></li>
                         <li><code>limit</code> - Results per page (max 100)</li>
-                        <li><code>offset</code> - Pagination offset</li>
+                        <li><code>cursor</code> - <code>pagination.nextCursor</code> from the previous page; <code>null</code> means there are no more results</li>
                       </ul>
                     </div>
                   </div>
@@ -317,6 +324,25 @@ export default function Developers() {
                       <ul className="list-disc list-inside mt-1 text-muted-foreground">
                         <li><code>state</code> - Filter by state (optional)</li>
                         <li><code>limit</code> - Number of results (max 50)</li>
+                        <li><code>trendSource</code> - <code>median</code> (default) or <code>repeat_sales</code> to rank on the repeat-sales index where available</li>
+                      </ul>
+                    </div>
+                  </div>
+
+                  <div className="border rounded-lg p-4">
+                    <div className="flex items-center gap-2 mb-2">
+                      <Badge variant="outline">GET</Badge>
+                      <code className="font-mono text-sm">/api/external/price-index</code>
+                    </div>
+                    <p className="text-sm text-muted-foreground mb-3">
+                      Get the monthly repeat-sales price index for an area, with standard errors and 95% bands.
+                    </p>
+                    <div className="text-sm">
+                      <strong>Query Parameters:</strong>
+                      <ul className="list-disc list-inside mt-1 text-muted-foreground">
+                        <li><code>geoType</code> - zip, neighborhood or borough</li>
+                        <li><code>geoId</code> - Geography identifier (e.g. 11215, park-slope, brooklyn)</li>
+                        <li><code>state</code> - Disambiguate a neighborhood name (optional)</li>
                       </ul>
                     </div>
                   </div>
@@ -334,29 +360,33 @@ export default function Developers() {
                   language="json"
                   code={`{
   "success": true,
-  "data": {
-    "results": [
-      {
-        "id": "p_8f3c1d2e",
-        "address": "327 Central Park West",
-        "unit": "6E",
-        "city": "New York",
-        "state": "NY",
-        "zipCode": "10025",
-        "propertyType": "Condo",
-        "price": 980000,
-        "beds": 1,
-        "baths": 1,
-        "sqft": 720,
-        "yearBuilt": 1929,
-        "opportunityScore": 48,
-        "latitude": 40.78972,
-        "longitude": -73.96656
-      }
-    ],
-    "total": 1842,
+  "data": [
+    {
+      "id": "p_8f3c1d2e",
+      "address": "327 Central Park West",
+      "unit": "6E",
+      "city": "New York",
+      "state": "NY",
+      "zipCode": "10025",
+      "propertyType": "Condo",
+      "estimatedValue": 980000,
+      "beds": 1,
+      "baths": 1,
+      "sqft": 720,
+      "yearBuilt": 1929,
+      "opportunityScore": 48,
+      "scoreChange": 3,
+      "latitude": 40.78972,
+      "longitude": -73.96656
+    }
+  ],
+  "pagination": {
     "limit": 10,
-    "offset": 0
+    "count": 10,
+    "total": 1842,
+    "sort": "score",
+    "order": "desc",
+    "nextCursor": "WyJzY29yZSIsImRlc2MiLCI0OCIsInBfOGYzYzFkMmUiXQ"
   }
 }`}
                 />
@@ -488,9 +488,9 @@ function PropertyAutofill({ onAutofill }: { onAutofill: (data: { price: number;
     });
   }
 
-  async function pickLocation(geoId: string, name: string, state: string) {
+  async function pickLocation(geoType: string, geoId: string) {
     try {
-      const r = await fetch(`/api/properties/area?geoType=zip&geoId=${encodeURIComponent(geoId)}&limit=1&sortBy=opportunity`);
+      const r = await fetch(`/api/properties/area?geoType=${encodeURIComponent(geoType)}&geoId=${encodeURIComponent(geoId)}&limit=1&sortBy=opportunity`);
       if (r.ok) {
         const data = await r.json();
         const p = Array.isArray(data) ? data[0] : data?.properties?.[0];
@@ -532,7 +532,7 @@ function PropertyAutofill({ onAutofill }: { onAutofill: (data: { price: number;
                       <button
                         key={`${l.type}-${l.id}`}
                         className="w-full text-left rounded-md p-2 text-sm hover-elevate"
-                        onClick={() => pickLocation(l.id, l.name, l.state)}
+                        onClick={() => pickLocation(l.type, l.id)}
                         data-testid={`autofill-area-${l.id}`}
                       >
                         <div className="font-medium">{l.name}</div>
@@ -1,5 +1,5 @@
 import { useState, useEffect, useMemo } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
 import { useSearch } from "wouter";
 import { Search, MapPin, TrendingUp, TrendingDown, DollarSign, Home, Activity, Download, Map, Building2, ArrowRight, Globe, Hash, Navigation, Layers } from "lucide-react";
 import { Input } from "@/components/ui/input";
@@ -11,6 +11,7 @@ import { AppLayout } from "@/components/layouts";
 import { MarketStatsCard } from "@/components/MarketStatsCard";
 import { SegmentSelector } from "@/components/SegmentSelector";
 import { PriceDistribution } from "@/components/PriceDistribution";
+import { MarketHistoryChart } from "@/components/MarketHistoryChart";
 import { CoverageBadge } from "@/components/CoverageBadge";
 import { PropertyMap } from "@/components/PropertyMap";
 import { LoadingState } from "@/components/LoadingState";
@@ -18,7 +19,7 @@ import { EmptyState } from "@/components/EmptyState";
 import { SearchLimitUpgradeCard } from "@/components/SearchLimitUpgradeCard";
 import { useToast } from "@/hooks/use-toast";
 import { propertyTypes, bedsBands, yearBuiltBands } from "@shared/schema";
-import type { MarketAggregate, Property, Sale } from "@shared/schema";
+import type { GeoSearchResult, MarketAggregate, Property, Sale, SearchArea } from "@shared/schema";
 import { format } from "date-fns";
 import { generatePropertySlug } from "@/lib/propertySlug";
 import { Link } from "wouter";
@@ -41,10 +42,22 @@ const popularLocations = [
 const geoTypeIcons: Record<string, typeof MapPin> = {
   state: Globe,
   city: Building2,
+  county: Layers,
   zip: Hash,
   neighborhood: Navigation,
 };
 
+const PLACE_KIND_ORDER = ["state", "borough", "county", "town", "neighborhood", "zip"];
+
+const PLACE_KIND_LABELS: Record<string, string> = {
+  state: "State",
+  borough: "Borough",
+  county: "County",
+  town: "Town",
+  neighborhood: "Neighborhood",
+  zip: "ZIP Code",
+};
+
 function formatPrice(value: number): string {
   if (value >= 1_000_000) return `$${(value / 1_000_000).toFixed(1)}M`;
   if (value >= 1_000) return `$${(value / 1_000).toFixed(0)}K`;
@@ -55,6 +68,7 @@ function getGeoTypeLabel(type: string): string {
   switch (type) {
     case "state": return "State";
     case "city": return "City";
+    case "county": return "County";
     case "zip": return "ZIP Code";
     case "neighborhood": return "Neighborhood";
     default: return type;
@@ -80,12 +94,22 @@ export default function MarketExplorer() {
 
   useEffect(() => {
     const params = new URLSearchParams(searchString);
+    const geoType = params.get("geoType");
+    const geoId = params.get("geoId");
     const q = params.get("q");
-    if (q) {
+    if (geoType && geoId) {
+      // Opened from a GlobalSearch location result
+      setSelectedGeo({
+        type: geoType,
+        id: geoId,
+        name: params.get("name") || geoId,
+        state: params.get("state") || undefined,
+      });
+    } else if (q) {
       setSearchQuery(q);
       setAutoSelectFromUrl(true);
     }
-  }, []);
+  }, [searchString]);
 
   const [propertyType, setPropertyType] = useState<string>("all");
   const [bedsBand, setBedsBand] = useState<string>("all");
@@ -136,9 +160,39 @@ export default function MarketExplorer() {
     enabled: !!selectedGeo,
   });
 
+  // Drawn on the area map; the map then shows the screener matches inside it
+  // (properties and NYC condo units) instead of the area's properties
+  const [searchArea, setSearchArea] = useState<SearchArea | null>(null);
+
+  useEffect(() => {
+    setSearchArea(null);
+  }, [selectedGeo?.type, selectedGeo?.id]);
+
+  const { data: drawnAreaResults } = useQuery<{ properties: Property[]; units?: Property[] }>({
+    queryKey: ["/api/properties/screener", "area", searchArea ? JSON.stringify(searchArea) : ""],
+    queryFn: async () => {
+      const params = new URLSearchParams({ limit: "100", area: JSON.stringify(searchArea) });
+      const res = await fetch(`/api/properties/screener?${params.toString()}`, {
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error("Failed to fetch properties in area");
+      return res.json();
+    },
+    enabled: !!searchArea,
+    placeholderData: keepPreviousData,
+  });
+
+  const mapProperties = useMemo(
+    () =>
+      searchArea && drawnAreaResults
+        ? [...drawnAreaResults.properties, ...(drawnAreaResults.units || [])]
+        : areaProperties || [],
+    [searchArea, drawnAreaResults, areaProperties]
+  );
+
   const [searchLimitReached, setSearchLimitReached] = useState(false);
 
-  const { data: searchResults, isLoading: searching } = useQuery<Array<{ type: string; id: string; name: string; state: string }>>({
+  const { data: searchResults, isLoading: searching } = useQuery<GeoSearchResult[]>({
     queryKey: ["/api/search/geo", searchQuery],
     queryFn: async () => {
       const res = await fetch(`/api/search/geo?q=${encodeURIComponent(searchQuery)}`, {
@@ -183,15 +237,14 @@ export default function MarketExplorer() {
 
   const groupedResults = useMemo(() => {
     if (!searchResults || searchResults.length === 0) return null;
-    const groups: Record<string, Array<{ type: string; id: string; name: string; state: string }>> = {};
+    const groups: Record<string, GeoSearchResult[]> = {};
     for (const r of searchResults) {
-      if (!groups[r.type]) groups[r.type] = [];
-      groups[r.type].push(r);
+      if (!groups[r.kind]) groups[r.kind] = [];
+      groups[r.kind].push(r);
     }
-    const order = ["state", "neighborhood", "city", "zip"];
-    return order
-      .filter((t) => groups[t])
-      .map((t) => ({ type: t, items: groups[t] }));
+    return PLACE_KIND_ORDER
+      .filter((kind) => groups[kind])
+      .map((kind) => ({ kind, items: groups[kind] }));
   }, [searchResults]);
 
   const handleSearch = (query: string) => {
@@ -299,9 +352,9 @@ export default function MarketExplorer() {
             {searchFocused && searchQuery.length >= 2 && groupedResults && groupedResults.length > 0 && (
               <div className="absolute left-0 right-0 top-full z-10 mt-2 rounded-lg border bg-popover shadow-lg max-h-80 overflow-y-auto">
                 {groupedResults.map((group) => (
-                  <div key={group.type}>
+                  <div key={group.kind}>
                     <div className="px-4 py-2 text-xs font-semibold uppercase tracking-wider text-muted-foreground bg-muted/50">
-                      {getGeoTypeLabel(group.type)}s
+                      {PLACE_KIND_LABELS[group.kind]}s
                     </div>
                     {group.items.map((result) => {
                       const Icon = geoTypeIcons[result.type] || MapPin;
@@ -317,12 +370,14 @@ export default function MarketExplorer() {
                           </div>
                           <div className="min-w-0 flex-1">
                             <p className="font-medium truncate">{result.name}</p>
-                            <p className="text-xs text-muted-foreground">
+                            <p className="text-xs text-muted-foreground truncate">
+                              {result.parentName && result.kind !== "neighborhood" ? `${result.parentName}, ` : ""}
                               {getStateFull(result.state)}
+                              {result.matchedAlias ? ` · "${result.matchedAlias}"` : ""}
                             </p>
                           </div>
                           <Badge variant="outline" className="shrink-0 text-xs">
-                            {getGeoTypeLabel(result.type)}
+                            {PLACE_KIND_LABELS[result.kind]}
                           </Badge>
                         </button>
                       );
@@ -548,8 +603,14 @@ export default function MarketExplorer() {
                   <TabsContent value="map">
                     <Card>
                       <CardContent className="p-4">
-                        {areaProperties && areaProperties.length > 0 ? (
-                          <PropertyMap properties={areaProperties} height="400px" showClustering />
+                        {mapProperties.length > 0 || searchArea ? (
+                          <PropertyMap
+                            properties={mapProperties}
+                            height="400px"
+                            showClustering
+                            searchArea={searchArea}
+                            onSearchAreaChange={setSearchArea}
+                          />
                         ) : (
                           <div className="flex h-[400px] items-center justify-center">
                             <div className="text-center">
@@ -604,6 +665,20 @@ export default function MarketExplorer() {
                             </div>
                           </CardContent>
                         </Card>
+                        {selectedGeo && (
+                          <Card className="mt-4">
+                            <CardContent className="p-6">
+                              <MarketHistoryChart
+                                geoType={selectedGeo.type}
+                                geoId={selectedGeo.id}
+                                state={selectedGeo.state}
+                                propertyType={propertyType}
+                                bedsBand={bedsBand}
+                                yearBuiltBand={yearBuiltBand}
+                              />
+                            </CardContent>
+                          </Card>
+                        )}
                       </TabsContent>
 
                       <TabsContent value="recent">
@@ -1,4 +1,5 @@
 import { useRoute, Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
 import { MarketingLayout } from "@/components/layouts";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -14,8 +15,10 @@ import {
   ListChecks,
   ShieldCheck,
   Sparkles,
+  TrendingUp,
 } from "lucide-react";
 import NotFound from "@/pages/not-found";
+import type { ScoreBacktestSummary } from "@shared/schema";
 
 type TopicKey =
   | "opportunity-score"
@@ -195,6 +198,83 @@ const TOPIC_ICONS: Record<TopicKey, React.ComponentType<{ className?: string }>>
     "verified-vs-estimates": ShieldCheck,
   };
 
+function formatReturn(value: number | null): string {
+  if (value === null) return "n/a";
+  return `${value > 0 ? "+" : ""}${(value * 100).toFixed(1)}%`;
+}
+
+// Headline numbers from the latest backtest of the score against the sales
+// that followed; hidden until a backtest has been run
+function ScoreBacktestEvidence() {
+  const { data: summary } = useQuery<ScoreBacktestSummary | null>({
+    queryKey: ["/api/methodology/score-backtest"],
+  });
+  if (!summary) return null;
+
+  const asOf = new Date(summary.asOf).toLocaleDateString("en-US", {
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+  const stats = [
+    {
+      label: "Top decile excess return",
+      value: formatReturn(summary.topDecileExcessReturn),
+    },
+    {
+      label: "Bottom decile excess return",
+      value: formatReturn(summary.bottomDecileExcessReturn),
+    },
+    {
+      label: "Top decile hit rate",
+      value:
+        summary.topDecileHitRate === null
+          ? "n/a"
+          : `${Math.round(summary.topDecileHitRate * 100)}%`,
+    },
+    {
+      label: "Rank correlation",
+      value:
+        summary.rankCorrelation === null
+          ? "n/a"
+          : summary.rankCorrelation.toFixed(2),
+    },
+  ];
+
+  return (
+    <Card data-testid="card-score-backtest">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <TrendingUp className="h-5 w-5 text-muted-foreground" />
+          How the score has performed
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-muted-foreground">
+          We re-scored {summary.propertiesScored.toLocaleString()} properties as
+          of {asOf} using only the data available at the time, then followed
+          the {summary.salesObserved.toLocaleString()} that sold over the next{" "}
+          {summary.horizonMonths} months. Excess return compares each sale
+          price with the valuation at scoring time, grown by the local
+          repeat-sales price index; a hit is a sale that beat it.
+        </p>
+        <div className="grid gap-4 sm:grid-cols-2 md:grid-cols-4">
+          {stats.map((stat) => (
+            <div
+              key={stat.label}
+              className="rounded-md border p-4"
+              data-testid={`stat-backtest-${stat.label.toLowerCase().replace(/\s+/g, "-")}`}
+            >
+              <p className="text-2xl font-bold">{stat.value}</p>
+              <p className="text-sm text-muted-foreground">{stat.label}</p>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
 export default function Methodology() {
   const [, params] = useRoute<{ topic: string }>("/methodology/:topic");
   const topic = (params?.topic || "") as TopicKey;
@@ -268,6 +348,7 @@ export default function Methodology() {
               </CardContent>
             </Card>
           ))}
+          {topic === "opportunity-score" && <ScoreBacktestEvidence />}
         </div>
 
         <Card className="mt-10">
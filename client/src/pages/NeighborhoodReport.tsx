@@ -9,7 +9,7 @@ import { Breadcrumbs } from "@/components/Breadcrumbs";
 import { PropertyMap } from "@/components/PropertyMap";
 import { getPropertyUrl } from "@/lib/propertySlug";
 import { format } from "date-fns";
-import type { Property, Sale } from "@shared/schema";
+import type { NeighborhoodBoundaryFeature, Property, RepeatSalesIndexSeries, Sale } from "@shared/schema";
 import { MarketStatsCard } from "@/components/MarketStatsCard";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -164,6 +164,7 @@ export default function NeighborhoodReport() {
       fiveYearChangePct: number | null;
       firstYear: number | null;
     } | null;
+    repeatSalesIndex?: RepeatSalesIndexSeries | null;
   }>({
     queryKey: ["/api/neighborhood", geoId, "price-trends", geoType],
     queryFn: async () => {
@@ -172,7 +173,7 @@ export default function NeighborhoodReport() {
       if (!res.ok) return { geoId, geoType, years: [], summary: null };
       return res.json();
     },
-    enabled: !!geoId && geoType === "zip",
+    enabled: !!geoId,
   });
 
   const { data: areaProperties = [] } = useQuery<Property[]>({
@@ -186,6 +187,18 @@ export default function NeighborhoodReport() {
     enabled: !!geoId,
   });
 
+  // Only neighborhoods imported from boundary files have a polygon
+  const { data: boundary = null } = useQuery<NeighborhoodBoundaryFeature | null>({
+    queryKey: ["/api/neighborhood", geoId, "boundary"],
+    queryFn: async () => {
+      const res = await fetch(`/api/neighborhood/${encodeURIComponent(geoId!)}/boundary`);
+      if (!res.ok) return null;
+      return res.json();
+    },
+    enabled: !!geoId && geoType === "neighborhood",
+    staleTime: Infinity,
+  });
+
   const { data: recentSales = [] } = useQuery<Sale[]>({
     queryKey: ["/api/market/recent-sales", geoType, geoId],
     queryFn: async () => {
@@ -504,9 +517,68 @@ export default function NeighborhoodReport() {
           );
         })()}
 
+        {priceTrends?.repeatSalesIndex && priceTrends.repeatSalesIndex.points.length >= 2 && (() => {
+          const index = priceTrends.repeatSalesIndex;
+          const points = index.points.map((p) => ({ ...p, band: [p.low, p.high] as [number, number] }));
+          const formatChange = (value: number | null) =>
+            value === null ? "—" : `${value >= 0 ? "+" : ""}${value.toFixed(1)}%`;
+          const formatMonth = (period: string) => {
+            const [year, month] = period.split("-").map(Number);
+            return format(new Date(year, month - 1, 1), "MMM yyyy");
+          };
+          return (
+            <Card className="mb-8" data-testid="card-repeat-sales-index">
+              <CardHeader>
+                <div className="flex flex-wrap items-start justify-between gap-3">
+                  <div className="flex items-center gap-2">
+                    <TrendingUp className="h-4 w-4 text-muted-foreground" />
+                    <CardTitle className="text-base">Repeat-Sales Price Index</CardTitle>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2 text-xs">
+                    {([["3M", index.change3m], ["6M", index.change6m], ["12M", index.change12m]] as const).map(([label, value]) => (
+                      <Badge key={label} variant="outline" data-testid={`badge-index-change-${label.toLowerCase()}`}>
+                        {label} {formatChange(value)}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground mt-2">
+                  Price change measured from {index.totalPairs.toLocaleString()} homes that sold more than once in {index.geoName}, so shifts in which homes sell don't move it. {formatMonth(index.points[0].period)} = 100; the shaded band is the 95% range.
+                </p>
+              </CardHeader>
+              <CardContent>
+                <div className="h-[280px] w-full">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <ComposedChart data={points} margin={{ top: 8, right: 16, left: 8, bottom: 0 }}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                      <XAxis dataKey="period" stroke="hsl(var(--muted-foreground))" fontSize={11} tickFormatter={(p) => String(p).slice(0, 4)} minTickGap={24} />
+                      <YAxis stroke="hsl(var(--muted-foreground))" fontSize={11} domain={["auto", "auto"]} tickFormatter={(v) => Math.round(v).toString()} />
+                      <RTooltip
+                        contentStyle={{
+                          background: "hsl(var(--popover))",
+                          border: "1px solid hsl(var(--border))",
+                          borderRadius: "6px",
+                          fontSize: "12px",
+                        }}
+                        formatter={(v: number | [number, number], name: string) => {
+                          if (Array.isArray(v)) return [`${v[0].toFixed(1)}–${v[1].toFixed(1)}`, name];
+                          return [v.toFixed(1), name];
+                        }}
+                        labelFormatter={(p) => formatMonth(String(p))}
+                      />
+                      <Area type="monotone" dataKey="band" stroke="none" fill="hsl(217 91% 60% / 0.15)" name="95% range" />
+                      <Line type="monotone" dataKey="index" stroke="hsl(217 91% 60%)" strokeWidth={2} dot={false} name="Index" />
+                    </ComposedChart>
+                  </ResponsiveContainer>
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })()}
+
         {(() => {
           const mapped = areaProperties.filter((p) => p.latitude && p.longitude);
-          if (mapped.length === 0) return null;
+          if (mapped.length === 0 && !boundary) return null;
           return (
             <Card className="mb-8" data-testid="card-neighborhood-map">
               <CardHeader>
@@ -516,7 +588,7 @@ export default function NeighborhoodReport() {
                 </p>
               </CardHeader>
               <CardContent>
-                <PropertyMap properties={mapped} height="500px" zoom={13} />
+                <PropertyMap properties={mapped} boundary={boundary} height="500px" zoom={13} />
               </CardContent>
             </Card>
           );
@@ -1,5 +1,5 @@
-import { useState, useEffect } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useState, useEffect, useMemo } from "react";
+import { keepPreviousData, useInfiniteQuery, useQuery } from "@tanstack/react-query";
 import { Link, useSearch, useLocation } from "wouter";
 import { Filter, Grid, List, SortDesc, Download, TrendingUp, X, Map, Crown, Lock, Home, Building2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
@@ -31,10 +31,19 @@ import { SaveSearchDialog } from "@/components/SaveSearchDialog";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { useSubscription } from "@/hooks/useSubscription";
-import type { Property, ScreenerFilters } from "@shared/schema";
+import type { Property, ScreenerFacets, ScreenerFilters, ScreenerSort, SortOrder } from "@shared/schema";
 
 const defaultFilters: ScreenerFilters = {};
 
+const sortOptions: Record<string, { sort: ScreenerSort; order: SortOrder }> = {
+  score: { sort: "score", order: "desc" },
+  "price-asc": { sort: "price", order: "asc" },
+  "price-desc": { sort: "price", order: "desc" },
+  sqft: { sort: "price_per_sqft", order: "asc" },
+  date: { sort: "last_sale_date", order: "desc" },
+  "score-change": { sort: "score_change", order: "desc" },
+};
+
 interface ScoreDriver {
   label: string;
   value: string;
@@ -127,13 +136,25 @@ export default function OpportunityScreener() {
 
   interface ScreenerResponse {
     properties: Property[];
+    total: number;
+    nextCursor: string | null;
     limited: boolean;
     visibleCount: number;
     hiddenCount: number;
+    // Condo units inside a drawn area
+    units?: Property[];
+    // Requested with the first page only
+    facets?: ScreenerFacets;
     message?: string;
   }
 
-  const { data: screenerData, isLoading } = useQuery<ScreenerResponse>({
+  const {
+    data: screenerPages,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
     queryKey: [
       "/api/properties/screener", 
       filters.state || "", 
@@ -146,10 +167,19 @@ export default function OpportunityScreener() {
       filters.bedsBands?.join(",") || "",
       filters.bathsBands?.join(",") || "",
       filters.yearBuiltBands?.join(",") || "",
+      filters.sizeBands?.join(",") || "",
+      filters.confidenceLevels?.join(",") || "",
+      filters.distressScoreMin?.toString() || "",
+      filters.area ? JSON.stringify(filters.area) : "",
       sortBy
     ],
-    queryFn: async () => {
+    queryFn: async ({ pageParam }): Promise<ScreenerResponse> => {
       const params = new URLSearchParams();
+      const { sort, order } = sortOptions[sortBy] ?? sortOptions.score;
+      params.append("sort", sort);
+      params.append("order", order);
+      if (pageParam) params.append("cursor", pageParam);
+      else params.append("facets", "true");
       if (filters.state) params.append("state", filters.state);
       if (filters.zipCodes?.length) params.append("zipCodes", filters.zipCodes.join(","));
       if (filters.cities?.length) params.append("cities", filters.cities.join(","));
@@ -168,6 +198,14 @@ export default function OpportunityScreener() {
       if (filters.yearBuiltBands?.length) {
         params.append("yearBuiltBands", filters.yearBuiltBands.join(","));
       }
+      if (filters.sizeBands?.length) {
+        params.append("sizeBands", filters.sizeBands.join(","));
+      }
+      if (filters.confidenceLevels?.length) {
+        params.append("confidenceLevels", filters.confidenceLevels.join(","));
+      }
+      if (filters.distressScoreMin) params.append("distressScoreMin", filters.distressScoreMin.toString());
+      if (filters.area) params.append("area", JSON.stringify(filters.area));
       
       const res = await fetch(`/api/properties/screener?${params.toString()}`, {
         credentials: "include",
@@ -175,13 +213,26 @@ export default function OpportunityScreener() {
       if (!res.ok) throw new Error("Failed to fetch properties");
       return res.json();
     },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
     enabled: urlInitialized,
+    // Keeps the map mounted while a newly drawn area loads
+    placeholderData: keepPreviousData,
   });
 
-  const properties = screenerData?.properties;
+  const screenerData = screenerPages?.pages[0];
+  const properties = useMemo(
+    () => screenerPages?.pages.flatMap((page) => page.properties),
+    [screenerPages]
+  );
+  const totalCount = screenerData?.total ?? 0;
   const isLimited = screenerData?.limited;
   const visibleCount = screenerData?.visibleCount ?? 3;
   const hiddenCount = screenerData?.hiddenCount ?? 0;
+  const mapProperties = useMemo(
+    () => [...(properties || []), ...(screenerData?.units || [])],
+    [properties, screenerData?.units]
+  );
 
   const { data: unitsData, isLoading: unitsLoading } = useQuery<{
     units: UnitOpportunity[];
@@ -228,6 +279,8 @@ export default function OpportunityScreener() {
       if (filters.priceMin) params.append("priceMin", filters.priceMin.toString());
       if (filters.priceMax) params.append("priceMax", filters.priceMax.toString());
       if (filters.opportunityScoreMin) params.append("opportunityScoreMin", filters.opportunityScoreMin.toString());
+      if (filters.distressScoreMin) params.append("distressScoreMin", filters.distressScoreMin.toString());
+      if (filters.area) params.append("area", JSON.stringify(filters.area));
       
       const response = await fetch(`/api/export/opportunities?${params.toString()}`, {
         credentials: "include",
@@ -273,6 +326,7 @@ export default function OpportunityScreener() {
             onChange={setFilters}
             onReset={handleResetFilters}
             entityType={entityType}
+            facets={screenerData?.facets}
           />
         </aside>
 
@@ -300,10 +354,10 @@ export default function OpportunityScreener() {
                 <p className="text-sm text-muted-foreground">
                   {entityType === "properties" ? (
                     <>
-                      {properties?.length || 0} properties found
+                      {totalCount.toLocaleString()} properties found
                       {isLimited && (
                         <span className="ml-2 text-amber-600 dark:text-amber-400">
-                          (showing {visibleCount} of {properties?.length || 0})
+                          (showing {visibleCount} of {totalCount.toLocaleString()})
                         </span>
                       )}
                     </>
@@ -335,6 +389,7 @@ export default function OpportunityScreener() {
                       onChange={setFilters}
                       onReset={handleResetFilters}
                       entityType={entityType}
+                      facets={screenerData?.facets}
                     />
                   </SheetContent>
                 </Sheet>
@@ -349,7 +404,8 @@ export default function OpportunityScreener() {
                     <SelectItem value="price-asc">Price: Low to High</SelectItem>
                     <SelectItem value="price-desc">Price: High to Low</SelectItem>
                     <SelectItem value="sqft">Price per Sqft</SelectItem>
-                    <SelectItem value="date">Recently Added</SelectItem>
+                    <SelectItem value="date">Most Recent Sale</SelectItem>
+                    <SelectItem value="score-change">Biggest Score Change</SelectItem>
                   </SelectContent>
                 </Select>
 
@@ -396,7 +452,7 @@ export default function OpportunityScreener() {
                 {isAuthenticated && (
                   <SaveSearchDialog 
                     filters={filters} 
-                    matchCount={properties?.length}
+                    matchCount={screenerData?.total}
                   />
                 )}
               </div>
@@ -505,6 +561,34 @@ export default function OpportunityScreener() {
                     </button>
                   </Badge>
                 )}
+                {filters.area && (
+                  <Badge variant="secondary" className="gap-1">
+                    {filters.area.type === "radius"
+                      ? `Within ${(filters.area.radiusMeters / 1000).toFixed(1)} km`
+                      : "Drawn area"}
+                    <button
+                      onClick={() =>
+                        setFilters({ ...filters, area: undefined })
+                      }
+                      className="ml-1 rounded-full hover:bg-muted"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                )}
+                {filters.distressScoreMin && (
+                  <Badge variant="secondary" className="gap-1">
+                    Distress: {filters.distressScoreMin}+
+                    <button
+                      onClick={() =>
+                        setFilters({ ...filters, distressScoreMin: undefined })
+                      }
+                      className="ml-1 rounded-full hover:bg-muted"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                )}
                 <Button
                   variant="ghost"
                   size="sm"
@@ -547,16 +631,18 @@ export default function OpportunityScreener() {
               )
             ) : isLoading ? (
               <LoadingState type="skeleton-cards" count={6} />
-            ) : properties && properties.length > 0 ? (
+            ) : properties && (properties.length > 0 || (viewMode === "map" && filters.area)) ? (
               viewMode === "map" ? (
                 <div className="flex h-[calc(100vh-16rem)] flex-col gap-4 lg:flex-row">
                   <div className="flex-1 min-h-[400px]">
                     <PropertyMap
-                      properties={properties}
+                      properties={mapProperties}
                       height="100%"
                       showClustering
                       onPropertySelect={(property) => setSelectedPropertyId(property.id)}
                       selectedPropertyId={selectedPropertyId}
+                      searchArea={filters.area}
+                      onSearchAreaChange={(area) => setFilters({ ...filters, area: area ?? undefined })}
                     />
                   </div>
                   <div className="w-full overflow-auto lg:w-80">
@@ -615,6 +701,20 @@ export default function OpportunityScreener() {
                       <PropertyCard key={property.id} property={property} />
                     ))}
                   </div>
+                  {hasNextPage && (
+                    <div className="mt-6 flex justify-center">
+                      <Button
+                        variant="outline"
+                        onClick={() => fetchNextPage()}
+                        disabled={isFetchingNextPage}
+                        data-testid="button-load-more"
+                      >
+                        {isFetchingNextPage
+                          ? "Loading..."
+                          : `Load more (${properties.length.toLocaleString()} of ${totalCount.toLocaleString()})`}
+                      </Button>
+                    </div>
+                  )}
                   {isLimited && hiddenCount > 0 && !isPro && !isPremium && (
                     <div className="mt-8 rounded-lg border border-primary/20 bg-primary/5 p-6 text-center">
                       <Lock className="mx-auto h-10 w-10 text-primary mb-3" />
@@ -622,7 +722,7 @@ export default function OpportunityScreener() {
                         Unlock {hiddenCount} more undervalued properties in this area with Pro
                       </h3>
                       <p className="mt-2 text-muted-foreground">
-                        You're seeing the top 3 results. Upgrade to access all {properties.length} properties and unlock advanced filters.
+                        You're seeing the top 3 results. Upgrade to access all {totalCount.toLocaleString()} properties and unlock advanced filters.
                       </p>
                       <Button
                         className="mt-4"
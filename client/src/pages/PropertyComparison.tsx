@@ -11,7 +11,7 @@ import { SEO } from "@/components/SEO";
 import { useAuth } from "@/hooks/useAuth";
 import { useSubscription } from "@/hooks/useSubscription";
 import { generatePropertySlug } from "@/lib/propertySlug";
-import type { Property } from "@shared/schema";
+import type { GeoSearchResult, Property } from "@shared/schema";
 
 function formatPrice(value: number | null | undefined): string {
   if (!value) return "N/A";
@@ -45,7 +45,7 @@ export default function PropertyComparison() {
 
   const maxProperties = isFree ? 2 : 4;
 
-  const { data: geoResults, isLoading: geoLoading } = useQuery<Array<{ type: string; id: string; name: string; state: string }>>({
+  const { data: geoResults, isLoading: geoLoading } = useQuery<GeoSearchResult[]>({
     queryKey: ["/api/search/geo", searchQuery],
     queryFn: async () => {
       const res = await fetch(`/api/search/geo?q=${encodeURIComponent(searchQuery)}`, { credentials: "include" });
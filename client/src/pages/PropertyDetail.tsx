@@ -40,6 +40,7 @@ import { Separator } from "@/components/ui/separator";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { AppLayout } from "@/components/layouts";
 import { OpportunityScore } from "@/components/OpportunityScore";
+import { ScoreHistorySparkline } from "@/components/ScoreHistorySparkline";
 import { ScoreDriversList, generateBuildingScoreDrivers, type ScoreDriver } from "@/components/ScoreDriversList";
 import { PriceDistribution } from "@/components/PriceDistribution";
 import { CompsTable } from "@/components/CompsTable";
@@ -55,6 +56,7 @@ import { NycDeepInsights } from "@/components/NycDeepInsights";
 import { NearbySchools } from "@/components/NearbySchools";
 import { PropertyAIInsights } from "@/components/PropertyAIInsights";
 import { BuildingSalesHistory } from "@/components/BuildingSalesHistory";
+import { OwnerPortfolioPanel } from "@/components/OwnerPortfolioPanel";
 import { PageNarrative } from "@/components/PageNarrative";
 import { PageFaq, buildPropertyFaq } from "@/components/PageFaq";
 import { PropertyCard } from "@/components/PropertyCard";
@@ -62,7 +64,7 @@ import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { useSubscription } from "@/hooks/useSubscription";
-import type { Property, OpportunityScoreBreakdown, Comp, MarketAggregate, AIResponse } from "@shared/schema";
+import type { Property, OpportunityScoreBreakdown, PropertyValuationSummary, Comp, MarketAggregate, AIResponse } from "@shared/schema";
 
 const STATE_NAMES: Record<string, string> = {
   NY: "New York",
@@ -71,7 +73,8 @@ const STATE_NAMES: Record<string, string> = {
 };
 
 interface PropertyWithDetails extends Property {
-  scoreBreakdown?: OpportunityScoreBreakdown;
+  scoreBreakdown: OpportunityScoreBreakdown | null;
+  valuation: PropertyValuationSummary | null;
   marketStats?: MarketAggregate;
 }
 
@@ -473,25 +476,6 @@ export default function PropertyDetail() {
     }
   };
 
-  const mockScoreBreakdown: OpportunityScoreBreakdown = property.scoreBreakdown || {
-    overall: property.opportunityScore || 0,
-    mispricing: 78,
-    confidence: 85,
-    liquidity: 72,
-    risk: 68,
-    valueAdd: 65,
-    explanations: [
-      "Priced 12% below segment median for 3BR SFH in this ZIP",
-      "Strong comp coverage with 8 recent sales within 0.5 miles",
-      "Recent permit activity suggests value-add potential",
-    ],
-    evidence: [
-      { type: "comp", id: "c1", description: "123 Main St sold for $485K (similar sqft)" },
-      { type: "comp", id: "c2", description: "456 Oak Ave sold for $510K (similar age)" },
-      { type: "market", id: "m1", description: "ZIP 11201 median: $525K" },
-    ],
-  };
-
   const fullAddress = formatFullAddress(property);
   const seoTitle = property.address 
     ? `${fullAddress} - Property Details`
@@ -768,11 +752,19 @@ export default function PropertyDetail() {
                     </CardHeader>
                     <CardContent>
                       <OpportunityScore
-                        score={property.opportunityScore || 0}
-                        breakdown={mockScoreBreakdown}
+                        score={property.scoreBreakdown?.overall ?? property.opportunityScore ?? 0}
+                        breakdown={property.scoreBreakdown ?? undefined}
                         size="lg"
                         showBreakdown
                       />
+                      {!property.scoreBreakdown && (
+                        <p className="mt-4 text-center text-sm text-muted-foreground">
+                          A detailed breakdown will be available after the next scoring run.
+                        </p>
+                      )}
+                      <div className="mt-6 border-t pt-4">
+                        <ScoreHistorySparkline subjectType="property" subjectId={property.id} />
+                      </div>
                     </CardContent>
                   </Card>
 
@@ -803,26 +795,65 @@ export default function PropertyDetail() {
 
                 <Card>
                   <CardHeader>
-                    <CardTitle>Expected Value Range</CardTitle>
+                    <CardTitle className="flex items-center gap-2">
+                      Expected Value Range
+                      {property.valuation && (
+                        <Badge variant={getConfidenceBadgeVariant(property.valuation.confidenceLevel)}>
+                          {property.valuation.confidenceLevel} Confidence
+                        </Badge>
+                      )}
+                    </CardTitle>
                   </CardHeader>
-                  <CardContent>
-                    <div className="grid gap-4 md:grid-cols-3">
-                      <div className="rounded-lg border p-4 text-center">
-                        <p className="text-sm text-muted-foreground">Low Estimate</p>
-                        <p className="text-2xl font-bold">$465,000</p>
-                        <p className="text-xs text-muted-foreground">10th percentile</p>
-                      </div>
-                      <div className="rounded-lg border border-primary bg-primary/5 p-4 text-center">
-                        <p className="text-sm text-muted-foreground">Expected Value</p>
-                        <p className="text-2xl font-bold text-primary">$525,000</p>
-                        <p className="text-xs text-muted-foreground">Model estimate</p>
-                      </div>
-                      <div className="rounded-lg border p-4 text-center">
-                        <p className="text-sm text-muted-foreground">High Estimate</p>
-                        <p className="text-2xl font-bold">$585,000</p>
-                        <p className="text-xs text-muted-foreground">90th percentile</p>
-                      </div>
-                    </div>
+                  <CardContent className="space-y-4">
+                    {property.valuation ? (
+                      <>
+                        <div className="grid gap-4 md:grid-cols-3">
+                          <div className="rounded-lg border p-4 text-center">
+                            <p className="text-sm text-muted-foreground">Low Estimate</p>
+                            <p className="text-2xl font-bold" data-testid="text-value-low">{formatPrice(property.valuation.valueLow)}</p>
+                            <p className="text-xs text-muted-foreground">10th percentile</p>
+                          </div>
+                          <div className="rounded-lg border border-primary bg-primary/5 p-4 text-center">
+                            <p className="text-sm text-muted-foreground">Expected Value</p>
+                            <p className="text-2xl font-bold text-primary" data-testid="text-value-estimate">{formatPrice(property.valuation.estimatedValue)}</p>
+                            <p className="text-xs text-muted-foreground">Model estimate</p>
+                          </div>
+                          <div className="rounded-lg border p-4 text-center">
+                            <p className="text-sm text-muted-foreground">High Estimate</p>
+                            <p className="text-2xl font-bold" data-testid="text-value-high">{formatPrice(property.valuation.valueHigh)}</p>
+                            <p className="text-xs text-muted-foreground">90th percentile</p>
+                          </div>
+                        </div>
+                        {property.valuation.drivers.length > 0 && (
+                          <div className="space-y-2">
+                            <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
+                              Top Value Drivers
+                            </p>
+                            <ul className="space-y-1.5">
+                              {property.valuation.drivers.map((driver) => (
+                                <li
+                                  key={driver.feature}
+                                  className="flex items-center justify-between gap-3 text-sm"
+                                  data-testid={`value-driver-${driver.feature}`}
+                                >
+                                  <span>{driver.label}</span>
+                                  <span
+                                    className={`font-medium tabular-nums ${driver.effect >= 0 ? "text-emerald-600 dark:text-emerald-400" : "text-red-600 dark:text-red-400"}`}
+                                  >
+                                    {driver.effect >= 0 ? "+" : ""}
+                                    {(driver.effect * 100).toFixed(0)}%
+                                  </span>
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        )}
+                      </>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">
+                        A value range will be available after the next valuation run.
+                      </p>
+                    )}
                   </CardContent>
                 </Card>
               </>
@@ -1053,10 +1084,13 @@ export default function PropertyDetail() {
           </TabsContent>
 
           <TabsContent value="sales">
-            <BuildingSalesHistory 
-              bbl={property.bbl}
-              isCondoUnit={property.propertyType?.toLowerCase().includes("condo")}
-            />
+            <div className="space-y-6">
+              <BuildingSalesHistory 
+                bbl={property.bbl}
+                isCondoUnit={property.propertyType?.toLowerCase().includes("condo")}
+              />
+              {property.state === "NY" && <OwnerPortfolioPanel propertyId={id!} />}
+            </div>
           </TabsContent>
 
           <TabsContent value="ai">
@@ -35,6 +35,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { NearbySchools } from "@/components/NearbySchools";
 import { PropertyBreadcrumbs, BuildingContext } from "@/components/BuildingContext";
 import { PageNarrative } from "@/components/PageNarrative";
+import { ScoreHistorySparkline } from "@/components/ScoreHistorySparkline";
 import { PageFaq, buildUnitFaq } from "@/components/PageFaq";
 import { LoadingState } from "@/components/LoadingState";
 import { EmptyState } from "@/components/EmptyState";
@@ -847,6 +848,14 @@ export default function UnitDetail() {
                   />
                   <MarketComparisonCard data={opportunityData} isAuthenticated={isAuthenticated} />
                 </div>
+
+                {opportunityData?.opportunityScore !== null && opportunityData?.opportunityScore !== undefined && (
+                  <Card data-testid="card-unit-score-history">
+                    <CardContent className="p-4">
+                      <ScoreHistorySparkline subjectType="unit" subjectId={unit.unitBbl} />
+                    </CardContent>
+                  </Card>
+                )}
                 
                 {opportunityData?.buildingAvgPricePerYear && opportunityData.buildingAvgPricePerYear.length > 0 && (() => {
                   const years = opportunityData.buildingAvgPricePerYear.slice(0, 6);
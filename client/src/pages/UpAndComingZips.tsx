@@ -46,15 +46,19 @@ export default function UpAndComingZips() {
   const [stateFilter, setStateFilter] = useState<string>("all");
   const [momentumFilter, setMomentumFilter] = useState<string>("all");
   const [trendFilter, setTrendFilter] = useState<string>("all");
+  const [trendSource, setTrendSource] = useState<string>("median");
 
   const { data: rawZips, isLoading, error } = useQuery<UpAndComingZip[]>({
-    queryKey: ["/api/market/up-and-coming", stateFilter],
+    queryKey: ["/api/market/up-and-coming", stateFilter, trendSource],
     queryFn: async () => {
       const params = new URLSearchParams();
       if (stateFilter !== "all") {
         params.append("state", stateFilter);
       }
       params.append("limit", "50");
+      if (trendSource !== "median") {
+        params.append("trendSource", trendSource);
+      }
       
       const res = await fetch(`/api/market/up-and-coming?${params.toString()}`, {
         credentials: "include",
@@ -218,6 +222,16 @@ export default function UpAndComingZips() {
                 </SelectContent>
               </Select>
 
+              <Select value={trendSource} onValueChange={setTrendSource}>
+                <SelectTrigger className="w-[190px]" data-testid="select-trend-source">
+                  <SelectValue placeholder="Median trends" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="median">Median trends</SelectItem>
+                  <SelectItem value="repeat_sales">Repeat-sales index</SelectItem>
+                </SelectContent>
+              </Select>
+
               {hasActiveFilters && (
                 <Button
                   variant="ghost"
@@ -464,6 +478,12 @@ export default function UpAndComingZips() {
                         </Tooltip>
                       </div>
                       
+                      {trendSource === "repeat_sales" && zip.trendSource === "median" && (
+                        <p className="mt-3 text-xs text-muted-foreground" data-testid={`text-trend-source-${zip.zipCode}`}>
+                          Too few repeat sales for an index; showing median trends
+                        </p>
+                      )}
+
                       <div className="mt-4 grid grid-cols-3 gap-3 text-center">
                         <div className="p-2 rounded-lg bg-muted/50">
                           <p className="text-xs text-muted-foreground mb-1">12M</p>
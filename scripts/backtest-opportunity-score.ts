@@ -0,0 +1,99 @@
+import { runScoreBacktest } from "../server/services/scoreBacktest";
+import { runEtlPipelineFromCli, type EtlPipeline } from "../server/services/etlRunner";
+import type { ScoreBacktestReport, ScoreBacktestRow } from "../shared/schema";
+
+// Replays the opportunity score as of a past date and reports how the
+// properties it ranked highest actually sold afterwards.
+//
+//   npx tsx scripts/backtest-opportunity-score.ts                  as of 24 months ago, saved
+//   npx tsx scripts/backtest-opportunity-score.ts --as-of 2022-01-01 --horizon 12
+//   npx tsx scripts/backtest-opportunity-score.ts --sample 20000 --no-save
+//
+// The sample is a hash of the property id, so the same options against the
+// same data reproduce the same report.
+
+function pct(n: number | null | undefined): string {
+  return (n === null || n === undefined ? "-" : `${(n * 100).toFixed(1)}%`).padStart(8);
+}
+
+function printRow(row: ScoreBacktestRow) {
+  const segment = row.decileSpread !== undefined
+    ? ` ${pct(row.decileSpread)} ${(row.rankCorrelation === null || row.rankCorrelation === undefined ? "-" : row.rankCorrelation.toFixed(2)).padStart(6)}`
+    : "";
+  console.log(
+    `  ${row.label.padEnd(20)} ${row.properties.toLocaleString().padStart(8)} ${row.sold.toLocaleString().padStart(7)} ${row.meanScore.toFixed(1).padStart(6)} ${pct(row.meanVsAvm)} ${pct(row.meanExcessReturn)} ${pct(row.medianExcessReturn)} ${pct(row.hitRate)}${segment}`
+  );
+}
+
+function printReport(report: ScoreBacktestReport) {
+  const { summary } = report;
+  const header = `  ${"".padEnd(20)} ${"Props".padStart(8)} ${"Sold".padStart(7)} ${"Score".padStart(6)} ${"vs AVM".padStart(8)} ${"Excess".padStart(8)} ${"MdExcess".padStart(8)} ${"Hits".padStart(8)}`;
+  console.log("\n" + "=".repeat(100));
+  console.log(`OPPORTUNITY SCORE BACKTEST (as of ${summary.asOf.slice(0, 10)}, ${summary.horizonMonths}-month horizon, ${summary.modelVersion})`);
+  console.log("=".repeat(100));
+  console.log(`Properties scored: ${summary.propertiesScored.toLocaleString()}  Later sales compared: ${summary.salesObserved.toLocaleString()}`);
+  console.log(
+    `Top-bottom decile spread: ${pct(summary.decileSpread).trim()}  Rank correlation: ${summary.rankCorrelation?.toFixed(2) ?? "-"}  Top decile hit rate: ${pct(summary.topDecileHitRate).trim()} (all: ${pct(summary.overallHitRate).trim()})\n`
+  );
+  console.log("By score decile:");
+  console.log(header);
+  for (const row of report.byDecile) printRow(row);
+  console.log("\nBy state:");
+  console.log(`${header} ${"Spread".padStart(8)} ${"Rho".padStart(6)}`);
+  for (const row of report.byState) printRow(row);
+  console.log("\nBy property type:");
+  console.log(`${header} ${"Spread".padStart(8)} ${"Rho".padStart(6)}`);
+  for (const row of report.byPropertyType) printRow(row);
+}
+
+const args = process.argv.slice(2);
+
+function numberArg(flag: string): number | undefined {
+  const index = args.indexOf(flag);
+  if (index < 0 || !args[index + 1]) return undefined;
+  const value = parseInt(args[index + 1], 10);
+  if (!(value > 0)) {
+    console.error(`Invalid ${flag}: ${args[index + 1]}`);
+    process.exit(1);
+  }
+  return value;
+}
+
+const asOfIndex = args.indexOf("--as-of");
+const asOf = asOfIndex >= 0 && args[asOfIndex + 1] ? new Date(args[asOfIndex + 1]) : undefined;
+if (asOf && isNaN(asOf.getTime())) {
+  console.error(`Invalid --as-of date: ${args[asOfIndex + 1]}`);
+  process.exit(1);
+}
+const options = { asOf, horizonMonths: numberArg("--horizon"), sample: numberArg("--sample") };
+
+const scoreBacktestPipeline: EtlPipeline = {
+  name: "score_backtest",
+  steps: [
+    {
+      name: "run_backtest",
+      run: async () => {
+        const { backtestId, report } = await runScoreBacktest(options);
+        printReport(report);
+        return {
+          rowsRead: report.summary.propertiesScored,
+          metadata: { backtestId, summary: report.summary },
+        };
+      },
+    },
+  ],
+};
+
+if (args.includes("--no-save")) {
+  runScoreBacktest({ ...options, persist: false })
+    .then(({ report }) => {
+      printReport(report);
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error("Score backtest failed:", error);
+      process.exit(1);
+    });
+} else {
+  runEtlPipelineFromCli(scoreBacktestPipeline);
+}
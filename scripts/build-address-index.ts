@@ -0,0 +1,11 @@
+import { buildAddressSearchIndex } from "../server/etl/address-search-index";
+import { runEtlPipelineFromCli, type EtlPipeline } from "../server/services/etlRunner";
+
+// Rebuilds the normalized address index behind /api/search/unified from the
+// buildings and condo_units tables.
+const addressIndexPipeline: EtlPipeline = {
+  name: "address_search_index",
+  steps: [{ name: "build_address_index", run: () => buildAddressSearchIndex() }],
+};
+
+runEtlPipelineFromCli(addressIndexPipeline);
@@ -0,0 +1,12 @@
+import { buildGazetteer } from "../server/etl/gazetteer-import";
+import { runEtlPipelineFromCli, type EtlPipeline } from "../server/services/etlRunner";
+
+// Rebuilds the place-name gazetteer behind /api/search/geo from neighborhood
+// boundaries, property counties, towns and ZIPs, and the optional
+// GAZETTEER_NAMES_FILE of extra names and aliases.
+const gazetteerPipeline: EtlPipeline = {
+  name: "gazetteer",
+  steps: [{ name: "build_gazetteer", run: () => buildGazetteer() }],
+};
+
+runEtlPipelineFromCli(gazetteerPipeline);
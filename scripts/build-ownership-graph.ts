@@ -0,0 +1,19 @@
+import { syncSocrataSource, acrisPartiesSource, hpdContactsSource } from "../server/etl/socrata-sync";
+import { buildOwnershipGraph, linkTransactionParties } from "../server/services/ownershipGraph";
+import { runEtlPipelineFromCli, type EtlPipeline } from "../server/services/etlRunner";
+
+// Syncs the ACRIS party and HPD registration contact feeds, copies party names
+// onto property_transactions and rebuilds the owner entity graph behind the
+// owner portfolio panels. The first sync backfills each feed's full history;
+// SOCRATA_MAX_RECORDS_PER_SYNC spreads that over several runs.
+const ownershipGraphPipeline: EtlPipeline = {
+  name: "ownership_graph",
+  steps: [
+    { name: "sync_acris_parties", run: () => syncSocrataSource(acrisPartiesSource) },
+    { name: "sync_hpd_contacts", run: () => syncSocrataSource(hpdContactsSource) },
+    { name: "link_transaction_parties", run: () => linkTransactionParties() },
+    { name: "build_ownership_graph", run: () => buildOwnershipGraph() },
+  ],
+};
+
+runEtlPipelineFromCli(ownershipGraphPipeline);
@@ -0,0 +1,51 @@
+import fs from "fs";
+import path from "path";
+import { parseAddressQuery, type ParsedAddressQuery } from "../server/services/addressParser";
+
+// Regression check for address search. Runs the tricky NYC addresses in
+// fixtures/address-search.json through the query parser and reports every
+// case whose parse differs from the expected fields; exits non-zero if any
+// do. With --search it also runs each query against address_search_index
+// (needs DATABASE_URL) and prints the top building and unit with their
+// match type.
+//
+//   npx tsx scripts/check-address-search.ts [--search]
+
+interface AddressFixture {
+  query: string;
+  expected: Partial<ParsedAddressQuery>;
+}
+
+async function main() {
+  const fixturePath = path.join(process.cwd(), "fixtures", "address-search.json");
+  const fixtures: AddressFixture[] = JSON.parse(fs.readFileSync(fixturePath, "utf8"));
+  const search = process.argv.includes("--search");
+  const searchUnified = search ? (await import("../server/services/addressSearch")).searchUnified : null;
+
+  let failures = 0;
+  for (const fixture of fixtures) {
+    const parsed = parseAddressQuery(fixture.query);
+    const mismatches = Object.entries(fixture.expected)
+      .filter(([field, value]) => parsed[field as keyof ParsedAddressQuery] !== value)
+      .map(([field, value]) => `${field}: expected ${JSON.stringify(value)}, got ${JSON.stringify(parsed[field as keyof ParsedAddressQuery])}`);
+    if (mismatches.length > 0) failures++;
+    console.log(`${mismatches.length === 0 ? "ok  " : "FAIL"} ${fixture.query}`);
+    for (const mismatch of mismatches) console.log(`       ${mismatch}`);
+
+    if (searchUnified) {
+      const { buildings, units } = await searchUnified(fixture.query);
+      const building = buildings[0];
+      const unit = units[0];
+      console.log(`       building: ${building ? `${building.displayAddress} (${building.matchType}, ${building.score})` : "none"}`);
+      console.log(`       unit:     ${unit ? `${unit.displayAddress} (${unit.matchType}, ${unit.score})` : "none"}`);
+    }
+  }
+
+  console.log(`\n${fixtures.length - failures}/${fixtures.length} fixtures parse as expected`);
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+main().catch((error) => {
+  console.error("Address search check failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,91 @@
+import {
+  COMP_ADJUSTMENT_RATES,
+  monthlyTrendFromTrend12m,
+  scoreComp,
+  type CompCandidate,
+  type CompSubject,
+} from "../server/services/compsEngine";
+
+// Regression check for the comps time adjustment. Each case turns a ZIP
+// aggregate's trend12m (a fraction, as market_aggregates stores it) into the
+// monthly trend buildComparables passes to scoreComp, scores a $1,000,000
+// comp sold the given number of months before the subject's as-of date, and
+// compares the dollar time adjustment with the expected one. The comp matches
+// the subject on everything else, so the time adjustment is the only one.
+// compsEngine imports the db module, so DATABASE_URL must be set; nothing is
+// queried.
+//
+//   npx tsx scripts/check-comps-time-adjustment.ts
+
+interface TimeAdjustmentCase {
+  label: string;
+  trend12m: number;
+  monthsAgo: number;
+  expectedTime: number;
+}
+
+const SALE_PRICE = 1_000_000;
+const AS_OF = new Date("2026-01-01T00:00:00Z");
+const MS_PER_MONTH = 1000 * 60 * 60 * 24 * 30.44;
+
+const CASES: TimeAdjustmentCase[] = [
+  { label: "12% a year, sold 6 months ago", trend12m: 0.12, monthsAgo: 6, expectedTime: 60_000 },
+  { label: "-6% a year, sold 12 months ago", trend12m: -0.06, monthsAgo: 12, expectedTime: -60_000 },
+  { label: "flat market", trend12m: 0, monthsAgo: 9, expectedTime: 0 },
+  {
+    label: "50% a year is capped at the monthly maximum",
+    trend12m: 0.5,
+    monthsAgo: 3,
+    expectedTime: SALE_PRICE * COMP_ADJUSTMENT_RATES.maxMonthlyTrendPct * 3,
+  },
+];
+
+const subject: CompSubject = {
+  id: "subject",
+  zipCode: "10001",
+  latitude: null,
+  longitude: null,
+  gridLat: null,
+  gridLng: null,
+  propertyType: "Condo",
+  beds: 2,
+  baths: 2,
+  sqft: 1000,
+  yearBuilt: 2000,
+};
+
+function checkCase(c: TimeAdjustmentCase): string[] {
+  const candidate: CompCandidate = {
+    ...subject,
+    id: "comp",
+    saleId: null,
+    salePrice: SALE_PRICE,
+    saleDate: new Date(AS_OF.getTime() - c.monthsAgo * MS_PER_MONTH),
+  };
+  const scored = scoreComp(subject, candidate, {
+    asOf: AS_OF,
+    lookbackMonths: 36,
+    monthlyTrendPct: monthlyTrendFromTrend12m(c.trend12m),
+  });
+  if (!scored) return ["comp was rejected"];
+
+  const failures: string[] = [];
+  if (scored.adjustments.time !== c.expectedTime) {
+    failures.push(`time adjustment ${scored.adjustments.time}, expected ${c.expectedTime}`);
+  }
+  if (scored.adjustedPrice !== SALE_PRICE + c.expectedTime) {
+    failures.push(`adjusted price ${scored.adjustedPrice}, expected ${SALE_PRICE + c.expectedTime}`);
+  }
+  return failures;
+}
+
+let failed = 0;
+for (const c of CASES) {
+  const failures = checkCase(c);
+  if (failures.length > 0) failed++;
+  console.log(`${failures.length === 0 ? "ok  " : "FAIL"} ${c.label}`);
+  for (const failure of failures) console.log(`       ${failure}`);
+}
+
+console.log(`\n${CASES.length - failed}/${CASES.length} time adjustments as expected`);
+process.exit(failed > 0 ? 1 : 0);
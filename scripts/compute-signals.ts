@@ -10,10 +10,16 @@ import {
   amenities
 } from "../shared/schema";
 import { eq, and, gte, lte, sql, or } from "drizzle-orm";
+import { capturePropertySnapshot, detectAndRecordChanges } from "../server/services/changeDetection";
+import { evaluateAlerts } from "../server/alertService";
+import { assignFloodRisk } from "../server/services/floodRisk";
+import { computeDistressSignals } from "../server/services/distressSignals";
 
 async function computePropertySignals() {
   console.log("=== Computing Property Signals ===\n");
 
+  const changeBaseline = await capturePropertySnapshot();
+
   const nycProperties = await db
     .select()
     .from(properties)
@@ -253,6 +259,10 @@ async function computePropertySignals() {
   }
 
   console.log(`\nProperty signals computation complete: ${processed} properties`);
+  await assignFloodRisk();
+  await computeDistressSignals();
+  await detectAndRecordChanges(changeBaseline, "compute-signals");
+  await evaluateAlerts();
   return processed;
 }
 
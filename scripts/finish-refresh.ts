@@ -1,122 +1,18 @@
 import { db } from "../server/db";
 import {
-  marketAggregates,
   dataSources,
   coverageMatrix,
-  dobPermitsRaw,
-  complaints311Raw,
-  hpdRaw,
 } from "../shared/schema";
 import { sql } from "drizzle-orm";
 import { downloadZillowData } from "../server/etl/zillow-data";
-
-const NYC_OPENDATA_BASE = "https://data.cityofnewyork.us/resource";
-const BOROUGH_MAP: Record<string, string> = {
-  MANHATTAN: "Manhattan", BRONX: "Bronx", BROOKLYN: "Brooklyn",
-  QUEENS: "Queens", "STATEN ISLAND": "Staten Island",
-};
-
-async function fetchPermits(): Promise<number> {
-  const oneYearAgo = new Date(); oneYearAgo.setFullYear(oneYearAgo.getFullYear() - 1);
-  const dateFilter = oneYearAgo.toISOString().split("T")[0];
-  const url = `${NYC_OPENDATA_BASE}/rbx6-tga4.json?$where=issued_date>='${dateFilter}'&$limit=20000&$order=issued_date DESC`;
-  const res = await fetch(url);
-  if (!res.ok) throw new Error(`Permits HTTP ${res.status}`);
-  const permits = (await res.json()) as any[];
-  console.log(`  Fetched ${permits.length} permits`);
-  const batch: any[] = [];
-  let idx = 0;
-  for (const r of permits) {
-    if (!r.job_filing_number) continue;
-    batch.push({
-      id: `permit-${r.job_filing_number}-${r.work_type || "NA"}-${idx++}`,
-      jobNumber: r.job_filing_number, bbl: r.bbl || null, bin: r.bin || null,
-      borough: BOROUGH_MAP[r.borough?.toUpperCase()] || r.borough || null,
-      block: r.block || null, lot: r.lot || null,
-      houseNumber: r.house_no || null, streetName: r.street_name || null,
-      zipCode: r.zip_code || null, jobType: r.filing_reason || null,
-      jobDescription: r.job_description?.substring(0, 500) || null,
-      workType: r.work_type || null, permitStatus: r.permit_status || null,
-      issuanceDate: r.issued_date ? new Date(r.issued_date) : null,
-      expirationDate: r.expired_date ? new Date(r.expired_date) : null,
-      estimatedCost: r.estimated_job_costs ? parseInt(r.estimated_job_costs) : null,
-      ownerName: r.owner_business_name || r.owner_name || null,
-      rawData: r,
-    });
-  }
-  for (let i = 0; i < batch.length; i += 500) {
-    await db.insert(dobPermitsRaw).values(batch.slice(i, i + 500)).onConflictDoNothing();
-  }
-  return batch.length;
-}
-
-async function fetch311(): Promise<number> {
-  const sixMonthsAgo = new Date(); sixMonthsAgo.setMonth(sixMonthsAgo.getMonth() - 6);
-  const dateFilter6m = sixMonthsAgo.toISOString().split("T")[0];
-  const url = `${NYC_OPENDATA_BASE}/erm2-nwe9.json?$where=created_date>='${dateFilter6m}'&$limit=20000&$order=created_date DESC`;
-  const res = await fetch(url);
-  if (!res.ok) throw new Error(`311 HTTP ${res.status}`);
-  const complaints = (await res.json()) as any[];
-  console.log(`  Fetched ${complaints.length} 311 complaints`);
-  const batch: any[] = [];
-  for (const r of complaints) {
-    if (!r.unique_key) continue;
-    batch.push({
-      id: `311-${r.unique_key}`, uniqueKey: r.unique_key, bbl: r.bbl || null,
-      latitude: r.latitude ? parseFloat(r.latitude) : null,
-      longitude: r.longitude ? parseFloat(r.longitude) : null,
-      address: r.incident_address || null, city: r.city || null,
-      borough: BOROUGH_MAP[r.borough?.toUpperCase()] || r.borough || null,
-      zipCode: r.incident_zip || null,
-      complaintType: r.complaint_type || null, descriptor: r.descriptor || null,
-      status: r.status || null,
-      createdDate: r.created_date ? new Date(r.created_date) : null,
-      closedDate: r.closed_date ? new Date(r.closed_date) : null,
-      agency: r.agency || null, agencyName: r.agency_name || null,
-      rawData: r,
-    });
-  }
-  for (let i = 0; i < batch.length; i += 500) {
-    await db.insert(complaints311Raw).values(batch.slice(i, i + 500)).onConflictDoNothing();
-  }
-  return batch.length;
-}
-
-async function fetchHpd(): Promise<number> {
-  const sixMonthsAgo = new Date(); sixMonthsAgo.setMonth(sixMonthsAgo.getMonth() - 6);
-  const dateFilter6m = sixMonthsAgo.toISOString().split("T")[0];
-  const url = `${NYC_OPENDATA_BASE}/wvxf-dwi5.json?$where=inspectiondate>='${dateFilter6m}'&$limit=20000&$order=inspectiondate DESC`;
-  const res = await fetch(url);
-  if (!res.ok) throw new Error(`HPD HTTP ${res.status}`);
-  const violations = (await res.json()) as any[];
-  console.log(`  Fetched ${violations.length} HPD violations`);
-  const grouped = new Map<string, { total: number; open: number; bbl: string | null; data: any }>();
-  for (const r of violations) {
-    const id = r.buildingid; if (!id) continue;
-    const ex = grouped.get(id) || { total: 0, open: 0, bbl: r.bbl || null, data: r };
-    ex.total++;
-    if (r.violationstatus === "Open" || r.currentstatus === "VIOLATION OPEN") ex.open++;
-    grouped.set(id, ex);
-  }
-  const batch: any[] = [];
-  for (const [bId, info] of grouped) {
-    const r = info.data;
-    batch.push({
-      id: `hpd-${bId}`, buildingId: bId, bbl: info.bbl,
-      boroId: r.boroid || null,
-      borough: BOROUGH_MAP[r.boro?.toUpperCase()] || r.boro || null,
-      block: r.block || null, lot: r.lot || null,
-      houseNumber: r.housenumber || null, streetName: r.streetname || null,
-      zipCode: r.zip || null,
-      totalViolations: info.total, openViolations: info.open,
-      rawData: { violationSample: r },
-    });
-  }
-  for (let i = 0; i < batch.length; i += 500) {
-    await db.insert(hpdRaw).values(batch.slice(i, i + 500)).onConflictDoNothing();
-  }
-  return batch.length;
-}
+import { pipelineChangeBaseline, detectAndRecordChanges, type PropertySnapshot } from "../server/services/changeDetection";
+import { runEtlPipelineFromCli, type EtlPipeline } from "../server/services/etlRunner";
+import { evaluateAlerts } from "../server/alertService";
+import { syncNycSignalFeeds } from "../server/etl/socrata-sync";
+import { computeOpportunityScores } from "../server/services/opportunityScore";
+import { refreshAggregates } from "../server/services/marketAggregates";
+import { assignFloodRisk } from "../server/services/floodRisk";
+import { computeDistressSignals } from "../server/services/distressSignals";
 
 async function recomputeSignals() {
   console.log("\n=== Recomputing signals ===");
@@ -177,9 +73,9 @@ async function recomputeSignals() {
       END,
       true, ARRAY['dob','hpd','311','fema'], NOW()
     FROM properties p
-    LEFT JOIN (SELECT bbl, COUNT(*)::int AS permit_count FROM dob_permits_raw WHERE bbl IS NOT NULL GROUP BY bbl) dp ON dp.bbl = p.bbl
+    LEFT JOIN (SELECT bbl, COUNT(*)::int AS permit_count FROM dob_permits_raw WHERE bbl IS NOT NULL AND issuance_date >= NOW() - INTERVAL '12 months' GROUP BY bbl) dp ON dp.bbl = p.bbl
     LEFT JOIN (SELECT bbl, SUM(open_violations)::int AS open_violations, SUM(total_violations)::int AS total_violations FROM hpd_raw WHERE bbl IS NOT NULL GROUP BY bbl) hv ON hv.bbl = p.bbl
-    LEFT JOIN (SELECT bbl, COUNT(*)::int AS complaint_count FROM complaints_311_raw WHERE bbl IS NOT NULL GROUP BY bbl) c3 ON c3.bbl = p.bbl
+    LEFT JOIN (SELECT bbl, COUNT(*)::int AS complaint_count FROM complaints_311_raw WHERE bbl IS NOT NULL AND created_date >= NOW() - INTERVAL '12 months' GROUP BY bbl) c3 ON c3.bbl = p.bbl
     WHERE p.state = 'NY' AND p.city IN ('Manhattan','Brooklyn','Bronx','Queens','Staten Island')
     ON CONFLICT (property_id) DO UPDATE SET
       active_permits = EXCLUDED.active_permits,
@@ -201,70 +97,6 @@ async function recomputeSignals() {
   console.log(`  Signals: ${r.cnt}`);
 }
 
-async function recomputeAggregates() {
-  console.log("\n=== Recomputing market aggregates ===");
-  await db.delete(marketAggregates);
-  const z = await db.execute(sql`
-    INSERT INTO market_aggregates (geo_type, geo_id, geo_name, state, median_price, median_price_per_sqft, p25_price, p75_price, p25_price_per_sqft, p75_price_per_sqft, transaction_count, turnover_rate, volatility, trend3m, trend6m, trend12m, computed_at)
-    SELECT 'zip', zip_code, MAX(city) || ' ' || zip_code, MAX(state),
-      ROUND(PERCENTILE_CONT(0.50) WITHIN GROUP (ORDER BY estimated_value))::bigint,
-      ROUND(AVG(price_per_sqft))::int,
-      ROUND(PERCENTILE_CONT(0.25) WITHIN GROUP (ORDER BY estimated_value))::bigint,
-      ROUND(PERCENTILE_CONT(0.75) WITHIN GROUP (ORDER BY estimated_value))::bigint,
-      ROUND(PERCENTILE_CONT(0.25) WITHIN GROUP (ORDER BY price_per_sqft))::int,
-      ROUND(PERCENTILE_CONT(0.75) WITHIN GROUP (ORDER BY price_per_sqft))::int,
-      COUNT(*)::int, 0.03 + RANDOM()*0.04, 0.04 + RANDOM()*0.08,
-      -0.03 + RANDOM()*0.08, -0.02 + RANDOM()*0.06, 0.01 + RANDOM()*0.05, NOW()
-    FROM properties WHERE zip_code IS NOT NULL AND estimated_value > 0
-    GROUP BY zip_code HAVING COUNT(*) >= 3
-  `);
-  console.log(`  ZIP: ${z.rowCount}`);
-  const c = await db.execute(sql`
-    INSERT INTO market_aggregates (geo_type, geo_id, geo_name, state, median_price, median_price_per_sqft, p25_price, p75_price, p25_price_per_sqft, p75_price_per_sqft, transaction_count, turnover_rate, volatility, trend3m, trend6m, trend12m, computed_at)
-    SELECT 'city', LOWER(REGEXP_REPLACE(city, '\\s+', '-', 'g')), city, MAX(state),
-      ROUND(PERCENTILE_CONT(0.50) WITHIN GROUP (ORDER BY estimated_value))::bigint,
-      ROUND(AVG(price_per_sqft))::int,
-      ROUND(PERCENTILE_CONT(0.25) WITHIN GROUP (ORDER BY estimated_value))::bigint,
-      ROUND(PERCENTILE_CONT(0.75) WITHIN GROUP (ORDER BY estimated_value))::bigint,
-      ROUND(PERCENTILE_CONT(0.25) WITHIN GROUP (ORDER BY price_per_sqft))::int,
-      ROUND(PERCENTILE_CONT(0.75) WITHIN GROUP (ORDER BY price_per_sqft))::int,
-      COUNT(*)::int, 0.035 + RANDOM()*0.03, 0.04 + RANDOM()*0.06,
-      -0.03 + RANDOM()*0.07, -0.02 + RANDOM()*0.05, 0.01 + RANDOM()*0.04, NOW()
-    FROM properties WHERE city IS NOT NULL AND estimated_value > 0
-    GROUP BY city HAVING COUNT(*) >= 5
-  `);
-  console.log(`  City: ${c.rowCount}`);
-  const co = await db.execute(sql`
-    INSERT INTO market_aggregates (geo_type, geo_id, geo_name, state, median_price, median_price_per_sqft, p25_price, p75_price, p25_price_per_sqft, p75_price_per_sqft, transaction_count, turnover_rate, volatility, trend3m, trend6m, trend12m, computed_at)
-    SELECT 'county', LOWER(REGEXP_REPLACE(county, '\\s+', '-', 'g')), county || ' County', MAX(state),
-      ROUND(PERCENTILE_CONT(0.50) WITHIN GROUP (ORDER BY estimated_value))::bigint,
-      ROUND(AVG(price_per_sqft))::int,
-      ROUND(PERCENTILE_CONT(0.25) WITHIN GROUP (ORDER BY estimated_value))::bigint,
-      ROUND(PERCENTILE_CONT(0.75) WITHIN GROUP (ORDER BY estimated_value))::bigint,
-      ROUND(PERCENTILE_CONT(0.25) WITHIN GROUP (ORDER BY price_per_sqft))::int,
-      ROUND(PERCENTILE_CONT(0.75) WITHIN GROUP (ORDER BY price_per_sqft))::int,
-      COUNT(*)::int, 0.03 + RANDOM()*0.035, 0.04 + RANDOM()*0.07,
-      -0.02 + RANDOM()*0.06, -0.01 + RANDOM()*0.05, 0.015 + RANDOM()*0.04, NOW()
-    FROM properties WHERE county IS NOT NULL AND estimated_value > 0
-    GROUP BY county HAVING COUNT(*) >= 5
-  `);
-  console.log(`  County: ${co.rowCount}`);
-  const n = await db.execute(sql`
-    INSERT INTO market_aggregates (geo_type, geo_id, geo_name, state, median_price, median_price_per_sqft, p25_price, p75_price, p25_price_per_sqft, p75_price_per_sqft, transaction_count, turnover_rate, volatility, trend3m, trend6m, trend12m, computed_at)
-    SELECT 'neighborhood', LOWER(REGEXP_REPLACE(neighborhood, '\\s+', '-', 'g')), neighborhood, MAX(state),
-      ROUND(PERCENTILE_CONT(0.50) WITHIN GROUP (ORDER BY estimated_value))::bigint,
-      ROUND(AVG(price_per_sqft))::int,
-      ROUND(PERCENTILE_CONT(0.25) WITHIN GROUP (ORDER BY estimated_value))::bigint,
-      ROUND(PERCENTILE_CONT(0.75) WITHIN GROUP (ORDER BY estimated_value))::bigint,
-      ROUND(PERCENTILE_CONT(0.25) WITHIN GROUP (ORDER BY price_per_sqft))::int,
-      ROUND(PERCENTILE_CONT(0.75) WITHIN GROUP (ORDER BY price_per_sqft))::int,
-      COUNT(*)::int, 0.025 + RANDOM()*0.04, 0.05 + RANDOM()*0.08,
-      -0.03 + RANDOM()*0.07, -0.02 + RANDOM()*0.05, 0.02 + RANDOM()*0.04, NOW()
-    FROM properties WHERE neighborhood IS NOT NULL AND estimated_value > 0
-    GROUP BY neighborhood HAVING COUNT(*) >= 5
-  `);
-  console.log(`  Neighborhood: ${n.rowCount}`);
-}
 
 async function updateSources(zillowCount: number) {
   console.log("\n=== Updating data_sources & coverage_matrix ===");
@@ -298,53 +130,64 @@ async function updateSources(zillowCount: number) {
   console.log("  Done");
 }
 
-async function main() {
-  const t0 = Date.now();
-  console.log("=".repeat(70));
-  console.log("FINISH REFRESH (raw feeds + Zillow + signals + aggregates + sources)");
-  console.log("=".repeat(70));
-
-  console.log("\n=== Refreshing NYC raw feeds (parallel) ===");
-  const feedFailures: string[] = [];
-  let permitCount = 0, complaintCount = 0, hpdCount = 0;
-  await db.delete(dobPermitsRaw);
-  await db.delete(complaints311Raw);
-  await db.delete(hpdRaw);
-
-  const [pRes, cRes, hRes] = await Promise.allSettled([fetchPermits(), fetch311(), fetchHpd()]);
-  if (pRes.status === "fulfilled") permitCount = pRes.value;
-  else feedFailures.push(`DOB Permits: ${pRes.reason}`);
-  if (cRes.status === "fulfilled") complaintCount = cRes.value;
-  else feedFailures.push(`311: ${cRes.reason}`);
-  if (hRes.status === "fulfilled") hpdCount = hRes.value;
-  else feedFailures.push(`HPD: ${hRes.reason}`);
-  console.log(`  Permits=${permitCount}  311=${complaintCount}  HPD=${hpdCount}`);
+async function refreshRawFeeds() {
+  console.log("\n=== Syncing NYC raw feeds ===");
+  const feeds = await syncNycSignalFeeds();
+  console.log(`  Permits=${feeds.permits}  311=${feeds.complaints}  HPD=${feeds.hpd}`);
+  return {
+    rowsWritten: feeds.permits + feeds.complaints + feeds.hpd,
+    metadata: feeds,
+  };
+}
 
+async function refreshZillow() {
   console.log("\n=== Refreshing Zillow ZHVI ===");
-  let zillowCount = 0;
   try {
     const z = await downloadZillowData();
-    zillowCount = z.zipData.length + z.cityData.length;
+    const zillowCount = z.zipData.length + z.cityData.length;
     console.log(`  Zillow tri-state: ${zillowCount}`);
+    return { rowsRead: zillowCount };
   } catch (e) {
-    feedFailures.push(`Zillow: ${(e as Error).message}`);
     console.error(`  Zillow FAILED: ${(e as Error).message}`);
+    return { rowsRead: 0, metadata: { failures: [`Zillow: ${(e as Error).message}`] } };
   }
+}
 
-  await recomputeSignals();
-  await recomputeAggregates();
-  await updateSources(zillowCount);
+const finishRefreshPipeline: EtlPipeline<PropertySnapshot> = {
+  name: "finish_refresh",
+  // A resumed run diffs against the failed run's baseline, so changes made
+  // by the steps it skips are still alerted on
+  setup: pipelineChangeBaseline,
+  steps: [
+    { name: "refresh_raw_feeds", run: refreshRawFeeds },
+    { name: "refresh_zillow", run: refreshZillow },
+    { name: "recompute_signals", run: recomputeSignals },
+    { name: "assign_flood_risk", run: () => assignFloodRisk() },
+    { name: "compute_distress_signals", run: () => computeDistressSignals() },
+    { name: "recompute_aggregates", run: refreshAggregates },
+    { name: "compute_opportunity_scores", run: () => computeOpportunityScores() },
+    {
+      name: "detect_changes",
+      run: (changeBaseline) => detectAndRecordChanges(changeBaseline, "finish-refresh"),
+    },
+    {
+      name: "evaluate_alerts",
+      run: async () => {
+        const result = await evaluateAlerts();
+        return { rowsRead: result.evaluated, rowsWritten: result.triggered };
+      },
+    },
+    {
+      name: "update_sources",
+      run: async (_changeBaseline, results) => {
+        await updateSources(results.get("refresh_zillow")?.rowsRead ?? 0);
+      },
+    },
+  ],
+};
 
-  const elapsed = Math.round((Date.now() - t0) / 1000);
-  console.log(`\nElapsed: ${elapsed}s`);
-  if (feedFailures.length) {
-    console.log("FAILURES:");
-    for (const f of feedFailures) console.log(`  - ${f}`);
-  } else {
-    console.log("No failures.");
-  }
-}
+console.log("=".repeat(70));
+console.log("FINISH REFRESH (raw feeds + Zillow + signals + aggregates + sources)");
+console.log("=".repeat(70));
 
-main().then(() => process.exit(0)).catch((e) => {
-  console.error("Failed:", e); process.exit(1);
-});
+runEtlPipelineFromCli(finishRefreshPipeline);
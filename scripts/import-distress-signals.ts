@@ -0,0 +1,26 @@
+import { syncSocrataSource, taxLienSaleListsSource } from "../server/etl/socrata-sync";
+import { importLisPendens } from "../server/etl/lis-pendens-import";
+import { computeDistressSignals } from "../server/services/distressSignals";
+import { pipelineChangeBaseline, detectAndRecordChanges, type PropertySnapshot } from "../server/services/changeDetection";
+import { runEtlPipelineFromCli, type EtlPipeline } from "../server/services/etlRunner";
+
+// Syncs the tax lien sale lists, imports the lis pendens export named by
+// LIS_PENDENS_FILE (skipped when unset) and recomputes distress scores. Newly
+// raised distress flags are recorded as distress_signal changes for saved
+// search alerts. Mortgage dates come from the ACRIS transactions loaded by the
+// full NYC import.
+const distressSignalsPipeline: EtlPipeline<PropertySnapshot> = {
+  name: "distress_signals",
+  setup: pipelineChangeBaseline,
+  steps: [
+    { name: "sync_tax_lien_sale_lists", run: () => syncSocrataSource(taxLienSaleListsSource) },
+    { name: "import_lis_pendens", run: () => importLisPendens() },
+    { name: "compute_distress_signals", run: () => computeDistressSignals() },
+    {
+      name: "detect_changes",
+      run: (baseline) => detectAndRecordChanges(baseline, "distress-signals"),
+    },
+  ],
+};
+
+runEtlPipelineFromCli(distressSignalsPipeline);
@@ -0,0 +1,17 @@
+import { importFloodHazards } from "../server/etl/flood-hazards";
+import { assignFloodRisk } from "../server/services/floodRisk";
+import { runEtlPipelineFromCli, type EtlPipeline } from "../server/services/etlRunner";
+
+// Imports the FEMA NFHL and NYC sea level rise / stormwater flood layers
+// (FEMA_NFHL_FILE, NYC_SLR_2050S_FILE, NYC_SLR_2080S_FILE,
+// NYC_STORMWATER_MODERATE_2050_FILE, NYC_STORMWATER_EXTREME_2080_FILE) and
+// reassigns every property's flood signals from them.
+const floodHazardsPipeline: EtlPipeline = {
+  name: "flood_hazards",
+  steps: [
+    { name: "import_flood_hazards", run: () => importFloodHazards() },
+    { name: "assign_flood_risk", run: () => assignFloodRisk() },
+  ],
+};
+
+runEtlPipelineFromCli(floodHazardsPipeline);
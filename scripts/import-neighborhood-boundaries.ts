@@ -0,0 +1,19 @@
+import { importNeighborhoodBoundaries } from "../server/etl/neighborhood-boundaries";
+import { assignNeighborhoods } from "../server/services/neighborhoods";
+import { buildGazetteer } from "../server/etl/gazetteer-import";
+import { runEtlPipelineFromCli, type EtlPipeline } from "../server/services/etlRunner";
+
+// Imports the neighborhood boundary GeoJSON files (NYC_NTA_GEOJSON,
+// NJ_MUNICIPALITIES_GEOJSON, CT_TOWNS_GEOJSON), reassigns every property,
+// condo unit and building and rebuilds the gazetteer. Neighborhood aggregates pick the new assignments
+// up on the next aggregates refresh.
+const neighborhoodBoundariesPipeline: EtlPipeline = {
+  name: "neighborhood_boundaries",
+  steps: [
+    { name: "import_boundaries", run: () => importNeighborhoodBoundaries() },
+    { name: "assign_neighborhoods", run: () => assignNeighborhoods() },
+    { name: "build_gazetteer", run: () => buildGazetteer() },
+  ],
+};
+
+runEtlPipelineFromCli(neighborhoodBoundariesPipeline);
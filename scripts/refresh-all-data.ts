@@ -1,568 +1,28 @@
 import { db } from "../server/db";
 import {
-  properties,
-  sales,
-  marketAggregates,
   dataSources,
-  dobPermitsRaw,
-  complaints311Raw,
-  hpdRaw,
   propertySignalSummary,
   coverageMatrix,
 } from "@shared/schema";
-import { sql, eq, and, or, gte, lte, inArray } from "drizzle-orm";
-
-const NYC_OPENDATA_BASE = "https://data.cityofnewyork.us/resource";
-const CT_OPENDATA_BASE = "https://data.ct.gov/resource";
-
-const BOROUGH_MAP: Record<string, string> = {
-  MANHATTAN: "Manhattan",
-  BRONX: "Bronx",
-  BROOKLYN: "Brooklyn",
-  QUEENS: "Queens",
-  "STATEN ISLAND": "Staten Island",
-};
-
-const NJ_MUNICIPALITIES = [
-  { city: "Jersey City", county: "Hudson", zip: "07302", lat: 40.7178, lng: -74.0431, medianPrice: 575000 },
-  { city: "Jersey City", county: "Hudson", zip: "07304", lat: 40.7215, lng: -74.0648, medianPrice: 485000 },
-  { city: "Jersey City", county: "Hudson", zip: "07306", lat: 40.7350, lng: -74.0650, medianPrice: 420000 },
-  { city: "Jersey City", county: "Hudson", zip: "07310", lat: 40.7282, lng: -74.0380, medianPrice: 695000 },
-  { city: "Hoboken", county: "Hudson", zip: "07030", lat: 40.7440, lng: -74.0324, medianPrice: 720000 },
-  { city: "Newark", county: "Essex", zip: "07102", lat: 40.7357, lng: -74.1724, medianPrice: 310000 },
-  { city: "Newark", county: "Essex", zip: "07104", lat: 40.7673, lng: -74.1694, medianPrice: 295000 },
-  { city: "Newark", county: "Essex", zip: "07106", lat: 40.7210, lng: -74.2194, medianPrice: 275000 },
-  { city: "Newark", county: "Essex", zip: "07108", lat: 40.7168, lng: -74.1964, medianPrice: 265000 },
-  { city: "Newark", county: "Essex", zip: "07112", lat: 40.7070, lng: -74.2124, medianPrice: 250000 },
-  { city: "Paterson", county: "Passaic", zip: "07501", lat: 40.9168, lng: -74.1718, medianPrice: 340000 },
-  { city: "Paterson", county: "Passaic", zip: "07502", lat: 40.9268, lng: -74.1918, medianPrice: 325000 },
-  { city: "Paterson", county: "Passaic", zip: "07504", lat: 40.9068, lng: -74.1568, medianPrice: 330000 },
-  { city: "Elizabeth", county: "Union", zip: "07201", lat: 40.6640, lng: -74.2107, medianPrice: 375000 },
-  { city: "Elizabeth", county: "Union", zip: "07202", lat: 40.6558, lng: -74.2220, medianPrice: 365000 },
-  { city: "Elizabeth", county: "Union", zip: "07208", lat: 40.6690, lng: -74.2350, medianPrice: 395000 },
-  { city: "Bayonne", county: "Hudson", zip: "07002", lat: 40.6687, lng: -74.1143, medianPrice: 425000 },
-  { city: "Union City", county: "Hudson", zip: "07087", lat: 40.7679, lng: -74.0238, medianPrice: 380000 },
-  { city: "West New York", county: "Hudson", zip: "07093", lat: 40.7879, lng: -74.0088, medianPrice: 365000 },
-  { city: "North Bergen", county: "Hudson", zip: "07047", lat: 40.8040, lng: -74.0120, medianPrice: 410000 },
-  { city: "East Orange", county: "Essex", zip: "07017", lat: 40.7679, lng: -74.2038, medianPrice: 285000 },
-  { city: "East Orange", county: "Essex", zip: "07018", lat: 40.7550, lng: -74.2150, medianPrice: 275000 },
-  { city: "Irvington", county: "Essex", zip: "07111", lat: 40.7254, lng: -74.2346, medianPrice: 270000 },
-  { city: "Bloomfield", county: "Essex", zip: "07003", lat: 40.8070, lng: -74.1854, medianPrice: 420000 },
-  { city: "Montclair", county: "Essex", zip: "07042", lat: 40.8259, lng: -74.2090, medianPrice: 685000 },
-  { city: "Morristown", county: "Morris", zip: "07960", lat: 40.7968, lng: -74.4818, medianPrice: 525000 },
-  { city: "New Brunswick", county: "Middlesex", zip: "08901", lat: 40.4862, lng: -74.4518, medianPrice: 340000 },
-  { city: "New Brunswick", county: "Middlesex", zip: "08903", lat: 40.4962, lng: -74.4418, medianPrice: 355000 },
-  { city: "Perth Amboy", county: "Middlesex", zip: "08861", lat: 40.5068, lng: -74.2654, medianPrice: 345000 },
-  { city: "Plainfield", county: "Union", zip: "07060", lat: 40.6337, lng: -74.4074, medianPrice: 310000 },
-  { city: "Hackensack", county: "Bergen", zip: "07601", lat: 40.8859, lng: -74.0435, medianPrice: 440000 },
-  { city: "Fort Lee", county: "Bergen", zip: "07024", lat: 40.8509, lng: -73.9712, medianPrice: 520000 },
-  { city: "Edgewater", county: "Bergen", zip: "07020", lat: 40.8270, lng: -73.9754, medianPrice: 545000 },
-  { city: "Cliffside Park", county: "Bergen", zip: "07010", lat: 40.8215, lng: -73.9879, medianPrice: 465000 },
-  { city: "Weehawken", county: "Hudson", zip: "07086", lat: 40.7679, lng: -74.0188, medianPrice: 610000 },
-  { city: "Guttenberg", county: "Hudson", zip: "07093", lat: 40.7929, lng: -74.0038, medianPrice: 350000 },
-  { city: "Kearny", county: "Hudson", zip: "07032", lat: 40.7640, lng: -74.1204, medianPrice: 395000 },
-  { city: "Harrison", county: "Hudson", zip: "07029", lat: 40.7468, lng: -74.1568, medianPrice: 415000 },
-  { city: "Secaucus", county: "Hudson", zip: "07094", lat: 40.7896, lng: -74.0566, medianPrice: 475000 },
-  { city: "Passaic", county: "Passaic", zip: "07055", lat: 40.8568, lng: -74.1288, medianPrice: 355000 },
-];
-
-const CT_TOWNS = [
-  "Stamford", "Bridgeport", "New Haven", "Hartford", "Waterbury",
-  "Norwalk", "Danbury", "New Britain", "Greenwich", "Fairfield",
-  "West Hartford", "Hamden", "Milford", "Meriden", "Bristol",
-  "Manchester", "West Haven", "Stratford", "Middletown", "Shelton",
-  "Trumbull", "Darien", "Westport", "New Canaan", "Ridgefield",
-];
-
-const CT_ZIP_FALLBACK: Record<string, string> = {
-  Waterbury: "06702", Norwalk: "06850", Danbury: "06810",
-  "New Britain": "06051", Greenwich: "06830", Fairfield: "06824",
-  "West Hartford": "06107", Hamden: "06514", Milford: "06460",
-  Meriden: "06450", Bristol: "06010", Manchester: "06040",
-  "West Haven": "06516", Stratford: "06614", Middletown: "06457",
-  Shelton: "06484", Trumbull: "06611", Darien: "06820",
-  Westport: "06880", "New Canaan": "06840", Ridgefield: "06877",
-  "New Haven": "06510", Stamford: "06901", Bridgeport: "06601",
-  Hartford: "06103",
-};
-
-const CT_COORDS: Record<string, { lat: number; lng: number }> = {
-  Stamford: { lat: 41.0534, lng: -73.5387 }, Bridgeport: { lat: 41.1865, lng: -73.1952 },
-  "New Haven": { lat: 41.3081, lng: -72.9282 }, Hartford: { lat: 41.7658, lng: -72.6734 },
-  Waterbury: { lat: 41.5582, lng: -73.0515 }, Norwalk: { lat: 41.1177, lng: -73.4082 },
-  Danbury: { lat: 41.3948, lng: -73.4540 }, "New Britain": { lat: 41.6612, lng: -72.7795 },
-  Greenwich: { lat: 41.0262, lng: -73.6285 }, Fairfield: { lat: 41.1408, lng: -73.2614 },
-  "West Hartford": { lat: 41.7620, lng: -72.7420 }, Hamden: { lat: 41.3959, lng: -72.8968 },
-  Milford: { lat: 41.2223, lng: -73.0565 }, Meriden: { lat: 41.5382, lng: -72.8071 },
-  Bristol: { lat: 41.6718, lng: -72.9493 }, Manchester: { lat: 41.7759, lng: -72.5215 },
-  "West Haven": { lat: 41.2712, lng: -72.9470 }, Stratford: { lat: 41.1845, lng: -73.1332 },
-  Middletown: { lat: 41.5622, lng: -72.6505 }, Shelton: { lat: 41.3068, lng: -73.0932 },
-  Trumbull: { lat: 41.2429, lng: -73.2008 }, Darien: { lat: 41.0787, lng: -73.4696 },
-  Westport: { lat: 41.1415, lng: -73.3579 }, "New Canaan": { lat: 41.1468, lng: -73.4951 },
-  Ridgefield: { lat: 41.2815, lng: -73.4985 },
-};
-
-const CT_COUNTY_MAP: Record<string, string> = {
-  Stamford: "Fairfield", Bridgeport: "Fairfield", Norwalk: "Fairfield",
-  Danbury: "Fairfield", Greenwich: "Fairfield", Fairfield: "Fairfield",
-  Milford: "Fairfield", Stratford: "Fairfield", Shelton: "Fairfield",
-  Trumbull: "Fairfield", Darien: "Fairfield", Westport: "Fairfield",
-  "New Canaan": "Fairfield", Ridgefield: "Fairfield",
-  "New Haven": "New Haven", Waterbury: "New Haven", Hamden: "New Haven",
-  Meriden: "New Haven", "West Haven": "New Haven",
-  Hartford: "Hartford", "New Britain": "Hartford", Bristol: "Hartford",
-  "West Hartford": "Hartford", Manchester: "Hartford",
-  Middletown: "Middlesex",
-};
-
-const CT_STATE_USE_MAP: Record<string, string> = {
-  "1010": "SFH", "1011": "SFH", "1012": "SFH", "1013": "SFH",
-  "1020": "SFH", "1021": "SFH", "1030": "SFH",
-  "1040": "Multi-family 2-4", "1041": "Multi-family 2-4", "1050": "Multi-family 2-4",
-  "1060": "Multi-family 5+", "1070": "Multi-family 5+", "1080": "Multi-family 5+",
-  "1000": "SFH", "1090": "SFH",
-  "2010": "Condo", "2020": "Condo", "2030": "Condo", "2040": "Condo",
-  "3010": "Vacant Land", "3020": "Vacant Land",
-  "4010": "Commercial", "4020": "Commercial", "4030": "Commercial",
-  "5010": "Mixed-Use", "5020": "Mixed-Use",
-};
-
-const NJ_PROP_CLASSES: Record<string, string> = {
-  "1": "Vacant Land", "2": "SFH", "4A": "Commercial",
-  "4B": "Commercial", "4C": "Commercial",
-  "15A": "SFH", "15B": "SFH", "15C": "Condo",
-  "15D": "SFH", "15E": "SFH", "15F": "Townhome",
-};
-
-const NJ_STREETS = [
-  "Broadway", "Central Ave", "Bergen Ave", "Summit Ave", "Washington St",
-  "Newark Ave", "Grand St", "JFK Blvd", "Hudson St", "Park Ave",
-  "Martin Luther King Jr Blvd", "Market St", "Broad St", "Clinton Ave",
-  "Springfield Ave", "South Orange Ave", "Bloomfield Ave", "Valley Rd",
-  "Main St", "River Rd", "Boulevard East", "Palisade Ave",
-  "Liberty Ave", "Elizabeth Ave", "Communipaw Ave", "Montgomery St",
-  "Van Houten Ave", "21st Ave", "Bergenline Ave", "Kennedy Blvd",
-  "Harrison Ave", "Oak St", "Elm St", "Maple Ave", "Cedar Lane",
-  "Anderson Ave", "Tonnele Ave", "County Ave", "Ferry St", "Prospect St",
-];
-
-function randomBetween(min: number, max: number): number {
-  return Math.floor(Math.random() * (max - min + 1)) + min;
-}
-
-function randomFrom<T>(arr: T[]): T {
-  return arr[Math.floor(Math.random() * arr.length)];
-}
-
-function generateGridCoords(lat: number, lng: number): { gridLat: number; gridLng: number } {
-  return {
-    gridLat: Math.round(lat * 1000),
-    gridLng: Math.round(lng * 1000),
-  };
-}
-
-async function refreshNYCETL(): Promise<{ permits: number; complaints: number; hpd: number }> {
-  console.log("\n=== STEP 1: Refreshing NYC Open Data (DOB Permits, 311, HPD) ===\n");
-
-  const oneYearAgo = new Date();
-  oneYearAgo.setFullYear(oneYearAgo.getFullYear() - 1);
-  const dateFilter = oneYearAgo.toISOString().split("T")[0];
-
-  const sixMonthsAgo = new Date();
-  sixMonthsAgo.setMonth(sixMonthsAgo.getMonth() - 6);
-  const dateFilter6m = sixMonthsAgo.toISOString().split("T")[0];
-
-  console.log("Clearing old ETL data...");
-  await db.delete(dobPermitsRaw);
-  await db.delete(complaints311Raw);
-  await db.delete(hpdRaw);
-
-  console.log("Importing DOB Permits (last 12 months)...");
-  const permitUrl = `${NYC_OPENDATA_BASE}/rbx6-tga4.json?$where=issued_date>='${dateFilter}'&$limit=20000&$order=issued_date DESC`;
-  let permitCount = 0;
-  try {
-    const permitRes = await fetch(permitUrl);
-    const permits = (await permitRes.json()) as any[];
-    console.log(`  Fetched ${permits.length} permit records`);
-
-    const permitBatch: any[] = [];
-    for (const r of permits) {
-      if (!r.job_filing_number) continue;
-      permitBatch.push({
-        id: `permit-${r.job_filing_number}-${r.work_type || "NA"}-${permitCount}`,
-        jobNumber: r.job_filing_number,
-        bbl: r.bbl || null,
-        bin: r.bin || null,
-        borough: BOROUGH_MAP[r.borough?.toUpperCase()] || r.borough || null,
-        block: r.block || null,
-        lot: r.lot || null,
-        houseNumber: r.house_no || null,
-        streetName: r.street_name || null,
-        zipCode: r.zip_code || null,
-        jobType: r.filing_reason || null,
-        jobDescription: r.job_description?.substring(0, 500) || null,
-        workType: r.work_type || null,
-        permitStatus: r.permit_status || null,
-        issuanceDate: r.issued_date ? new Date(r.issued_date) : null,
-        expirationDate: r.expired_date ? new Date(r.expired_date) : null,
-        estimatedCost: r.estimated_job_costs ? parseInt(r.estimated_job_costs) : null,
-        ownerName: r.owner_business_name || r.owner_name || null,
-        rawData: r,
-      });
-      permitCount++;
-    }
-
-    for (let i = 0; i < permitBatch.length; i += 500) {
-      const batch = permitBatch.slice(i, i + 500);
-      await db.insert(dobPermitsRaw).values(batch).onConflictDoNothing();
-    }
-    console.log(`  Imported ${permitCount} DOB permits`);
-  } catch (e) {
-    console.error("  DOB Permits fetch error:", (e as Error).message);
-  }
-
-  console.log("Importing 311 Complaints (last 6 months)...");
-  const complaint311Url = `${NYC_OPENDATA_BASE}/erm2-nwe9.json?$where=created_date>='${dateFilter6m}'&$limit=20000&$order=created_date DESC`;
-  let complaint311Count = 0;
-  try {
-    const complaint311Res = await fetch(complaint311Url);
-    const complaints311Data = (await complaint311Res.json()) as any[];
-    console.log(`  Fetched ${complaints311Data.length} 311 complaint records`);
-
-    const complaintBatch: any[] = [];
-    for (const r of complaints311Data) {
-      if (!r.unique_key) continue;
-      complaintBatch.push({
-        id: `311-${r.unique_key}`,
-        uniqueKey: r.unique_key,
-        bbl: r.bbl || null,
-        latitude: r.latitude ? parseFloat(r.latitude) : null,
-        longitude: r.longitude ? parseFloat(r.longitude) : null,
-        address: r.incident_address || null,
-        city: r.city || null,
-        borough: BOROUGH_MAP[r.borough?.toUpperCase()] || r.borough || null,
-        zipCode: r.incident_zip || null,
-        complaintType: r.complaint_type || null,
-        descriptor: r.descriptor || null,
-        status: r.status || null,
-        createdDate: r.created_date ? new Date(r.created_date) : null,
-        closedDate: r.closed_date ? new Date(r.closed_date) : null,
-        agency: r.agency || null,
-        agencyName: r.agency_name || null,
-        rawData: r,
-      });
-      complaint311Count++;
-    }
-
-    for (let i = 0; i < complaintBatch.length; i += 500) {
-      const batch = complaintBatch.slice(i, i + 500);
-      await db.insert(complaints311Raw).values(batch).onConflictDoNothing();
-    }
-    console.log(`  Imported ${complaint311Count} 311 complaints`);
-  } catch (e) {
-    console.error("  311 Complaints fetch error:", (e as Error).message);
-  }
-
-  console.log("Importing HPD Violations (last 6 months)...");
-  const hpdUrl = `${NYC_OPENDATA_BASE}/wvxf-dwi5.json?$where=inspectiondate>='${dateFilter6m}'&$limit=20000&$order=inspectiondate DESC`;
-  let hpdCount = 0;
-  try {
-    const hpdRes = await fetch(hpdUrl);
-    const violations = (await hpdRes.json()) as any[];
-    console.log(`  Fetched ${violations.length} HPD violation records`);
-
-    const violationsByBuilding = new Map<string, { total: number; open: number; bbl: string | null; data: any }>();
-    for (const r of violations) {
-      const buildingId = r.buildingid;
-      if (!buildingId) continue;
-      const existing = violationsByBuilding.get(buildingId) || { total: 0, open: 0, bbl: r.bbl || null, data: r };
-      existing.total++;
-      if (r.violationstatus === "Open" || r.currentstatus === "VIOLATION OPEN") existing.open++;
-      violationsByBuilding.set(buildingId, existing);
-    }
-
-    const hpdBatch: any[] = [];
-    for (const [buildingId, info] of violationsByBuilding) {
-      const r = info.data;
-      hpdBatch.push({
-        id: `hpd-${buildingId}`,
-        buildingId: buildingId,
-        bbl: info.bbl,
-        boroId: r.boroid || null,
-        borough: BOROUGH_MAP[r.boro?.toUpperCase()] || r.boro || null,
-        block: r.block || null,
-        lot: r.lot || null,
-        houseNumber: r.housenumber || null,
-        streetName: r.streetname || null,
-        zipCode: r.zip || null,
-        totalViolations: info.total,
-        openViolations: info.open,
-        rawData: { violationSample: r },
-      });
-      hpdCount++;
-    }
-
-    for (let i = 0; i < hpdBatch.length; i += 500) {
-      const batch = hpdBatch.slice(i, i + 500);
-      await db.insert(hpdRaw).values(batch).onConflictDoNothing();
-    }
-    console.log(`  Imported ${hpdCount} HPD building violation records`);
-  } catch (e) {
-    console.error("  HPD Violations fetch error:", (e as Error).message);
-  }
-
-  return { permits: permitCount, complaints: complaint311Count, hpd: hpdCount };
-}
-
-async function importNJProperties(): Promise<number> {
-  console.log("\n=== STEP 2: Adding NJ Properties ===\n");
-
-  const existingNJ = await db
-    .select({ cnt: sql<number>`count(*)::int` })
-    .from(properties)
-    .where(eq(properties.state, "NJ"));
-  const existingCount = existingNJ[0]?.cnt || 0;
-  console.log(`  Existing NJ properties: ${existingCount}`);
-
-  if (existingCount > 500) {
-    console.log("  NJ already has sufficient properties, skipping generation.");
-    return existingCount;
-  }
-
-  console.log("  Generating NJ properties from real municipality data...");
-
-  const propertyTypes = ["SFH", "Condo", "Townhome", "Multi-family 2-4", "Multi-family 5+"];
-  const propTypeWeights = [0.30, 0.25, 0.20, 0.15, 0.10];
-
-  function weightedPropertyType(): string {
-    const r = Math.random();
-    let cumulative = 0;
-    for (let i = 0; i < propTypeWeights.length; i++) {
-      cumulative += propTypeWeights[i];
-      if (r <= cumulative) return propertyTypes[i];
-    }
-    return propertyTypes[0];
-  }
-
-  let totalInserted = 0;
-  const batchValues: any[] = [];
-
-  for (const muni of NJ_MUNICIPALITIES) {
-    const propertiesPerZip = randomBetween(80, 150);
-    for (let i = 0; i < propertiesPerZip; i++) {
-      const propType = weightedPropertyType();
-      const beds = propType === "Condo" ? randomBetween(1, 3) :
-                   propType === "Townhome" ? randomBetween(2, 4) :
-                   propType === "Multi-family 2-4" ? randomBetween(3, 6) :
-                   propType === "Multi-family 5+" ? randomBetween(6, 20) :
-                   randomBetween(2, 5);
-      const baths = propType === "Condo" ? randomBetween(1, 2) :
-                    Math.min(beds + 1, randomBetween(1, 4));
-      const sqft = propType === "Condo" ? randomBetween(600, 1500) :
-                   propType === "Townhome" ? randomBetween(1000, 2200) :
-                   propType === "Multi-family 2-4" ? randomBetween(1800, 3500) :
-                   propType === "Multi-family 5+" ? randomBetween(3000, 8000) :
-                   randomBetween(1000, 3000);
-
-      const priceVariance = 0.65 + Math.random() * 0.7;
-      const estimatedValue = Math.round(muni.medianPrice * priceVariance);
-      const pricePerSqft = Math.round(estimatedValue / sqft);
-      const yearBuilt = randomBetween(1920, 2024);
-
-      const lastSaleYearsAgo = randomBetween(1, 12);
-      const appreciationRate = 0.03;
-      const lastSalePrice = Math.round(estimatedValue / Math.pow(1 + appreciationRate, lastSaleYearsAgo));
-      const lastSaleDate = new Date();
-      lastSaleDate.setFullYear(lastSaleDate.getFullYear() - lastSaleYearsAgo);
-      lastSaleDate.setMonth(randomBetween(0, 11));
-
-      const medianPpsf = muni.medianPrice / 1400;
-      const mispricing = Math.min(100, Math.max(0, ((medianPpsf - pricePerSqft) / medianPpsf) * 100 + 50)) * 0.4;
-      const yearFactor = Math.min(100, Math.max(0, (yearBuilt - 1900) / 1.2)) * 0.15;
-      const sizeFactor = Math.min(100, sqft / 30) * 0.15;
-      const liquidity = randomBetween(50, 90) * 0.15;
-      const riskFactor = randomBetween(60, 95) * 0.15;
-      const oppScore = Math.min(100, Math.max(0, Math.round(mispricing + yearFactor + sizeFactor + liquidity + riskFactor)));
-
-      const latJitter = (Math.random() - 0.5) * 0.02;
-      const lngJitter = (Math.random() - 0.5) * 0.02;
-      const lat = muni.lat + latJitter;
-      const lng = muni.lng + lngJitter;
-      const grid = generateGridCoords(lat, lng);
-
-      const streetNum = randomBetween(1, 999);
-      const street = randomFrom(NJ_STREETS);
-
-      batchValues.push({
-        address: `${streetNum} ${street}`,
-        city: muni.city,
-        state: "NJ",
-        zipCode: muni.zip,
-        county: muni.county,
-        neighborhood: muni.city,
-        latitude: lat,
-        longitude: lng,
-        propertyType: propType,
-        beds,
-        baths,
-        sqft,
-        lotSize: propType === "SFH" ? randomBetween(2000, 12000) : null,
-        yearBuilt,
-        lastSalePrice,
-        lastSaleDate,
-        estimatedValue,
-        pricePerSqft,
-        opportunityScore: oppScore,
-        confidenceLevel: oppScore > 70 ? "High" : oppScore > 50 ? "Medium" : "Low",
-        gridLat: grid.gridLat,
-        gridLng: grid.gridLng,
-        dataSources: ["NJ MOD-IV", "NJ Tax Records"],
-      });
-    }
-  }
-
-  console.log(`  Inserting ${batchValues.length} NJ properties...`);
-  for (let i = 0; i < batchValues.length; i += 500) {
-    const batch = batchValues.slice(i, i + 500);
-    await db.insert(properties).values(batch);
-    totalInserted += batch.length;
-    if (totalInserted % 1000 === 0) console.log(`    Inserted ${totalInserted}...`);
-  }
-  console.log(`  Total NJ properties inserted: ${totalInserted}`);
-  return totalInserted;
-}
-
-async function importCTProperties(): Promise<number> {
-  console.log("\n=== STEP 3: Adding CT Properties from Open Data ===\n");
-
-  const existingCT = await db
-    .select({ cnt: sql<number>`count(*)::int` })
-    .from(properties)
-    .where(eq(properties.state, "CT"));
-  const existingCount = existingCT[0]?.cnt || 0;
-  console.log(`  Existing CT properties: ${existingCount}`);
-
-  if (existingCount > 500) {
-    console.log("  CT already has sufficient properties, skipping import.");
-    return existingCount;
-  }
-
-  let totalInserted = 0;
-
-  for (const town of CT_TOWNS) {
-    console.log(`  Fetching CT data for ${town}...`);
-    const townUpper = town.toUpperCase();
-    const url = `${CT_OPENDATA_BASE}/rny9-6ak2.json?$where=upper(property_city)='${encodeURIComponent(townUpper)}'&$limit=500&$order=assessed_total DESC`;
-
-    try {
-      const res = await fetch(url);
-      if (!res.ok) {
-        console.log(`    Failed to fetch ${town}: ${res.status}`);
-        continue;
-      }
-      const records = (await res.json()) as any[];
-      if (!Array.isArray(records) || records.length === 0) {
-        console.log(`    No records found for ${town}`);
-        continue;
-      }
-      console.log(`    Fetched ${records.length} records for ${town}`);
-
-      const batchValues: any[] = [];
-      for (const r of records) {
-        if (!r.location || !r.assessed_total) continue;
-
-        const assessedTotal = parseFloat(r.assessed_total) || 0;
-        if (assessedTotal < 20000) continue;
-
-        const estimatedValue = Math.round(assessedTotal * 1.43);
-
-        const stateUse = r.state_use || "";
-        let propType = CT_STATE_USE_MAP[stateUse] || "SFH";
-        if (r.occupancy && parseInt(r.occupancy) > 4) propType = "Multi-family 5+";
-
-        const beds = parseInt(r.number_of_bedroom) || (propType === "Condo" ? randomBetween(1, 2) : randomBetween(2, 4));
-        const fullBaths = parseInt(r.number_of_baths) || randomBetween(1, 3);
-        const halfBaths = parseInt(r.number_of_half_baths) || 0;
-        const baths = fullBaths + halfBaths * 0.5;
-
-        const livingArea = parseInt(r.living_area) || 0;
-        const sqft = livingArea > 0 ? livingArea : randomBetween(800, 2500);
-
-        const yearBuilt = parseInt(r.ayb) || parseInt(r.eyb) || randomBetween(1940, 2020);
-
-        const pricePerSqft = sqft > 0 ? Math.round(estimatedValue / sqft) : 0;
-
-        let lastSalePrice: number | null = null;
-        let lastSaleDate: Date | null = null;
-        if (r.prior_sale_price && parseFloat(r.prior_sale_price) > 0) {
-          lastSalePrice = Math.round(parseFloat(r.prior_sale_price));
-        } else if (r.sale_price && parseFloat(r.sale_price) > 0) {
-          lastSalePrice = Math.round(parseFloat(r.sale_price));
-        }
-        if (r.sale_date) {
-          try {
-            lastSaleDate = new Date(r.sale_date);
-            if (isNaN(lastSaleDate.getTime())) lastSaleDate = null;
-          } catch { lastSaleDate = null; }
-        }
-
-        const oppScore = Math.min(100, Math.max(0, randomBetween(35, 85)));
-
-        const county = CT_COUNTY_MAP[town] || "Unknown";
-
-        const coords = CT_COORDS[town] || { lat: 41.3, lng: -72.9 };
-        const latJitter = (Math.random() - 0.5) * 0.03;
-        const lngJitter = (Math.random() - 0.5) * 0.03;
-        const lat = coords.lat + latJitter;
-        const lng = coords.lng + lngJitter;
-        const grid = generateGridCoords(lat, lng);
-
-        let zipCode = r.mailing_zip?.substring(0, 5);
-        if (!zipCode || zipCode.length < 5) zipCode = CT_ZIP_FALLBACK[town] || "06000";
-
-        batchValues.push({
-          address: r.location?.trim() || `${randomBetween(1, 999)} Main St`,
-          city: town,
-          state: "CT",
-          zipCode,
-          county,
-          neighborhood: r.neighborhood || town,
-          latitude: lat,
-          longitude: -Math.abs(lng),
-          propertyType: propType,
-          beds,
-          baths,
-          sqft,
-          lotSize: r.land_acres ? Math.round(parseFloat(r.land_acres) * 43560) : null,
-          yearBuilt,
-          lastSalePrice,
-          lastSaleDate,
-          estimatedValue,
-          pricePerSqft,
-          opportunityScore: oppScore,
-          confidenceLevel: oppScore > 70 ? "High" : oppScore > 50 ? "Medium" : "Low",
-          gridLat: grid.gridLat,
-          gridLng: grid.gridLng,
-          dataSources: ["CT CAMA", "CT Grand List"],
-        });
-      }
-
-      if (batchValues.length > 0) {
-        for (let i = 0; i < batchValues.length; i += 500) {
-          const batch = batchValues.slice(i, i + 500);
-          await db.insert(properties).values(batch);
-        }
-        totalInserted += batchValues.length;
-        console.log(`    Inserted ${batchValues.length} properties for ${town} (total: ${totalInserted})`);
-      }
-    } catch (e) {
-      console.error(`    Error importing ${town}:`, (e as Error).message);
-    }
-  }
-
-  console.log(`  Total CT properties inserted: ${totalInserted}`);
-  return totalInserted;
-}
+import { sql } from "drizzle-orm";
+import { pipelineChangeBaseline, detectAndRecordChanges, type PropertySnapshot } from "../server/services/changeDetection";
+import { runEtlPipelineFromCli, type EtlPipeline } from "../server/services/etlRunner";
+import { evaluateAlerts } from "../server/alertService";
+import { importNJModIV } from "../server/etl/nj-modiv-import";
+import { importCTCama, importCTSales } from "../server/etl/ct-cama-import";
+import { syncNycSignalFeeds } from "../server/etl/socrata-sync";
+import { applySaleDecisions, applyEntityResolutionDecisions } from "../server/services/matchReview";
+import { computeOpportunityScores } from "../server/services/opportunityScore";
+import { trainAvm, valueProperties } from "../server/services/avm";
+import { refreshAggregates } from "../server/services/marketAggregates";
+import { computeRepeatSalesIndex } from "../server/services/repeatSalesIndex";
+import { recordUnitScoreHistory } from "../server/services/scoreHistory";
+import { importNeighborhoodBoundaries } from "../server/etl/neighborhood-boundaries";
+import { buildGazetteer } from "../server/etl/gazetteer-import";
+import { buildAddressSearchIndex } from "../server/etl/address-search-index";
+import { assignNeighborhoods } from "../server/services/neighborhoods";
+import { assignFloodRisk } from "../server/services/floodRisk";
+import { computeDistressSignals } from "../server/services/distressSignals";
 
 async function computePropertySignals(): Promise<number> {
   console.log("\n=== STEP 4: Computing Property Signals (Fast SQL) ===\n");
@@ -624,9 +84,9 @@ async function computePropertySignals(): Promise<number> {
       END,
       true, ARRAY['dob', 'hpd', '311', 'fema'], NOW()
     FROM properties p
-    LEFT JOIN (SELECT bbl, COUNT(*) as permit_count FROM dob_permits_raw WHERE bbl IS NOT NULL GROUP BY bbl) dp ON dp.bbl = p.bbl
+    LEFT JOIN (SELECT bbl, COUNT(*) as permit_count FROM dob_permits_raw WHERE bbl IS NOT NULL AND issuance_date >= NOW() - INTERVAL '12 months' GROUP BY bbl) dp ON dp.bbl = p.bbl
     LEFT JOIN (SELECT bbl, SUM(open_violations) as open_violations, SUM(total_violations) as total_violations FROM hpd_raw WHERE bbl IS NOT NULL GROUP BY bbl) hv ON hv.bbl = p.bbl
-    LEFT JOIN (SELECT bbl, COUNT(*) as complaint_count FROM complaints_311_raw WHERE bbl IS NOT NULL GROUP BY bbl) c3 ON c3.bbl = p.bbl
+    LEFT JOIN (SELECT bbl, COUNT(*) as complaint_count FROM complaints_311_raw WHERE bbl IS NOT NULL AND created_date >= NOW() - INTERVAL '12 months' GROUP BY bbl) c3 ON c3.bbl = p.bbl
     WHERE p.state = 'NY' AND p.city IN ('Manhattan', 'Brooklyn', 'Bronx', 'Queens', 'Staten Island')
     ON CONFLICT (property_id) DO UPDATE SET
       active_permits = EXCLUDED.active_permits, permit_count_12m = EXCLUDED.permit_count_12m,
@@ -645,191 +105,6 @@ async function computePropertySignals(): Promise<number> {
   return processed;
 }
 
-async function refreshMarketAggregates(): Promise<number> {
-  console.log("\n=== STEP 5: Refreshing Market Aggregates ===\n");
-
-  console.log("  Clearing old market aggregates...");
-  await db.delete(marketAggregates);
-
-  const zipStats = await db.execute(sql`
-    SELECT 
-      zip_code,
-      MODE() WITHIN GROUP (ORDER BY city) AS city,
-      MODE() WITHIN GROUP (ORDER BY state) AS state,
-      MODE() WITHIN GROUP (ORDER BY county) AS county,
-      MODE() WITHIN GROUP (ORDER BY neighborhood) AS neighborhood,
-      COUNT(*) as cnt,
-      PERCENTILE_CONT(0.25) WITHIN GROUP (ORDER BY estimated_value) as p25,
-      PERCENTILE_CONT(0.50) WITHIN GROUP (ORDER BY estimated_value) as median,
-      PERCENTILE_CONT(0.75) WITHIN GROUP (ORDER BY estimated_value) as p75,
-      AVG(price_per_sqft) as avg_ppsf,
-      PERCENTILE_CONT(0.25) WITHIN GROUP (ORDER BY price_per_sqft) as p25_ppsf,
-      PERCENTILE_CONT(0.75) WITHIN GROUP (ORDER BY price_per_sqft) as p75_ppsf
-    FROM properties
-    WHERE zip_code IS NOT NULL AND estimated_value > 0
-    GROUP BY zip_code
-    HAVING COUNT(*) >= 3
-    ORDER BY zip_code
-  `);
-
-  let aggCount = 0;
-  const zipBatch: any[] = [];
-  const cityMap = new Map<string, any[]>();
-  const countyMap = new Map<string, any[]>();
-  const neighborhoodMap = new Map<string, any[]>();
-
-  for (const row of zipStats.rows as any[]) {
-    const medianPrice = Math.round(parseFloat(row.median) || 0);
-    const medianPpsf = parseFloat(row.avg_ppsf) || 0;
-    const cnt = parseInt(row.cnt);
-
-    zipBatch.push({
-      geoType: "zip",
-      geoId: row.zip_code,
-      geoName: `${row.city} ${row.zip_code}`,
-      state: row.state,
-      medianPrice,
-      medianPricePerSqft: Math.round(medianPpsf),
-      p25Price: Math.round(parseFloat(row.p25) || medianPrice * 0.75),
-      p75Price: Math.round(parseFloat(row.p75) || medianPrice * 1.35),
-      p25PricePerSqft: Math.round(parseFloat(row.p25_ppsf) || medianPpsf * 0.75),
-      p75PricePerSqft: Math.round(parseFloat(row.p75_ppsf) || medianPpsf * 1.35),
-      transactionCount: cnt,
-      turnoverRate: 0.03 + Math.random() * 0.04,
-      volatility: 0.04 + Math.random() * 0.08,
-      trend3m: -0.03 + Math.random() * 0.08,
-      trend6m: -0.02 + Math.random() * 0.06,
-      trend12m: 0.01 + Math.random() * 0.05,
-      computedAt: new Date(),
-    });
-
-    const cityKey = `${row.city}-${row.state}`;
-    if (!cityMap.has(cityKey)) cityMap.set(cityKey, []);
-    cityMap.get(cityKey)!.push({ medianPrice, medianPpsf, cnt, state: row.state, city: row.city });
-
-    if (row.county) {
-      const countyKey = `${row.county}-${row.state}`;
-      if (!countyMap.has(countyKey)) countyMap.set(countyKey, []);
-      countyMap.get(countyKey)!.push({ medianPrice, medianPpsf, cnt, state: row.state, county: row.county });
-    }
-
-    if (row.neighborhood) {
-      const nhKey = `${row.neighborhood}-${row.state}`;
-      if (!neighborhoodMap.has(nhKey)) neighborhoodMap.set(nhKey, []);
-      neighborhoodMap.get(nhKey)!.push({ medianPrice, medianPpsf, cnt, state: row.state, neighborhood: row.neighborhood });
-    }
-  }
-
-  console.log(`  Computed ${zipBatch.length} ZIP-level aggregates`);
-
-  for (let i = 0; i < zipBatch.length; i += 500) {
-    await db.insert(marketAggregates).values(zipBatch.slice(i, i + 500));
-  }
-  aggCount += zipBatch.length;
-
-  const cityBatch: any[] = [];
-  for (const [key, entries] of cityMap) {
-    const totalCnt = entries.reduce((s, e) => s + e.cnt, 0);
-    const weightedMedian = entries.reduce((s, e) => s + e.medianPrice * e.cnt, 0) / totalCnt;
-    const weightedPpsf = entries.reduce((s, e) => s + e.medianPpsf * e.cnt, 0) / totalCnt;
-
-    cityBatch.push({
-      geoType: "city",
-      geoId: entries[0].city.toLowerCase().replace(/\s+/g, "-"),
-      geoName: entries[0].city,
-      state: entries[0].state,
-      medianPrice: Math.round(weightedMedian),
-      medianPricePerSqft: Math.round(weightedPpsf),
-      p25Price: Math.round(weightedMedian * 0.70),
-      p75Price: Math.round(weightedMedian * 1.40),
-      p25PricePerSqft: Math.round(weightedPpsf * 0.70),
-      p75PricePerSqft: Math.round(weightedPpsf * 1.40),
-      transactionCount: totalCnt,
-      turnoverRate: 0.035 + Math.random() * 0.03,
-      volatility: 0.04 + Math.random() * 0.06,
-      trend3m: -0.03 + Math.random() * 0.07,
-      trend6m: -0.02 + Math.random() * 0.05,
-      trend12m: 0.01 + Math.random() * 0.04,
-      computedAt: new Date(),
-    });
-  }
-
-  console.log(`  Computed ${cityBatch.length} city-level aggregates`);
-  for (let i = 0; i < cityBatch.length; i += 500) {
-    await db.insert(marketAggregates).values(cityBatch.slice(i, i + 500));
-  }
-  aggCount += cityBatch.length;
-
-  const countyBatch: any[] = [];
-  for (const [key, entries] of countyMap) {
-    const totalCnt = entries.reduce((s, e) => s + e.cnt, 0);
-    const weightedMedian = entries.reduce((s, e) => s + e.medianPrice * e.cnt, 0) / totalCnt;
-    const weightedPpsf = entries.reduce((s, e) => s + e.medianPpsf * e.cnt, 0) / totalCnt;
-
-    countyBatch.push({
-      geoType: "county",
-      geoId: entries[0].county.toLowerCase().replace(/\s+/g, "-"),
-      geoName: `${entries[0].county} County`,
-      state: entries[0].state,
-      medianPrice: Math.round(weightedMedian),
-      medianPricePerSqft: Math.round(weightedPpsf),
-      p25Price: Math.round(weightedMedian * 0.65),
-      p75Price: Math.round(weightedMedian * 1.45),
-      p25PricePerSqft: Math.round(weightedPpsf * 0.65),
-      p75PricePerSqft: Math.round(weightedPpsf * 1.45),
-      transactionCount: totalCnt,
-      turnoverRate: 0.03 + Math.random() * 0.035,
-      volatility: 0.04 + Math.random() * 0.07,
-      trend3m: -0.02 + Math.random() * 0.06,
-      trend6m: -0.01 + Math.random() * 0.05,
-      trend12m: 0.015 + Math.random() * 0.04,
-      computedAt: new Date(),
-    });
-  }
-
-  console.log(`  Computed ${countyBatch.length} county-level aggregates`);
-  for (let i = 0; i < countyBatch.length; i += 500) {
-    await db.insert(marketAggregates).values(countyBatch.slice(i, i + 500));
-  }
-  aggCount += countyBatch.length;
-
-  const nhBatch: any[] = [];
-  for (const [key, entries] of neighborhoodMap) {
-    const totalCnt = entries.reduce((s, e) => s + e.cnt, 0);
-    if (totalCnt < 5) continue;
-    const weightedMedian = entries.reduce((s, e) => s + e.medianPrice * e.cnt, 0) / totalCnt;
-    const weightedPpsf = entries.reduce((s, e) => s + e.medianPpsf * e.cnt, 0) / totalCnt;
-
-    nhBatch.push({
-      geoType: "neighborhood",
-      geoId: entries[0].neighborhood.toLowerCase().replace(/\s+/g, "-"),
-      geoName: entries[0].neighborhood,
-      state: entries[0].state,
-      medianPrice: Math.round(weightedMedian),
-      medianPricePerSqft: Math.round(weightedPpsf),
-      p25Price: Math.round(weightedMedian * 0.75),
-      p75Price: Math.round(weightedMedian * 1.35),
-      p25PricePerSqft: Math.round(weightedPpsf * 0.75),
-      p75PricePerSqft: Math.round(weightedPpsf * 1.35),
-      transactionCount: totalCnt,
-      turnoverRate: 0.025 + Math.random() * 0.04,
-      volatility: 0.05 + Math.random() * 0.08,
-      trend3m: -0.03 + Math.random() * 0.07,
-      trend6m: -0.02 + Math.random() * 0.05,
-      trend12m: 0.02 + Math.random() * 0.04,
-      computedAt: new Date(),
-    });
-  }
-
-  console.log(`  Computed ${nhBatch.length} neighborhood-level aggregates`);
-  for (let i = 0; i < nhBatch.length; i += 500) {
-    await db.insert(marketAggregates).values(nhBatch.slice(i, i + 500));
-  }
-  aggCount += nhBatch.length;
-
-  console.log(`  Total market aggregates: ${aggCount}`);
-  return aggCount;
-}
 
 async function updateDataSources(): Promise<void> {
   console.log("\n=== STEP 6: Updating Data Sources ===\n");
@@ -837,6 +112,13 @@ async function updateDataSources(): Promise<void> {
   await db.delete(dataSources);
 
   const now = new Date();
+  const counts = await db.execute(sql`
+    SELECT
+      (SELECT COUNT(*)::int FROM properties WHERE 'NJ MOD-IV' = ANY(data_sources)) AS nj,
+      (SELECT COUNT(*)::int FROM properties WHERE 'CT CAMA' = ANY(data_sources)) AS ct
+  `);
+  const njRecords = (counts.rows[0] as any)?.nj || 0;
+  const ctRecords = (counts.rows[0] as any)?.ct || 0;
 
   await db.insert(dataSources).values([
     {
@@ -892,11 +174,11 @@ async function updateDataSources(): Promise<void> {
     {
       name: "NJ Tax Assessment (MOD-IV)",
       type: "public",
-      description: "New Jersey property tax assessments - land values, improvement values, tax data",
+      description: "New Jersey MOD-IV tax list - assessed values, property class, year built and recorded deeds",
       refreshCadence: "annual",
       lastRefresh: now,
-      recordCount: 4500,
-      licensingNotes: "NJ OGIS Open Data, ArcGIS REST API",
+      recordCount: njRecords,
+      licensingNotes: "NJ OGIS / county tax board MOD-IV extracts",
       isActive: true,
     },
     {
@@ -905,8 +187,8 @@ async function updateDataSources(): Promise<void> {
       description: "Connecticut Computer-Assisted Mass Appraisal data with assessed values, property details, and sale history",
       refreshCadence: "annual",
       lastRefresh: now,
-      recordCount: 10000,
-      licensingNotes: "CT Open Data Portal (data.ct.gov), free SODA API access",
+      recordCount: ctRecords,
+      licensingNotes: "CT municipal CAMA and OPM sales extracts (data.ct.gov)",
       isActive: true,
     },
     {
@@ -958,66 +240,7 @@ async function updateDataSources(): Promise<void> {
   console.log("  Data sources and coverage matrix updated");
 }
 
-async function generateSalesForNewProperties(): Promise<number> {
-  console.log("\n  Generating sales records for new NJ/CT properties...");
-
-  const newProps = await db
-    .select({ id: properties.id, pricePerSqft: properties.pricePerSqft })
-    .from(properties)
-    .where(
-      and(
-        or(eq(properties.state, "NJ"), eq(properties.state, "CT")),
-        sql`NOT EXISTS (SELECT 1 FROM sales WHERE sales.property_id = properties.id)`
-      )
-    );
-
-  console.log(`    ${newProps.length} properties need sales records`);
-
-  let salesCount = 0;
-  const salesBatch: any[] = [];
-
-  for (const prop of newProps) {
-    const numSales = randomBetween(1, 3);
-    for (let s = 0; s < numSales; s++) {
-      const yearsAgo = randomBetween(1, 12);
-      const saleDate = new Date();
-      saleDate.setFullYear(saleDate.getFullYear() - yearsAgo);
-      saleDate.setMonth(randomBetween(0, 11));
-
-      salesBatch.push({
-        propertyId: prop.id,
-        salePrice: Math.min(2000000000, Math.round((prop.pricePerSqft || 200) * randomBetween(600, 1800) * (0.7 + yearsAgo * 0.02))),
-        saleDate,
-        armsLength: Math.random() > 0.1,
-        deedType: randomFrom(["Warranty", "Quitclaim", "Grant"]),
-      });
-      salesCount++;
-    }
-  }
-
-  for (let i = 0; i < salesBatch.length; i += 500) {
-    await db.insert(sales).values(salesBatch.slice(i, i + 500));
-  }
-
-  console.log(`    Generated ${salesCount} sales records`);
-  return salesCount;
-}
-
-async function main() {
-  console.log("=".repeat(70));
-  console.log("COMPREHENSIVE DATA REFRESH");
-  console.log("Realtors Dashboard - NY / NJ / CT Real Estate Intelligence");
-  console.log("=".repeat(70));
-  console.log(`Started: ${new Date().toISOString()}\n`);
-
-  const etlResult = await refreshNYCETL();
-  const njCount = await importNJProperties();
-  const ctCount = await importCTProperties();
-  const salesCount = await generateSalesForNewProperties();
-  const signalCount = await computePropertySignals();
-  const aggCount = await refreshMarketAggregates();
-  await updateDataSources();
-
+async function summarizeProperties() {
   const propStats = await db.execute(sql`
     SELECT state, COUNT(*) as cnt FROM properties GROUP BY state ORDER BY cnt DESC
   `);
@@ -1025,26 +248,80 @@ async function main() {
   console.log("\n" + "=".repeat(70));
   console.log("REFRESH COMPLETE!");
   console.log("=".repeat(70));
-  console.log(`\nSummary:`);
-  console.log(`  DOB Permits refreshed:    ${etlResult.permits}`);
-  console.log(`  311 Complaints refreshed: ${etlResult.complaints}`);
-  console.log(`  HPD Violations refreshed: ${etlResult.hpd}`);
-  console.log(`  NJ Properties:            ${njCount}`);
-  console.log(`  CT Properties:            ${ctCount}`);
-  console.log(`  Sales records generated:  ${salesCount}`);
-  console.log(`  Property signals:         ${signalCount}`);
-  console.log(`  Market aggregates:        ${aggCount}`);
   console.log(`\nProperties by state:`);
   for (const row of propStats.rows as any[]) {
     console.log(`  ${row.state}: ${parseInt(row.cnt).toLocaleString()}`);
   }
-  console.log(`\nFinished: ${new Date().toISOString()}`);
   console.log("=".repeat(70));
+
+  const byState = Object.fromEntries((propStats.rows as any[]).map((row) => [row.state, parseInt(row.cnt)]));
+  return { metadata: { propertiesByState: byState } };
 }
 
-main()
-  .then(() => process.exit(0))
-  .catch((error) => {
-    console.error("Refresh failed:", error);
-    process.exit(1);
-  });
+const refreshAllDataPipeline: EtlPipeline<PropertySnapshot> = {
+  name: "refresh_all_data",
+  // A resumed run diffs against the failed run's baseline, so changes made
+  // by the steps it skips are still alerted on
+  setup: pipelineChangeBaseline,
+  steps: [
+    {
+      name: "refresh_nyc_feeds",
+      run: async () => {
+        console.log("\n=== STEP 1: Syncing NYC Open Data (DOB Permits, 311, HPD) ===");
+        const result = await syncNycSignalFeeds();
+        return { rowsWritten: result.permits + result.complaints + result.hpd, metadata: result };
+      },
+    },
+    { name: "import_nj_modiv", run: () => importNJModIV() },
+    { name: "import_ct_cama", run: () => importCTCama() },
+    { name: "import_ct_sales", run: () => importCTSales() },
+    { name: "import_neighborhood_boundaries", run: () => importNeighborhoodBoundaries() },
+    { name: "assign_neighborhoods", run: () => assignNeighborhoods() },
+    { name: "build_gazetteer", run: () => buildGazetteer() },
+    { name: "build_address_index", run: () => buildAddressSearchIndex() },
+    {
+      name: "apply_match_reviews",
+      run: async () => {
+        const salesUpdated = await applySaleDecisions();
+        const resolutionsUpdated = await applyEntityResolutionDecisions();
+        return { rowsWritten: salesUpdated + resolutionsUpdated, metadata: { salesUpdated, resolutionsUpdated } };
+      },
+    },
+    {
+      name: "train_avm",
+      run: async () => {
+        const { modelId, evaluation } = await trainAvm();
+        return { rowsRead: evaluation.trainingSales + evaluation.holdoutSales, metadata: { modelId, overall: evaluation.overall } };
+      },
+    },
+    { name: "value_properties", run: () => valueProperties() },
+    { name: "compute_repeat_sales_index", run: () => computeRepeatSalesIndex() },
+    { name: "compute_property_signals", run: computePropertySignals },
+    { name: "assign_flood_risk", run: () => assignFloodRisk() },
+    { name: "compute_distress_signals", run: () => computeDistressSignals() },
+    { name: "refresh_market_aggregates", run: refreshAggregates },
+    { name: "compute_opportunity_scores", run: () => computeOpportunityScores() },
+    { name: "record_unit_scores", run: () => recordUnitScoreHistory() },
+    {
+      name: "detect_changes",
+      run: (baseline) => detectAndRecordChanges(baseline, "refresh-all-data"),
+    },
+    {
+      name: "evaluate_alerts",
+      run: async () => {
+        const result = await evaluateAlerts();
+        return { rowsRead: result.evaluated, rowsWritten: result.triggered };
+      },
+    },
+    { name: "update_data_sources", run: updateDataSources },
+    { name: "summarize_properties", run: summarizeProperties },
+  ],
+};
+
+console.log("=".repeat(70));
+console.log("COMPREHENSIVE DATA REFRESH");
+console.log("Realtors Dashboard - NY / NJ / CT Real Estate Intelligence");
+console.log("=".repeat(70));
+console.log(`Started: ${new Date().toISOString()}\n`);
+
+runEtlPipelineFromCli(refreshAllDataPipeline);
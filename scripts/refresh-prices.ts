@@ -2,27 +2,26 @@ import { db } from "../server/db";
 import {
   properties,
   sales,
-  marketAggregates,
   dataSources,
   coverageMatrix,
-  dobPermitsRaw,
-  complaints311Raw,
-  hpdRaw,
 } from "../shared/schema";
 import { sql } from "drizzle-orm";
 import {
   downloadZillowData,
   importZillowMarketAggregates,
 } from "../server/etl/zillow-data";
-
-const NYC_OPENDATA_BASE = "https://data.cityofnewyork.us/resource";
-const BOROUGH_MAP: Record<string, string> = {
-  MANHATTAN: "Manhattan",
-  BRONX: "Bronx",
-  BROOKLYN: "Brooklyn",
-  QUEENS: "Queens",
-  "STATEN ISLAND": "Staten Island",
-};
+import { pipelineChangeBaseline, detectAndRecordChanges, type PropertySnapshot } from "../server/services/changeDetection";
+import { runEtlPipelineFromCli, type EtlPipeline, type EtlStepResults } from "../server/services/etlRunner";
+import { evaluateAlerts } from "../server/alertService";
+import { syncNycSignalFeeds } from "../server/etl/socrata-sync";
+import { computeOpportunityScores } from "../server/services/opportunityScore";
+import { trainAvm, valueProperties } from "../server/services/avm";
+import { refreshAggregates } from "../server/services/marketAggregates";
+import { computeRepeatSalesIndex } from "../server/services/repeatSalesIndex";
+import { recordUnitScoreHistory } from "../server/services/scoreHistory";
+import { assignNeighborhoods } from "../server/services/neighborhoods";
+import { assignFloodRisk } from "../server/services/floodRisk";
+import { computeDistressSignals } from "../server/services/distressSignals";
 
 type Snapshot = {
   ny: number; nj: number; ct: number;
@@ -59,180 +58,20 @@ async function snapshot(label: string): Promise<Snapshot> {
   return snap;
 }
 
-async function updatePricesInPlace(): Promise<void> {
-  console.log("\n=== STEP 1: Updating property prices in-place (NY/NJ/CT) ===");
-
-  // ~3 months of stale data + current market — apply small appreciation
-  // with realistic per-property jitter. Preserves IDs and all FK refs.
-  // NY: ~+1.5% (cooler NYC market)
-  // NJ: ~+2.0%
-  // CT: ~+2.5% (CT has been appreciating faster recently)
-  const updates: Array<{ state: string; baseFactor: number }> = [
-    { state: "NY", baseFactor: 1.015 },
-    { state: "NJ", baseFactor: 1.020 },
-    { state: "CT", baseFactor: 1.025 },
-  ];
-
-  for (const { state, baseFactor } of updates) {
-    console.log(`  Updating ${state} prices (base factor ${baseFactor})...`);
-    const result = await db.execute(sql`
-      UPDATE properties
-      SET
-        estimated_value = GREATEST(10000, ROUND(estimated_value * (${baseFactor} + (RANDOM() - 0.5) * 0.04))::bigint),
-        price_per_sqft = CASE
-          WHEN sqft > 0 THEN GREATEST(50, ROUND((estimated_value * (${baseFactor} + (RANDOM() - 0.5) * 0.04)) / sqft)::int)
-          ELSE price_per_sqft
-        END,
-        updated_at = NOW()
-      WHERE state = ${state} AND estimated_value > 0
-    `);
-    console.log(`    Updated ${result.rowCount ?? 0} ${state} rows`);
-  }
-}
-
 async function refreshNYCFeeds(): Promise<{ permits: number; complaints: number; hpd: number; failures: string[] }> {
-  console.log("\n=== STEP 2: Refreshing NYC raw feeds (DOB Permits / 311 / HPD) ===");
-  const failures: string[] = [];
-
-  const oneYearAgo = new Date(); oneYearAgo.setFullYear(oneYearAgo.getFullYear() - 1);
-  const dateFilter = oneYearAgo.toISOString().split("T")[0];
-  const sixMonthsAgo = new Date(); sixMonthsAgo.setMonth(sixMonthsAgo.getMonth() - 6);
-  const dateFilter6m = sixMonthsAgo.toISOString().split("T")[0];
-
-  console.log("  Clearing old raw feed tables...");
-  await db.delete(dobPermitsRaw);
-  await db.delete(complaints311Raw);
-  await db.delete(hpdRaw);
-
-  let permitCount = 0;
-  console.log("  Importing DOB Permits (last 12 months)...");
-  try {
-    const url = `${NYC_OPENDATA_BASE}/rbx6-tga4.json?$where=issued_date>='${dateFilter}'&$limit=20000&$order=issued_date DESC`;
-    const res = await fetch(url);
-    if (!res.ok) throw new Error(`HTTP ${res.status}`);
-    const permits = (await res.json()) as any[];
-    console.log(`    Fetched ${permits.length} permits`);
-    const batch: any[] = [];
-    let idx = 0;
-    for (const r of permits) {
-      if (!r.job_filing_number) continue;
-      batch.push({
-        id: `permit-${r.job_filing_number}-${r.work_type || "NA"}-${idx++}`,
-        jobNumber: r.job_filing_number,
-        bbl: r.bbl || null, bin: r.bin || null,
-        borough: BOROUGH_MAP[r.borough?.toUpperCase()] || r.borough || null,
-        block: r.block || null, lot: r.lot || null,
-        houseNumber: r.house_no || null, streetName: r.street_name || null,
-        zipCode: r.zip_code || null,
-        jobType: r.filing_reason || null,
-        jobDescription: r.job_description?.substring(0, 500) || null,
-        workType: r.work_type || null, permitStatus: r.permit_status || null,
-        issuanceDate: r.issued_date ? new Date(r.issued_date) : null,
-        expirationDate: r.expired_date ? new Date(r.expired_date) : null,
-        estimatedCost: r.estimated_job_costs ? parseInt(r.estimated_job_costs) : null,
-        ownerName: r.owner_business_name || r.owner_name || null,
-        rawData: r,
-      });
-      permitCount++;
-    }
-    for (let i = 0; i < batch.length; i += 500) {
-      await db.insert(dobPermitsRaw).values(batch.slice(i, i + 500)).onConflictDoNothing();
-    }
-    console.log(`    Imported ${permitCount} DOB permits`);
-  } catch (e) {
-    failures.push(`DOB Permits: ${(e as Error).message}`);
-    console.error(`    FAILED: ${(e as Error).message}`);
-  }
-
-  let complaintCount = 0;
-  console.log("  Importing 311 Complaints (last 6 months)...");
-  try {
-    const url = `${NYC_OPENDATA_BASE}/erm2-nwe9.json?$where=created_date>='${dateFilter6m}'&$limit=20000&$order=created_date DESC`;
-    const res = await fetch(url);
-    if (!res.ok) throw new Error(`HTTP ${res.status}`);
-    const complaints = (await res.json()) as any[];
-    console.log(`    Fetched ${complaints.length} 311 complaints`);
-    const batch: any[] = [];
-    for (const r of complaints) {
-      if (!r.unique_key) continue;
-      batch.push({
-        id: `311-${r.unique_key}`, uniqueKey: r.unique_key,
-        bbl: r.bbl || null,
-        latitude: r.latitude ? parseFloat(r.latitude) : null,
-        longitude: r.longitude ? parseFloat(r.longitude) : null,
-        address: r.incident_address || null, city: r.city || null,
-        borough: BOROUGH_MAP[r.borough?.toUpperCase()] || r.borough || null,
-        zipCode: r.incident_zip || null,
-        complaintType: r.complaint_type || null, descriptor: r.descriptor || null,
-        status: r.status || null,
-        createdDate: r.created_date ? new Date(r.created_date) : null,
-        closedDate: r.closed_date ? new Date(r.closed_date) : null,
-        agency: r.agency || null, agencyName: r.agency_name || null,
-        rawData: r,
-      });
-      complaintCount++;
-    }
-    for (let i = 0; i < batch.length; i += 500) {
-      await db.insert(complaints311Raw).values(batch.slice(i, i + 500)).onConflictDoNothing();
-    }
-    console.log(`    Imported ${complaintCount} 311 complaints`);
-  } catch (e) {
-    failures.push(`311 Complaints: ${(e as Error).message}`);
-    console.error(`    FAILED: ${(e as Error).message}`);
-  }
-
-  let hpdCount = 0;
-  console.log("  Importing HPD Violations (last 6 months)...");
-  try {
-    const url = `${NYC_OPENDATA_BASE}/wvxf-dwi5.json?$where=inspectiondate>='${dateFilter6m}'&$limit=20000&$order=inspectiondate DESC`;
-    const res = await fetch(url);
-    if (!res.ok) throw new Error(`HTTP ${res.status}`);
-    const violations = (await res.json()) as any[];
-    console.log(`    Fetched ${violations.length} HPD violations`);
-    const grouped = new Map<string, { total: number; open: number; bbl: string | null; data: any }>();
-    for (const r of violations) {
-      const id = r.buildingid; if (!id) continue;
-      const ex = grouped.get(id) || { total: 0, open: 0, bbl: r.bbl || null, data: r };
-      ex.total++;
-      if (r.violationstatus === "Open" || r.currentstatus === "VIOLATION OPEN") ex.open++;
-      grouped.set(id, ex);
-    }
-    const batch: any[] = [];
-    for (const [bId, info] of grouped) {
-      const r = info.data;
-      batch.push({
-        id: `hpd-${bId}`, buildingId: bId, bbl: info.bbl,
-        boroId: r.boroid || null,
-        borough: BOROUGH_MAP[r.boro?.toUpperCase()] || r.boro || null,
-        block: r.block || null, lot: r.lot || null,
-        houseNumber: r.housenumber || null, streetName: r.streetname || null,
-        zipCode: r.zip || null,
-        totalViolations: info.total, openViolations: info.open,
-        rawData: { violationSample: r },
-      });
-      hpdCount++;
-    }
-    for (let i = 0; i < batch.length; i += 500) {
-      await db.insert(hpdRaw).values(batch.slice(i, i + 500)).onConflictDoNothing();
-    }
-    console.log(`    Imported ${hpdCount} HPD building records`);
-  } catch (e) {
-    failures.push(`HPD Violations: ${(e as Error).message}`);
-    console.error(`    FAILED: ${(e as Error).message}`);
-  }
-
-  return { permits: permitCount, complaints: complaintCount, hpd: hpdCount, failures };
+  console.log("\n=== STEP 1: Syncing NYC raw feeds (DOB Permits / 311 / HPD) ===");
+  return syncNycSignalFeeds();
 }
 
 async function refreshZillow(): Promise<{ count: number; ok: boolean; error?: string }> {
-  console.log("\n=== STEP 3: Refreshing Zillow ZHVI data ===");
+  console.log("\n=== STEP 2: Refreshing Zillow ZHVI data ===");
   try {
     const data = await downloadZillowData();
     // The Zillow importer inserts new rows. We will leave existing tri-state aggregates
     // (computed from our properties) and rely on Zillow trend data via market_aggregates.
     // To avoid duplicating geo entries, only apply Zillow trend updates if our recompute
     // step doesn't already cover this state. For simplicity, store trend metadata in
-    // dataSources only; market_aggregates will be regenerated in step 6 from properties.
+    // dataSources only; market_aggregates will be regenerated in step 5 from properties.
     console.log(`  Zillow tri-state ZIPs: ${data.zipData.length}, cities: ${data.cityData.length}`);
     return { count: data.zipData.length + data.cityData.length, ok: true };
   } catch (e) {
@@ -241,47 +80,12 @@ async function refreshZillow(): Promise<{ count: number; ok: boolean; error?: st
   }
 }
 
-async function refreshStaleSales(): Promise<number> {
-  console.log("\n=== STEP 4: Adding fresh sale records for stale properties ===");
-
-  // First: any NJ/CT property with no sale at all
-  const noSale = await db.execute(sql`
-    INSERT INTO sales (property_id, sale_price, sale_date, arms_length, deed_type)
-    SELECT
-      p.id,
-      LEAST(2000000000, GREATEST(50000, ROUND(p.estimated_value * (0.92 + RANDOM() * 0.16))::bigint)),
-      NOW() - (RANDOM() * INTERVAL '300 days'),
-      RANDOM() > 0.1,
-      (ARRAY['Warranty','Quitclaim','Grant'])[1 + FLOOR(RANDOM() * 3)::int]
-    FROM properties p
-    WHERE p.state IN ('NJ','CT')
-      AND p.estimated_value > 0
-      AND NOT EXISTS (SELECT 1 FROM sales s WHERE s.property_id = p.id)
-  `);
-  const noSaleCount = noSale.rowCount ?? 0;
-  console.log(`  Inserted ${noSaleCount} sales for previously sale-less properties`);
-
-  // Second: any property whose latest sale is older than 12 months
-  // Add one current-year sale near current estimated_value
-  const stale = await db.execute(sql`
-    INSERT INTO sales (property_id, sale_price, sale_date, arms_length, deed_type)
-    SELECT
-      p.id,
-      LEAST(2000000000, GREATEST(50000, ROUND(p.estimated_value * (0.93 + RANDOM() * 0.14))::bigint)),
-      NOW() - (RANDOM() * INTERVAL '90 days'),
-      RANDOM() > 0.15,
-      (ARRAY['Warranty','Quitclaim','Grant'])[1 + FLOOR(RANDOM() * 3)::int]
-    FROM properties p
-    WHERE p.estimated_value > 0
-      AND EXISTS (
-        SELECT 1 FROM sales s WHERE s.property_id = p.id
-        GROUP BY s.property_id HAVING MAX(s.sale_date) < NOW() - INTERVAL '12 months'
-      )
-  `);
-  const staleCount = stale.rowCount ?? 0;
-  console.log(`  Inserted ${staleCount} fresh sales for properties with stale last-sale`);
+// Only recorded sales feed the AVM and comps, so nothing is synthesized for
+// properties without a recent sale; they keep their last recorded one.
+async function syncLastSales(): Promise<number> {
+  console.log("\n=== STEP 3: Syncing last sale price/date from recorded sales ===");
 
-  // Third: backfill last_sale_price / last_sale_date on properties from latest sale
+  // Backfill last_sale_price / last_sale_date on properties from latest sale
   const sync = await db.execute(sql`
     UPDATE properties p
     SET
@@ -297,11 +101,11 @@ async function refreshStaleSales(): Promise<number> {
   `);
   console.log(`  Synced last_sale_* on ${sync.rowCount ?? 0} properties`);
 
-  return noSaleCount + staleCount;
+  return sync.rowCount ?? 0;
 }
 
 async function recomputeSignals(): Promise<number> {
-  console.log("\n=== STEP 5: Recomputing property signals (SQL) ===");
+  console.log("\n=== STEP 4: Recomputing property signals (SQL) ===");
   await db.execute(sql`
     INSERT INTO property_signal_summary (
       id, property_id, bbl,
@@ -359,9 +163,9 @@ async function recomputeSignals(): Promise<number> {
       END,
       true, ARRAY['dob','hpd','311','fema'], NOW()
     FROM properties p
-    LEFT JOIN (SELECT bbl, COUNT(*)::int AS permit_count FROM dob_permits_raw WHERE bbl IS NOT NULL GROUP BY bbl) dp ON dp.bbl = p.bbl
+    LEFT JOIN (SELECT bbl, COUNT(*)::int AS permit_count FROM dob_permits_raw WHERE bbl IS NOT NULL AND issuance_date >= NOW() - INTERVAL '12 months' GROUP BY bbl) dp ON dp.bbl = p.bbl
     LEFT JOIN (SELECT bbl, SUM(open_violations)::int AS open_violations, SUM(total_violations)::int AS total_violations FROM hpd_raw WHERE bbl IS NOT NULL GROUP BY bbl) hv ON hv.bbl = p.bbl
-    LEFT JOIN (SELECT bbl, COUNT(*)::int AS complaint_count FROM complaints_311_raw WHERE bbl IS NOT NULL GROUP BY bbl) c3 ON c3.bbl = p.bbl
+    LEFT JOIN (SELECT bbl, COUNT(*)::int AS complaint_count FROM complaints_311_raw WHERE bbl IS NOT NULL AND created_date >= NOW() - INTERVAL '12 months' GROUP BY bbl) c3 ON c3.bbl = p.bbl
     WHERE p.state = 'NY' AND p.city IN ('Manhattan','Brooklyn','Bronx','Queens','Staten Island')
     ON CONFLICT (property_id) DO UPDATE SET
       active_permits = EXCLUDED.active_permits,
@@ -385,150 +189,11 @@ async function recomputeSignals(): Promise<number> {
   return cnt;
 }
 
-async function refreshAggregates(): Promise<number> {
-  console.log("\n=== STEP 6: Refreshing market aggregates from updated property prices ===");
-  await db.delete(marketAggregates);
-
-  // ZIP-level
-  const zipResult = await db.execute(sql`
-    INSERT INTO market_aggregates (
-      geo_type, geo_id, geo_name, state,
-      median_price, median_price_per_sqft,
-      p25_price, p75_price, p25_price_per_sqft, p75_price_per_sqft,
-      transaction_count, turnover_rate, volatility,
-      trend3m, trend6m, trend12m, computed_at
-    )
-    SELECT
-      'zip',
-      zip_code,
-      MODE() WITHIN GROUP (ORDER BY city) || ' ' || zip_code,
-      MODE() WITHIN GROUP (ORDER BY state),
-      ROUND(PERCENTILE_CONT(0.50) WITHIN GROUP (ORDER BY estimated_value))::bigint,
-      ROUND(AVG(price_per_sqft))::int,
-      ROUND(COALESCE(PERCENTILE_CONT(0.25) WITHIN GROUP (ORDER BY estimated_value),
-        PERCENTILE_CONT(0.50) WITHIN GROUP (ORDER BY estimated_value) * 0.75))::bigint,
-      ROUND(COALESCE(PERCENTILE_CONT(0.75) WITHIN GROUP (ORDER BY estimated_value),
-        PERCENTILE_CONT(0.50) WITHIN GROUP (ORDER BY estimated_value) * 1.35))::bigint,
-      ROUND(COALESCE(PERCENTILE_CONT(0.25) WITHIN GROUP (ORDER BY price_per_sqft),
-        AVG(price_per_sqft) * 0.75))::int,
-      ROUND(COALESCE(PERCENTILE_CONT(0.75) WITHIN GROUP (ORDER BY price_per_sqft),
-        AVG(price_per_sqft) * 1.35))::int,
-      COUNT(*)::int,
-      0.03 + RANDOM() * 0.04,
-      0.04 + RANDOM() * 0.08,
-      -0.03 + RANDOM() * 0.08,
-      -0.02 + RANDOM() * 0.06,
-      0.01 + RANDOM() * 0.05,
-      NOW()
-    FROM properties
-    WHERE zip_code IS NOT NULL AND estimated_value > 0
-    GROUP BY zip_code
-    HAVING COUNT(*) >= 3
-  `);
-  console.log(`  ZIP aggregates: ${zipResult.rowCount ?? 0}`);
-
-  // City-level
-  const cityResult = await db.execute(sql`
-    INSERT INTO market_aggregates (
-      geo_type, geo_id, geo_name, state,
-      median_price, median_price_per_sqft,
-      p25_price, p75_price, p25_price_per_sqft, p75_price_per_sqft,
-      transaction_count, turnover_rate, volatility,
-      trend3m, trend6m, trend12m, computed_at
-    )
-    SELECT
-      'city', LOWER(REGEXP_REPLACE(city, '\\s+', '-', 'g')), city, MAX(state),
-      ROUND(PERCENTILE_CONT(0.50) WITHIN GROUP (ORDER BY estimated_value))::bigint,
-      ROUND(AVG(price_per_sqft))::int,
-      ROUND(PERCENTILE_CONT(0.25) WITHIN GROUP (ORDER BY estimated_value))::bigint,
-      ROUND(PERCENTILE_CONT(0.75) WITHIN GROUP (ORDER BY estimated_value))::bigint,
-      ROUND(PERCENTILE_CONT(0.25) WITHIN GROUP (ORDER BY price_per_sqft))::int,
-      ROUND(PERCENTILE_CONT(0.75) WITHIN GROUP (ORDER BY price_per_sqft))::int,
-      COUNT(*)::int,
-      0.035 + RANDOM() * 0.03,
-      0.04 + RANDOM() * 0.06,
-      -0.03 + RANDOM() * 0.07,
-      -0.02 + RANDOM() * 0.05,
-      0.01 + RANDOM() * 0.04,
-      NOW()
-    FROM properties
-    WHERE city IS NOT NULL AND estimated_value > 0
-    GROUP BY city
-    HAVING COUNT(*) >= 5
-  `);
-  console.log(`  City aggregates: ${cityResult.rowCount ?? 0}`);
-
-  // County-level
-  const countyResult = await db.execute(sql`
-    INSERT INTO market_aggregates (
-      geo_type, geo_id, geo_name, state,
-      median_price, median_price_per_sqft,
-      p25_price, p75_price, p25_price_per_sqft, p75_price_per_sqft,
-      transaction_count, turnover_rate, volatility,
-      trend3m, trend6m, trend12m, computed_at
-    )
-    SELECT
-      'county', LOWER(REGEXP_REPLACE(county, '\\s+', '-', 'g')), county || ' County', MAX(state),
-      ROUND(PERCENTILE_CONT(0.50) WITHIN GROUP (ORDER BY estimated_value))::bigint,
-      ROUND(AVG(price_per_sqft))::int,
-      ROUND(PERCENTILE_CONT(0.25) WITHIN GROUP (ORDER BY estimated_value))::bigint,
-      ROUND(PERCENTILE_CONT(0.75) WITHIN GROUP (ORDER BY estimated_value))::bigint,
-      ROUND(PERCENTILE_CONT(0.25) WITHIN GROUP (ORDER BY price_per_sqft))::int,
-      ROUND(PERCENTILE_CONT(0.75) WITHIN GROUP (ORDER BY price_per_sqft))::int,
-      COUNT(*)::int,
-      0.03 + RANDOM() * 0.035,
-      0.04 + RANDOM() * 0.07,
-      -0.02 + RANDOM() * 0.06,
-      -0.01 + RANDOM() * 0.05,
-      0.015 + RANDOM() * 0.04,
-      NOW()
-    FROM properties
-    WHERE county IS NOT NULL AND estimated_value > 0
-    GROUP BY county
-    HAVING COUNT(*) >= 5
-  `);
-  console.log(`  County aggregates: ${countyResult.rowCount ?? 0}`);
-
-  // Neighborhood-level (NYC primarily)
-  const nhResult = await db.execute(sql`
-    INSERT INTO market_aggregates (
-      geo_type, geo_id, geo_name, state,
-      median_price, median_price_per_sqft,
-      p25_price, p75_price, p25_price_per_sqft, p75_price_per_sqft,
-      transaction_count, turnover_rate, volatility,
-      trend3m, trend6m, trend12m, computed_at
-    )
-    SELECT
-      'neighborhood', LOWER(REGEXP_REPLACE(neighborhood, '\\s+', '-', 'g')), neighborhood, MAX(state),
-      ROUND(PERCENTILE_CONT(0.50) WITHIN GROUP (ORDER BY estimated_value))::bigint,
-      ROUND(AVG(price_per_sqft))::int,
-      ROUND(PERCENTILE_CONT(0.25) WITHIN GROUP (ORDER BY estimated_value))::bigint,
-      ROUND(PERCENTILE_CONT(0.75) WITHIN GROUP (ORDER BY estimated_value))::bigint,
-      ROUND(PERCENTILE_CONT(0.25) WITHIN GROUP (ORDER BY price_per_sqft))::int,
-      ROUND(PERCENTILE_CONT(0.75) WITHIN GROUP (ORDER BY price_per_sqft))::int,
-      COUNT(*)::int,
-      0.025 + RANDOM() * 0.04,
-      0.05 + RANDOM() * 0.08,
-      -0.03 + RANDOM() * 0.07,
-      -0.02 + RANDOM() * 0.05,
-      0.02 + RANDOM() * 0.04,
-      NOW()
-    FROM properties
-    WHERE neighborhood IS NOT NULL AND estimated_value > 0
-    GROUP BY neighborhood
-    HAVING COUNT(*) >= 5
-  `);
-  console.log(`  Neighborhood aggregates: ${nhResult.rowCount ?? 0}`);
-
-  const [t] = (await db.execute(sql`SELECT COUNT(*)::int AS cnt FROM market_aggregates`)).rows as any[];
-  console.log(`  Total market aggregates: ${t.cnt}`);
-  return t.cnt;
-}
 
 async function updateDataSources(counts: {
   permits: number; complaints: number; hpd: number; zillow: number;
 }, snap: Snapshot): Promise<void> {
-  console.log("\n=== STEP 7: Updating data_sources timestamps ===");
+  console.log("\n=== STEP 6: Updating data_sources timestamps ===");
   const now = new Date();
   await db.delete(dataSources);
   await db.insert(dataSources).values([
@@ -594,7 +259,7 @@ async function updateDataSources(counts: {
 }
 
 async function samplePrices() {
-  console.log("\n=== STEP 8: Sample updated prices (verify) ===");
+  console.log("\n=== STEP 7: Sample updated prices (verify) ===");
   const r = (await db.execute(sql`
     SELECT state, address, city, estimated_value, price_per_sqft, last_sale_date::text AS last_sale_date
     FROM (
@@ -609,56 +274,128 @@ async function samplePrices() {
   }
 }
 
-async function main() {
-  const t0 = Date.now();
-  console.log("=".repeat(70));
-  console.log("REFRESH PROPERTIES & PRICING");
-  console.log("=".repeat(70));
-  console.log(`Started: ${new Date().toISOString()}`);
+type FeedCounts = Awaited<ReturnType<typeof refreshNYCFeeds>>;
+
+interface RefreshContext {
+  before: Snapshot;
+  changeBaseline: PropertySnapshot;
+}
 
-  const before = await snapshot("BEFORE");
-  await updatePricesInPlace();
-  const feedCounts = await refreshNYCFeeds();
-  const zillow = await refreshZillow();
-  const salesAdded = await refreshStaleSales();
-  const signalCount = await recomputeSignals();
-  const aggCount = await refreshAggregates();
-  const after = await snapshot("AFTER STEP 6");
-  await updateDataSources(
-    { permits: feedCounts.permits, complaints: feedCounts.complaints, hpd: feedCounts.hpd, zillow: zillow.count },
-    after
-  );
-  await samplePrices();
+async function report(context: RefreshContext, results: EtlStepResults) {
+  const { before } = context;
   const final = await snapshot("FINAL");
+  const feedCounts = results.get("refresh_nyc_feeds")?.metadata as FeedCounts | undefined;
+  const zillow = results.get("refresh_zillow")?.metadata as { ok: boolean; error?: string } | undefined;
+  const changesRecorded = results.get("detect_changes")?.rowsWritten ?? 0;
 
-  const elapsed = Math.round((Date.now() - t0) / 1000);
   console.log("\n" + "=".repeat(70));
   console.log("REFRESH COMPLETE");
   console.log("=".repeat(70));
-  console.log(`Elapsed: ${elapsed}s`);
   console.log(`\nDeltas:`);
   console.log(`  NY properties:    ${before.ny.toLocaleString()} -> ${final.ny.toLocaleString()}`);
   console.log(`  NJ properties:    ${before.nj.toLocaleString()} -> ${final.nj.toLocaleString()}`);
   console.log(`  CT properties:    ${before.ct.toLocaleString()} -> ${final.ct.toLocaleString()}`);
-  console.log(`  Sales:            ${before.sales.toLocaleString()} -> ${final.sales.toLocaleString()} (+${salesAdded.toLocaleString()})`);
+  console.log(`  Sales:            ${before.sales.toLocaleString()} -> ${final.sales.toLocaleString()} (+${(final.sales - before.sales).toLocaleString()})`);
   console.log(`  Aggregates:       ${before.aggregates.toLocaleString()} -> ${final.aggregates.toLocaleString()}`);
   console.log(`  Signals:          ${before.signals.toLocaleString()} -> ${final.signals.toLocaleString()}`);
   console.log(`  DOB permits:      ${before.permits.toLocaleString()} -> ${final.permits.toLocaleString()}`);
   console.log(`  311 complaints:   ${before.complaints.toLocaleString()} -> ${final.complaints.toLocaleString()}`);
   console.log(`  HPD records:      ${before.hpd.toLocaleString()} -> ${final.hpd.toLocaleString()}`);
+  console.log(`  Property changes: ${changesRecorded.toLocaleString()}`);
   console.log(`  Latest sale date: ${before.latestSale} -> ${final.latestSale}`);
   console.log(`  data_sources MAX(last_refresh): ${before.lastSourceRefresh} -> ${final.lastSourceRefresh}`);
 
-  if (feedCounts.failures.length > 0) {
+  const failures = feedCounts?.failures ?? [];
+  if (failures.length > 0) {
     console.log("\nFAILURES:");
-    for (const f of feedCounts.failures) console.log(`  - ${f}`);
+    for (const f of failures) console.log(`  - ${f}`);
   } else {
     console.log("\nNo failures.");
   }
-  if (!zillow.ok) console.log(`Zillow refresh failed: ${zillow.error}`);
+  if (zillow && !zillow.ok) console.log(`Zillow refresh failed: ${zillow.error}`);
+
+  return { metadata: { before, final } };
 }
 
-main().then(() => process.exit(0)).catch((e) => {
-  console.error("Refresh failed:", e);
-  process.exit(1);
-});
+const refreshPricesPipeline: EtlPipeline<RefreshContext> = {
+  name: "refresh_prices",
+  // A resumed run diffs against the failed run's baseline, so changes made
+  // by the steps it skips are still alerted on
+  setup: async (run) => ({
+    before: await snapshot("BEFORE"),
+    changeBaseline: await pipelineChangeBaseline(run),
+  }),
+  steps: [
+    {
+      name: "refresh_nyc_feeds",
+      run: async () => {
+        const feedCounts = await refreshNYCFeeds();
+        return {
+          rowsWritten: feedCounts.permits + feedCounts.complaints + feedCounts.hpd,
+          metadata: feedCounts,
+        };
+      },
+    },
+    {
+      name: "refresh_zillow",
+      run: async () => {
+        const zillow = await refreshZillow();
+        return { rowsRead: zillow.count, metadata: zillow };
+      },
+    },
+    { name: "sync_last_sales", run: syncLastSales },
+    {
+      name: "train_avm",
+      run: async () => {
+        const { modelId, evaluation } = await trainAvm();
+        return { rowsRead: evaluation.trainingSales + evaluation.holdoutSales, metadata: { modelId, overall: evaluation.overall } };
+      },
+    },
+    { name: "value_properties", run: () => valueProperties() },
+    { name: "assign_neighborhoods", run: () => assignNeighborhoods() },
+    { name: "compute_repeat_sales_index", run: () => computeRepeatSalesIndex() },
+    { name: "recompute_signals", run: recomputeSignals },
+    { name: "assign_flood_risk", run: () => assignFloodRisk() },
+    { name: "compute_distress_signals", run: () => computeDistressSignals() },
+    { name: "refresh_aggregates", run: refreshAggregates },
+    { name: "compute_opportunity_scores", run: () => computeOpportunityScores() },
+    { name: "record_unit_scores", run: () => recordUnitScoreHistory() },
+    {
+      name: "detect_changes",
+      run: ({ changeBaseline }) => detectAndRecordChanges(changeBaseline, "refresh-prices"),
+    },
+    {
+      name: "evaluate_alerts",
+      run: async () => {
+        const result = await evaluateAlerts();
+        return { rowsRead: result.evaluated, rowsWritten: result.triggered };
+      },
+    },
+    {
+      name: "update_data_sources",
+      run: async (_context, results) => {
+        const feedCounts = results.get("refresh_nyc_feeds")?.metadata as FeedCounts | undefined;
+        const zillowCount = results.get("refresh_zillow")?.rowsRead ?? 0;
+        const after = await snapshot("AFTER STEP 5");
+        await updateDataSources(
+          {
+            permits: feedCounts?.permits ?? 0,
+            complaints: feedCounts?.complaints ?? 0,
+            hpd: feedCounts?.hpd ?? 0,
+            zillow: zillowCount,
+          },
+          after
+        );
+      },
+    },
+    { name: "sample_prices", run: samplePrices },
+    { name: "report", run: report },
+  ],
+};
+
+console.log("=".repeat(70));
+console.log("REFRESH PROPERTIES & PRICING");
+console.log("=".repeat(70));
+console.log(`Started: ${new Date().toISOString()}`);
+
+runEtlPipelineFromCli(refreshPricesPipeline);
@@ -0,0 +1,74 @@
+import { trainAvm, valueProperties } from "../server/services/avm";
+import { runEtlPipelineFromCli, type EtlPipeline } from "../server/services/etlRunner";
+import type { AvmEvaluation, AvmEvaluationRow } from "../shared/schema";
+
+// Trains the AVM on arms-length sales and values every property with it.
+//
+//   npx tsx scripts/train-avm.ts                         train, save, value properties
+//   npx tsx scripts/train-avm.ts --evaluate [--as-of D]  holdout report only, nothing saved
+//
+// The holdout split is a hash of the sale id, so evaluating with the same
+// --as-of date against the same sales reproduces the same report.
+
+function pct(n: number): string {
+  return `${(n * 100).toFixed(1)}%`.padStart(7);
+}
+
+function printRow(label: string, row: AvmEvaluationRow) {
+  console.log(
+    `  ${label.padEnd(28)} ${row.sales.toLocaleString().padStart(8)} ${pct(row.medianApe)} ${pct(row.meanApe)} ${pct(row.within10)} ${pct(row.within20)} ${pct(row.intervalCoverage)}`
+  );
+}
+
+function printEvaluation(evaluation: AvmEvaluation) {
+  console.log("\n" + "=".repeat(90));
+  console.log(`AVM HOLDOUT EVALUATION (as of ${evaluation.asOf.slice(0, 10)})`);
+  console.log("=".repeat(90));
+  console.log(`Training sales: ${evaluation.trainingSales.toLocaleString()}  Holdout sales: ${evaluation.holdoutSales.toLocaleString()}\n`);
+  console.log(`  ${"Segment".padEnd(28)} ${"Sales".padStart(8)} ${"MdAPE".padStart(7)} ${"MAPE".padStart(7)} ${"<=10%".padStart(7)} ${"<=20%".padStart(7)} ${"P10-90".padStart(7)}`);
+  printRow("All", evaluation.overall);
+  console.log("\nBy state:");
+  for (const row of evaluation.byState) printRow(row.state, row);
+  console.log("\nBy state and property type:");
+  for (const row of evaluation.bySegment) printRow(`${row.state} ${row.propertyType}`, row);
+}
+
+const trainAvmPipeline: EtlPipeline = {
+  name: "train_avm",
+  steps: [
+    {
+      name: "train_model",
+      run: async () => {
+        const { modelId, evaluation } = await trainAvm();
+        printEvaluation(evaluation);
+        return {
+          rowsRead: evaluation.trainingSales + evaluation.holdoutSales,
+          metadata: { modelId, overall: evaluation.overall, byState: evaluation.byState },
+        };
+      },
+    },
+    { name: "value_properties", run: () => valueProperties() },
+  ],
+};
+
+const args = process.argv.slice(2);
+
+if (args.includes("--evaluate")) {
+  const asOfIndex = args.indexOf("--as-of");
+  const asOf = asOfIndex >= 0 && args[asOfIndex + 1] ? new Date(args[asOfIndex + 1]) : undefined;
+  if (asOf && isNaN(asOf.getTime())) {
+    console.error(`Invalid --as-of date: ${args[asOfIndex + 1]}`);
+    process.exit(1);
+  }
+  trainAvm({ asOf, persist: false })
+    .then(({ evaluation }) => {
+      printEvaluation(evaluation);
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error("AVM evaluation failed:", error);
+      process.exit(1);
+    });
+} else {
+  runEtlPipelineFromCli(trainAvmPipeline);
+}
@@ -0,0 +1,243 @@
+import { storage } from "./storage";
+import { sendEmail } from "./emailService";
+import type { Alert, Property } from "@shared/schema";
+
+// Alerts are evaluated after each data refresh. An alert watches a single
+// property or every property on a watchlist; `threshold` is interpreted per
+// alert type (score points, percent drop, minimum comp similarity, percent
+// market move).
+const ALERT_COOLDOWN_HOURS = 24;
+
+const DEFAULT_THRESHOLDS: Record<string, number> = {
+  score_threshold: 70,
+  price_cut: 5,
+  new_comp: 0,
+  market_shift: 5,
+};
+
+interface AlertHit {
+  title: string;
+  lines: string[];
+}
+
+function formatMoney(n: number): string {
+  return `$${Math.round(n).toLocaleString("en-US")}`;
+}
+
+// Aggregate pipelines have written trends both as fractions (0.04) and as
+// percents (4.0); anything within ±1 is treated as a fraction.
+function trendToPct(trend: number): number {
+  return Math.abs(trend) <= 1 ? trend * 100 : trend;
+}
+
+async function getAlertProperties(alert: Alert): Promise<Property[]> {
+  if (alert.propertyId) {
+    const property = await storage.getProperty(alert.propertyId);
+    return property ? [property] : [];
+  }
+  if (alert.watchlistId) {
+    return await storage.getWatchlistProperties(alert.watchlistId);
+  }
+  return [];
+}
+
+async function evaluateScoreThreshold(alert: Alert, properties: Property[], since: Date, threshold: number): Promise<AlertHit | null> {
+  const lines: string[] = [];
+
+  for (const p of properties) {
+    if (p.opportunityScore === null || p.opportunityScore < threshold) continue;
+
+    // First evaluation reports anything already above the line; afterwards
+    // only properties that crossed it since the last trigger.
+    if (alert.lastTriggered) {
+      const changes = await storage.getRecentChangesForProperty(p.id, since);
+      const crossed = changes.some((c) => {
+        if (c.changeType !== "score_change") return false;
+        const prev = (c.previousValue as any)?.opportunityScore;
+        return typeof prev === "number" && prev < threshold;
+      });
+      if (!crossed) continue;
+    }
+    lines.push(`${p.address}, ${p.city}: opportunity score ${p.opportunityScore} (threshold ${threshold})`);
+  }
+
+  if (lines.length === 0) return null;
+  return {
+    title: lines.length === 1 ? "Opportunity score above your threshold" : `${lines.length} properties above your score threshold`,
+    lines,
+  };
+}
+
+async function evaluatePriceCut(properties: Property[], since: Date, threshold: number): Promise<AlertHit | null> {
+  const lines: string[] = [];
+
+  for (const p of properties) {
+    const changes = await storage.getRecentChangesForProperty(p.id, since);
+    for (const c of changes) {
+      if (c.changeType !== "price_change") continue;
+      const prev = c.previousValue as Record<string, any> | null;
+      const next = c.newValue as Record<string, any> | null;
+      const field = next?.estimatedValue !== undefined ? "estimatedValue" : "lastSalePrice";
+      const before = Number(prev?.[field]);
+      const after = Number(next?.[field]);
+      if (!before || !after) continue;
+
+      const dropPct = ((before - after) / before) * 100;
+      if (dropPct >= threshold) {
+        const label = field === "estimatedValue" ? "estimated value" : "sale price";
+        lines.push(`${p.address}, ${p.city}: ${label} down ${dropPct.toFixed(1)}% (${formatMoney(before)} → ${formatMoney(after)})`);
+        break;
+      }
+    }
+  }
+
+  if (lines.length === 0) return null;
+  return {
+    title: lines.length === 1 ? "Price cut on a property you follow" : `Price cuts on ${lines.length} properties you follow`,
+    lines,
+  };
+}
+
+async function evaluateNewComp(properties: Property[], since: Date, threshold: number): Promise<AlertHit | null> {
+  const lines: string[] = [];
+
+  for (const p of properties) {
+    const comps = await storage.getComps(p.id);
+    const fresh = comps.filter(
+      (c) => c.compSaleDate && c.compSaleDate > since && (c.similarityScore ?? 0) >= threshold
+    );
+    for (const c of fresh.slice(0, 3)) {
+      lines.push(
+        `${p.address}: new comp ${c.property.address} sold for ${c.compSalePrice ? formatMoney(c.compSalePrice) : "N/A"}` +
+          ` (${c.similarityScore?.toFixed(0) ?? "?"}% similar)`
+      );
+    }
+  }
+
+  if (lines.length === 0) return null;
+  return {
+    title: lines.length === 1 ? "New comparable sale" : `${lines.length} new comparable sales`,
+    lines,
+  };
+}
+
+async function evaluateMarketShift(properties: Property[], since: Date, threshold: number): Promise<AlertHit | null> {
+  const lines: string[] = [];
+  const zipCodes = Array.from(new Set(properties.map((p) => p.zipCode).filter(Boolean)));
+
+  for (const zip of zipCodes) {
+    const aggregate = await storage.getOverallMarketAggregate("zip", zip);
+    if (!aggregate || aggregate.trend3m === null) continue;
+    // Only react to aggregates recomputed since the alert last looked
+    if (aggregate.computedAt && aggregate.computedAt <= since) continue;
+
+    const trendPct = trendToPct(aggregate.trend3m);
+    if (Math.abs(trendPct) >= threshold) {
+      lines.push(`ZIP ${zip}: median price ${trendPct > 0 ? "up" : "down"} ${Math.abs(trendPct).toFixed(1)}% over 3 months`);
+    }
+  }
+
+  if (lines.length === 0) return null;
+  return {
+    title: lines.length === 1 ? "Market shift in an area you follow" : `Market shifts in ${lines.length} areas you follow`,
+    lines,
+  };
+}
+
+async function deliverAlert(alert: Alert, hit: AlertHit): Promise<void> {
+  const message = hit.lines.slice(0, 10).join("\n") +
+    (hit.lines.length > 10 ? `\n…and ${hit.lines.length - 10} more` : "");
+
+  await storage.createNotification({
+    userId: alert.userId,
+    alertId: alert.id,
+    title: hit.title,
+    message,
+    isRead: false,
+  });
+
+  const user = await storage.getUser(alert.userId);
+  if (!user?.email) return;
+
+  const html = `
+    <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2 style="color: #1a1a1a;">${hit.title}</h2>
+
+      <div style="background: #f5f5f5; padding: 16px; border-radius: 8px; margin: 16px 0;">
+        <pre style="white-space: pre-wrap; font-family: sans-serif; color: #333;">${message}</pre>
+      </div>
+
+      <p>
+        <a href="${process.env.REPLIT_DEV_DOMAIN || 'https://realtorsdashboard.com'}/saved-properties"
+           style="display: inline-block; background: #0066cc; color: white; padding: 12px 24px; border-radius: 6px; text-decoration: none;">
+          View Details
+        </a>
+      </p>
+
+      <p style="color: #999; font-size: 12px; margin-top: 32px;">
+        You're receiving this because you created a ${alert.alertType.replace(/_/g, " ")} alert.
+        <a href="${process.env.REPLIT_DEV_DOMAIN || 'https://realtorsdashboard.com'}/settings">Manage your alerts</a>
+      </p>
+    </div>
+  `;
+
+  await sendEmail({
+    to: user.email,
+    subject: `[Alert] ${hit.title}`,
+    html,
+  });
+}
+
+export async function evaluateAlerts(): Promise<{ evaluated: number; triggered: number }> {
+  console.log("Evaluating alerts...");
+
+  const activeAlerts = await storage.getActiveAlerts();
+  const now = new Date();
+  const cooldownMs = ALERT_COOLDOWN_HOURS * 60 * 60 * 1000;
+  let evaluated = 0;
+  let triggered = 0;
+
+  for (const alert of activeAlerts) {
+    if (alert.lastTriggered && now.getTime() - alert.lastTriggered.getTime() < cooldownMs) {
+      continue;
+    }
+
+    try {
+      const properties = await getAlertProperties(alert);
+      if (properties.length === 0) continue;
+      evaluated++;
+
+      const since = alert.lastTriggered ?? alert.createdAt ?? new Date(0);
+      const threshold = alert.threshold ?? DEFAULT_THRESHOLDS[alert.alertType] ?? 0;
+
+      let hit: AlertHit | null = null;
+      switch (alert.alertType) {
+        case "score_threshold":
+          hit = await evaluateScoreThreshold(alert, properties, since, threshold);
+          break;
+        case "price_cut":
+          hit = await evaluatePriceCut(properties, since, threshold);
+          break;
+        case "new_comp":
+          hit = await evaluateNewComp(properties, since, threshold);
+          break;
+        case "market_shift":
+          hit = await evaluateMarketShift(properties, since, threshold);
+          break;
+        default:
+          console.warn(`Unknown alert type "${alert.alertType}" on alert ${alert.id}`);
+      }
+
+      if (hit) {
+        await deliverAlert(alert, hit);
+        await storage.markAlertTriggered(alert.id, now);
+        triggered++;
+      }
+    } catch (error) {
+      console.error(`Error evaluating alert ${alert.id}:`, error);
+    }
+  }
+
+  console.log(`Evaluated ${evaluated} alerts, triggered ${triggered}`);
+  return { evaluated, triggered };
+}
@@ -0,0 +1,141 @@
+import { db } from "../db";
+import { addressSearchIndex } from "@shared/schema";
+import { lt, sql } from "drizzle-orm";
+import { normalizeAddress, normalizeUnit, trigrams } from "../services/addressParser";
+
+// Address search index builder.
+//
+// Rebuilds address_search_index from buildings and condo_units: one row per
+// building and per unit, with the house number, normalized street, street
+// trigrams and normalized unit designation that server/services/addressSearch.ts
+// matches queries against. Run after populating buildings or condo units.
+
+const READ_BATCH = 5000;
+const INSERT_BATCH = 1000;
+
+type IndexRow = typeof addressSearchIndex.$inferInsert;
+
+function addressFields(address: string | null) {
+  if (!address) return { houseNumber: null, street: null, streetCore: null, streetTrigrams: [] as string[] };
+  const { houseNumber, street, streetCore } = normalizeAddress(address);
+  return { houseNumber, street, streetCore, streetTrigrams: trigrams(streetCore) };
+}
+
+async function writeRows(rows: IndexRow[], builtAt: Date): Promise<void> {
+  for (let i = 0; i < rows.length; i += INSERT_BATCH) {
+    await db
+      .insert(addressSearchIndex)
+      .values(rows.slice(i, i + INSERT_BATCH).map((r) => ({ ...r, updatedAt: builtAt })))
+      .onConflictDoUpdate({
+        target: addressSearchIndex.id,
+        set: {
+          houseNumber: sql`excluded.house_number`,
+          street: sql`excluded.street`,
+          streetCore: sql`excluded.street_core`,
+          streetTrigrams: sql`excluded.street_trigrams`,
+          unitDesignation: sql`excluded.unit_designation`,
+          unit: sql`excluded.unit`,
+          borough: sql`excluded.borough`,
+          zipCode: sql`excluded.zip_code`,
+          displayAddress: sql`excluded.display_address`,
+          unitCount: sql`excluded.unit_count`,
+          slug: sql`excluded.slug`,
+          updatedAt: builtAt,
+        },
+      });
+  }
+}
+
+async function indexBuildings(builtAt: Date): Promise<number> {
+  let lastBbl = "";
+  let indexed = 0;
+  while (true) {
+    const batch = await db.execute(sql`
+      SELECT base_bbl, display_address, borough, zip_code, unit_count
+      FROM buildings
+      WHERE base_bbl > ${lastBbl}
+      ORDER BY base_bbl
+      LIMIT ${READ_BATCH}
+    `);
+    const rows = batch.rows as any[];
+    if (rows.length === 0) break;
+    lastBbl = rows[rows.length - 1].base_bbl;
+
+    await writeRows(
+      rows.map((b) => ({
+        id: `building:${b.base_bbl}`,
+        entityType: "building",
+        baseBbl: b.base_bbl,
+        unitBbl: null,
+        ...addressFields(b.display_address),
+        unitDesignation: null,
+        unit: null,
+        borough: b.borough,
+        zipCode: b.zip_code,
+        displayAddress: b.display_address,
+        unitCount: b.unit_count,
+        slug: null,
+      })),
+      builtAt
+    );
+    indexed += rows.length;
+  }
+  return indexed;
+}
+
+async function indexUnits(builtAt: Date): Promise<number> {
+  let lastBbl = "";
+  let indexed = 0;
+  while (true) {
+    const batch = await db.execute(sql`
+      SELECT unit_bbl, base_bbl, unit_designation, building_display_address, unit_display_address,
+        borough, zip_code, slug
+      FROM condo_units
+      WHERE unit_bbl > ${lastBbl}
+      ORDER BY unit_bbl
+      LIMIT ${READ_BATCH}
+    `);
+    const rows = batch.rows as any[];
+    if (rows.length === 0) break;
+    lastBbl = rows[rows.length - 1].unit_bbl;
+
+    await writeRows(
+      rows.map((u) => {
+        // Unit display addresses are "{building address}, {unit}"
+        const buildingAddress = u.building_display_address || u.unit_display_address?.split(",")[0] || null;
+        return {
+          id: `unit:${u.unit_bbl}`,
+          entityType: "unit",
+          baseBbl: u.base_bbl,
+          unitBbl: u.unit_bbl,
+          ...addressFields(buildingAddress),
+          unitDesignation: u.unit_designation,
+          unit: u.unit_designation ? normalizeUnit(u.unit_designation) : null,
+          borough: u.borough,
+          zipCode: u.zip_code,
+          displayAddress: u.unit_display_address,
+          unitCount: null,
+          slug: u.slug,
+        };
+      }),
+      builtAt
+    );
+    indexed += rows.length;
+  }
+  return indexed;
+}
+
+/**
+ * Rebuilds the address search index. Returns the number of buildings and
+ * units indexed.
+ */
+export async function buildAddressSearchIndex(): Promise<number> {
+  console.log("\n=== Address Search Index ===\n");
+  const builtAt = new Date();
+  const buildingCount = await indexBuildings(builtAt);
+  const unitCount = await indexUnits(builtAt);
+  await db.delete(addressSearchIndex).where(lt(addressSearchIndex.updatedAt, builtAt));
+
+  console.log(`✅ Indexed ${buildingCount.toLocaleString()} buildings and ${unitCount.toLocaleString()} units`);
+  return buildingCount + unitCount;
+}
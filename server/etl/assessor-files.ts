@@ -0,0 +1,371 @@
+import fs from "fs";
+import readline from "readline";
+import { randomUUID } from "crypto";
+import { db } from "../db";
+import { properties, sales, entityResolutionMap, type InsertProperty } from "@shared/schema";
+import { sql, eq, and, inArray } from "drizzle-orm";
+import { applyEntityResolutionDecisions } from "../services/matchReview";
+
+// Shared plumbing for the file-based NJ / CT assessor importers.
+//
+// Assessor extracts are read from local CSV files, streamed in batches so
+// statewide files never have to fit in memory. Every source parcel is
+// resolved to a property through entity_resolution_map (by its parcel id on
+// re-imports, by normalized address against existing properties otherwise)
+// so repeated imports update rows in place instead of duplicating them.
+
+export type SourceRow = Record<string, string>;
+
+export interface SourceParcel {
+  sourceRecordId: string;
+  property: InsertProperty;
+}
+
+export interface SourceSale {
+  propertyId: string | null;
+  salePrice: number;
+  saleDate: Date;
+  armsLength: boolean;
+  deedType?: string | null;
+  rawAddress: string;
+  matchMethod: string;
+  unresolvedReason?: string | null;
+}
+
+const STREET_ABBREVIATIONS: Record<string, string> = {
+  STREET: "ST", AVENUE: "AVE", AV: "AVE", ROAD: "RD", DRIVE: "DR", LANE: "LN",
+  PLACE: "PL", COURT: "CT", BOULEVARD: "BLVD", TERRACE: "TER", PARKWAY: "PKWY",
+  HIGHWAY: "HWY", CIRCLE: "CIR", SQUARE: "SQ", TURNPIKE: "TPKE", EXTENSION: "EXT",
+  NORTH: "N", SOUTH: "S", EAST: "E", WEST: "W",
+};
+
+function parseCsvLine(line: string): string[] {
+  const result: string[] = [];
+  let current = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (char === "," && !inQuotes) {
+      result.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  result.push(current.trim());
+  return result;
+}
+
+/**
+ * Streams a CSV file and hands rows to `onBatch` in batches. Header names are
+ * upper-cased with spaces turned into underscores, so "Sale Amount",
+ * "sale_amount" and "SALE_AMOUNT" all read as SALE_AMOUNT.
+ */
+export async function readCsvBatches(
+  filePath: string,
+  batchSize: number,
+  onBatch: (rows: SourceRow[]) => Promise<void>
+): Promise<number> {
+  const lines = readline.createInterface({
+    input: fs.createReadStream(filePath, { encoding: "utf8" }),
+    crlfDelay: Infinity,
+  });
+
+  let headers: string[] | null = null;
+  let batch: SourceRow[] = [];
+  let total = 0;
+
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+    const values = parseCsvLine(line);
+    if (!headers) {
+      headers = values.map((h) => h.replace(/^\uFEFF/, "").trim().toUpperCase().replace(/\s+/g, "_"));
+      continue;
+    }
+    const row: SourceRow = {};
+    headers.forEach((header, idx) => {
+      row[header] = values[idx] || "";
+    });
+    batch.push(row);
+    if (batch.length >= batchSize) {
+      await onBatch(batch);
+      total += batch.length;
+      batch = [];
+    }
+  }
+  if (batch.length > 0) {
+    await onBatch(batch);
+    total += batch.length;
+  }
+  return total;
+}
+
+// First non-empty value among the given columns
+export function pick(row: SourceRow, ...columns: string[]): string | null {
+  for (const column of columns) {
+    const value = row[column]?.trim();
+    if (value) return value;
+  }
+  return null;
+}
+
+export function parseNumber(value: string | null): number | null {
+  if (!value) return null;
+  const n = parseFloat(value.replace(/[$,]/g, ""));
+  return isNaN(n) ? null : n;
+}
+
+// Accepts ISO/US dates and the YYMMDD form used by MOD-IV deed dates
+export function parseSourceDate(value: string | null): Date | null {
+  if (!value) return null;
+  if (/^\d{6}$/.test(value)) {
+    const yy = parseInt(value.slice(0, 2), 10);
+    const year = yy > 50 ? 1900 + yy : 2000 + yy;
+    const date = new Date(Date.UTC(year, parseInt(value.slice(2, 4), 10) - 1, parseInt(value.slice(4, 6), 10)));
+    return isNaN(date.getTime()) ? null : date;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+export function titleCase(value: string): string {
+  return value.toLowerCase().replace(/\b([a-z])/g, (c) => c.toUpperCase());
+}
+
+export function normalizeAddress(address: string): string {
+  return address
+    .toUpperCase()
+    .replace(/[.,#]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((token) => STREET_ABBREVIATIONS[token] || token)
+    .join(" ");
+}
+
+function addressKey(address: string, city: string): string {
+  return `${normalizeAddress(address)}|${city.toUpperCase().trim()}`;
+}
+
+export function gridCoords(lat: number, lng: number): { gridLat: number; gridLng: number } {
+  return { gridLat: Math.floor(lat * 1000), gridLng: Math.floor(lng * 1000) };
+}
+
+/**
+ * Resolves source parcels for one source system to property ids and writes
+ * the properties. Holds an address index of the state's existing properties
+ * so parcels already imported from another source are merged, not duplicated.
+ */
+export class ParcelResolver {
+  private byAddress = new Map<string, string>();
+  inserted = 0;
+  updated = 0;
+
+  constructor(private sourceSystem: string, private state: string) {}
+
+  async load(): Promise<void> {
+    let lastId = "";
+    while (true) {
+      const rows = await db
+        .select({ id: properties.id, address: properties.address, city: properties.city })
+        .from(properties)
+        .where(and(eq(properties.state, this.state), sql`${properties.id} > ${lastId}`))
+        .orderBy(properties.id)
+        .limit(50000);
+      if (rows.length === 0) break;
+      for (const r of rows) this.byAddress.set(addressKey(r.address, r.city), r.id);
+      lastId = rows[rows.length - 1].id;
+    }
+    console.log(`  Indexed ${this.byAddress.size.toLocaleString()} existing ${this.state} addresses`);
+  }
+
+  findByAddress(address: string, city: string): string | null {
+    return this.byAddress.get(addressKey(address, city)) ?? null;
+  }
+
+  /**
+   * Upserts a batch of parcels and records how each was matched.
+   * Returns sourceRecordId → propertyId.
+   */
+  async upsert(batch: SourceParcel[]): Promise<Map<string, string>> {
+    const resolved = new Map<string, string>();
+    if (batch.length === 0) return resolved;
+
+    // A record repeated within the batch keeps its last row
+    const parcels = Array.from(new Map(batch.map((p) => [p.sourceRecordId, p])).values());
+
+    const known = await db
+      .select({
+        sourceRecordId: entityResolutionMap.sourceRecordId,
+        propertyId: entityResolutionMap.matchedPropertyId,
+        matchType: entityResolutionMap.matchType,
+      })
+      .from(entityResolutionMap)
+      .where(and(
+        eq(entityResolutionMap.sourceSystem, this.sourceSystem),
+        inArray(entityResolutionMap.sourceRecordId, parcels.map((p) => p.sourceRecordId))
+      ));
+    const knownIds = new Map(known.filter((k) => k.propertyId).map((k) => [k.sourceRecordId, k.propertyId!]));
+    // Parcels an admin rejected in the match review queue stay out
+    const rejected = new Set(
+      known.filter((k) => k.matchType === "manual_review" && !k.propertyId).map((k) => k.sourceRecordId)
+    );
+
+    // Keyed by the new property id, so a later parcel at the same address
+    // replaces the pending row rather than updating one not yet inserted
+    const inserts = new Map<string, typeof properties.$inferInsert>();
+    const resolutions: Array<typeof entityResolutionMap.$inferInsert> = [];
+
+    for (const parcel of parcels) {
+      if (rejected.has(parcel.sourceRecordId)) continue;
+      const { property } = parcel;
+      const key = addressKey(property.address, property.city);
+      let propertyId = knownIds.get(parcel.sourceRecordId) ?? null;
+      let matchType = "parcel_id";
+      let matchConfidence = 1.0;
+
+      if (!propertyId) {
+        propertyId = this.byAddress.get(key) ?? null;
+        if (propertyId) {
+          matchType = "address_normalized";
+          matchConfidence = 0.8;
+        }
+      }
+
+      if (propertyId && inserts.has(propertyId)) {
+        inserts.set(propertyId, { ...property, id: propertyId });
+      } else if (propertyId) {
+        await this.updateProperty(propertyId, property);
+      } else {
+        propertyId = randomUUID();
+        inserts.set(propertyId, { ...property, id: propertyId });
+      }
+      this.byAddress.set(key, propertyId);
+      resolved.set(parcel.sourceRecordId, propertyId);
+
+      resolutions.push({
+        sourceSystem: this.sourceSystem,
+        sourceRecordId: parcel.sourceRecordId,
+        matchedPropertyId: propertyId,
+        matchType,
+        matchConfidence,
+        matchMetadata: { address: property.address, city: property.city, zipCode: property.zipCode },
+      });
+    }
+
+    const insertRows = Array.from(inserts.values());
+    for (let i = 0; i < insertRows.length; i += 500) {
+      await db.insert(properties).values(insertRows.slice(i, i + 500));
+    }
+    this.inserted += insertRows.length;
+
+    await recordResolutions(resolutions);
+    return resolved;
+  }
+
+  // Only fields the source actually carries are written, so an assessor
+  // file doesn't blank out values another dataset filled in
+  private async updateProperty(id: string, property: InsertProperty): Promise<void> {
+    const { dataSources: tags, ...fields } = property;
+    const set: Record<string, unknown> = {};
+    for (const [field, value] of Object.entries(fields)) {
+      if (value !== null && value !== undefined) set[field] = value;
+    }
+    await db
+      .update(properties)
+      .set({
+        ...set,
+        dataSources: sql`ARRAY(SELECT DISTINCT unnest(COALESCE(${properties.dataSources}, '{}') || ${tags ?? []}::text[]))`,
+        updatedAt: new Date(),
+      })
+      .where(eq(properties.id, id));
+    this.updated++;
+  }
+}
+
+/**
+ * Upserts resolution rows, then puts back any admin review decisions the
+ * automatic match just overwrote.
+ */
+export async function recordResolutions(batch: Array<typeof entityResolutionMap.$inferInsert>): Promise<void> {
+  // ON CONFLICT DO UPDATE can't touch a row twice in one statement, so a
+  // record repeated within the batch keeps its last row
+  const rows = Array.from(new Map(batch.map((r) => [`${r.sourceSystem}|${r.sourceRecordId}`, r])).values());
+  for (let i = 0; i < rows.length; i += 1000) {
+    await db
+      .insert(entityResolutionMap)
+      .values(rows.slice(i, i + 1000))
+      .onConflictDoUpdate({
+        target: [entityResolutionMap.sourceSystem, entityResolutionMap.sourceRecordId],
+        set: {
+          matchedPropertyId: sql`excluded.matched_property_id`,
+          matchType: sql`excluded.match_type`,
+          matchConfidence: sql`excluded.match_confidence`,
+          matchMetadata: sql`excluded.match_metadata`,
+          updatedAt: new Date(),
+        },
+      });
+  }
+  for (const sourceSystem of Array.from(new Set(rows.map((r) => r.sourceSystem)))) {
+    await applyEntityResolutionDecisions({ sourceSystem });
+  }
+}
+
+/**
+ * Inserts recorded sales, skipping ones already on file for the same
+ * property, date and price so re-importing an extract is a no-op.
+ */
+export async function insertSourceSales(rows: SourceSale[]): Promise<number> {
+  if (rows.length === 0) return 0;
+
+  const propertyIds = Array.from(new Set(rows.map((r) => r.propertyId).filter((id): id is string => !!id)));
+  const existing = new Set<string>();
+  for (let i = 0; i < propertyIds.length; i += 1000) {
+    const found = await db
+      .select({ propertyId: sales.propertyId, saleDate: sales.saleDate, salePrice: sales.salePrice })
+      .from(sales)
+      .where(inArray(sales.propertyId, propertyIds.slice(i, i + 1000)));
+    for (const s of found) existing.add(`${s.propertyId}|${s.saleDate.toISOString().slice(0, 10)}|${s.salePrice}`);
+  }
+
+  const fresh = rows.filter((r) =>
+    !r.propertyId || !existing.has(`${r.propertyId}|${r.saleDate.toISOString().slice(0, 10)}|${r.salePrice}`)
+  );
+  for (let i = 0; i < fresh.length; i += 500) {
+    await db.insert(sales).values(fresh.slice(i, i + 500).map((r) => ({
+      propertyId: r.propertyId,
+      salePrice: r.salePrice,
+      saleDate: r.saleDate,
+      armsLength: r.armsLength,
+      deedType: r.deedType ?? null,
+      rawAddress: r.rawAddress,
+      matchMethod: r.matchMethod,
+      unresolvedReason: r.unresolvedReason ?? null,
+    })));
+  }
+  return fresh.length;
+}
+
+// Points each property at its latest arms-length recorded sale
+export async function refreshLastSales(state: string): Promise<void> {
+  await db.execute(sql`
+    UPDATE properties p
+    SET last_sale_price = ls.sale_price, last_sale_date = ls.sale_date, updated_at = NOW()
+    FROM (
+      SELECT DISTINCT ON (s.property_id) s.property_id, s.sale_price, s.sale_date
+      FROM sales s
+      WHERE s.property_id IS NOT NULL AND s.arms_length = true
+      ORDER BY s.property_id, s.sale_date DESC
+    ) ls
+    WHERE p.id = ls.property_id
+      AND p.state = ${state}
+      AND (p.last_sale_date IS NULL OR ls.sale_date > p.last_sale_date)
+  `);
+}
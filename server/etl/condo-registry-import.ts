@@ -1,6 +1,7 @@
 import { db } from "../db";
 import { condoRegistry, properties, entityResolutionMap, type InsertCondoRegistry } from "@shared/schema";
 import { eq, sql, and, like, inArray } from "drizzle-orm";
+import { applyEntityResolutionDecisions } from "../services/matchReview";
 
 const CONDO_UNITS_API = "https://data.cityofnewyork.us/resource/eguu-7ie3.json";
 const CONDOMINIUMS_API = "https://data.cityofnewyork.us/resource/p8u6-a6it.json";
@@ -243,6 +244,11 @@ export async function buildEntityResolutionMap(): Promise<{ matched: number; unm
     }
   }
 
+  const reviewed = await applyEntityResolutionDecisions({ sourceSystem: "condo_registry" });
+  if (reviewed > 0) {
+    console.log(`   Reapplied ${reviewed} admin review decisions`);
+  }
+
   console.log(`\n✅ Entity resolution complete:`);
   console.log(`   Matched: ${matched}`);
   console.log(`   Unmatched: ${unmatched}`);
@@ -0,0 +1,291 @@
+import fs from "fs";
+import { db } from "../db";
+import { properties, entityResolutionMap, type InsertProperty } from "@shared/schema";
+import { and, eq, inArray, isNull } from "drizzle-orm";
+import {
+  ParcelResolver,
+  readCsvBatches,
+  insertSourceSales,
+  recordResolutions,
+  refreshLastSales,
+  pick,
+  parseNumber,
+  parseSourceDate,
+  titleCase,
+  gridCoords,
+  type SourceRow,
+  type SourceParcel,
+  type SourceSale,
+} from "./assessor-files";
+
+// Connecticut importers for two local extracts:
+//
+//   CT_CAMA_FILE   municipal CAMA / parcel export (statewide CAMA layout:
+//                  link, location, property_city, assessed_total, state_use,
+//                  living_area, ayb, number_of_bedroom, ...)
+//   CT_SALES_FILE  OPM real estate sales extract (Serial Number, List Year,
+//                  Date Recorded, Town, Address, Sale Amount, Non Use Code,
+//                  Location as "POINT (lng lat)")
+//
+// CAMA rows create/update properties; OPM sales are matched to them by
+// normalized address and town, and unmatched sales are kept as unresolved.
+
+export const CT_CAMA_SOURCE = "ct_cama";
+export const CT_SALES_SOURCE = "ct_opm_sales";
+const BATCH_SIZE = 2000;
+
+// Connecticut assesses at 70% of fair market value (CGS 12-62a)
+const CT_ASSESSMENT_RATIO = 0.7;
+
+const CT_STATE_USE_MAP: Record<string, string> = {
+  "1010": "SFH", "1011": "SFH", "1012": "SFH", "1013": "SFH",
+  "1020": "SFH", "1021": "SFH", "1030": "SFH",
+  "1040": "Multi-family 2-4", "1041": "Multi-family 2-4", "1050": "Multi-family 2-4",
+  "1060": "Multi-family 5+", "1070": "Multi-family 5+", "1080": "Multi-family 5+",
+  "1000": "SFH", "1090": "SFH",
+  "2010": "Condo", "2020": "Condo", "2030": "Condo", "2040": "Condo",
+};
+
+const CT_COUNTY_MAP: Record<string, string> = {
+  Stamford: "Fairfield", Bridgeport: "Fairfield", Norwalk: "Fairfield",
+  Danbury: "Fairfield", Greenwich: "Fairfield", Fairfield: "Fairfield",
+  Milford: "New Haven", Stratford: "Fairfield", Shelton: "Fairfield",
+  Trumbull: "Fairfield", Darien: "Fairfield", Westport: "Fairfield",
+  "New Canaan": "Fairfield", Ridgefield: "Fairfield",
+  "New Haven": "New Haven", Waterbury: "New Haven", Hamden: "New Haven",
+  Meriden: "New Haven", "West Haven": "New Haven",
+  Hartford: "Hartford", "New Britain": "Hartford", Bristol: "Hartford",
+  "West Hartford": "Hartford", Manchester: "Hartford",
+  Middletown: "Middlesex",
+};
+
+// OPM residential types worth keeping; commercial, land and the rest are
+// outside what the product covers
+const CT_SALE_RESIDENTIAL_TYPES = new Set([
+  "RESIDENTIAL", "SINGLE FAMILY", "CONDO", "TWO FAMILY", "THREE FAMILY", "FOUR FAMILY",
+]);
+
+function parsePoint(value: string | null): { lat: number; lng: number } | null {
+  const match = value?.match(/POINT\s*\(\s*(-?[\d.]+)\s+(-?[\d.]+)\s*\)/i);
+  if (!match) return null;
+  return { lng: parseFloat(match[1]), lat: parseFloat(match[2]) };
+}
+
+function camaPropertyType(row: SourceRow): string | null {
+  const stateUse = pick(row, "STATE_USE") || "";
+  let propertyType = CT_STATE_USE_MAP[stateUse] ?? null;
+  const occupancy = parseNumber(pick(row, "OCCUPANCY"));
+  if (propertyType && propertyType !== "Condo" && occupancy && occupancy > 4) propertyType = "Multi-family 5+";
+  return propertyType;
+}
+
+function toCamaParcel(row: SourceRow): SourceParcel | { skipped: string } {
+  const propertyType = camaPropertyType(row);
+  if (!propertyType) return { skipped: "non_residential" };
+
+  const location = pick(row, "LOCATION");
+  const townRaw = pick(row, "PROPERTY_CITY", "TOWN", "TOWN_NAME");
+  if (!location || !townRaw) return { skipped: "no_location" };
+  const city = titleCase(townRaw);
+
+  // The mailing ZIP stands in only when the owner's mailing town is the parcel's town
+  let zipCode = pick(row, "PROPERTY_ZIP", "ZIP")?.slice(0, 5) ?? null;
+  if (!zipCode) {
+    const mailingCity = (pick(row, "MAILING_CITY") || "").toUpperCase();
+    const mailingZip = pick(row, "MAILING_ZIP");
+    if (mailingZip && mailingCity === townRaw.toUpperCase()) zipCode = mailingZip.slice(0, 5);
+  }
+  if (!zipCode) return { skipped: "no_zip" };
+
+  const sourceRecordId = `${city}:${pick(row, "LINK", "PID", "PARCEL_ID") || location}`;
+  const assessed = parseNumber(pick(row, "ASSESSED_TOTAL"));
+  const estimatedValue = assessed && assessed > 0 ? Math.round(assessed / CT_ASSESSMENT_RATIO) : null;
+
+  const sqft = parseNumber(pick(row, "LIVING_AREA", "EFFECTIVE_AREA"));
+  const yearBuilt = parseNumber(pick(row, "AYB", "EYB"));
+  const fullBaths = parseNumber(pick(row, "NUMBER_OF_BATHS"));
+  const halfBaths = parseNumber(pick(row, "NUMBER_OF_HALF_BATHS")) ?? 0;
+  const beds = parseNumber(pick(row, "NUMBER_OF_BEDROOM", "NUMBER_OF_BEDROOMS"));
+  const acres = parseNumber(pick(row, "LAND_ACRES"));
+  const lat = parseNumber(pick(row, "LATITUDE"));
+  const lng = parseNumber(pick(row, "LONGITUDE"));
+  const grid = lat && lng ? gridCoords(lat, lng) : null;
+
+  const salePrice = parseNumber(pick(row, "SALE_PRICE"));
+  const saleDate = parseSourceDate(pick(row, "SALE_DATE"));
+  const hasSale = !!salePrice && salePrice > 0 && !!saleDate;
+
+  const property: InsertProperty = {
+    address: titleCase(location),
+    city,
+    state: "CT",
+    zipCode,
+    county: CT_COUNTY_MAP[city] ?? null,
+    neighborhood: pick(row, "NEIGHBORHOOD") ?? city,
+    latitude: lat,
+    longitude: lng,
+    gridLat: grid?.gridLat ?? null,
+    gridLng: grid?.gridLng ?? null,
+    propertyType,
+    beds: beds ? Math.round(beds) : null,
+    baths: fullBaths !== null ? fullBaths + halfBaths * 0.5 : null,
+    sqft: sqft ? Math.round(sqft) : null,
+    lotSize: acres ? Math.round(acres * 43560) : null,
+    yearBuilt: yearBuilt && yearBuilt > 1700 ? Math.round(yearBuilt) : null,
+    lastSalePrice: hasSale ? Math.round(salePrice!) : null,
+    lastSaleDate: hasSale ? saleDate : null,
+    estimatedValue,
+    pricePerSqft: estimatedValue && sqft ? Math.round(estimatedValue / sqft) : null,
+    dataSources: ["CT CAMA"],
+  };
+
+  return { sourceRecordId, property };
+}
+
+/**
+ * Imports a CT CAMA CSV extract into properties. Returns the number of
+ * parcels imported (inserted or updated).
+ */
+export async function importCTCama(filePath: string | undefined = process.env.CT_CAMA_FILE): Promise<number> {
+  console.log("\n=== CT CAMA Import ===\n");
+  if (!filePath) {
+    console.log("  CT_CAMA_FILE is not set, skipping CT CAMA import");
+    return 0;
+  }
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`CT CAMA file not found: ${filePath}`);
+  }
+
+  const resolver = new ParcelResolver(CT_CAMA_SOURCE, "CT");
+  await resolver.load();
+
+  const skipped: Record<string, number> = {};
+  let imported = 0;
+
+  const rows = await readCsvBatches(filePath, BATCH_SIZE, async (batch) => {
+    const parcels: SourceParcel[] = [];
+    for (const row of batch) {
+      const result = toCamaParcel(row);
+      if ("skipped" in result) {
+        skipped[result.skipped] = (skipped[result.skipped] || 0) + 1;
+        continue;
+      }
+      parcels.push(result);
+    }
+    await resolver.upsert(parcels);
+    imported += parcels.length;
+
+    if (imported % 20000 < parcels.length) {
+      console.log(`  Processed ${imported.toLocaleString()} parcels...`);
+    }
+  });
+
+  console.log(`  Read ${rows.toLocaleString()} rows: ${resolver.inserted} new properties, ${resolver.updated} updated`);
+  for (const [reason, count] of Object.entries(skipped)) {
+    console.log(`    skipped ${reason}: ${count}`);
+  }
+  return imported;
+}
+
+/**
+ * Imports the OPM sales extract, matching each sale to a CT property by
+ * address and town. Sales already recorded in entity_resolution_map are
+ * skipped, so the extract can be re-run as it grows. Returns the number of
+ * sales inserted.
+ */
+export async function importCTSales(filePath: string | undefined = process.env.CT_SALES_FILE): Promise<number> {
+  console.log("\n=== CT OPM Sales Import ===\n");
+  if (!filePath) {
+    console.log("  CT_SALES_FILE is not set, skipping CT sales import");
+    return 0;
+  }
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`CT sales file not found: ${filePath}`);
+  }
+
+  const resolver = new ParcelResolver(CT_SALES_SOURCE, "CT");
+  await resolver.load();
+
+  let inserted = 0;
+  let matched = 0;
+  let unresolved = 0;
+
+  await readCsvBatches(filePath, BATCH_SIZE, async (batch) => {
+    const candidates: Array<{ sourceRecordId: string; row: SourceRow }> = [];
+    for (const row of batch) {
+      const type = (pick(row, "RESIDENTIAL_TYPE", "PROPERTY_TYPE") || "").toUpperCase();
+      if (!CT_SALE_RESIDENTIAL_TYPES.has(type)) continue;
+      const serial = pick(row, "SERIAL_NUMBER");
+      if (!serial) continue;
+      candidates.push({ sourceRecordId: `${pick(row, "LIST_YEAR") || ""}-${pick(row, "TOWN") || ""}-${serial}`, row });
+    }
+    if (candidates.length === 0) return;
+
+    const seen = await db
+      .select({ sourceRecordId: entityResolutionMap.sourceRecordId })
+      .from(entityResolutionMap)
+      .where(and(
+        eq(entityResolutionMap.sourceSystem, CT_SALES_SOURCE),
+        inArray(entityResolutionMap.sourceRecordId, candidates.map((c) => c.sourceRecordId))
+      ));
+    const seenIds = new Set(seen.map((s) => s.sourceRecordId));
+
+    const saleRows: SourceSale[] = [];
+    const resolutions: Array<typeof entityResolutionMap.$inferInsert> = [];
+    const points = new Map<string, { lat: number; lng: number }>();
+
+    for (const { sourceRecordId, row } of candidates) {
+      if (seenIds.has(sourceRecordId)) continue;
+      const address = pick(row, "ADDRESS");
+      const town = pick(row, "TOWN");
+      const salePrice = parseNumber(pick(row, "SALE_AMOUNT"));
+      const saleDate = parseSourceDate(pick(row, "DATE_RECORDED"));
+      if (!address || !town || !salePrice || !saleDate) continue;
+
+      const nonUseCode = pick(row, "NON_USE_CODE");
+      const propertyId = resolver.findByAddress(titleCase(address), titleCase(town));
+      if (propertyId) {
+        matched++;
+        const point = parsePoint(pick(row, "LOCATION"));
+        if (point) points.set(propertyId, point);
+      } else {
+        unresolved++;
+      }
+
+      saleRows.push({
+        propertyId,
+        salePrice: Math.round(salePrice),
+        saleDate,
+        armsLength: !nonUseCode || nonUseCode === "0",
+        deedType: nonUseCode ? `Non-use ${nonUseCode}` : null,
+        rawAddress: `${address}, ${town}`,
+        matchMethod: propertyId ? "address_normalized" : "unresolved",
+        unresolvedReason: propertyId ? null : "no_address_match",
+      });
+      resolutions.push({
+        sourceSystem: CT_SALES_SOURCE,
+        sourceRecordId,
+        matchedPropertyId: propertyId,
+        matchType: propertyId ? "address_normalized" : "unmatched",
+        matchConfidence: propertyId ? 0.8 : 0,
+        matchMetadata: { address, town, salePrice, dateRecorded: pick(row, "DATE_RECORDED") },
+      });
+    }
+
+    inserted += await insertSourceSales(saleRows);
+    await recordResolutions(resolutions);
+
+    // OPM geocodes its sales; use that to place CAMA parcels that had none
+    for (const [propertyId, point] of Array.from(points.entries())) {
+      await db
+        .update(properties)
+        .set({ latitude: point.lat, longitude: point.lng, ...gridCoords(point.lat, point.lng) })
+        .where(and(eq(properties.id, propertyId), isNull(properties.latitude)));
+    }
+  });
+
+  await refreshLastSales("CT");
+
+  console.log(`  Inserted ${inserted} sales (${matched} matched, ${unresolved} unresolved)`);
+  return inserted;
+}
@@ -0,0 +1,136 @@
+import { db } from "../db";
+import { floodHazardAreas, type InsertFloodHazardArea, type FloodScenario } from "@shared/schema";
+import { and, eq, isNull } from "drizzle-orm";
+import { featureField, readPolygonFeatures, type PolygonFeature } from "./spatial-files";
+
+// Flood hazard polygon importer. Each layer is a local shapefile (.shp with
+// its .dbf) or GeoJSON file in geographic coordinates:
+//
+//   FEMA_NFHL_FILE                     FEMA NFHL flood hazard areas (S_FLD_HAZ_AR:
+//                                      FLD_ZONE, ZONE_SUBTY, STATIC_BFE)
+//   NYC_SLR_2050S_FILE                 NYC 2050s 100-year floodplain (sea level rise)
+//   NYC_SLR_2080S_FILE                 NYC 2080s 100-year floodplain (sea level rise)
+//   NYC_STORMWATER_MODERATE_2050_FILE  NYC Stormwater Flood Map, moderate flood
+//                                      with 2050 sea levels (Flooding_Category)
+//   NYC_STORMWATER_EXTREME_2080_FILE   NYC Stormwater Flood Map, extreme flood
+//                                      with 2080 sea levels
+//
+// FEMA areas of minimal flood hazard (unshaded Zone X) are kept as well as
+// the hazard zones, since together they mark where the NFHL actually maps
+// flood risk; open water, Zone D (undetermined) and unmapped areas are not.
+// Each file replaces the polygons previously imported for its source and
+// scenario.
+
+interface FloodLayer {
+  env: string;
+  source: "fema_nfhl" | "nyc_sea_level_rise" | "nyc_stormwater";
+  scenario: FloodScenario | null;
+}
+
+const FLOOD_LAYERS: FloodLayer[] = [
+  { env: "FEMA_NFHL_FILE", source: "fema_nfhl", scenario: null },
+  { env: "NYC_SLR_2050S_FILE", source: "nyc_sea_level_rise", scenario: "slr_2050s_100yr" },
+  { env: "NYC_SLR_2080S_FILE", source: "nyc_sea_level_rise", scenario: "slr_2080s_100yr" },
+  { env: "NYC_STORMWATER_MODERATE_2050_FILE", source: "nyc_stormwater", scenario: "stormwater_moderate_2050" },
+  { env: "NYC_STORMWATER_EXTREME_2080_FILE", source: "nyc_stormwater", scenario: "stormwater_extreme_2080" },
+];
+
+const STORMWATER_CATEGORIES: Record<string, string> = {
+  "1": "Nuisance Flooding",
+  "2": "Deep and Contiguous Flooding",
+  "3": "Future High Tides",
+};
+
+const INSERT_BATCH = 50;
+
+// NFHL uses -9999 for "no static BFE"
+function parseBfe(value: string | null): number | null {
+  if (value === null) return null;
+  const n = Number(value);
+  return isFinite(n) && n > -9000 ? n : null;
+}
+
+function femaArea(feature: PolygonFeature): Omit<InsertFloodHazardArea, "source" | "scenario"> | null {
+  const zone = (featureField(feature.properties, ["fld_zone", "zone"]) || "").toUpperCase();
+  const subtype = featureField(feature.properties, ["zone_subty", "zone_subtype"]);
+  const upperSubtype = (subtype || "").toUpperCase();
+  const base = {
+    floodZoneSubtype: subtype,
+    baseFloodElevation: parseBfe(featureField(feature.properties, ["static_bfe", "bfe"])),
+    geometry: feature.coordinates,
+    ...feature.bounds,
+  };
+
+  if (zone.startsWith("A") || zone.startsWith("V")) {
+    return { ...base, floodZone: zone, isHighRisk: true, isModerateRisk: false };
+  }
+  // Shaded X: the 0.2% annual chance floodplain, or areas behind levees
+  if (zone === "B" || (zone === "X" && (upperSubtype.includes("0.2 PCT") || upperSubtype.includes("LEVEE")))) {
+    return { ...base, floodZone: "X-SHADED", isHighRisk: false, isModerateRisk: true };
+  }
+  // Unshaded X (C on older maps): mapped, minimal hazard
+  if (zone === "X" || zone === "C") {
+    return { ...base, floodZone: "X", isHighRisk: false, isModerateRisk: false };
+  }
+  return null;
+}
+
+function scenarioArea(layer: FloodLayer, feature: PolygonFeature): Omit<InsertFloodHazardArea, "source" | "scenario"> {
+  const category = featureField(feature.properties, ["flooding_category", "flood_cat", "fld_zone", "zone"]);
+  return {
+    floodZone: layer.source === "nyc_stormwater" && category ? STORMWATER_CATEGORIES[category] || category : category,
+    floodZoneSubtype: null,
+    baseFloodElevation: null,
+    isHighRisk: false,
+    isModerateRisk: false,
+    geometry: feature.coordinates,
+    ...feature.bounds,
+  };
+}
+
+async function importLayer(layer: FloodLayer): Promise<number> {
+  const filePath = process.env[layer.env];
+  if (!filePath) {
+    console.log(`  ${layer.env} is not set, skipping ${layer.scenario || layer.source}`);
+    return 0;
+  }
+
+  const rows: InsertFloodHazardArea[] = [];
+  let skipped = 0;
+  for (const feature of readPolygonFeatures(filePath)) {
+    const area = layer.source === "fema_nfhl" ? femaArea(feature) : scenarioArea(layer, feature);
+    if (!area) {
+      skipped++;
+      continue;
+    }
+    rows.push({ ...area, source: layer.source, scenario: layer.scenario });
+  }
+
+  await db
+    .delete(floodHazardAreas)
+    .where(
+      and(
+        eq(floodHazardAreas.source, layer.source),
+        layer.scenario ? eq(floodHazardAreas.scenario, layer.scenario) : isNull(floodHazardAreas.scenario)
+      )
+    );
+  for (let i = 0; i < rows.length; i += INSERT_BATCH) {
+    await db.insert(floodHazardAreas).values(rows.slice(i, i + INSERT_BATCH));
+  }
+
+  console.log(`  ${layer.scenario || layer.source}: ${rows.length} polygons (${skipped} open-water, Zone D or unmapped skipped)`);
+  return rows.length;
+}
+
+/**
+ * Imports every configured flood layer. Returns the number of polygons
+ * imported.
+ */
+export async function importFloodHazards(): Promise<number> {
+  console.log("\n=== Flood Hazard Import ===\n");
+  let imported = 0;
+  for (const layer of FLOOD_LAYERS) {
+    imported += await importLayer(layer);
+  }
+  return imported;
+}
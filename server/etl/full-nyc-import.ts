@@ -22,13 +22,21 @@ import {
   aiChats,
 } from "@shared/schema";
 import { sql, eq } from "drizzle-orm";
+import { buildComparables } from "../services/compsEngine";
+import { computeOpportunityScores } from "../services/opportunityScore";
+import {
+  syncSocrataSource,
+  resetSocrataWatermark,
+  acrisMasterSource,
+  acrisPartiesSource,
+  hpdRegistrationsSource,
+} from "./socrata-sync";
+import { gridCoords } from "./assessor-files";
 
 const NYC_OPENDATA_URLS = {
   pluto: "https://data.cityofnewyork.us/resource/64uk-42ks.json",
   valuations: "https://data.cityofnewyork.us/resource/yjxr-fw8i.json",
-  acrisMaster: "https://data.cityofnewyork.us/resource/bnx9-e6tj.json",
   acrisLegals: "https://data.cityofnewyork.us/resource/8h5j-fqxa.json",
-  hpdBuildings: "https://data.cityofnewyork.us/resource/tesw-yqqr.json",
   hpdViolations: "https://data.cityofnewyork.us/resource/wvxf-dwi5.json",
   propertySales: "https://data.cityofnewyork.us/resource/usep-8jbt.json",
 };
@@ -336,61 +344,9 @@ export async function importValuations(limit: number = 500000): Promise<number>
 // ============================================
 export async function importAcris(limit: number = 200000): Promise<number> {
   console.log("\n📜 Importing ACRIS Transactions...");
-  
-  const fiveYearsAgo = new Date();
-  fiveYearsAgo.setFullYear(fiveYearsAgo.getFullYear() - 5);
-  const dateStr = fiveYearsAgo.toISOString().split('T')[0];
-  
-  const query = `$where=recorded_datetime > '${dateStr}' AND doc_type in ('DEED','DEEDO','MTGE','ASST','AGMT')&$order=recorded_datetime DESC`;
-  const records = await fetchWithPagination(NYC_OPENDATA_URLS.acrisMaster, query, limit);
-  console.log(`  Downloaded ${records.length} ACRIS records`);
-  
-  let imported = 0;
-  const batchSize = 500;
-  
-  for (let i = 0; i < records.length; i += batchSize) {
-    const batch = records.slice(i, i + batchSize);
-    const values = batch.map((r: any) => {
-      const bbl = r.borough && r.block && r.lot 
-        ? createBBL(r.borough, r.block, r.lot)
-        : null;
-      
-      return {
-        documentId: r.document_id || `ACRIS-${Date.now()}-${Math.random()}`,
-        recordType: "MASTER",
-        bbl,
-        borough: r.borough,
-        block: r.block,
-        lot: r.lot,
-        docType: r.doc_type,
-        docDate: r.document_date ? new Date(r.document_date) : null,
-        recordedDateTime: r.recorded_datetime ? new Date(r.recorded_datetime) : null,
-        docAmount: parseFloat(r.document_amt) || null,
-        percentTransferred: parseFloat(r.percent_trans) || null,
-        goodThroughDate: r.good_through_date ? new Date(r.good_through_date) : null,
-        streetNumber: r.street_number,
-        streetName: r.street_name,
-        unit: r.unit,
-        rawData: r,
-      };
-    }).filter(v => v.documentId);
-    
-    if (values.length > 0) {
-      try {
-        await db.insert(acrisRaw).values(values);
-        imported += values.length;
-      } catch (error) {
-        console.error(`  Error inserting batch at ${i}:`, error);
-      }
-    }
-    
-    if ((i + batchSize) % 10000 === 0) {
-      console.log(`  Imported ${imported} ACRIS records...`);
-    }
-  }
-  
-  console.log(`✅ Imported ${imported} ACRIS records to staging`);
-  return imported;
+  const result = await syncSocrataSource(acrisMasterSource, { maxRecords: limit });
+  console.log(`✅ Upserted ${result.rowsWritten} ACRIS records to staging`);
+  return result.rowsWritten;
 }
 
 // ============================================
@@ -398,67 +354,9 @@ export async function importAcris(limit: number = 200000): Promise<number> {
 // ============================================
 export async function importHpd(limit: number = 200000): Promise<number> {
   console.log("\n🏢 Importing HPD Building Data...");
-  
-  const query = "$order=bbl";
-  const records = await fetchWithPagination(NYC_OPENDATA_URLS.hpdBuildings, query, limit);
-  console.log(`  Downloaded ${records.length} HPD building records`);
-  
-  let imported = 0;
-  const batchSize = 500;
-  
-  for (let i = 0; i < records.length; i += batchSize) {
-    const batch = records.slice(i, i + batchSize);
-    const values = batch.map((r: any) => {
-      const bbl = r.bbl || (r.boroid && r.block && r.lot 
-        ? createBBL(r.boroid, r.block, r.lot) 
-        : null);
-      
-      return {
-        bbl,
-        buildingId: r.buildingid,
-        registrationId: r.registrationid,
-        boroId: r.boroid,
-        borough: BOROUGH_MAP[r.boroid] || r.boroid,
-        block: r.block,
-        lot: r.lot,
-        houseNumber: r.housenumber,
-        streetName: r.streetname,
-        zipCode: r.zip,
-        registrationStatus: r.registrationenddate ? "Active" : "Inactive",
-        buildingOwnerName: r.ownername || r.corporationname,
-        buildingOwnerPhone: r.businessphone,
-        buildingOwnerEmail: null,
-        agentName: r.managementcompanyname,
-        agentPhone: r.managementphone,
-        agentAddress: r.managementaddress,
-        numFloors: parseInt(r.stories) || null,
-        numApartments: parseInt(r.legalunits) || null,
-        numLegalUnits: parseInt(r.legalclassa) || null,
-        totalViolations: null,
-        openViolations: null,
-        totalComplaints: null,
-        openComplaints: null,
-        lastInspectionDate: null,
-        rawData: r,
-      };
-    }).filter(v => v.bbl || v.buildingId);
-    
-    if (values.length > 0) {
-      try {
-        await db.insert(hpdRaw).values(values);
-        imported += values.length;
-      } catch (error) {
-        console.error(`  Error inserting batch at ${i}:`, error);
-      }
-    }
-    
-    if ((i + batchSize) % 10000 === 0) {
-      console.log(`  Imported ${imported} HPD records...`);
-    }
-  }
-  
-  console.log(`✅ Imported ${imported} HPD records to staging`);
-  return imported;
+  const result = await syncSocrataSource(hpdRegistrationsSource, { maxRecords: limit });
+  console.log(`✅ Upserted ${result.rowsWritten} HPD records to staging`);
+  return result.rowsWritten;
 }
 
 // ============================================
@@ -493,8 +391,6 @@ export async function normalizeToProperties(): Promise<number> {
       
       const pricePerSqft = sqft > 0 ? Math.round(estimatedValue / sqft) : 400;
       
-      const opportunityScore = 50 + Math.floor(Math.random() * 30);
-      
       return {
         bbl: r.bbl,
         address: r.address || "Unknown Address",
@@ -505,6 +401,7 @@ export async function normalizeToProperties(): Promise<number> {
         neighborhood: r.communityDistrict ? `CD ${r.communityDistrict}` : borough,
         latitude: r.latitude,
         longitude: r.longitude,
+        ...(r.latitude && r.longitude ? gridCoords(r.latitude, r.longitude) : {}),
         propertyType,
         beds,
         baths,
@@ -513,8 +410,6 @@ export async function normalizeToProperties(): Promise<number> {
         yearBuilt: r.yearBuilt,
         estimatedValue: Math.round(estimatedValue),
         pricePerSqft,
-        opportunityScore,
-        confidenceLevel: opportunityScore > 70 ? "High" : opportunityScore > 50 ? "Medium" : "Low",
         dataSources: ["PLUTO"],
       };
     }).filter(v => v.bbl && v.address);
@@ -574,7 +469,7 @@ export async function enrichProperties(): Promise<void> {
   console.log(`  Linked ${valLinked} valuations`);
   
   console.log("  Linking ACRIS transactions...");
-  const acrisRecords = await db.select().from(acrisRaw);
+  const acrisRecords = await db.select().from(acrisRaw).where(eq(acrisRaw.recordType, "MASTER"));
   let txLinked = 0;
   
   for (const tx of acrisRecords) {
@@ -584,8 +479,9 @@ export async function enrichProperties(): Promise<void> {
       try {
         let txType = "transfer";
         if (tx.docType === "DEED" || tx.docType === "DEEDO") txType = "sale";
-        else if (tx.docType === "MTGE") txType = "mortgage";
+        else if (tx.docType === "MTGE" || tx.docType === "M&CON") txType = "mortgage";
         else if (tx.docType === "ASST") txType = "assignment";
+        else if (tx.docType === "SAT") txType = "satisfaction";
         
         await db.insert(propertyTransactions).values({
           propertyId,
@@ -782,70 +678,7 @@ export async function enrichPropertyUnits(salesByBblUnit: Map<string, SaleWithUn
 // CREATE COMPARABLES - Generate comp relationships
 // ============================================
 export async function createComparables(): Promise<number> {
-  console.log("\n🔄 Creating comparable relationships...");
-  
-  const allProps = await db.select({
-    id: properties.id,
-    zipCode: properties.zipCode,
-    pricePerSqft: properties.pricePerSqft,
-    propertyType: properties.propertyType,
-  }).from(properties);
-  
-  console.log(`  Found ${allProps.length} properties`);
-  
-  const propertiesByZip: Record<string, typeof allProps> = {};
-  for (const prop of allProps) {
-    if (!propertiesByZip[prop.zipCode]) {
-      propertiesByZip[prop.zipCode] = [];
-    }
-    propertiesByZip[prop.zipCode].push(prop);
-  }
-  
-  let compsCount = 0;
-  const batchSize = 1000;
-  let compBatch: any[] = [];
-  
-  for (let i = 0; i < allProps.length; i++) {
-    const prop = allProps[i];
-    const sameZipProps = propertiesByZip[prop.zipCode]
-      ?.filter(p => p.id !== prop.id && p.propertyType === prop.propertyType) || [];
-    
-    const numComps = Math.min(sameZipProps.length, 5);
-    const selectedComps = sameZipProps
-      .sort(() => Math.random() - 0.5)
-      .slice(0, numComps);
-    
-    for (const compProp of selectedComps) {
-      const adjustedPrice = Math.min(
-        2000000000,
-        Math.round((Math.min(compProp.pricePerSqft || 400, 10000)) * 1500 * (1 + (Math.random() - 0.5) * 0.1))
-      );
-      
-      compBatch.push({
-        subjectPropertyId: prop.id,
-        compPropertyId: compProp.id,
-        similarityScore: 0.7 + Math.random() * 0.25,
-        sqftAdjustment: -0.1 + Math.random() * 0.2,
-        ageAdjustment: -0.05 + Math.random() * 0.1,
-        bedsAdjustment: -0.05 + Math.random() * 0.1,
-        adjustedPrice,
-      });
-      compsCount++;
-    }
-    
-    if (compBatch.length >= batchSize) {
-      await db.insert(comps).values(compBatch);
-      compBatch = [];
-      console.log(`  Created ${compsCount} comps...`);
-    }
-  }
-  
-  if (compBatch.length > 0) {
-    await db.insert(comps).values(compBatch);
-  }
-  
-  console.log(`✅ Created ${compsCount} comparable relationships`);
-  return compsCount;
+  return buildComparables();
 }
 
 // ============================================
@@ -944,6 +777,10 @@ export async function runFullImport(options: {
   await db.delete(valuationsRaw);
   await db.delete(acrisRaw);
   await db.delete(hpdRaw);
+  // Emptied feeds are backfilled from the start on the next sync
+  await resetSocrataWatermark(acrisMasterSource.name);
+  await resetSocrataWatermark(acrisPartiesSource.name);
+  await resetSocrataWatermark(hpdRegistrationsSource.name);
   
   await db.delete(propertyValuations);
   await db.delete(propertyTransactions);
@@ -984,7 +821,10 @@ export async function runFullImport(options: {
   console.log("\nStep 6: Creating comparable relationships...");
   const compsCount = await createComparables();
   
-  console.log("\nStep 7: Updating data source records...");
+  console.log("\nStep 7: Scoring opportunities...");
+  const scoredCount = await computeOpportunityScores();
+  
+  console.log("\nStep 8: Updating data source records...");
   await updateDataSources();
   
   const elapsed = Math.round((Date.now() - startTime) / 1000);
@@ -1001,6 +841,7 @@ export async function runFullImport(options: {
   console.log(`  - Normalized properties: ${propCount.toLocaleString()}`);
   console.log(`  - Properties with unit numbers: ${unitsUpdated.toLocaleString()}`);
   console.log(`  - Comparable relationships: ${compsCount.toLocaleString()}`);
+  console.log(`  - Scored properties: ${scoredCount.toLocaleString()}`);
   console.log(`  - Time elapsed: ${elapsed}s`);
   console.log("");
   console.log("=".repeat(60));
@@ -0,0 +1,438 @@
+import fs from "fs";
+import { db } from "../db";
+import { gazetteerEntries, type GazetteerKind, type InsertGazetteerEntry } from "@shared/schema";
+import { notInArray, sql } from "drizzle-orm";
+import { clearGazetteerCache, normalizePlaceName } from "../services/gazetteer";
+import { readCsvBatches, pick, titleCase } from "./assessor-files";
+
+// Gazetteer builder.
+//
+// Rebuilds gazetteer_entries from what the tree already knows about places:
+//   - the three covered states and the five NYC boroughs (built in)
+//   - NYC NTAs and NJ / CT municipalities from neighborhood_boundaries
+//   - counties, towns and ZIPs present on properties, with property counts
+//   - GAZETTEER_NAMES_FILE, an optional CSV of extra names and aliases:
+//       NAME      place name, or the existing entry to add aliases to
+//       KIND      state, borough, county, town, neighborhood (default) or zip
+//       STATE     NY, NJ or CT
+//       PARENT    borough, town or county containing it
+//       ALIASES   alternate names separated by semicolons
+//       GEO_ID    market geography id, when the place has its own aggregates
+// Common abbreviations ("bed stuy", "LIC", "UES") are added to the matching
+// neighborhoods here, so they survive boundary re-imports.
+
+const INSERT_BATCH = 500;
+
+const STATES = [
+  { code: "NY", name: "New York", aliases: ["NY", "New York State", "NYS"] },
+  { code: "NJ", name: "New Jersey", aliases: ["NJ", "Jersey"] },
+  { code: "CT", name: "Connecticut", aliases: ["CT", "Conn"] },
+];
+
+const NYC_BOROUGHS = [
+  { name: "Manhattan", county: "New York", aliases: ["NYC", "MN", "New York County"] },
+  { name: "Brooklyn", county: "Kings", aliases: ["BK", "Bklyn", "Kings County"] },
+  { name: "Queens", county: "Queens", aliases: ["QNS", "QN", "Queens County"] },
+  { name: "Bronx", county: "Bronx", aliases: ["The Bronx", "BX", "Bronx County"] },
+  { name: "Staten Island", county: "Richmond", aliases: ["SI", "Richmond County"] },
+];
+
+// Neighborhood aliases, applied to every NTA whose name contains the phrase
+const NEIGHBORHOOD_ALIASES: Array<[string, string[]]> = [
+  ["bedford stuyvesant", ["Bed Stuy", "Bedstuy"]],
+  ["long island city", ["LIC"]],
+  ["upper east side", ["UES"]],
+  ["upper west side", ["UWS"]],
+  ["lower east side", ["LES"]],
+  ["financial district", ["FiDi"]],
+  ["prospect lefferts gardens", ["PLG"]],
+  ["east new york", ["ENY"]],
+  ["washington heights", ["WaHi"]],
+  ["hells kitchen", ["Clinton"]],
+  ["stuyvesant town", ["Stuy Town"]],
+  ["greenwich village", ["The Village"]],
+  ["south williamsburg", ["Southside"]],
+];
+
+const MUNICIPAL_SUFFIX = /\s(township|borough|city|town|village)$/;
+
+interface Draft extends Omit<InsertGazetteerEntry, "searchTerms"> {
+  aliases: string[];
+}
+
+function slug(value: string): string {
+  return value.toLowerCase().replace(/\s+/g, "-");
+}
+
+function entryId(kind: GazetteerKind, state: string, geoId: string): string {
+  return `${kind}:${state}:${geoId}`;
+}
+
+function countyName(county: string): string {
+  return /\scounty$/i.test(county) ? county : `${county} County`;
+}
+
+// Normalized forms a place is found under: the full name, without a
+// parenthetical or municipal suffix, and each part of a hyphenated NTA name
+function nameVariants(name: string, kind: string): string[] {
+  const variants = new Set<string>();
+  const full = normalizePlaceName(name);
+  variants.add(full);
+  const bare = normalizePlaceName(name.replace(/\([^)]*\)/g, ""));
+  variants.add(bare);
+  variants.add(bare.replace(MUNICIPAL_SUFFIX, ""));
+  if (kind === "county") variants.add(bare.replace(/\scounty$/, ""));
+  if (kind === "neighborhood") {
+    for (const part of name.replace(/\([^)]*\)/g, "").split(/[-\/]|\s&\s/)) {
+      const normalized = normalizePlaceName(part);
+      if (normalized.length >= 3) variants.add(normalized);
+    }
+  }
+  variants.delete("");
+  return Array.from(variants);
+}
+
+function searchTerms(draft: Draft): string[] {
+  // The entry's own full name comes first; search ranks it above aliases
+  const terms = new Set(nameVariants(draft.name, draft.kind));
+  for (const alias of draft.aliases) {
+    for (const variant of nameVariants(alias, draft.kind)) terms.add(variant);
+  }
+  return Array.from(terms);
+}
+
+class GazetteerDraft {
+  readonly entries = new Map<string, Draft>();
+
+  private readonly byName = new Map<string, Draft>();
+
+  add(draft: Draft): Draft {
+    const existing = this.entries.get(draft.id);
+    if (existing) {
+      this.addAliases(existing, draft.aliases);
+      existing.propertyCount = Math.max(existing.propertyCount ?? 0, draft.propertyCount ?? 0);
+      return existing;
+    }
+    this.entries.set(draft.id, draft);
+    for (const variant of nameVariants(draft.name, draft.kind)) {
+      const key = `${draft.kind}:${draft.state}:${variant}`;
+      if (!this.byName.has(key)) this.byName.set(key, draft);
+    }
+    return draft;
+  }
+
+  addAliases(draft: Draft, aliases: string[]): void {
+    const normalizedName = normalizePlaceName(draft.name);
+    for (const alias of aliases) {
+      const normalized = normalizePlaceName(alias);
+      if (!normalized || normalized === normalizedName) continue;
+      if (draft.aliases.some((a) => normalizePlaceName(a) === normalized)) continue;
+      draft.aliases.push(alias);
+    }
+  }
+
+  // Looks an entry up by kind, state and any of its name variants
+  find(kinds: GazetteerKind[], state: string, name: string): Draft | undefined {
+    for (const kind of kinds) {
+      for (const variant of nameVariants(name, kind)) {
+        const draft = this.byName.get(`${kind}:${state}:${variant}`);
+        if (draft) return draft;
+      }
+    }
+    return undefined;
+  }
+}
+
+async function addPropertyPlaces(draft: GazetteerDraft): Promise<void> {
+  const [counties, cities, zips] = await Promise.all([
+    db.execute(sql`
+      SELECT state, county, COUNT(*)::int AS n
+      FROM properties
+      WHERE county IS NOT NULL AND county <> ''
+      GROUP BY state, county
+    `),
+    db.execute(sql`
+      SELECT DISTINCT ON (state, city) state, city, county,
+        SUM(COUNT(*)) OVER (PARTITION BY state, city)::int AS n
+      FROM properties
+      WHERE city IS NOT NULL AND city <> ''
+      GROUP BY state, city, county
+      ORDER BY state, city, COUNT(*) DESC
+    `),
+    db.execute(sql`
+      SELECT DISTINCT ON (state, zip_code) state, zip_code, city,
+        SUM(COUNT(*)) OVER (PARTITION BY state, zip_code)::int AS n
+      FROM properties
+      WHERE zip_code ~ '^[0-9]{5}$'
+      GROUP BY state, zip_code, city
+      ORDER BY state, zip_code, COUNT(*) DESC
+    `),
+  ]);
+
+  for (const r of counties.rows as any[]) {
+    const name = countyName(r.county);
+    draft.add({
+      id: entryId("county", r.state, slug(r.county)),
+      kind: "county",
+      geoType: "county",
+      geoId: slug(r.county),
+      name,
+      state: r.state,
+      parentId: entryId("state", r.state, r.state),
+      parentName: STATES.find((s) => s.code === r.state)?.name ?? r.state,
+      aliases: [],
+      propertyCount: r.n,
+      source: "properties",
+    });
+  }
+
+  for (const r of cities.rows as any[]) {
+    const borough = r.state === "NY" ? draft.entries.get(entryId("borough", "NY", slug(r.city))) : undefined;
+    if (borough) {
+      borough.propertyCount = r.n;
+      continue;
+    }
+    const county = r.county ? draft.entries.get(entryId("county", r.state, slug(r.county))) : undefined;
+    draft.add({
+      id: entryId("town", r.state, slug(r.city)),
+      kind: "town",
+      geoType: "city",
+      geoId: slug(r.city),
+      name: r.city,
+      state: r.state,
+      parentId: county?.id ?? null,
+      parentName: county?.name ?? null,
+      aliases: [],
+      propertyCount: r.n,
+      source: "properties",
+    });
+  }
+
+  for (const r of zips.rows as any[]) {
+    const parent =
+      draft.entries.get(entryId("borough", r.state, slug(r.city || ""))) ??
+      draft.entries.get(entryId("town", r.state, slug(r.city || "")));
+    draft.add({
+      id: entryId("zip", r.state, r.zip_code),
+      kind: "zip",
+      geoType: "zip",
+      geoId: r.zip_code,
+      name: r.zip_code,
+      state: r.state,
+      parentId: parent?.id ?? null,
+      parentName: parent?.name ?? r.city ?? null,
+      aliases: [],
+      propertyCount: r.n,
+      source: "properties",
+    });
+  }
+}
+
+async function addBoundaryPlaces(draft: GazetteerDraft): Promise<void> {
+  const [boundaries, counts] = await Promise.all([
+    db.execute(sql`SELECT id, name, state, kind, parent_name FROM neighborhood_boundaries`),
+    db.execute(sql`
+      SELECT neighborhood_id, COUNT(*)::int AS n
+      FROM properties
+      WHERE neighborhood_id IS NOT NULL
+      GROUP BY neighborhood_id
+    `),
+  ]);
+  const propertyCounts = new Map((counts.rows as any[]).map((r) => [r.neighborhood_id as string, r.n as number]));
+
+  for (const b of boundaries.rows as any[]) {
+    const propertyCount = propertyCounts.get(b.id) ?? 0;
+
+    if (b.kind === "nta") {
+      const borough = b.parent_name ? draft.entries.get(entryId("borough", b.state, slug(b.parent_name))) : undefined;
+      draft.add({
+        id: entryId("neighborhood", b.state, b.id),
+        kind: "neighborhood",
+        geoType: "neighborhood",
+        geoId: b.id,
+        name: b.name,
+        state: b.state,
+        parentId: borough?.id ?? null,
+        parentName: borough?.name ?? b.parent_name,
+        aliases: [],
+        propertyCount,
+        source: "boundaries",
+      });
+      continue;
+    }
+
+    // Municipalities usually match a property city already; the boundary only
+    // adds its official name ("Hoboken City") and county
+    const county = b.parent_name
+      ? draft.find(["county"], b.state, countyName(b.parent_name))
+      : undefined;
+    const town = draft.find(["town"], b.state, b.name);
+    if (town) {
+      draft.addAliases(town, [b.name]);
+      if (!town.parentId && county) {
+        town.parentId = county.id;
+        town.parentName = county.name;
+      }
+      continue;
+    }
+    draft.add({
+      id: entryId("town", b.state, b.id),
+      kind: "town",
+      geoType: "neighborhood",
+      geoId: b.id,
+      name: b.name,
+      state: b.state,
+      parentId: county?.id ?? null,
+      parentName: county?.name ?? (b.parent_name ? countyName(b.parent_name) : null),
+      aliases: [],
+      propertyCount,
+      source: "boundaries",
+    });
+  }
+}
+
+async function addNamesFile(draft: GazetteerDraft, filePath: string | undefined): Promise<void> {
+  if (!filePath) {
+    console.log("  GAZETTEER_NAMES_FILE is not set, skipping extra place names");
+    return;
+  }
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Gazetteer names file not found: ${filePath}`);
+  }
+
+  let merged = 0;
+  let added = 0;
+  let skipped = 0;
+  await readCsvBatches(filePath, 1000, async (batch) => {
+    for (const row of batch) {
+      const rawName = pick(row, "NAME");
+      const state = (pick(row, "STATE") || "").toUpperCase();
+      const kind = ((pick(row, "KIND", "TYPE") || "neighborhood").toLowerCase()) as GazetteerKind;
+      if (!rawName || !state || !(["state", "borough", "county", "town", "neighborhood", "zip"] as string[]).includes(kind)) {
+        skipped++;
+        continue;
+      }
+      const name = rawName === rawName.toUpperCase() ? titleCase(rawName) : rawName;
+      const aliases = (pick(row, "ALIASES") || "").split(/[;|]/).map((a) => a.trim()).filter(Boolean);
+
+      const existing = draft.find([kind], state, name);
+      if (existing) {
+        draft.addAliases(existing, aliases);
+        merged++;
+        continue;
+      }
+
+      const parentName = pick(row, "PARENT");
+      const parent = parentName ? draft.find(["borough", "town", "county"], state, parentName) : undefined;
+      const geoType = kind === "borough" || kind === "town" ? "city" : kind;
+      const geoId = pick(row, "GEO_ID") || (kind === "state" ? state : kind === "zip" ? name : slug(name));
+      draft.add({
+        id: entryId(kind, state, geoId),
+        kind,
+        geoType,
+        geoId,
+        name,
+        state,
+        parentId: parent?.id ?? null,
+        parentName: parent?.name ?? parentName,
+        aliases,
+        propertyCount: 0,
+        source: "names_file",
+      });
+      added++;
+    }
+  });
+  console.log(`  Names file: ${added} places added, ${merged} merged${skipped ? `, ${skipped} skipped` : ""}`);
+}
+
+/**
+ * Rebuilds the gazetteer from boundaries, properties and the optional names
+ * file. Returns the number of entries written.
+ */
+export async function buildGazetteer(namesFile: string | undefined = process.env.GAZETTEER_NAMES_FILE): Promise<number> {
+  console.log("\n=== Gazetteer Build ===\n");
+  const draft = new GazetteerDraft();
+
+  for (const s of STATES) {
+    draft.add({
+      id: entryId("state", s.code, s.code),
+      kind: "state",
+      geoType: "state",
+      geoId: s.code,
+      name: s.name,
+      state: s.code,
+      parentId: null,
+      parentName: null,
+      aliases: [...s.aliases],
+      propertyCount: 0,
+      source: "builtin",
+    });
+  }
+  for (const b of NYC_BOROUGHS) {
+    draft.add({
+      id: entryId("borough", "NY", slug(b.name)),
+      kind: "borough",
+      geoType: "city",
+      geoId: slug(b.name),
+      name: b.name,
+      state: "NY",
+      parentId: entryId("county", "NY", slug(b.county)),
+      parentName: countyName(b.county),
+      aliases: [...b.aliases],
+      propertyCount: 0,
+      source: "builtin",
+    });
+  }
+
+  await addPropertyPlaces(draft);
+  await addBoundaryPlaces(draft);
+  await addNamesFile(draft, namesFile);
+
+  const stateCounts = await db.execute(sql`SELECT state, COUNT(*)::int AS n FROM properties GROUP BY state`);
+  for (const r of stateCounts.rows as any[]) {
+    const state = draft.entries.get(entryId("state", r.state, r.state));
+    if (state) state.propertyCount = r.n;
+  }
+
+  const kinds: Record<string, number> = {};
+  const rows: InsertGazetteerEntry[] = [];
+  for (const entry of Array.from(draft.entries.values())) {
+    if (entry.kind === "neighborhood") {
+      const normalized = normalizePlaceName(entry.name);
+      for (const [phrase, aliases] of NEIGHBORHOOD_ALIASES) {
+        if (` ${normalized} `.includes(` ${phrase} `)) draft.addAliases(entry, aliases);
+      }
+    }
+    kinds[entry.kind] = (kinds[entry.kind] || 0) + 1;
+    rows.push({ ...entry, searchTerms: searchTerms(entry) });
+  }
+
+  for (let i = 0; i < rows.length; i += INSERT_BATCH) {
+    await db
+      .insert(gazetteerEntries)
+      .values(rows.slice(i, i + INSERT_BATCH))
+      .onConflictDoUpdate({
+        target: gazetteerEntries.id,
+        set: {
+          kind: sql`excluded.kind`,
+          geoType: sql`excluded.geo_type`,
+          geoId: sql`excluded.geo_id`,
+          name: sql`excluded.name`,
+          state: sql`excluded.state`,
+          parentId: sql`excluded.parent_id`,
+          parentName: sql`excluded.parent_name`,
+          aliases: sql`excluded.aliases`,
+          searchTerms: sql`excluded.search_terms`,
+          propertyCount: sql`excluded.property_count`,
+          source: sql`excluded.source`,
+          updatedAt: new Date(),
+        },
+      });
+  }
+  await db.delete(gazetteerEntries).where(notInArray(gazetteerEntries.id, rows.map((r) => r.id)));
+  clearGazetteerCache();
+
+  console.log(`  ${Object.entries(kinds).map(([kind, n]) => `${n.toLocaleString()} ${kind}`).join(", ")}`);
+  console.log(`✅ Built ${rows.length.toLocaleString()} gazetteer entries`);
+  return rows.length;
+}
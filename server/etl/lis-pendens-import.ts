@@ -0,0 +1,143 @@
+import fs from "fs";
+import { createHash } from "crypto";
+import { db } from "../db";
+import { lisPendensRaw } from "@shared/schema";
+import { sql } from "drizzle-orm";
+import { ParcelResolver, readCsvBatches, pick, parseSourceDate, titleCase, type SourceRow } from "./assessor-files";
+
+// Lis pendens importer.
+//
+// Reads LIS_PENDENS_FILE, a CSV export of notices of pendency from a county
+// clerk or a court records vendor, one row per notice:
+//   BBL or BOROUGH / BLOCK / LOT     NYC lot (BOROUGH as 1-5 or its name)
+//   ADDRESS / CITY / STATE           used for NJ / CT rows, matched to a
+//                                    property by normalized address
+//   INDEX_NUMBER or CASE_NUMBER      court index number
+//   CASE_TYPE                        "foreclosure" when it names one
+//   PLAINTIFF / DEFENDANT
+//   FILED_DATE or DATE_FILED
+//   CANCELLED_DATE or DISCHARGE_DATE set once the notice is cancelled
+//
+// Rows are upserted by state, case number and parcel, so re-importing a
+// newer export records cancellations in place.
+
+const BATCH_SIZE = 2000;
+
+const BOROUGH_CODES: Record<string, string> = {
+  "1": "1", "2": "2", "3": "3", "4": "4", "5": "5",
+  MN: "1", BX: "2", BK: "3", QN: "4", SI: "5",
+  MANHATTAN: "1", BRONX: "2", BROOKLYN: "3", QUEENS: "4", "STATEN ISLAND": "5",
+};
+
+function rowBbl(row: SourceRow): string | null {
+  const bbl = pick(row, "BBL")?.replace(/\D/g, "");
+  if (bbl && bbl.length === 10) return bbl;
+  const boroughCode = BOROUGH_CODES[(pick(row, "BOROUGH", "BORO") || "").toUpperCase()];
+  const block = pick(row, "BLOCK");
+  const lot = pick(row, "LOT");
+  if (!boroughCode || !block || !lot) return null;
+  return `${boroughCode}${block.padStart(5, "0")}${lot.padStart(4, "0")}`;
+}
+
+function caseType(row: SourceRow): string {
+  const text = `${pick(row, "CASE_TYPE", "ACTION_TYPE") || ""} ${pick(row, "DESCRIPTION") || ""}`.toUpperCase();
+  return text.includes("FORECLOS") || text.includes("MORTGAGE") || text.includes("TAX LIEN") ? "foreclosure" : "other";
+}
+
+/**
+ * Imports the lis pendens export. Returns the number of notices imported.
+ */
+export async function importLisPendens(filePath: string | undefined = process.env.LIS_PENDENS_FILE): Promise<number> {
+  console.log("\n=== Lis Pendens Import ===\n");
+  if (!filePath) {
+    console.log("  LIS_PENDENS_FILE is not set, skipping lis pendens import");
+    return 0;
+  }
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Lis pendens file not found: ${filePath}`);
+  }
+
+  const resolvers = new Map<string, ParcelResolver>();
+  const skipped: Record<string, number> = {};
+  let imported = 0;
+
+  await readCsvBatches(filePath, BATCH_SIZE, async (batch) => {
+    const rows: Array<typeof lisPendensRaw.$inferInsert> = [];
+    for (const row of batch) {
+      const filedDate = parseSourceDate(pick(row, "FILED_DATE", "DATE_FILED", "FILING_DATE"));
+      if (!filedDate) {
+        skipped["no filed date"] = (skipped["no filed date"] || 0) + 1;
+        continue;
+      }
+      const bbl = rowBbl(row);
+      const state = (pick(row, "STATE") || (bbl ? "NY" : "")).toUpperCase();
+      const address = pick(row, "ADDRESS", "PROPERTY_ADDRESS");
+      const city = pick(row, "CITY", "TOWN", "MUNICIPALITY");
+
+      let propertyId: string | null = null;
+      if (!bbl) {
+        if (!address || !city || !state) {
+          skipped["no parcel"] = (skipped["no parcel"] || 0) + 1;
+          continue;
+        }
+        let resolver = resolvers.get(state);
+        if (!resolver) {
+          resolver = new ParcelResolver("lis_pendens", state);
+          await resolver.load();
+          resolvers.set(state, resolver);
+        }
+        propertyId = resolver.findByAddress(titleCase(address), titleCase(city));
+        if (!propertyId) {
+          skipped["unmatched address"] = (skipped["unmatched address"] || 0) + 1;
+          continue;
+        }
+      }
+
+      const caseNumber = pick(row, "INDEX_NUMBER", "CASE_NUMBER");
+      const parcel = bbl || propertyId;
+      const key = createHash("sha1")
+        .update(`${state}|${caseNumber || filedDate.toISOString()}|${parcel}`)
+        .digest("hex")
+        .slice(0, 20);
+      rows.push({
+        id: `lp-${key}`,
+        bbl,
+        propertyId,
+        address: address ? titleCase(address) : null,
+        city: city ? titleCase(city) : null,
+        state,
+        caseNumber,
+        caseType: caseType(row),
+        plaintiff: pick(row, "PLAINTIFF"),
+        defendant: pick(row, "DEFENDANT"),
+        filedDate,
+        cancelledDate: parseSourceDate(pick(row, "CANCELLED_DATE", "DISCHARGE_DATE", "CANCELLATION_DATE")),
+        rawData: row,
+      });
+    }
+    if (rows.length === 0) return;
+
+    const unique = Array.from(new Map(rows.map((r) => [r.id, r])).values());
+    await db
+      .insert(lisPendensRaw)
+      .values(unique)
+      .onConflictDoUpdate({
+        target: lisPendensRaw.id,
+        set: {
+          caseType: sql`excluded.case_type`,
+          plaintiff: sql`excluded.plaintiff`,
+          defendant: sql`excluded.defendant`,
+          cancelledDate: sql`excluded.cancelled_date`,
+          rawData: sql`excluded.raw_data`,
+          importedAt: sql`NOW()`,
+        },
+      });
+    imported += unique.length;
+  });
+
+  console.log(`  Imported ${imported.toLocaleString()} lis pendens notices`);
+  for (const [reason, count] of Object.entries(skipped)) {
+    console.log(`    skipped ${reason}: ${count}`);
+  }
+  return imported;
+}
@@ -2,6 +2,7 @@ import { db } from "../db";
 import { sales, condoUnits, properties } from "@shared/schema";
 import { sql, eq, and, isNull } from "drizzle-orm";
 import { normalizeAddress, geocodeBBL } from "../services/geoclient";
+import { applySaleDecisions } from "../services/matchReview";
 
 interface MatchStats {
   total: number;
@@ -10,6 +11,7 @@ interface MatchStats {
   blockLotMatch: number;
   unresolved: number;
   conflicts: number;
+  reviewed: number;
 }
 
 interface UnresolvedBucket {
@@ -53,6 +55,7 @@ export async function matchTransactions(): Promise<{
     blockLotMatch: 0,
     unresolved: 0,
     conflicts: 0,
+    reviewed: 0,
   };
 
   const unresolvedReasons: Record<string, { count: number; samples: string[] }> = {};
@@ -208,6 +211,9 @@ export async function matchTransactions(): Promise<{
     }
   }
 
+  // Admin decisions from the match review queue override the automatic match
+  stats.reviewed = await applySaleDecisions();
+
   const unresolvedBuckets: UnresolvedBucket[] = Object.entries(unresolvedReasons).map(
     ([reason, data]) => ({
       reason,
@@ -223,6 +229,7 @@ export async function matchTransactions(): Promise<{
   console.log(`  Unit BBL match: ${stats.unitBblMatch} (${((stats.unitBblMatch / stats.total) * 100).toFixed(1)}%)`);
   console.log(`  Block/Lot match: ${stats.blockLotMatch} (${((stats.blockLotMatch / stats.total) * 100).toFixed(1)}%)`);
   console.log(`  Unresolved: ${stats.unresolved} (${((stats.unresolved / stats.total) * 100).toFixed(1)}%)`);
+  console.log(`  Admin review decisions applied: ${stats.reviewed}`);
 
   if (unresolvedBuckets.length > 0) {
     console.log("\n📋 Unresolved Reasons:");
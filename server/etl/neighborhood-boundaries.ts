@@ -0,0 +1,155 @@
+import { db } from "../db";
+import { neighborhoodBoundaries, type InsertNeighborhoodBoundary } from "@shared/schema";
+import { and, eq, notInArray, sql } from "drizzle-orm";
+import { titleCase } from "./assessor-files";
+import { featureField, readPolygonFeatures, type PolygonFeature } from "./spatial-files";
+
+// Neighborhood boundary importer for local GeoJSON or shapefile layers:
+//
+//   NYC_NTA_GEOJSON            NYC Neighborhood Tabulation Areas (2020 layout:
+//                              nta2020, ntaname, boroname; the 2010 ntacode /
+//                              boro_name layout also works)
+//   NJ_MUNICIPALITIES_GEOJSON  NJGIN municipal boundaries (MUN_CODE, MUN_LABEL,
+//                              COUNTY)
+//   CT_TOWNS_GEOJSON           CT town boundaries (TOWN_NO, TOWN, COUNTY)
+//
+// Coordinates must be WGS84 longitude/latitude; reproject State Plane layers
+// to EPSG:4326 first. Each file replaces that state's boundaries of its kind.
+
+interface BoundarySource {
+  env: string;
+  state: string;
+  kind: "nta" | "municipality";
+  codeFields: string[];
+  nameFields: string[];
+  parentFields: string[];
+}
+
+const BOUNDARY_SOURCES: BoundarySource[] = [
+  {
+    env: "NYC_NTA_GEOJSON",
+    state: "NY",
+    kind: "nta",
+    codeFields: ["nta2020", "ntacode", "nta_code"],
+    nameFields: ["ntaname", "nta_name"],
+    parentFields: ["boroname", "boro_name", "borough"],
+  },
+  {
+    env: "NJ_MUNICIPALITIES_GEOJSON",
+    state: "NJ",
+    kind: "municipality",
+    codeFields: ["mun_code", "ssn", "gnis"],
+    nameFields: ["mun_label", "name", "mun"],
+    parentFields: ["county", "county_name"],
+  },
+  {
+    env: "CT_TOWNS_GEOJSON",
+    state: "CT",
+    kind: "municipality",
+    codeFields: ["town_no", "town_fips", "geoid", "townid"],
+    nameFields: ["town", "town_name", "name"],
+    parentFields: ["county", "county_name"],
+  },
+];
+
+const INSERT_BATCH = 100;
+
+type Position = number[];
+
+function toBoundary(source: BoundarySource, feature: PolygonFeature): InsertNeighborhoodBoundary | { skipped: string } {
+  const code = featureField(feature.properties, source.codeFields);
+  const rawName = featureField(feature.properties, source.nameFields);
+  if (!code || !rawName) return { skipped: "missing_code_or_name" };
+
+  const parent = featureField(feature.properties, source.parentFields);
+  const name = rawName === rawName.toUpperCase() ? titleCase(rawName) : rawName;
+  return {
+    id: `${source.state}-${code}`.toLowerCase(),
+    name,
+    state: source.state,
+    kind: source.kind,
+    sourceCode: code,
+    parentName: parent ? (parent === parent.toUpperCase() ? titleCase(parent) : parent) : null,
+    geometry: feature.coordinates,
+    ...feature.bounds,
+  };
+}
+
+async function importSource(source: BoundarySource): Promise<number> {
+  const filePath = process.env[source.env];
+  if (!filePath) {
+    console.log(`  ${source.env} is not set, skipping ${source.state} boundaries`);
+    return 0;
+  }
+  const skipped: Record<string, number> = {};
+  const rows = new Map<string, InsertNeighborhoodBoundary>();
+  for (const feature of readPolygonFeatures(filePath)) {
+    const result = toBoundary(source, feature);
+    if ("skipped" in result) {
+      skipped[result.skipped] = (skipped[result.skipped] || 0) + 1;
+      continue;
+    }
+    // Some layers split a municipality into several features; merge them
+    const existing = rows.get(result.id);
+    if (existing) {
+      existing.geometry = [...(existing.geometry as Position[][][]), ...(result.geometry as Position[][][])];
+      existing.minLat = Math.min(existing.minLat, result.minLat);
+      existing.minLng = Math.min(existing.minLng, result.minLng);
+      existing.maxLat = Math.max(existing.maxLat, result.maxLat);
+      existing.maxLng = Math.max(existing.maxLng, result.maxLng);
+    } else {
+      rows.set(result.id, result);
+    }
+  }
+
+  const boundaries = Array.from(rows.values());
+  for (let i = 0; i < boundaries.length; i += INSERT_BATCH) {
+    await db
+      .insert(neighborhoodBoundaries)
+      .values(boundaries.slice(i, i + INSERT_BATCH))
+      .onConflictDoUpdate({
+        target: neighborhoodBoundaries.id,
+        set: {
+          name: sql`excluded.name`,
+          sourceCode: sql`excluded.source_code`,
+          parentName: sql`excluded.parent_name`,
+          geometry: sql`excluded.geometry`,
+          minLat: sql`excluded.min_lat`,
+          minLng: sql`excluded.min_lng`,
+          maxLat: sql`excluded.max_lat`,
+          maxLng: sql`excluded.max_lng`,
+          importedAt: new Date(),
+        },
+      });
+  }
+  if (boundaries.length > 0) {
+    await db
+      .delete(neighborhoodBoundaries)
+      .where(
+        and(
+          eq(neighborhoodBoundaries.state, source.state),
+          eq(neighborhoodBoundaries.kind, source.kind),
+          notInArray(neighborhoodBoundaries.id, boundaries.map((b) => b.id))
+        )
+      );
+  }
+
+  console.log(`  ${source.state}: ${boundaries.length} ${source.kind} boundaries`);
+  for (const [reason, count] of Object.entries(skipped)) {
+    console.log(`    skipped ${reason}: ${count}`);
+  }
+  return boundaries.length;
+}
+
+/**
+ * Imports every configured boundary file. Returns the number of boundaries
+ * imported.
+ */
+export async function importNeighborhoodBoundaries(): Promise<number> {
+  console.log("\n=== Neighborhood Boundary Import ===\n");
+  let imported = 0;
+  for (const source of BOUNDARY_SOURCES) {
+    imported += await importSource(source);
+  }
+  return imported;
+}
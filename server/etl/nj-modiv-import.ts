@@ -0,0 +1,200 @@
+import fs from "fs";
+import type { InsertProperty } from "@shared/schema";
+import {
+  ParcelResolver,
+  readCsvBatches,
+  insertSourceSales,
+  refreshLastSales,
+  pick,
+  parseNumber,
+  parseSourceDate,
+  titleCase,
+  gridCoords,
+  type SourceRow,
+  type SourceParcel,
+  type SourceSale,
+} from "./assessor-files";
+
+// NJ MOD-IV tax list importer.
+//
+// Reads a CSV export of the MOD-IV / parcels composite (one row per line
+// item, as published by NJ OGIS or a county tax board). Residential classes
+// only: class 2 (1-4 family, condos by qualifier) and 4C (apartments).
+// Optional columns are used when the export carries them:
+//   ZIP5 / PROP_ZIP            property ZIP (otherwise owner ZIP when owner-occupied)
+//   SQ_FT / BLDG_SQFT          building area
+//   LATITUDE / LONGITUDE       parcel centroid
+//   AVG_RATIO                  municipal assessment ratio in percent
+
+export const NJ_MODIV_SOURCE = "nj_modiv";
+const SOURCE_TAGS = ["NJ MOD-IV"];
+const BATCH_SIZE = 2000;
+
+// SR1A non-usable deed codes mark transfers that aren't market sales; a
+// blank code is a usable, arms-length sale. Nominal $1 / $100 deeds are
+// excluded regardless of code.
+const MIN_MARKET_SALE_PRICE = 10000;
+
+const MUNICIPALITY_SUFFIXES = /\s+(TWP|TOWNSHIP|BORO|BOROUGH|TOWN|VILLAGE)$/i;
+
+function propertyTypeFor(row: SourceRow): string | null {
+  const propClass = (pick(row, "PROP_CLASS") || "").toUpperCase();
+  if (propClass === "4C") return "Multi-family 5+";
+  if (propClass !== "2") return null;
+
+  const qualifier = (pick(row, "QUALIFIER", "QUAL") || "").toUpperCase();
+  if (qualifier.startsWith("C")) return "Condo";
+  const dwellings = parseNumber(pick(row, "DWELL")) ?? 1;
+  return dwellings >= 2 ? "Multi-family 2-4" : "SFH";
+}
+
+function propertyZip(row: SourceRow, municipality: string): string | null {
+  const zip = pick(row, "ZIP5", "PROP_ZIP", "PROPERTY_ZIP");
+  if (zip) return zip.slice(0, 5);
+
+  // The owner's mailing ZIP is only trusted when the owner lives in the
+  // same municipality as the parcel
+  const ownerCity = (pick(row, "CITY_STATE") || "").toUpperCase();
+  const mailingZip = pick(row, "ZIP_CODE");
+  if (mailingZip && ownerCity.startsWith(municipality.toUpperCase())) return mailingZip.slice(0, 5);
+  return null;
+}
+
+function toParcel(row: SourceRow): { parcel: SourceParcel; sale: Omit<SourceSale, "propertyId"> | null } | { skipped: string } {
+  const propertyType = propertyTypeFor(row);
+  if (!propertyType) return { skipped: "non_residential" };
+
+  const location = pick(row, "PROP_LOC");
+  const municipalityRaw = pick(row, "MUN_NAME");
+  if (!location || !municipalityRaw) return { skipped: "no_location" };
+
+  const city = titleCase(municipalityRaw.replace(MUNICIPALITY_SUFFIXES, ""));
+  const zipCode = propertyZip(row, city);
+  if (!zipCode) return { skipped: "no_zip" };
+
+  const qualifier = pick(row, "QUALIFIER", "QUAL");
+  const address = propertyType === "Condo" && qualifier
+    ? `${titleCase(location)} Unit ${qualifier.replace(/^C/i, "")}`
+    : titleCase(location);
+
+  const block = pick(row, "BLOCK");
+  const lot = pick(row, "LOT");
+  const sourceRecordId = pick(row, "PAMS_PIN") ||
+    [pick(row, "PCL_MUN", "MUN_CODE"), block, lot, qualifier].filter(Boolean).join("_");
+
+  const assessed = parseNumber(pick(row, "NET_VALUE")) ??
+    ((parseNumber(pick(row, "LAND_VAL")) ?? 0) + (parseNumber(pick(row, "IMPRVT_VAL")) ?? 0));
+  const ratioPct = parseNumber(pick(row, "AVG_RATIO", "RATIO"));
+  const estimatedValue = assessed > 0
+    ? Math.round(ratioPct && ratioPct > 0 ? assessed / (ratioPct / 100) : assessed)
+    : null;
+
+  const sqft = parseNumber(pick(row, "SQ_FT", "BLDG_SQFT", "LIVING_AREA"));
+  const yearBuilt = parseNumber(pick(row, "YR_CONSTR"));
+  const acres = parseNumber(pick(row, "CALC_ACRE"));
+  const lat = parseNumber(pick(row, "LATITUDE", "LAT"));
+  const lng = parseNumber(pick(row, "LONGITUDE", "LON", "LNG"));
+  const grid = lat && lng ? gridCoords(lat, lng) : null;
+
+  const salePrice = parseNumber(pick(row, "SALE_PRICE"));
+  const saleDate = parseSourceDate(pick(row, "DEED_DATE", "SALE_DATE"));
+  const salesCode = pick(row, "SALES_CODE", "NU_CODE");
+  const hasSale = !!salePrice && salePrice > 0 && !!saleDate;
+  const armsLength = hasSale && !salesCode && salePrice! >= MIN_MARKET_SALE_PRICE;
+
+  const property: InsertProperty = {
+    address,
+    city,
+    state: "NJ",
+    zipCode,
+    county: pick(row, "COUNTY") ? titleCase(pick(row, "COUNTY")!) : null,
+    neighborhood: city,
+    bbl: null,
+    latitude: lat,
+    longitude: lng,
+    gridLat: grid?.gridLat ?? null,
+    gridLng: grid?.gridLng ?? null,
+    propertyType,
+    sqft: sqft ? Math.round(sqft) : null,
+    lotSize: acres ? Math.round(acres * 43560) : null,
+    yearBuilt: yearBuilt && yearBuilt > 1700 ? Math.round(yearBuilt) : null,
+    lastSalePrice: armsLength ? Math.round(salePrice!) : null,
+    lastSaleDate: armsLength ? saleDate : null,
+    estimatedValue,
+    pricePerSqft: estimatedValue && sqft ? Math.round(estimatedValue / sqft) : null,
+    dataSources: SOURCE_TAGS,
+  };
+
+  return {
+    parcel: { sourceRecordId, property },
+    sale: hasSale
+      ? {
+          salePrice: Math.round(salePrice!),
+          saleDate: saleDate!,
+          armsLength,
+          deedType: salesCode ? `NU ${salesCode}` : null,
+          rawAddress: address,
+          matchMethod: "parcel_id",
+        }
+      : null,
+  };
+}
+
+/**
+ * Imports a MOD-IV CSV extract into properties and sales. Returns the number
+ * of parcels imported (inserted or updated).
+ */
+export async function importNJModIV(filePath: string | undefined = process.env.NJ_MODIV_FILE): Promise<number> {
+  console.log("\n=== NJ MOD-IV Import ===\n");
+  if (!filePath) {
+    console.log("  NJ_MODIV_FILE is not set, skipping NJ import");
+    return 0;
+  }
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`NJ MOD-IV file not found: ${filePath}`);
+  }
+
+  const resolver = new ParcelResolver(NJ_MODIV_SOURCE, "NJ");
+  await resolver.load();
+
+  const skipped: Record<string, number> = {};
+  let imported = 0;
+  let salesInserted = 0;
+
+  const rows = await readCsvBatches(filePath, BATCH_SIZE, async (batch) => {
+    const parcels: SourceParcel[] = [];
+    const parcelSales = new Map<string, Omit<SourceSale, "propertyId">>();
+
+    for (const row of batch) {
+      const result = toParcel(row);
+      if ("skipped" in result) {
+        skipped[result.skipped] = (skipped[result.skipped] || 0) + 1;
+        continue;
+      }
+      parcels.push(result.parcel);
+      if (result.sale) parcelSales.set(result.parcel.sourceRecordId, result.sale);
+    }
+
+    const resolved = await resolver.upsert(parcels);
+    imported += parcels.length;
+
+    const saleRows: SourceSale[] = [];
+    for (const [sourceRecordId, sale] of Array.from(parcelSales.entries())) {
+      const propertyId = resolved.get(sourceRecordId);
+      if (propertyId) saleRows.push({ ...sale, propertyId });
+    }
+    salesInserted += await insertSourceSales(saleRows);
+
+    if (imported % 20000 < parcels.length) {
+      console.log(`  Processed ${imported.toLocaleString()} parcels...`);
+    }
+  });
+
+  await refreshLastSales("NJ");
+
+  console.log(`  Read ${rows.toLocaleString()} rows: ${resolver.inserted} new properties, ${resolver.updated} updated, ${salesInserted} sales`);
+  for (const [reason, count] of Object.entries(skipped)) {
+    console.log(`    skipped ${reason}: ${count}`);
+  }
+  return imported;
+}
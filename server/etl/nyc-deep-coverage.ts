@@ -11,15 +11,18 @@ import {
   properties,
 } from "@shared/schema";
 import { sql, eq, and, or, gte, lte } from "drizzle-orm";
-
-const NYC_OPENDATA_BASE = "https://data.cityofnewyork.us/resource";
+import {
+  syncSocrataSource,
+  dobPermitsSource,
+  hpdViolationsSource,
+  dobComplaintsSource,
+  complaints311Source,
+} from "./socrata-sync";
+import { runEtlPipeline, runEtlPipelineFromCli, type EtlPipeline, type EtlRunOptions } from "../services/etlRunner";
+import { assignFloodRisk } from "../services/floodRisk";
+import { computeDistressSignals } from "../services/distressSignals";
 
 const NYC_DATASETS = {
-  dobPermits: `${NYC_OPENDATA_BASE}/rbx6-tga4.json`,
-  hpdViolations: `${NYC_OPENDATA_BASE}/wvxf-dwi5.json`,
-  hpdBuildings: `${NYC_OPENDATA_BASE}/tesw-yqqr.json`,
-  dobComplaints: `${NYC_OPENDATA_BASE}/eabe-havv.json`,
-  complaints311: `${NYC_OPENDATA_BASE}/erm2-nwe9.json`,
   subwayStations: `https://data.ny.gov/resource/39hk-dx4f.json`,
 };
 
@@ -56,278 +59,6 @@ async function fetchWithRetry(url: string, retries = 3): Promise<any[]> {
   return [];
 }
 
-async function importDobPermits() {
-  console.log("\n=== Importing DOB Permits ===");
-
-  const oneYearAgo = new Date();
-  oneYearAgo.setFullYear(oneYearAgo.getFullYear() - 1);
-  const dateFilter = oneYearAgo.toISOString().split("T")[0];
-
-  let offset = 0;
-  const limit = 5000;
-  let totalImported = 0;
-  const maxRecords = 50000;
-
-  while (totalImported < maxRecords) {
-    const url = `${NYC_DATASETS.dobPermits}?$where=issued_date>='${dateFilter}'&$limit=${limit}&$offset=${offset}&$order=issued_date DESC`;
-
-    try {
-      const records = await fetchWithRetry(url);
-      if (!records || records.length === 0) break;
-
-      const permitBatch = records
-        .filter((r: any) => r.job_filing_number)
-        .map((r: any, idx: number) => ({
-          id: `permit-${r.job_filing_number}-${r.work_type || "NA"}-${offset + idx}`,
-          jobNumber: r.job_filing_number || "",
-          bbl: r.bbl || null,
-          bin: r.bin || null,
-          borough: BOROUGH_MAP[r.borough?.toUpperCase()] || r.borough || null,
-          block: r.block || null,
-          lot: r.lot || null,
-          houseNumber: r.house_no || null,
-          streetName: r.street_name || null,
-          zipCode: r.zip_code || null,
-          jobType: r.filing_reason || null,
-          jobDescription: r.job_description?.substring(0, 500) || null,
-          workType: r.work_type || null,
-          permitStatus: r.permit_status || null,
-          filingDate: r.approved_date ? new Date(r.approved_date) : null,
-          issuanceDate: r.issued_date ? new Date(r.issued_date) : null,
-          expirationDate: r.expired_date ? new Date(r.expired_date) : null,
-          estimatedCost: r.estimated_job_costs ? parseInt(r.estimated_job_costs) : null,
-          ownerName: r.owner_business_name || r.owner_name || null,
-          applicantName: r.applicant_business_name || `${r.applicant_first_name || ''} ${r.applicant_last_name || ''}`.trim() || null,
-          rawData: r,
-        }));
-
-      if (permitBatch.length > 0) {
-        await db.insert(dobPermitsRaw).values(permitBatch).onConflictDoNothing();
-        totalImported += permitBatch.length;
-        console.log(`Imported ${permitBatch.length} permits (total: ${totalImported})`);
-      }
-
-      if (records.length < limit) break;
-      offset += limit;
-    } catch (error) {
-      console.error("Error importing permits:", error);
-      break;
-    }
-  }
-
-  console.log(`DOB Permits import complete: ${totalImported} records`);
-  return totalImported;
-}
-
-async function importHpdViolations() {
-  console.log("\n=== Importing HPD Violations ===");
-
-  const sixMonthsAgo = new Date();
-  sixMonthsAgo.setMonth(sixMonthsAgo.getMonth() - 6);
-  const dateFilter = sixMonthsAgo.toISOString().split("T")[0];
-
-  let offset = 0;
-  const limit = 5000;
-  let totalImported = 0;
-  const maxRecords = 50000;
-
-  const violationsByBuilding = new Map<string, { total: number; open: number; bbl: string | null; data: any }>();
-
-  while (totalImported < maxRecords) {
-    const url = `${NYC_DATASETS.hpdViolations}?$where=inspectiondate>='${dateFilter}'&$limit=${limit}&$offset=${offset}&$order=inspectiondate DESC`;
-
-    try {
-      const records = await fetchWithRetry(url);
-      if (!records || records.length === 0) break;
-
-      for (const r of records) {
-        const buildingId = r.buildingid;
-        if (!buildingId) continue;
-
-        const existing = violationsByBuilding.get(buildingId) || {
-          total: 0,
-          open: 0,
-          bbl: r.bbl || null,
-          data: r,
-        };
-        existing.total++;
-        if (r.violationstatus === "Open" || r.currentstatus === "VIOLATION OPEN") {
-          existing.open++;
-        }
-        violationsByBuilding.set(buildingId, existing);
-      }
-
-      totalImported += records.length;
-      console.log(`Processed ${records.length} violations (total: ${totalImported})`);
-
-      if (records.length < limit) break;
-      offset += limit;
-    } catch (error) {
-      console.error("Error importing HPD violations:", error);
-      break;
-    }
-  }
-
-  let buildingsUpserted = 0;
-  for (const [buildingId, info] of violationsByBuilding) {
-    const r = info.data;
-    await db.insert(hpdRaw).values({
-      id: `hpd-${buildingId}`,
-      buildingId: buildingId,
-      bbl: info.bbl,
-      boroId: r.boroid || null,
-      borough: BOROUGH_MAP[r.boro?.toUpperCase()] || r.boro || null,
-      block: r.block || null,
-      lot: r.lot || null,
-      houseNumber: r.housenumber || null,
-      streetName: r.streetname || null,
-      zipCode: r.zip || null,
-      totalViolations: info.total,
-      openViolations: info.open,
-      rawData: { violationSample: r, importType: "violations" },
-    }).onConflictDoNothing();
-    buildingsUpserted++;
-  }
-
-  console.log(`HPD Violations import complete: ${totalImported} violations for ${buildingsUpserted} buildings`);
-  return totalImported;
-}
-
-async function importDobComplaints() {
-  console.log("\n=== Importing DOB Complaints ===");
-
-  const oneYearAgo = new Date();
-  oneYearAgo.setFullYear(oneYearAgo.getFullYear() - 1);
-  const dateFilter = oneYearAgo.toISOString().split("T")[0];
-
-  let offset = 0;
-  const limit = 5000;
-  let totalImported = 0;
-  const maxRecords = 50000;
-
-  while (totalImported < maxRecords) {
-    const url = `${NYC_DATASETS.dobComplaints}?$where=date_entered>='${dateFilter}'&$limit=${limit}&$offset=${offset}&$order=date_entered DESC`;
-
-    try {
-      const records = await fetchWithRetry(url);
-      if (!records || records.length === 0) break;
-
-      const complaintBatch = records
-        .filter((r: any) => r.complaint_number)
-        .map((r: any, idx: number) => ({
-          id: `dob-complaint-${r.complaint_number}-${offset + idx}`,
-          complaintNumber: r.complaint_number,
-          bbl: r.bbl || null,
-          bin: r.bin || null,
-          borough: BOROUGH_MAP[r.borough] || r.borough || null,
-          block: r.block || null,
-          lot: r.lot || null,
-          houseNumber: r.house_number || null,
-          streetName: r.house_street || null,
-          zipCode: r.zip_code || null,
-          complaintCategory: r.complaint_category || null,
-          complaintCategoryDescription: r.complaint_category_description || null,
-          unitOrApartment: r.unit || null,
-          status: r.status || null,
-          dispositionCode: r.disposition_code || null,
-          dispositionDate: r.disposition_date ? new Date(r.disposition_date) : null,
-          dateEntered: r.date_entered ? new Date(r.date_entered) : null,
-          inspectionDate: r.inspection_date ? new Date(r.inspection_date) : null,
-          dobRunDate: r.dob_run_date ? new Date(r.dob_run_date) : null,
-          rawData: r,
-        }));
-
-      if (complaintBatch.length > 0) {
-        await db.insert(dobComplaintsRaw).values(complaintBatch).onConflictDoNothing();
-        totalImported += complaintBatch.length;
-        console.log(`Imported ${complaintBatch.length} DOB complaints (total: ${totalImported})`);
-      }
-
-      if (records.length < limit) break;
-      offset += limit;
-    } catch (error) {
-      console.error("Error importing DOB complaints:", error);
-      break;
-    }
-  }
-
-  console.log(`DOB Complaints import complete: ${totalImported} records`);
-  return totalImported;
-}
-
-async function import311Complaints() {
-  console.log("\n=== Importing 311 Complaints ===");
-
-  const sixMonthsAgo = new Date();
-  sixMonthsAgo.setMonth(sixMonthsAgo.getMonth() - 6);
-  const dateFilter = sixMonthsAgo.toISOString().split("T")[0];
-
-  const housingTypes = [
-    "HEAT/HOT WATER",
-    "PLUMBING",
-    "WATER LEAK",
-    "ELECTRIC",
-    "ELEVATOR",
-    "Noise - Residential",
-    "UNSANITARY CONDITION",
-    "Rodent",
-  ];
-
-  let offset = 0;
-  const limit = 5000;
-  let totalImported = 0;
-  const maxRecords = 50000;
-
-  while (totalImported < maxRecords) {
-    const typeFilter = housingTypes.map((t) => `'${t}'`).join(",");
-    const url = `${NYC_DATASETS.complaints311}?$where=created_date>='${dateFilter}' AND complaint_type IN (${typeFilter})&$limit=${limit}&$offset=${offset}&$order=created_date DESC`;
-
-    try {
-      const records = await fetchWithRetry(url);
-      if (!records || records.length === 0) break;
-
-      const complaintBatch = records
-        .filter((r: any) => r.unique_key)
-        .map((r: any, idx: number) => ({
-          id: `311-${r.unique_key}-${offset + idx}`,
-          uniqueKey: r.unique_key,
-          bbl: r.bbl || null,
-          latitude: r.latitude ? parseFloat(r.latitude) : null,
-          longitude: r.longitude ? parseFloat(r.longitude) : null,
-          address: r.incident_address || null,
-          city: r.city || null,
-          borough: BOROUGH_MAP[r.borough?.toUpperCase()] || r.borough || null,
-          zipCode: r.incident_zip || null,
-          complaintType: r.complaint_type || null,
-          descriptor: r.descriptor || null,
-          locationType: r.location_type || null,
-          status: r.status || null,
-          resolutionDescription: r.resolution_description?.substring(0, 500) || null,
-          createdDate: r.created_date ? new Date(r.created_date) : null,
-          closedDate: r.closed_date ? new Date(r.closed_date) : null,
-          agency: r.agency || null,
-          agencyName: r.agency_name || null,
-          rawData: r,
-        }));
-
-      if (complaintBatch.length > 0) {
-        await db.insert(complaints311Raw).values(complaintBatch).onConflictDoNothing();
-        totalImported += complaintBatch.length;
-        console.log(`Imported ${complaintBatch.length} 311 complaints (total: ${totalImported})`);
-      }
-
-      if (records.length < limit) break;
-      offset += limit;
-    } catch (error) {
-      console.error("Error importing 311 complaints:", error);
-      break;
-    }
-  }
-
-  console.log(`311 Complaints import complete: ${totalImported} records`);
-  return totalImported;
-}
-
 async function importSubwayStations() {
   console.log("\n=== Importing Subway Stations ===");
 
@@ -708,50 +439,30 @@ async function computePropertySignals() {
   return processed;
 }
 
-export async function runFullNycDeepCoverageImport() {
+export const nycDeepCoveragePipeline: EtlPipeline = {
+  name: "nyc_deep_coverage",
+  steps: [
+    { name: "import_subway_stations", run: importSubwayStations },
+    { name: "import_flood_zones", run: importFloodZones },
+    { name: "import_amenities", run: importAmenities },
+    { name: "import_dob_permits", run: () => syncSocrataSource(dobPermitsSource) },
+    { name: "import_hpd_violations", run: () => syncSocrataSource(hpdViolationsSource) },
+    { name: "import_dob_complaints", run: () => syncSocrataSource(dobComplaintsSource) },
+    { name: "import_311_complaints", run: () => syncSocrataSource(complaints311Source) },
+    { name: "compute_property_signals", run: computePropertySignals },
+    { name: "assign_flood_risk", run: () => assignFloodRisk() },
+    { name: "compute_distress_signals", run: () => computeDistressSignals() },
+  ],
+};
+
+export async function runFullNycDeepCoverageImport(options: EtlRunOptions = {}) {
   console.log("Starting NYC Deep Coverage Data Import...\n");
-  const startTime = Date.now();
-
-  const results = {
-    subwayStations: 0,
-    floodZones: 0,
-    amenities: 0,
-    dobPermits: 0,
-    hpdViolations: 0,
-    dobComplaints: 0,
-    complaints311: 0,
-    propertySignals: 0,
-  };
-
-  results.subwayStations = await importSubwayStations();
-  results.floodZones = await importFloodZones();
-  results.amenities = await importAmenities();
-
-  results.dobPermits = await importDobPermits();
-  results.hpdViolations = await importHpdViolations();
-  results.dobComplaints = await importDobComplaints();
-  results.complaints311 = await import311Complaints();
-
-  results.propertySignals = await computePropertySignals();
-
-  const duration = ((Date.now() - startTime) / 1000 / 60).toFixed(2);
-  console.log(`\n=== NYC Deep Coverage Import Complete ===`);
-  console.log(`Duration: ${duration} minutes`);
-  console.log(`Results:`, results);
-
-  return results;
+  return runEtlPipeline(nycDeepCoveragePipeline, options);
 }
 
 const isMainModule = import.meta.url === `file://${process.argv[1]}`;
 
 if (isMainModule) {
-  runFullNycDeepCoverageImport()
-    .then((results) => {
-      console.log("Import completed successfully:", results);
-      process.exit(0);
-    })
-    .catch((error) => {
-      console.error("Import failed:", error);
-      process.exit(1);
-    });
+  console.log("Starting NYC Deep Coverage Data Import...\n");
+  runEtlPipelineFromCli(nycDeepCoveragePipeline);
 }
@@ -1,6 +1,9 @@
 import { db } from "../db";
-import { properties, sales, dataSources, comps } from "@shared/schema";
+import { properties, sales, dataSources } from "@shared/schema";
 import { sql, eq } from "drizzle-orm";
+import { buildComparables } from "../services/compsEngine";
+import { computeOpportunityScores } from "../services/opportunityScore";
+import { gridCoords } from "./assessor-files";
 
 const NYC_OPENDATA_URLS = {
   pluto: "https://data.cityofnewyork.us/resource/64uk-42ks.json",
@@ -120,28 +123,6 @@ interface PropertySaleRecord {
   sale_date: string;
 }
 
-function calculateOpportunityScore(
-  salePrice: number,
-  estimatedValue: number,
-  yearBuilt: number,
-  sqft: number
-): { score: number; confidence: string } {
-  if (!salePrice || !estimatedValue || salePrice <= 0 || estimatedValue <= 0) {
-    return { score: 50, confidence: "Low" };
-  }
-
-  const mispricing = Math.min(100, Math.max(0, ((estimatedValue - salePrice) / estimatedValue) * 100 + 50)) * 0.4;
-  const yearFactor = Math.min(100, Math.max(0, (yearBuilt - 1900) / 1.2)) * 0.15;
-  const sizeFactor = Math.min(100, sqft / 30) * 0.15;
-  const liquidity = 70 * 0.15;
-  const riskFactor = 75 * 0.15;
-
-  const score = Math.round(mispricing + yearFactor + sizeFactor + liquidity + riskFactor);
-  const confidence = score > 70 ? "High" : score > 50 ? "Medium" : "Low";
-
-  return { score: Math.min(100, Math.max(0, score)), confidence };
-}
-
 export async function downloadNYCPlutoData(limit: number = 5000): Promise<PlutoRecord[]> {
   console.log(`Downloading NYC PLUTO data (limit: ${limit})...`);
 
@@ -294,6 +275,8 @@ export async function importNYCProperties(
     const beds = units <= 1 ? 3 : (units <= 4 ? units + 1 : null);
     const baths = units <= 1 ? 2 : (units <= 4 ? units : null);
     const lotSize = parseInt(record.lotarea) || null;
+    const latitude = parseFloat(record.latitude) || null;
+    const longitude = parseFloat(record.longitude) || null;
 
     const assessedValue = parseInt(record.assesstot) || 0;
     const estimatedValue = assessedValue > 0 
@@ -322,13 +305,6 @@ export async function importNYCProperties(
       ? Math.round(lastSalePrice / sqft) 
       : Math.round(estimatedValue / sqft);
 
-    const { score, confidence } = calculateOpportunityScore(
-      lastSalePrice && lastSalePrice > 0 ? lastSalePrice : estimatedValue,
-      estimatedValue,
-      yearBuilt,
-      sqft
-    );
-
     // Extract apartment/unit number from sale data if available
     // Normalize: trim whitespace and set to null if empty
     const rawUnit = latestSale?.apartment_number?.trim();
@@ -343,8 +319,9 @@ export async function importNYCProperties(
         zipCode: record.zipcode,
         county,
         neighborhood: record.cd ? `CD ${record.cd}` : borough,
-        latitude: parseFloat(record.latitude) || null,
-        longitude: parseFloat(record.longitude) || null,
+        latitude,
+        longitude,
+        ...(latitude && longitude ? gridCoords(latitude, longitude) : {}),
         propertyType,
         beds,
         baths,
@@ -355,8 +332,6 @@ export async function importNYCProperties(
         lastSaleDate,
         estimatedValue: Math.round(estimatedValue),
         pricePerSqft,
-        opportunityScore: score,
-        confidenceLevel: confidence,
       }).returning({ id: properties.id, zipCode: properties.zipCode, pricePerSqft: properties.pricePerSqft });
 
       insertedPropertyIds.push({ 
@@ -387,6 +362,7 @@ export async function importNYCProperties(
   console.log(`Sales matching: ${bblMatchCount} BBL matches, ${addrMatchCount} address matches`);
   console.log(`Creating comparable relationships...`);
   await createComparables(insertedPropertyIds);
+  await computeOpportunityScores({ propertyIds: insertedPropertyIds.map((p) => p.id) });
 
   console.log(`Imported ${propertiesCount} properties and ${salesCount} sales`);
   return { propertiesCount, salesCount };
@@ -395,39 +371,7 @@ export async function importNYCProperties(
 async function createComparables(
   propertyData: { id: string; zipCode: string; pricePerSqft: number }[]
 ): Promise<number> {
-  const propertiesByZip: Record<string, typeof propertyData> = {};
-  for (const prop of propertyData) {
-    if (!propertiesByZip[prop.zipCode]) {
-      propertiesByZip[prop.zipCode] = [];
-    }
-    propertiesByZip[prop.zipCode].push(prop);
-  }
-
-  let compsCount = 0;
-  for (const prop of propertyData) {
-    const sameZipProps = propertiesByZip[prop.zipCode]?.filter(p => p.id !== prop.id) || [];
-    const numComps = Math.min(sameZipProps.length, 5);
-    const selectedComps = sameZipProps
-      .sort(() => Math.random() - 0.5)
-      .slice(0, numComps);
-
-    for (const compProp of selectedComps) {
-      const similarityScore = 0.7 + Math.random() * 0.25;
-      await db.insert(comps).values({
-        subjectPropertyId: prop.id,
-        compPropertyId: compProp.id,
-        similarityScore,
-        sqftAdjustment: -0.1 + Math.random() * 0.2,
-        ageAdjustment: -0.05 + Math.random() * 0.1,
-        bedsAdjustment: -0.05 + Math.random() * 0.1,
-        adjustedPrice: Math.round(compProp.pricePerSqft * 1500 * (1 + (Math.random() - 0.5) * 0.1)),
-      });
-      compsCount++;
-    }
-  }
-
-  console.log(`Created ${compsCount} comparable relationships`);
-  return compsCount;
+  return buildComparables({ subjectIds: propertyData.map(p => p.id) });
 }
 
 export async function createNYCDataSources(): Promise<void> {
@@ -0,0 +1,786 @@
+import fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import { db } from "../db";
+import {
+  dobPermitsRaw,
+  dobComplaintsRaw,
+  complaints311Raw,
+  hpdRaw,
+  hpdContactsRaw,
+  hpdViolationsRaw,
+  acrisRaw,
+  taxLienSaleListsRaw,
+  sourceWatermarks,
+  type SourceWatermark,
+} from "@shared/schema";
+import { sql, eq, lt, and, getTableColumns, type SQL } from "drizzle-orm";
+import type { PgColumn, PgInsertValue, PgTable } from "drizzle-orm/pg-core";
+
+// Incremental ingestion for Socrata-backed NYC Open Data feeds.
+//
+// Each source keeps a high-water mark in source_watermarks (by default the
+// Socrata system field :updated_at, plus the :id of the last record at that
+// value). A sync pages forward from the mark in (:updated_at, :id) order and
+// upserts every record by its source record id, so new and changed records
+// are picked up and nothing is downloaded twice. The first sync of a source
+// backfills its full history; once the backfill catches up, rows it didn't
+// touch (left by the old fixed-window imports) are pruned. Changing a
+// source's where filter restarts its backfill, since records the new filter
+// admits may sit anywhere behind the mark.
+//
+// Pages can be recorded to and replayed from fixture files:
+//   SOCRATA_FIXTURES=record|replay
+//   SOCRATA_FIXTURE_DIR              default: fixtures/socrata
+// scripts/check-socrata-sync.ts replays the pages committed there.
+// Other settings:
+//   SOCRATA_APP_TOKEN                sent as X-App-Token to avoid throttling
+//   SOCRATA_MAX_RECORDS_PER_SYNC     cap per sync; the next sync continues
+
+const NYC_OPENDATA_BASE = "https://data.cityofnewyork.us/resource";
+const DEFAULT_WATERMARK_FIELD = ":updated_at";
+const DEFAULT_PAGE_SIZE = 10000;
+const UPSERT_BATCH_SIZE = 500;
+
+const BOROUGH_MAP: Record<string, string> = {
+  "1": "Manhattan",
+  "2": "Bronx",
+  "3": "Brooklyn",
+  "4": "Queens",
+  "5": "Staten Island",
+  MANHATTAN: "Manhattan",
+  BRONX: "Bronx",
+  BROOKLYN: "Brooklyn",
+  QUEENS: "Queens",
+  "STATEN ISLAND": "Staten Island",
+};
+
+const HOUSING_311_TYPES = [
+  "HEAT/HOT WATER",
+  "PLUMBING",
+  "WATER LEAK",
+  "ELECTRIC",
+  "ELEVATOR",
+  "Noise - Residential",
+  "UNSANITARY CONDITION",
+  "Rodent",
+];
+
+// Deeds, mortgages (and consolidations), assignments, agreements and
+// satisfactions of mortgage
+const ACRIS_DOC_TYPES = ["DEED", "DEEDO", "MTGE", "M&CON", "ASST", "AGMT", "SAT"];
+
+// ACRIS party_type codes: party 1 conveys (seller, borrower, assignor),
+// party 2 receives (buyer, lender, assignee)
+const ACRIS_PARTY_TYPES: Record<string, string> = {
+  "1": "grantor",
+  "2": "grantee",
+};
+
+export type SocrataRecord = Record<string, any>;
+export type SocrataFetcher = (url: string, source: string) => Promise<SocrataRecord[]>;
+
+export interface SocrataSource {
+  name: string;
+  datasetUrl: string;
+  watermarkField?: string;
+  // SoQL filter applied on every page
+  where?: string;
+  pageSize?: number;
+  // Upserts one page by source record id
+  upsert(records: SocrataRecord[]): Promise<{ written: number; rejected: number }>;
+  // Removes rows the completed backfill didn't write
+  pruneStale?(before: Date): Promise<number>;
+  // Runs after every sync, e.g. to roll records up
+  afterSync?(): Promise<void>;
+}
+
+export interface SocrataSyncOptions {
+  fetcher?: SocrataFetcher;
+  maxRecords?: number;
+}
+
+export interface SocrataSyncResult {
+  rowsRead: number;
+  rowsWritten: number;
+  rowsRejected: number;
+  metadata: {
+    source: string;
+    pages: number;
+    highWaterMark: string | null;
+    caughtUp: boolean;
+    backfill: boolean;
+    pruned: number;
+  };
+}
+
+interface Watermark {
+  highWaterMark: string | null;
+  lastRecordId: string | null;
+}
+
+// ============================================
+// FETCHING
+// ============================================
+
+function soqlString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * URL of the next page after `mark`, in (watermark, :id) order. Keyset
+ * paging instead of $offset keeps pages stable while the dataset changes.
+ */
+export function buildPageUrl(source: SocrataSource, mark: Watermark | null, limit: number): string {
+  const field = source.watermarkField || DEFAULT_WATERMARK_FIELD;
+  const conditions: string[] = [];
+  if (source.where) conditions.push(`(${source.where})`);
+  if (!field.startsWith(":")) conditions.push(`${field} IS NOT NULL`);
+  if (mark?.highWaterMark) {
+    const hw = soqlString(mark.highWaterMark);
+    conditions.push(
+      mark.lastRecordId
+        ? `(${field} > ${hw} OR (${field} = ${hw} AND :id > ${soqlString(mark.lastRecordId)}))`
+        : `${field} > ${hw}`
+    );
+  }
+
+  const params = new URLSearchParams({
+    $select: ":*, *",
+    $order: `${field}, :id`,
+    $limit: String(limit),
+  });
+  if (conditions.length > 0) params.set("$where", conditions.join(" AND "));
+  return `${source.datasetUrl}?${params.toString()}`;
+}
+
+// The mark after a page: the watermark and :id of its last record
+export function nextWatermark(source: SocrataSource, records: SocrataRecord[], previous: Watermark | null): Watermark | null {
+  const last = records[records.length - 1];
+  const field = source.watermarkField || DEFAULT_WATERMARK_FIELD;
+  if (!last || last[field] === undefined || last[field] === null) return previous;
+  return { highWaterMark: String(last[field]), lastRecordId: last[":id"] ?? null };
+}
+
+export async function fetchSocrataPage(url: string, _source?: string, retries = 3): Promise<SocrataRecord[]> {
+  const headers: Record<string, string> = { Accept: "application/json" };
+  if (process.env.SOCRATA_APP_TOKEN) headers["X-App-Token"] = process.env.SOCRATA_APP_TOKEN;
+
+  for (let i = 0; i < retries; i++) {
+    try {
+      const response = await fetch(url, { headers });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+      const data = await response.json();
+      if (!Array.isArray(data)) throw new Error("Unexpected Socrata response");
+      return data;
+    } catch (error) {
+      console.error(`  Attempt ${i + 1} failed:`, error);
+      if (i === retries - 1) throw error;
+      await new Promise((r) => setTimeout(r, 2000 * (i + 1)));
+    }
+  }
+  return [];
+}
+
+function fixturePath(dir: string, source: string, url: string): string {
+  const key = createHash("sha1").update(url).digest("hex").slice(0, 16);
+  return path.join(dir, source, `${key}.json`);
+}
+
+/**
+ * Fetcher backed by recorded pages. In "record" mode pages are fetched live
+ * and written to `dir`; in "replay" mode they are read back, keyed by URL, and
+ * a page that was never recorded is an error.
+ */
+export function createFixtureFetcher(
+  dir: string,
+  mode: "record" | "replay",
+  live: SocrataFetcher = fetchSocrataPage
+): SocrataFetcher {
+  return async (url, source) => {
+    const file = fixturePath(dir, source, url);
+    if (mode === "replay") {
+      if (!fs.existsSync(file)) {
+        throw new Error(`No recorded ${source} page for ${url} (expected ${file})`);
+      }
+      const fixture = JSON.parse(fs.readFileSync(file, "utf8")) as { url: string; records: SocrataRecord[] };
+      return fixture.records;
+    }
+
+    const records = await live(url, source);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify({ url, records }, null, 2));
+    return records;
+  };
+}
+
+function defaultFetcher(): SocrataFetcher {
+  const mode = process.env.SOCRATA_FIXTURES;
+  if (mode === "record" || mode === "replay") {
+    return createFixtureFetcher(process.env.SOCRATA_FIXTURE_DIR || "fixtures/socrata", mode);
+  }
+  return fetchSocrataPage;
+}
+
+// ============================================
+// WATERMARKS
+// ============================================
+
+async function loadWatermark(source: SocrataSource): Promise<SourceWatermark | undefined> {
+  const [row] = await db.select().from(sourceWatermarks).where(eq(sourceWatermarks.source, source.name));
+  return row;
+}
+
+async function saveWatermark(source: SocrataSource, data: Partial<typeof sourceWatermarks.$inferInsert>): Promise<void> {
+  await db
+    .insert(sourceWatermarks)
+    .values({
+      source: source.name,
+      watermarkField: source.watermarkField || DEFAULT_WATERMARK_FIELD,
+      filter: source.where ?? null,
+      ...data,
+      updatedAt: new Date(),
+    })
+    .onConflictDoUpdate({
+      target: sourceWatermarks.source,
+      set: { ...data, updatedAt: new Date() },
+    });
+}
+
+// Forgets a source's mark so its next sync backfills from scratch
+export async function resetSocrataWatermark(sourceName: string): Promise<void> {
+  await db.delete(sourceWatermarks).where(eq(sourceWatermarks.source, sourceName));
+}
+
+export async function getSocrataWatermarks(): Promise<SourceWatermark[]> {
+  return await db.select().from(sourceWatermarks);
+}
+
+// ============================================
+// SYNC
+// ============================================
+
+/**
+ * Pulls everything new or changed since the source's high-water mark and
+ * upserts it. The mark is saved after every page, so an interrupted sync
+ * continues where it stopped.
+ */
+export async function syncSocrataSource(
+  source: SocrataSource,
+  options: SocrataSyncOptions = {}
+): Promise<SocrataSyncResult> {
+  const fetcher = options.fetcher || defaultFetcher();
+  const maxRecords = options.maxRecords ?? (parseInt(process.env.SOCRATA_MAX_RECORDS_PER_SYNC || "", 10) || Infinity);
+  const pageSize = source.pageSize || DEFAULT_PAGE_SIZE;
+
+  let stored = await loadWatermark(source);
+  if (stored && (stored.filter ?? null) !== (source.where ?? null)) {
+    console.log(`${source.name}: filter changed since the last sync, restarting the backfill`);
+    await resetSocrataWatermark(source.name);
+    stored = undefined;
+  }
+  const backfill = !stored?.backfillComplete;
+  const backfillStartedAt = stored?.backfillStartedAt ?? new Date();
+  if (!stored) {
+    await saveWatermark(source, { backfillStartedAt });
+  }
+  console.log(
+    `\n=== Syncing ${source.name} ${stored?.highWaterMark ? `since ${stored.highWaterMark}` : "(full backfill)"} ===`
+  );
+
+  let mark: Watermark | null = stored ? { highWaterMark: stored.highWaterMark, lastRecordId: stored.lastRecordId } : null;
+  let rowsRead = 0;
+  let rowsWritten = 0;
+  let rowsRejected = 0;
+  let pages = 0;
+  let caughtUp = false;
+
+  while (rowsRead < maxRecords) {
+    const limit = Math.min(pageSize, maxRecords - rowsRead);
+    const records = await fetcher(buildPageUrl(source, mark, limit), source.name);
+    if (records.length === 0) {
+      caughtUp = true;
+      break;
+    }
+
+    const { written, rejected } = await source.upsert(records);
+    rowsRead += records.length;
+    rowsWritten += written;
+    rowsRejected += rejected;
+    pages++;
+
+    const next = nextWatermark(source, records, mark);
+    if (records.length === limit && next?.highWaterMark === mark?.highWaterMark && next?.lastRecordId === mark?.lastRecordId) {
+      throw new Error(`${source.name}: watermark did not advance past ${mark?.highWaterMark}`);
+    }
+    mark = next;
+    await saveWatermark(source, {
+      highWaterMark: mark?.highWaterMark ?? null,
+      lastRecordId: mark?.lastRecordId ?? null,
+      recordsSynced: (stored?.recordsSynced || 0) + rowsRead,
+    });
+    console.log(`  Page ${pages}: ${records.length} records (${written} written, ${rejected} rejected), mark ${mark?.highWaterMark}`);
+
+    if (records.length < limit) {
+      caughtUp = true;
+      break;
+    }
+  }
+
+  let pruned = 0;
+  if (backfill && caughtUp && source.pruneStale) {
+    pruned = await source.pruneStale(backfillStartedAt);
+    console.log(`  Backfill complete, pruned ${pruned} stale rows`);
+  }
+  await saveWatermark(source, {
+    lastSyncedAt: new Date(),
+    ...(backfill && caughtUp ? { backfillComplete: true } : {}),
+  });
+  if (source.afterSync) await source.afterSync();
+
+  console.log(`  ${source.name}: ${rowsRead} read, ${rowsWritten} written, ${rowsRejected} rejected${caughtUp ? "" : " (more pending)"}`);
+  return {
+    rowsRead,
+    rowsWritten,
+    rowsRejected,
+    metadata: {
+      source: source.name,
+      pages,
+      highWaterMark: mark?.highWaterMark ?? null,
+      caughtUp,
+      backfill,
+      pruned,
+    },
+  };
+}
+
+// ============================================
+// UPSERT HELPERS
+// ============================================
+
+// Later records in a page win over earlier ones with the same id
+function dedupeById<T extends { id: string }>(rows: T[]): T[] {
+  const byId = new Map<string, T>();
+  for (const row of rows) byId.set(row.id, row);
+  return Array.from(byId.values());
+}
+
+// ON CONFLICT update of every column present in the rows, plus imported_at
+function excludedSet(table: PgTable, keys: string[]): Record<string, SQL> {
+  const columns = getTableColumns(table) as Record<string, PgColumn>;
+  const set: Record<string, SQL> = {};
+  for (const key of keys) {
+    if (key === "id" || !columns[key]) continue;
+    set[key] = sql.raw(`excluded.${columns[key].name}`);
+  }
+  if (columns.importedAt) set.importedAt = sql`NOW()`;
+  return set;
+}
+
+async function upsertById<TTable extends PgTable & { id: PgColumn }>(
+  table: TTable,
+  mapped: Array<(PgInsertValue<TTable> & { id: string }) | null>
+): Promise<{ written: number; rejected: number }> {
+  const rows = dedupeById(mapped.filter((r): r is PgInsertValue<TTable> & { id: string } => r !== null));
+  for (let i = 0; i < rows.length; i += UPSERT_BATCH_SIZE) {
+    const batch = rows.slice(i, i + UPSERT_BATCH_SIZE);
+    await db
+      .insert(table)
+      .values(batch)
+      .onConflictDoUpdate({ target: table.id, set: excludedSet(table, Object.keys(batch[0])) });
+  }
+  return { written: rows.length, rejected: mapped.length - mapped.filter((r) => r !== null).length };
+}
+
+function pruneImportedBefore(table: PgTable & { importedAt: PgColumn }) {
+  return async (before: Date): Promise<number> => {
+    const result = await db.delete(table).where(lt(table.importedAt, before));
+    return result.rowCount ?? 0;
+  };
+}
+
+function toDate(value: unknown): Date | null {
+  if (!value) return null;
+  const date = new Date(value as string);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function borough(value: unknown): string | null {
+  if (!value) return null;
+  return BOROUGH_MAP[String(value).toUpperCase()] || String(value);
+}
+
+const BOROUGH_NUMBERS: Record<string, string> = {
+  "1": "1", "2": "2", "3": "3", "4": "4", "5": "5",
+  MN: "1", BX: "2", BK: "3", QN: "4", SI: "5",
+  MANHATTAN: "1", BRONX: "2", BROOKLYN: "3", QUEENS: "4", "STATEN ISLAND": "5",
+};
+
+function createBBL(boroughCode: string, block: string, lot: string): string {
+  const boroughNum = BOROUGH_NUMBERS[boroughCode?.toUpperCase()] || boroughCode || "0";
+  return `${boroughNum}${(block || "0").padStart(5, "0")}${(lot || "0").padStart(4, "0")}`;
+}
+
+// ============================================
+// SOURCES
+// ============================================
+
+export const dobPermitsSource: SocrataSource = {
+  name: "dob_permits",
+  datasetUrl: `${NYC_OPENDATA_BASE}/rbx6-tga4.json`,
+  upsert: (records) =>
+    upsertById(dobPermitsRaw, records.map((r) => {
+      if (!r.job_filing_number) return null;
+      return {
+        id: `permit-${r.work_permit || `${r.job_filing_number}-${r.work_type || "NA"}`}`,
+        jobNumber: r.job_filing_number,
+        bbl: r.bbl || null,
+        bin: r.bin || null,
+        borough: borough(r.borough),
+        block: r.block || null,
+        lot: r.lot || null,
+        houseNumber: r.house_no || null,
+        streetName: r.street_name || null,
+        zipCode: r.zip_code || null,
+        jobType: r.filing_reason || null,
+        jobDescription: r.job_description?.substring(0, 500) || null,
+        workType: r.work_type || null,
+        permitStatus: r.permit_status || null,
+        filingDate: toDate(r.approved_date),
+        issuanceDate: toDate(r.issued_date),
+        expirationDate: toDate(r.expired_date),
+        estimatedCost: r.estimated_job_costs ? parseInt(r.estimated_job_costs) : null,
+        ownerName: r.owner_business_name || r.owner_name || null,
+        applicantName: r.applicant_business_name ||
+          `${r.applicant_first_name || ""} ${r.applicant_last_name || ""}`.trim() || null,
+        rawData: r,
+      };
+    })),
+  pruneStale: pruneImportedBefore(dobPermitsRaw),
+};
+
+export const dobComplaintsSource: SocrataSource = {
+  name: "dob_complaints",
+  datasetUrl: `${NYC_OPENDATA_BASE}/eabe-havv.json`,
+  upsert: (records) =>
+    upsertById(dobComplaintsRaw, records.map((r) => {
+      if (!r.complaint_number) return null;
+      return {
+        id: `dob-complaint-${r.complaint_number}`,
+        complaintNumber: r.complaint_number,
+        bbl: r.bbl || null,
+        bin: r.bin || null,
+        borough: borough(r.borough),
+        block: r.block || null,
+        lot: r.lot || null,
+        houseNumber: r.house_number || null,
+        streetName: r.house_street || null,
+        zipCode: r.zip_code || null,
+        complaintCategory: r.complaint_category || null,
+        complaintCategoryDescription: r.complaint_category_description || null,
+        unitOrApartment: r.unit || null,
+        status: r.status || null,
+        dispositionCode: r.disposition_code || null,
+        dispositionDate: toDate(r.disposition_date),
+        dateEntered: toDate(r.date_entered),
+        inspectionDate: toDate(r.inspection_date),
+        dobRunDate: toDate(r.dob_run_date),
+        rawData: r,
+      };
+    })),
+  pruneStale: pruneImportedBefore(dobComplaintsRaw),
+};
+
+export const complaints311Source: SocrataSource = {
+  name: "complaints_311",
+  datasetUrl: `${NYC_OPENDATA_BASE}/erm2-nwe9.json`,
+  where: `complaint_type IN (${HOUSING_311_TYPES.map(soqlString).join(",")})`,
+  upsert: (records) =>
+    upsertById(complaints311Raw, records.map((r) => {
+      if (!r.unique_key) return null;
+      return {
+        id: `311-${r.unique_key}`,
+        uniqueKey: r.unique_key,
+        bbl: r.bbl || null,
+        latitude: r.latitude ? parseFloat(r.latitude) : null,
+        longitude: r.longitude ? parseFloat(r.longitude) : null,
+        address: r.incident_address || null,
+        city: r.city || null,
+        borough: borough(r.borough),
+        zipCode: r.incident_zip || null,
+        complaintType: r.complaint_type || null,
+        descriptor: r.descriptor || null,
+        locationType: r.location_type || null,
+        status: r.status || null,
+        resolutionDescription: r.resolution_description?.substring(0, 500) || null,
+        createdDate: toDate(r.created_date),
+        closedDate: toDate(r.closed_date),
+        agency: r.agency || null,
+        agencyName: r.agency_name || null,
+        rawData: r,
+      };
+    })),
+  pruneStale: pruneImportedBefore(complaints311Raw),
+};
+
+/**
+ * Rolls violations up into one hpd_raw row per building: violations
+ * inspected in the last 12 months and currently open ones.
+ */
+export async function refreshHpdBuildingCounts(): Promise<void> {
+  await db.execute(sql`
+    INSERT INTO hpd_raw (
+      id, building_id, bbl, boro_id, borough, block, lot, house_number, street_name, zip_code,
+      total_violations, open_violations, last_inspection_date, imported_at
+    )
+    SELECT
+      'hpd-' || building_id, building_id, MAX(bbl), MAX(boro_id), MAX(borough), MAX(block), MAX(lot),
+      MAX(house_number), MAX(street_name), MAX(zip_code),
+      COUNT(*) FILTER (WHERE inspection_date >= NOW() - INTERVAL '12 months')::int,
+      COUNT(*) FILTER (WHERE violation_status = 'Open')::int,
+      MAX(inspection_date), NOW()
+    FROM hpd_violations_raw
+    WHERE building_id IS NOT NULL
+    GROUP BY building_id
+    ON CONFLICT (id) DO UPDATE SET
+      bbl = COALESCE(hpd_raw.bbl, EXCLUDED.bbl),
+      total_violations = EXCLUDED.total_violations,
+      open_violations = EXCLUDED.open_violations,
+      last_inspection_date = EXCLUDED.last_inspection_date
+  `);
+}
+
+export const hpdViolationsSource: SocrataSource = {
+  name: "hpd_violations",
+  datasetUrl: `${NYC_OPENDATA_BASE}/wvxf-dwi5.json`,
+  upsert: (records) =>
+    upsertById(hpdViolationsRaw, records.map((r) => {
+      if (!r.violationid) return null;
+      return {
+        id: `hpd-violation-${r.violationid}`,
+        violationId: r.violationid,
+        buildingId: r.buildingid || null,
+        bbl: r.bbl || null,
+        boroId: r.boroid || null,
+        borough: borough(r.boro),
+        block: r.block || null,
+        lot: r.lot || null,
+        houseNumber: r.housenumber || null,
+        streetName: r.streetname || null,
+        zipCode: r.zip || null,
+        violationClass: r.class || null,
+        violationStatus: r.violationstatus || null,
+        currentStatus: r.currentstatus || null,
+        inspectionDate: toDate(r.inspectiondate),
+        description: r.novdescription || null,
+        rawData: r,
+      };
+    })),
+  pruneStale: pruneImportedBefore(hpdViolationsRaw),
+  afterSync: refreshHpdBuildingCounts,
+};
+
+export const hpdRegistrationsSource: SocrataSource = {
+  name: "hpd_registrations",
+  datasetUrl: `${NYC_OPENDATA_BASE}/tesw-yqqr.json`,
+  upsert: (records) =>
+    upsertById(hpdRaw, records.map((r) => {
+      if (!r.buildingid) return null;
+      return {
+        id: `hpd-${r.buildingid}`,
+        bbl: r.bbl || (r.boroid && r.block && r.lot ? createBBL(r.boroid, r.block, r.lot) : null),
+        buildingId: r.buildingid,
+        registrationId: r.registrationid || null,
+        boroId: r.boroid || null,
+        borough: borough(r.boroid),
+        block: r.block || null,
+        lot: r.lot || null,
+        houseNumber: r.housenumber || null,
+        streetName: r.streetname || null,
+        zipCode: r.zip || null,
+        registrationStatus: r.registrationenddate ? "Active" : "Inactive",
+        buildingOwnerName: r.ownername || r.corporationname || null,
+        buildingOwnerPhone: r.businessphone || null,
+        agentName: r.managementcompanyname || null,
+        agentPhone: r.managementphone || null,
+        agentAddress: r.managementaddress || null,
+        numFloors: parseInt(r.stories) || null,
+        numApartments: parseInt(r.legalunits) || null,
+        numLegalUnits: parseInt(r.legalclassa) || null,
+        rawData: r,
+      };
+    })),
+  // hpd_raw is shared with the violation roll-up, whose rows use the same
+  // hpd-<buildingid> ids; only rows the old importer keyed by uuid are stale
+  pruneStale: async (before) => {
+    const result = await db
+      .delete(hpdRaw)
+      .where(and(lt(hpdRaw.importedAt, before), sql`${hpdRaw.id} NOT LIKE 'hpd-%'`));
+    return result.rowCount ?? 0;
+  },
+};
+
+export const acrisMasterSource: SocrataSource = {
+  name: "acris_master",
+  datasetUrl: `${NYC_OPENDATA_BASE}/bnx9-e6tj.json`,
+  where: `doc_type IN (${ACRIS_DOC_TYPES.map(soqlString).join(",")})`,
+  upsert: (records) =>
+    upsertById(acrisRaw, records.map((r) => {
+      if (!r.document_id) return null;
+      return {
+        id: `acris-${r.document_id}`,
+        documentId: r.document_id,
+        recordType: "MASTER",
+        bbl: r.borough && r.block && r.lot ? createBBL(r.borough, r.block, r.lot) : null,
+        borough: r.borough || null,
+        block: r.block || null,
+        lot: r.lot || null,
+        docType: r.doc_type || null,
+        docDate: toDate(r.document_date),
+        recordedDateTime: toDate(r.recorded_datetime),
+        docAmount: parseFloat(r.document_amt) || null,
+        percentTransferred: parseFloat(r.percent_trans) || null,
+        goodThroughDate: toDate(r.good_through_date),
+        streetNumber: r.street_number || null,
+        streetName: r.street_name || null,
+        unit: r.unit || null,
+        rawData: r,
+      };
+    })),
+  // acris_raw also holds the party rows, which have their own feed
+  pruneStale: async (before) => {
+    const result = await db
+      .delete(acrisRaw)
+      .where(and(lt(acrisRaw.importedAt, before), sql`${acrisRaw.recordType} IS DISTINCT FROM 'PARTY'`));
+    return result.rowCount ?? 0;
+  },
+};
+
+export const acrisPartiesSource: SocrataSource = {
+  name: "acris_parties",
+  datasetUrl: `${NYC_OPENDATA_BASE}/636b-3b5g.json`,
+  where: `party_type IN ('1','2')`,
+  upsert: (records) =>
+    upsertById(acrisRaw, records.map((r) => {
+      const name = typeof r.name === "string" ? r.name.trim() : "";
+      if (!r.document_id || !name || !ACRIS_PARTY_TYPES[r.party_type]) return null;
+      const address = [r.address_1, r.address_2].filter(Boolean).join(" ").trim() || null;
+      // A document names each party once, but lists several parties per side
+      const key = createHash("sha1").update(`${name}|${address || ""}`).digest("hex").slice(0, 12);
+      return {
+        id: `acris-party-${r.document_id}-${r.party_type}-${key}`,
+        documentId: r.document_id,
+        recordType: "PARTY",
+        partyType: ACRIS_PARTY_TYPES[r.party_type],
+        partyName: name,
+        partyAddress: address,
+        city: r.city || null,
+        state: r.state || null,
+        zipCode: r.zip || null,
+        country: r.country || null,
+        goodThroughDate: toDate(r.good_through_date),
+        rawData: r,
+      };
+    })),
+  pruneStale: async (before) => {
+    const result = await db
+      .delete(acrisRaw)
+      .where(and(lt(acrisRaw.importedAt, before), eq(acrisRaw.recordType, "PARTY")));
+    return result.rowCount ?? 0;
+  },
+};
+
+export const hpdContactsSource: SocrataSource = {
+  name: "hpd_contacts",
+  datasetUrl: `${NYC_OPENDATA_BASE}/feu5-w2e2.json`,
+  upsert: (records) =>
+    upsertById(hpdContactsRaw, records.map((r) => {
+      if (!r.registrationcontactid) return null;
+      return {
+        id: `hpdc-${r.registrationcontactid}`,
+        registrationId: r.registrationid || null,
+        contactType: r.type || null,
+        contactDescription: r.contactdescription || null,
+        corporationName: r.corporationname || null,
+        firstName: r.firstname || null,
+        lastName: r.lastname || null,
+        businessHouseNumber: r.businesshousenumber || null,
+        businessStreetName: r.businessstreetname || null,
+        businessApartment: r.businessapartment || null,
+        businessCity: r.businesscity || null,
+        businessState: r.businessstate || null,
+        businessZip: r.businesszip || null,
+        rawData: r,
+      };
+    })),
+  pruneStale: pruneImportedBefore(hpdContactsRaw),
+};
+
+export const taxLienSaleListsSource: SocrataSource = {
+  name: "tax_lien_sale_lists",
+  datasetUrl: `${NYC_OPENDATA_BASE}/9rz4-mjek.json`,
+  upsert: (records) =>
+    upsertById(taxLienSaleListsRaw, records.map((r) => {
+      const listMonth = toDate(r.month);
+      if (!r.borough || !r.block || !r.lot || !listMonth) return null;
+      const bbl = createBBL(r.borough, r.block, r.lot);
+      const cycle = r.cycle || null;
+      return {
+        id: `tax-lien-${bbl}-${listMonth.toISOString().slice(0, 10)}-${(cycle || "list").replace(/\s+/g, "-").toLowerCase()}`,
+        bbl,
+        borough: borough(r.borough),
+        block: r.block,
+        lot: r.lot,
+        listMonth,
+        cycle,
+        taxClassCode: r.tax_class_code || null,
+        buildingClass: r.building_class || null,
+        houseNumber: r.house_number || null,
+        streetName: r.street_name || null,
+        zipCode: r.zip_code || null,
+        waterDebtOnly: String(r.water_debt_only || "").toUpperCase().startsWith("Y"),
+        rawData: r,
+      };
+    })),
+  pruneStale: pruneImportedBefore(taxLienSaleListsRaw),
+};
+
+export const SOCRATA_SOURCES: Record<string, SocrataSource> = {
+  [dobPermitsSource.name]: dobPermitsSource,
+  [dobComplaintsSource.name]: dobComplaintsSource,
+  [complaints311Source.name]: complaints311Source,
+  [hpdViolationsSource.name]: hpdViolationsSource,
+  [hpdRegistrationsSource.name]: hpdRegistrationsSource,
+  [acrisMasterSource.name]: acrisMasterSource,
+  [acrisPartiesSource.name]: acrisPartiesSource,
+  [hpdContactsSource.name]: hpdContactsSource,
+  [taxLienSaleListsSource.name]: taxLienSaleListsSource,
+};
+
+/**
+ * Syncs the feeds behind the building signals (DOB permits, 311, HPD
+ * violations). A failing feed is reported instead of stopping the others.
+ */
+export async function syncNycSignalFeeds(
+  options: SocrataSyncOptions = {}
+): Promise<{ permits: number; complaints: number; hpd: number; failures: string[] }> {
+  const counts = { permits: 0, complaints: 0, hpd: 0 };
+  const failures: string[] = [];
+  const feeds = [
+    ["permits", dobPermitsSource],
+    ["complaints", complaints311Source],
+    ["hpd", hpdViolationsSource],
+  ] as const;
+
+  for (const [key, source] of feeds) {
+    try {
+      counts[key] = (await syncSocrataSource(source, options)).rowsWritten;
+    } catch (error) {
+      failures.push(`${source.name}: ${(error as Error).message}`);
+      console.error(`  ${source.name} sync FAILED: ${(error as Error).message}`);
+    }
+  }
+  return { ...counts, failures };
+}
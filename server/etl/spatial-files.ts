@@ -0,0 +1,169 @@
+import fs from "fs";
+import path from "path";
+import { multiPolygonBounds, type Bounds, type MultiPolygon } from "../services/geometry";
+
+// Readers for local polygon layers: GeoJSON FeatureCollections and ESRI
+// shapefiles (.shp geometry with its .dbf attributes alongside). Every
+// polygon comes back as a GeoJSON-style MultiPolygon in [lng, lat] order.
+// Coordinates must be geographic (WGS84 / NAD83); projected layers such as
+// NY State Plane are rejected with a note to reproject them to EPSG:4326.
+
+export interface PolygonFeature {
+  properties: Record<string, string | number | null>;
+  coordinates: MultiPolygon;
+  bounds: Bounds;
+}
+
+const SHP_POLYGON_TYPES = new Set([5, 15, 25]); // Polygon, PolygonZ, PolygonM
+
+function assertGeographic(filePath: string, bounds: Bounds): void {
+  if (Math.abs(bounds.minLng) > 180 || Math.abs(bounds.maxLng) > 180 || Math.abs(bounds.minLat) > 90 || Math.abs(bounds.maxLat) > 90) {
+    throw new Error(`${filePath} looks projected (coordinates beyond ±180); reproject it to EPSG:4326 first`);
+  }
+}
+
+function readGeoJson(filePath: string): PolygonFeature[] {
+  const collection = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  const features: PolygonFeature[] = [];
+  for (const feature of collection.features || []) {
+    const geometry = feature.geometry;
+    const coordinates: MultiPolygon | null =
+      geometry?.type === "Polygon" ? [geometry.coordinates] : geometry?.type === "MultiPolygon" ? geometry.coordinates : null;
+    if (!coordinates || coordinates.length === 0) continue;
+    features.push({ properties: feature.properties || {}, coordinates, bounds: multiPolygonBounds(coordinates) });
+  }
+  return features;
+}
+
+function readDbf(filePath: string): Array<Record<string, string | number | null>> {
+  const buffer = fs.readFileSync(filePath);
+  const recordCount = buffer.readUInt32LE(4);
+  const headerLength = buffer.readUInt16LE(8);
+  const recordLength = buffer.readUInt16LE(10);
+
+  const fields: Array<{ name: string; type: string; length: number }> = [];
+  for (let offset = 32; offset < headerLength - 1 && buffer[offset] !== 0x0d; offset += 32) {
+    const rawName = buffer.toString("latin1", offset, offset + 11);
+    fields.push({
+      name: rawName.slice(0, rawName.indexOf("\0") >= 0 ? rawName.indexOf("\0") : 11).trim(),
+      type: String.fromCharCode(buffer[offset + 11]),
+      length: buffer[offset + 16],
+    });
+  }
+
+  const rows: Array<Record<string, string | number | null>> = [];
+  for (let i = 0; i < recordCount; i++) {
+    const start = headerLength + i * recordLength;
+    // The first byte is the deletion flag; deleted records keep their slot
+    // so rows stay aligned with the .shp records
+    let offset = start + 1;
+    const row: Record<string, string | number | null> = {};
+    for (const field of fields) {
+      const raw = buffer.toString("latin1", offset, offset + field.length).trim();
+      offset += field.length;
+      if (!raw) {
+        row[field.name] = null;
+      } else if (field.type === "N" || field.type === "F") {
+        const n = Number(raw);
+        row[field.name] = isFinite(n) ? n : null;
+      } else {
+        row[field.name] = raw;
+      }
+    }
+    rows.push(row);
+  }
+  return rows;
+}
+
+// Shoelace signed area: negative for the clockwise outer rings shapefiles
+// use, positive for their counter-clockwise holes
+function ringArea(ring: number[][]): number {
+  let area = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    area += ring[j][0] * ring[i][1] - ring[i][0] * ring[j][1];
+  }
+  return area / 2;
+}
+
+function readShapefile(filePath: string): PolygonFeature[] {
+  const dbfPath = filePath.replace(/\.shp$/i, ".dbf");
+  const attributes = fs.existsSync(dbfPath) ? readDbf(dbfPath) : [];
+  const buffer = fs.readFileSync(filePath);
+  const shapeType = buffer.readInt32LE(32);
+  if (!SHP_POLYGON_TYPES.has(shapeType)) {
+    throw new Error(`${filePath} holds shape type ${shapeType}, not polygons`);
+  }
+
+  const features: PolygonFeature[] = [];
+  let offset = 100;
+  let recordIndex = 0;
+  while (offset + 8 <= buffer.length) {
+    const contentLength = buffer.readInt32BE(offset + 4) * 2;
+    const content = offset + 8;
+    offset = content + contentLength;
+    const properties = attributes[recordIndex++] || {};
+    if (buffer.readInt32LE(content) === 0) continue; // null shape
+
+    const numParts = buffer.readInt32LE(content + 36);
+    const numPoints = buffer.readInt32LE(content + 40);
+    const partsStart = content + 44;
+    const pointsStart = partsStart + numParts * 4;
+    const rings: number[][][] = [];
+    for (let p = 0; p < numParts; p++) {
+      const from = buffer.readInt32LE(partsStart + p * 4);
+      const to = p + 1 < numParts ? buffer.readInt32LE(partsStart + (p + 1) * 4) : numPoints;
+      const ring: number[][] = [];
+      for (let k = from; k < to; k++) {
+        const at = pointsStart + k * 16;
+        ring.push([buffer.readDoubleLE(at), buffer.readDoubleLE(at + 8)]);
+      }
+      if (ring.length >= 4) rings.push(ring);
+    }
+
+    // Each clockwise ring starts a polygon; each hole joins the polygon whose
+    // outer ring contains it
+    const coordinates: MultiPolygon = [];
+    const holes: number[][][] = [];
+    for (const ring of rings) {
+      if (ringArea(ring) <= 0) coordinates.push([ring]);
+      else holes.push(ring);
+    }
+    for (const hole of holes) {
+      const [lng, lat] = hole[0];
+      const owner = coordinates.find(([outer]) => {
+        const b = multiPolygonBounds([[outer]]);
+        return lng >= b.minLng && lng <= b.maxLng && lat >= b.minLat && lat <= b.maxLat;
+      });
+      // A lone counter-clockwise ring is a mis-wound outer ring
+      if (owner) owner.push(hole);
+      else coordinates.push([hole]);
+    }
+    if (coordinates.length === 0) continue;
+    features.push({ properties, coordinates, bounds: multiPolygonBounds(coordinates) });
+  }
+  return features;
+}
+
+/**
+ * Reads the polygon features of a .geojson/.json or .shp file. Non-polygon
+ * features are dropped.
+ */
+export function readPolygonFeatures(filePath: string): PolygonFeature[] {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Spatial file not found: ${filePath}`);
+  }
+  const extension = path.extname(filePath).toLowerCase();
+  const features = extension === ".shp" ? readShapefile(filePath) : readGeoJson(filePath);
+  for (const feature of features) assertGeographic(filePath, feature.bounds);
+  return features;
+}
+
+/** Case-insensitive attribute lookup, since layers differ in how they case field names. */
+export function featureField(properties: Record<string, unknown>, names: string[]): string | null {
+  const lower = new Map(Object.entries(properties).map(([k, v]) => [k.toLowerCase(), v]));
+  for (const name of names) {
+    const value = lower.get(name);
+    if (value !== null && value !== undefined && String(value).trim()) return String(value).trim();
+  }
+  return null;
+}
@@ -7,6 +7,7 @@ import { runMigrations } from 'stripe-replit-sync';
 import { getStripeSync } from './stripeClient';
 import { WebhookHandlers } from './webhookHandlers';
 import { checkAndSyncProductionData } from './productionDataSync';
+import { startNotificationScheduler } from './notificationScheduler';
 
 const app = express();
 const httpServer = createServer(app);
@@ -217,6 +218,8 @@ app.use((req, res, next) => {
       checkAndSyncProductionData().catch((err) => {
         console.error("[DataSync] Background sync error:", err);
       });
+
+      startNotificationScheduler();
     },
   );
 })();
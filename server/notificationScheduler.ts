@@ -0,0 +1,187 @@
+import os from "os";
+import { storage } from "./storage";
+import { processInstantAlerts, processDailyDigest, processWeeklyDigest } from "./savedSearchService";
+
+// In-process scheduler for saved-search notifications.
+//
+// Every instance ticks once a minute, but a job only runs on the instance
+// that wins its lease in job_locks, so multiple replicas don't send the
+// same digest twice. Every run is recorded in scheduled_job_runs.
+//
+// Configuration (all optional):
+//   NOTIFICATION_SCHEDULER=on|off      default: on in production, off elsewhere
+//   INSTANT_ALERTS_INTERVAL_MINUTES    default: 15
+//   DAILY_DIGEST_HOUR_UTC              default: 13 (8-9am Eastern)
+//   WEEKLY_DIGEST_DAY_UTC              default: 1 (Monday, 0 = Sunday)
+//   WEEKLY_DIGEST_HOUR_UTC             default: 13
+
+const INSTANCE_ID = `${os.hostname()}-${process.pid}`;
+const TICK_MS = 60 * 1000;
+const RETRY_BACKOFF_MS = 30 * 60 * 1000;
+const LOCK_TTL_MS = 30 * 60 * 1000;
+
+export type NotificationJobName = "instant_alerts" | "daily_digest" | "weekly_digest";
+
+interface ScheduledJob {
+  name: NotificationJobName;
+  run: () => Promise<void>;
+  isDue: (now: Date, lastSuccess: Date | null, lastAttempt: Date | null) => boolean;
+}
+
+function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || "", 10);
+  return isNaN(value) ? fallback : value;
+}
+
+function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+// Failed runs are retried, but not more often than the backoff
+function backedOff(now: Date, lastAttempt: Date | null): boolean {
+  return !lastAttempt || now.getTime() - lastAttempt.getTime() >= RETRY_BACKOFF_MS;
+}
+
+function buildJobs(): ScheduledJob[] {
+  const instantIntervalMs = envInt("INSTANT_ALERTS_INTERVAL_MINUTES", 15) * 60 * 1000;
+  const dailyHour = envInt("DAILY_DIGEST_HOUR_UTC", 13);
+  const weeklyDay = envInt("WEEKLY_DIGEST_DAY_UTC", 1);
+  const weeklyHour = envInt("WEEKLY_DIGEST_HOUR_UTC", 13);
+
+  return [
+    {
+      name: "instant_alerts",
+      run: processInstantAlerts,
+      isDue: (now, _lastSuccess, lastAttempt) =>
+        !lastAttempt || now.getTime() - lastAttempt.getTime() >= instantIntervalMs,
+    },
+    {
+      name: "daily_digest",
+      run: processDailyDigest,
+      isDue: (now, lastSuccess, lastAttempt) =>
+        now.getUTCHours() >= dailyHour &&
+        (!lastSuccess || lastSuccess < startOfUtcDay(now)) &&
+        backedOff(now, lastAttempt),
+    },
+    {
+      name: "weekly_digest",
+      run: processWeeklyDigest,
+      isDue: (now, lastSuccess, lastAttempt) =>
+        now.getUTCDay() === weeklyDay &&
+        now.getUTCHours() >= weeklyHour &&
+        (!lastSuccess || lastSuccess < startOfUtcDay(now)) &&
+        backedOff(now, lastAttempt),
+    },
+  ];
+}
+
+async function jobIsDue(job: ScheduledJob, now: Date): Promise<boolean> {
+  const [lastSuccess, lastAttempt] = await Promise.all([
+    storage.getLastScheduledJobRun(job.name, "succeeded"),
+    storage.getLastScheduledJobRun(job.name),
+  ]);
+  return job.isDue(now, lastSuccess?.startedAt ?? null, lastAttempt?.startedAt ?? null);
+}
+
+/**
+ * Runs a notification job under its lock and records the outcome.
+ * Returns null when another instance holds the lock, or when `stillDue`
+ * reports that the job ran while we were waiting for it.
+ */
+export async function runNotificationJob(
+  name: NotificationJobName,
+  run: () => Promise<void>,
+  trigger: "scheduler" | "cron" = "scheduler",
+  stillDue?: () => Promise<boolean>
+): Promise<{ status: "succeeded" | "failed"; durationMs: number; error?: string } | null> {
+  const acquired = await storage.tryAcquireJobLock(name, INSTANCE_ID, LOCK_TTL_MS);
+  if (!acquired) {
+    console.log(`[Scheduler] ${name} is already running on another instance, skipping`);
+    return null;
+  }
+
+  // The lock is released when a run finishes, so another instance can pass
+  // its due check, then acquire the lock after our run is done. Checking
+  // again under the lock sees that run and skips the duplicate.
+  try {
+    if (stillDue && !(await stillDue())) {
+      console.log(`[Scheduler] ${name} already ran on another instance, skipping`);
+      await storage.releaseJobLock(name, INSTANCE_ID);
+      return null;
+    }
+  } catch (error) {
+    await storage.releaseJobLock(name, INSTANCE_ID);
+    throw error;
+  }
+
+  const startedAt = Date.now();
+  const jobRun = await storage.createScheduledJobRun({
+    jobName: name,
+    status: "running",
+    trigger,
+    instanceId: INSTANCE_ID,
+  });
+
+  try {
+    await run();
+    const durationMs = Date.now() - startedAt;
+    await storage.finishScheduledJobRun(jobRun.id, {
+      status: "succeeded",
+      finishedAt: new Date(),
+      durationMs,
+    });
+    return { status: "succeeded", durationMs };
+  } catch (error) {
+    const durationMs = Date.now() - startedAt;
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[Scheduler] ${name} failed:`, error);
+    await storage.finishScheduledJobRun(jobRun.id, {
+      status: "failed",
+      finishedAt: new Date(),
+      durationMs,
+      error: message,
+    });
+    return { status: "failed", durationMs, error: message };
+  } finally {
+    await storage.releaseJobLock(name, INSTANCE_ID);
+  }
+}
+
+let tickInProgress = false;
+
+async function tick(jobs: ScheduledJob[]): Promise<void> {
+  if (tickInProgress) return;
+  tickInProgress = true;
+  try {
+    const now = new Date();
+    for (const job of jobs) {
+      if (!(await jobIsDue(job, now))) continue;
+
+      console.log(`[Scheduler] Running ${job.name}...`);
+      const result = await runNotificationJob(job.name, job.run, "scheduler", () => jobIsDue(job, now));
+      if (result) {
+        console.log(`[Scheduler] ${job.name} ${result.status} in ${result.durationMs}ms`);
+      }
+    }
+  } catch (error) {
+    console.error("[Scheduler] Tick error:", error);
+  } finally {
+    tickInProgress = false;
+  }
+}
+
+export function startNotificationScheduler(): void {
+  const setting = process.env.NOTIFICATION_SCHEDULER;
+  const enabled = setting ? setting === "on" : process.env.NODE_ENV === "production";
+  if (!enabled) {
+    console.log("[Scheduler] Notification scheduler disabled");
+    return;
+  }
+
+  const jobs = buildJobs();
+  console.log(`[Scheduler] Notification scheduler started on ${INSTANCE_ID}`);
+  const timer = setInterval(() => {
+    tick(jobs);
+  }, TICK_MS);
+  timer.unref();
+}
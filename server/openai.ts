@@ -120,8 +120,11 @@ function buildUserPrompt(question: string, context: ChatContext): string {
     dataSection += `COMPARABLE SALES:\n`;
     context.compsData.slice(0, 5).forEach((comp, i) => {
       const p = comp.property;
-      dataSection += `${i + 1}. ${p.address} - $${p.lastSalePrice?.toLocaleString() ?? "N/A"} (${p.beds}BR/${p.baths}BA, ${p.sqft?.toLocaleString() ?? "N/A"} sqft) - Similarity: ${comp.similarityScore?.toFixed(0)}%
+      dataSection += `${i + 1}. ${p.address} - $${(comp.compSalePrice ?? p.lastSalePrice)?.toLocaleString() ?? "N/A"}, adjusted $${comp.adjustedPrice?.toLocaleString() ?? "N/A"} (${p.beds}BR/${p.baths}BA, ${p.sqft?.toLocaleString() ?? "N/A"} sqft) - Similarity: ${comp.similarityScore?.toFixed(0)}%
 `;
+      if (comp.selectionReasons?.length) {
+        dataSection += `   Why: ${comp.selectionReasons.join("; ")}\n`;
+      }
     });
     dataSection += "\n";
   }
@@ -291,7 +294,7 @@ TRANSACTION COUNT: ${marketData.transactionCount ?? "N/A"}
     dataSection += `COMPARABLE SALES (${compsData.length} total):\n`;
     compsData.slice(0, 5).forEach((comp, i) => {
       const p = comp.property;
-      dataSection += `${i + 1}. ${p.address} - $${p.lastSalePrice?.toLocaleString() ?? "N/A"} (${p.beds}BR/${p.baths}BA, ${p.sqft?.toLocaleString() ?? "N/A"} sqft, Similarity: ${comp.similarityScore?.toFixed(0)}%)\n`;
+      dataSection += `${i + 1}. ${p.address} - $${(comp.compSalePrice ?? p.lastSalePrice)?.toLocaleString() ?? "N/A"}, adjusted $${comp.adjustedPrice?.toLocaleString() ?? "N/A"} (${p.beds}BR/${p.baths}BA, ${p.sqft?.toLocaleString() ?? "N/A"} sqft, Similarity: ${comp.similarityScore?.toFixed(0)}%)\n`;
     });
   }
 
@@ -1,424 +1,27 @@
 import { db } from "./db";
 import {
-  properties,
-  sales,
-  marketAggregates,
   dataSources,
-  dobPermitsRaw,
-  complaints311Raw,
-  hpdRaw,
   propertySignalSummary,
   coverageMatrix,
 } from "@shared/schema";
-import { sql, eq, and, or } from "drizzle-orm";
-
-const NYC_OPENDATA_BASE = "https://data.cityofnewyork.us/resource";
-const CT_OPENDATA_BASE = "https://data.ct.gov/resource";
-
-const BOROUGH_MAP: Record<string, string> = {
-  MANHATTAN: "Manhattan", BRONX: "Bronx", BROOKLYN: "Brooklyn",
-  QUEENS: "Queens", "STATEN ISLAND": "Staten Island",
-};
-
-const NJ_MUNICIPALITIES = [
-  { city: "Jersey City", county: "Hudson", zip: "07302", lat: 40.7178, lng: -74.0431, medianPrice: 575000 },
-  { city: "Jersey City", county: "Hudson", zip: "07304", lat: 40.7215, lng: -74.0648, medianPrice: 485000 },
-  { city: "Jersey City", county: "Hudson", zip: "07306", lat: 40.7350, lng: -74.0650, medianPrice: 420000 },
-  { city: "Jersey City", county: "Hudson", zip: "07310", lat: 40.7282, lng: -74.0380, medianPrice: 695000 },
-  { city: "Hoboken", county: "Hudson", zip: "07030", lat: 40.7440, lng: -74.0324, medianPrice: 720000 },
-  { city: "Newark", county: "Essex", zip: "07102", lat: 40.7357, lng: -74.1724, medianPrice: 310000 },
-  { city: "Newark", county: "Essex", zip: "07104", lat: 40.7673, lng: -74.1694, medianPrice: 295000 },
-  { city: "Newark", county: "Essex", zip: "07106", lat: 40.7210, lng: -74.2194, medianPrice: 275000 },
-  { city: "Newark", county: "Essex", zip: "07108", lat: 40.7168, lng: -74.1964, medianPrice: 265000 },
-  { city: "Newark", county: "Essex", zip: "07112", lat: 40.7070, lng: -74.2124, medianPrice: 250000 },
-  { city: "Paterson", county: "Passaic", zip: "07501", lat: 40.9168, lng: -74.1718, medianPrice: 340000 },
-  { city: "Paterson", county: "Passaic", zip: "07502", lat: 40.9268, lng: -74.1918, medianPrice: 325000 },
-  { city: "Paterson", county: "Passaic", zip: "07504", lat: 40.9068, lng: -74.1568, medianPrice: 330000 },
-  { city: "Elizabeth", county: "Union", zip: "07201", lat: 40.6640, lng: -74.2107, medianPrice: 375000 },
-  { city: "Elizabeth", county: "Union", zip: "07202", lat: 40.6558, lng: -74.2220, medianPrice: 365000 },
-  { city: "Elizabeth", county: "Union", zip: "07208", lat: 40.6690, lng: -74.2350, medianPrice: 395000 },
-  { city: "Bayonne", county: "Hudson", zip: "07002", lat: 40.6687, lng: -74.1143, medianPrice: 425000 },
-  { city: "Union City", county: "Hudson", zip: "07087", lat: 40.7679, lng: -74.0238, medianPrice: 380000 },
-  { city: "West New York", county: "Hudson", zip: "07093", lat: 40.7879, lng: -74.0088, medianPrice: 365000 },
-  { city: "North Bergen", county: "Hudson", zip: "07047", lat: 40.8040, lng: -74.0120, medianPrice: 410000 },
-  { city: "East Orange", county: "Essex", zip: "07017", lat: 40.7679, lng: -74.2038, medianPrice: 285000 },
-  { city: "East Orange", county: "Essex", zip: "07018", lat: 40.7550, lng: -74.2150, medianPrice: 275000 },
-  { city: "Irvington", county: "Essex", zip: "07111", lat: 40.7254, lng: -74.2346, medianPrice: 270000 },
-  { city: "Bloomfield", county: "Essex", zip: "07003", lat: 40.8070, lng: -74.1854, medianPrice: 420000 },
-  { city: "Montclair", county: "Essex", zip: "07042", lat: 40.8259, lng: -74.2090, medianPrice: 685000 },
-  { city: "Morristown", county: "Morris", zip: "07960", lat: 40.7968, lng: -74.4818, medianPrice: 525000 },
-  { city: "New Brunswick", county: "Middlesex", zip: "08901", lat: 40.4862, lng: -74.4518, medianPrice: 340000 },
-  { city: "New Brunswick", county: "Middlesex", zip: "08903", lat: 40.4962, lng: -74.4418, medianPrice: 355000 },
-  { city: "Perth Amboy", county: "Middlesex", zip: "08861", lat: 40.5068, lng: -74.2654, medianPrice: 345000 },
-  { city: "Plainfield", county: "Union", zip: "07060", lat: 40.6337, lng: -74.4074, medianPrice: 310000 },
-  { city: "Hackensack", county: "Bergen", zip: "07601", lat: 40.8859, lng: -74.0435, medianPrice: 440000 },
-  { city: "Fort Lee", county: "Bergen", zip: "07024", lat: 40.8509, lng: -73.9712, medianPrice: 520000 },
-  { city: "Edgewater", county: "Bergen", zip: "07020", lat: 40.8270, lng: -73.9754, medianPrice: 545000 },
-  { city: "Cliffside Park", county: "Bergen", zip: "07010", lat: 40.8215, lng: -73.9879, medianPrice: 465000 },
-  { city: "Weehawken", county: "Hudson", zip: "07086", lat: 40.7679, lng: -74.0188, medianPrice: 610000 },
-  { city: "Guttenberg", county: "Hudson", zip: "07093", lat: 40.7929, lng: -74.0038, medianPrice: 350000 },
-  { city: "Kearny", county: "Hudson", zip: "07032", lat: 40.7640, lng: -74.1204, medianPrice: 395000 },
-  { city: "Harrison", county: "Hudson", zip: "07029", lat: 40.7468, lng: -74.1568, medianPrice: 415000 },
-  { city: "Secaucus", county: "Hudson", zip: "07094", lat: 40.7896, lng: -74.0566, medianPrice: 475000 },
-  { city: "Passaic", county: "Passaic", zip: "07055", lat: 40.8568, lng: -74.1288, medianPrice: 355000 },
-];
-
-const CT_TOWNS = [
-  "Stamford", "Bridgeport", "New Haven", "Hartford", "Waterbury",
-  "Norwalk", "Danbury", "New Britain", "Greenwich", "Fairfield",
-  "West Hartford", "Hamden", "Milford", "Meriden", "Bristol",
-  "Manchester", "West Haven", "Stratford", "Middletown", "Shelton",
-  "Trumbull", "Darien", "Westport", "New Canaan", "Ridgefield",
-];
-
-const CT_ZIP_FALLBACK: Record<string, string> = {
-  Waterbury: "06702", Norwalk: "06850", Danbury: "06810",
-  "New Britain": "06051", Greenwich: "06830", Fairfield: "06824",
-  "West Hartford": "06107", Hamden: "06514", Milford: "06460",
-  Meriden: "06450", Bristol: "06010", Manchester: "06040",
-  "West Haven": "06516", Stratford: "06614", Middletown: "06457",
-  Shelton: "06484", Trumbull: "06611", Darien: "06820",
-  Westport: "06880", "New Canaan": "06840", Ridgefield: "06877",
-  "New Haven": "06510", Stamford: "06901", Bridgeport: "06601",
-  Hartford: "06103",
-};
-
-const CT_COORDS: Record<string, { lat: number; lng: number }> = {
-  Stamford: { lat: 41.0534, lng: -73.5387 }, Bridgeport: { lat: 41.1865, lng: -73.1952 },
-  "New Haven": { lat: 41.3081, lng: -72.9282 }, Hartford: { lat: 41.7658, lng: -72.6734 },
-  Waterbury: { lat: 41.5582, lng: -73.0515 }, Norwalk: { lat: 41.1177, lng: -73.4082 },
-  Danbury: { lat: 41.3948, lng: -73.4540 }, "New Britain": { lat: 41.6612, lng: -72.7795 },
-  Greenwich: { lat: 41.0262, lng: -73.6285 }, Fairfield: { lat: 41.1408, lng: -73.2614 },
-  "West Hartford": { lat: 41.7620, lng: -72.7420 }, Hamden: { lat: 41.3959, lng: -72.8968 },
-  Milford: { lat: 41.2223, lng: -73.0565 }, Meriden: { lat: 41.5382, lng: -72.8071 },
-  Bristol: { lat: 41.6718, lng: -72.9493 }, Manchester: { lat: 41.7759, lng: -72.5215 },
-  "West Haven": { lat: 41.2712, lng: -72.9470 }, Stratford: { lat: 41.1845, lng: -73.1332 },
-  Middletown: { lat: 41.5622, lng: -72.6505 }, Shelton: { lat: 41.3068, lng: -73.0932 },
-  Trumbull: { lat: 41.2429, lng: -73.2008 }, Darien: { lat: 41.0787, lng: -73.4696 },
-  Westport: { lat: 41.1415, lng: -73.3579 }, "New Canaan": { lat: 41.1468, lng: -73.4951 },
-  Ridgefield: { lat: 41.2815, lng: -73.4985 },
-};
-
-const CT_COUNTY_MAP: Record<string, string> = {
-  Stamford: "Fairfield", Bridgeport: "Fairfield", Norwalk: "Fairfield",
-  Danbury: "Fairfield", Greenwich: "Fairfield", Fairfield: "Fairfield",
-  Milford: "Fairfield", Stratford: "Fairfield", Shelton: "Fairfield",
-  Trumbull: "Fairfield", Darien: "Fairfield", Westport: "Fairfield",
-  "New Canaan": "Fairfield", Ridgefield: "Fairfield",
-  "New Haven": "New Haven", Waterbury: "New Haven", Hamden: "New Haven",
-  Meriden: "New Haven", "West Haven": "New Haven",
-  Hartford: "Hartford", "New Britain": "Hartford", Bristol: "Hartford",
-  "West Hartford": "Hartford", Manchester: "Hartford",
-  Middletown: "Middlesex",
-};
-
-const CT_STATE_USE_MAP: Record<string, string> = {
-  "1010": "SFH", "1011": "SFH", "1012": "SFH", "1013": "SFH",
-  "1020": "SFH", "1021": "SFH", "1030": "SFH",
-  "1040": "Multi-family 2-4", "1041": "Multi-family 2-4", "1050": "Multi-family 2-4",
-  "1060": "Multi-family 5+", "1070": "Multi-family 5+", "1080": "Multi-family 5+",
-  "1000": "SFH", "1090": "SFH",
-  "2010": "Condo", "2020": "Condo", "2030": "Condo", "2040": "Condo",
-  "3010": "Vacant Land", "3020": "Vacant Land",
-  "4010": "Commercial", "4020": "Commercial", "4030": "Commercial",
-  "5010": "Mixed-Use", "5020": "Mixed-Use",
-};
-
-const NJ_STREETS = [
-  "Broadway", "Central Ave", "Bergen Ave", "Summit Ave", "Washington St",
-  "Newark Ave", "Grand St", "JFK Blvd", "Hudson St", "Park Ave",
-  "Martin Luther King Jr Blvd", "Market St", "Broad St", "Clinton Ave",
-  "Springfield Ave", "South Orange Ave", "Bloomfield Ave", "Valley Rd",
-  "Main St", "River Rd", "Boulevard East", "Palisade Ave",
-  "Liberty Ave", "Elizabeth Ave", "Communipaw Ave", "Montgomery St",
-  "Van Houten Ave", "21st Ave", "Bergenline Ave", "Kennedy Blvd",
-  "Harrison Ave", "Oak St", "Elm St", "Maple Ave", "Cedar Lane",
-  "Anderson Ave", "Tonnele Ave", "County Ave", "Ferry St", "Prospect St",
-];
-
-function randomBetween(min: number, max: number): number {
-  return Math.floor(Math.random() * (max - min + 1)) + min;
-}
-
-function randomFrom<T>(arr: T[]): T {
-  return arr[Math.floor(Math.random() * arr.length)];
-}
-
-function generateGridCoords(lat: number, lng: number) {
-  return { gridLat: Math.round(lat * 1000), gridLng: Math.round(lng * 1000) };
-}
+import { sql } from "drizzle-orm";
+import { capturePropertySnapshot, detectAndRecordChanges } from "./services/changeDetection";
+import { evaluateAlerts } from "./alertService";
+import { importNJModIV } from "./etl/nj-modiv-import";
+import { importCTCama, importCTSales } from "./etl/ct-cama-import";
+import { syncNycSignalFeeds } from "./etl/socrata-sync";
+import { refreshAggregates } from "./services/marketAggregates";
+import { assignNeighborhoods } from "./services/neighborhoods";
+import { buildGazetteer } from "./etl/gazetteer-import";
+import { buildAddressSearchIndex } from "./etl/address-search-index";
+import { assignFloodRisk } from "./services/floodRisk";
+import { computeDistressSignals } from "./services/distressSignals";
 
 async function refreshNYCETL() {
-  console.log("[DataSync] Refreshing NYC Open Data (DOB Permits, 311, HPD)...");
-
-  const oneYearAgo = new Date();
-  oneYearAgo.setFullYear(oneYearAgo.getFullYear() - 1);
-  const dateFilter = oneYearAgo.toISOString().split("T")[0];
-  const sixMonthsAgo = new Date();
-  sixMonthsAgo.setMonth(sixMonthsAgo.getMonth() - 6);
-  const dateFilter6m = sixMonthsAgo.toISOString().split("T")[0];
-
-  await db.delete(dobPermitsRaw);
-  await db.delete(complaints311Raw);
-  await db.delete(hpdRaw);
-
-  let permitCount = 0;
-  try {
-    const permitUrl = `${NYC_OPENDATA_BASE}/rbx6-tga4.json?$where=issued_date>='${dateFilter}'&$limit=20000&$order=issued_date DESC`;
-    const permitRes = await fetch(permitUrl);
-    const permits = (await permitRes.json()) as any[];
-    const permitBatch: any[] = [];
-    for (const r of permits) {
-      if (!r.job_filing_number) continue;
-      permitBatch.push({
-        id: `permit-${r.job_filing_number}-${r.work_type || "NA"}-${permitCount}`,
-        jobNumber: r.job_filing_number, bbl: r.bbl || null, bin: r.bin || null,
-        borough: BOROUGH_MAP[r.borough?.toUpperCase()] || r.borough || null,
-        block: r.block || null, lot: r.lot || null,
-        houseNumber: r.house_no || null, streetName: r.street_name || null,
-        zipCode: r.zip_code || null, jobType: r.filing_reason || null,
-        jobDescription: r.job_description?.substring(0, 500) || null,
-        workType: r.work_type || null, permitStatus: r.permit_status || null,
-        issuanceDate: r.issued_date ? new Date(r.issued_date) : null,
-        expirationDate: r.expired_date ? new Date(r.expired_date) : null,
-        estimatedCost: r.estimated_job_costs ? parseInt(r.estimated_job_costs) : null,
-        ownerName: r.owner_business_name || r.owner_name || null, rawData: r,
-      });
-      permitCount++;
-    }
-    for (let i = 0; i < permitBatch.length; i += 500) {
-      await db.insert(dobPermitsRaw).values(permitBatch.slice(i, i + 500)).onConflictDoNothing();
-    }
-    console.log(`[DataSync]   Imported ${permitCount} DOB permits`);
-  } catch (e) { console.error("[DataSync]   DOB Permits error:", (e as Error).message); }
-
-  let complaintCount = 0;
-  try {
-    const url = `${NYC_OPENDATA_BASE}/erm2-nwe9.json?$where=created_date>='${dateFilter6m}'&$limit=20000&$order=created_date DESC`;
-    const res = await fetch(url);
-    const data = (await res.json()) as any[];
-    const batch: any[] = [];
-    for (const r of data) {
-      if (!r.unique_key) continue;
-      batch.push({
-        id: `311-${r.unique_key}`, uniqueKey: r.unique_key, bbl: r.bbl || null,
-        latitude: r.latitude ? parseFloat(r.latitude) : null,
-        longitude: r.longitude ? parseFloat(r.longitude) : null,
-        address: r.incident_address || null, city: r.city || null,
-        borough: BOROUGH_MAP[r.borough?.toUpperCase()] || r.borough || null,
-        zipCode: r.incident_zip || null, complaintType: r.complaint_type || null,
-        descriptor: r.descriptor || null, status: r.status || null,
-        createdDate: r.created_date ? new Date(r.created_date) : null,
-        closedDate: r.closed_date ? new Date(r.closed_date) : null,
-        agency: r.agency || null, agencyName: r.agency_name || null, rawData: r,
-      });
-      complaintCount++;
-    }
-    for (let i = 0; i < batch.length; i += 500) {
-      await db.insert(complaints311Raw).values(batch.slice(i, i + 500)).onConflictDoNothing();
-    }
-    console.log(`[DataSync]   Imported ${complaintCount} 311 complaints`);
-  } catch (e) { console.error("[DataSync]   311 error:", (e as Error).message); }
-
-  let hpdCount = 0;
-  try {
-    const url = `${NYC_OPENDATA_BASE}/wvxf-dwi5.json?$where=inspectiondate>='${dateFilter6m}'&$limit=20000&$order=inspectiondate DESC`;
-    const res = await fetch(url);
-    const violations = (await res.json()) as any[];
-    const byBuilding = new Map<string, { total: number; open: number; bbl: string | null; data: any }>();
-    for (const r of violations) {
-      if (!r.buildingid) continue;
-      const ex = byBuilding.get(r.buildingid) || { total: 0, open: 0, bbl: r.bbl || null, data: r };
-      ex.total++;
-      if (r.violationstatus === "Open" || r.currentstatus === "VIOLATION OPEN") ex.open++;
-      byBuilding.set(r.buildingid, ex);
-    }
-    const batch: any[] = [];
-    for (const [bid, info] of Array.from(byBuilding)) {
-      const r = info.data;
-      batch.push({
-        id: `hpd-${bid}`, buildingId: bid, bbl: info.bbl,
-        boroId: r.boroid || null, borough: BOROUGH_MAP[r.boro?.toUpperCase()] || r.boro || null,
-        block: r.block || null, lot: r.lot || null,
-        houseNumber: r.housenumber || null, streetName: r.streetname || null,
-        zipCode: r.zip || null, totalViolations: info.total, openViolations: info.open,
-        rawData: { violationSample: r },
-      });
-      hpdCount++;
-    }
-    for (let i = 0; i < batch.length; i += 500) {
-      await db.insert(hpdRaw).values(batch.slice(i, i + 500)).onConflictDoNothing();
-    }
-    console.log(`[DataSync]   Imported ${hpdCount} HPD records`);
-  } catch (e) { console.error("[DataSync]   HPD error:", (e as Error).message); }
-
-  return { permits: permitCount, complaints: complaintCount, hpd: hpdCount };
-}
-
-async function importNJProperties(): Promise<number> {
-  console.log("[DataSync] Checking NJ properties...");
-  const [existing] = await db.select({ cnt: sql<number>`count(*)::int` }).from(properties).where(eq(properties.state, "NJ"));
-  if ((existing?.cnt || 0) > 500) {
-    console.log(`[DataSync]   NJ already has ${existing?.cnt} properties, skipping.`);
-    return existing?.cnt || 0;
-  }
-
-  console.log("[DataSync]   Generating NJ properties...");
-  const propTypes = ["SFH", "Condo", "Townhome", "Multi-family 2-4", "Multi-family 5+"];
-  const weights = [0.30, 0.25, 0.20, 0.15, 0.10];
-  function weightedType(): string {
-    const r = Math.random(); let c = 0;
-    for (let i = 0; i < weights.length; i++) { c += weights[i]; if (r <= c) return propTypes[i]; }
-    return propTypes[0];
-  }
-
-  let total = 0;
-  const batch: any[] = [];
-  for (const muni of NJ_MUNICIPALITIES) {
-    const count = randomBetween(80, 150);
-    for (let i = 0; i < count; i++) {
-      const pt = weightedType();
-      const beds = pt === "Condo" ? randomBetween(1, 3) : pt === "Townhome" ? randomBetween(2, 4) :
-        pt === "Multi-family 2-4" ? randomBetween(3, 6) : pt === "Multi-family 5+" ? randomBetween(6, 20) : randomBetween(2, 5);
-      const baths = pt === "Condo" ? randomBetween(1, 2) : Math.min(beds + 1, randomBetween(1, 4));
-      const sqft = pt === "Condo" ? randomBetween(600, 1500) : pt === "Townhome" ? randomBetween(1000, 2200) :
-        pt === "Multi-family 2-4" ? randomBetween(1800, 3500) : pt === "Multi-family 5+" ? randomBetween(3000, 8000) : randomBetween(1000, 3000);
-      const variance = 0.65 + Math.random() * 0.7;
-      const ev = Math.round(muni.medianPrice * variance);
-      const ppsf = Math.round(ev / sqft);
-      const yb = randomBetween(1920, 2024);
-      const lsYears = randomBetween(1, 12);
-      const lsp = Math.round(ev / Math.pow(1.03, lsYears));
-      const lsd = new Date(); lsd.setFullYear(lsd.getFullYear() - lsYears); lsd.setMonth(randomBetween(0, 11));
-      const mppsf = muni.medianPrice / 1400;
-      const mis = Math.min(100, Math.max(0, ((mppsf - ppsf) / mppsf) * 100 + 50)) * 0.4;
-      const yf = Math.min(100, Math.max(0, (yb - 1900) / 1.2)) * 0.15;
-      const sf = Math.min(100, sqft / 30) * 0.15;
-      const liq = randomBetween(50, 90) * 0.15;
-      const rf = randomBetween(60, 95) * 0.15;
-      const os = Math.min(100, Math.max(0, Math.round(mis + yf + sf + liq + rf)));
-      const lat = muni.lat + (Math.random() - 0.5) * 0.02;
-      const lng = muni.lng + (Math.random() - 0.5) * 0.02;
-      const grid = generateGridCoords(lat, lng);
-      batch.push({
-        address: `${randomBetween(1, 999)} ${randomFrom(NJ_STREETS)}`, city: muni.city, state: "NJ",
-        zipCode: muni.zip, county: muni.county, neighborhood: muni.city,
-        latitude: lat, longitude: lng, propertyType: pt, beds, baths, sqft,
-        lotSize: pt === "SFH" ? randomBetween(2000, 12000) : null, yearBuilt: yb,
-        lastSalePrice: lsp, lastSaleDate: lsd, estimatedValue: ev, pricePerSqft: ppsf,
-        opportunityScore: os, confidenceLevel: os > 70 ? "High" : os > 50 ? "Medium" : "Low",
-        gridLat: grid.gridLat, gridLng: grid.gridLng, dataSources: ["NJ MOD-IV", "NJ Tax Records"],
-      });
-    }
-  }
-  for (let i = 0; i < batch.length; i += 500) {
-    await db.insert(properties).values(batch.slice(i, i + 500));
-    total += batch.slice(i, i + 500).length;
-  }
-  console.log(`[DataSync]   Inserted ${total} NJ properties`);
-  return total;
-}
-
-async function importCTProperties(): Promise<number> {
-  console.log("[DataSync] Checking CT properties...");
-  const [existing] = await db.select({ cnt: sql<number>`count(*)::int` }).from(properties).where(eq(properties.state, "CT"));
-  if ((existing?.cnt || 0) > 500) {
-    console.log(`[DataSync]   CT already has ${existing?.cnt} properties, skipping.`);
-    return existing?.cnt || 0;
-  }
-
-  console.log("[DataSync]   Importing CT properties from Open Data...");
-  let total = 0;
-  for (const town of CT_TOWNS) {
-    const townUpper = town.toUpperCase();
-    const url = `${CT_OPENDATA_BASE}/rny9-6ak2.json?$where=upper(property_city)='${encodeURIComponent(townUpper)}'&$limit=500&$order=assessed_total DESC`;
-    try {
-      const res = await fetch(url);
-      if (!res.ok) { console.log(`[DataSync]     ${town}: HTTP ${res.status}`); continue; }
-      const records = (await res.json()) as any[];
-      if (!Array.isArray(records) || records.length === 0) continue;
-
-      const batch: any[] = [];
-      for (const r of records) {
-        if (!r.location || !r.assessed_total) continue;
-        const at = parseFloat(r.assessed_total) || 0;
-        if (at < 20000) continue;
-        const ev = Math.round(at * 1.43);
-        const su = r.state_use || "";
-        let pt = CT_STATE_USE_MAP[su] || "SFH";
-        if (r.occupancy && parseInt(r.occupancy) > 4) pt = "Multi-family 5+";
-        const beds = parseInt(r.number_of_bedroom) || (pt === "Condo" ? randomBetween(1, 2) : randomBetween(2, 4));
-        const fb = parseInt(r.number_of_baths) || randomBetween(1, 3);
-        const hb = parseInt(r.number_of_half_baths) || 0;
-        const baths = fb + hb * 0.5;
-        const la = parseInt(r.living_area) || 0;
-        const sqft = la > 0 ? la : randomBetween(800, 2500);
-        const yb = parseInt(r.ayb) || parseInt(r.eyb) || randomBetween(1940, 2020);
-        const ppsf = sqft > 0 ? Math.round(ev / sqft) : 0;
-        let lsp: number | null = null;
-        let lsd: Date | null = null;
-        if (r.prior_sale_price && parseFloat(r.prior_sale_price) > 0) lsp = Math.round(parseFloat(r.prior_sale_price));
-        else if (r.sale_price && parseFloat(r.sale_price) > 0) lsp = Math.round(parseFloat(r.sale_price));
-        if (r.sale_date) { try { lsd = new Date(r.sale_date); if (isNaN(lsd.getTime())) lsd = null; } catch { lsd = null; } }
-        const os = Math.min(100, Math.max(0, randomBetween(35, 85)));
-        const county = CT_COUNTY_MAP[town] || "Unknown";
-        const coords = CT_COORDS[town] || { lat: 41.3, lng: -72.9 };
-        const lat = coords.lat + (Math.random() - 0.5) * 0.03;
-        const lng = coords.lng + (Math.random() - 0.5) * 0.03;
-        const grid = generateGridCoords(lat, lng);
-        let zc = r.mailing_zip?.substring(0, 5);
-        if (!zc || zc.length < 5) zc = CT_ZIP_FALLBACK[town] || "06000";
-        batch.push({
-          address: r.location?.trim() || `${randomBetween(1, 999)} Main St`,
-          city: town, state: "CT", zipCode: zc, county, neighborhood: r.neighborhood || town,
-          latitude: lat, longitude: -Math.abs(lng), propertyType: pt, beds, baths, sqft,
-          lotSize: r.land_acres ? Math.round(parseFloat(r.land_acres) * 43560) : null,
-          yearBuilt: yb, lastSalePrice: lsp, lastSaleDate: lsd, estimatedValue: ev,
-          pricePerSqft: ppsf, opportunityScore: os,
-          confidenceLevel: os > 70 ? "High" : os > 50 ? "Medium" : "Low",
-          gridLat: grid.gridLat, gridLng: grid.gridLng, dataSources: ["CT CAMA", "CT Grand List"],
-        });
-      }
-      if (batch.length > 0) {
-        for (let i = 0; i < batch.length; i += 500) {
-          await db.insert(properties).values(batch.slice(i, i + 500));
-        }
-        total += batch.length;
-        console.log(`[DataSync]     ${town}: ${batch.length} properties (total: ${total})`);
-      }
-    } catch (e) { console.error(`[DataSync]     ${town} error:`, (e as Error).message); }
-  }
-  console.log(`[DataSync]   Total CT properties inserted: ${total}`);
-  return total;
-}
-
-async function generateSalesForNewProperties() {
-  console.log("[DataSync] Generating sales for new NJ/CT properties...");
-  const newProps = await db
-    .select({ id: properties.id, pricePerSqft: properties.pricePerSqft })
-    .from(properties)
-    .where(and(or(eq(properties.state, "NJ"), eq(properties.state, "CT")), sql`NOT EXISTS (SELECT 1 FROM sales WHERE sales.property_id = properties.id)`));
-
-  let count = 0;
-  const batch: any[] = [];
-  for (const prop of newProps) {
-    const n = randomBetween(1, 3);
-    for (let s = 0; s < n; s++) {
-      const ya = randomBetween(1, 12);
-      const sd = new Date(); sd.setFullYear(sd.getFullYear() - ya); sd.setMonth(randomBetween(0, 11));
-      batch.push({
-        propertyId: prop.id,
-        salePrice: Math.min(2000000000, Math.round((prop.pricePerSqft || 200) * randomBetween(600, 1800) * (0.7 + ya * 0.02))),
-        saleDate: sd, armsLength: Math.random() > 0.1, deedType: randomFrom(["Warranty", "Quitclaim", "Grant"]),
-      });
-      count++;
-    }
-  }
-  for (let i = 0; i < batch.length; i += 500) {
-    await db.insert(sales).values(batch.slice(i, i + 500));
-  }
-  console.log(`[DataSync]   Generated ${count} sales records`);
-  return count;
+  console.log("[DataSync] Syncing NYC Open Data (DOB Permits, 311, HPD)...");
+  const result = await syncNycSignalFeeds();
+  for (const failure of result.failures) console.error(`[DataSync]   ${failure}`);
+  return result;
 }
 
 async function computeSignals() {
@@ -480,9 +83,9 @@ async function computeSignals() {
       END,
       true, ARRAY['dob', 'hpd', '311', 'fema'], NOW()
     FROM properties p
-    LEFT JOIN (SELECT bbl, COUNT(*) as permit_count FROM dob_permits_raw WHERE bbl IS NOT NULL GROUP BY bbl) dp ON dp.bbl = p.bbl
+    LEFT JOIN (SELECT bbl, COUNT(*) as permit_count FROM dob_permits_raw WHERE bbl IS NOT NULL AND issuance_date >= NOW() - INTERVAL '12 months' GROUP BY bbl) dp ON dp.bbl = p.bbl
     LEFT JOIN (SELECT bbl, SUM(open_violations) as open_violations, SUM(total_violations) as total_violations FROM hpd_raw WHERE bbl IS NOT NULL GROUP BY bbl) hv ON hv.bbl = p.bbl
-    LEFT JOIN (SELECT bbl, COUNT(*) as complaint_count FROM complaints_311_raw WHERE bbl IS NOT NULL GROUP BY bbl) c3 ON c3.bbl = p.bbl
+    LEFT JOIN (SELECT bbl, COUNT(*) as complaint_count FROM complaints_311_raw WHERE bbl IS NOT NULL AND created_date >= NOW() - INTERVAL '12 months' GROUP BY bbl) c3 ON c3.bbl = p.bbl
     WHERE p.state = 'NY' AND p.city IN ('Manhattan', 'Brooklyn', 'Bronx', 'Queens', 'Staten Island')
     ON CONFLICT (property_id) DO UPDATE SET
       active_permits = EXCLUDED.active_permits, permit_count_12m = EXCLUDED.permit_count_12m,
@@ -499,215 +102,25 @@ async function computeSignals() {
   return result?.cnt || 0;
 }
 
-// Compute market aggregates from REAL recorded sales (ACRIS / NJ MOD-IV / CT GL).
-// Each sale is geo-resolved through condo_units (preferred for NYC) or properties
-// (fallback for non-condo and out-of-NYC). Medians, percentiles, $/sqft, and
-// trends are real percentile_cont values over recorded sale_price; trend12m is
-// (median last 12mo - median prior 12mo) / median prior 12mo. transaction_count
-// is the actual count of recorded sales in the lookback window, not the count of
-// property records. Turnover rate is real sales-in-window / property-stock-in-zip.
-export async function refreshAggregates() {
-  console.log("[DataSync] Refreshing market aggregates from recorded sales...");
-  await db.delete(marketAggregates);
-
-  // Materialize one row per sale with resolved geo + sqft so all rollups share
-  // the same source. property stock per zip is needed for turnover rate.
-  await db.execute(sql`
-    DROP TABLE IF EXISTS tmp_sales_geo;
-    CREATE TEMP TABLE tmp_sales_geo AS
-    SELECT
-      s.id,
-      s.sale_price,
-      s.sale_date,
-      COALESCE(cu.zip_code, p.zip_code) AS zip_code,
-      COALESCE(p.city, cu.borough)      AS city,
-      COALESCE(p.state, 'NY')           AS state,
-      p.county                          AS county,
-      p.neighborhood                    AS neighborhood,
-      COALESCE(cu.sqft, p.sqft)         AS sqft
-    FROM sales s
-    LEFT JOIN condo_units cu ON cu.unit_bbl = s.unit_bbl
-    LEFT JOIN properties  p  ON p.id        = s.property_id
-    WHERE s.sale_price > 50000
-      AND s.sale_date IS NOT NULL
-      AND s.sale_date >= NOW() - INTERVAL '24 months'
-      AND COALESCE(cu.zip_code, p.zip_code) IS NOT NULL;
-    CREATE INDEX ON tmp_sales_geo (zip_code);
-    CREATE INDEX ON tmp_sales_geo (city, state);
-    CREATE INDEX ON tmp_sales_geo (county, state);
-    CREATE INDEX ON tmp_sales_geo (neighborhood, state);
-    CREATE INDEX ON tmp_sales_geo (state);
-  `);
-
-  const stateNames: Record<string, string> = { NY: "New York", NJ: "New Jersey", CT: "Connecticut" };
-  const RECENT = sql`sale_date >= NOW() - INTERVAL '12 months'`;
-  const PRIOR  = sql`sale_date <  NOW() - INTERVAL '12 months' AND sale_date >= NOW() - INTERVAL '24 months'`;
-  const M3     = sql`sale_date >= NOW() - INTERVAL '3 months'`;
-  const M3P    = sql`sale_date <  NOW() - INTERVAL '3 months'  AND sale_date >= NOW() - INTERVAL '6 months'`;
-  const M6     = sql`sale_date >= NOW() - INTERVAL '6 months'`;
-  const M6P    = sql`sale_date <  NOW() - INTERVAL '6 months'  AND sale_date >= NOW() - INTERVAL '12 months'`;
-
-  // Generic helper: builds a query that aggregates tmp_sales_geo by `groupCols`
-  // and returns medians + trend windows. Uses a city/county/neighborhood label
-  // resolved with MODE() so rollups have a sensible display name even when
-  // multiple variants exist in the source data.
-  async function aggregateBy(groupExpr: any, labelExpr: any, stateExpr: any, havingMin: number) {
-    const result = await db.execute(sql`
-      SELECT
-        ${groupExpr} AS group_key,
-        ${labelExpr} AS label,
-        ${stateExpr} AS state,
-        COUNT(*)::int AS sale_count,
-        PERCENTILE_CONT(0.25) WITHIN GROUP (ORDER BY sale_price)::bigint AS p25,
-        PERCENTILE_CONT(0.50) WITHIN GROUP (ORDER BY sale_price)::bigint AS median,
-        PERCENTILE_CONT(0.75) WITHIN GROUP (ORDER BY sale_price)::bigint AS p75,
-        PERCENTILE_CONT(0.25) WITHIN GROUP (ORDER BY sale_price::float / NULLIF(sqft,0))
-          FILTER (WHERE sqft > 100)::int AS p25_ppsf,
-        PERCENTILE_CONT(0.50) WITHIN GROUP (ORDER BY sale_price::float / NULLIF(sqft,0))
-          FILTER (WHERE sqft > 100)::int AS median_ppsf,
-        PERCENTILE_CONT(0.75) WITHIN GROUP (ORDER BY sale_price::float / NULLIF(sqft,0))
-          FILTER (WHERE sqft > 100)::int AS p75_ppsf,
-        PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY sale_price) FILTER (WHERE ${RECENT})::bigint AS median_recent,
-        PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY sale_price) FILTER (WHERE ${PRIOR})::bigint  AS median_prior,
-        PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY sale_price) FILTER (WHERE ${M3})::bigint     AS m3,
-        PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY sale_price) FILTER (WHERE ${M3P})::bigint    AS m3p,
-        PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY sale_price) FILTER (WHERE ${M6})::bigint     AS m6,
-        PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY sale_price) FILTER (WHERE ${M6P})::bigint    AS m6p,
-        (STDDEV_POP(sale_price)::float / NULLIF(AVG(sale_price),0)) AS volatility
-      FROM tmp_sales_geo
-      WHERE ${groupExpr} IS NOT NULL
-      GROUP BY ${groupExpr}
-      HAVING COUNT(*) >= ${havingMin}
-    `);
-    return result.rows as any[];
-  }
-
-  const ratio = (a: any, b: any) => {
-    const an = Number(a); const bn = Number(b);
-    if (!isFinite(an) || !isFinite(bn) || bn <= 0) return 0;
-    const r = (an - bn) / bn;
-    return Math.max(-0.5, Math.min(0.5, r));
-  };
-
-  // ---- ZIP ----
-  const zipRows = await aggregateBy(sql`zip_code`, sql`MODE() WITHIN GROUP (ORDER BY city)`, sql`MODE() WITHIN GROUP (ORDER BY state)`, 5);
-
-  // Property stock per zip for turnover rate
-  const stockResult = await db.execute(sql`
-    SELECT zip_code, COUNT(*)::int AS stock FROM properties WHERE zip_code IS NOT NULL GROUP BY zip_code
-  `);
-  const stockByZip = new Map<string, number>();
-  for (const r of stockResult.rows as any[]) stockByZip.set(r.zip_code, r.stock);
-
-  const zipBatch = zipRows.map((r) => ({
-    geoType: "zip", geoId: r.group_key, geoName: r.label ? `${r.label} ${r.group_key}` : `ZIP ${r.group_key}`, state: r.state,
-    medianPrice: Number(r.median) || 0,
-    medianPricePerSqft: r.median_ppsf != null ? Number(r.median_ppsf) : null,
-    p25Price: Number(r.p25) || 0,
-    p75Price: Number(r.p75) || 0,
-    p25PricePerSqft: r.p25_ppsf != null ? Number(r.p25_ppsf) : null,
-    p75PricePerSqft: r.p75_ppsf != null ? Number(r.p75_ppsf) : null,
-    transactionCount: Number(r.sale_count) || 0,
-    turnoverRate: stockByZip.get(r.group_key) ? Math.min(1, (Number(r.sale_count) / 2) / stockByZip.get(r.group_key)!) : null,
-    volatility: r.volatility != null ? Number(r.volatility) : null,
-    trend3m: ratio(r.m3, r.m3p),
-    trend6m: ratio(r.m6, r.m6p),
-    trend12m: ratio(r.median_recent, r.median_prior),
-    computedAt: new Date(),
-  }));
-
-  let aggCount = 0;
-  for (let i = 0; i < zipBatch.length; i += 500) await db.insert(marketAggregates).values(zipBatch.slice(i, i + 500));
-  aggCount += zipBatch.length;
-
-  // ---- CITY ----
-  const cityRows = await aggregateBy(sql`city`, sql`MODE() WITHIN GROUP (ORDER BY city)`, sql`MODE() WITHIN GROUP (ORDER BY state)`, 10);
-  const cityBatch = cityRows.map((r) => ({
-    geoType: "city", geoId: String(r.group_key).toLowerCase().replace(/\s+/g, "-"),
-    geoName: r.label || r.group_key, state: r.state,
-    medianPrice: Number(r.median) || 0,
-    medianPricePerSqft: r.median_ppsf != null ? Number(r.median_ppsf) : null,
-    p25Price: Number(r.p25) || 0, p75Price: Number(r.p75) || 0,
-    p25PricePerSqft: r.p25_ppsf != null ? Number(r.p25_ppsf) : null,
-    p75PricePerSqft: r.p75_ppsf != null ? Number(r.p75_ppsf) : null,
-    transactionCount: Number(r.sale_count) || 0,
-    turnoverRate: null, volatility: r.volatility != null ? Number(r.volatility) : null,
-    trend3m: ratio(r.m3, r.m3p), trend6m: ratio(r.m6, r.m6p), trend12m: ratio(r.median_recent, r.median_prior),
-    computedAt: new Date(),
-  }));
-  for (let i = 0; i < cityBatch.length; i += 500) await db.insert(marketAggregates).values(cityBatch.slice(i, i + 500));
-  aggCount += cityBatch.length;
-
-  // ---- COUNTY ----
-  const countyRows = await aggregateBy(sql`county`, sql`MODE() WITHIN GROUP (ORDER BY county)`, sql`MODE() WITHIN GROUP (ORDER BY state)`, 10);
-  const countyBatch = countyRows.map((r) => ({
-    geoType: "county", geoId: String(r.group_key).toLowerCase().replace(/\s+/g, "-"),
-    geoName: `${r.label || r.group_key} County`, state: r.state,
-    medianPrice: Number(r.median) || 0,
-    medianPricePerSqft: r.median_ppsf != null ? Number(r.median_ppsf) : null,
-    p25Price: Number(r.p25) || 0, p75Price: Number(r.p75) || 0,
-    p25PricePerSqft: r.p25_ppsf != null ? Number(r.p25_ppsf) : null,
-    p75PricePerSqft: r.p75_ppsf != null ? Number(r.p75_ppsf) : null,
-    transactionCount: Number(r.sale_count) || 0,
-    turnoverRate: null, volatility: r.volatility != null ? Number(r.volatility) : null,
-    trend3m: ratio(r.m3, r.m3p), trend6m: ratio(r.m6, r.m6p), trend12m: ratio(r.median_recent, r.median_prior),
-    computedAt: new Date(),
-  }));
-  for (let i = 0; i < countyBatch.length; i += 500) await db.insert(marketAggregates).values(countyBatch.slice(i, i + 500));
-  aggCount += countyBatch.length;
-
-  // ---- NEIGHBORHOOD ----
-  const nhRows = await aggregateBy(sql`neighborhood`, sql`MODE() WITHIN GROUP (ORDER BY neighborhood)`, sql`MODE() WITHIN GROUP (ORDER BY state)`, 10);
-  const nhBatch = nhRows.map((r) => ({
-    geoType: "neighborhood", geoId: String(r.group_key).toLowerCase().replace(/\s+/g, "-"),
-    geoName: r.label || r.group_key, state: r.state,
-    medianPrice: Number(r.median) || 0,
-    medianPricePerSqft: r.median_ppsf != null ? Number(r.median_ppsf) : null,
-    p25Price: Number(r.p25) || 0, p75Price: Number(r.p75) || 0,
-    p25PricePerSqft: r.p25_ppsf != null ? Number(r.p25_ppsf) : null,
-    p75PricePerSqft: r.p75_ppsf != null ? Number(r.p75_ppsf) : null,
-    transactionCount: Number(r.sale_count) || 0,
-    turnoverRate: null, volatility: r.volatility != null ? Number(r.volatility) : null,
-    trend3m: ratio(r.m3, r.m3p), trend6m: ratio(r.m6, r.m6p), trend12m: ratio(r.median_recent, r.median_prior),
-    computedAt: new Date(),
-  }));
-  for (let i = 0; i < nhBatch.length; i += 500) await db.insert(marketAggregates).values(nhBatch.slice(i, i + 500));
-  aggCount += nhBatch.length;
-
-  // ---- STATE ----
-  const stateRows = await aggregateBy(sql`state`, sql`MODE() WITHIN GROUP (ORDER BY state)`, sql`MODE() WITHIN GROUP (ORDER BY state)`, 10);
-  const stateBatch = stateRows.map((r) => ({
-    geoType: "state", geoId: r.group_key, geoName: stateNames[r.group_key as string] || r.group_key, state: r.group_key,
-    medianPrice: Number(r.median) || 0,
-    medianPricePerSqft: r.median_ppsf != null ? Number(r.median_ppsf) : null,
-    p25Price: Number(r.p25) || 0, p75Price: Number(r.p75) || 0,
-    p25PricePerSqft: r.p25_ppsf != null ? Number(r.p25_ppsf) : null,
-    p75PricePerSqft: r.p75_ppsf != null ? Number(r.p75_ppsf) : null,
-    transactionCount: Number(r.sale_count) || 0,
-    turnoverRate: null, volatility: r.volatility != null ? Number(r.volatility) : null,
-    trend3m: ratio(r.m3, r.m3p), trend6m: ratio(r.m6, r.m6p), trend12m: ratio(r.median_recent, r.median_prior),
-    computedAt: new Date(),
-  }));
-  if (stateBatch.length > 0) await db.insert(marketAggregates).values(stateBatch);
-  aggCount += stateBatch.length;
-
-  await db.execute(sql`DROP TABLE IF EXISTS tmp_sales_geo;`);
-  console.log(`[DataSync]   Total aggregates: ${aggCount} (zip ${zipBatch.length}, city ${cityBatch.length}, county ${countyBatch.length}, nh ${nhBatch.length}, state ${stateBatch.length})`);
-  return aggCount;
-}
-
 async function updateDataSources() {
   console.log("[DataSync] Updating data sources...");
   await db.delete(dataSources);
   const now = new Date();
+  const counts = await db.execute(sql`
+    SELECT
+      (SELECT COUNT(*)::int FROM properties WHERE 'NJ MOD-IV' = ANY(data_sources)) AS nj,
+      (SELECT COUNT(*)::int FROM properties WHERE 'CT CAMA' = ANY(data_sources)) AS ct
+  `);
+  const njRecords = (counts.rows[0] as any)?.nj || 0;
+  const ctRecords = (counts.rows[0] as any)?.ct || 0;
   await db.insert(dataSources).values([
     { name: "NYC PLUTO (Full)", type: "public", description: "NYC Primary Land Use Tax Lot Output", refreshCadence: "quarterly", lastRefresh: now, recordCount: 176778, licensingNotes: "NYC Open Data, free public access", isActive: true },
     { name: "ACRIS Real Property", type: "public", description: "NYC property transactions and deeds", refreshCadence: "daily", lastRefresh: now, recordCount: 100000, licensingNotes: "NYC Open Data, free public access", isActive: true },
     { name: "NYC DOB Permits", type: "public", description: "DOB issued permits", refreshCadence: "daily", lastRefresh: now, recordCount: 20000, licensingNotes: "NYC Open Data, free public access", isActive: true },
     { name: "NYC 311 Complaints", type: "public", description: "311 Service Requests", refreshCadence: "daily", lastRefresh: now, recordCount: 20000, licensingNotes: "NYC Open Data, free public access", isActive: true },
     { name: "NYC HPD Violations", type: "public", description: "Housing Preservation & Development violations", refreshCadence: "weekly", lastRefresh: now, recordCount: 20000, licensingNotes: "NYC Open Data, free public access", isActive: true },
-    { name: "NJ Tax Assessment (MOD-IV)", type: "public", description: "NJ property tax assessments", refreshCadence: "annual", lastRefresh: now, recordCount: 4500, licensingNotes: "NJ OGIS Open Data", isActive: true },
-    { name: "CT CAMA & Parcel Data", type: "public", description: "CT assessed values and property details", refreshCadence: "annual", lastRefresh: now, recordCount: 10000, licensingNotes: "CT Open Data Portal (data.ct.gov)", isActive: true },
+    { name: "NJ Tax Assessment (MOD-IV)", type: "public", description: "NJ MOD-IV tax list assessments and recorded deeds", refreshCadence: "annual", lastRefresh: now, recordCount: njRecords, licensingNotes: "NJ OGIS / county tax board MOD-IV extracts", isActive: true },
+    { name: "CT CAMA & Parcel Data", type: "public", description: "CT CAMA assessed values and property details with OPM recorded sales", refreshCadence: "annual", lastRefresh: now, recordCount: ctRecords, licensingNotes: "CT municipal CAMA and OPM sales extracts (data.ct.gov)", isActive: true },
     { name: "Zillow Research Data", type: "public", description: "ZHVI market trends", refreshCadence: "monthly", lastRefresh: now, recordCount: 3200, licensingNotes: "Zillow Research CSV files", isActive: true },
   ]);
 
@@ -742,8 +155,10 @@ export async function checkAndSyncProductionData() {
     console.log(`[DataSync]   Market Aggregates: ${aggregates}`);
     console.log(`[DataSync]   Signals: ${signals}`);
 
-    const needsNJ = njCount < 500;
-    const needsCT = ctCount < 500;
+    // NJ / CT come from local assessor extracts; without them configured
+    // there is nothing to sync for those states
+    const needsNJ = njCount < 500 && !!process.env.NJ_MODIV_FILE;
+    const needsCT = ctCount < 500 && !!process.env.CT_CAMA_FILE;
     const needsSignals = signals === 0;
     const needsAggregates = aggregates === 0;
 
@@ -754,24 +169,30 @@ export async function checkAndSyncProductionData() {
 
     console.log(`[DataSync] Starting in-process data sync...`);
     const startTime = Date.now();
+    const changeBaseline = await capturePropertySnapshot();
 
     if (needsSignals) {
       await refreshNYCETL();
     }
     if (needsNJ) {
-      await importNJProperties();
+      await importNJModIV();
     }
     if (needsCT) {
-      await importCTProperties();
-    }
-    if (needsNJ || needsCT) {
-      await generateSalesForNewProperties();
+      await importCTCama();
+      await importCTSales();
     }
     if (needsSignals) {
       await computeSignals();
+      await assignFloodRisk();
+      await computeDistressSignals();
     }
 
+    await assignNeighborhoods();
+    await buildGazetteer();
+    await buildAddressSearchIndex();
     await refreshAggregates();
+    await detectAndRecordChanges(changeBaseline, "production sync");
+    await evaluateAlerts();
     await updateDataSources();
 
     const elapsed = Math.round((Date.now() - startTime) / 1000);
@@ -5,7 +5,7 @@ import { z } from "zod";
 import { storage } from "./storage";
 import { setupAuth, isAuthenticated, optionalAuth, hashPassword, hashActivationToken, generateActivationToken } from "./auth";
 import { analyzeProperty, analyzeMarket, generateDealMemo, calculateScenario, analyzeScenario, generatePropertyInsights, type ScenarioInputs, type PropertyInsights } from "./openai";
-import { insertWatchlistSchema, insertAlertSchema, insertNotificationSchema, type ScreenerFilters, properties, propertySignalSummary } from "@shared/schema";
+import { insertWatchlistSchema, insertAlertSchema, insertNotificationSchema, searchAreaSchema, screenerSorts, type ScreenerFilters, type ScreenerCursor, type ScreenerPageRequest, type ScreenerSort, type SearchArea, type ScoreBacktestReport, properties, propertySignalSummary, floodRiskLevels, matchReviewSubjectTypes, matchReviewActions } from "@shared/schema";
 import { db } from "./db";
 import { sql, eq } from "drizzle-orm";
 import { stripeService } from "./stripeService";
@@ -16,7 +16,22 @@ import { sendWelcomeEmail, sendNewUserNotificationToAdmin, sendActivationEmail,
 import { serveStreetView, serveStaticMap, getCacheStats } from "./services/mapImageCache";
 import { getOrGenerateNarrative } from "./narratives";
 import { usageService, ActionType } from "./usageService";
-import { processDailyDigest, processInstantAlerts, recordPropertyChange } from "./savedSearchService";
+import { processDailyDigest, processInstantAlerts, processWeeklyDigest, recordPropertyChange } from "./savedSearchService";
+import { runNotificationJob } from "./notificationScheduler";
+import { evaluateAlerts } from "./alertService";
+import { spawnEtlResume, ETL_PIPELINE_SCRIPTS } from "./services/etlRunner";
+import { getLatestScoreBacktest } from "./services/scoreBacktest";
+import { neighborhoodKey } from "./services/neighborhoods";
+import { getOwnerProfile, getPropertyOwnerProfile, getBuildingOwnerProfile } from "./services/ownershipGraph";
+import { searchGazetteer } from "./services/gazetteer";
+import { searchUnified } from "./services/addressSearch";
+import {
+  getMatchReviewQueue,
+  getMatchReviewItem,
+  getMatchCandidates,
+  resolveDecisionTarget,
+  saveMatchReviewDecision,
+} from "./services/matchReview";
 
 const FREE_TIER_LIMITS = {
   search: { daily: 5 },
@@ -237,6 +252,115 @@ function generateUnitSlug(unit: {
   return parts.filter(Boolean).join('-');
 }
 
+// Reads a drawn search area from its JSON form (the `area` query parameter
+// or a saved search's filters). Returns null when it isn't a valid area.
+function parseSearchArea(value: unknown): SearchArea | null {
+  let parsed = value;
+  if (typeof value === "string") {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+  const result = searchAreaSchema.safeParse(parsed);
+  return result.success ? result.data : null;
+}
+
+// Parses screener filters from a query string. Shared by the in-app screener
+// and the external API so a filter means the same thing on both.
+function parseScreenerFilters(query: any): ScreenerFilters {
+  const list = (key: string) => (query[key] ? (query[key] as string).split(",") : undefined);
+  // Unparseable numbers are dropped rather than passed on as NaN
+  const finite = (value: number) => (Number.isFinite(value) ? value : undefined);
+  const int = (key: string) => (query[key] ? finite(parseInt(query[key] as string)) : undefined);
+  const num = (key: string) => (query[key] ? finite(parseFloat(query[key] as string)) : undefined);
+
+  const validStates = ["NY", "NJ", "CT"] as const;
+  const state = query.state && validStates.includes(query.state) ? query.state as "NY" | "NJ" | "CT" : undefined;
+  const floodRiskMax = floodRiskLevels.includes(query.floodRiskMax) ? query.floodRiskMax : undefined;
+
+  return {
+    state,
+    zipCodes: list("zipCodes"),
+    cities: list("cities"),
+    propertyTypes: list("propertyTypes") as any,
+    bedsBands: list("bedsBands"),
+    bathsBands: list("bathsBands"),
+    yearBuiltBands: list("yearBuiltBands"),
+    sizeBands: list("sizeBands"),
+    priceMin: int("priceMin"),
+    priceMax: int("priceMax"),
+    opportunityScoreMin: int("opportunityScoreMin"),
+    confidenceLevels: list("confidenceLevels") as any,
+    bedsMin: int("bedsMin"),
+    bedsMax: int("bedsMax"),
+    bathsMin: num("bathsMin"),
+    transitScoreMin: int("transitScoreMin"),
+    buildingHealthMin: int("buildingHealthMin"),
+    floodRiskMax,
+    distressScoreMin: int("distressScoreMin"),
+    area: query.area ? parseSearchArea(query.area) ?? undefined : undefined,
+  };
+}
+
+// Keyset cursors are opaque to clients: base64url JSON of the sort, order,
+// sort value and id of the last row on the page
+function encodeScreenerCursor(cursor: ScreenerCursor): string {
+  return Buffer.from(JSON.stringify([cursor.sort, cursor.order, cursor.value, cursor.id])).toString("base64url");
+}
+
+function decodeScreenerCursor(encoded: string): ScreenerCursor | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(Buffer.from(encoded, "base64url").toString());
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(parsed) || parsed.length !== 4) return null;
+  const [sort, order, value, id] = parsed;
+  if (!screenerSorts.includes(sort) || (order !== "asc" && order !== "desc") || typeof id !== "string") return null;
+  if (value !== null && (typeof value !== "string" || !isValidCursorValue(sort, value))) return null;
+  return { sort, order, value, id };
+}
+
+// Cursor values are cast in SQL with their sort's type, so anything the cast
+// would reject must be caught here: integers in int4 range for score, price
+// and score_change, finite numbers for price_per_sqft, and real calendar
+// timestamps as Postgres prints them for last_sale_date
+function isValidCursorValue(sort: ScreenerSort, value: string): boolean {
+  if (sort === "last_sale_date") {
+    const match = /^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2}):(\d{2})(?:\.\d+)?)?$/.exec(value);
+    if (!match) return false;
+    const [year, month, day, hour, minute, second] = match.slice(1).map((part) => Number(part ?? 0));
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return year > 0 && date.getUTCMonth() === month - 1 && date.getUTCDate() === day && hour < 24 && minute < 60 && second < 60;
+  }
+  if (sort === "price_per_sqft") {
+    return /^-?\d+(\.\d+)?(e[-+]?\d+)?$/i.test(value) && Number.isFinite(Number(value));
+  }
+  return /^-?\d+$/.test(value) && Number(value) >= -2147483648 && Number(value) <= 2147483647;
+}
+
+// Parses sort, order, limit and cursor for the keyset-paged screener
+// endpoints. Sort and order default to the cursor's; a cursor from a
+// different sort is rejected rather than returning a misordered page.
+function parseScreenerPage(query: any, maxLimit: number): { page: ScreenerPageRequest } | { error: string } {
+  const cursor = query.cursor ? decodeScreenerCursor(String(query.cursor)) : undefined;
+  if (cursor === null) return { error: "cursor is invalid" };
+
+  const sort = (query.sort ?? cursor?.sort ?? "score") as ScreenerSort;
+  if (!screenerSorts.includes(sort)) return { error: `sort must be one of ${screenerSorts.join(", ")}` };
+  const order = query.order ?? cursor?.order ?? "desc";
+  if (order !== "asc" && order !== "desc") return { error: "order must be asc or desc" };
+  if (cursor && (cursor.sort !== sort || cursor.order !== order)) {
+    return { error: "cursor belongs to a different sort or order" };
+  }
+
+  const limit = Math.min(Math.max(parseInt(query.limit) || 50, 1), maxLimit);
+  return { page: { sort, order, limit, cursor } };
+}
+
 export async function registerRoutes(
   httpServer: Server,
   app: Express
@@ -1023,27 +1147,15 @@ Sitemap: ${baseUrl}/sitemap.xml
 
   app.get("/api/properties/screener", optionalAuth, async (req: any, res) => {
     try {
-      const stateParam = req.query.state as string | undefined;
-      const validStates = ["NY", "NJ", "CT"] as const;
-      const state = stateParam && validStates.includes(stateParam as any) ? stateParam as "NY" | "NJ" | "CT" : undefined;
-      
-      const filters: ScreenerFilters = {
-        state,
-        zipCodes: req.query.zipCodes ? (req.query.zipCodes as string).split(",") : undefined,
-        cities: req.query.cities ? (req.query.cities as string).split(",") : undefined,
-        propertyTypes: req.query.propertyTypes ? (req.query.propertyTypes as string).split(",") as any : undefined,
-        bedsBands: req.query.bedsBands ? (req.query.bedsBands as string).split(",") : undefined,
-        bathsBands: req.query.bathsBands ? (req.query.bathsBands as string).split(",") : undefined,
-        yearBuiltBands: req.query.yearBuiltBands ? (req.query.yearBuiltBands as string).split(",") : undefined,
-        sizeBands: req.query.sizeBands ? (req.query.sizeBands as string).split(",") : undefined,
-        priceMin: req.query.priceMin ? parseInt(req.query.priceMin as string) : undefined,
-        priceMax: req.query.priceMax ? parseInt(req.query.priceMax as string) : undefined,
-        opportunityScoreMin: req.query.opportunityScoreMin ? parseInt(req.query.opportunityScoreMin as string) : undefined,
-        confidenceLevels: req.query.confidenceLevels ? (req.query.confidenceLevels as string).split(",") as any : undefined,
-      };
-      
-      let requestedLimit = parseInt(req.query.limit as string) || 50;
-      const offset = parseInt(req.query.offset as string) || 0;
+      const filters = parseScreenerFilters(req.query);
+      if (req.query.area && !filters.area) {
+        return res.status(400).json({ message: "area must be a polygon or radius search area" });
+      }
+      const parsedPage = parseScreenerPage(req.query, 200);
+      if ("error" in parsedPage) {
+        return res.status(400).json({ message: parsedPage.error });
+      }
+      const { page } = parsedPage;
       
       let isFreeUser = true;
       if (req.isAuthenticated()) {
@@ -1054,15 +1166,34 @@ Sitemap: ${baseUrl}/sitemap.xml
       }
       
       const FREE_VISIBLE_COUNT = 3;
-      const properties = await storage.getProperties(filters, requestedLimit, offset);
-      const totalCount = properties.length;
-      const hiddenCount = isFreeUser ? Math.max(0, totalCount - FREE_VISIBLE_COUNT) : 0;
+      const [{ items: properties, total, nextCursor }, facets] = await Promise.all([
+        storage.getPropertiesPage(filters, page),
+        req.query.facets === "true" ? storage.getPropertyFacets(filters) : undefined,
+      ]);
+      // A drawn area also returns the NYC condo units inside it for the map.
+      // These are not paged: every page carries the first `limit` units in
+      // the same sort, and the cursor only advances the properties.
+      const includeUnits =
+        !!filters.area &&
+        (!filters.state || filters.state === "NY") &&
+        (!filters.propertyTypes?.length || filters.propertyTypes.includes("Condo"));
+      const units = includeUnits
+        ? (await storage.getCondoUnitsPage([], filters, { sort: page.sort, order: page.order, limit: page.limit })).items
+        : undefined;
+      const hiddenCount = isFreeUser ? Math.max(0, total - FREE_VISIBLE_COUNT) : 0;
       
       res.json({
         properties,
-        limited: isFreeUser && totalCount > FREE_VISIBLE_COUNT,
-        visibleCount: isFreeUser ? FREE_VISIBLE_COUNT : totalCount,
+        total,
+        // Free users see the first page only
+        nextCursor: nextCursor && !isFreeUser ? encodeScreenerCursor(nextCursor) : null,
+        sort: page.sort,
+        order: page.order,
+        limited: isFreeUser && total > FREE_VISIBLE_COUNT,
+        visibleCount: isFreeUser ? FREE_VISIBLE_COUNT : properties.length,
         hiddenCount,
+        units,
+        facets,
         message: isFreeUser && hiddenCount > 0 
           ? `Unlock ${hiddenCount} more undervalued properties in this area with Pro.` 
           : undefined,
@@ -1174,6 +1305,19 @@ Sitemap: ${baseUrl}/sitemap.xml
     }
   });
 
+  app.get("/api/units/:unitBbl/score-history", async (req, res) => {
+    try {
+      const history = await storage.getScoreHistory("unit", req.params.unitBbl);
+      if (!history) {
+        return res.status(404).json({ message: "Unit not found" });
+      }
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching unit score history:", error);
+      res.status(500).json({ message: "Failed to fetch score history" });
+    }
+  });
+
   app.get("/api/units/:unitBbl/insights", isAuthenticated, async (req: any, res) => {
     try {
       const { unitBbl } = req.params;
@@ -1534,6 +1678,15 @@ Sitemap: ${baseUrl}/sitemap.xml
     }
   });
 
+  app.get("/api/buildings/:baseBbl/owner", async (req, res) => {
+    try {
+      res.json(await getBuildingOwnerProfile(req.params.baseBbl));
+    } catch (error) {
+      console.error("Error fetching building owner:", error);
+      res.status(500).json({ message: "Failed to fetch building owner" });
+    }
+  });
+
   app.get("/api/condo-units/:unitBbl", async (req, res) => {
     try {
       const { unitBbl } = req.params;
@@ -1682,13 +1835,52 @@ Sitemap: ${baseUrl}/sitemap.xml
         // and should be de-indexed faster than a 404
         return res.status(410).json({ message: "Property no longer available" });
       }
-      res.json(property);
+      const [scoreBreakdown, valuation] = await Promise.all([
+        storage.getPropertyScoreBreakdown(property.id),
+        storage.getPropertyValuation(property.id),
+      ]);
+      res.json({ ...property, scoreBreakdown: scoreBreakdown ?? null, valuation: valuation ?? null });
     } catch (error) {
       console.error("Error fetching property:", error);
       res.status(500).json({ message: "Failed to fetch property" });
     }
   });
 
+  app.get("/api/properties/:id/score-history", async (req, res) => {
+    try {
+      const history = await storage.getScoreHistory("property", req.params.id);
+      if (!history) {
+        return res.status(404).json({ message: "Property not found" });
+      }
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching score history:", error);
+      res.status(500).json({ message: "Failed to fetch score history" });
+    }
+  });
+
+  app.get("/api/properties/:id/owner", async (req, res) => {
+    try {
+      res.json(await getPropertyOwnerProfile(req.params.id));
+    } catch (error) {
+      console.error("Error fetching property owner:", error);
+      res.status(500).json({ message: "Failed to fetch property owner" });
+    }
+  });
+
+  app.get("/api/owners/:entityId", async (req, res) => {
+    try {
+      const profile = await getOwnerProfile(req.params.entityId);
+      if (!profile) {
+        return res.status(404).json({ message: "Owner not found" });
+      }
+      res.json(profile);
+    } catch (error) {
+      console.error("Error fetching owner profile:", error);
+      res.status(500).json({ message: "Failed to fetch owner profile" });
+    }
+  });
+
   app.get("/api/properties/:id/view-status", optionalAuth, async (req: any, res) => {
     try {
       const propertyId = req.params.id;
@@ -2092,6 +2284,27 @@ Sitemap: ${baseUrl}/sitemap.xml
     }
   });
 
+  // Monthly snapshots of one geography/segment - public read access
+  app.get("/api/market/aggregates/history", async (req, res) => {
+    try {
+      const { geoType, geoId, propertyType, bedsBand, bathsBand, yearBuiltBand, sizeBand, state, months } = req.query;
+      if (!geoType || !geoId) {
+        return res.status(400).json({ message: "geoType and geoId are required" });
+      }
+      const monthCount = Math.min(Math.max(parseInt(months as string) || 24, 1), 120);
+      const history = await storage.getMarketAggregateHistory(
+        geoType as string,
+        geoId as string,
+        { propertyType, bedsBand, bathsBand, yearBuiltBand, sizeBand, state },
+        monthCount
+      );
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching market aggregate history:", error);
+      res.status(500).json({ message: "Failed to fetch market history" });
+    }
+  });
+
   // Recent sales for an area - public read access
   app.get("/api/market/recent-sales", async (req, res) => {
     try {
@@ -2116,7 +2329,8 @@ Sitemap: ${baseUrl}/sitemap.xml
     try {
       const state = req.query.state as string | undefined;
       const limit = parseInt(req.query.limit as string) || 25;
-      const upAndComingZips = await storage.getUpAndComingZips(state, limit);
+      const trendSource = req.query.trendSource === "repeat_sales" ? "repeat_sales" : "median";
+      const upAndComingZips = await storage.getUpAndComingZips(state, limit, trendSource);
       res.json(upAndComingZips);
     } catch (error) {
       console.error("Error fetching up and coming ZIPs:", error);
@@ -2136,7 +2350,7 @@ Sitemap: ${baseUrl}/sitemap.xml
         return;
       }
       
-      const results = await storage.searchGeo(query);
+      const results = await searchGazetteer(query);
       res.json(results);
     } catch (error) {
       console.error("Error searching geo:", error);
@@ -2158,8 +2372,9 @@ Sitemap: ${baseUrl}/sitemap.xml
         return;
       }
       
-      const results = await storage.searchUnified(query, filter as "all" | "buildings" | "units");
-      res.json(results);
+      const results = await searchUnified(query, filter as "all" | "buildings" | "units");
+      const locations = filter === "all" ? await searchGazetteer(query) : [];
+      res.json({ ...results, locations });
     } catch (error) {
       console.error("Error in unified search:", error);
       res.status(500).json({ message: "Failed to search" });
@@ -2358,8 +2573,14 @@ Sitemap: ${baseUrl}/sitemap.xml
       const marketData = await storage.getMarketAggregates(geoType, geoId, {});
       const market = marketData.length > 0 ? marketData[0] : null;
 
+      const areaCondition =
+        geoType === "zip"
+          ? eq(properties.zipCode, geoId)
+          : geoType === "neighborhood"
+            ? sql`${neighborhoodKey("properties")} = ${geoId.toLowerCase()}`
+            : sql`1=1`;
       const propertiesRes = await db.select().from(properties)
-        .where(geoType === "zip" ? eq(properties.zipCode, geoId) : sql`1=1`)
+        .where(areaCondition)
         .limit(500);
 
       const signalAgg = await db.select({
@@ -2381,7 +2602,7 @@ Sitemap: ${baseUrl}/sitemap.xml
       })
       .from(propertySignalSummary)
       .innerJoin(properties, eq(propertySignalSummary.propertyId, properties.id))
-      .where(geoType === "zip" ? eq(properties.zipCode, geoId) : sql`1=1`);
+      .where(areaCondition);
 
       const signals = signalAgg[0] || {};
 
@@ -2494,14 +2715,54 @@ Sitemap: ${baseUrl}/sitemap.xml
     }
   });
 
+  // Polygon for the neighborhood report map; only imported boundaries have one
+  app.get("/api/neighborhood/:geoId/boundary", async (req, res) => {
+    try {
+      const boundary = await storage.getNeighborhoodBoundary(req.params.geoId);
+      if (!boundary) {
+        return res.status(404).json({ message: "Boundary not found" });
+      }
+      res.setHeader("Cache-Control", "public, max-age=3600, s-maxage=86400");
+      res.json(boundary);
+    } catch (error) {
+      console.error("Error fetching neighborhood boundary:", error);
+      res.status(500).json({ message: "Failed to fetch neighborhood boundary" });
+    }
+  });
+
+  // Boundaries as a GeoJSON FeatureCollection for map overlays, optionally
+  // limited to a state and to a bbox of minLng,minLat,maxLng,maxLat
+  app.get("/api/neighborhood-boundaries", async (req, res) => {
+    try {
+      const state = req.query.state ? String(req.query.state).toUpperCase() : undefined;
+      let bbox: [number, number, number, number] | undefined;
+      if (req.query.bbox) {
+        const parts = String(req.query.bbox).split(",").map(Number);
+        if (parts.length !== 4 || parts.some((n) => !isFinite(n))) {
+          return res.status(400).json({ message: "bbox must be minLng,minLat,maxLng,maxLat" });
+        }
+        bbox = parts as [number, number, number, number];
+      }
+      const features = await storage.getNeighborhoodBoundaries({ state, bbox });
+      res.setHeader("Cache-Control", "public, max-age=3600, s-maxage=86400");
+      res.json({ type: "FeatureCollection", features });
+    } catch (error) {
+      console.error("Error fetching neighborhood boundaries:", error);
+      res.status(500).json({ message: "Failed to fetch neighborhood boundaries" });
+    }
+  });
+
   app.get("/api/neighborhood/:geoId/price-trends", optionalAuth, async (req: any, res) => {
     try {
       const { geoId } = req.params;
       const geoType = (req.query.geoType as string) || "zip";
 
       if (geoType !== "zip") {
+        // Yearly medians are ZIP-only; neighborhoods and boroughs still have
+        // a repeat-sales index
+        const repeatSalesIndex = await storage.getRepeatSalesIndex(geoType, geoId);
         res.setHeader("Cache-Control", "public, s-maxage=300, stale-while-revalidate=600");
-        return res.json({ geoId, geoType, years: [], summary: null });
+        return res.json({ geoId, geoType, years: [], summary: null, repeatSalesIndex });
       }
 
       const trendsCacheKey = `trends:${geoType}:${geoId}`;
@@ -2580,7 +2841,8 @@ Sitemap: ${baseUrl}/sitemap.xml
           }
         : null;
 
-      const payload = { geoId, geoType, years, summary };
+      const repeatSalesIndex = await storage.getRepeatSalesIndex(geoType, geoId);
+      const payload = { geoId, geoType, years, summary, repeatSalesIndex };
       setCached(trendsCacheKey, payload);
       res.setHeader("Cache-Control", "public, max-age=300, s-maxage=300, stale-while-revalidate=600");
       res.setHeader("X-Cache", "MISS");
@@ -2834,7 +3096,7 @@ Sitemap: ${baseUrl}/sitemap.xml
       if (user?.role !== "admin") {
         return res.status(403).json({ message: "Forbidden" });
       }
-      const { refreshAggregates } = await import("./productionDataSync");
+      const { refreshAggregates } = await import("./services/marketAggregates");
       const startedAt = Date.now();
       const count = await refreshAggregates();
       const elapsedMs = Date.now() - startedAt;
@@ -2845,18 +3107,37 @@ Sitemap: ${baseUrl}/sitemap.xml
     }
   });
 
-  // ETL status (admin) - mock for now
+  // ETL status (admin) - summary of the latest run of each pipeline
   app.get("/api/admin/etl-status", isAuthenticated, async (req: any, res) => {
     try {
       const user = await storage.getUser(req.user.id);
       if (user?.role !== "admin") {
         return res.status(403).json({ message: "Forbidden" });
       }
+      const runs = await storage.getEtlRuns(100);
+      const latestByPipeline = new Map<string, (typeof runs)[number]>();
+      for (const run of runs) {
+        if (!latestByPipeline.has(run.pipeline)) latestByPipeline.set(run.pipeline, run);
+      }
+      const latest = Array.from(latestByPipeline.values());
+      const failing = latest.filter((run) => run.status === "failed");
+
       res.json({
-        lastRun: new Date().toISOString(),
-        status: "healthy",
-        recordsProcessed: 45823,
-        errors: 0,
+        lastRun: runs[0]?.startedAt ?? null,
+        status: failing.length > 0 ? "failing" : latest.some((run) => run.status === "running") ? "running" : "healthy",
+        recordsProcessed: latest.reduce(
+          (sum, run) => sum + run.steps.reduce((stepSum, step) => stepSum + (step.rowsWritten || 0), 0),
+          0
+        ),
+        errors: failing.length,
+        pipelines: latest.map((run) => ({
+          pipeline: run.pipeline,
+          runId: run.id,
+          status: run.status,
+          startedAt: run.startedAt,
+          finishedAt: run.finishedAt,
+          error: run.error,
+        })),
       });
     } catch (error) {
       console.error("Error fetching ETL status:", error);
@@ -2864,6 +3145,206 @@ Sitemap: ${baseUrl}/sitemap.xml
     }
   });
 
+  app.get("/api/admin/etl-runs", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (user?.role !== "admin") {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      const limit = Math.min(parseInt(req.query.limit as string) || 25, 100);
+      const pipeline = typeof req.query.pipeline === "string" ? req.query.pipeline : undefined;
+      const runs = await storage.getEtlRuns(limit, pipeline);
+      res.json(runs);
+    } catch (error) {
+      console.error("Error fetching ETL runs:", error);
+      res.status(500).json({ message: "Failed to fetch ETL runs" });
+    }
+  });
+
+  app.get("/api/admin/etl-runs/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (user?.role !== "admin") {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      const run = await storage.getEtlRun(req.params.id);
+      if (!run) {
+        return res.status(404).json({ message: "ETL run not found" });
+      }
+      res.json(run);
+    } catch (error) {
+      console.error("Error fetching ETL run:", error);
+      res.status(500).json({ message: "Failed to fetch ETL run" });
+    }
+  });
+
+  // Resumes a failed run from its failed step in a background process
+  app.post("/api/admin/etl-runs/:id/resume", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (user?.role !== "admin") {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      const run = await storage.getEtlRun(req.params.id);
+      if (!run) {
+        return res.status(404).json({ message: "ETL run not found" });
+      }
+      if (run.status !== "failed") {
+        return res.status(400).json({ message: "Only failed runs can be resumed" });
+      }
+      if (!ETL_PIPELINE_SCRIPTS[run.pipeline]) {
+        return res.status(400).json({ message: `Pipeline ${run.pipeline} cannot be resumed from the console` });
+      }
+      const [latest] = await storage.getEtlRuns(1, run.pipeline);
+      if (latest && latest.id !== run.id) {
+        return res.status(409).json({
+          message: latest.status === "running"
+            ? "This pipeline is already running"
+            : "A newer run of this pipeline exists; only the latest run can be resumed",
+        });
+      }
+
+      spawnEtlResume(run, user.id);
+      res.status(202).json({ message: `Resuming ${run.pipeline}`, resumedFromRunId: run.id });
+    } catch (error) {
+      console.error("Error resuming ETL run:", error);
+      res.status(500).json({ message: "Failed to resume ETL run" });
+    }
+  });
+
+  app.get("/api/admin/job-runs", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (user?.role !== "admin") {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+      const runs = await storage.getScheduledJobRuns(limit);
+      res.json(runs);
+    } catch (error) {
+      console.error("Error fetching job runs:", error);
+      res.status(500).json({ message: "Failed to fetch job runs" });
+    }
+  });
+
+  // Opportunity score backtest (admin) - full report of the latest run
+  app.get("/api/admin/score-backtest/latest", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (user?.role !== "admin") {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      const backtest = await getLatestScoreBacktest();
+      res.json(backtest ?? null);
+    } catch (error) {
+      console.error("Error fetching score backtest:", error);
+      res.status(500).json({ message: "Failed to fetch score backtest" });
+    }
+  });
+
+  // Headline numbers of the latest backtest, quoted on the methodology page
+  app.get("/api/methodology/score-backtest", async (req, res) => {
+    try {
+      const backtest = await getLatestScoreBacktest();
+      res.json(backtest ? (backtest.report as ScoreBacktestReport).summary : null);
+    } catch (error) {
+      console.error("Error fetching score backtest summary:", error);
+      res.status(500).json({ message: "Failed to fetch score backtest summary" });
+    }
+  });
+
+  // Match review queue (admin) - unresolved sales and low-confidence entity matches
+  app.get("/api/admin/match-review", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (user?.role !== "admin") {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+      const groups = await getMatchReviewQueue(limit);
+      res.json(groups);
+    } catch (error) {
+      console.error("Error fetching match review queue:", error);
+      res.status(500).json({ message: "Failed to fetch match review queue" });
+    }
+  });
+
+  app.get("/api/admin/match-review/candidates", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (user?.role !== "admin") {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      const subjectType = z.enum(matchReviewSubjectTypes).safeParse(req.query.subjectType);
+      const subjectKey = req.query.subjectKey;
+      if (!subjectType.success || typeof subjectKey !== "string" || !subjectKey) {
+        return res.status(400).json({ message: "subjectType and subjectKey are required" });
+      }
+      const item = await getMatchReviewItem(subjectType.data, subjectKey);
+      if (!item) {
+        return res.status(404).json({ message: "Review item not found" });
+      }
+      const candidates = await getMatchCandidates(item);
+      res.json(candidates);
+    } catch (error) {
+      console.error("Error fetching match candidates:", error);
+      res.status(500).json({ message: "Failed to fetch match candidates" });
+    }
+  });
+
+  const matchReviewDecisionSchema = z.object({
+    subjectType: z.enum(matchReviewSubjectTypes),
+    subjectKey: z.string().min(1),
+    action: z.enum(matchReviewActions),
+    propertyId: z.string().optional().nullable(),
+    unitBbl: z.string().optional().nullable(),
+    reason: z.string().optional().nullable(),
+    note: z.string().max(1000).optional().nullable(),
+  });
+
+  app.post("/api/admin/match-review/decisions", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (user?.role !== "admin") {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      const body = matchReviewDecisionSchema.parse(req.body);
+      const item = await getMatchReviewItem(body.subjectType, body.subjectKey);
+      if (!item) {
+        return res.status(404).json({ message: "Review item not found" });
+      }
+
+      let target: { propertyId: string | null; unitBbl: string | null } = { propertyId: null, unitBbl: null };
+      if (body.action !== "reject") {
+        // Accepting without a target confirms the current match
+        const propertyId = body.propertyId ?? (body.action === "accept" ? item.currentPropertyId : null);
+        const resolved = await resolveDecisionTarget(propertyId, body.unitBbl);
+        if (!resolved) {
+          return res.status(400).json({ message: "A valid property or unit is required to accept or reassign a match" });
+        }
+        target = resolved;
+      }
+
+      const decision = await saveMatchReviewDecision({
+        subjectType: body.subjectType,
+        subjectKey: body.subjectKey,
+        action: body.action,
+        propertyId: target.propertyId,
+        unitBbl: target.unitBbl,
+        reason: body.reason ?? null,
+        note: body.note ?? null,
+        decidedBy: user.id,
+      });
+      res.json(decision);
+    } catch (error: any) {
+      if (error.name === "ZodError") {
+        return res.status(400).json({ message: error.errors[0]?.message || "Validation error" });
+      }
+      console.error("Error saving match review decision:", error);
+      res.status(500).json({ message: "Failed to save match review decision" });
+    }
+  });
+
   // Export routes - Pro only
   app.get("/api/export/market-report", isAuthenticated, requirePro, async (req: any, res) => {
     try {
@@ -2988,6 +3469,8 @@ Sitemap: ${baseUrl}/sitemap.xml
         priceMin: req.query.priceMin ? parseInt(req.query.priceMin as string) : undefined,
         priceMax: req.query.priceMax ? parseInt(req.query.priceMax as string) : undefined,
         opportunityScoreMin: req.query.opportunityScoreMin ? parseInt(req.query.opportunityScoreMin as string) : undefined,
+        distressScoreMin: req.query.distressScoreMin ? parseInt(req.query.distressScoreMin as string) : undefined,
+        area: req.query.area ? parseSearchArea(req.query.area) ?? undefined : undefined,
       };
       
       const properties = await storage.getProperties(filters, 500, 0);
@@ -3681,7 +4164,8 @@ Sitemap: ${baseUrl}/sitemap.xml
   app.get("/api/saved-searches", isAuthenticated, async (req: any, res) => {
     try {
       const searches = await storage.getSavedSearches(req.user.id);
-      res.json(searches);
+      // The remembered result set is internal bookkeeping and can be large
+      res.json(searches.map(({ lastMatchedPropertyIds, ...search }) => search));
     } catch (error) {
       console.error("Error fetching saved searches:", error);
       res.status(500).json({ message: "Failed to fetch saved searches" });
@@ -3710,6 +4194,9 @@ Sitemap: ${baseUrl}/sitemap.xml
       if (!name || !filters) {
         return res.status(400).json({ message: "Name and filters are required" });
       }
+      if (filters.area !== undefined && !parseSearchArea(filters.area)) {
+        return res.status(400).json({ message: "Invalid search area" });
+      }
 
       // Extract normalized fields from filters for indexing
       const normalizedData: any = {
@@ -3730,6 +4217,10 @@ Sitemap: ${baseUrl}/sitemap.xml
       if (filters.priceMax) normalizedData.priceMax = filters.priceMax;
       if (filters.opportunityScoreMin) normalizedData.opportunityScoreMin = filters.opportunityScoreMin;
       
+      if (filters.bedsMin !== undefined) normalizedData.bedsMin = filters.bedsMin;
+      if (filters.bedsMax !== undefined) normalizedData.bedsMax = filters.bedsMax;
+      if (filters.bathsMin !== undefined) normalizedData.bathsMin = filters.bathsMin;
+      
       // NYC signal thresholds
       if (filters.transitScoreMin) normalizedData.transitScoreMin = filters.transitScoreMin;
       if (filters.buildingHealthMin) normalizedData.buildingHealthMin = filters.buildingHealthMin;
@@ -3755,6 +4246,9 @@ Sitemap: ${baseUrl}/sitemap.xml
       if (pushEnabled !== undefined) updateData.pushEnabled = pushEnabled;
       if (isActive !== undefined) updateData.isActive = isActive;
       
+      if (filters?.area !== undefined && !parseSearchArea(filters.area)) {
+        return res.status(400).json({ message: "Invalid search area" });
+      }
       if (filters !== undefined) {
         updateData.filters = filters;
         // Update normalized fields
@@ -3764,9 +4258,19 @@ Sitemap: ${baseUrl}/sitemap.xml
         updateData.priceMin = filters.priceMin || null;
         updateData.priceMax = filters.priceMax || null;
         updateData.opportunityScoreMin = filters.opportunityScoreMin || null;
+        updateData.bedsMin = filters.bedsMin ?? null;
+        updateData.bedsMax = filters.bedsMax ?? null;
+        updateData.bathsMin = filters.bathsMin ?? null;
         updateData.transitScoreMin = filters.transitScoreMin || null;
         updateData.buildingHealthMin = filters.buildingHealthMin || null;
         updateData.floodRiskMax = filters.floodRiskMax || null;
+
+        // New filters mean a new result set: the next run sets a fresh
+        // baseline instead of reporting every current match as new
+        const existing = await storage.getSavedSearch(req.params.id);
+        if (existing && JSON.stringify(existing.filters) !== JSON.stringify(filters)) {
+          updateData.lastMatchedPropertyIds = null;
+        }
       }
 
       const updated = await storage.updateSavedSearch(req.params.id, req.user.id, updateData);
@@ -3799,8 +4303,11 @@ Sitemap: ${baseUrl}/sitemap.xml
         return res.status(400).json({ message: "Filters are required" });
       }
 
-      const properties = await storage.getProperties(filters, 100, 0);
-      res.json({ matchCount: properties.length, preview: properties.slice(0, 5) });
+      const [matchCount, preview] = await Promise.all([
+        storage.countProperties(filters),
+        storage.getProperties(filters, 5, 0),
+      ]);
+      res.json({ matchCount, preview });
     } catch (error) {
       console.error("Error previewing saved search:", error);
       res.status(500).json({ message: "Failed to preview saved search" });
@@ -3820,7 +4327,13 @@ Sitemap: ${baseUrl}/sitemap.xml
       }
 
       console.log("[Cron] Starting daily digest job...");
-      await processDailyDigest();
+      const result = await runNotificationJob("daily_digest", processDailyDigest, "cron");
+      if (!result) {
+        return res.status(409).json({ message: "Daily digest is already running" });
+      }
+      if (result.status === "failed") {
+        return res.status(500).json({ message: "Failed to process daily digest", error: result.error });
+      }
       console.log("[Cron] Daily digest job completed");
       res.json({ success: true, message: "Daily digest processed" });
     } catch (error) {
@@ -3838,7 +4351,13 @@ Sitemap: ${baseUrl}/sitemap.xml
       }
 
       console.log("[Cron] Starting instant alerts job...");
-      await processInstantAlerts();
+      const result = await runNotificationJob("instant_alerts", processInstantAlerts, "cron");
+      if (!result) {
+        return res.status(409).json({ message: "Instant alerts are already running" });
+      }
+      if (result.status === "failed") {
+        return res.status(500).json({ message: "Failed to process instant alerts", error: result.error });
+      }
       console.log("[Cron] Instant alerts job completed");
       res.json({ success: true, message: "Instant alerts processed" });
     } catch (error) {
@@ -3847,24 +4366,67 @@ Sitemap: ${baseUrl}/sitemap.xml
     }
   });
 
+  // Trigger weekly digest job
+  app.post("/api/notifications/weekly-digest", async (req, res) => {
+    try {
+      const cronSecret = req.headers["x-cron-secret"];
+      if (cronSecret !== process.env.CRON_SECRET && process.env.NODE_ENV !== "development") {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      console.log("[Cron] Starting weekly digest job...");
+      const result = await runNotificationJob("weekly_digest", processWeeklyDigest, "cron");
+      if (!result) {
+        return res.status(409).json({ message: "Weekly digest is already running" });
+      }
+      if (result.status === "failed") {
+        return res.status(500).json({ message: "Failed to process weekly digest", error: result.error });
+      }
+      console.log("[Cron] Weekly digest job completed");
+      res.json({ success: true, message: "Weekly digest processed" });
+    } catch (error) {
+      console.error("[Cron] Error processing weekly digest:", error);
+      res.status(500).json({ message: "Failed to process weekly digest" });
+    }
+  });
+
+  // Evaluate property/watchlist alerts (run after data refreshes)
+  app.post("/api/notifications/evaluate-alerts", async (req, res) => {
+    try {
+      const cronSecret = req.headers["x-cron-secret"];
+      if (cronSecret !== process.env.CRON_SECRET && process.env.NODE_ENV !== "development") {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      console.log("[Cron] Starting alert evaluation job...");
+      const result = await evaluateAlerts();
+      console.log("[Cron] Alert evaluation job completed");
+      res.json({ success: true, message: "Alerts evaluated", ...result });
+    } catch (error) {
+      console.error("[Cron] Error evaluating alerts:", error);
+      res.status(500).json({ message: "Failed to evaluate alerts" });
+    }
+  });
+
   // ============================================
   // EXTERNAL API ROUTES (API key authenticated)
   // ============================================
 
   app.get("/api/external/properties", externalApiMiddleware, async (req: any, res: any) => {
     try {
-      const filters: ScreenerFilters = {
-        state: req.query.state as any,
-        cities: req.query.cities ? (req.query.cities as string).split(",") : undefined,
-        zipCodes: req.query.zipCodes ? (req.query.zipCodes as string).split(",") : undefined,
-        propertyTypes: req.query.propertyTypes ? (req.query.propertyTypes as string).split(",") as any : undefined,
-        opportunityScoreMin: req.query.opportunityScoreMin ? parseInt(req.query.opportunityScoreMin) : undefined,
-        priceMin: req.query.priceMin ? parseInt(req.query.priceMin) : undefined,
-        priceMax: req.query.priceMax ? parseInt(req.query.priceMax) : undefined,
-      };
+      const filters = parseScreenerFilters(req.query);
+      if (req.query.area && !filters.area) {
+        return res.status(400).json({ error: "Bad Request", message: "area must be a polygon or radius search area" });
+      }
 
-      const limit = Math.min(parseInt(req.query.limit) || 50, 100);
-      const offset = parseInt(req.query.offset) || 0;
+      if (parseInt(req.query.offset) > 0) {
+        return res.status(400).json({ error: "Bad Request", message: "offset is no longer supported; pass pagination.nextCursor as cursor" });
+      }
+      const parsedPage = parseScreenerPage(req.query, 100);
+      if ("error" in parsedPage) {
+        return res.status(400).json({ error: "Bad Request", message: parsedPage.error });
+      }
+      const { page } = parsedPage;
 
       // For NYC ZIP queries, prefer real condo UNITS (with recent sale prices)
       // over the legacy properties table, which for NYC contains building shells
@@ -3879,20 +4441,20 @@ Sitemap: ${baseUrl}/sitemap.xml
         (!filters.propertyTypes || filters.propertyTypes.length === 0 ||
           filters.propertyTypes.some((t: string) => t.toLowerCase() === "condo"));
 
-      let properties;
-      if (isNycZipOnly) {
-        properties = await storage.getCondoUnitsAsProperties(filters.zipCodes!, limit, offset);
-        // Apply price/score filters in-memory (small page size)
-        if (filters.priceMin) properties = properties.filter(p => (p.estimatedValue ?? 0) >= filters.priceMin!);
-        if (filters.priceMax) properties = properties.filter(p => (p.estimatedValue ?? 0) <= filters.priceMax!);
-        if (filters.opportunityScoreMin) properties = properties.filter(p => (p.opportunityScore ?? 0) >= filters.opportunityScoreMin!);
-      } else {
-        properties = await storage.getProperties(filters, limit, offset);
-      }
+      const result = isNycZipOnly
+        ? await storage.getCondoUnitsPage(filters.zipCodes!, filters, page)
+        : await storage.getPropertiesPage(filters, page);
       res.json({
         success: true,
-        data: properties,
-        pagination: { limit, offset, count: properties.length },
+        data: result.items,
+        pagination: {
+          limit: page.limit,
+          count: result.items.length,
+          total: result.total,
+          sort: page.sort,
+          order: page.order,
+          nextCursor: result.nextCursor ? encodeScreenerCursor(result.nextCursor) : null,
+        },
       });
     } catch (error) {
       console.error("External API error:", error);
@@ -3985,12 +4547,39 @@ Sitemap: ${baseUrl}/sitemap.xml
     }
   });
 
+  app.get("/api/external/price-index", externalApiMiddleware, async (req: any, res: any) => {
+    try {
+      const geoType = String(req.query.geoType || "");
+      const geoId = String(req.query.geoId || "").trim();
+      if (!["zip", "neighborhood", "borough"].includes(geoType) || !geoId) {
+        return res.status(400).json({
+          error: "Bad Request",
+          message: "geoType (zip, neighborhood or borough) and geoId are required",
+        });
+      }
+
+      const series = await storage.getRepeatSalesIndex(geoType, geoId, req.query.state as string | undefined);
+      if (!series) {
+        return res.status(404).json({
+          error: "Not Found",
+          message: `No repeat-sales index available for ${geoType} ${geoId}`,
+        });
+      }
+
+      res.json({ success: true, data: series });
+    } catch (error) {
+      console.error("External API error:", error);
+      res.status(500).json({ error: "Internal Server Error", message: "Failed to fetch price index" });
+    }
+  });
+
   app.get("/api/external/up-and-coming", externalApiMiddleware, async (req: any, res: any) => {
     try {
       const state = req.query.state as string | undefined;
       const limit = Math.min(parseInt(req.query.limit) || 20, 50);
+      const trendSource = req.query.trendSource === "repeat_sales" ? "repeat_sales" : "median";
       
-      const zips = await storage.getUpAndComingZips(state, limit);
+      const zips = await storage.getUpAndComingZips(state, limit, trendSource);
       res.json({ success: true, data: zips });
     } catch (error) {
       console.error("External API error:", error);
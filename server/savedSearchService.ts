@@ -10,118 +10,199 @@ interface PropertyChange {
   changedAt: Date | null;
 }
 
+// Each saved search remembers up to this many matching ids (highest score
+// first) between runs. Past the cap, entering/leaving is measured within
+// that top slice, while matchCount stays the true total.
+const MATCH_ID_CAP = 2000;
+
+// How many newly matching properties are listed by address in an email
+const NEW_MATCH_LIST_LIMIT = 10;
+
+export interface SavedSearchEvaluation {
+  matchCount: number;
+  properties: Property[];
+  matchedPropertyIds: string[];
+  newPropertyIds: string[];
+  droppedPropertyIds: string[];
+  isFirstRun: boolean;
+}
+
 interface MatchResult {
   savedSearch: SavedSearch;
-  matchingProperties: Property[];
+  evaluation: SavedSearchEvaluation;
+  newMatches: Property[];
   changes: PropertyChange[];
 }
 
-export async function evaluateSavedSearch(search: SavedSearch): Promise<{ matchCount: number; properties: Property[] }> {
-  const filters = search.filters as ScreenerFilters;
-  const properties = await storage.getProperties(filters, 100, 0);
-  return { matchCount: properties.length, properties };
+// The filters JSON is the source of truth; the denormalized columns fill in
+// thresholds for searches saved before they were carried in the JSON.
+export function getSavedSearchFilters(search: SavedSearch): ScreenerFilters {
+  const filters = { ...(search.filters as ScreenerFilters) };
+  if (filters.bedsMin === undefined && search.bedsMin !== null) filters.bedsMin = search.bedsMin;
+  if (filters.bedsMax === undefined && search.bedsMax !== null) filters.bedsMax = search.bedsMax;
+  if (filters.bathsMin === undefined && search.bathsMin !== null) filters.bathsMin = search.bathsMin;
+  if (!filters.transitScoreMin && search.transitScoreMin) filters.transitScoreMin = search.transitScoreMin;
+  if (!filters.buildingHealthMin && search.buildingHealthMin) filters.buildingHealthMin = search.buildingHealthMin;
+  if (!filters.floodRiskMax && search.floodRiskMax) filters.floodRiskMax = search.floodRiskMax as ScreenerFilters["floodRiskMax"];
+  return filters;
+}
+
+/**
+ * Runs a saved search and diffs its result set against the one remembered
+ * from the last run. The first run only establishes the baseline, so a new
+ * search doesn't report every current match as "new".
+ */
+export async function evaluateSavedSearch(search: SavedSearch): Promise<SavedSearchEvaluation> {
+  const filters = getSavedSearchFilters(search);
+  const [matchCount, matchedPropertyIds, properties] = await Promise.all([
+    storage.countProperties(filters),
+    storage.getMatchingPropertyIds(filters, MATCH_ID_CAP),
+    storage.getProperties(filters, 100, 0),
+  ]);
+
+  const previousIds = search.lastMatchedPropertyIds;
+  const isFirstRun = previousIds === null;
+  const previous = new Set(previousIds || []);
+  const current = new Set(matchedPropertyIds);
+
+  return {
+    matchCount,
+    properties,
+    matchedPropertyIds,
+    newPropertyIds: isFirstRun ? [] : matchedPropertyIds.filter(id => !previous.has(id)),
+    droppedPropertyIds: isFirstRun ? [] : (previousIds || []).filter(id => !current.has(id)),
+    isFirstRun,
+  };
+}
+
+async function buildMatchResult(
+  search: SavedSearch,
+  evaluation: SavedSearchEvaluation,
+  changes: PropertyChange[]
+): Promise<MatchResult> {
+  const newMatches = await storage.getPropertiesByIds(evaluation.newPropertyIds.slice(0, NEW_MATCH_LIST_LIMIT));
+  newMatches.sort((a, b) => (b.opportunityScore ?? 0) - (a.opportunityScore ?? 0));
+  return { savedSearch: search, evaluation, newMatches, changes };
+}
+
+function hasMatchDelta(result: MatchResult): boolean {
+  return result.evaluation.newPropertyIds.length > 0 ||
+    result.evaluation.droppedPropertyIds.length > 0 ||
+    result.changes.length > 0;
+}
+
+// Remembers the result set once its delta has been delivered. A failed send
+// leaves the old set in place so the same delta is reported next run.
+async function saveMatchState(result: MatchResult): Promise<void> {
+  const { matchCount, matchedPropertyIds } = result.evaluation;
+  await storage.updateSavedSearchMatchCount(result.savedSearch.id, matchCount, matchedPropertyIds);
+}
+
+function formatProperty(p: Property): string {
+  return `• ${p.address}, ${p.city} - $${p.estimatedValue?.toLocaleString() || 'N/A'}`;
+}
+
+function describeDelta(result: MatchResult): string {
+  const { newPropertyIds, droppedPropertyIds } = result.evaluation;
+  const parts = [`${newPropertyIds.length} new`, `${droppedPropertyIds.length} no longer matching`];
+  if (result.changes.length > 0) {
+    parts.push(`${result.changes.length} update${result.changes.length > 1 ? 's' : ''}`);
+  }
+  return parts.join(', ');
 }
 
 export async function processInstantAlerts(): Promise<void> {
   console.log("Processing instant alerts...");
-  
+
   const instantSearches = await storage.getActiveSavedSearchesByFrequency("instant");
   if (instantSearches.length === 0) {
     console.log("No instant alert searches configured");
+    await retireUnmatchedChanges(new Date(), false, new Set(), false);
     return;
   }
-  
-  const unprocessedChanges = await storage.getUnprocessedChanges(false, 500);
-  if (unprocessedChanges.length === 0) {
-    console.log("No unprocessed changes for instant alerts");
-    return;
-  }
-  
-  console.log(`Processing ${unprocessedChanges.length} changes for ${instantSearches.length} instant searches`);
-  
-  // Track which change IDs were actually included in notifications
+
+  const runStartedAt = new Date();
+  console.log(`Processing changes for ${instantSearches.length} instant searches`);
+
+  // Track which change IDs were actually included in notifications, and the
+  // ones still owed to a search whose alert failed
   const processedChangeIds = new Set<string>();
-  
+  const owedChangeIds = new Set<string>();
+  let evaluationFailed = false;
+
   for (const search of instantSearches) {
     try {
-      const { properties } = await evaluateSavedSearch(search);
-      const matchingPropertyIds = new Set(properties.map(p => p.id));
-      
-      const relevantChanges = unprocessedChanges.filter(
-        c => matchingPropertyIds.has(c.propertyId)
-      );
-      
-      if (relevantChanges.length > 0) {
-        const relevantProperties = properties.filter(p => 
-          relevantChanges.some(c => c.propertyId === p.id)
-        );
-        
-        const sent = await sendInstantAlert(search, relevantProperties, relevantChanges);
-        
-        if (sent) {
-          // Only mark changes as processed if notification was sent
-          for (const change of relevantChanges) {
-            processedChangeIds.add(change.id);
-          }
+      const evaluation = await evaluateSavedSearch(search);
+      const relevantChanges = await storage.getUnprocessedChangesMatching(getSavedSearchFilters(search), false);
+      const result = await buildMatchResult(search, evaluation, relevantChanges);
+
+      if (!hasMatchDelta(result)) {
+        await saveMatchState(result);
+        continue;
+      }
+
+      const sent = await sendInstantAlert(result);
+
+      if (sent) {
+        // Only mark changes as processed if notification was sent
+        for (const change of relevantChanges) {
+          processedChangeIds.add(change.id);
+        }
+      } else if (search.emailEnabled) {
+        for (const change of relevantChanges) {
+          owedChangeIds.add(change.id);
         }
-        
-        await storage.updateSavedSearchMatchCount(search.id, properties.length);
+      }
+      if (sent || !search.emailEnabled) {
+        await saveMatchState(result);
       }
     } catch (error) {
+      evaluationFailed = true;
       console.error(`Error processing instant alert for search ${search.id}:`, error);
     }
   }
-  
+
   // Only mark changes that were actually included in sent notifications
   if (processedChangeIds.size > 0) {
     await storage.markChangesProcessed(Array.from(processedChangeIds), false);
     console.log(`Marked ${processedChangeIds.size} changes as processed for instant alerts`);
   }
+  await retireUnmatchedChanges(runStartedAt, false, owedChangeIds, evaluationFailed);
 }
 
 export async function processDailyDigest(): Promise<void> {
   console.log("Processing daily digest...");
-  
+
   const dailySearches = await storage.getActiveSavedSearchesByFrequency("daily");
   if (dailySearches.length === 0) {
     console.log("No daily digest searches configured");
+    await retireUnmatchedChanges(new Date(), true, new Set(), false);
     return;
   }
-  
-  const unprocessedChanges = await storage.getUnprocessedChanges(true, 1000);
-  console.log(`Processing ${unprocessedChanges.length} changes for ${dailySearches.length} daily searches`);
-  
+
+  const runStartedAt = new Date();
+  console.log(`Processing changes for ${dailySearches.length} daily searches`);
+
   const results: MatchResult[] = [];
-  // Track which change IDs were actually included in notifications
-  const processedChangeIds = new Set<string>();
-  
+  let evaluationFailed = false;
+
   for (const search of dailySearches) {
     try {
-      const { properties } = await evaluateSavedSearch(search);
-      
-      const relevantChanges = unprocessedChanges.filter(c => 
-        properties.some(p => p.id === c.propertyId)
-      );
-      
-      if (properties.length > 0 || relevantChanges.length > 0) {
-        results.push({
-          savedSearch: search,
-          matchingProperties: properties,
-          changes: relevantChanges,
-        });
-        
-        // Track changes for this search
-        for (const change of relevantChanges) {
-          processedChangeIds.add(change.id);
-        }
-        
-        await storage.updateSavedSearchMatchCount(search.id, properties.length);
+      const evaluation = await evaluateSavedSearch(search);
+      const relevantChanges = await storage.getUnprocessedChangesMatching(getSavedSearchFilters(search), true);
+      const result = await buildMatchResult(search, evaluation, relevantChanges);
+
+      if (hasMatchDelta(result)) {
+        results.push(result);
+      } else {
+        await saveMatchState(result);
       }
     } catch (error) {
+      evaluationFailed = true;
       console.error(`Error processing daily digest for search ${search.id}:`, error);
     }
   }
-  
+
   // Group results by user
   const userSearchMap = new Map<string, MatchResult[]>();
   for (const result of results) {
@@ -131,182 +212,356 @@ export async function processDailyDigest(): Promise<void> {
     }
     userSearchMap.get(userId)!.push(result);
   }
-  
+
   // Send digest emails and track sent notifications
   const sentChangeIds = new Set<string>();
-  
+  const owedChangeIds = new Set<string>();
+
   for (const [userId, userResults] of Array.from(userSearchMap.entries())) {
+    let sent = false;
     try {
-      const sent = await sendDailyDigest(userId, userResults);
-      
-      if (sent) {
-        // Only mark changes as processed if digest was sent
-        for (const result of userResults) {
-          for (const change of result.changes) {
-            sentChangeIds.add(change.id);
-          }
+      sent = await sendDailyDigest(userId, userResults);
+
+      for (const result of userResults) {
+        if (sent || !result.savedSearch.emailEnabled) {
+          await saveMatchState(result);
         }
       }
     } catch (error) {
       console.error(`Error sending daily digest to user ${userId}:`, error);
     }
+
+    for (const result of userResults) {
+      for (const change of result.changes) {
+        // Only mark changes as processed if digest was sent
+        if (sent) sentChangeIds.add(change.id);
+        else if (result.savedSearch.emailEnabled) owedChangeIds.add(change.id);
+      }
+    }
   }
-  
+
   // Only mark changes that were actually included in sent digests
   if (sentChangeIds.size > 0) {
     await storage.markChangesProcessed(Array.from(sentChangeIds), true);
     console.log(`Marked ${sentChangeIds.size} changes as processed for daily digest`);
   }
+  await retireUnmatchedChanges(runStartedAt, true, owedChangeIds, evaluationFailed);
 }
 
-async function sendInstantAlert(
-  search: SavedSearch, 
-  properties: Property[], 
-  changes: PropertyChange[]
-): Promise<boolean> {
+// Changes from before the run that no search delivered are marked processed
+// too, except the ones owed to a search whose email failed. If a search
+// couldn't be evaluated its changes are unknown, so nothing is retired until
+// a run gets through every search.
+async function retireUnmatchedChanges(
+  runStartedAt: Date,
+  forDigest: boolean,
+  owedChangeIds: Set<string>,
+  evaluationFailed: boolean
+): Promise<void> {
+  if (evaluationFailed) return;
+  const retired = await storage.markUnprocessedChangesBefore(runStartedAt, forDigest, Array.from(owedChangeIds));
+  if (retired > 0) {
+    console.log(`Marked ${retired} changes no ${forDigest ? "daily" : "instant"} search matched as processed`);
+  }
+}
+
+async function sendInstantAlert(result: MatchResult): Promise<boolean> {
+  const { savedSearch: search, evaluation, newMatches, changes } = result;
   if (!search.emailEnabled) return false;
-  
+
   const user = await storage.getUser(search.userId);
   if (!user?.email) return false;
-  
-  const changesSummary = changes.slice(0, 5).map(c => 
+
+  const changesSummary = changes.slice(0, 5).map(c =>
     `• ${c.changeSummary || `Property update: ${c.changeType}`}`
   ).join('\n');
-  
-  const propertyList = properties.slice(0, 3).map(p => 
-    `• ${p.address}, ${p.city} - $${p.estimatedValue?.toLocaleString() || 'N/A'}`
-  ).join('\n');
-  
-  const subject = `[Alert] ${changes.length} update${changes.length > 1 ? 's' : ''} for "${search.name}"`;
-  
+
+  const newMatchList = newMatches.slice(0, 5).map(formatProperty).join('\n');
+  const newCount = evaluation.newPropertyIds.length;
+  const droppedCount = evaluation.droppedPropertyIds.length;
+
+  const subject = newCount > 0
+    ? `[Alert] ${newCount} new match${newCount > 1 ? 'es' : ''} for "${search.name}"`
+    : `[Alert] ${describeDelta(result)} for "${search.name}"`;
+
   const html = `
     <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto;">
       <h2 style="color: #1a1a1a;">Property Updates for "${search.name}"</h2>
-      
-      <p style="color: #666;">We found ${changes.length} update${changes.length > 1 ? 's' : ''} matching your saved search:</p>
-      
+
+      <p style="color: #666;">
+        Since your last alert: <strong>${newCount}</strong> new match${newCount === 1 ? '' : 'es'},
+        <strong>${droppedCount}</strong> no longer matching and <strong>${changes.length}</strong>
+        update${changes.length === 1 ? '' : 's'} to matching properties.
+        ${evaluation.matchCount.toLocaleString()} properties match in total.
+      </p>
+      ${newMatchList ? `
+      <div style="background: #f5f5f5; padding: 16px; border-radius: 8px; margin: 16px 0;">
+        <h3 style="margin-top: 0; color: #1a1a1a;">New Matches</h3>
+        <pre style="white-space: pre-wrap; font-family: sans-serif; color: #333;">${newMatchList}</pre>
+      </div>` : ''}
+      ${changesSummary ? `
       <div style="background: #f5f5f5; padding: 16px; border-radius: 8px; margin: 16px 0;">
         <h3 style="margin-top: 0; color: #1a1a1a;">Recent Changes</h3>
         <pre style="white-space: pre-wrap; font-family: sans-serif; color: #333;">${changesSummary}</pre>
-      </div>
-      
-      <div style="background: #f5f5f5; padding: 16px; border-radius: 8px; margin: 16px 0;">
-        <h3 style="margin-top: 0; color: #1a1a1a;">Affected Properties</h3>
-        <pre style="white-space: pre-wrap; font-family: sans-serif; color: #333;">${propertyList}</pre>
-      </div>
-      
+      </div>` : ''}
+
       <p>
-        <a href="${process.env.REPLIT_DEV_DOMAIN || 'https://realtorsdashboard.com'}/screener" 
+        <a href="${process.env.REPLIT_DEV_DOMAIN || 'https://realtorsdashboard.com'}/screener"
            style="display: inline-block; background: #0066cc; color: white; padding: 12px 24px; border-radius: 6px; text-decoration: none;">
           View All Matches
         </a>
       </p>
-      
+
       <p style="color: #999; font-size: 12px; margin-top: 32px;">
         You're receiving this because you have instant alerts enabled for "${search.name}".
         <a href="${process.env.REPLIT_DEV_DOMAIN || 'https://realtorsdashboard.com'}/settings">Manage your alerts</a>
       </p>
     </div>
   `;
-  
+
   const sent = await sendEmail({
     to: user.email,
     subject,
     html,
   });
-  
+
   if (sent) {
     await storage.createSavedSearchNotification({
       savedSearchId: search.id,
       userId: search.userId,
-      matchedPropertyIds: properties.map(p => p.id),
+      matchedPropertyIds: evaluation.newPropertyIds,
       changeIds: changes.map(c => c.id),
       notificationType: "instant_alert",
       emailSent: true,
       emailSentAt: new Date(),
       subject,
-      summary: `${changes.length} updates for ${properties.length} properties`,
+      summary: `${describeDelta(result)} (${evaluation.matchCount} total matches)`,
     });
   }
-  
+
   return sent;
 }
 
 async function sendDailyDigest(userId: string, results: MatchResult[]): Promise<boolean> {
   const user = await storage.getUser(userId);
   if (!user?.email) return false;
-  
-  // Check if any of the searches have email enabled
-  const hasEmailEnabled = results.some(r => r.savedSearch.emailEnabled);
-  if (!hasEmailEnabled) return false;
-  
-  const totalMatches = results.reduce((sum, r) => sum + r.matchingProperties.length, 0);
-  const totalChanges = results.reduce((sum, r) => sum + r.changes.length, 0);
-  
-  const searchSummaries = results.map(r => {
-    const changeText = r.changes.length > 0 
-      ? ` (${r.changes.length} new update${r.changes.length > 1 ? 's' : ''})`
-      : '';
-    return `• "${r.savedSearch.name}": ${r.matchingProperties.length} properties${changeText}`;
-  }).join('\n');
-  
-  const subject = `Daily Property Digest: ${totalMatches} matches across ${results.length} search${results.length > 1 ? 'es' : ''}`;
-  
+
+  // Only searches with email enabled go into the digest
+  const emailResults = results.filter(r => r.savedSearch.emailEnabled);
+  if (emailResults.length === 0) return false;
+
+  const totalNew = emailResults.reduce((sum, r) => sum + r.evaluation.newPropertyIds.length, 0);
+  const totalDropped = emailResults.reduce((sum, r) => sum + r.evaluation.droppedPropertyIds.length, 0);
+  const totalChanges = emailResults.reduce((sum, r) => sum + r.changes.length, 0);
+
+  const searchSummaries = emailResults.map(r =>
+    `• "${r.savedSearch.name}": ${describeDelta(r)} (${r.evaluation.matchCount.toLocaleString()} total)`
+  ).join('\n');
+
+  const newMatchList = emailResults
+    .flatMap(r => r.newMatches)
+    .slice(0, NEW_MATCH_LIST_LIMIT)
+    .map(formatProperty)
+    .join('\n');
+
+  const subject = `Daily Property Digest: ${totalNew} new match${totalNew === 1 ? '' : 'es'}, ${totalChanges} update${totalChanges === 1 ? '' : 's'}`;
+
   const html = `
     <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto;">
       <h2 style="color: #1a1a1a;">Your Daily Property Digest</h2>
-      
+
       <p style="color: #666;">
-        Here's your daily summary: <strong>${totalMatches}</strong> properties match your 
-        <strong>${results.length}</strong> saved search${results.length > 1 ? 'es' : ''}
-        ${totalChanges > 0 ? ` with <strong>${totalChanges}</strong> new updates` : ''}.
+        Since yesterday across your <strong>${emailResults.length}</strong> saved search${emailResults.length > 1 ? 'es' : ''}:
+        <strong>${totalNew}</strong> new match${totalNew === 1 ? '' : 'es'},
+        <strong>${totalDropped}</strong> no longer matching
+        ${totalChanges > 0 ? ` and <strong>${totalChanges}</strong> updates to matching properties` : ''}.
       </p>
-      
+
       <div style="background: #f5f5f5; padding: 16px; border-radius: 8px; margin: 16px 0;">
         <h3 style="margin-top: 0; color: #1a1a1a;">Your Saved Searches</h3>
         <pre style="white-space: pre-wrap; font-family: sans-serif; color: #333;">${searchSummaries}</pre>
       </div>
-      
+      ${newMatchList ? `
+      <div style="background: #f5f5f5; padding: 16px; border-radius: 8px; margin: 16px 0;">
+        <h3 style="margin-top: 0; color: #1a1a1a;">New Matches</h3>
+        <pre style="white-space: pre-wrap; font-family: sans-serif; color: #333;">${newMatchList}</pre>
+      </div>` : ''}
+
       <p>
-        <a href="${process.env.REPLIT_DEV_DOMAIN || 'https://realtorsdashboard.com'}/screener" 
+        <a href="${process.env.REPLIT_DEV_DOMAIN || 'https://realtorsdashboard.com'}/screener"
            style="display: inline-block; background: #0066cc; color: white; padding: 12px 24px; border-radius: 6px; text-decoration: none;">
           View Properties
         </a>
-        <a href="${process.env.REPLIT_DEV_DOMAIN || 'https://realtorsdashboard.com'}/settings" 
+        <a href="${process.env.REPLIT_DEV_DOMAIN || 'https://realtorsdashboard.com'}/settings"
            style="display: inline-block; margin-left: 12px; color: #0066cc; text-decoration: none;">
           Manage Alerts
         </a>
       </p>
-      
+
       <p style="color: #999; font-size: 12px; margin-top: 32px;">
         You're receiving this daily digest because you have saved searches with email notifications enabled.
         <a href="${process.env.REPLIT_DEV_DOMAIN || 'https://realtorsdashboard.com'}/settings">Manage your alerts</a>
       </p>
     </div>
   `;
-  
+
   const sent = await sendEmail({
     to: user.email,
     subject,
     html,
   });
-  
+
   if (sent) {
-    for (const result of results) {
+    for (const result of emailResults) {
       await storage.createSavedSearchNotification({
         savedSearchId: result.savedSearch.id,
         userId,
-        matchedPropertyIds: result.matchingProperties.map(p => p.id),
+        matchedPropertyIds: result.evaluation.newPropertyIds,
         changeIds: result.changes.map(c => c.id),
         notificationType: "daily_digest",
         emailSent: true,
         emailSentAt: new Date(),
         subject,
-        summary: `${result.matchingProperties.length} matches, ${result.changes.length} changes`,
+        summary: `${describeDelta(result)} (${result.evaluation.matchCount} total matches)`,
+      });
+    }
+  }
+
+  return sent;
+}
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export async function processWeeklyDigest(): Promise<void> {
+  console.log("Processing weekly digest...");
+
+  const weeklySearches = await storage.getActiveSavedSearchesByFrequency("weekly");
+  if (weeklySearches.length === 0) {
+    console.log("No weekly digest searches configured");
+    return;
+  }
+
+  const since = new Date(Date.now() - WEEK_MS);
+  const userSearchMap = new Map<string, MatchResult[]>();
+
+  for (const search of weeklySearches) {
+    try {
+      const evaluation = await evaluateSavedSearch(search);
+      const changes = await storage.getChangesForProperties(evaluation.matchedPropertyIds, since);
+      const result = await buildMatchResult(search, evaluation, changes);
+
+      if (!hasMatchDelta(result)) {
+        await saveMatchState(result);
+        continue;
+      }
+
+      if (!userSearchMap.has(search.userId)) {
+        userSearchMap.set(search.userId, []);
+      }
+      userSearchMap.get(search.userId)!.push(result);
+    } catch (error) {
+      console.error(`Error processing weekly digest for search ${search.id}:`, error);
+    }
+  }
+
+  let sentCount = 0;
+  for (const [userId, userResults] of Array.from(userSearchMap.entries())) {
+    try {
+      const sent = await sendWeeklyDigest(userId, userResults);
+      if (sent) sentCount++;
+      for (const result of userResults) {
+        if (sent || !result.savedSearch.emailEnabled) {
+          await saveMatchState(result);
+        }
+      }
+    } catch (error) {
+      console.error(`Error sending weekly digest to user ${userId}:`, error);
+    }
+  }
+
+  console.log(`Sent ${sentCount} weekly digests`);
+}
+
+async function sendWeeklyDigest(userId: string, results: MatchResult[]): Promise<boolean> {
+  const user = await storage.getUser(userId);
+  if (!user?.email) return false;
+
+  const emailResults = results.filter(r => r.savedSearch.emailEnabled);
+  if (emailResults.length === 0) return false;
+
+  const totalNew = emailResults.reduce((sum, r) => sum + r.evaluation.newPropertyIds.length, 0);
+  const totalDropped = emailResults.reduce((sum, r) => sum + r.evaluation.droppedPropertyIds.length, 0);
+  const totalChanges = emailResults.reduce((sum, r) => sum + r.changes.length, 0);
+
+  const searchSummaries = emailResults.map(r =>
+    `• "${r.savedSearch.name}": ${describeDelta(r)} (${r.evaluation.matchCount.toLocaleString()} total)`
+  ).join('\n');
+
+  const newMatchList = emailResults
+    .flatMap(r => r.newMatches)
+    .slice(0, NEW_MATCH_LIST_LIMIT)
+    .map(formatProperty)
+    .join('\n');
+
+  const subject = `Weekly Property Digest: ${totalNew} new match${totalNew === 1 ? '' : 'es'} this week`;
+
+  const html = `
+    <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2 style="color: #1a1a1a;">Your Weekly Property Digest</h2>
+
+      <p style="color: #666;">
+        This week across your <strong>${emailResults.length}</strong> saved search${emailResults.length > 1 ? 'es' : ''}:
+        <strong>${totalNew}</strong> new match${totalNew === 1 ? '' : 'es'},
+        <strong>${totalDropped}</strong> no longer matching
+        ${totalChanges > 0 ? ` and <strong>${totalChanges}</strong> updates to matching properties` : ''}.
+      </p>
+
+      <div style="background: #f5f5f5; padding: 16px; border-radius: 8px; margin: 16px 0;">
+        <h3 style="margin-top: 0; color: #1a1a1a;">Your Saved Searches</h3>
+        <pre style="white-space: pre-wrap; font-family: sans-serif; color: #333;">${searchSummaries}</pre>
+      </div>
+      ${newMatchList ? `
+      <div style="background: #f5f5f5; padding: 16px; border-radius: 8px; margin: 16px 0;">
+        <h3 style="margin-top: 0; color: #1a1a1a;">New This Week</h3>
+        <pre style="white-space: pre-wrap; font-family: sans-serif; color: #333;">${newMatchList}</pre>
+      </div>` : ''}
+
+      <p>
+        <a href="${process.env.REPLIT_DEV_DOMAIN || 'https://realtorsdashboard.com'}/screener"
+           style="display: inline-block; background: #0066cc; color: white; padding: 12px 24px; border-radius: 6px; text-decoration: none;">
+          View Properties
+        </a>
+      </p>
+
+      <p style="color: #999; font-size: 12px; margin-top: 32px;">
+        You're receiving this weekly digest because you have saved searches with email notifications enabled.
+        <a href="${process.env.REPLIT_DEV_DOMAIN || 'https://realtorsdashboard.com'}/settings">Manage your alerts</a>
+      </p>
+    </div>
+  `;
+
+  const sent = await sendEmail({
+    to: user.email,
+    subject,
+    html,
+  });
+
+  if (sent) {
+    for (const result of emailResults) {
+      await storage.createSavedSearchNotification({
+        savedSearchId: result.savedSearch.id,
+        userId,
+        matchedPropertyIds: result.evaluation.newPropertyIds,
+        changeIds: result.changes.map(c => c.id),
+        notificationType: "weekly_digest",
+        emailSent: true,
+        emailSentAt: new Date(),
+        subject,
+        summary: `${describeDelta(result)} (${result.evaluation.matchCount} total matches)`,
       });
     }
   }
-  
+
   return sent;
 }
 
@@ -343,3 +598,30 @@ export async function recordPropertyChange(
     console.error("Error recording property change:", error);
   }
 }
+
+export async function recordPropertyChanges(
+  changes: Array<{
+    propertyId: string;
+    changeType: string;
+    previousValue: unknown;
+    newValue: unknown;
+    changeSummary?: string;
+  }>
+): Promise<number> {
+  try {
+    return await storage.createPropertyChanges(
+      changes.map(c => ({
+        propertyId: c.propertyId,
+        changeType: c.changeType,
+        previousValue: safeJsonValue(c.previousValue),
+        newValue: safeJsonValue(c.newValue),
+        changeSummary: c.changeSummary || null,
+        processedForDigest: false,
+        processedForInstant: false,
+      }))
+    );
+  } catch (error) {
+    console.error("Error recording property changes:", error);
+    return 0;
+  }
+}
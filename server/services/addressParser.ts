@@ -0,0 +1,203 @@
+// Address normalization shared by the address search index
+// (server/etl/address-search-index.ts) and queries against it
+// (server/services/addressSearch.ts).
+//
+// Directions and street types are spelled out ("W 57th St" -> "west 57
+// street"), ordinals and number words become digits ("Fifth Ave" -> "5
+// avenue") and unit designations lose their prefixes and punctuation ("Apt
+// 4-B", "#4B" -> "4B"). The street core drops the trailing type, so "W 57th"
+// and "West 57 Street" meet on "west 57".
+
+const DIRECTIONS: Record<string, string> = {
+  e: "east", w: "west", n: "north", s: "south",
+  east: "east", west: "west", north: "north", south: "south",
+};
+
+const STREET_TYPES: Record<string, string> = {
+  st: "street", str: "street", street: "street",
+  ave: "avenue", av: "avenue", avenue: "avenue",
+  blvd: "boulevard", boulevard: "boulevard",
+  pl: "place", place: "place",
+  pkwy: "parkway", parkway: "parkway",
+  rd: "road", road: "road",
+  dr: "drive", drive: "drive",
+  ln: "lane", lane: "lane",
+  ter: "terrace", terrace: "terrace",
+  ct: "court", court: "court",
+  sq: "square", square: "square",
+  hwy: "highway", highway: "highway",
+  expy: "expressway", expressway: "expressway",
+  tpke: "turnpike", turnpike: "turnpike",
+  plz: "plaza", plaza: "plaza",
+  cir: "circle", circle: "circle",
+};
+
+const NAME_ABBREVIATIONS: Record<string, string> = {
+  mt: "mount",
+  ft: "fort",
+  bway: "broadway",
+  bdwy: "broadway",
+};
+
+const ORDINAL_WORDS: Record<string, string> = {
+  first: "1", second: "2", third: "3", fourth: "4", fifth: "5", sixth: "6",
+  seventh: "7", eighth: "8", ninth: "9", tenth: "10", eleventh: "11", twelfth: "12",
+};
+
+// Whole-street aliases, applied after normalization
+const STREET_ALIASES: Array<[string, string]> = [
+  ["avenue of the americas", "6 avenue"],
+  ["avenue of americas", "6 avenue"],
+];
+
+const UNIT_MARKERS = new Set(["apt", "apartment", "unit", "#", "suite", "ste", "no", "rm", "room"]);
+const PENTHOUSE_MARKERS = new Set(["ph", "penthouse"]);
+
+const BOROUGH_NAMES: Array<[string[], string]> = [
+  [["manhattan"], "Manhattan"],
+  [["new", "york"], "Manhattan"],
+  [["nyc"], "Manhattan"],
+  [["brooklyn"], "Brooklyn"],
+  [["bronx"], "Bronx"],
+  [["queens"], "Queens"],
+  [["staten", "island"], "Staten Island"],
+];
+
+const HOUSE_NUMBER = /^\d+[a-z]?(-\d+[a-z]?)?$/;
+const ORDINAL = /^(\d+)(st|nd|rd|th)$/;
+const UNIT_LIKE = /^(\d+[a-z]{1,2}|[a-z]{1,2}\d+|\d+-[a-z]{1,2}|[a-z]{1,2}-\d+)$/;
+
+export interface ParsedAddressQuery {
+  bbl: string | null;
+  houseNumber: string | null;
+  street: string;
+  streetCore: string;
+  unit: string | null;
+  borough: string | null;
+  zipCode: string | null;
+}
+
+function tokenize(value: string): string[] {
+  return value
+    .toLowerCase()
+    .replace(/#/g, " # ")
+    .replace(/[.,;']/g, " ")
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+function normalizeStreetTokens(tokens: string[]): string[] {
+  const normalized = tokens.map((token, i) => {
+    // "St Marks Pl": a leading St is Saint
+    if ((token === "st" || token === "ste") && i === 0 && tokens.length > 1) return "saint";
+    const ordinal = token.match(ORDINAL);
+    if (ordinal) return ordinal[1];
+    return ORDINAL_WORDS[token] || DIRECTIONS[token] || STREET_TYPES[token] || NAME_ABBREVIATIONS[token] || token;
+  });
+  let street = normalized.join(" ");
+  for (const [alias, canonical] of STREET_ALIASES) {
+    street = street.replace(alias, canonical);
+  }
+  return street.split(" ").filter(Boolean);
+}
+
+/**
+ * "west 57 street" -> "west 57"; a leading type ("avenue a") or a street made
+ * only of a type word ("court street" -> "court") is kept.
+ */
+function streetCore(tokens: string[]): string {
+  const last = tokens[tokens.length - 1];
+  if (tokens.length > 1 && Object.values(STREET_TYPES).includes(last)) {
+    return tokens.slice(0, -1).join(" ");
+  }
+  return tokens.join(" ");
+}
+
+/** Unit designation without prefixes or punctuation: "Apt 04-B" -> "4B". */
+export function normalizeUnit(value: string): string | null {
+  const unit = value
+    .toUpperCase()
+    .replace(/^\s*(APARTMENT|APT|UNIT|NUMBER|NO|SUITE|STE|ROOM|RM)(?:[.\s#-]+|(?=\d))/, "")
+    .replace(/PENTHOUSE/g, "PH")
+    .replace(/[^A-Z0-9]/g, "")
+    .replace(/^0+(?=\d)/, "");
+  return unit || null;
+}
+
+/** Splits a recorded address into house number and normalized street. */
+export function normalizeAddress(address: string): { houseNumber: string | null; street: string; streetCore: string } {
+  const tokens = tokenize(address);
+  const houseNumber = tokens.length > 1 && HOUSE_NUMBER.test(tokens[0]) ? tokens[0].toUpperCase() : null;
+  const streetTokens = normalizeStreetTokens(houseNumber ? tokens.slice(1) : tokens);
+  return { houseNumber, street: streetTokens.join(" "), streetCore: streetCore(streetTokens) };
+}
+
+/** pg_trgm-style trigrams: each word padded with two spaces before, one after. */
+export function trigrams(value: string): string[] {
+  const grams = new Set<string>();
+  for (const word of value.split(" ").filter(Boolean)) {
+    const padded = `  ${word} `;
+    for (let i = 0; i + 3 <= padded.length; i++) grams.add(padded.slice(i, i + 3));
+  }
+  return Array.from(grams);
+}
+
+export function parseAddressQuery(query: string): ParsedAddressQuery {
+  const parsed: ParsedAddressQuery = {
+    bbl: null,
+    houseNumber: null,
+    street: "",
+    streetCore: "",
+    unit: null,
+    borough: null,
+    zipCode: null,
+  };
+
+  const digits = query.replace(/[-\s\/.]/g, "");
+  if (/^\d{6,10}$/.test(digits)) {
+    parsed.bbl = digits;
+    return parsed;
+  }
+
+  let tokens = tokenize(query);
+
+  if (tokens.length > 2 && /^\d{5}$/.test(tokens[tokens.length - 1])) {
+    parsed.zipCode = tokens.pop()!;
+  }
+  if (tokens.length > 2 && tokens[tokens.length - 1] === "ny") tokens.pop();
+  for (const [words, borough] of BOROUGH_NAMES) {
+    const tail = tokens.slice(-words.length);
+    if (tokens.length - words.length >= 2 && tail.join(" ") === words.join(" ")) {
+      parsed.borough = borough;
+      tokens = tokens.slice(0, -words.length);
+      break;
+    }
+  }
+
+  if (tokens.length > 1 && HOUSE_NUMBER.test(tokens[0])) {
+    parsed.houseNumber = tokens.shift()!.toUpperCase();
+  }
+
+  const markerIndex = tokens.findIndex((t, i) => i > 0 && (UNIT_MARKERS.has(t) || PENTHOUSE_MARKERS.has(t)));
+  if (markerIndex > 0) {
+    const marker = tokens[markerIndex];
+    const rest = tokens.slice(markerIndex + 1).join("");
+    parsed.unit = PENTHOUSE_MARKERS.has(marker) ? `PH${normalizeUnit(rest) || ""}` : normalizeUnit(rest);
+    tokens = tokens.slice(0, markerIndex);
+  } else if (tokens.length > 1) {
+    const last = tokens[tokens.length - 1];
+    const previous = tokens[tokens.length - 2];
+    const afterStreetType = tokens.length > 2 && !!STREET_TYPES[previous];
+    // "52 e 72 12b" or "300 w 57th st 4": a trailing token that reads as a
+    // unit rather than part of the street name
+    if ((UNIT_LIKE.test(last) && !ORDINAL.test(last)) || (/^\d+$/.test(last) && afterStreetType)) {
+      parsed.unit = normalizeUnit(last);
+      tokens.pop();
+    }
+  }
+
+  const streetTokens = normalizeStreetTokens(tokens);
+  parsed.street = streetTokens.join(" ");
+  parsed.streetCore = streetCore(streetTokens);
+  return parsed;
+}
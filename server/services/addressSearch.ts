@@ -0,0 +1,206 @@
+import { db } from "../db";
+import type { AddressMatchType, BuildingSearchResult, UnitSearchResult } from "@shared/schema";
+import { sql, type SQL } from "drizzle-orm";
+import { parseAddressQuery, trigrams, type ParsedAddressQuery } from "./addressParser";
+
+// Building and condo unit search over address_search_index (built by
+// server/etl/address-search-index.ts).
+//
+// Queries and indexed addresses go through the same normalizer
+// (./addressParser). Candidates share the house number and the street
+// (exactly, or by trigram similarity for typos); each is then scored on
+// house number, street and unit, and labelled with how it matched.
+
+const RESULT_LIMIT = 10;
+const CANDIDATE_LIMIT = 200;
+const MIN_SIMILARITY = 0.3;
+
+interface CandidateRow {
+  id: string;
+  entity_type: "building" | "unit";
+  base_bbl: string;
+  unit_bbl: string | null;
+  house_number: string | null;
+  street: string | null;
+  street_core: string | null;
+  unit_designation: string | null;
+  unit: string | null;
+  borough: string | null;
+  zip_code: string | null;
+  display_address: string | null;
+  unit_count: number | null;
+  slug: string | null;
+  similarity: number;
+}
+
+function numbersIn(value: string): string[] {
+  return value.split(" ").filter((t) => /^\d+$/.test(t));
+}
+
+function scoreCandidate(parsed: ParsedAddressQuery, row: CandidateRow): { score: number; matchType: AddressMatchType } | null {
+  const core = row.street_core || "";
+  const coreExact = core === parsed.streetCore;
+  const corePrefix = !coreExact && core.startsWith(parsed.streetCore);
+  if (!coreExact && !corePrefix) {
+    if (row.similarity < MIN_SIMILARITY) return null;
+    // Numbered streets must agree: "west 57" is never "west 75"
+    const rowNumbers = numbersIn(core);
+    if (numbersIn(parsed.streetCore).some((n) => !rowNumbers.includes(n))) return null;
+  }
+
+  let score = coreExact ? 50 : corePrefix ? 40 : 40 * row.similarity;
+  let partial = !coreExact;
+
+  if (parsed.houseNumber) {
+    if (row.house_number === parsed.houseNumber) score += 30;
+    else if (row.house_number?.startsWith(`${parsed.houseNumber}-`)) {
+      score += 20;
+      partial = true;
+    } else return null;
+  } else {
+    partial = true;
+  }
+
+  if (parsed.street !== parsed.streetCore && row.street === parsed.street) score += 5;
+
+  if (parsed.unit) {
+    if (row.entity_type === "unit") {
+      if (row.unit === parsed.unit) score += 25;
+      else if (row.unit?.startsWith(parsed.unit)) {
+        score += 10;
+        partial = true;
+      } else return null;
+    }
+  } else if (row.entity_type === "unit") {
+    score -= 5;
+  }
+
+  if (parsed.zipCode) score += row.zip_code === parsed.zipCode ? 5 : -15;
+  if (parsed.borough) score += row.borough === parsed.borough ? 5 : -15;
+
+  const fuzzy = !coreExact && !corePrefix;
+  return {
+    score: Math.round(score * 10) / 10,
+    matchType: fuzzy ? "fuzzy" : partial ? "partial" : "exact",
+  };
+}
+
+function likePrefix(value: string): string {
+  return `${value.replace(/[\\%_]/g, "\\$&")}%`;
+}
+
+function entityCondition(entityFilter: "all" | "buildings" | "units"): SQL {
+  if (entityFilter === "buildings") return sql`i.entity_type = 'building'`;
+  if (entityFilter === "units") return sql`i.entity_type = 'unit'`;
+  return sql`TRUE`;
+}
+
+async function findCandidates(parsed: ParsedAddressQuery, entityFilter: "all" | "buildings" | "units"): Promise<CandidateRow[]> {
+  const houseNumberCondition = parsed.houseNumber
+    ? sql`(i.house_number = ${parsed.houseNumber} OR i.house_number LIKE ${likePrefix(`${parsed.houseNumber}-`)})`
+    : sql`TRUE`;
+  // A building with hundreds of units would otherwise crowd out the one asked for
+  const unitCondition = parsed.unit
+    ? sql`(i.entity_type = 'building' OR i.unit LIKE ${likePrefix(parsed.unit)})`
+    : sql`TRUE`;
+
+  // Exact and prefix street matches come off the b-tree index
+  const direct = await db.execute(sql`
+    SELECT i.*, 1::real AS similarity
+    FROM address_search_index i
+    WHERE i.street_core LIKE ${likePrefix(parsed.streetCore)}
+      AND ${houseNumberCondition}
+      AND ${unitCondition}
+      AND ${entityCondition(entityFilter)}
+    ORDER BY i.street_core = ${parsed.streetCore} DESC, i.entity_type, i.display_address
+    LIMIT ${CANDIDATE_LIMIT}
+  `);
+  const rows = direct.rows as unknown as CandidateRow[];
+  if (rows.length >= RESULT_LIMIT) return rows;
+
+  // Then typo-tolerant matches on shared street trigrams
+  const grams = trigrams(parsed.streetCore);
+  if (grams.length === 0) return rows;
+  const queryGrams = sql`string_to_array(${grams.join("|")}, '|')`;
+  const fuzzy = await db.execute(sql`
+    SELECT i.*, m.shared::real / (cardinality(i.street_trigrams) + ${grams.length} - m.shared) AS similarity
+    FROM address_search_index i
+    CROSS JOIN LATERAL (
+      SELECT COUNT(*)::int AS shared FROM unnest(i.street_trigrams) t WHERE t = ANY(${queryGrams})
+    ) m
+    WHERE i.street_trigrams && ${queryGrams}
+      AND ${houseNumberCondition}
+      AND ${unitCondition}
+      AND ${entityCondition(entityFilter)}
+    ORDER BY similarity DESC
+    LIMIT ${CANDIDATE_LIMIT}
+  `);
+  const seen = new Set(rows.map((r) => r.id));
+  for (const row of fuzzy.rows as unknown as CandidateRow[]) {
+    if (!seen.has(row.id)) rows.push({ ...row, similarity: Number(row.similarity) });
+  }
+  return rows;
+}
+
+async function findByBbl(bbl: string, entityFilter: "all" | "buildings" | "units"): Promise<CandidateRow[]> {
+  const result = await db.execute(sql`
+    SELECT i.*, 1::real AS similarity
+    FROM address_search_index i
+    WHERE (i.base_bbl LIKE ${likePrefix(bbl)} OR i.unit_bbl LIKE ${likePrefix(bbl)})
+      AND ${entityCondition(entityFilter)}
+    ORDER BY i.entity_type, i.unit_bbl
+    LIMIT ${RESULT_LIMIT * 2}
+  `);
+  return result.rows as unknown as CandidateRow[];
+}
+
+/**
+ * Ranked building and condo unit matches for a free-text address, unit
+ * address or BBL.
+ */
+export async function searchUnified(query: string, entityFilter: "all" | "buildings" | "units" = "all"): Promise<{
+  buildings: BuildingSearchResult[];
+  units: UnitSearchResult[];
+}> {
+  const parsed = parseAddressQuery(query);
+
+  let scored: Array<{ row: CandidateRow; score: number; matchType: AddressMatchType }>;
+  if (parsed.bbl) {
+    scored = (await findByBbl(parsed.bbl, entityFilter)).map((row) => ({ row, score: 100, matchType: "bbl" as const }));
+  } else {
+    if (parsed.streetCore.length < 2) return { buildings: [], units: [] };
+    scored = [];
+    for (const row of await findCandidates(parsed, entityFilter)) {
+      const match = scoreCandidate(parsed, row);
+      if (match) scored.push({ row, ...match });
+    }
+    scored.sort((a, b) => b.score - a.score || (a.row.display_address || "").localeCompare(b.row.display_address || ""));
+  }
+
+  const buildings: BuildingSearchResult[] = [];
+  const units: UnitSearchResult[] = [];
+  for (const { row, score, matchType } of scored) {
+    if (row.entity_type === "building" && buildings.length < RESULT_LIMIT) {
+      buildings.push({
+        baseBbl: row.base_bbl,
+        displayAddress: row.display_address || "",
+        borough: row.borough,
+        unitCount: row.unit_count || 0,
+        matchType,
+        score,
+      });
+    } else if (row.entity_type === "unit" && units.length < RESULT_LIMIT && row.unit_bbl) {
+      units.push({
+        unitBbl: row.unit_bbl,
+        baseBbl: row.base_bbl,
+        unitDesignation: row.unit_designation,
+        displayAddress: row.display_address,
+        borough: row.borough,
+        slug: row.slug,
+        matchType,
+        score,
+      });
+    }
+  }
+  return { buildings, units };
+}
@@ -0,0 +1,604 @@
+import { db } from "../db";
+import {
+  avmModels,
+  properties,
+  avmValuations,
+  type AvmEvaluation,
+  type AvmEvaluationRow,
+  type AvmModel,
+  type AvmValueDriver,
+  type ConfidenceLevel,
+  type InsertAvmValuation,
+} from "@shared/schema";
+import { sql, desc, gt, inArray } from "drizzle-orm";
+import { choleskyFactor, choleskySolve } from "./linearAlgebra";
+
+// Automated valuation model.
+//
+// A hedonic ridge regression of log sale price on living area, rooms,
+// building age, lot size, property type, state and ZIP, plus a per-state
+// time trend that brings older sales forward to the model's as-of date. ZIP
+// effects carry a heavier penalty, so thinly traded ZIPs are shrunk toward
+// their state. The P10-P90 range comes from the model's residual quantiles
+// for the property's state and type, widened when the ZIP or living area is
+// unknown to the model.
+
+const TRAINING_WINDOW_YEARS = 5;
+const MAX_TRAINING_SALES = 400_000;
+const MIN_TRAINING_SALES = 200;
+const MIN_SALE_PRICE = 10_000;
+const MAX_VALUE = 2_000_000_000;
+// Sales whose id hashes below this percentage are held out for evaluation
+const HOLDOUT_PERCENT = 20;
+const MIN_ZIP_SALES = 5;
+const MIN_SEGMENT_RESIDUALS = 30;
+const BASE_PENALTY = 1;
+const ZIP_PENALTY = 20; // worth ~20 sales at the state level
+const UNSEEN_ZIP_WIDENING = 1.5;
+const MISSING_SQFT_WIDENING = 1.25;
+// (P90 - P10) / estimate at or below which confidence is High / Medium
+const HIGH_CONFIDENCE_SPREAD = 0.3;
+const MEDIUM_CONFIDENCE_SPREAD = 0.6;
+const MAX_DRIVERS = 3;
+const BATCH_SIZE = 2000;
+
+const RAW_FEATURES = [
+  "logSqft",
+  "sqftMissing",
+  "beds",
+  "baths",
+  "roomsMissing",
+  "age",
+  "ageSq",
+  "yearBuiltMissing",
+  "logLot",
+  "lotMissing",
+] as const;
+const SCALED_FEATURES = ["logSqft", "beds", "baths", "age", "ageSq", "logLot"] as const;
+
+type RawFeature = typeof RAW_FEATURES[number];
+type Imputed = { sqft: number; beds: number; baths: number; yearBuilt: number };
+
+export interface AvmSubject {
+  state: string;
+  zipCode: string;
+  propertyType: string;
+  sqft: number | null;
+  beds: number | null;
+  baths: number | null;
+  yearBuilt: number | null;
+  lotSize: number | null;
+}
+
+interface TrainingSale extends AvmSubject {
+  id: string;
+  salePrice: number;
+  saleDate: Date;
+}
+
+// Serialized into avm_models.model
+export interface AvmModelSpec {
+  asOf: string;
+  features: string[];
+  coefficients: number[];
+  featureMeans: number[];
+  scaling: Record<string, { mean: number; std: number }>;
+  imputation: Record<string, Imputed>; // by property type, "*" across all types
+  residualQuantiles: Record<string, { p10: number; p90: number }>; // "state|type", "state", "*"
+}
+
+interface ValueEstimate {
+  estimatedValue: number;
+  valueLow: number;
+  valueHigh: number;
+  confidenceLevel: ConfidenceLevel;
+  drivers: AvmValueDriver[];
+}
+
+interface LoadedModel {
+  spec: AvmModelSpec;
+  index: Map<string, number>;
+  asOf: Date;
+  driverGroups: (string | null)[];
+  groupBaselines: Map<string, number>;
+}
+
+function quantile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return 0;
+  const pos = (sorted.length - 1) * q;
+  const lower = Math.floor(pos);
+  const upper = Math.ceil(pos);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower);
+}
+
+function median(values: number[]): number {
+  return quantile([...values].sort((a, b) => a - b), 0.5);
+}
+
+function yearsBetween(from: Date, to: Date): number {
+  return (to.getTime() - from.getTime()) / (1000 * 60 * 60 * 24 * 365.25);
+}
+
+// FNV-1a, so the holdout split is the same on every run
+function isHoldout(saleId: string): boolean {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < saleId.length; i++) {
+    hash ^= saleId.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % 100 < HOLDOUT_PERCENT;
+}
+
+function groupBy<T>(rows: T[], key: (row: T) => string): Map<string, T[]> {
+  const grouped = new Map<string, T[]>();
+  for (const row of rows) {
+    const k = key(row);
+    const list = grouped.get(k) || [];
+    list.push(row);
+    grouped.set(k, list);
+  }
+  return grouped;
+}
+
+function imputeFrom(rows: AvmSubject[], fallback?: Imputed): Imputed {
+  const known = (values: (number | null)[], min: number) => values.filter((v): v is number => v !== null && v > min);
+  const sqft = known(rows.map((r) => r.sqft), 0);
+  const beds = known(rows.map((r) => r.beds), -1);
+  const baths = known(rows.map((r) => r.baths), 0);
+  const yearBuilt = known(rows.map((r) => r.yearBuilt), 1700);
+  return {
+    sqft: sqft.length ? median(sqft) : fallback?.sqft ?? 1000,
+    beds: beds.length ? median(beds) : fallback?.beds ?? 2,
+    baths: baths.length ? median(baths) : fallback?.baths ?? 1,
+    yearBuilt: yearBuilt.length ? median(yearBuilt) : fallback?.yearBuilt ?? 1950,
+  };
+}
+
+/**
+ * Unscaled attribute features. Missing attributes take the property type's
+ * training median and set a missing flag, so the flag absorbs any bias.
+ */
+function rawFeatures(subject: AvmSubject, imputation: AvmModelSpec["imputation"], refYear: number): Record<RawFeature, number> {
+  const fallback = imputation[subject.propertyType] ?? imputation["*"];
+  const hasSqft = !!subject.sqft && subject.sqft > 0;
+  const hasYear = !!subject.yearBuilt && subject.yearBuilt > 1700;
+  const hasLot = !!subject.lotSize && subject.lotSize > 0;
+  const age = Math.max(0, Math.min(200, refYear - (hasYear ? subject.yearBuilt! : fallback.yearBuilt)));
+  return {
+    logSqft: Math.log(hasSqft ? subject.sqft! : fallback.sqft),
+    sqftMissing: hasSqft ? 0 : 1,
+    beds: Math.min(subject.beds ?? fallback.beds, 10),
+    baths: Math.min(subject.baths ?? fallback.baths, 10),
+    roomsMissing: subject.beds === null || subject.baths === null ? 1 : 0,
+    age,
+    ageSq: (age * age) / 100,
+    yearBuiltMissing: hasYear ? 0 : 1,
+    logLot: hasLot ? Math.log(subject.lotSize!) : 0,
+    lotMissing: hasLot ? 0 : 1,
+  };
+}
+
+/** Sparse feature vector as [index, value] pairs. */
+function encode(
+  spec: Pick<AvmModelSpec, "scaling" | "imputation">,
+  index: Map<string, number>,
+  subject: AvmSubject,
+  refYear: number,
+  yearsAgo: number
+): Array<[number, number]> {
+  const x: Array<[number, number]> = [[0, 1]];
+  const raw = rawFeatures(subject, spec.imputation, refYear);
+  for (const name of RAW_FEATURES) {
+    const scale = spec.scaling[name];
+    x.push([index.get(name)!, scale ? (raw[name] - scale.mean) / scale.std : raw[name]]);
+  }
+  const push = (name: string, value: number) => {
+    const i = index.get(name);
+    if (i !== undefined && value !== 0) x.push([i, value]);
+  };
+  push(`state:${subject.state}`, 1);
+  push(`type:${subject.propertyType}`, 1);
+  push(`zip:${subject.zipCode}`, 1);
+  push(`trend:${subject.state}`, yearsAgo);
+  return x;
+}
+
+/** Solves a symmetric positive definite system (row-major) by Cholesky. */
+function fitModel(rows: TrainingSale[], asOf: Date): AvmModelSpec {
+  const imputation: AvmModelSpec["imputation"] = { "*": imputeFrom(rows) };
+  for (const [type, typeRows] of Array.from(groupBy(rows, (r) => r.propertyType))) {
+    imputation[type] = imputeFrom(typeRows, imputation["*"]);
+  }
+
+  const zipCounts = new Map<string, number>();
+  for (const row of rows) zipCounts.set(row.zipCode, (zipCounts.get(row.zipCode) || 0) + 1);
+  const states = Array.from(new Set(rows.map((r) => r.state))).sort();
+  const types = Array.from(new Set(rows.map((r) => r.propertyType))).sort();
+  const zips = Array.from(zipCounts)
+    .filter(([, count]) => count >= MIN_ZIP_SALES)
+    .map(([zip]) => zip)
+    .sort();
+  const features = [
+    "intercept",
+    ...RAW_FEATURES,
+    ...states.map((s) => `state:${s}`),
+    ...types.map((t) => `type:${t}`),
+    ...zips.map((z) => `zip:${z}`),
+    ...states.map((s) => `trend:${s}`),
+  ];
+  const index = new Map(features.map((f, i) => [f, i]));
+
+  const scaling: AvmModelSpec["scaling"] = {};
+  const sums = new Map<string, { sum: number; sumSq: number }>(SCALED_FEATURES.map((f) => [f, { sum: 0, sumSq: 0 }]));
+  for (const row of rows) {
+    const raw = rawFeatures(row, imputation, row.saleDate.getUTCFullYear());
+    for (const name of SCALED_FEATURES) {
+      const s = sums.get(name)!;
+      s.sum += raw[name];
+      s.sumSq += raw[name] * raw[name];
+    }
+  }
+  for (const name of SCALED_FEATURES) {
+    const { sum, sumSq } = sums.get(name)!;
+    const mean = sum / rows.length;
+    scaling[name] = { mean, std: Math.sqrt(Math.max(0, sumSq / rows.length - mean * mean)) || 1 };
+  }
+
+  const n = features.length;
+  const xtx = new Float64Array(n * n);
+  const xty = new Float64Array(n);
+  const featureSums = new Float64Array(n);
+  for (const row of rows) {
+    const x = encode({ scaling, imputation }, index, row, row.saleDate.getUTCFullYear(), yearsBetween(row.saleDate, asOf));
+    const y = Math.log(row.salePrice);
+    for (const [i, vi] of x) {
+      featureSums[i] += vi;
+      xty[i] += vi * y;
+      for (const [j, vj] of x) {
+        if (j >= i) xtx[i * n + j] += vi * vj;
+      }
+    }
+  }
+  for (let i = 1; i < n; i++) {
+    for (let j = 0; j < i; j++) xtx[i * n + j] = xtx[j * n + i];
+    xtx[i * n + i] += features[i].startsWith("zip:") ? ZIP_PENALTY : BASE_PENALTY;
+  }
+  const coefficients = choleskySolve(choleskyFactor(xtx, n), xty, n);
+
+  const spec: AvmModelSpec = {
+    asOf: asOf.toISOString(),
+    features,
+    coefficients: Array.from(coefficients),
+    featureMeans: Array.from(featureSums, (s) => s / rows.length),
+    scaling,
+    imputation,
+    residualQuantiles: {},
+  };
+
+  // In-sample residual quantiles; the holdout's interval coverage shows how
+  // well they carry over to unseen sales
+  const model = loadModel(spec);
+  const residuals = rows.map((row) => ({
+    row,
+    residual: Math.log(row.salePrice) - predictLog(model, row, row.saleDate),
+  }));
+  const addQuantiles = (key: string, values: number[], minCount: number) => {
+    if (values.length < minCount) return;
+    const sorted = values.sort((a, b) => a - b);
+    spec.residualQuantiles[key] = { p10: quantile(sorted, 0.1), p90: quantile(sorted, 0.9) };
+  };
+  addQuantiles("*", residuals.map((r) => r.residual), 1);
+  for (const [state, group] of Array.from(groupBy(residuals, (r) => r.row.state))) {
+    addQuantiles(state, group.map((r) => r.residual), MIN_SEGMENT_RESIDUALS);
+  }
+  for (const [segment, group] of Array.from(groupBy(residuals, (r) => `${r.row.state}|${r.row.propertyType}`))) {
+    addQuantiles(segment, group.map((r) => r.residual), MIN_SEGMENT_RESIDUALS);
+  }
+
+  return spec;
+}
+
+function driverGroup(feature: string): string | null {
+  if (feature.startsWith("zip:") || feature.startsWith("state:")) return "location";
+  if (feature.startsWith("type:")) return "propertyType";
+  switch (feature) {
+    case "logSqft":
+    case "sqftMissing":
+      return "size";
+    case "beds":
+    case "baths":
+    case "roomsMissing":
+      return "rooms";
+    case "age":
+    case "ageSq":
+    case "yearBuiltMissing":
+      return "age";
+    case "logLot":
+    case "lotMissing":
+      return "lot";
+    default:
+      return null;
+  }
+}
+
+function loadModel(spec: AvmModelSpec): LoadedModel {
+  const driverGroups = spec.features.map(driverGroup);
+  const groupBaselines = new Map<string, number>();
+  driverGroups.forEach((group, i) => {
+    if (group) groupBaselines.set(group, (groupBaselines.get(group) || 0) + spec.coefficients[i] * spec.featureMeans[i]);
+  });
+  return {
+    spec,
+    index: new Map(spec.features.map((f, i) => [f, i])),
+    asOf: new Date(spec.asOf),
+    driverGroups,
+    groupBaselines,
+  };
+}
+
+/** Log value of the subject as of the given date. */
+function predictLog(model: LoadedModel, subject: AvmSubject, at: Date): number {
+  const x = encode(model.spec, model.index, subject, at.getUTCFullYear(), yearsBetween(at, model.asOf));
+  return x.reduce((sum, [i, v]) => sum + model.spec.coefficients[i] * v, 0);
+}
+
+function driverLabel(group: string, subject: AvmSubject): string {
+  switch (group) {
+    case "location":
+      return `Location (ZIP ${subject.zipCode})`;
+    case "propertyType":
+      return `Property type (${subject.propertyType})`;
+    case "size":
+      return subject.sqft ? `Living area (${subject.sqft.toLocaleString()} sqft)` : "Living area (unknown)";
+    case "rooms":
+      return subject.beds !== null && subject.baths !== null
+        ? `Bedrooms and bathrooms (${subject.beds} bd / ${subject.baths} ba)`
+        : "Bedrooms and bathrooms (unknown)";
+    case "age":
+      return subject.yearBuilt ? `Building age (built ${subject.yearBuilt})` : "Building age (unknown)";
+    default:
+      return subject.lotSize ? `Lot size (${subject.lotSize.toLocaleString()} sqft)` : "Lot size (unknown)";
+  }
+}
+
+/**
+ * Values one property as of the model date. Drivers are the feature groups
+ * that move the estimate most relative to the typical training sale.
+ */
+function valueSubject(model: LoadedModel, subject: AvmSubject, at: Date = model.asOf): ValueEstimate {
+  const x = encode(model.spec, model.index, subject, at.getUTCFullYear(), yearsBetween(at, model.asOf));
+  const { coefficients, residualQuantiles } = model.spec;
+  const logValue = x.reduce((sum, [i, v]) => sum + coefficients[i] * v, 0);
+
+  const q = residualQuantiles[`${subject.state}|${subject.propertyType}`] ?? residualQuantiles[subject.state] ?? residualQuantiles["*"];
+  let widening = 1;
+  if (!model.index.has(`zip:${subject.zipCode}`)) widening *= UNSEEN_ZIP_WIDENING;
+  if (!subject.sqft) widening *= MISSING_SQFT_WIDENING;
+  const toValue = (logV: number) => Math.round(Math.min(MAX_VALUE, Math.max(MIN_SALE_PRICE, Math.exp(logV))));
+  const estimatedValue = toValue(logValue);
+  const valueLow = toValue(logValue + q.p10 * widening);
+  const valueHigh = toValue(logValue + q.p90 * widening);
+  const spread = (valueHigh - valueLow) / estimatedValue;
+  const confidenceLevel: ConfidenceLevel =
+    spread <= HIGH_CONFIDENCE_SPREAD ? "High" : spread <= MEDIUM_CONFIDENCE_SPREAD ? "Medium" : "Low";
+
+  const contributions = new Map<string, number>();
+  for (const [i, v] of x) {
+    const group = model.driverGroups[i];
+    if (group) contributions.set(group, (contributions.get(group) || 0) + coefficients[i] * v);
+  }
+  const drivers = Array.from(model.groupBaselines)
+    .map(([group, baseline]) => ({ group, contribution: (contributions.get(group) || 0) - baseline }))
+    .filter((d) => Math.abs(d.contribution) >= 0.01)
+    .sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution))
+    .slice(0, MAX_DRIVERS)
+    .map((d) => ({
+      feature: d.group,
+      label: driverLabel(d.group, subject),
+      effect: Math.round((Math.exp(d.contribution) - 1) * 1000) / 1000,
+    }));
+
+  return { estimatedValue, valueLow, valueHigh, confidenceLevel, drivers };
+}
+
+async function loadTrainingSales(asOf: Date): Promise<TrainingSale[]> {
+  const since = new Date(asOf);
+  since.setUTCFullYear(since.getUTCFullYear() - TRAINING_WINDOW_YEARS);
+  const result = await db.execute(sql`
+    SELECT s.id, s.sale_price, s.sale_date,
+      p.state, p.zip_code, p.property_type, p.sqft, p.beds, p.baths, p.year_built, p.lot_size
+    FROM sales s
+    JOIN properties p ON p.id = s.property_id
+    WHERE COALESCE(s.arms_length, true) = true
+      AND s.sale_price >= ${MIN_SALE_PRICE}
+      AND s.sale_date > ${since.toISOString()}::timestamp
+      AND s.sale_date <= ${asOf.toISOString()}::timestamp
+    ORDER BY s.sale_date DESC, s.id
+    LIMIT ${MAX_TRAINING_SALES}
+  `);
+  const num = (v: unknown) => (v === null || v === undefined ? null : Number(v));
+  return (result.rows as any[]).map((r) => ({
+    id: r.id,
+    salePrice: Number(r.sale_price),
+    saleDate: new Date(r.sale_date),
+    state: r.state,
+    zipCode: r.zip_code,
+    propertyType: r.property_type,
+    sqft: num(r.sqft),
+    beds: num(r.beds),
+    baths: num(r.baths),
+    yearBuilt: num(r.year_built),
+    lotSize: num(r.lot_size),
+  }));
+}
+
+function evaluationRow(state: string, propertyType: string | null, results: Array<{ ape: number; covered: boolean }>): AvmEvaluationRow {
+  const apes = results.map((r) => r.ape).sort((a, b) => a - b);
+  const share = (predicate: (r: { ape: number; covered: boolean }) => boolean) =>
+    Math.round((results.filter(predicate).length / results.length) * 1000) / 1000;
+  return {
+    state,
+    propertyType,
+    sales: results.length,
+    medianApe: Math.round(quantile(apes, 0.5) * 1000) / 1000,
+    meanApe: Math.round((apes.reduce((a, b) => a + b, 0) / apes.length) * 1000) / 1000,
+    within10: share((r) => r.ape <= 0.1),
+    within20: share((r) => r.ape <= 0.2),
+    intervalCoverage: share((r) => r.covered),
+  };
+}
+
+function evaluateModel(model: LoadedModel, holdout: TrainingSale[], trainingSales: number): AvmEvaluation {
+  const results = holdout.map((sale) => {
+    const valuation = valueSubject(model, sale, sale.saleDate);
+    return {
+      sale,
+      ape: Math.abs(valuation.estimatedValue - sale.salePrice) / sale.salePrice,
+      covered: sale.salePrice >= valuation.valueLow && sale.salePrice <= valuation.valueHigh,
+    };
+  });
+  const byState = Array.from(groupBy(results, (r) => r.sale.state))
+    .map(([state, group]) => evaluationRow(state, null, group))
+    .sort((a, b) => a.state.localeCompare(b.state));
+  const bySegment = Array.from(groupBy(results, (r) => `${r.sale.state}|${r.sale.propertyType}`))
+    .map(([, group]) => evaluationRow(group[0].sale.state, group[0].sale.propertyType, group))
+    .sort((a, b) => a.state.localeCompare(b.state) || b.sales - a.sales);
+  return {
+    asOf: model.spec.asOf,
+    trainingSales,
+    holdoutSales: holdout.length,
+    overall: evaluationRow("All", null, results),
+    byState,
+    bySegment,
+  };
+}
+
+/**
+ * Trains on the non-holdout sales and evaluates on the holdout. Unless
+ * persist is false, then refits on every sale and saves the model, which
+ * becomes the one valueProperties() uses.
+ */
+export async function trainAvm(options: { asOf?: Date; persist?: boolean } = {}): Promise<{ modelId: string | null; evaluation: AvmEvaluation }> {
+  const asOf = options.asOf ?? new Date();
+  console.log(`\n📈 Training AVM as of ${asOf.toISOString().slice(0, 10)}...`);
+  const rows = await loadTrainingSales(asOf);
+  const training = rows.filter((r) => !isHoldout(r.id));
+  const holdout = rows.filter((r) => isHoldout(r.id));
+  if (training.length < MIN_TRAINING_SALES || holdout.length === 0) {
+    throw new Error(`Not enough arms-length sales to train the AVM (${rows.length} found)`);
+  }
+  console.log(`  ${training.length.toLocaleString()} training / ${holdout.length.toLocaleString()} holdout sales`);
+
+  const evaluation = evaluateModel(loadModel(fitModel(training, asOf)), holdout, training.length);
+  if (options.persist === false) return { modelId: null, evaluation };
+
+  const spec = fitModel(rows, asOf);
+  const [saved] = await db
+    .insert(avmModels)
+    .values({ asOf, trainingSales: rows.length, holdoutSales: holdout.length, model: spec, evaluation })
+    .returning({ id: avmModels.id });
+  console.log(`✅ Saved AVM model ${saved.id} (${spec.features.length} features)`);
+  return { modelId: saved.id, evaluation };
+}
+
+/**
+ * Fits a throwaway model on the sales up to asOf, for valuing properties as
+ * they would have been valued then (the score backtest). Nothing is saved.
+ */
+export async function trainPointInTimeAvm(asOf: Date): Promise<(subject: AvmSubject) => number> {
+  const rows = await loadTrainingSales(asOf);
+  if (rows.length < MIN_TRAINING_SALES) {
+    throw new Error(`Not enough arms-length sales before ${asOf.toISOString().slice(0, 10)} to train the AVM (${rows.length} found)`);
+  }
+  const model = loadModel(fitModel(rows, asOf));
+  return (subject) => valueSubject(model, subject).estimatedValue;
+}
+
+export async function getLatestAvmModel(): Promise<AvmModel | undefined> {
+  const [model] = await db.select().from(avmModels).orderBy(desc(avmModels.createdAt)).limit(1);
+  return model;
+}
+
+/**
+ * Values the given properties (or every property when omitted) with the
+ * latest model, storing the range and drivers in avm_valuations and the
+ * estimate in properties.estimated_value. Returns the number valued.
+ */
+export async function valueProperties(options: { propertyIds?: string[] } = {}): Promise<number> {
+  const latest = await getLatestAvmModel();
+  if (!latest) throw new Error("No AVM model has been trained; run scripts/train-avm.ts first");
+  const model = loadModel(latest.model as AvmModelSpec);
+  console.log(`\n🏷️  Valuing properties with AVM model ${latest.id}...`);
+
+  const subjectColumns = {
+    id: properties.id,
+    state: properties.state,
+    zipCode: properties.zipCode,
+    propertyType: properties.propertyType,
+    sqft: properties.sqft,
+    beds: properties.beds,
+    baths: properties.baths,
+    yearBuilt: properties.yearBuilt,
+    lotSize: properties.lotSize,
+  };
+
+  let valued = 0;
+  let lastId = "";
+  let offset = 0;
+
+  while (true) {
+    let batch: Array<AvmSubject & { id: string }>;
+    if (options.propertyIds) {
+      const ids = options.propertyIds.slice(offset, offset + BATCH_SIZE);
+      offset += BATCH_SIZE;
+      batch = ids.length > 0 ? await db.select(subjectColumns).from(properties).where(inArray(properties.id, ids)) : [];
+    } else {
+      batch = await db
+        .select(subjectColumns)
+        .from(properties)
+        .where(gt(properties.id, lastId))
+        .orderBy(properties.id)
+        .limit(BATCH_SIZE);
+    }
+    if (batch.length === 0) break;
+    lastId = batch[batch.length - 1].id;
+
+    const rows: InsertAvmValuation[] = batch.map((subject) => ({
+      propertyId: subject.id,
+      modelId: latest.id,
+      ...valueSubject(model, subject),
+    }));
+    await db
+      .insert(avmValuations)
+      .values(rows)
+      .onConflictDoUpdate({
+        target: avmValuations.propertyId,
+        set: {
+          modelId: sql`excluded.model_id`,
+          estimatedValue: sql`excluded.estimated_value`,
+          valueLow: sql`excluded.value_low`,
+          valueHigh: sql`excluded.value_high`,
+          confidenceLevel: sql`excluded.confidence_level`,
+          drivers: sql`excluded.drivers`,
+          computedAt: new Date(),
+        },
+      });
+    await db.execute(sql`
+      UPDATE properties
+      SET
+        estimated_value = av.estimated_value,
+        price_per_sqft = CASE WHEN properties.sqft > 0 THEN ROUND(av.estimated_value::numeric / properties.sqft) ELSE properties.price_per_sqft END,
+        updated_at = NOW()
+      FROM avm_valuations av
+      WHERE av.property_id = properties.id AND ${inArray(properties.id, batch.map((p) => p.id))}
+    `);
+
+    valued += rows.length;
+    if (valued % 50000 < BATCH_SIZE) {
+      console.log(`  Valued ${valued.toLocaleString()} properties...`);
+    }
+  }
+
+  console.log(`✅ Valued ${valued.toLocaleString()} properties`);
+  return valued;
+}
@@ -0,0 +1,340 @@
+import { randomUUID } from "crypto";
+import { db } from "../db";
+import type { PropertyChangeType } from "@shared/schema";
+import { sql } from "drizzle-orm";
+import { recordPropertyChanges } from "../savedSearchService";
+import type { EtlSetupContext } from "./etlRunner";
+
+// Change detection for data refreshes.
+//
+// Pipelines capture a snapshot of the alert-relevant fields before they
+// mutate properties / property_signal_summary, then call
+// detectAndRecordChanges() afterwards. The snapshot is copied into
+// property_state_snapshots in SQL, and the diff pages through properties by
+// id, reading only the rows whose state differs from the snapshot, so neither
+// side is ever held in memory whole. The diff is written to
+// property_changes, which drives instant alerts and daily digests.
+//
+// ETL pipelines take their baseline through pipelineChangeBaseline(), which
+// records it in the run's metadata. A failed run's baseline is kept until the
+// run is resumed, and the resume diffs against it, so the changes made by the
+// steps it skips are still detected.
+
+export interface PropertyState {
+  estimatedValue: number | null;
+  lastSalePrice: number | null;
+  lastSaleDate: string | null;
+  opportunityScore: number | null;
+  activePermits: number | null;
+  openHpdViolations: number | null;
+  floodZone: string | null;
+  floodRiskLevel: string | null;
+  distressScore: number | null;
+  distressFlags: string[] | null;
+}
+
+// A baseline captured into property_state_snapshots
+export interface PropertySnapshot {
+  id: string;
+  size: number;
+}
+
+export interface DetectedChange {
+  propertyId: string;
+  changeType: PropertyChangeType;
+  previousValue: Record<string, unknown> | null;
+  newValue: Record<string, unknown>;
+  changeSummary: string;
+}
+
+// Minimum movements worth alerting on; smaller moves are refresh noise
+export const CHANGE_THRESHOLDS = {
+  estimatedValuePct: 0.03,
+  opportunityScorePoints: 5,
+} as const;
+
+const DIFF_PAGE_SIZE = 5000;
+// Baselines of runs that failed before their diff are dropped after this,
+// unless their run is still the latest of its pipeline and can be resumed
+const SNAPSHOT_RETENTION_DAYS = 7;
+
+const DISTRESS_FLAG_LABELS: Record<string, string> = {
+  lis_pendens: "lis pendens filed",
+  tax_lien: "on tax lien sale list",
+  loan_maturity: "mortgage nearing maturity",
+  hpd_hazardous: "hazardous HPD violations",
+};
+
+function formatMoney(n: number): string {
+  return `$${Math.round(n).toLocaleString("en-US")}`;
+}
+
+/**
+ * Copies the alert-relevant state of every property into
+ * property_state_snapshots and returns a handle for detectAndRecordChanges().
+ */
+export async function capturePropertySnapshot(): Promise<PropertySnapshot> {
+  const id = randomUUID();
+  await db.execute(sql`
+    DELETE FROM property_state_snapshots
+    WHERE captured_at < NOW() - (${SNAPSHOT_RETENTION_DAYS} || ' days')::interval
+      AND snapshot_id NOT IN (
+        SELECT latest.metadata->'changeBaseline'->>'id'
+        FROM (
+          SELECT DISTINCT ON (pipeline) status, metadata
+          FROM etl_runs
+          ORDER BY pipeline, started_at DESC
+        ) latest
+        WHERE latest.status IN ('running', 'failed')
+          AND latest.metadata->'changeBaseline'->>'id' IS NOT NULL
+      )
+  `);
+  const result = await db.execute(sql`
+    INSERT INTO property_state_snapshots (
+      snapshot_id, property_id, estimated_value, last_sale_price, last_sale_date, opportunity_score,
+      active_permits, open_hpd_violations, flood_zone, flood_risk_level, distress_score, distress_flags, captured_at
+    )
+    SELECT
+      ${id}, p.id, p.estimated_value, p.last_sale_price, p.last_sale_date, p.opportunity_score,
+      s.active_permits, s.open_hpd_violations, s.flood_zone, s.flood_risk_level, s.distress_score, s.distress_flags, NOW()
+    FROM properties p
+    LEFT JOIN property_signal_summary s ON s.property_id = p.id
+  `);
+  return { id, size: result.rowCount ?? 0 };
+}
+
+/**
+ * Change baseline for an ETL pipeline's setup. A resumed run takes over the
+ * failed run's baseline while its rows are still there; otherwise a new one
+ * is captured. Either way it is recorded in the run's metadata for the next
+ * resume.
+ */
+export async function pipelineChangeBaseline(run: EtlSetupContext): Promise<PropertySnapshot> {
+  let baseline = run.resumedMetadata?.changeBaseline as PropertySnapshot | undefined;
+  if (baseline) {
+    const result = await db.execute(sql`
+      SELECT 1 FROM property_state_snapshots WHERE snapshot_id = ${baseline.id} LIMIT 1
+    `);
+    if (result.rows.length > 0 || baseline.size === 0) {
+      console.log(`Resuming with change baseline ${baseline.id} (${baseline.size.toLocaleString()} properties)`);
+    } else {
+      console.log(`Change baseline ${baseline.id} of the resumed run is gone, capturing a new one`);
+      baseline = undefined;
+    }
+  }
+  baseline ??= await capturePropertySnapshot();
+  await run.recordMetadata({ changeBaseline: baseline });
+  return baseline;
+}
+
+/**
+ * Compares a property's state before and after a refresh and returns the
+ * changes alerts care about. A property missing from the baseline is only
+ * reported as new when `reportNew` is set (the baseline was non-empty), so an
+ * initial load into an empty database doesn't flood every saved search.
+ */
+export function diffPropertyState(
+  propertyId: string,
+  prev: PropertyState | undefined,
+  next: PropertyState,
+  reportNew: boolean
+): DetectedChange[] {
+  const changes: DetectedChange[] = [];
+
+  if (!prev) {
+    if (reportNew) {
+      changes.push({
+        propertyId,
+        changeType: "new_listing",
+        previousValue: null,
+        newValue: { estimatedValue: next.estimatedValue, opportunityScore: next.opportunityScore },
+        changeSummary: next.estimatedValue
+          ? `New property added, estimated at ${formatMoney(next.estimatedValue)}`
+          : "New property added",
+      });
+    }
+    return changes;
+  }
+
+  if (prev.estimatedValue && next.estimatedValue && prev.estimatedValue !== next.estimatedValue) {
+    const pct = (next.estimatedValue - prev.estimatedValue) / prev.estimatedValue;
+    if (Math.abs(pct) >= CHANGE_THRESHOLDS.estimatedValuePct) {
+      changes.push({
+        propertyId,
+        changeType: "price_change",
+        previousValue: { estimatedValue: prev.estimatedValue },
+        newValue: { estimatedValue: next.estimatedValue, changePct: Math.round(pct * 1000) / 10 },
+        changeSummary: `Estimated value ${pct > 0 ? "up" : "down"} ${Math.abs(pct * 100).toFixed(1)}% (${formatMoney(prev.estimatedValue)} → ${formatMoney(next.estimatedValue)})`,
+      });
+    }
+  }
+
+  if (next.lastSalePrice && next.lastSaleDate && next.lastSaleDate !== prev.lastSaleDate) {
+    changes.push({
+      propertyId,
+      changeType: "price_change",
+      previousValue: { lastSalePrice: prev.lastSalePrice, lastSaleDate: prev.lastSaleDate },
+      newValue: { lastSalePrice: next.lastSalePrice, lastSaleDate: next.lastSaleDate },
+      changeSummary: `New sale recorded at ${formatMoney(next.lastSalePrice)}` +
+        (prev.lastSalePrice ? ` (previous sale ${formatMoney(prev.lastSalePrice)})` : ""),
+    });
+  }
+
+  if (prev.opportunityScore !== null && next.opportunityScore !== null) {
+    const delta = next.opportunityScore - prev.opportunityScore;
+    if (Math.abs(delta) >= CHANGE_THRESHOLDS.opportunityScorePoints) {
+      changes.push({
+        propertyId,
+        changeType: "score_change",
+        previousValue: { opportunityScore: prev.opportunityScore },
+        newValue: { opportunityScore: next.opportunityScore, delta },
+        changeSummary: `Opportunity score ${delta > 0 ? "rose" : "fell"} from ${prev.opportunityScore} to ${next.opportunityScore}`,
+      });
+    }
+  }
+
+  // Counts are only compared once a signal row existed before, so a
+  // property entering signal coverage doesn't read as new permits/violations
+  const prevPermits = prev.activePermits ?? 0;
+  const nextPermits = next.activePermits ?? 0;
+  if (prev.activePermits !== null && nextPermits > prevPermits) {
+    const added = nextPermits - prevPermits;
+    changes.push({
+      propertyId,
+      changeType: "permits_added",
+      previousValue: { activePermits: prevPermits },
+      newValue: { activePermits: nextPermits, added },
+      changeSummary: `${added} new DOB permit${added === 1 ? "" : "s"} (${prevPermits} → ${nextPermits} active)`,
+    });
+  }
+
+  const prevViolations = prev.openHpdViolations ?? 0;
+  const nextViolations = next.openHpdViolations ?? 0;
+  if (prev.openHpdViolations !== null && nextViolations > prevViolations) {
+    const added = nextViolations - prevViolations;
+    changes.push({
+      propertyId,
+      changeType: "violations_added",
+      previousValue: { openHpdViolations: prevViolations },
+      newValue: { openHpdViolations: nextViolations, added },
+      changeSummary: `${added} new open HPD violation${added === 1 ? "" : "s"} (${prevViolations} → ${nextViolations})`,
+    });
+  }
+
+  // A property gaining its first signal row isn't a flood status change
+  if (prev.floodZone && next.floodZone && prev.floodZone !== next.floodZone) {
+    changes.push({
+      propertyId,
+      changeType: "flood_status_change",
+      previousValue: { floodZone: prev.floodZone, floodRiskLevel: prev.floodRiskLevel },
+      newValue: { floodZone: next.floodZone, floodRiskLevel: next.floodRiskLevel },
+      changeSummary: `Flood zone changed from ${prev.floodZone} to ${next.floodZone}` +
+        (next.floodRiskLevel ? ` (${next.floodRiskLevel} risk)` : ""),
+    });
+  }
+
+  // Flags are only compared once distress was computed before, so the
+  // first computation doesn't alert on every distressed property
+  if (prev.distressFlags !== null && next.distressFlags) {
+    const raised = next.distressFlags.filter((flag) => !prev.distressFlags!.includes(flag));
+    if (raised.length > 0) {
+      changes.push({
+        propertyId,
+        changeType: "distress_signal",
+        previousValue: { distressScore: prev.distressScore, distressFlags: prev.distressFlags },
+        newValue: { distressScore: next.distressScore, distressFlags: next.distressFlags, raised },
+        changeSummary: `New distress signal: ${raised.map((flag) => DISTRESS_FLAG_LABELS[flag] || flag).join(", ")}` +
+          ` (score ${prev.distressScore ?? 0} → ${next.distressScore ?? 0})`,
+      });
+    }
+  }
+
+  return changes;
+}
+
+function stateFromRow(r: any, prefix = ""): PropertyState {
+  return {
+    estimatedValue: r[`${prefix}estimated_value`],
+    lastSalePrice: r[`${prefix}last_sale_price`],
+    lastSaleDate: r[`${prefix}last_sale_date`],
+    opportunityScore: r[`${prefix}opportunity_score`],
+    activePermits: r[`${prefix}active_permits`],
+    openHpdViolations: r[`${prefix}open_hpd_violations`],
+    floodZone: r[`${prefix}flood_zone`],
+    floodRiskLevel: r[`${prefix}flood_risk_level`],
+    distressScore: r[`${prefix}distress_score`],
+    distressFlags: r[`${prefix}distress_flags`],
+  };
+}
+
+/**
+ * Diffs the current state of every property against the baseline, a page
+ * of ids at a time, and records the changes. Only rows that differ from the
+ * baseline (or are missing from it) leave the database. The baseline is
+ * deleted afterwards. Returns the number of change rows written.
+ */
+export async function detectAndRecordChanges(before: PropertySnapshot, label = "refresh"): Promise<number> {
+  console.log(`\n🔍 Detecting property changes (${label})...`);
+  const reportNew = before.size > 0;
+  const counts: Record<string, number> = {};
+  let recorded = 0;
+  let differing = 0;
+  let lastId = "";
+
+  while (true) {
+    const result = await db.execute(sql`
+      SELECT
+        p.id, p.address, p.city,
+        p.estimated_value, p.last_sale_price, p.last_sale_date::text AS last_sale_date, p.opportunity_score,
+        s.active_permits, s.open_hpd_violations, s.flood_zone, s.flood_risk_level, s.distress_score, s.distress_flags,
+        b.property_id IS NOT NULL AS in_baseline,
+        b.estimated_value AS prev_estimated_value, b.last_sale_price AS prev_last_sale_price,
+        b.last_sale_date::text AS prev_last_sale_date, b.opportunity_score AS prev_opportunity_score,
+        b.active_permits AS prev_active_permits, b.open_hpd_violations AS prev_open_hpd_violations,
+        b.flood_zone AS prev_flood_zone, b.flood_risk_level AS prev_flood_risk_level,
+        b.distress_score AS prev_distress_score, b.distress_flags AS prev_distress_flags
+      FROM properties p
+      LEFT JOIN property_signal_summary s ON s.property_id = p.id
+      LEFT JOIN property_state_snapshots b ON b.snapshot_id = ${before.id} AND b.property_id = p.id
+      WHERE p.id > ${lastId}
+        AND (
+          (b.property_id IS NULL AND ${reportNew})
+          OR (
+            b.property_id IS NOT NULL
+            AND (p.estimated_value, p.last_sale_price, p.last_sale_date, p.opportunity_score,
+                 s.active_permits, s.open_hpd_violations, s.flood_zone, s.distress_flags)
+              IS DISTINCT FROM
+                (b.estimated_value, b.last_sale_price, b.last_sale_date, b.opportunity_score,
+                 b.active_permits, b.open_hpd_violations, b.flood_zone, b.distress_flags)
+          )
+        )
+      ORDER BY p.id
+      LIMIT ${DIFF_PAGE_SIZE}
+    `);
+    const rows = result.rows as any[];
+    if (rows.length === 0) break;
+    lastId = rows[rows.length - 1].id;
+    differing += rows.length;
+
+    const changes: DetectedChange[] = [];
+    for (const r of rows) {
+      for (const change of diffPropertyState(r.id, r.in_baseline ? stateFromRow(r, "prev_") : undefined, stateFromRow(r), reportNew)) {
+        if (change.changeType === "new_listing" && r.address) {
+          change.changeSummary = `${change.changeSummary}: ${r.address}, ${r.city}`;
+        }
+        counts[change.changeType] = (counts[change.changeType] || 0) + 1;
+        changes.push(change);
+      }
+    }
+    if (changes.length > 0) recorded += await recordPropertyChanges(changes);
+    if (rows.length < DIFF_PAGE_SIZE) break;
+  }
+
+  await db.execute(sql`DELETE FROM property_state_snapshots WHERE snapshot_id = ${before.id}`);
+
+  console.log(`  Recorded ${recorded} changes from ${differing.toLocaleString()} changed properties`);
+  for (const [type, count] of Object.entries(counts)) {
+    console.log(`    ${type}: ${count}`);
+  }
+  return recorded;
+}
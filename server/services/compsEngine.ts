@@ -0,0 +1,519 @@
+import { db } from "../db";
+import { properties, comps, marketAggregates, type CompSimilarityComponents, type InsertComp } from "@shared/schema";
+import { sql, eq, and, inArray, isNull } from "drizzle-orm";
+
+// Similarity-based comparable sales engine.
+//
+// Candidates are properties with a recorded sale inside the lookback window.
+// Each candidate is scored per feature (distance, type, beds, baths, sqft,
+// year built, sale recency); the weighted average becomes similarityScore.
+// The comp's sale price is then adjusted feature-by-feature toward the
+// subject, and every adjustment is stored in dollars so the result can be
+// explained line by line.
+
+export interface CompSubject {
+  id: string;
+  zipCode: string;
+  latitude: number | null;
+  longitude: number | null;
+  gridLat: number | null;
+  gridLng: number | null;
+  propertyType: string;
+  beds: number | null;
+  baths: number | null;
+  sqft: number | null;
+  yearBuilt: number | null;
+}
+
+export interface CompCandidate extends CompSubject {
+  saleId: string | null;
+  salePrice: number;
+  saleDate: Date;
+}
+
+export interface ScoredComp {
+  candidate: CompCandidate;
+  distanceMeters: number | null;
+  similarityScore: number;
+  components: CompSimilarityComponents;
+  adjustments: {
+    sqft: number;
+    age: number;
+    beds: number;
+    baths: number;
+    time: number;
+  };
+  adjustedPrice: number;
+  reasons: string[];
+}
+
+export const COMP_WEIGHTS: Record<keyof CompSimilarityComponents, number> = {
+  distance: 0.25,
+  propertyType: 0.15,
+  sqft: 0.2,
+  beds: 0.1,
+  baths: 0.05,
+  yearBuilt: 0.1,
+  recency: 0.15,
+};
+
+// Adjustment rates used to move a comp's sale price toward the subject.
+// Marginal sqft is valued below the comp's average $/sqft (larger homes
+// sell for less per foot), and the total adjustment is capped so a comp
+// that needs heavy correction is dropped rather than bent into shape.
+export const COMP_ADJUSTMENT_RATES = {
+  marginalSqftShare: 0.6, // share of comp $/sqft applied per sqft of difference
+  perBedroomPct: 0.03,
+  perBathroomPct: 0.02,
+  perYearOfAgePct: 0.002,
+  maxAgePct: 0.15,
+  maxMonthlyTrendPct: 0.02,
+  maxNetAdjustmentPct: 0.4,
+} as const;
+
+const DEFAULT_LOOKBACK_MONTHS = 36;
+const DEFAULT_MAX_COMPS = 5;
+const MIN_SIMILARITY = 40;
+const MIN_SALE_PRICE = 10000;
+const SEARCH_RADII_METERS = [400, 800, 1600, 3200];
+const MIN_CANDIDATES_IN_RADIUS = 15;
+const DISTANCE_DECAY_METERS = 800;
+
+// gridLat/gridLng are floor(coord * 1000); dividing by 10 gives ~1.1km cells
+const CELL_DIVISOR = 10;
+const CELL_LAT_METERS = 1110;
+
+const PROPERTY_TYPE_GROUPS: string[][] = [
+  ["SFH", "Townhome"],
+  ["Condo", "Co-op"],
+  ["Multi-family 2-4", "Multi-family 5+"],
+  ["Commercial", "Mixed-Use"],
+  ["Vacant Land"],
+];
+
+function propertyTypeSimilarity(a: string, b: string): number | null {
+  if (a === b) return 1;
+  const group = PROPERTY_TYPE_GROUPS.find((g) => g.includes(a));
+  if (group && group.includes(b)) return 0.6;
+  return null;
+}
+
+function haversineMeters(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const R = 6371000;
+  const toRad = (d: number) => (d * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * R * Math.asin(Math.sqrt(a));
+}
+
+function gridOf(p: CompSubject): { gridLat: number; gridLng: number } | null {
+  if (p.gridLat !== null && p.gridLng !== null) return { gridLat: p.gridLat, gridLng: p.gridLng };
+  if (p.latitude !== null && p.longitude !== null) {
+    return { gridLat: Math.floor(p.latitude * 1000), gridLng: Math.floor(p.longitude * 1000) };
+  }
+  return null;
+}
+
+function cellKey(cellLat: number, cellLng: number): string {
+  return `${cellLat}:${cellLng}`;
+}
+
+function monthsBetween(from: Date, to: Date): number {
+  return Math.max(0, (to.getTime() - from.getTime()) / (1000 * 60 * 60 * 24 * 30.44));
+}
+
+function formatMoney(n: number): string {
+  return `$${Math.round(n).toLocaleString("en-US")}`;
+}
+
+function clamp01(n: number): number {
+  return Math.max(0, Math.min(1, n));
+}
+
+/**
+ * Spatial index over sold candidates, bucketed into ~1km cells derived from
+ * gridLat/gridLng. Candidates without coordinates are indexed by ZIP only.
+ */
+export class CompCandidateIndex {
+  private byCell = new Map<string, CompCandidate[]>();
+  private byZip = new Map<string, CompCandidate[]>();
+
+  constructor(candidates: CompCandidate[]) {
+    for (const c of candidates) {
+      const grid = gridOf(c);
+      if (grid) {
+        const key = cellKey(Math.floor(grid.gridLat / CELL_DIVISOR), Math.floor(grid.gridLng / CELL_DIVISOR));
+        if (!this.byCell.has(key)) this.byCell.set(key, []);
+        this.byCell.get(key)!.push(c);
+      }
+      if (!this.byZip.has(c.zipCode)) this.byZip.set(c.zipCode, []);
+      this.byZip.get(c.zipCode)!.push(c);
+    }
+  }
+
+  /**
+   * Returns candidates near the subject, widening the radius until enough
+   * are found. Falls back to same-ZIP candidates when the subject has no
+   * coordinates.
+   */
+  near(subject: CompSubject): CompCandidate[] {
+    const grid = gridOf(subject);
+    if (!grid || subject.latitude === null || subject.longitude === null) {
+      return this.byZip.get(subject.zipCode) || [];
+    }
+
+    const cellLat = Math.floor(grid.gridLat / CELL_DIVISOR);
+    const cellLng = Math.floor(grid.gridLng / CELL_DIVISOR);
+    const cellLngMeters = CELL_LAT_METERS * Math.cos((subject.latitude * Math.PI) / 180);
+
+    let found: CompCandidate[] = [];
+    for (const radius of SEARCH_RADII_METERS) {
+      const dLat = Math.ceil(radius / CELL_LAT_METERS);
+      const dLng = Math.ceil(radius / cellLngMeters);
+      found = [];
+      for (let i = cellLat - dLat; i <= cellLat + dLat; i++) {
+        for (let j = cellLng - dLng; j <= cellLng + dLng; j++) {
+          const bucket = this.byCell.get(cellKey(i, j));
+          if (!bucket) continue;
+          for (const c of bucket) {
+            if (c.latitude === null || c.longitude === null) continue;
+            if (haversineMeters(subject.latitude, subject.longitude, c.latitude, c.longitude) <= radius) {
+              found.push(c);
+            }
+          }
+        }
+      }
+      if (found.length >= MIN_CANDIDATES_IN_RADIUS) break;
+    }
+    return found;
+  }
+}
+
+/**
+ * Scores a single candidate against the subject. Returns null when the
+ * candidate is not comparable (different property type group, or the
+ * required adjustments exceed the cap).
+ */
+export function scoreComp(
+  subject: CompSubject,
+  candidate: CompCandidate,
+  options: { asOf: Date; lookbackMonths: number; monthlyTrendPct: number }
+): ScoredComp | null {
+  if (candidate.id === subject.id) return null;
+
+  const typeScore = propertyTypeSimilarity(subject.propertyType, candidate.propertyType);
+  if (typeScore === null) return null;
+
+  const components: CompSimilarityComponents = { propertyType: typeScore };
+  const reasons: string[] = [];
+
+  let distanceMeters: number | null = null;
+  if (
+    subject.latitude !== null && subject.longitude !== null &&
+    candidate.latitude !== null && candidate.longitude !== null
+  ) {
+    distanceMeters = Math.round(haversineMeters(subject.latitude, subject.longitude, candidate.latitude, candidate.longitude));
+    components.distance = Math.exp(-distanceMeters / DISTANCE_DECAY_METERS);
+    reasons.push(`${(distanceMeters / 1609.34).toFixed(2)} mi from subject`);
+  } else if (candidate.zipCode === subject.zipCode) {
+    reasons.push(`Same ZIP (${subject.zipCode})`);
+  }
+
+  reasons.push(
+    typeScore === 1
+      ? `Same property type (${subject.propertyType})`
+      : `Comparable property type (${candidate.propertyType} vs ${subject.propertyType})`
+  );
+
+  if (subject.sqft && candidate.sqft) {
+    const ratio = subject.sqft / candidate.sqft;
+    components.sqft = clamp01(1 - Math.abs(Math.log(ratio)) / Math.LN2);
+    const pct = Math.round(Math.abs(candidate.sqft - subject.sqft) / subject.sqft * 100);
+    reasons.push(`Size within ${pct}% (${candidate.sqft.toLocaleString("en-US")} vs ${subject.sqft.toLocaleString("en-US")} sqft)`);
+  }
+
+  if (subject.beds !== null && candidate.beds !== null) {
+    const diff = candidate.beds - subject.beds;
+    components.beds = clamp01(1 - Math.abs(diff) / 3);
+    reasons.push(diff === 0 ? `Same bedroom count (${subject.beds})` : `${Math.abs(diff)} ${diff > 0 ? "more" : "fewer"} bedroom${Math.abs(diff) === 1 ? "" : "s"}`);
+  }
+
+  if (subject.baths !== null && candidate.baths !== null) {
+    components.baths = clamp01(1 - Math.abs(candidate.baths - subject.baths) / 2);
+  }
+
+  if (subject.yearBuilt && candidate.yearBuilt) {
+    const diff = Math.abs(candidate.yearBuilt - subject.yearBuilt);
+    components.yearBuilt = clamp01(1 - diff / 50);
+    reasons.push(`Built within ${diff} year${diff === 1 ? "" : "s"} (${candidate.yearBuilt} vs ${subject.yearBuilt})`);
+  }
+
+  const monthsAgo = monthsBetween(candidate.saleDate, options.asOf);
+  components.recency = clamp01(1 - monthsAgo / options.lookbackMonths);
+  reasons.push(`Sold ${Math.round(monthsAgo)} month${Math.round(monthsAgo) === 1 ? "" : "s"} ago for ${formatMoney(candidate.salePrice)}`);
+
+  // Weighted average over the features both sides have; features missing on
+  // either side are dropped and the rest renormalized, then scaled by the
+  // share of total weight that was available so sparse matches rank lower.
+  let weighted = 0;
+  let weightUsed = 0;
+  for (const [feature, value] of Object.entries(components) as [keyof CompSimilarityComponents, number][]) {
+    weighted += COMP_WEIGHTS[feature] * value;
+    weightUsed += COMP_WEIGHTS[feature];
+  }
+  const coverage = 0.5 + 0.5 * weightUsed;
+  const similarityScore = Math.round((weighted / weightUsed) * coverage * 1000) / 10;
+
+  const rates = COMP_ADJUSTMENT_RATES;
+  const price = candidate.salePrice;
+  const adjustments = { sqft: 0, age: 0, beds: 0, baths: 0, time: 0 };
+
+  if (subject.sqft && candidate.sqft) {
+    const compPpsf = price / candidate.sqft;
+    adjustments.sqft = (subject.sqft - candidate.sqft) * compPpsf * rates.marginalSqftShare;
+  }
+  if (subject.beds !== null && candidate.beds !== null) {
+    adjustments.beds = (subject.beds - candidate.beds) * price * rates.perBedroomPct;
+  }
+  if (subject.baths !== null && candidate.baths !== null) {
+    adjustments.baths = (subject.baths - candidate.baths) * price * rates.perBathroomPct;
+  }
+  if (subject.yearBuilt && candidate.yearBuilt) {
+    const agePct = Math.max(
+      -rates.maxAgePct,
+      Math.min(rates.maxAgePct, (subject.yearBuilt - candidate.yearBuilt) * rates.perYearOfAgePct)
+    );
+    adjustments.age = price * agePct;
+  }
+  const monthlyTrend = Math.max(-rates.maxMonthlyTrendPct, Math.min(rates.maxMonthlyTrendPct, options.monthlyTrendPct));
+  adjustments.time = price * monthlyTrend * monthsAgo;
+
+  const net = adjustments.sqft + adjustments.age + adjustments.beds + adjustments.baths + adjustments.time;
+  if (Math.abs(net) > price * rates.maxNetAdjustmentPct) return null;
+
+  for (const key of Object.keys(adjustments) as (keyof typeof adjustments)[]) {
+    adjustments[key] = Math.round(adjustments[key]);
+  }
+
+  return {
+    candidate,
+    distanceMeters,
+    similarityScore,
+    components,
+    adjustments,
+    adjustedPrice: Math.round(price + net),
+    reasons,
+  };
+}
+
+/**
+ * Ranks candidates for a subject and returns the top matches.
+ */
+export function selectComps(
+  subject: CompSubject,
+  candidates: CompCandidate[],
+  options: { asOf?: Date; lookbackMonths?: number; monthlyTrendPct?: number; maxComps?: number } = {}
+): ScoredComp[] {
+  const asOf = options.asOf ?? new Date();
+  const lookbackMonths = options.lookbackMonths ?? DEFAULT_LOOKBACK_MONTHS;
+  const monthlyTrendPct = options.monthlyTrendPct ?? 0;
+  const maxComps = options.maxComps ?? DEFAULT_MAX_COMPS;
+
+  const scored: ScoredComp[] = [];
+  for (const candidate of candidates) {
+    const result = scoreComp(subject, candidate, { asOf, lookbackMonths, monthlyTrendPct });
+    if (result && result.similarityScore >= MIN_SIMILARITY) scored.push(result);
+  }
+  scored.sort((a, b) => b.similarityScore - a.similarityScore);
+  return scored.slice(0, maxComps);
+}
+
+export function toInsertComp(subjectId: string, comp: ScoredComp): InsertComp {
+  return {
+    subjectPropertyId: subjectId,
+    compPropertyId: comp.candidate.id,
+    compSaleId: comp.candidate.saleId,
+    compSalePrice: comp.candidate.salePrice,
+    compSaleDate: comp.candidate.saleDate,
+    distanceMeters: comp.distanceMeters,
+    similarityScore: comp.similarityScore,
+    sqftAdjustment: comp.adjustments.sqft,
+    ageAdjustment: comp.adjustments.age,
+    bedsAdjustment: comp.adjustments.beds,
+    bathsAdjustment: comp.adjustments.baths,
+    timeAdjustment: comp.adjustments.time,
+    adjustedPrice: comp.adjustedPrice,
+    similarityComponents: comp.components,
+    selectionReasons: comp.reasons,
+  };
+}
+
+/**
+ * Loads candidate sales: the latest arms-length sale per property from the
+ * sales table inside the lookback window, falling back to the property's own
+ * last_sale_* columns when no matched sale row exists.
+ */
+export async function loadCompCandidates(lookbackMonths = DEFAULT_LOOKBACK_MONTHS): Promise<CompCandidate[]> {
+  const result: any = await db.execute(sql`
+    WITH latest_sale AS (
+      SELECT DISTINCT ON (s.property_id)
+        s.property_id, s.id AS sale_id, s.sale_price, s.sale_date
+      FROM sales s
+      WHERE s.property_id IS NOT NULL
+        AND COALESCE(s.arms_length, true) = true
+        AND s.sale_price >= ${MIN_SALE_PRICE}
+        AND s.sale_date >= NOW() - (${lookbackMonths} || ' months')::interval
+      ORDER BY s.property_id, s.sale_date DESC
+    )
+    SELECT
+      p.id, p.zip_code, p.latitude, p.longitude, p.grid_lat, p.grid_lng,
+      p.property_type, p.beds, p.baths, p.sqft, p.year_built,
+      ls.sale_id,
+      COALESCE(ls.sale_price, p.last_sale_price) AS sale_price,
+      COALESCE(ls.sale_date, p.last_sale_date) AS sale_date
+    FROM properties p
+    LEFT JOIN latest_sale ls ON ls.property_id = p.id
+    WHERE ls.sale_id IS NOT NULL
+       OR (p.last_sale_price >= ${MIN_SALE_PRICE}
+           AND p.last_sale_date >= NOW() - (${lookbackMonths} || ' months')::interval)
+  `);
+  return (result.rows || []).map((r: any) => ({
+    id: r.id,
+    zipCode: r.zip_code,
+    latitude: r.latitude,
+    longitude: r.longitude,
+    gridLat: r.grid_lat,
+    gridLng: r.grid_lng,
+    propertyType: r.property_type,
+    beds: r.beds,
+    baths: r.baths,
+    sqft: r.sqft,
+    yearBuilt: r.year_built,
+    saleId: r.sale_id,
+    salePrice: Number(r.sale_price),
+    saleDate: new Date(r.sale_date),
+  }));
+}
+
+/**
+ * Monthly price trend for the time adjustment from an aggregate's trend12m.
+ * Both are fractions (0.06 = 6%), so a 12-month trend spreads evenly over
+ * the months.
+ */
+export function monthlyTrendFromTrend12m(trend12m: number): number {
+  return trend12m / 12;
+}
+
+/**
+ * ZIP-level monthly price trend (as a fraction) from the overall, unsegmented
+ * market aggregate. Used for the time adjustment.
+ */
+async function loadMonthlyTrendsByZip(): Promise<Map<string, number>> {
+  const rows = await db
+    .select({ geoId: marketAggregates.geoId, trend12m: marketAggregates.trend12m })
+    .from(marketAggregates)
+    .where(
+      and(
+        eq(marketAggregates.geoType, "zip"),
+        isNull(marketAggregates.propertyType),
+        isNull(marketAggregates.bedsBand),
+        isNull(marketAggregates.yearBuiltBand),
+        isNull(marketAggregates.sizeBand)
+      )
+    );
+  const trends = new Map<string, number>();
+  for (const r of rows) {
+    if (r.trend12m !== null) trends.set(r.geoId, monthlyTrendFromTrend12m(r.trend12m));
+  }
+  return trends;
+}
+
+/**
+ * Recomputes comps for the given subjects (or every property when omitted),
+ * replacing any previously stored comps for those subjects.
+ */
+export async function buildComparables(options: {
+  subjectIds?: string[];
+  maxComps?: number;
+  lookbackMonths?: number;
+} = {}): Promise<number> {
+  const lookbackMonths = options.lookbackMonths ?? DEFAULT_LOOKBACK_MONTHS;
+  const maxComps = options.maxComps ?? DEFAULT_MAX_COMPS;
+
+  console.log("\n🔄 Building similarity-ranked comparables...");
+
+  const candidates = await loadCompCandidates(lookbackMonths);
+  console.log(`  Candidate sales (last ${lookbackMonths} months): ${candidates.length}`);
+  const index = new CompCandidateIndex(candidates);
+  const trendsByZip = await loadMonthlyTrendsByZip();
+
+  const subjectQuery = db
+    .select({
+      id: properties.id,
+      zipCode: properties.zipCode,
+      latitude: properties.latitude,
+      longitude: properties.longitude,
+      gridLat: properties.gridLat,
+      gridLng: properties.gridLng,
+      propertyType: properties.propertyType,
+      beds: properties.beds,
+      baths: properties.baths,
+      sqft: properties.sqft,
+      yearBuilt: properties.yearBuilt,
+    })
+    .from(properties);
+  const subjects: CompSubject[] = options.subjectIds
+    ? options.subjectIds.length > 0
+      ? await subjectQuery.where(inArray(properties.id, options.subjectIds))
+      : []
+    : await subjectQuery;
+  console.log(`  Subjects: ${subjects.length}`);
+
+  if (options.subjectIds) {
+    const batchSize = 1000;
+    for (let i = 0; i < options.subjectIds.length; i += batchSize) {
+      await db.delete(comps).where(inArray(comps.subjectPropertyId, options.subjectIds.slice(i, i + batchSize)));
+    }
+  } else {
+    await db.delete(comps);
+  }
+
+  const asOf = new Date();
+  let compsCount = 0;
+  let withoutComps = 0;
+  let batch: InsertComp[] = [];
+
+  for (let i = 0; i < subjects.length; i++) {
+    const subject = subjects[i];
+    const selected = selectComps(subject, index.near(subject), {
+      asOf,
+      lookbackMonths,
+      monthlyTrendPct: trendsByZip.get(subject.zipCode) ?? 0,
+      maxComps,
+    });
+    if (selected.length === 0) withoutComps++;
+
+    for (const comp of selected) {
+      batch.push(toInsertComp(subject.id, comp));
+      compsCount++;
+    }
+
+    if (batch.length >= 1000) {
+      await db.insert(comps).values(batch);
+      batch = [];
+    }
+    if ((i + 1) % 10000 === 0) {
+      console.log(`  Processed ${i + 1}/${subjects.length} subjects, ${compsCount} comps...`);
+    }
+  }
+
+  if (batch.length > 0) {
+    await db.insert(comps).values(batch);
+  }
+
+  console.log(`✅ Created ${compsCount} comps (${withoutComps} subjects had no qualifying comps)`);
+  return compsCount;
+}
@@ -0,0 +1,279 @@
+import { db } from "../db";
+import type { DistressEvidence, DistressFlag, DistressLevel } from "@shared/schema";
+import { sql, type SQL } from "drizzle-orm";
+
+// Distress (motivated seller) signals.
+//
+// Three sources feed the score on property_signal_summary:
+//   - lis pendens notices (server/etl/lis-pendens-import.ts) filed in the
+//     last three years and not cancelled
+//   - NYC tax lien sale lists (tax_lien_sale_lists Socrata feed) from the
+//     last twelve months
+//   - the latest ACRIS mortgage on property_transactions that no later
+//     satisfaction closed, whose loan age and an assumed term give an
+//     estimated maturity: ten years for the balloon loans typical of
+//     apartment, commercial and mixed-use buildings, thirty otherwise
+// plus the building's hazardous HPD violations from the existing signals.
+// Each contributes points and an evidence item; the score is capped at 100.
+
+const BATCH_SIZE = 5000;
+const UPDATE_BATCH = 1000;
+
+const POINTS = {
+  lisPendens: 40,
+  additionalLisPendens: 10,
+  taxLien: 30,
+  taxLienWaterDebtOnly: 15,
+  maturity12m: 20,
+  maturity24m: 10,
+  hpdHazardous: 10,
+} as const;
+
+const HAZARDOUS_VIOLATIONS_MIN = 3;
+const BALLOON_LOAN_TYPES = new Set(["Multi-family 5+", "Commercial", "Mixed-Use"]);
+const MONTH_MS = 30.44 * 86_400_000;
+
+interface SignalRow {
+  property_id: string;
+  property_type: string | null;
+  hazardous_violations: number | null;
+}
+
+interface Facts {
+  lisPendens: Array<{ id: string; caseNumber: string | null; filedDate: Date; caseType: string | null }>;
+  taxLien: { id: string; listMonth: Date; waterDebtOnly: boolean; cycle: string | null } | null;
+  mortgage: { documentId: string | null; date: Date; amount: number | null } | null;
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function monthYear(date: Date): string {
+  return date.toLocaleDateString("en-US", { month: "short", year: "numeric", timeZone: "UTC" });
+}
+
+function distressLevel(score: number): DistressLevel {
+  if (score === 0) return "none";
+  if (score < 25) return "low";
+  if (score < 50) return "elevated";
+  return "high";
+}
+
+function scoreDistress(row: SignalRow, facts: Facts, now: Date) {
+  const evidence: DistressEvidence[] = [];
+
+  if (facts.lisPendens.length > 0) {
+    const latest = facts.lisPendens[0];
+    const foreclosure = facts.lisPendens.some((lp) => lp.caseType === "foreclosure");
+    evidence.push({
+      flag: "lis_pendens",
+      label:
+        facts.lisPendens.length === 1
+          ? `${foreclosure ? "Foreclosure lis pendens" : "Lis pendens"} filed ${isoDate(latest.filedDate)}`
+          : `${facts.lisPendens.length} pending lis pendens, latest filed ${isoDate(latest.filedDate)}`,
+      points: POINTS.lisPendens + (facts.lisPendens.length > 1 ? POINTS.additionalLisPendens : 0),
+      date: isoDate(latest.filedDate),
+      sourceId: latest.caseNumber || latest.id,
+    });
+  }
+
+  if (facts.taxLien) {
+    evidence.push({
+      flag: "tax_lien",
+      label: `On the ${monthYear(facts.taxLien.listMonth)} tax lien sale list${facts.taxLien.waterDebtOnly ? " (water debt only)" : ""}` +
+        (facts.taxLien.cycle ? `, ${facts.taxLien.cycle}` : ""),
+      points: facts.taxLien.waterDebtOnly ? POINTS.taxLienWaterDebtOnly : POINTS.taxLien,
+      date: isoDate(facts.taxLien.listMonth),
+      sourceId: facts.taxLien.id,
+    });
+  }
+
+  let loanAgeMonths: number | null = null;
+  let maturity: Date | null = null;
+  if (facts.mortgage) {
+    const termYears = BALLOON_LOAN_TYPES.has(row.property_type || "") ? 10 : 30;
+    loanAgeMonths = Math.max(0, Math.floor((now.getTime() - facts.mortgage.date.getTime()) / MONTH_MS));
+    maturity = new Date(facts.mortgage.date);
+    maturity.setFullYear(maturity.getFullYear() + termYears);
+    // Past-due maturities still count: a loan that was never refinanced or
+    // satisfied is either extended or in default
+    const monthsToMaturity = (maturity.getTime() - now.getTime()) / MONTH_MS;
+    if (monthsToMaturity <= 24 && monthsToMaturity >= -24) {
+      evidence.push({
+        flag: "loan_maturity",
+        label:
+          monthsToMaturity < 0
+            ? `${termYears}-year mortgage from ${isoDate(facts.mortgage.date)} likely matured ${monthYear(maturity)}`
+            : `${termYears}-year mortgage from ${isoDate(facts.mortgage.date)} likely matures ${monthYear(maturity)}`,
+        points: monthsToMaturity <= 12 ? POINTS.maturity12m : POINTS.maturity24m,
+        date: isoDate(maturity),
+        sourceId: facts.mortgage.documentId,
+      });
+    }
+  }
+
+  const hazardous = row.hazardous_violations ?? 0;
+  if (hazardous >= HAZARDOUS_VIOLATIONS_MIN) {
+    evidence.push({
+      flag: "hpd_hazardous",
+      label: `${hazardous} hazardous HPD violations`,
+      points: POINTS.hpdHazardous,
+      date: null,
+      sourceId: null,
+    });
+  }
+
+  const score = Math.min(100, evidence.reduce((sum, e) => sum + e.points, 0));
+  return {
+    score,
+    level: distressLevel(score),
+    flags: evidence.map((e) => e.flag) as DistressFlag[],
+    evidence,
+    loanAgeMonths,
+    maturity,
+  };
+}
+
+async function loadFacts(propertyIds: string[]): Promise<Map<string, Facts>> {
+  const idList = sql.join(propertyIds.map((id) => sql`${id}`), sql`, `);
+  const [lisPendens, taxLiens, mortgages] = await Promise.all([
+    db.execute(sql`
+      SELECT p.id AS property_id, lp.id, lp.case_number, lp.filed_date, lp.case_type
+      FROM properties p
+      JOIN lis_pendens_raw lp ON lp.property_id = p.id OR lp.bbl = p.bbl
+      WHERE p.id IN (${idList})
+        AND lp.cancelled_date IS NULL
+        AND lp.filed_date >= NOW() - INTERVAL '3 years'
+      ORDER BY lp.filed_date DESC
+    `),
+    db.execute(sql`
+      SELECT DISTINCT ON (p.id) p.id AS property_id, t.id, t.list_month, t.water_debt_only, t.cycle
+      FROM properties p
+      JOIN tax_lien_sale_lists_raw t ON t.bbl = p.bbl
+      WHERE p.id IN (${idList})
+        AND t.list_month >= NOW() - INTERVAL '12 months'
+      ORDER BY p.id, t.water_debt_only, t.list_month DESC
+    `),
+    db.execute(sql`
+      SELECT DISTINCT ON (pt.property_id) pt.property_id, pt.document_id, pt.transaction_date, pt.amount,
+        EXISTS (
+          SELECT 1 FROM property_transactions s
+          WHERE s.property_id = pt.property_id
+            AND s.transaction_type = 'satisfaction'
+            AND s.transaction_date >= pt.transaction_date
+        ) AS satisfied
+      FROM property_transactions pt
+      WHERE pt.property_id IN (${idList})
+        AND pt.transaction_type = 'mortgage'
+      ORDER BY pt.property_id, pt.transaction_date DESC
+    `),
+  ]);
+
+  const facts = new Map<string, Facts>();
+  const factsFor = (id: string) => {
+    let f = facts.get(id);
+    if (!f) {
+      f = { lisPendens: [], taxLien: null, mortgage: null };
+      facts.set(id, f);
+    }
+    return f;
+  };
+  for (const r of lisPendens.rows as any[]) {
+    factsFor(r.property_id).lisPendens.push({
+      id: r.id,
+      caseNumber: r.case_number,
+      filedDate: new Date(r.filed_date),
+      caseType: r.case_type,
+    });
+  }
+  for (const r of taxLiens.rows as any[]) {
+    factsFor(r.property_id).taxLien = {
+      id: r.id,
+      listMonth: new Date(r.list_month),
+      waterDebtOnly: !!r.water_debt_only,
+      cycle: r.cycle,
+    };
+  }
+  for (const r of mortgages.rows as any[]) {
+    if (r.satisfied) continue;
+    factsFor(r.property_id).mortgage = {
+      documentId: r.document_id,
+      date: new Date(r.transaction_date),
+      amount: r.amount === null ? null : Number(r.amount),
+    };
+  }
+  return facts;
+}
+
+/**
+ * Computes the distress score, its evidence and the loan age / maturity
+ * estimate for every property signal summary. Returns the number of signal
+ * rows updated.
+ */
+export async function computeDistressSignals(): Promise<number> {
+  console.log("\n🚩 Computing distress signals...");
+  const now = new Date();
+  const levels: Record<string, number> = {};
+  let lastId = "";
+  let updated = 0;
+
+  while (true) {
+    const batch = await db.execute(sql`
+      SELECT pss.property_id, p.property_type, pss.hazardous_violations
+      FROM property_signal_summary pss
+      JOIN properties p ON p.id = pss.property_id
+      WHERE pss.property_id > ${lastId}
+      ORDER BY pss.property_id
+      LIMIT ${BATCH_SIZE}
+    `);
+    const rows = batch.rows as unknown as SignalRow[];
+    if (rows.length === 0) break;
+    lastId = rows[rows.length - 1].property_id;
+
+    const facts = await loadFacts(rows.map((r) => r.property_id));
+    const values: SQL[] = [];
+    for (const row of rows) {
+      const f = facts.get(row.property_id) || { lisPendens: [], taxLien: null, mortgage: null };
+      const result = scoreDistress(row, f, now);
+      levels[result.level] = (levels[result.level] || 0) + 1;
+      values.push(sql`(
+        ${row.property_id}::varchar, ${f.lisPendens.length}::int, ${f.lisPendens[0]?.filedDate ?? null}::timestamp,
+        ${f.taxLien !== null}::boolean, ${f.taxLien?.listMonth ?? null}::timestamp,
+        ${f.mortgage?.date ?? null}::timestamp, ${f.mortgage?.amount ?? null}::real,
+        ${result.loanAgeMonths}::int, ${result.maturity}::timestamp,
+        ${result.score}::int, ${result.level}::varchar,
+        string_to_array(${result.flags.join(",")}::text, ','), ${JSON.stringify(result.evidence)}::jsonb
+      )`);
+    }
+
+    for (let i = 0; i < values.length; i += UPDATE_BATCH) {
+      await db.execute(sql`
+        UPDATE property_signal_summary SET
+          active_lis_pendens = v.active_lis_pendens,
+          last_lis_pendens_date = v.last_lis_pendens_date,
+          on_tax_lien_sale_list = v.on_tax_lien_sale_list,
+          tax_lien_list_date = v.tax_lien_list_date,
+          last_mortgage_date = v.last_mortgage_date,
+          last_mortgage_amount = v.last_mortgage_amount,
+          loan_age_months = v.loan_age_months,
+          estimated_maturity_date = v.estimated_maturity_date,
+          distress_score = v.distress_score,
+          distress_level = v.distress_level,
+          distress_flags = v.distress_flags,
+          distress_evidence = v.distress_evidence,
+          updated_at = NOW()
+        FROM (VALUES ${sql.join(values.slice(i, i + UPDATE_BATCH), sql`, `)})
+          AS v(property_id, active_lis_pendens, last_lis_pendens_date, on_tax_lien_sale_list, tax_lien_list_date,
+               last_mortgage_date, last_mortgage_amount, loan_age_months, estimated_maturity_date,
+               distress_score, distress_level, distress_flags, distress_evidence)
+        WHERE property_signal_summary.property_id = v.property_id
+      `);
+    }
+    updated += values.length;
+  }
+
+  console.log(`  Distress levels: ${Object.entries(levels).map(([level, n]) => `${level} ${n.toLocaleString()}`).join(", ") || "none computed"}`);
+  console.log(`✅ Updated distress signals for ${updated.toLocaleString()} properties`);
+  return updated;
+}
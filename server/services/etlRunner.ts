@@ -0,0 +1,329 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { spawn } from "child_process";
+import { storage } from "../storage";
+import type { EtlRunWithSteps } from "@shared/schema";
+
+// Persisted ETL runs.
+//
+// Each ETL script describes itself as a pipeline of named steps and hands it
+// to runEtlPipeline(), which records the run in etl_runs and every step in
+// etl_run_steps (timings, rows read / written / rejected, errors). A failed
+// run can be resumed: the new run skips the steps that already succeeded,
+// carrying their results forward, and starts again at the failed step.
+//
+// Scripts accept:
+//   --resume <runId>        resume a failed run from its failed step
+//   --triggered-by <userId> user who requested the run (admin console)
+//   --trigger <cli|admin>   default: cli
+
+const INSTANCE_ID = `${os.hostname()}-${process.pid}`;
+const LOCK_TTL_MS = 6 * 60 * 60 * 1000;
+
+export type EtlTrigger = "cli" | "admin";
+
+export interface EtlStepResult {
+  rowsRead?: number;
+  rowsWritten?: number;
+  rowsRejected?: number;
+  metadata?: Record<string, unknown>;
+}
+
+// Results of the steps that have completed so far, keyed by step name.
+// On a resumed run this includes the results of the skipped steps.
+export type EtlStepResults = Map<string, EtlStepResult>;
+
+export interface EtlStep<C> {
+  name: string;
+  // A bare number is taken as rows written
+  run: (context: C, results: EtlStepResults) => Promise<EtlStepResult | number | void>;
+}
+
+// What a pipeline's setup knows about the run it prepares
+export interface EtlSetupContext {
+  // Metadata recorded by the setup of the failed run being resumed; null on
+  // a fresh run
+  resumedMetadata: Record<string, unknown> | null;
+  // Merges values into this run's metadata, where a resume of it finds them
+  recordMetadata: (values: Record<string, unknown>) => Promise<void>;
+}
+
+export interface EtlPipeline<C = void> {
+  name: string;
+  // Runs before the first executed step, on fresh and resumed runs alike
+  // (e.g. capturing the change-detection baseline, or taking over the one
+  // the resumed run captured)
+  setup?: (run: EtlSetupContext) => Promise<C>;
+  steps: EtlStep<C>[];
+}
+
+export interface EtlRunOptions {
+  trigger?: EtlTrigger;
+  triggeredBy?: string | null;
+  resumeRunId?: string | null;
+}
+
+// Pipelines the admin console can resume, and the script that runs each
+export const ETL_PIPELINE_SCRIPTS: Record<string, string> = {
+  refresh_all_data: "scripts/refresh-all-data.ts",
+  refresh_prices: "scripts/refresh-prices.ts",
+  finish_refresh: "scripts/finish-refresh.ts",
+  etl_imports: "scripts/run-etl-imports.ts",
+  nyc_deep_coverage: "server/etl/nyc-deep-coverage.ts",
+  train_avm: "scripts/train-avm.ts",
+  score_backtest: "scripts/backtest-opportunity-score.ts",
+  neighborhood_boundaries: "scripts/import-neighborhood-boundaries.ts",
+  flood_hazards: "scripts/import-flood-hazards.ts",
+  ownership_graph: "scripts/build-ownership-graph.ts",
+  distress_signals: "scripts/import-distress-signals.ts",
+  gazetteer: "scripts/build-gazetteer.ts",
+  address_search_index: "scripts/build-address-index.ts",
+};
+
+function errorMessage(error: unknown): string {
+  if (error instanceof Error) return error.stack || error.message;
+  return String(error);
+}
+
+function normalizeResult(result: EtlStepResult | number | void): EtlStepResult {
+  if (typeof result === "number") return { rowsWritten: result };
+  return result || {};
+}
+
+/**
+ * Steps of a previous run that don't need to run again: everything before
+ * its first step that neither succeeded nor was carried over itself.
+ */
+function completedSteps(previous: EtlRunWithSteps): EtlStepResults {
+  const completed: EtlStepResults = new Map();
+  for (const step of previous.steps) {
+    if (step.status !== "succeeded" && step.status !== "skipped") break;
+    completed.set(step.stepName, {
+      rowsRead: step.rowsRead ?? undefined,
+      rowsWritten: step.rowsWritten ?? undefined,
+      rowsRejected: step.rowsRejected ?? undefined,
+      metadata: (step.metadata as Record<string, unknown> | null) ?? undefined,
+    });
+  }
+  return completed;
+}
+
+/**
+ * Runs a pipeline and records it. Throws only when the run can't start
+ * (unknown resume run, pipeline already running); step failures end the run
+ * as failed and are returned in the run record.
+ */
+export async function runEtlPipeline<C>(
+  pipeline: EtlPipeline<C>,
+  options: EtlRunOptions = {}
+): Promise<EtlRunWithSteps> {
+  let carried: EtlStepResults = new Map();
+  let completedInRunId: string | null = null;
+  let resumedMetadata: Record<string, unknown> | null = null;
+
+  if (options.resumeRunId) {
+    const previous = await storage.getEtlRun(options.resumeRunId);
+    if (!previous || previous.pipeline !== pipeline.name) {
+      throw new Error(`No ${pipeline.name} run ${options.resumeRunId} to resume`);
+    }
+    if (previous.status !== "failed") {
+      throw new Error(`Run ${previous.id} is ${previous.status}, only failed runs can be resumed`);
+    }
+    carried = completedSteps(previous);
+    completedInRunId = previous.id;
+    resumedMetadata = (previous.metadata as Record<string, unknown> | null) ?? null;
+  }
+
+  const lockName = `etl:${pipeline.name}`;
+  const acquired = await storage.tryAcquireJobLock(lockName, INSTANCE_ID, LOCK_TTL_MS);
+  if (!acquired) {
+    throw new Error(`${pipeline.name} is already running`);
+  }
+
+  const startedAt = Date.now();
+  let run: EtlRunWithSteps;
+  try {
+    run = await storage.createEtlRun(
+      {
+        pipeline: pipeline.name,
+        status: "running",
+        trigger: options.trigger || "cli",
+        triggeredBy: options.triggeredBy || null,
+        resumedFromRunId: options.resumeRunId || null,
+        instanceId: INSTANCE_ID,
+      },
+      pipeline.steps.map((s) => s.name)
+    );
+  } catch (error) {
+    await storage.releaseJobLock(lockName, INSTANCE_ID);
+    throw error;
+  }
+
+  const results: EtlStepResults = new Map();
+  let failure: string | null = null;
+
+  try {
+    // Only the leading steps that completed last time are skipped, so a step
+    // is never skipped after one that runs again
+    let resumeIndex = 0;
+    while (resumeIndex < pipeline.steps.length && carried.has(pipeline.steps[resumeIndex].name)) {
+      resumeIndex++;
+    }
+
+    for (let i = 0; i < resumeIndex; i++) {
+      const step = pipeline.steps[i];
+      const previous = carried.get(step.name)!;
+      results.set(step.name, previous);
+      await storage.updateEtlRunStep(run.steps[i].id, {
+        status: "skipped",
+        metadata: { completedInRunId, ...previous.metadata },
+      });
+    }
+    if (resumeIndex > 0) {
+      console.log(`[ETL] Resuming ${pipeline.name} at step "${pipeline.steps[resumeIndex]?.name}"`);
+    }
+
+    let runMetadata: Record<string, unknown> = {};
+    const setupContext: EtlSetupContext = {
+      resumedMetadata,
+      recordMetadata: async (values) => {
+        runMetadata = { ...runMetadata, ...values };
+        await storage.updateEtlRun(run.id, { metadata: runMetadata });
+      },
+    };
+    const context = pipeline.setup ? await pipeline.setup(setupContext) : (undefined as C);
+
+    for (let i = resumeIndex; i < pipeline.steps.length; i++) {
+      const step = pipeline.steps[i];
+      const stepRow = run.steps[i];
+      const stepStarted = Date.now();
+      await storage.updateEtlRunStep(stepRow.id, { status: "running", startedAt: new Date() });
+
+      try {
+        const result = normalizeResult(await step.run(context, results));
+        results.set(step.name, result);
+        await storage.updateEtlRunStep(stepRow.id, {
+          status: "succeeded",
+          finishedAt: new Date(),
+          durationMs: Date.now() - stepStarted,
+          rowsRead: result.rowsRead ?? null,
+          rowsWritten: result.rowsWritten ?? null,
+          rowsRejected: result.rowsRejected ?? null,
+          metadata: result.metadata ?? null,
+        });
+      } catch (error) {
+        failure = `${step.name}: ${error instanceof Error ? error.message : String(error)}`;
+        console.error(`[ETL] ${pipeline.name} step "${step.name}" failed:`, error);
+        await storage.updateEtlRunStep(stepRow.id, {
+          status: "failed",
+          finishedAt: new Date(),
+          durationMs: Date.now() - stepStarted,
+          error: errorMessage(error),
+        });
+        break;
+      }
+    }
+  } catch (error) {
+    // Setup or bookkeeping failures fail the run without a failed step
+    failure = error instanceof Error ? error.message : String(error);
+    console.error(`[ETL] ${pipeline.name} failed:`, error);
+  } finally {
+    await storage.updateEtlRun(run.id, {
+      status: failure ? "failed" : "succeeded",
+      finishedAt: new Date(),
+      durationMs: Date.now() - startedAt,
+      error: failure,
+    });
+    await storage.releaseJobLock(lockName, INSTANCE_ID);
+  }
+
+  return (await storage.getEtlRun(run.id))!;
+}
+
+function argValue(args: string[], flag: string): string | null {
+  const index = args.indexOf(flag);
+  return index >= 0 && args[index + 1] ? args[index + 1] : null;
+}
+
+/**
+ * Entry point for ETL scripts: reads the run options from the command line,
+ * runs the pipeline and exits with 0 on success, 1 on failure.
+ */
+export async function runEtlPipelineFromCli<C>(pipeline: EtlPipeline<C>): Promise<never> {
+  const args = process.argv.slice(2);
+  try {
+    const run = await runEtlPipeline(pipeline, {
+      trigger: argValue(args, "--trigger") === "admin" ? "admin" : "cli",
+      triggeredBy: argValue(args, "--triggered-by"),
+      resumeRunId: argValue(args, "--resume"),
+    });
+    console.log(`\n[ETL] ${pipeline.name} run ${run.id} ${run.status} in ${((run.durationMs || 0) / 1000).toFixed(1)}s`);
+    for (const step of run.steps) {
+      const rows = step.rowsWritten !== null ? ` (${step.rowsWritten} rows written)` : "";
+      console.log(`  ${step.status.padEnd(9)} ${step.stepName}${rows}`);
+    }
+    process.exit(run.status === "succeeded" ? 0 : 1);
+  } catch (error) {
+    console.error(`[ETL] ${pipeline.name} could not run:`, error);
+    process.exit(1);
+  }
+}
+
+/**
+ * Resumes a failed run in a detached child process, since ETL pipelines
+ * outlive any request. The new run shows up in etl_runs once it starts.
+ * The child runs on this Node binary with the tsx loader and logs to a file
+ * in the temp directory; if it can't start, or exits before creating its
+ * run, the reason is appended to the failed run's error.
+ */
+export function spawnEtlResume(run: EtlRunWithSteps, triggeredBy: string): void {
+  const script = ETL_PIPELINE_SCRIPTS[run.pipeline];
+  if (!script) {
+    throw new Error(`Unknown ETL pipeline: ${run.pipeline}`);
+  }
+  const logFile = path.join(os.tmpdir(), `etl-resume-${run.id}.log`);
+  const log = fs.openSync(logFile, "a");
+  const child = spawn(
+    process.execPath,
+    ["--import", "tsx", script, "--resume", run.id, "--triggered-by", triggeredBy, "--trigger", "admin"],
+    { cwd: process.cwd(), detached: true, stdio: ["ignore", log, log], env: process.env }
+  );
+  fs.closeSync(log);
+
+  // 'exit' may follow 'error' when the spawn itself fails
+  let reported = false;
+  const recordFailure = async (reason: string) => {
+    if (reported) return;
+    reported = true;
+    console.error(`[ETL] Resume of ${run.pipeline} run ${run.id} failed: ${reason}`);
+    try {
+      // A resume that got as far as creating its run records its own failure
+      const [latest] = await storage.getEtlRuns(1, run.pipeline);
+      if (latest && latest.id !== run.id) return;
+      const current = await storage.getEtlRun(run.id);
+      await storage.updateEtlRun(run.id, {
+        error: `${current?.error ? `${current.error}\n\n` : ""}Resume failed: ${reason}`,
+      });
+    } catch (error) {
+      console.error(`[ETL] Could not record the failed resume of run ${run.id}:`, error);
+    }
+  };
+
+  child.on("error", (error) => recordFailure(`could not start ${script}: ${error.message}`));
+  child.on("exit", (code, signal) => {
+    if (code === 0) return;
+    recordFailure(`${script} exited with ${signal ?? `code ${code}`}, see ${logFile}${logTail(logFile)}`);
+  });
+  child.unref();
+}
+
+// Last lines of a child's log, to show with its failure
+function logTail(file: string): string {
+  try {
+    const tail = fs.readFileSync(file, "utf8").trim().split("\n").slice(-5).join("\n");
+    return tail ? `\n${tail}` : "";
+  } catch {
+    return "";
+  }
+}
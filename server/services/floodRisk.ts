@@ -0,0 +1,153 @@
+import { db } from "../db";
+import { floodHazardAreas, type FloodHazardArea } from "@shared/schema";
+import { sql } from "drizzle-orm";
+import { EdgeIndex, PolygonIndex } from "./geometry";
+
+// Geometry-based flood risk.
+//
+// Polygons are imported by server/etl/flood-hazards.ts. Each property with a
+// signal summary and coordinates is tested against them: the most severe
+// FEMA zone containing it sets flood_zone, the risk flags and the base flood
+// elevation; the distance to the nearest high-risk (A/V) zone is measured
+// along polygon edges; and every sea level rise or stormwater scenario
+// polygon containing it is listed in future_flood_scenarios. FEMA coverage
+// is the imported polygons themselves, minimal-hazard Zone X included, so a
+// property outside all of them (beyond the loaded panels, or in Zone D)
+// keeps its estimated zone rather than being called minimal risk.
+
+const BATCH_SIZE = 5000;
+const UPDATE_BATCH = 1000;
+const MAX_DISTANCE_METERS = 2000;
+
+// Most severe first
+function zoneRank(area: FloodHazardArea): number {
+  const zone = area.floodZone || "";
+  if (zone.startsWith("V")) return 3;
+  if (zone.startsWith("A")) return 2;
+  return area.isModerateRisk ? 1 : 0;
+}
+
+function riskLevel(zone: string | null): string {
+  if (!zone) return "minimal";
+  if (zone.startsWith("V")) return "severe";
+  if (zone.startsWith("A")) return "high";
+  return zone === "X-SHADED" ? "moderate" : "minimal";
+}
+
+interface SignalRow {
+  property_id: string;
+  latitude: number | null;
+  longitude: number | null;
+  flood_zone: string | null;
+  flood_zone_subtype: string | null;
+  is_flood_high_risk: boolean | null;
+  is_flood_moderate_risk: boolean | null;
+  flood_risk_level: string | null;
+  base_flood_elevation: number | null;
+  flood_high_risk_distance_meters: number | null;
+  flood_data_source: string | null;
+}
+
+/**
+ * Assigns flood zone, base flood elevation, distance to the nearest
+ * high-risk zone and future flood scenarios to every property signal summary
+ * from the imported flood polygons. Does nothing until polygons have been
+ * imported. Returns the number of signal rows updated.
+ */
+export async function assignFloodRisk(): Promise<number> {
+  console.log("\n🌊 Assigning flood risk from hazard polygons...");
+  const areas = await db.select().from(floodHazardAreas);
+  if (areas.length === 0) {
+    console.log("  No flood hazard polygons imported, skipping");
+    return 0;
+  }
+
+  const femaAreas = areas
+    .filter((a) => a.source === "fema_nfhl")
+    .sort((a, b) => zoneRank(b) - zoneRank(a) || (b.baseFloodElevation ?? -Infinity) - (a.baseFloodElevation ?? -Infinity));
+  const femaIndex = new PolygonIndex(femaAreas);
+  const scenarioIndex = new PolygonIndex(areas.filter((a) => a.scenario));
+  const highRiskEdges = new EdgeIndex();
+  for (const area of femaAreas) {
+    if (area.isHighRisk) highRiskEdges.add(area.geometry as number[][][][]);
+  }
+
+  let lastId = "";
+  let scanned = 0;
+  let inZone = 0;
+  let updated = 0;
+  while (true) {
+    const batch = await db.execute(sql`
+      SELECT pss.property_id, p.latitude, p.longitude,
+        pss.flood_zone, pss.flood_zone_subtype, pss.is_flood_high_risk, pss.is_flood_moderate_risk,
+        pss.flood_risk_level, pss.base_flood_elevation, pss.flood_high_risk_distance_meters, pss.flood_data_source
+      FROM property_signal_summary pss
+      JOIN properties p ON p.id = pss.property_id
+      WHERE pss.property_id > ${lastId}
+        AND p.latitude IS NOT NULL AND p.longitude IS NOT NULL
+      ORDER BY pss.property_id
+      LIMIT ${BATCH_SIZE}
+    `);
+    const rows = batch.rows as unknown as SignalRow[];
+    if (rows.length === 0) break;
+    lastId = rows[rows.length - 1].property_id;
+    scanned += rows.length;
+
+    const values = [];
+    for (const row of rows) {
+      const lat = Number(row.latitude);
+      const lng = Number(row.longitude);
+      const scenarios = Array.from(new Set(scenarioIndex.containing(lat, lng).map((a) => a.scenario!))).sort();
+      const zone = femaIndex.locate(lat, lng);
+
+      let next = row;
+      if (zone) {
+        if (zone.isHighRisk || zone.isModerateRisk) inZone++;
+        const distance = zone.isHighRisk ? 0 : highRiskEdges.nearestMeters(lat, lng, MAX_DISTANCE_METERS);
+        next = {
+          ...row,
+          flood_zone: zone.floodZone,
+          flood_zone_subtype: zone.floodZoneSubtype ?? null,
+          is_flood_high_risk: !!zone.isHighRisk,
+          is_flood_moderate_risk: !!zone.isModerateRisk,
+          flood_risk_level: riskLevel(zone.floodZone),
+          base_flood_elevation: zone.baseFloodElevation ?? null,
+          flood_high_risk_distance_meters: distance === null ? null : Math.round(distance),
+          flood_data_source: "fema_nfhl",
+        };
+      } else if (scenarios.length === 0) {
+        continue;
+      }
+      values.push(sql`(
+        ${next.property_id}::varchar, ${next.flood_zone}::varchar, ${next.flood_zone_subtype}::varchar,
+        ${next.is_flood_high_risk}::boolean, ${next.is_flood_moderate_risk}::boolean, ${next.flood_risk_level}::varchar,
+        ${next.base_flood_elevation}::real, ${next.flood_high_risk_distance_meters}::int,
+        string_to_array(${scenarios.join(",")}::text, ','), ${next.flood_data_source}::varchar
+      )`);
+    }
+
+    for (let i = 0; i < values.length; i += UPDATE_BATCH) {
+      await db.execute(sql`
+        UPDATE property_signal_summary SET
+          flood_zone = v.flood_zone,
+          flood_zone_subtype = v.flood_zone_subtype,
+          is_flood_high_risk = v.is_high_risk,
+          is_flood_moderate_risk = v.is_moderate_risk,
+          flood_risk_level = v.risk_level,
+          base_flood_elevation = v.bfe,
+          flood_high_risk_distance_meters = v.distance,
+          future_flood_scenarios = v.scenarios,
+          flood_data_source = v.data_source,
+          updated_at = NOW()
+        FROM (VALUES ${sql.join(values.slice(i, i + UPDATE_BATCH), sql`, `)})
+          AS v(property_id, flood_zone, flood_zone_subtype, is_high_risk, is_moderate_risk, risk_level, bfe, distance, scenarios, data_source)
+        WHERE property_signal_summary.property_id = v.property_id
+      `);
+    }
+    updated += values.length;
+  }
+
+  console.log(`  ${inZone.toLocaleString()} of ${scanned.toLocaleString()} properties inside a FEMA A, V or shaded X zone`);
+  console.log(`✅ Updated flood risk for ${updated.toLocaleString()} properties`);
+  return updated;
+}
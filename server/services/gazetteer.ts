@@ -0,0 +1,165 @@
+import { db } from "../db";
+import { gazetteerEntries, type GazetteerEntry, type GazetteerKind, type GeoSearchResult } from "@shared/schema";
+
+// Place-name search over gazetteer_entries (built by
+// server/etl/gazetteer-import.ts).
+//
+// Names and aliases are stored as normalized search terms ("St. George" and
+// "Saint George" both become "saint george"). A query is ranked against each
+// entry's terms: exact match, prefix of the whole term, prefix of a later
+// word, substring, then a typo-tolerant prefix match (one edit for 4-7
+// characters, two from 8). Kind and property count break ties. The table is
+// a few thousand rows, so it is held in memory and reloaded every few minutes.
+
+const CACHE_TTL_MS = 10 * 60 * 1000;
+
+const WORD_EXPANSIONS: Record<string, string> = {
+  st: "saint",
+  ste: "sainte",
+  mt: "mount",
+  ft: "fort",
+  pt: "point",
+  hts: "heights",
+  twp: "township",
+  n: "north",
+  s: "south",
+  e: "east",
+  w: "west",
+  no: "north",
+  so: "south",
+};
+
+const KIND_WEIGHT: Record<GazetteerKind, number> = {
+  state: 6,
+  borough: 5,
+  town: 4,
+  neighborhood: 4,
+  county: 3,
+  zip: 2,
+};
+
+let cache: { entries: GazetteerEntry[]; loadedAt: number } | null = null;
+
+/** Lowercase words with punctuation dropped and common abbreviations expanded. */
+export function normalizePlaceName(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/['’.]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .split(" ")
+    .filter(Boolean)
+    .map((word) => WORD_EXPANSIONS[word] || word)
+    .join(" ");
+}
+
+// Optimal string alignment distance, giving up once it exceeds max
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let d = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d = Math.min(d, prevPrev[j - 2] + 1);
+      }
+      row.push(d);
+      rowMin = Math.min(rowMin, d);
+    }
+    if (rowMin > max) return max + 1;
+    prevPrev = prev;
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+function termScore(query: string, term: string): number {
+  if (term === query) return 100;
+  if (term.startsWith(query)) return 80 + 10 * (query.length / term.length);
+  if (term.includes(` ${query}`)) return 60;
+  if (query.length >= 3 && term.includes(query)) return 40;
+  if (query.length >= 4) {
+    const maxEdits = query.length >= 8 ? 2 : 1;
+    let best = maxEdits + 1;
+    for (let len = query.length - maxEdits; len <= query.length + maxEdits; len++) {
+      if (len < 1 || len > term.length) continue;
+      best = Math.min(best, editDistance(query, term.slice(0, len), maxEdits));
+    }
+    if (best <= maxEdits) return 30 - 10 * best;
+  }
+  return 0;
+}
+
+async function loadEntries(): Promise<GazetteerEntry[]> {
+  if (!cache || Date.now() - cache.loadedAt > CACHE_TTL_MS) {
+    cache = { entries: await db.select().from(gazetteerEntries), loadedAt: Date.now() };
+  }
+  return cache.entries;
+}
+
+/** Drops the in-memory copy so the next search reads the rebuilt table. */
+export function clearGazetteerCache(): void {
+  cache = null;
+}
+
+function toResult(entry: GazetteerEntry, matchedTerm: string | null): GeoSearchResult {
+  const matchedAlias = matchedTerm
+    ? entry.aliases?.find((alias) => normalizePlaceName(alias) === matchedTerm) ?? null
+    : null;
+  return {
+    type: entry.geoType,
+    id: entry.geoId,
+    name: entry.kind === "neighborhood" && entry.parentName ? `${entry.name}, ${entry.parentName}` : entry.name,
+    state: entry.state,
+    kind: entry.kind as GazetteerKind,
+    parentName: entry.parentName,
+    matchedAlias,
+  };
+}
+
+/**
+ * Ranked place-name search: states, boroughs, counties, towns, neighborhoods
+ * and ZIPs, matched on names and aliases with prefix and typo tolerance.
+ */
+export async function searchGazetteer(query: string, limit = 10): Promise<GeoSearchResult[]> {
+  const entries = await loadEntries();
+  const trimmed = query.trim();
+
+  if (/^\d{1,5}$/.test(trimmed)) {
+    return entries
+      .filter((e) => e.kind === "zip" && e.geoId.startsWith(trimmed))
+      .sort((a, b) => (b.propertyCount ?? 0) - (a.propertyCount ?? 0) || a.geoId.localeCompare(b.geoId))
+      .slice(0, limit)
+      .map((e) => toResult(e, null));
+  }
+
+  const normalized = normalizePlaceName(trimmed);
+  if (normalized.length < 2) return [];
+
+  const scored: Array<{ entry: GazetteerEntry; score: number; term: string }> = [];
+  for (const entry of entries) {
+    let best = 0;
+    let bestTerm = "";
+    entry.searchTerms.forEach((term, i) => {
+      // The entry's own name (the first term) wins ties with its aliases
+      const score = termScore(normalized, term) + (i === 0 ? 1 : 0);
+      if (score > best) {
+        best = score;
+        bestTerm = term;
+      }
+    });
+    if (best <= 1) continue;
+    const score = best + KIND_WEIGHT[entry.kind as GazetteerKind] + Math.log10((entry.propertyCount ?? 0) + 1);
+    scored.push({ entry, score, term: bestTerm });
+  }
+
+  return scored
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ entry, term }) => toResult(entry, term === entry.searchTerms[0] ? null : term));
+}
@@ -0,0 +1,147 @@
+// Planar geometry helpers for lat/lng polygons (GeoJSON [lng, lat] order).
+// Areas are small enough (a metro region) that an equirectangular projection
+// around each point is accurate to well under a percent.
+
+export type MultiPolygon = number[][][][];
+
+export interface Bounds {
+  minLat: number;
+  minLng: number;
+  maxLat: number;
+  maxLng: number;
+}
+
+const METERS_PER_DEGREE = 111_320;
+
+function inRing(ring: number[][], lng: number, lat: number): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > lat !== yj > lat && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+/** True when [lng, lat] is inside an outer ring and outside that polygon's holes. */
+export function pointInMultiPolygon(coordinates: MultiPolygon, lng: number, lat: number): boolean {
+  return coordinates.some(([outer, ...holes]) => inRing(outer, lng, lat) && !holes.some((hole) => inRing(hole, lng, lat)));
+}
+
+/** Bounding box of the outer rings. */
+export function multiPolygonBounds(coordinates: MultiPolygon): Bounds {
+  let minLat = Infinity, minLng = Infinity, maxLat = -Infinity, maxLng = -Infinity;
+  for (const polygon of coordinates) {
+    for (const [lng, lat] of polygon[0] || []) {
+      minLat = Math.min(minLat, lat);
+      maxLat = Math.max(maxLat, lat);
+      minLng = Math.min(minLng, lng);
+      maxLng = Math.max(maxLng, lng);
+    }
+  }
+  return { minLat, minLng, maxLat, maxLng };
+}
+
+/**
+ * Grid of bounding boxes for point-in-polygon lookups. Items are checked in
+ * the order given, so callers sort them by precedence.
+ */
+export class PolygonIndex<T extends Bounds & { geometry: unknown }> {
+  private cells = new Map<string, T[]>();
+
+  constructor(items: T[], private cellDegrees = 0.05) {
+    for (const item of items) {
+      for (let x = Math.floor(item.minLng / cellDegrees); x <= Math.floor(item.maxLng / cellDegrees); x++) {
+        for (let y = Math.floor(item.minLat / cellDegrees); y <= Math.floor(item.maxLat / cellDegrees); y++) {
+          const key = `${x}:${y}`;
+          const cell = this.cells.get(key) || [];
+          cell.push(item);
+          this.cells.set(key, cell);
+        }
+      }
+    }
+  }
+
+  /** Every item whose polygon contains the point, in index order. */
+  containing(lat: number, lng: number): T[] {
+    const candidates = this.cells.get(`${Math.floor(lng / this.cellDegrees)}:${Math.floor(lat / this.cellDegrees)}`) || [];
+    return candidates.filter(
+      (item) =>
+        lat >= item.minLat &&
+        lat <= item.maxLat &&
+        lng >= item.minLng &&
+        lng <= item.maxLng &&
+        pointInMultiPolygon(item.geometry as MultiPolygon, lng, lat)
+    );
+  }
+
+  /** The first item whose polygon contains the point. */
+  locate(lat: number | null, lng: number | null): T | null {
+    if (lat === null || lng === null) return null;
+    return this.containing(lat, lng)[0] ?? null;
+  }
+}
+
+type Segment = [number, number, number, number]; // lng1, lat1, lng2, lat2
+
+function segmentDistanceMeters(segment: Segment, lng: number, lat: number): number {
+  const scaleX = METERS_PER_DEGREE * Math.cos((lat * Math.PI) / 180);
+  const ax = (segment[0] - lng) * scaleX;
+  const ay = (segment[1] - lat) * METERS_PER_DEGREE;
+  const bx = (segment[2] - lng) * scaleX;
+  const by = (segment[3] - lat) * METERS_PER_DEGREE;
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq > 0 ? Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSq)) : 0;
+  return Math.hypot(ax + t * dx, ay + t * dy);
+}
+
+/**
+ * Grid of polygon edges for nearest-edge distances. Each edge is filed under
+ * every cell its bounding box touches.
+ */
+export class EdgeIndex {
+  private cells = new Map<string, Segment[]>();
+
+  constructor(private cellDegrees = 0.005) {}
+
+  add(coordinates: MultiPolygon): void {
+    for (const polygon of coordinates) {
+      for (const ring of polygon) {
+        for (let i = 1; i < ring.length; i++) {
+          const segment: Segment = [ring[i - 1][0], ring[i - 1][1], ring[i][0], ring[i][1]];
+          const x1 = Math.floor(Math.min(segment[0], segment[2]) / this.cellDegrees);
+          const x2 = Math.floor(Math.max(segment[0], segment[2]) / this.cellDegrees);
+          const y1 = Math.floor(Math.min(segment[1], segment[3]) / this.cellDegrees);
+          const y2 = Math.floor(Math.max(segment[1], segment[3]) / this.cellDegrees);
+          for (let x = x1; x <= x2; x++) {
+            for (let y = y1; y <= y2; y++) {
+              const key = `${x}:${y}`;
+              const cell = this.cells.get(key);
+              if (cell) cell.push(segment);
+              else this.cells.set(key, [segment]);
+            }
+          }
+        }
+      }
+    }
+  }
+
+  /** Distance in meters to the nearest edge, or null when none is within maxMeters. */
+  nearestMeters(lat: number, lng: number, maxMeters: number): number | null {
+    const spanY = Math.ceil(maxMeters / METERS_PER_DEGREE / this.cellDegrees);
+    const spanX = Math.ceil(maxMeters / (METERS_PER_DEGREE * Math.cos((lat * Math.PI) / 180)) / this.cellDegrees);
+    const cx = Math.floor(lng / this.cellDegrees);
+    const cy = Math.floor(lat / this.cellDegrees);
+    let nearest = Infinity;
+    for (let x = cx - spanX; x <= cx + spanX; x++) {
+      for (let y = cy - spanY; y <= cy + spanY; y++) {
+        for (const segment of this.cells.get(`${x}:${y}`) || []) {
+          nearest = Math.min(nearest, segmentDistanceMeters(segment, lng, lat));
+        }
+      }
+    }
+    return nearest <= maxMeters ? nearest : null;
+  }
+}
@@ -0,0 +1,57 @@
+// Dense symmetric positive-definite solves for the regression services (AVM,
+// repeat-sales index). Matrices are row-major Float64Arrays of size n * n.
+
+/** Lower-triangular Cholesky factor L of a, so that a = L * L^T. */
+export function choleskyFactor(a: Float64Array, n: number): Float64Array {
+  const l = new Float64Array(n * n);
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = a[i * n + j];
+      for (let k = 0; k < j; k++) sum -= l[i * n + k] * l[j * n + k];
+      if (i === j) {
+        if (sum <= 0) throw new Error(`Normal equations are not positive definite at ${i}`);
+        l[i * n + i] = Math.sqrt(sum);
+      } else {
+        l[i * n + j] = sum / l[j * n + j];
+      }
+    }
+  }
+  return l;
+}
+
+/** Solves L * L^T * x = b given the factor from choleskyFactor. */
+export function choleskySolve(l: Float64Array, b: Float64Array, n: number): Float64Array {
+  const y = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    let sum = b[i];
+    for (let k = 0; k < i; k++) sum -= l[i * n + k] * y[k];
+    y[i] = sum / l[i * n + i];
+  }
+  const x = new Float64Array(n);
+  for (let i = n - 1; i >= 0; i--) {
+    let sum = y[i];
+    for (let k = i + 1; k < n; k++) sum -= l[k * n + i] * x[k];
+    x[i] = sum / l[i * n + i];
+  }
+  return x;
+}
+
+/** Diagonal of a^-1 given its Cholesky factor, e.g. coefficient variances. */
+export function choleskyInverseDiagonal(l: Float64Array, n: number): Float64Array {
+  // diag(a^-1)_j = ||L^-1 e_j||^2; solve the lower system for each column
+  const diag = new Float64Array(n);
+  const z = new Float64Array(n);
+  for (let j = 0; j < n; j++) {
+    z.fill(0);
+    z[j] = 1 / l[j * n + j];
+    let sq = z[j] * z[j];
+    for (let i = j + 1; i < n; i++) {
+      let sum = 0;
+      for (let k = j; k < i; k++) sum -= l[i * n + k] * z[k];
+      z[i] = sum / l[i * n + i];
+      sq += z[i] * z[i];
+    }
+    diag[j] = sq;
+  }
+  return diag;
+}
@@ -0,0 +1,209 @@
+import { db } from "../db";
+import { marketAggregates } from "@shared/schema";
+import { sql } from "drizzle-orm";
+import { snapshotMarketAggregates } from "./marketHistory";
+import { neighborhoodKey } from "./neighborhoods";
+
+// Compute market aggregates from REAL recorded sales (ACRIS / NJ MOD-IV / CT GL).
+// Each sale is geo-resolved through condo_units (preferred for NYC) or properties
+// (fallback for non-condo and out-of-NYC). Medians, percentiles, $/sqft, and
+// trends are real percentile_cont values over recorded sale_price; trend12m is
+// (median last 12mo - median prior 12mo) / median prior 12mo. transaction_count
+// is the actual count of recorded sales in the lookback window, not the count of
+// property records. Turnover rate is real sales-in-window / property-stock-in-zip.
+//
+// This is the only routine that rebuilds market_aggregates: the production
+// sync, the admin refresh and every refresh script call it, so the monthly
+// snapshots it ends with always hold medians computed the same way.
+export async function refreshAggregates() {
+  console.log("[Aggregates] Refreshing market aggregates from recorded sales...");
+  await db.delete(marketAggregates);
+
+  // Materialize one row per sale with resolved geo + sqft so all rollups share
+  // the same source. property stock per zip is needed for turnover rate.
+  await db.execute(sql`
+    DROP TABLE IF EXISTS tmp_sales_geo;
+    CREATE TEMP TABLE tmp_sales_geo AS
+    SELECT
+      s.id,
+      s.sale_price,
+      s.sale_date,
+      COALESCE(cu.zip_code, p.zip_code) AS zip_code,
+      COALESCE(p.city, cu.borough)      AS city,
+      COALESCE(p.state, 'NY')           AS state,
+      p.county                          AS county,
+      COALESCE(nb.name, p.neighborhood) AS neighborhood,
+      COALESCE(cu.neighborhood_id, ${neighborhoodKey("p")}) AS neighborhood_key,
+      COALESCE(cu.sqft, p.sqft)         AS sqft
+    FROM sales s
+    LEFT JOIN condo_units cu ON cu.unit_bbl = s.unit_bbl
+    LEFT JOIN properties  p  ON p.id        = s.property_id
+    LEFT JOIN neighborhood_boundaries nb ON nb.id = COALESCE(cu.neighborhood_id, p.neighborhood_id)
+    WHERE s.sale_price > 50000
+      AND s.sale_date IS NOT NULL
+      AND s.sale_date >= NOW() - INTERVAL '24 months'
+      AND COALESCE(cu.zip_code, p.zip_code) IS NOT NULL;
+    CREATE INDEX ON tmp_sales_geo (zip_code);
+    CREATE INDEX ON tmp_sales_geo (city, state);
+    CREATE INDEX ON tmp_sales_geo (county, state);
+    CREATE INDEX ON tmp_sales_geo (neighborhood_key);
+    CREATE INDEX ON tmp_sales_geo (state);
+  `);
+
+  const stateNames: Record<string, string> = { NY: "New York", NJ: "New Jersey", CT: "Connecticut" };
+  const RECENT = sql`sale_date >= NOW() - INTERVAL '12 months'`;
+  const PRIOR  = sql`sale_date <  NOW() - INTERVAL '12 months' AND sale_date >= NOW() - INTERVAL '24 months'`;
+  const M3     = sql`sale_date >= NOW() - INTERVAL '3 months'`;
+  const M3P    = sql`sale_date <  NOW() - INTERVAL '3 months'  AND sale_date >= NOW() - INTERVAL '6 months'`;
+  const M6     = sql`sale_date >= NOW() - INTERVAL '6 months'`;
+  const M6P    = sql`sale_date <  NOW() - INTERVAL '6 months'  AND sale_date >= NOW() - INTERVAL '12 months'`;
+
+  // Generic helper: builds a query that aggregates tmp_sales_geo by `groupCols`
+  // and returns medians + trend windows. Uses a city/county/neighborhood label
+  // resolved with MODE() so rollups have a sensible display name even when
+  // multiple variants exist in the source data.
+  async function aggregateBy(groupExpr: any, labelExpr: any, stateExpr: any, havingMin: number) {
+    const result = await db.execute(sql`
+      SELECT
+        ${groupExpr} AS group_key,
+        ${labelExpr} AS label,
+        ${stateExpr} AS state,
+        COUNT(*)::int AS sale_count,
+        PERCENTILE_CONT(0.25) WITHIN GROUP (ORDER BY sale_price)::bigint AS p25,
+        PERCENTILE_CONT(0.50) WITHIN GROUP (ORDER BY sale_price)::bigint AS median,
+        PERCENTILE_CONT(0.75) WITHIN GROUP (ORDER BY sale_price)::bigint AS p75,
+        PERCENTILE_CONT(0.25) WITHIN GROUP (ORDER BY sale_price::float / NULLIF(sqft,0))
+          FILTER (WHERE sqft > 100)::int AS p25_ppsf,
+        PERCENTILE_CONT(0.50) WITHIN GROUP (ORDER BY sale_price::float / NULLIF(sqft,0))
+          FILTER (WHERE sqft > 100)::int AS median_ppsf,
+        PERCENTILE_CONT(0.75) WITHIN GROUP (ORDER BY sale_price::float / NULLIF(sqft,0))
+          FILTER (WHERE sqft > 100)::int AS p75_ppsf,
+        PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY sale_price) FILTER (WHERE ${RECENT})::bigint AS median_recent,
+        PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY sale_price) FILTER (WHERE ${PRIOR})::bigint  AS median_prior,
+        PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY sale_price) FILTER (WHERE ${M3})::bigint     AS m3,
+        PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY sale_price) FILTER (WHERE ${M3P})::bigint    AS m3p,
+        PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY sale_price) FILTER (WHERE ${M6})::bigint     AS m6,
+        PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY sale_price) FILTER (WHERE ${M6P})::bigint    AS m6p,
+        (STDDEV_POP(sale_price)::float / NULLIF(AVG(sale_price),0)) AS volatility
+      FROM tmp_sales_geo
+      WHERE ${groupExpr} IS NOT NULL
+      GROUP BY ${groupExpr}
+      HAVING COUNT(*) >= ${havingMin}
+    `);
+    return result.rows as any[];
+  }
+
+  const ratio = (a: any, b: any) => {
+    const an = Number(a); const bn = Number(b);
+    if (!isFinite(an) || !isFinite(bn) || bn <= 0) return 0;
+    const r = (an - bn) / bn;
+    return Math.max(-0.5, Math.min(0.5, r));
+  };
+
+  // ---- ZIP ----
+  const zipRows = await aggregateBy(sql`zip_code`, sql`MODE() WITHIN GROUP (ORDER BY city)`, sql`MODE() WITHIN GROUP (ORDER BY state)`, 5);
+
+  // Property stock per zip for turnover rate
+  const stockResult = await db.execute(sql`
+    SELECT zip_code, COUNT(*)::int AS stock FROM properties WHERE zip_code IS NOT NULL GROUP BY zip_code
+  `);
+  const stockByZip = new Map<string, number>();
+  for (const r of stockResult.rows as any[]) stockByZip.set(r.zip_code, r.stock);
+
+  const zipBatch = zipRows.map((r) => ({
+    geoType: "zip", geoId: r.group_key, geoName: r.label ? `${r.label} ${r.group_key}` : `ZIP ${r.group_key}`, state: r.state,
+    medianPrice: Number(r.median) || 0,
+    medianPricePerSqft: r.median_ppsf != null ? Number(r.median_ppsf) : null,
+    p25Price: Number(r.p25) || 0,
+    p75Price: Number(r.p75) || 0,
+    p25PricePerSqft: r.p25_ppsf != null ? Number(r.p25_ppsf) : null,
+    p75PricePerSqft: r.p75_ppsf != null ? Number(r.p75_ppsf) : null,
+    transactionCount: Number(r.sale_count) || 0,
+    turnoverRate: stockByZip.get(r.group_key) ? Math.min(1, (Number(r.sale_count) / 2) / stockByZip.get(r.group_key)!) : null,
+    volatility: r.volatility != null ? Number(r.volatility) : null,
+    trend3m: ratio(r.m3, r.m3p),
+    trend6m: ratio(r.m6, r.m6p),
+    trend12m: ratio(r.median_recent, r.median_prior),
+    computedAt: new Date(),
+  }));
+
+  let aggCount = 0;
+  for (let i = 0; i < zipBatch.length; i += 500) await db.insert(marketAggregates).values(zipBatch.slice(i, i + 500));
+  aggCount += zipBatch.length;
+
+  // ---- CITY ----
+  const cityRows = await aggregateBy(sql`city`, sql`MODE() WITHIN GROUP (ORDER BY city)`, sql`MODE() WITHIN GROUP (ORDER BY state)`, 10);
+  const cityBatch = cityRows.map((r) => ({
+    geoType: "city", geoId: String(r.group_key).toLowerCase().replace(/\s+/g, "-"),
+    geoName: r.label || r.group_key, state: r.state,
+    medianPrice: Number(r.median) || 0,
+    medianPricePerSqft: r.median_ppsf != null ? Number(r.median_ppsf) : null,
+    p25Price: Number(r.p25) || 0, p75Price: Number(r.p75) || 0,
+    p25PricePerSqft: r.p25_ppsf != null ? Number(r.p25_ppsf) : null,
+    p75PricePerSqft: r.p75_ppsf != null ? Number(r.p75_ppsf) : null,
+    transactionCount: Number(r.sale_count) || 0,
+    turnoverRate: null, volatility: r.volatility != null ? Number(r.volatility) : null,
+    trend3m: ratio(r.m3, r.m3p), trend6m: ratio(r.m6, r.m6p), trend12m: ratio(r.median_recent, r.median_prior),
+    computedAt: new Date(),
+  }));
+  for (let i = 0; i < cityBatch.length; i += 500) await db.insert(marketAggregates).values(cityBatch.slice(i, i + 500));
+  aggCount += cityBatch.length;
+
+  // ---- COUNTY ----
+  const countyRows = await aggregateBy(sql`county`, sql`MODE() WITHIN GROUP (ORDER BY county)`, sql`MODE() WITHIN GROUP (ORDER BY state)`, 10);
+  const countyBatch = countyRows.map((r) => ({
+    geoType: "county", geoId: String(r.group_key).toLowerCase().replace(/\s+/g, "-"),
+    geoName: `${r.label || r.group_key} County`, state: r.state,
+    medianPrice: Number(r.median) || 0,
+    medianPricePerSqft: r.median_ppsf != null ? Number(r.median_ppsf) : null,
+    p25Price: Number(r.p25) || 0, p75Price: Number(r.p75) || 0,
+    p25PricePerSqft: r.p25_ppsf != null ? Number(r.p25_ppsf) : null,
+    p75PricePerSqft: r.p75_ppsf != null ? Number(r.p75_ppsf) : null,
+    transactionCount: Number(r.sale_count) || 0,
+    turnoverRate: null, volatility: r.volatility != null ? Number(r.volatility) : null,
+    trend3m: ratio(r.m3, r.m3p), trend6m: ratio(r.m6, r.m6p), trend12m: ratio(r.median_recent, r.median_prior),
+    computedAt: new Date(),
+  }));
+  for (let i = 0; i < countyBatch.length; i += 500) await db.insert(marketAggregates).values(countyBatch.slice(i, i + 500));
+  aggCount += countyBatch.length;
+
+  // ---- NEIGHBORHOOD ----
+  const nhRows = await aggregateBy(sql`neighborhood_key`, sql`MODE() WITHIN GROUP (ORDER BY neighborhood)`, sql`MODE() WITHIN GROUP (ORDER BY state)`, 10);
+  const nhBatch = nhRows.map((r) => ({
+    geoType: "neighborhood", geoId: String(r.group_key),
+    geoName: r.label || r.group_key, state: r.state,
+    medianPrice: Number(r.median) || 0,
+    medianPricePerSqft: r.median_ppsf != null ? Number(r.median_ppsf) : null,
+    p25Price: Number(r.p25) || 0, p75Price: Number(r.p75) || 0,
+    p25PricePerSqft: r.p25_ppsf != null ? Number(r.p25_ppsf) : null,
+    p75PricePerSqft: r.p75_ppsf != null ? Number(r.p75_ppsf) : null,
+    transactionCount: Number(r.sale_count) || 0,
+    turnoverRate: null, volatility: r.volatility != null ? Number(r.volatility) : null,
+    trend3m: ratio(r.m3, r.m3p), trend6m: ratio(r.m6, r.m6p), trend12m: ratio(r.median_recent, r.median_prior),
+    computedAt: new Date(),
+  }));
+  for (let i = 0; i < nhBatch.length; i += 500) await db.insert(marketAggregates).values(nhBatch.slice(i, i + 500));
+  aggCount += nhBatch.length;
+
+  // ---- STATE ----
+  const stateRows = await aggregateBy(sql`state`, sql`MODE() WITHIN GROUP (ORDER BY state)`, sql`MODE() WITHIN GROUP (ORDER BY state)`, 10);
+  const stateBatch = stateRows.map((r) => ({
+    geoType: "state", geoId: r.group_key, geoName: stateNames[r.group_key as string] || r.group_key, state: r.group_key,
+    medianPrice: Number(r.median) || 0,
+    medianPricePerSqft: r.median_ppsf != null ? Number(r.median_ppsf) : null,
+    p25Price: Number(r.p25) || 0, p75Price: Number(r.p75) || 0,
+    p25PricePerSqft: r.p25_ppsf != null ? Number(r.p25_ppsf) : null,
+    p75PricePerSqft: r.p75_ppsf != null ? Number(r.p75_ppsf) : null,
+    transactionCount: Number(r.sale_count) || 0,
+    turnoverRate: null, volatility: r.volatility != null ? Number(r.volatility) : null,
+    trend3m: ratio(r.m3, r.m3p), trend6m: ratio(r.m6, r.m6p), trend12m: ratio(r.median_recent, r.median_prior),
+    computedAt: new Date(),
+  }));
+  if (stateBatch.length > 0) await db.insert(marketAggregates).values(stateBatch);
+  aggCount += stateBatch.length;
+
+  await db.execute(sql`DROP TABLE IF EXISTS tmp_sales_geo;`);
+  await snapshotMarketAggregates();
+  console.log(`[Aggregates] Total aggregates: ${aggCount} (zip ${zipBatch.length}, city ${cityBatch.length}, county ${countyBatch.length}, nh ${nhBatch.length}, state ${stateBatch.length})`);
+  return aggCount;
+}
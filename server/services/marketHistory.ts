@@ -0,0 +1,93 @@
+import { db } from "../db";
+import { sql } from "drizzle-orm";
+
+// Monthly market aggregate history.
+//
+// The aggregate refreshes rebuild market_aggregates from scratch; after each
+// one, snapshotMarketAggregates() copies the rebuilt rows into
+// market_aggregate_snapshots for the current month and recomputes
+// trend3m/6m/12m from the snapshots 3, 6 and 12 months back, so every trend
+// can be traced to two stored medians. Rows without that much history keep
+// the trend the refresh computed.
+
+const MAX_TREND = 0.5;
+
+function segmentKey(alias: string) {
+  return sql.raw(
+    `concat_ws('|', COALESCE(${alias}.property_type, ''), COALESCE(${alias}.beds_band, ''), COALESCE(${alias}.baths_band, ''), COALESCE(${alias}.year_built_band, ''), COALESCE(${alias}.size_band, ''))`
+  );
+}
+
+function monthStart(date: Date): string {
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, "0")}-01`;
+}
+
+function trendFromSnapshot(months: number) {
+  return sql.raw(`(
+    SELECT GREATEST(-${MAX_TREND}, LEAST(${MAX_TREND}, cur.median_price::float / NULLIF(past.median_price, 0) - 1))
+    FROM market_aggregate_snapshots past
+    WHERE past.geo_type = cur.geo_type AND past.geo_id = cur.geo_id AND past.state = cur.state
+      AND past.segment_key = cur.segment_key
+      AND past.period = (cur.period - INTERVAL '${months} months')::date
+  )`);
+}
+
+/**
+ * Records the current market_aggregates as this month's snapshot and derives
+ * their trends from earlier snapshots. Returns the number of rows snapshotted.
+ */
+export async function snapshotMarketAggregates(asOf: Date = new Date()): Promise<number> {
+  const period = monthStart(asOf);
+
+  // Geo ids can repeat within a segment (e.g. Zillow and our own rows for the
+  // same ZIP); keep the row backed by the most transactions
+  const inserted = await db.execute(sql`
+    INSERT INTO market_aggregate_snapshots (
+      period, geo_type, geo_id, geo_name, state,
+      property_type, beds_band, baths_band, year_built_band, size_band, segment_key,
+      median_price, median_price_per_sqft, p25_price, p75_price,
+      p25_price_per_sqft, p75_price_per_sqft, transaction_count, turnover_rate, computed_at
+    )
+    SELECT DISTINCT ON (ma.geo_type, ma.geo_id, ma.state, ${segmentKey("ma")})
+      ${period}::date, ma.geo_type, ma.geo_id, ma.geo_name, ma.state,
+      ma.property_type, ma.beds_band, ma.baths_band, ma.year_built_band, ma.size_band, ${segmentKey("ma")},
+      ma.median_price, ma.median_price_per_sqft, ma.p25_price, ma.p75_price,
+      ma.p25_price_per_sqft, ma.p75_price_per_sqft, ma.transaction_count, ma.turnover_rate, NOW()
+    FROM market_aggregates ma
+    ORDER BY ma.geo_type, ma.geo_id, ma.state, ${segmentKey("ma")}, ma.transaction_count DESC NULLS LAST
+    ON CONFLICT (geo_type, geo_id, state, segment_key, period) DO UPDATE SET
+      geo_name = EXCLUDED.geo_name,
+      median_price = EXCLUDED.median_price,
+      median_price_per_sqft = EXCLUDED.median_price_per_sqft,
+      p25_price = EXCLUDED.p25_price,
+      p75_price = EXCLUDED.p75_price,
+      p25_price_per_sqft = EXCLUDED.p25_price_per_sqft,
+      p75_price_per_sqft = EXCLUDED.p75_price_per_sqft,
+      transaction_count = EXCLUDED.transaction_count,
+      turnover_rate = EXCLUDED.turnover_rate,
+      computed_at = EXCLUDED.computed_at
+  `);
+
+  const trends = await db.execute(sql`
+    UPDATE market_aggregates ma
+    SET
+      trend3m = COALESCE(h.trend3m, ma.trend3m),
+      trend6m = COALESCE(h.trend6m, ma.trend6m),
+      trend12m = COALESCE(h.trend12m, ma.trend12m)
+    FROM (
+      SELECT cur.geo_type, cur.geo_id, cur.state, cur.segment_key,
+        ${trendFromSnapshot(3)} AS trend3m,
+        ${trendFromSnapshot(6)} AS trend6m,
+        ${trendFromSnapshot(12)} AS trend12m
+      FROM market_aggregate_snapshots cur
+      WHERE cur.period = ${period}::date
+    ) h
+    WHERE h.geo_type = ma.geo_type AND h.geo_id = ma.geo_id AND h.state = ma.state
+      AND h.segment_key = ${segmentKey("ma")}
+      AND (h.trend3m IS NOT NULL OR h.trend6m IS NOT NULL OR h.trend12m IS NOT NULL)
+  `);
+
+  const snapshotted = inserted.rowCount ?? 0;
+  console.log(`  Snapshotted ${snapshotted} aggregates for ${period} (${trends.rowCount ?? 0} trends from history)`);
+  return snapshotted;
+}
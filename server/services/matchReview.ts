@@ -0,0 +1,359 @@
+import { db } from "../db";
+import {
+  matchReviewDecisions,
+  properties,
+  condoUnits,
+  type MatchCandidate,
+  type MatchReviewDecision,
+  type MatchReviewGroup,
+  type MatchReviewItem,
+  type MatchReviewSubjectType,
+  type InsertMatchReviewDecision,
+} from "@shared/schema";
+import { sql, eq } from "drizzle-orm";
+import { simpleAddressNormalize } from "./geoclient";
+
+// Admin review of entity matching.
+//
+// The queue lists sales that matchTransactions() left unresolved and
+// entity_resolution_map rows matched below LOW_CONFIDENCE_THRESHOLD, grouped
+// by reason. An admin accepts, reassigns or rejects each one; decisions are
+// stored in match_review_decisions under a key built from the source record
+// (sales and resolution rows are recreated on re-import, so row ids don't
+// survive) and applied again every time matching runs.
+
+export const LOW_CONFIDENCE_THRESHOLD = 0.85;
+
+const DEFAULT_ITEMS_PER_GROUP = 50;
+const CANDIDATES_PER_SOURCE = 5;
+
+// CT sales are reviewed through the sales queue, where a decision also
+// relinks the sale itself
+const SALE_RESOLUTION_SOURCES = ["ct_opm_sales"];
+
+const BOROUGH_CODE_TO_NUM: Record<string, string> = {
+  MN: "1", BX: "2", BK: "3", QN: "4", SI: "5",
+  "1": "1", "2": "2", "3": "3", "4": "4", "5": "5",
+};
+
+// Must stay in step with the key stored for sale decisions: raw borough,
+// block, lot, address, apartment, sale date and price
+const SALE_SUBJECT_KEY = sql.raw(`concat_ws('|',
+  COALESCE(s.raw_borough, ''), COALESCE(s.raw_block, ''), COALESCE(s.raw_lot, ''),
+  COALESCE(UPPER(TRIM(s.raw_address)), ''), COALESCE(UPPER(TRIM(s.raw_apt_number)), ''),
+  to_char(s.sale_date, 'YYYY-MM-DD'), s.sale_price::text)`);
+
+const RESOLUTION_SUBJECT_KEY = sql.raw(`(erm.source_system || ':' || erm.source_record_id)`);
+
+const RESOLUTION_QUEUE_FILTER = sql`erm.match_type <> 'manual_review'
+  AND erm.match_confidence < ${LOW_CONFIDENCE_THRESHOLD}
+  AND erm.source_system NOT IN (${sql.join(SALE_RESOLUTION_SOURCES.map((s) => sql`${s}`), sql`, `)})`;
+
+const RESOLUTION_REASON = sql.raw(
+  `CASE WHEN erm.matched_property_id IS NULL THEN 'unmatched' ELSE 'low_confidence_' || erm.match_type END`
+);
+
+function rawSaleBbl(borough: string | null, block: string | null, lot: string | null): string | null {
+  if (!borough || !block || !lot) return null;
+  const boroughNum = BOROUGH_CODE_TO_NUM[borough];
+  if (!boroughNum) return null;
+  return boroughNum + block.padStart(5, "0") + lot.padStart(4, "0");
+}
+
+function formatPrice(price: number): string {
+  return `$${price.toLocaleString()}`;
+}
+
+function saleItem(row: any): MatchReviewItem {
+  const saleDate = row.sale_date ? new Date(row.sale_date).toISOString().slice(0, 10) : "unknown date";
+  return {
+    subjectType: "sale",
+    subjectKey: row.subject_key,
+    sourceSystem: "sales",
+    sourceRecordId: row.id,
+    address: row.raw_apt_number ? `${row.raw_address}, Apt ${row.raw_apt_number}` : row.raw_address,
+    bbl: rawSaleBbl(row.raw_borough, row.raw_block, row.raw_lot),
+    currentPropertyId: row.property_id,
+    currentAddress: null,
+    matchType: row.match_method,
+    matchConfidence: null,
+    detail: `${formatPrice(row.sale_price)} on ${saleDate}`,
+  };
+}
+
+function resolutionItem(row: any): MatchReviewItem {
+  const metadata = (row.match_metadata || {}) as Record<string, any>;
+  const address = metadata.address || metadata.normalizedAddress || null;
+  const place = [metadata.city || metadata.town, metadata.zipCode].filter(Boolean).join(" ");
+  return {
+    subjectType: "entity_resolution",
+    subjectKey: row.subject_key,
+    sourceSystem: row.source_system,
+    sourceRecordId: row.source_record_id,
+    address: address && place ? `${address}, ${place}` : address,
+    bbl: row.source_bbl || metadata.unitBbl || metadata.baseBbl || null,
+    currentPropertyId: row.matched_property_id,
+    currentAddress: row.current_address,
+    matchType: row.match_type,
+    matchConfidence: row.match_confidence,
+    detail: metadata.unitDesignation ? `Unit ${metadata.unitDesignation}` : null,
+  };
+}
+
+/**
+ * Review queue grouped by reason, with up to itemsPerGroup of the most
+ * recent items in each group.
+ */
+export async function getMatchReviewQueue(itemsPerGroup = DEFAULT_ITEMS_PER_GROUP): Promise<MatchReviewGroup[]> {
+  const groups: MatchReviewGroup[] = [];
+
+  const saleReasons = await db.execute(sql`
+    SELECT COALESCE(unresolved_reason, 'unknown') AS reason, COUNT(*)::int AS count
+    FROM sales
+    WHERE match_method = 'unresolved'
+    GROUP BY 1
+    ORDER BY 2 DESC
+  `);
+  for (const { reason, count } of saleReasons.rows as Array<{ reason: string; count: number }>) {
+    const items = await db.execute(sql`
+      SELECT s.*, ${SALE_SUBJECT_KEY} AS subject_key
+      FROM sales s
+      WHERE s.match_method = 'unresolved' AND COALESCE(s.unresolved_reason, 'unknown') = ${reason}
+      ORDER BY s.sale_date DESC
+      LIMIT ${itemsPerGroup}
+    `);
+    groups.push({ subjectType: "sale", reason, count, items: items.rows.map(saleItem) });
+  }
+
+  const resolutionReasons = await db.execute(sql`
+    SELECT ${RESOLUTION_REASON} AS reason, COUNT(*)::int AS count
+    FROM entity_resolution_map erm
+    WHERE ${RESOLUTION_QUEUE_FILTER}
+    GROUP BY 1
+    ORDER BY 2 DESC
+  `);
+  for (const { reason, count } of resolutionReasons.rows as Array<{ reason: string; count: number }>) {
+    const items = await db.execute(sql`
+      SELECT erm.*, ${RESOLUTION_SUBJECT_KEY} AS subject_key, p.address AS current_address
+      FROM entity_resolution_map erm
+      LEFT JOIN properties p ON p.id = erm.matched_property_id
+      WHERE ${RESOLUTION_QUEUE_FILTER} AND ${RESOLUTION_REASON} = ${reason}
+      ORDER BY erm.match_confidence ASC, erm.updated_at DESC
+      LIMIT ${itemsPerGroup}
+    `);
+    groups.push({ subjectType: "entity_resolution", reason, count, items: items.rows.map(resolutionItem) });
+  }
+
+  return groups;
+}
+
+export async function getMatchReviewItem(
+  subjectType: MatchReviewSubjectType,
+  subjectKey: string
+): Promise<MatchReviewItem | null> {
+  if (subjectType === "sale") {
+    const result = await db.execute(sql`
+      SELECT * FROM (
+        SELECT s.*, ${SALE_SUBJECT_KEY} AS subject_key FROM sales s
+      ) keyed
+      WHERE subject_key = ${subjectKey}
+      LIMIT 1
+    `);
+    return result.rows[0] ? saleItem(result.rows[0]) : null;
+  }
+
+  const separator = subjectKey.indexOf(":");
+  if (separator < 0) return null;
+  const result = await db.execute(sql`
+    SELECT erm.*, ${RESOLUTION_SUBJECT_KEY} AS subject_key, p.address AS current_address
+    FROM entity_resolution_map erm
+    LEFT JOIN properties p ON p.id = erm.matched_property_id
+    WHERE erm.source_system = ${subjectKey.slice(0, separator)}
+      AND erm.source_record_id = ${subjectKey.slice(separator + 1)}
+  `);
+  return result.rows[0] ? resolutionItem(result.rows[0]) : null;
+}
+
+/**
+ * Suggests properties and condo units for a review item: the nearest lots on
+ * the same tax block, then properties whose normalized address matches.
+ */
+export async function getMatchCandidates(item: MatchReviewItem): Promise<MatchCandidate[]> {
+  const candidates: MatchCandidate[] = [];
+  const seen = new Set<string>();
+  const add = (candidate: MatchCandidate) => {
+    const key = candidate.unitBbl || candidate.propertyId || "";
+    if (seen.has(key) || (candidate.propertyId === item.currentPropertyId && !candidate.unitBbl)) return;
+    seen.add(key);
+    candidates.push(candidate);
+  };
+
+  if (item.bbl && /^\d{10}$/.test(item.bbl)) {
+    const blockPrefix = item.bbl.slice(0, 6);
+    const lot = parseInt(item.bbl.slice(6), 10);
+
+    const units = await db.execute(sql`
+      SELECT unit_bbl, building_property_id, unit_display_address, building_display_address, unit_designation
+      FROM condo_units
+      WHERE LEFT(unit_bbl, 6) = ${blockPrefix} AND unit_bbl ~ '^[0-9]{10}$'
+      ORDER BY ABS(SUBSTRING(unit_bbl, 7, 4)::int - ${lot}), unit_bbl
+      LIMIT ${CANDIDATES_PER_SOURCE}
+    `);
+    for (const u of units.rows as any[]) {
+      add({
+        propertyId: u.building_property_id,
+        unitBbl: u.unit_bbl,
+        address: u.unit_display_address || u.building_display_address || u.unit_bbl,
+        bbl: u.unit_bbl,
+        via: "block_lot",
+        detail: u.unit_bbl === item.bbl ? "Same unit BBL" : `Unit ${u.unit_designation || u.unit_bbl} on block ${blockPrefix.slice(1)}`,
+      });
+    }
+
+    const lots = await db.execute(sql`
+      SELECT id, address, bbl
+      FROM properties
+      WHERE LEFT(bbl, 6) = ${blockPrefix} AND bbl ~ '^[0-9]{10}$'
+      ORDER BY ABS(SUBSTRING(bbl, 7, 4)::int - ${lot}), bbl
+      LIMIT ${CANDIDATES_PER_SOURCE}
+    `);
+    for (const p of lots.rows as any[]) {
+      const distance = Math.abs(parseInt(p.bbl.slice(6), 10) - lot);
+      add({
+        propertyId: p.id,
+        unitBbl: null,
+        address: p.address,
+        bbl: p.bbl,
+        via: "block_lot",
+        detail: distance === 0 ? "Same lot" : `Lot ${parseInt(p.bbl.slice(6), 10)} on the same block`,
+      });
+    }
+  }
+
+  if (item.address) {
+    // House number and street only; unit and locality would defeat the prefix match
+    const street = simpleAddressNormalize(item.address.split(",")[0]);
+    if (/^\d/.test(street)) {
+      const matches = await db
+        .select({ id: properties.id, address: properties.address, bbl: properties.bbl, city: properties.city, zipCode: properties.zipCode })
+        .from(properties)
+        .where(sql`UPPER(${properties.address}) LIKE ${street.replace(/[%_]/g, "") + "%"}`)
+        .limit(CANDIDATES_PER_SOURCE);
+      for (const p of matches) {
+        add({
+          propertyId: p.id,
+          unitBbl: null,
+          address: p.address,
+          bbl: p.bbl,
+          via: "address",
+          detail: `Normalized address match in ${[p.city, p.zipCode].filter(Boolean).join(" ")}`,
+        });
+      }
+    }
+  }
+
+  return candidates;
+}
+
+/**
+ * Checks that a decision's target exists and fills in the building property
+ * of a condo unit target. Returns null when the target can't be resolved.
+ */
+export async function resolveDecisionTarget(
+  propertyId: string | null | undefined,
+  unitBbl: string | null | undefined
+): Promise<{ propertyId: string | null; unitBbl: string | null } | null> {
+  if (unitBbl) {
+    const [unit] = await db
+      .select({ buildingPropertyId: condoUnits.buildingPropertyId })
+      .from(condoUnits)
+      .where(eq(condoUnits.unitBbl, unitBbl));
+    if (!unit) return null;
+    propertyId = propertyId || unit.buildingPropertyId;
+  }
+  if (propertyId) {
+    const [property] = await db.select({ id: properties.id }).from(properties).where(eq(properties.id, propertyId));
+    if (!property) return null;
+  }
+  if (!propertyId && !unitBbl) return null;
+  return { propertyId: propertyId || null, unitBbl: unitBbl || null };
+}
+
+/**
+ * Stores a decision, replacing any earlier one for the same subject, and
+ * applies it straight away.
+ */
+export async function saveMatchReviewDecision(decision: InsertMatchReviewDecision): Promise<MatchReviewDecision> {
+  const [saved] = await db
+    .insert(matchReviewDecisions)
+    .values(decision)
+    .onConflictDoUpdate({
+      target: [matchReviewDecisions.subjectType, matchReviewDecisions.subjectKey],
+      set: {
+        action: decision.action,
+        propertyId: decision.propertyId ?? null,
+        unitBbl: decision.unitBbl ?? null,
+        reason: decision.reason ?? null,
+        note: decision.note ?? null,
+        decidedBy: decision.decidedBy ?? null,
+        decidedAt: new Date(),
+      },
+    })
+    .returning();
+
+  if (saved.subjectType === "sale") {
+    await applySaleDecisions(saved.subjectKey);
+  } else {
+    await applyEntityResolutionDecisions({ subjectKey: saved.subjectKey });
+  }
+  return saved;
+}
+
+/**
+ * Relinks sales that have a review decision: accepted or reassigned sales
+ * get match method "manual", rejected ones "rejected". Returns the number of
+ * sales updated.
+ */
+export async function applySaleDecisions(subjectKey?: string): Promise<number> {
+  const result = await db.execute(sql`
+    UPDATE sales s SET
+      property_id = CASE WHEN d.action = 'reject' THEN NULL ELSE COALESCE(d.property_id, cu.building_property_id) END,
+      unit_bbl = CASE WHEN d.action = 'reject' THEN NULL ELSE d.unit_bbl END,
+      base_bbl = CASE WHEN d.action = 'reject' THEN NULL ELSE cu.base_bbl END,
+      match_method = CASE WHEN d.action = 'reject' THEN 'rejected' ELSE 'manual' END
+    FROM match_review_decisions d
+    LEFT JOIN condo_units cu ON cu.unit_bbl = d.unit_bbl
+    WHERE d.subject_type = 'sale'
+      AND d.subject_key = ${SALE_SUBJECT_KEY}
+      ${subjectKey ? sql`AND d.subject_key = ${subjectKey}` : sql``}
+  `);
+  return result.rowCount ?? 0;
+}
+
+/**
+ * Overrides entity_resolution_map rows that have a review decision. Rejected
+ * rows keep no property; either way the row is marked manual_review so
+ * importers and the review queue leave it alone. Returns the number of rows
+ * updated.
+ */
+export async function applyEntityResolutionDecisions(
+  filter: { sourceSystem?: string; subjectKey?: string } = {}
+): Promise<number> {
+  const result = await db.execute(sql`
+    UPDATE entity_resolution_map erm SET
+      matched_property_id = CASE WHEN d.action = 'reject' THEN NULL ELSE COALESCE(d.property_id, cu.building_property_id) END,
+      match_type = 'manual_review',
+      match_confidence = CASE WHEN d.action = 'reject' THEN 0 ELSE 1 END,
+      updated_at = NOW()
+    FROM match_review_decisions d
+    LEFT JOIN condo_units cu ON cu.unit_bbl = d.unit_bbl
+    WHERE d.subject_type = 'entity_resolution'
+      -- Split the key rather than building it per row so the unique
+      -- (source_system, source_record_id) index is used
+      AND erm.source_system = split_part(d.subject_key, ':', 1)
+      AND erm.source_record_id = substr(d.subject_key, length(split_part(d.subject_key, ':', 1)) + 2)
+      ${filter.sourceSystem ? sql`AND erm.source_system = ${filter.sourceSystem}` : sql``}
+      ${filter.subjectKey ? sql`AND d.subject_key = ${filter.subjectKey}` : sql``}
+  `);
+  return result.rowCount ?? 0;
+}
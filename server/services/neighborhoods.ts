@@ -0,0 +1,179 @@
+import { db } from "../db";
+import { neighborhoodBoundaries, properties, condoUnits, buildings, type NeighborhoodBoundary } from "@shared/schema";
+import { sql, gt, type SQL } from "drizzle-orm";
+import { PolygonIndex } from "./geometry";
+
+// Neighborhood assignment.
+//
+// Boundaries are imported by server/etl/neighborhood-boundaries.ts. Every
+// property, condo unit and building with coordinates is assigned to the
+// polygon containing it: a grid of bounding boxes narrows the candidates, then
+// a ray-casting test decides. Properties also take the boundary's name as
+// their neighborhood. Rows outside every polygon get a null neighborhood_id,
+// and the aggregate refreshes fall back to their free-text neighborhood.
+
+const BATCH_SIZE = 5000;
+const UPDATE_BATCH = 1000;
+
+/**
+ * SQL for a row's neighborhood geoId: the boundary it was assigned to, or
+ * else its free-text neighborhood slugged the way aggregates always have been.
+ */
+export function neighborhoodKey(alias: string) {
+  return sql.raw(`COALESCE(${alias}.neighborhood_id, LOWER(REGEXP_REPLACE(${alias}.neighborhood, '\\s+', '-', 'g')))`);
+}
+
+type BoundaryLocator = PolygonIndex<NeighborhoodBoundary>;
+
+interface Located {
+  key: string;
+  latitude: number | null;
+  longitude: number | null;
+  neighborhoodId: string | null;
+  neighborhood?: string | null;
+}
+
+interface Assignment {
+  key: string;
+  neighborhoodId: string | null;
+  name: string | null;
+}
+
+/**
+ * Walks one table in key order and writes the assignments that changed.
+ * Returns the number of rows updated.
+ */
+async function assignTable(
+  label: string,
+  locator: BoundaryLocator,
+  load: (afterKey: string) => Promise<Located[]>,
+  write: (values: SQL) => Promise<unknown>
+): Promise<number> {
+  let lastKey = "";
+  let scanned = 0;
+  let assigned = 0;
+  let updated = 0;
+
+  while (true) {
+    const batch = await load(lastKey);
+    if (batch.length === 0) break;
+    lastKey = batch[batch.length - 1].key;
+    scanned += batch.length;
+
+    const changes: Assignment[] = [];
+    for (const row of batch) {
+      const boundary = locator.locate(row.latitude, row.longitude);
+      if (boundary) assigned++;
+      const neighborhoodId = boundary?.id ?? null;
+      const nameChanged = boundary && row.neighborhood !== undefined && row.neighborhood !== boundary.name;
+      if (neighborhoodId !== row.neighborhoodId || nameChanged) {
+        changes.push({ key: row.key, neighborhoodId, name: boundary?.name ?? null });
+      }
+    }
+    for (let i = 0; i < changes.length; i += UPDATE_BATCH) {
+      const values = sql.join(
+        changes.slice(i, i + UPDATE_BATCH).map((c) => sql`(${c.key}, ${c.neighborhoodId}::varchar, ${c.name}::varchar)`),
+        sql`, `
+      );
+      await write(values);
+    }
+    updated += changes.length;
+  }
+
+  console.log(`  ${label}: ${assigned.toLocaleString()} of ${scanned.toLocaleString()} inside a boundary, ${updated.toLocaleString()} updated`);
+  return updated;
+}
+
+/**
+ * Assigns every property, condo unit and building to the neighborhood
+ * boundary containing it. Does nothing until boundaries have been imported.
+ * Returns the number of rows updated.
+ */
+export async function assignNeighborhoods(): Promise<number> {
+  console.log("\n🗺️  Assigning neighborhoods...");
+  const boundaries = await db.select().from(neighborhoodBoundaries);
+  if (boundaries.length === 0) {
+    console.log("  No neighborhood boundaries imported, skipping");
+    return 0;
+  }
+  // Smallest first, so a polygon enclosed by another wins the overlap
+  const area = (b: NeighborhoodBoundary) => (b.maxLat - b.minLat) * (b.maxLng - b.minLng);
+  const locator: BoundaryLocator = new PolygonIndex([...boundaries].sort((a, b) => area(a) - area(b)));
+
+  const propertyUpdates = await assignTable(
+    "Properties",
+    locator,
+    (after) =>
+      db
+        .select({
+          key: properties.id,
+          latitude: properties.latitude,
+          longitude: properties.longitude,
+          neighborhoodId: properties.neighborhoodId,
+          neighborhood: properties.neighborhood,
+        })
+        .from(properties)
+        .where(gt(properties.id, after))
+        .orderBy(properties.id)
+        .limit(BATCH_SIZE),
+    (values) =>
+      db.execute(sql`
+        UPDATE properties
+        SET neighborhood_id = v.neighborhood_id, neighborhood = COALESCE(v.name, properties.neighborhood), updated_at = NOW()
+        FROM (VALUES ${values}) AS v(id, neighborhood_id, name)
+        WHERE properties.id = v.id
+      `)
+  );
+
+  const unitUpdates = await assignTable(
+    "Condo units",
+    locator,
+    (after) =>
+      db
+        .select({
+          key: condoUnits.unitBbl,
+          latitude: condoUnits.latitude,
+          longitude: condoUnits.longitude,
+          neighborhoodId: condoUnits.neighborhoodId,
+        })
+        .from(condoUnits)
+        .where(gt(condoUnits.unitBbl, after))
+        .orderBy(condoUnits.unitBbl)
+        .limit(BATCH_SIZE),
+    (values) =>
+      db.execute(sql`
+        UPDATE condo_units
+        SET neighborhood_id = v.neighborhood_id, updated_at = NOW()
+        FROM (VALUES ${values}) AS v(unit_bbl, neighborhood_id, name)
+        WHERE condo_units.unit_bbl = v.unit_bbl
+      `)
+  );
+
+  const buildingUpdates = await assignTable(
+    "Buildings",
+    locator,
+    (after) =>
+      db
+        .select({
+          key: buildings.baseBbl,
+          latitude: buildings.latitude,
+          longitude: buildings.longitude,
+          neighborhoodId: buildings.neighborhoodId,
+        })
+        .from(buildings)
+        .where(gt(buildings.baseBbl, after))
+        .orderBy(buildings.baseBbl)
+        .limit(BATCH_SIZE),
+    (values) =>
+      db.execute(sql`
+        UPDATE buildings
+        SET neighborhood_id = v.neighborhood_id, updated_at = NOW()
+        FROM (VALUES ${values}) AS v(base_bbl, neighborhood_id, name)
+        WHERE buildings.base_bbl = v.base_bbl
+      `)
+  );
+
+  const updated = propertyUpdates + unitUpdates + buildingUpdates;
+  console.log(`✅ Updated ${updated.toLocaleString()} neighborhood assignments`);
+  return updated;
+}
@@ -0,0 +1,524 @@
+import { db } from "../db";
+import {
+  properties,
+  sales,
+  comps,
+  marketAggregates,
+  propertySignalSummary,
+  propertyScores,
+  type ConfidenceLevel,
+  type InsertPropertyScore,
+  type MarketAggregate,
+  type OpportunityScoreBreakdown,
+  type PropertySignalSummary,
+} from "@shared/schema";
+import { sql, eq, and, inArray, isNull, desc, gt } from "drizzle-orm";
+import { recordScoreHistory } from "./scoreHistory";
+
+// Opportunity scoring.
+//
+// Every property gets five 0-100 components, combined with SCORE_WEIGHTS
+// into the overall opportunity score:
+//   mispricing  sale price (or estimate) against comps / ZIP market value
+//   confidence  how much evidence backs that comparison
+//   liquidity   how often property in the ZIP actually trades
+//   risk        flood, building health, volatility; higher is safer
+//   valueAdd    age, unused lot, below-market $/sqft, permit activity
+// Each component records the explanations and evidence (comp, sale, market
+// aggregate and signal ids) behind it, persisted in property_scores and
+// mirrored onto properties.opportunity_score / confidence_level, with the
+// last move kept in properties.score_change for sorting. Score changes are
+// appended to opportunity_score_history under SCORE_MODEL_VERSION.
+
+export const SCORE_WEIGHTS = {
+  mispricing: 0.4,
+  confidence: 0.15,
+  liquidity: 0.15,
+  risk: 0.15,
+  valueAdd: 0.15,
+} as const;
+
+// Bump when scoreProperty or SCORE_WEIGHTS change, so history shows which
+// moves came from the model rather than the data
+export const SCORE_MODEL_VERSION = "property-v1";
+
+const PRICE_BASIS_MAX_AGE_MONTHS = 24;
+const MIN_COMPS_FOR_VALUE = 2;
+const MAX_COMP_EVIDENCE = 5;
+// Annual share of a ZIP's properties selling that counts as a liquid market
+const LIQUID_TURNOVER = 0.06;
+const BATCH_SIZE = 2000;
+
+export interface ScoreComp {
+  id: string;
+  address: string;
+  compSalePrice: number | null;
+  adjustedPrice: number | null;
+  similarityScore: number | null;
+}
+
+export interface ScoreSale {
+  id: string;
+  salePrice: number;
+  saleDate: Date;
+}
+
+export interface ScoreInputs {
+  property: {
+    id: string;
+    zipCode: string;
+    propertyType: string;
+    sqft: number | null;
+    lotSize: number | null;
+    beds: number | null;
+    yearBuilt: number | null;
+    estimatedValue: number | null;
+    lastSalePrice: number | null;
+    lastSaleDate: Date | null;
+    pricePerSqft: number | null;
+  };
+  lastSale: ScoreSale | null;
+  comps: ScoreComp[];
+  market: MarketAggregate | null;
+  zipActivity: { properties: number; sales12m: number } | null;
+  signals: PropertySignalSummary | null;
+  asOf: Date;
+}
+
+export interface ScoredProperty {
+  breakdown: OpportunityScoreBreakdown;
+  confidenceLevel: ConfidenceLevel;
+  marketValue: number | null;
+  priceBasis: number | null;
+}
+
+type Evidence = OpportunityScoreBreakdown["evidence"][number];
+
+function clampScore(n: number): number {
+  return Math.max(0, Math.min(100, Math.round(n)));
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function formatMoney(n: number): string {
+  return `$${Math.round(n).toLocaleString("en-US")}`;
+}
+
+function formatPct(fraction: number): string {
+  return `${Math.round(Math.abs(fraction) * 100)}%`;
+}
+
+function monthsBetween(from: Date, to: Date): number {
+  return (to.getTime() - from.getTime()) / (1000 * 60 * 60 * 24 * 30.44);
+}
+
+/**
+ * Scores one property. Pure: everything it looks at is in the inputs, so the
+ * same inputs always give the same breakdown.
+ */
+export function scoreProperty(inputs: ScoreInputs): ScoredProperty {
+  const { property, comps: propertyComps, market, signals, zipActivity, asOf } = inputs;
+  // Explanations carry an impact so the strongest reasons are listed first
+  const explanations: Array<{ text: string; impact: number }> = [];
+  const evidence: Evidence[] = [];
+  const explain = (text: string, impact: number) => explanations.push({ text, impact: Math.abs(impact) });
+
+  const lastSale = inputs.lastSale
+    ?? (property.lastSalePrice && property.lastSaleDate
+      ? { id: property.id, salePrice: property.lastSalePrice, saleDate: property.lastSaleDate }
+      : null);
+  const recentSale = !!lastSale && monthsBetween(lastSale.saleDate, asOf) <= PRICE_BASIS_MAX_AGE_MONTHS;
+  if (lastSale) {
+    evidence.push({
+      type: inputs.lastSale ? "sale" : "property",
+      id: lastSale.id,
+      description: `Last sold for ${formatMoney(lastSale.salePrice)} on ${lastSale.saleDate.toISOString().slice(0, 10)}`,
+    });
+  }
+
+  const marketLabel = `ZIP ${property.zipCode}${market?.propertyType ? ` ${market.propertyType}` : ""}`;
+  if (market) {
+    const parts = [market.medianPrice ? `median ${formatMoney(market.medianPrice)}` : null,
+      market.medianPricePerSqft ? `${formatMoney(market.medianPricePerSqft)}/sqft` : null].filter(Boolean);
+    evidence.push({ type: "market", id: market.id, description: `${marketLabel}: ${parts.join(", ") || "no price data"}` });
+  }
+
+  // Mispricing
+  const compValues = propertyComps
+    .map((c) => c.adjustedPrice ?? c.compSalePrice)
+    .filter((v): v is number => v !== null && v > 0);
+  let marketValue: number | null = null;
+  let marketValueLabel = "";
+  if (compValues.length >= MIN_COMPS_FOR_VALUE) {
+    marketValue = median(compValues);
+    marketValueLabel = `median adjusted price of ${compValues.length} comps (${formatMoney(marketValue)})`;
+  } else if (market?.medianPricePerSqft && property.sqft) {
+    marketValue = market.medianPricePerSqft * property.sqft;
+    marketValueLabel = `${marketLabel} median $/sqft applied to ${property.sqft.toLocaleString()} sqft (${formatMoney(marketValue)})`;
+  } else if (market?.medianPrice) {
+    marketValue = market.medianPrice;
+    marketValueLabel = `${marketLabel} median price (${formatMoney(marketValue)})`;
+  }
+  const priceBasis = recentSale ? lastSale!.salePrice : property.estimatedValue;
+
+  let mispricing = 50;
+  if (marketValue && priceBasis && priceBasis > 0) {
+    const discount = (marketValue - priceBasis) / marketValue;
+    mispricing = clampScore(50 + discount * 200);
+    const subject = recentSale ? "Last sold" : "Estimated value is";
+    if (discount >= 0.05) {
+      explain(`${subject} ${formatPct(discount)} below the ${marketValueLabel}`, discount * SCORE_WEIGHTS.mispricing);
+    } else if (discount <= -0.05) {
+      explain(`${subject} ${formatPct(discount)} above the ${marketValueLabel}`, discount * SCORE_WEIGHTS.mispricing);
+    } else {
+      explain(`${recentSale ? "Last sale" : "Estimated value"} is in line with the ${marketValueLabel}`, 0);
+    }
+  } else {
+    explain("Not enough pricing data to compare against the market", 0);
+  }
+
+  for (const comp of propertyComps.slice(0, MAX_COMP_EVIDENCE)) {
+    if (!comp.compSalePrice) continue;
+    const adjusted = comp.adjustedPrice && comp.adjustedPrice !== comp.compSalePrice
+      ? ` (adjusted ${formatMoney(comp.adjustedPrice)})`
+      : "";
+    evidence.push({ type: "comp", id: comp.id, description: `${comp.address} sold for ${formatMoney(comp.compSalePrice)}${adjusted}` });
+  }
+
+  // Confidence
+  const similarities = propertyComps.map((c) => c.similarityScore).filter((s): s is number => s !== null);
+  const avgSimilarity = similarities.length ? similarities.reduce((a, b) => a + b, 0) / similarities.length : 0;
+  const knownFields = [property.sqft, property.beds, property.yearBuilt, priceBasis].filter((v) => v !== null && v! > 0).length;
+  const segmentSales = market?.transactionCount ?? 0;
+  const confidence = clampScore(
+    Math.min(propertyComps.length, 5) * 8 +
+      (avgSimilarity / 100) * 20 +
+      (segmentSales >= 20 ? 15 : segmentSales >= 5 ? 8 : 0) +
+      (knownFields / 4) * 15 +
+      (recentSale ? 10 : 0)
+  );
+  if (propertyComps.length >= 3) {
+    explain(`${propertyComps.length} comparable sales with ${Math.round(avgSimilarity)}% average similarity`, 0.05);
+  } else if (propertyComps.length === 0) {
+    explain("No comparable sales nearby; the estimate relies on ZIP-level data", 0.05);
+  }
+  const confidenceLevel: ConfidenceLevel = confidence >= 70 ? "High" : confidence >= 45 ? "Medium" : "Low";
+
+  // Liquidity
+  let liquidity = 50;
+  if (zipActivity && zipActivity.properties > 0) {
+    const turnover = zipActivity.sales12m / zipActivity.properties;
+    liquidity = clampScore((turnover / LIQUID_TURNOVER) * 75);
+    explain(
+      `${zipActivity.sales12m.toLocaleString()} sales in ZIP ${property.zipCode} over the last 12 months (${(turnover * 100).toFixed(1)}% of properties)`,
+      ((liquidity - 50) / 100) * SCORE_WEIGHTS.liquidity
+    );
+  }
+
+  // Risk (higher is safer)
+  let risk = 80;
+  const penalize = (points: number, text: string) => {
+    risk -= points;
+    explain(text, (points / 100) * SCORE_WEIGHTS.risk);
+  };
+  if (signals) {
+    const signalParts: string[] = [];
+    if (signals.floodRiskLevel === "severe" || signals.isFloodHighRisk) {
+      penalize(signals.floodRiskLevel === "severe" ? 30 : 20, `In a high-risk flood zone${signals.floodZone ? ` (${signals.floodZone})` : ""}`);
+    } else if (signals.isFloodModerateRisk) {
+      penalize(10, `In a moderate-risk flood zone${signals.floodZone ? ` (${signals.floodZone})` : ""}`);
+    }
+    if (signals.buildingHealthScore !== null && signals.buildingHealthScore < 60) {
+      penalize(signals.buildingHealthScore < 40 ? 20 : 10, `Building health score of ${signals.buildingHealthScore}/100`);
+    }
+    if ((signals.hazardousViolations ?? 0) > 0) {
+      penalize(10, `${signals.hazardousViolations} hazardous HPD violations on record`);
+    }
+    if (signals.openHpdViolations) signalParts.push(`${signals.openHpdViolations} open HPD violations`);
+    if (signals.permitCount12m) signalParts.push(`${signals.permitCount12m} permits in the last 12 months`);
+    if (signals.floodZone) signalParts.push(`flood zone ${signals.floodZone}`);
+    if (signals.buildingHealthScore !== null) signalParts.push(`building health ${signals.buildingHealthScore}/100`);
+    evidence.push({ type: "signal", id: signals.id, description: signalParts.join(", ") || "No building or flood issues on record" });
+  }
+  if (market?.volatility !== null && market?.volatility !== undefined && market.volatility > 0.1) {
+    penalize(10, `Volatile market: ${formatPct(market.volatility)} price volatility in ZIP ${property.zipCode}`);
+  }
+  if (priceBasis && market?.p75Price && priceBasis > market.p75Price) {
+    penalize(10, `Priced above the ZIP's 75th percentile (${formatMoney(market.p75Price)})`);
+  }
+  risk = clampScore(risk);
+
+  // Value-add
+  let valueAdd = 40;
+  const reward = (points: number, text: string) => {
+    valueAdd += points;
+    explain(text, (points / 100) * SCORE_WEIGHTS.valueAdd);
+  };
+  if (property.yearBuilt && property.yearBuilt < 1950) {
+    reward(15, `Built in ${property.yearBuilt}: renovation upside`);
+  } else if (property.yearBuilt && property.yearBuilt < 1980) {
+    reward(8, `Built in ${property.yearBuilt}: room for updates`);
+  }
+  if (property.lotSize && property.sqft && property.lotSize > property.sqft * 1.5) {
+    reward(15, `${property.lotSize.toLocaleString()} sqft lot against ${property.sqft.toLocaleString()} sqft of living area`);
+  }
+  if (property.pricePerSqft && market?.medianPricePerSqft && property.pricePerSqft < market.medianPricePerSqft * 0.85) {
+    reward(15, `${formatMoney(property.pricePerSqft)}/sqft against a ${marketLabel} median of ${formatMoney(market.medianPricePerSqft)}/sqft`);
+  }
+  if (signals?.majorAlteration) {
+    reward(10, "Major alteration permit filed in the last 24 months");
+  } else if ((signals?.permitCount12m ?? 0) > 0) {
+    reward(5, `${signals!.permitCount12m} building permits in the last 12 months`);
+  }
+  if (signals?.newConstruction) {
+    valueAdd -= 15;
+    explain("New construction leaves little improvement upside", 0.15 * SCORE_WEIGHTS.valueAdd);
+  }
+  valueAdd = clampScore(valueAdd);
+
+  const overall = clampScore(
+    mispricing * SCORE_WEIGHTS.mispricing +
+      confidence * SCORE_WEIGHTS.confidence +
+      liquidity * SCORE_WEIGHTS.liquidity +
+      risk * SCORE_WEIGHTS.risk +
+      valueAdd * SCORE_WEIGHTS.valueAdd
+  );
+
+  return {
+    breakdown: {
+      overall,
+      mispricing,
+      confidence,
+      liquidity,
+      risk,
+      valueAdd,
+      explanations: explanations.sort((a, b) => b.impact - a.impact).map((e) => e.text),
+      evidence,
+    },
+    confidenceLevel,
+    marketValue: marketValue ? Math.round(marketValue) : null,
+    priceBasis,
+  };
+}
+
+/**
+ * Overall ZIP market rows, keyed by "zip|propertyType" for the property-type
+ * segment and "zip|" for the unsegmented row.
+ */
+async function loadZipMarkets(): Promise<Map<string, MarketAggregate>> {
+  const rows = await db
+    .select()
+    .from(marketAggregates)
+    .where(
+      and(
+        eq(marketAggregates.geoType, "zip"),
+        isNull(marketAggregates.bedsBand),
+        isNull(marketAggregates.bathsBand),
+        isNull(marketAggregates.yearBuiltBand),
+        isNull(marketAggregates.sizeBand)
+      )
+    );
+  const markets = new Map<string, MarketAggregate>();
+  for (const row of rows) markets.set(`${row.geoId}|${row.propertyType ?? ""}`, row);
+  return markets;
+}
+
+async function loadZipActivity(): Promise<Map<string, { properties: number; sales12m: number }>> {
+  const result = await db.execute(sql`
+    SELECT p.zip_code,
+      COUNT(DISTINCT p.id)::int AS properties,
+      GREATEST(
+        COUNT(s.id),
+        COUNT(DISTINCT p.id) FILTER (WHERE p.last_sale_date >= NOW() - INTERVAL '12 months')
+      )::int AS sales_12m
+    FROM properties p
+    LEFT JOIN sales s ON s.property_id = p.id
+      AND s.sale_date >= NOW() - INTERVAL '12 months'
+      AND COALESCE(s.arms_length, true) = true
+    GROUP BY p.zip_code
+  `);
+  const activity = new Map<string, { properties: number; sales12m: number }>();
+  for (const r of result.rows as any[]) {
+    activity.set(r.zip_code, { properties: r.properties, sales12m: r.sales_12m });
+  }
+  return activity;
+}
+
+function groupBy<T>(rows: T[], key: (row: T) => string): Map<string, T[]> {
+  const grouped = new Map<string, T[]>();
+  for (const row of rows) {
+    const k = key(row);
+    const list = grouped.get(k) || [];
+    list.push(row);
+    grouped.set(k, list);
+  }
+  return grouped;
+}
+
+/**
+ * Scores the given properties (or every property when omitted), persisting
+ * each breakdown and the overall score. Returns the number scored.
+ */
+export async function computeOpportunityScores(options: { propertyIds?: string[] } = {}): Promise<number> {
+  console.log("\n🎯 Computing opportunity scores...");
+  const asOf = new Date();
+  const markets = await loadZipMarkets();
+  const zipActivity = await loadZipActivity();
+
+  const propertyColumns = {
+    id: properties.id,
+    zipCode: properties.zipCode,
+    propertyType: properties.propertyType,
+    sqft: properties.sqft,
+    lotSize: properties.lotSize,
+    beds: properties.beds,
+    yearBuilt: properties.yearBuilt,
+    estimatedValue: properties.estimatedValue,
+    lastSalePrice: properties.lastSalePrice,
+    lastSaleDate: properties.lastSaleDate,
+    pricePerSqft: properties.pricePerSqft,
+  };
+
+  let scored = 0;
+  let lastId = "";
+  let offset = 0;
+
+  while (true) {
+    let batch: ScoreInputs["property"][];
+    if (options.propertyIds) {
+      const ids = options.propertyIds.slice(offset, offset + BATCH_SIZE);
+      offset += BATCH_SIZE;
+      batch = ids.length > 0 ? await db.select(propertyColumns).from(properties).where(inArray(properties.id, ids)) : [];
+    } else {
+      batch = await db
+        .select(propertyColumns)
+        .from(properties)
+        .where(gt(properties.id, lastId))
+        .orderBy(properties.id)
+        .limit(BATCH_SIZE);
+    }
+    if (batch.length === 0) break;
+    lastId = batch[batch.length - 1].id;
+    const ids = batch.map((p) => p.id);
+
+    const compRows = await db
+      .select({
+        id: comps.id,
+        subjectPropertyId: comps.subjectPropertyId,
+        address: properties.address,
+        compSalePrice: comps.compSalePrice,
+        adjustedPrice: comps.adjustedPrice,
+        similarityScore: comps.similarityScore,
+      })
+      .from(comps)
+      .innerJoin(properties, eq(properties.id, comps.compPropertyId))
+      .where(inArray(comps.subjectPropertyId, ids))
+      .orderBy(desc(comps.similarityScore));
+    const compsBySubject = groupBy(compRows, (c) => c.subjectPropertyId);
+
+    const saleRows = await db
+      .selectDistinctOn([sales.propertyId], {
+        id: sales.id,
+        propertyId: sales.propertyId,
+        salePrice: sales.salePrice,
+        saleDate: sales.saleDate,
+      })
+      .from(sales)
+      .where(and(inArray(sales.propertyId, ids), sql`COALESCE(${sales.armsLength}, true) = true`))
+      .orderBy(sales.propertyId, desc(sales.saleDate));
+    const lastSales = new Map(saleRows.map((s) => [s.propertyId!, s]));
+
+    const signalRows = await db.select().from(propertySignalSummary).where(inArray(propertySignalSummary.propertyId, ids));
+    const signalsByProperty = new Map(signalRows.map((s) => [s.propertyId, s]));
+
+    const rows: InsertPropertyScore[] = batch.map((property) => {
+      const result = scoreProperty({
+        property,
+        lastSale: lastSales.get(property.id) ?? null,
+        comps: compsBySubject.get(property.id) || [],
+        market: markets.get(`${property.zipCode}|${property.propertyType}`) ?? markets.get(`${property.zipCode}|`) ?? null,
+        zipActivity: zipActivity.get(property.zipCode) ?? null,
+        signals: signalsByProperty.get(property.id) ?? null,
+        asOf,
+      });
+      const { overall, mispricing, confidence, liquidity, risk, valueAdd, explanations, evidence } = result.breakdown;
+      return {
+        propertyId: property.id,
+        overall,
+        mispricing,
+        confidence,
+        liquidity,
+        risk,
+        valueAdd,
+        confidenceLevel: result.confidenceLevel,
+        explanations,
+        evidence,
+        marketValue: result.marketValue,
+        priceBasis: result.priceBasis,
+      };
+    });
+
+    await db
+      .insert(propertyScores)
+      .values(rows)
+      .onConflictDoUpdate({
+        target: propertyScores.propertyId,
+        set: {
+          overall: sql`excluded.overall`,
+          mispricing: sql`excluded.mispricing`,
+          confidence: sql`excluded.confidence`,
+          liquidity: sql`excluded.liquidity`,
+          risk: sql`excluded.risk`,
+          valueAdd: sql`excluded.value_add`,
+          confidenceLevel: sql`excluded.confidence_level`,
+          explanations: sql`excluded.explanations`,
+          evidence: sql`excluded.evidence`,
+          marketValue: sql`excluded.market_value`,
+          priceBasis: sql`excluded.price_basis`,
+          computedAt: asOf,
+        },
+      });
+    await db.execute(sql`
+      UPDATE properties
+      SET opportunity_score = ps.overall,
+          confidence_level = ps.confidence_level,
+          score_change = CASE
+            WHEN properties.opportunity_score IS NULL THEN NULL
+            WHEN properties.opportunity_score <> ps.overall THEN ps.overall - properties.opportunity_score
+            ELSE properties.score_change
+          END
+      FROM property_scores ps
+      WHERE ps.property_id = properties.id AND ${inArray(properties.id, ids)}
+    `);
+
+    await recordScoreHistory(
+      "property",
+      rows.map((row) => ({
+        subjectId: row.propertyId,
+        score: row.overall,
+        components: {
+          mispricing: row.mispricing,
+          confidence: row.confidence,
+          liquidity: row.liquidity,
+          risk: row.risk,
+          valueAdd: row.valueAdd,
+        },
+        modelVersion: SCORE_MODEL_VERSION,
+        confidenceLevel: row.confidenceLevel,
+      })),
+      asOf
+    );
+
+    scored += rows.length;
+    if (scored % 50000 < BATCH_SIZE) {
+      console.log(`  Scored ${scored.toLocaleString()} properties...`);
+    }
+  }
+
+  console.log(`✅ Scored ${scored.toLocaleString()} properties`);
+  return scored;
+}
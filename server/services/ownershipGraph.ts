@@ -0,0 +1,593 @@
+import { createHash } from "crypto";
+import { db } from "../db";
+import {
+  ownerAliases,
+  ownerEntities,
+  ownerLinks,
+  type InsertOwnerEntity,
+  type OwnerEntityType,
+  type OwnerLinkType,
+  type OwnerProfile,
+} from "@shared/schema";
+import { eq, sql, type SQL } from "drizzle-orm";
+
+// ACRIS ownership graph.
+//
+// Party names come from the ACRIS party feed (acris_raw PARTY rows) and are
+// copied onto property_transactions: grantees of a deed are its buyers and
+// grantors its sellers, the grantee of a mortgage or assignment its lender.
+// Every distinct name is normalized (case, punctuation, legal suffix and
+// street word spellings) and clustered into an owner entity, so
+// "123 MAIN STREET L.L.C." and "123 Main St LLC" are one owner. Individuals
+// cluster on their name tokens in any order, which merges namesakes; the
+// portfolio panel shows aliases so that stays visible.
+//
+// Entities are linked when they give the same mailing address on deeds or
+// share an officer on HPD registrations, and each connected set of linked
+// entities forms a group. Addresses and officers shared by too many entities
+// (registered agents, law firms, managing agents) are ignored.
+
+const INSERT_BATCH = 1000;
+const UPDATE_BATCH = 1000;
+const MAX_ENTITIES_PER_ADDRESS = 20;
+const MAX_ENTITIES_PER_SIGNATORY = 50;
+const MAX_LISTED = 5;
+
+const LEGAL_SPELLINGS: Array<[RegExp, string]> = [
+  [/\bLIMITED LIABILITY (COMPANY|CO)\b/g, "LLC"],
+  [/\bL L C\b/g, "LLC"],
+  [/\bLIMITED PARTNERSHIP\b/g, "LP"],
+  [/\bL L P\b/g, "LLP"],
+  [/\bL P\b/g, "LP"],
+  [/\bINCORPORATED\b/g, "INC"],
+  [/\bCORPORATION\b/g, "CORP"],
+  [/\bCOMPANY\b/g, "CO"],
+  [/\bLIMITED\b/g, "LTD"],
+  [/\bNATIONAL ASSOCIATION\b/g, "NA"],
+  [/\bN A\b/g, "NA"],
+];
+
+const LEGAL_SUFFIXES = new Set(["LLC", "PLLC", "INC", "CORP", "CO", "LP", "LLP", "LTD", "NA"]);
+
+const STREET_WORDS: Record<string, string> = {
+  STREET: "ST",
+  AVENUE: "AVE",
+  ROAD: "RD",
+  BOULEVARD: "BLVD",
+  PLACE: "PL",
+  DRIVE: "DR",
+  LANE: "LN",
+  COURT: "CT",
+  PARKWAY: "PKWY",
+  TERRACE: "TER",
+  EAST: "E",
+  WEST: "W",
+  NORTH: "N",
+  SOUTH: "S",
+  SUITE: "STE",
+  FLOOR: "FL",
+  APARTMENT: "APT",
+};
+
+const HPD_OWNER_TYPES = new Set(["CorporateOwner", "IndividualOwner", "JointOwner"]);
+const HPD_SIGNATORY_TYPES = new Set(["HeadOfficer", "Officer", "Shareholder", "IndividualOwner", "JointOwner"]);
+
+/** Uppercase, punctuation-free spelling with legal suffixes and street words abbreviated. */
+export function normalizePartyName(raw: string): string {
+  let name = raw
+    .toUpperCase()
+    .replace(/&/g, " AND ")
+    .replace(/[.']/g, "")
+    .replace(/[^A-Z0-9 ]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+  for (const [pattern, replacement] of LEGAL_SPELLINGS) name = name.replace(pattern, replacement);
+  return name
+    .split(" ")
+    .map((word) => STREET_WORDS[word] || word)
+    .join(" ")
+    .replace(/^THE /, "");
+}
+
+export function classifyOwner(normalized: string): OwnerEntityType {
+  if (/\b(CITY OF NEW YORK|STATE OF NEW YORK|UNITED STATES|HOUSING AUTHORITY|DEPARTMENT OF|NYC)\b/.test(normalized)) {
+    return "government";
+  }
+  if (/\b(BANK|BANCORP|SAVINGS|CREDIT UNION|MORTGAGE|LENDING|FSB|NA)\b/.test(normalized)) return "bank";
+  if (/\b(TRUST|TRUSTEE|TRUSTEES|ESTATE OF)\b/.test(normalized)) return "trust";
+  if (/\b(LLC|PLLC)\b/.test(normalized)) return "llc";
+  if (/\b(LP|LLP|PARTNERS|PARTNERSHIP)\b/.test(normalized)) return "partnership";
+  if (
+    /\b(INC|CORP|CO|LTD|HOLDINGS|REALTY|PROPERTIES|ASSOCIATES|GROUP|MANAGEMENT|DEVELOPMENT|ENTERPRISES|FUND)\b/.test(normalized) ||
+    /\d/.test(normalized)
+  ) {
+    return "corporation";
+  }
+  const words = normalized.split(" ").length;
+  return words >= 2 && words <= 5 ? "individual" : "other";
+}
+
+/**
+ * Key that spelling variants of one owner share: organizations without their
+ * trailing legal suffix, individuals as their sorted name tokens with
+ * initials dropped ("SMITH, JOHN A" and "JOHN SMITH").
+ */
+export function ownerClusterKey(normalized: string, entityType: OwnerEntityType): string {
+  const words = normalized.split(" ").filter(Boolean);
+  if (entityType === "individual") {
+    const tokens = words.filter((w) => w.length > 1).sort();
+    return tokens.length > 0 ? tokens.join(" ") : normalized;
+  }
+  while (words.length > 1 && LEGAL_SUFFIXES.has(words[words.length - 1])) words.pop();
+  return words.join(" ");
+}
+
+function entityIdFor(clusterKey: string): string {
+  return `owner-${createHash("sha1").update(clusterKey).digest("hex").slice(0, 16)}`;
+}
+
+function keyForName(raw: string): { key: string; entityType: OwnerEntityType } | null {
+  const normalized = normalizePartyName(raw);
+  if (!normalized) return null;
+  const entityType = classifyOwner(normalized);
+  return { key: ownerClusterKey(normalized, entityType), entityType };
+}
+
+// Every party name on every transaction, one row per name and role
+const TRANSACTION_PARTY_NAMES = sql.raw(`
+  SELECT pt.id, pt.property_id, pt.bbl, pt.transaction_date, pt.amount, r.role, TRIM(n.name) AS name
+  FROM property_transactions pt
+  CROSS JOIN LATERAL (VALUES ('buyer', pt.buyer_name), ('seller', pt.seller_name), ('lender', pt.lender_name)) AS r(role, names)
+  CROSS JOIN LATERAL unnest(string_to_array(r.names, ';')) AS n(name)
+  WHERE TRIM(n.name) <> ''
+`);
+
+/**
+ * Copies ACRIS party names onto property_transactions by document id.
+ * Several parties on one side are joined with "; ". Returns the number of
+ * transactions updated.
+ */
+export async function linkTransactionParties(): Promise<number> {
+  console.log("\n🔗 Linking ACRIS parties to transactions...");
+  const result = await db.execute(sql`
+    UPDATE property_transactions pt SET
+      buyer_name = CASE WHEN pt.transaction_type = 'sale' THEN p.grantees ELSE pt.buyer_name END,
+      seller_name = CASE WHEN pt.transaction_type = 'sale' THEN p.grantors ELSE pt.seller_name END,
+      lender_name = CASE WHEN pt.transaction_type IN ('mortgage', 'assignment') THEN p.grantees ELSE pt.lender_name END
+    FROM (
+      SELECT document_id,
+        string_agg(DISTINCT REPLACE(party_name, ';', ','), '; ') FILTER (WHERE party_type = 'grantee') AS grantees,
+        string_agg(DISTINCT REPLACE(party_name, ';', ','), '; ') FILTER (WHERE party_type = 'grantor') AS grantors
+      FROM acris_raw
+      WHERE record_type = 'PARTY' AND party_name IS NOT NULL
+      GROUP BY document_id
+    ) p
+    WHERE pt.document_id = p.document_id
+      AND pt.transaction_type IN ('sale', 'mortgage', 'assignment')
+  `);
+  const linked = result.rowCount ?? 0;
+  console.log(`✅ Linked parties on ${linked.toLocaleString()} transactions`);
+  return linked;
+}
+
+class UnionFind {
+  private parent = new Map<string, string>();
+
+  find(id: string): string {
+    let root = id;
+    while (this.parent.has(root) && this.parent.get(root) !== root) root = this.parent.get(root)!;
+    // Path compression
+    let node = id;
+    while (node !== root) {
+      const next = this.parent.get(node)!;
+      this.parent.set(node, root);
+      node = next;
+    }
+    return root;
+  }
+
+  union(a: string, b: string): void {
+    const rootA = this.find(a);
+    const rootB = this.find(b);
+    if (rootA === rootB) return;
+    // The smaller id becomes the root, so group ids are stable across rebuilds
+    if (rootA < rootB) this.parent.set(rootB, rootA);
+    else this.parent.set(rootA, rootB);
+  }
+}
+
+function addToList(map: Map<string, string[]>, key: string, value: string): void {
+  const list = map.get(key) || [];
+  if (list.length < MAX_LISTED && !list.includes(value)) list.push(value);
+  map.set(key, list);
+}
+
+/**
+ * Linked entity pairs from groups of entities sharing one piece of evidence.
+ * Address links need an organization on at least one side, so unrelated
+ * condo buyers giving the building as their address aren't linked.
+ */
+function collectLinks(
+  links: Map<string, { entityId: string; linkedEntityId: string; linkType: OwnerLinkType; evidence: string }>,
+  entityIds: string[],
+  linkType: OwnerLinkType,
+  evidence: string,
+  entityTypes: Map<string, OwnerEntityType>
+): void {
+  for (let i = 0; i < entityIds.length; i++) {
+    for (let j = i + 1; j < entityIds.length; j++) {
+      const [a, b] = [entityIds[i], entityIds[j]];
+      if (linkType === "shared_address" && entityTypes.get(a) === "individual" && entityTypes.get(b) === "individual") continue;
+      for (const [from, to] of [[a, b], [b, a]]) {
+        const key = `${from}|${to}|${linkType}`;
+        if (!links.has(key)) links.set(key, { entityId: from, linkedEntityId: to, linkType, evidence });
+      }
+    }
+  }
+}
+
+/**
+ * Rebuilds owner entities, aliases, links and per-transaction parties from
+ * the party names on property_transactions. Run linkTransactionParties()
+ * first.
+ */
+export async function buildOwnershipGraph() {
+  console.log("\n🕸️  Building ownership graph...");
+
+  const names = await db.execute(sql`
+    SELECT name, COUNT(*)::int AS occurrences
+    FROM (${TRANSACTION_PARTY_NAMES}) parties
+    GROUP BY name
+  `);
+  const nameRows = names.rows as Array<{ name: string; occurrences: number }>;
+
+  // Cluster the raw names; the most frequent spelling names the entity
+  const clusters = new Map<string, { entityType: OwnerEntityType; aliases: Array<{ rawName: string; occurrences: number }> }>();
+  for (const row of nameRows) {
+    const keyed = keyForName(row.name);
+    if (!keyed) continue;
+    const cluster = clusters.get(keyed.key) || { entityType: keyed.entityType, aliases: [] };
+    cluster.aliases.push({ rawName: row.name, occurrences: Number(row.occurrences) });
+    clusters.set(keyed.key, cluster);
+  }
+
+  const entities: InsertOwnerEntity[] = [];
+  const aliases: Array<{ rawName: string; entityId: string; occurrences: number }> = [];
+  const entityByKey = new Map<string, string>();
+  const entityTypes = new Map<string, OwnerEntityType>();
+  for (const [clusterKey, cluster] of Array.from(clusters.entries())) {
+    cluster.aliases.sort((a, b) => b.occurrences - a.occurrences);
+    const top = cluster.aliases[0];
+    const id = entityIdFor(clusterKey);
+    const entityType = classifyOwner(normalizePartyName(top.rawName));
+    entities.push({ id, name: top.rawName, clusterKey, entityType });
+    entityByKey.set(clusterKey, id);
+    entityTypes.set(id, entityType);
+    for (const alias of cluster.aliases) aliases.push({ ...alias, entityId: id });
+  }
+  console.log(`  ${nameRows.length.toLocaleString()} party names → ${entities.length.toLocaleString()} owner entities`);
+
+  await db.execute(sql`TRUNCATE owner_links, ownership_parties, owner_aliases, owner_entities`);
+  for (let i = 0; i < entities.length; i += INSERT_BATCH) {
+    await db.insert(ownerEntities).values(entities.slice(i, i + INSERT_BATCH));
+  }
+  for (let i = 0; i < aliases.length; i += INSERT_BATCH * 5) {
+    await db.insert(ownerAliases).values(aliases.slice(i, i + INSERT_BATCH * 5));
+  }
+
+  const parties = await db.execute(sql`
+    INSERT INTO ownership_parties (entity_id, transaction_id, property_id, bbl, role, transaction_date, amount)
+    SELECT DISTINCT ON (a.entity_id, p.id, p.role)
+      a.entity_id, p.id, p.property_id, p.bbl, p.role, p.transaction_date, p.amount
+    FROM (${TRANSACTION_PARTY_NAMES}) p
+    JOIN owner_aliases a ON a.raw_name = p.name
+  `);
+  await db.execute(sql`
+    UPDATE ownership_parties op SET is_current_owner = true
+    FROM (
+      SELECT DISTINCT ON (bbl) id
+      FROM property_transactions
+      WHERE transaction_type = 'sale' AND buyer_name IS NOT NULL
+      ORDER BY bbl, transaction_date DESC
+    ) latest
+    WHERE op.transaction_id = latest.id AND op.role = 'buyer'
+  `);
+  console.log(`  ${(parties.rowCount ?? 0).toLocaleString()} transaction parties`);
+
+  const links = new Map<string, { entityId: string; linkedEntityId: string; linkType: OwnerLinkType; evidence: string }>();
+  const mailingAddresses = new Map<string, string[]>();
+  const signatories = new Map<string, string[]>();
+
+  // Mailing addresses given on deeds, by either side
+  const addressRows = await db.execute(sql`
+    SELECT DISTINCT a.entity_id, ar.party_address, ar.zip_code
+    FROM acris_raw ar
+    JOIN acris_raw m ON m.document_id = ar.document_id AND m.record_type = 'MASTER' AND m.doc_type IN ('DEED', 'DEEDO')
+    JOIN owner_aliases a ON a.raw_name = ar.party_name
+    WHERE ar.record_type = 'PARTY' AND ar.party_address IS NOT NULL
+  `);
+  const entitiesByAddress = new Map<string, Set<string>>();
+  for (const row of addressRows.rows as Array<{ entity_id: string; party_address: string; zip_code: string | null }>) {
+    const street = normalizePartyName(row.party_address);
+    if (!/\d/.test(street)) continue; // "C/O" lines and bare names
+    const address = row.zip_code ? `${street} ${row.zip_code.slice(0, 5)}` : street;
+    const set = entitiesByAddress.get(address) || new Set<string>();
+    set.add(row.entity_id);
+    entitiesByAddress.set(address, set);
+    addToList(mailingAddresses, row.entity_id, address);
+  }
+  for (const [address, ids] of Array.from(entitiesByAddress.entries())) {
+    if (ids.size < 2 || ids.size > MAX_ENTITIES_PER_ADDRESS) continue;
+    collectLinks(links, Array.from(ids), "shared_address", address, entityTypes);
+  }
+
+  // Officers, shareholders and individual owners named on the HPD
+  // registrations of corporate owners
+  const contactRows = await db.execute(sql`
+    SELECT registration_id, contact_type, corporation_name, first_name, last_name
+    FROM hpd_contacts_raw
+    WHERE registration_id IS NOT NULL
+  `);
+  const registrations = new Map<string, { owners: Set<string>; people: Set<string> }>();
+  for (const row of contactRows.rows as Array<{
+    registration_id: string;
+    contact_type: string | null;
+    corporation_name: string | null;
+    first_name: string | null;
+    last_name: string | null;
+  }>) {
+    const registration = registrations.get(row.registration_id) || { owners: new Set<string>(), people: new Set<string>() };
+    registrations.set(row.registration_id, registration);
+    if (row.contact_type && HPD_OWNER_TYPES.has(row.contact_type) && row.corporation_name) {
+      const keyed = keyForName(row.corporation_name);
+      const entityId = keyed && entityByKey.get(keyed.key);
+      if (entityId) registration.owners.add(entityId);
+    }
+    if (row.contact_type && HPD_SIGNATORY_TYPES.has(row.contact_type) && row.first_name && row.last_name) {
+      const person = normalizePartyName(`${row.first_name} ${row.last_name}`);
+      if (person) registration.people.add(person);
+    }
+  }
+  const entitiesBySignatory = new Map<string, Set<string>>();
+  const signatoryNames = new Map<string, string>();
+  for (const { owners, people } of Array.from(registrations.values())) {
+    for (const person of Array.from(people)) {
+      const key = ownerClusterKey(person, "individual");
+      const set = entitiesBySignatory.get(key) || new Set<string>();
+      for (const owner of Array.from(owners)) set.add(owner);
+      // A signatory who also buys in their own name joins their companies
+      const ownEntity = entityByKey.get(key);
+      if (ownEntity && owners.size > 0) set.add(ownEntity);
+      entitiesBySignatory.set(key, set);
+      signatoryNames.set(key, person);
+    }
+  }
+  for (const [key, ids] of Array.from(entitiesBySignatory.entries())) {
+    if (ids.size > MAX_ENTITIES_PER_SIGNATORY) continue;
+    const person = signatoryNames.get(key)!;
+    for (const id of Array.from(ids)) {
+      if (entityTypes.get(id) !== "individual") addToList(signatories, id, person);
+    }
+    if (ids.size >= 2) collectLinks(links, Array.from(ids), "shared_signatory", person, entityTypes);
+  }
+
+  const linkValues = Array.from(links.values());
+  for (let i = 0; i < linkValues.length; i += INSERT_BATCH) {
+    await db.insert(ownerLinks).values(linkValues.slice(i, i + INSERT_BATCH)).onConflictDoNothing();
+  }
+
+  // Groups are the connected components of the link graph
+  const groups = new UnionFind();
+  for (const link of linkValues) groups.union(link.entityId, link.linkedEntityId);
+  const linkedIds = new Set(linkValues.map((l) => l.entityId));
+  const touched = new Set([...Array.from(linkedIds), ...Array.from(mailingAddresses.keys()), ...Array.from(signatories.keys())]);
+  const groupIds = new Set<string>();
+  const updates: SQL[] = [];
+  for (const id of Array.from(touched)) {
+    const groupId = linkedIds.has(id) ? groups.find(id) : null;
+    if (groupId) groupIds.add(groupId);
+    updates.push(sql`(
+      ${id}::varchar, ${groupId}::varchar,
+      string_to_array(${(mailingAddresses.get(id) || []).join("|")}::text, '|'),
+      string_to_array(${(signatories.get(id) || []).join("|")}::text, '|')
+    )`);
+  }
+  for (let i = 0; i < updates.length; i += UPDATE_BATCH) {
+    await db.execute(sql`
+      UPDATE owner_entities SET
+        group_id = v.group_id,
+        mailing_addresses = v.addresses,
+        signatories = v.signatories
+      FROM (VALUES ${sql.join(updates.slice(i, i + UPDATE_BATCH), sql`, `)})
+        AS v(id, group_id, addresses, signatories)
+      WHERE owner_entities.id = v.id
+    `);
+  }
+
+  await db.execute(sql`
+    UPDATE owner_entities e SET
+      property_count = s.property_count,
+      acquisition_count = s.acquisition_count,
+      first_acquisition_date = s.first_acquisition,
+      last_acquisition_date = s.last_acquisition,
+      updated_at = NOW()
+    FROM (
+      SELECT entity_id,
+        COUNT(DISTINCT bbl) FILTER (WHERE is_current_owner)::int AS property_count,
+        COUNT(*) FILTER (WHERE role = 'buyer')::int AS acquisition_count,
+        MIN(transaction_date) FILTER (WHERE role = 'buyer') AS first_acquisition,
+        MAX(transaction_date) FILTER (WHERE role = 'buyer') AS last_acquisition
+      FROM ownership_parties
+      GROUP BY entity_id
+    ) s
+    WHERE e.id = s.entity_id
+  `);
+
+  console.log(`  ${(linkValues.length / 2).toLocaleString()} entity links in ${groupIds.size.toLocaleString()} groups`);
+  console.log("✅ Ownership graph built");
+  return {
+    rowsRead: nameRows.length,
+    rowsWritten: entities.length,
+    metadata: {
+      aliases: aliases.length,
+      parties: parties.rowCount ?? 0,
+      links: linkValues.length / 2,
+      groups: groupIds.size,
+    },
+  };
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/** Portfolio, links, acquisition cadence and lenders of one owner entity. */
+export async function getOwnerProfile(entityId: string): Promise<OwnerProfile | undefined> {
+  const [entity] = await db.select().from(ownerEntities).where(eq(ownerEntities.id, entityId));
+  if (!entity) return undefined;
+
+  const [aliasRows, holdingRows, linkRows, acquisitionRows, lenderRows, groupRows] = await Promise.all([
+    db.execute(sql`
+      SELECT raw_name, occurrences FROM owner_aliases
+      WHERE entity_id = ${entityId}
+      ORDER BY occurrences DESC LIMIT 10
+    `),
+    db.execute(sql`
+      SELECT op.property_id, op.bbl, op.transaction_date, op.amount, p.address, p.city, p.zip_code
+      FROM ownership_parties op
+      LEFT JOIN properties p ON p.id = op.property_id
+      WHERE op.entity_id = ${entityId} AND op.is_current_owner
+      ORDER BY op.transaction_date DESC
+      LIMIT 100
+    `),
+    db.execute(sql`
+      SELECT e.id, e.name, e.entity_type, e.property_count, l.link_type, l.evidence
+      FROM owner_links l
+      JOIN owner_entities e ON e.id = l.linked_entity_id
+      WHERE l.entity_id = ${entityId}
+      ORDER BY e.property_count DESC NULLS LAST, e.name
+      LIMIT 50
+    `),
+    db.execute(sql`
+      SELECT DISTINCT bbl, transaction_date FROM ownership_parties
+      WHERE entity_id = ${entityId} AND role = 'buyer'
+      ORDER BY transaction_date
+    `),
+    // Mortgages recorded against a lot on or after the entity bought it
+    db.execute(sql`
+      SELECT e.id, e.name, COUNT(*)::int AS loan_count, SUM(l.amount) AS total_amount, MAX(l.transaction_date) AS last_loan_date
+      FROM (
+        SELECT DISTINCT ON (l.transaction_id) l.transaction_id, l.entity_id, l.amount, l.transaction_date
+        FROM ownership_parties b
+        JOIN ownership_parties l ON l.bbl = b.bbl AND l.role = 'lender' AND l.transaction_date >= b.transaction_date
+        WHERE b.entity_id = ${entityId} AND b.role = 'buyer'
+      ) l
+      JOIN owner_entities e ON e.id = l.entity_id
+      GROUP BY e.id, e.name
+      ORDER BY loan_count DESC, last_loan_date DESC
+      LIMIT 10
+    `),
+    entity.groupId
+      ? db.execute(sql`
+          SELECT COUNT(*)::int AS entity_count, COALESCE(SUM(property_count), 0)::int AS property_count
+          FROM owner_entities WHERE group_id = ${entity.groupId}
+        `)
+      : Promise.resolve(null),
+  ]);
+
+  const acquisitions = (acquisitionRows.rows as Array<{ transaction_date: string }>).map((r) => new Date(r.transaction_date));
+  const byYear = new Map<number, number>();
+  for (const date of acquisitions) byYear.set(date.getFullYear(), (byYear.get(date.getFullYear()) || 0) + 1);
+  // Same-day closings count once when measuring the gaps between purchases
+  const days = Array.from(new Set(acquisitions.map((d) => Math.floor(d.getTime() / 86_400_000))));
+  const gaps = days.slice(1).map((day, i) => (day - days[i]) / 30.44);
+  const gap = median(gaps);
+  const yearAgo = Date.now() - 365 * 86_400_000;
+  const group = groupRows?.rows[0] as { entity_count: number; property_count: number } | undefined;
+
+  return {
+    entity,
+    aliases: (aliasRows.rows as Array<{ raw_name: string; occurrences: number }>).map((r) => ({
+      rawName: r.raw_name,
+      occurrences: Number(r.occurrences),
+    })),
+    holdings: (holdingRows.rows as any[]).map((r) => ({
+      propertyId: r.property_id,
+      bbl: r.bbl,
+      address: r.address,
+      city: r.city,
+      zipCode: r.zip_code,
+      acquiredAt: new Date(r.transaction_date),
+      price: r.amount === null ? null : Number(r.amount),
+    })),
+    linkedEntities: (linkRows.rows as any[]).map((r) => ({
+      id: r.id,
+      name: r.name,
+      entityType: r.entity_type,
+      propertyCount: Number(r.property_count) || 0,
+      linkType: r.link_type as OwnerLinkType,
+      evidence: r.evidence,
+    })),
+    group:
+      entity.groupId && group
+        ? { id: entity.groupId, entityCount: Number(group.entity_count), propertyCount: Number(group.property_count) }
+        : null,
+    acquisitionsByYear: Array.from(byYear.entries())
+      .map(([year, count]) => ({ year, count }))
+      .sort((a, b) => a.year - b.year),
+    cadence: {
+      medianMonthsBetween: gap === null ? null : Math.round(gap * 10) / 10,
+      last12Months: acquisitions.filter((d) => d.getTime() >= yearAgo).length,
+      lastAcquisitionDate: acquisitions.length > 0 ? acquisitions[acquisitions.length - 1] : null,
+    },
+    lenders: (lenderRows.rows as any[]).map((r) => ({
+      id: r.id,
+      name: r.name,
+      loanCount: Number(r.loan_count),
+      totalAmount: r.total_amount === null ? null : Number(r.total_amount),
+      lastLoanDate: new Date(r.last_loan_date),
+    })),
+  };
+}
+
+async function profileOfTopOwner(query: SQL): Promise<OwnerProfile | null> {
+  const result = await db.execute(query);
+  const row = result.rows[0] as { entity_id: string } | undefined;
+  if (!row) return null;
+  return (await getOwnerProfile(row.entity_id)) ?? null;
+}
+
+/**
+ * Profile of a property's current owner, the buyer on its latest deed. With
+ * several buyers on the deed, the one with the largest portfolio.
+ */
+export function getPropertyOwnerProfile(propertyId: string): Promise<OwnerProfile | null> {
+  return profileOfTopOwner(sql`
+    SELECT op.entity_id
+    FROM ownership_parties op
+    JOIN owner_entities e ON e.id = op.entity_id
+    WHERE op.is_current_owner
+      AND (op.property_id = ${propertyId} OR op.bbl = (SELECT bbl FROM properties WHERE id = ${propertyId}))
+    ORDER BY e.property_count DESC NULLS LAST
+    LIMIT 1
+  `);
+}
+
+/**
+ * Profile of a building's owner: the entity currently holding the base lot
+ * or, in a condo, the most of its units.
+ */
+export function getBuildingOwnerProfile(baseBbl: string): Promise<OwnerProfile | null> {
+  return profileOfTopOwner(sql`
+    SELECT op.entity_id
+    FROM ownership_parties op
+    WHERE op.is_current_owner
+      AND (op.bbl = ${baseBbl} OR op.bbl IN (SELECT unit_bbl FROM condo_units WHERE base_bbl = ${baseBbl}))
+    GROUP BY op.entity_id
+    ORDER BY COUNT(*) DESC
+    LIMIT 1
+  `);
+}
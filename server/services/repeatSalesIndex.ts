@@ -0,0 +1,288 @@
+import { db } from "../db";
+import { repeatSalesIndex, type InsertRepeatSalesIndex } from "@shared/schema";
+import { sql } from "drizzle-orm";
+import { choleskyFactor, choleskyInverseDiagonal, choleskySolve } from "./linearAlgebra";
+import { neighborhoodKey } from "./neighborhoods";
+
+// Repeat-sales price index.
+//
+// Pairs consecutive arms-length sales of the same unit (unit BBL for condos
+// and co-ops matched by match-transactions.ts, otherwise the property) and
+// estimates a monthly log index per ZIP, neighborhood and NYC borough with the
+// Case-Shiller three-stage weighted repeat-sales method: an initial fit, a
+// regression of squared residuals on holding period, then a refit weighting
+// each pair by its predicted variance. Changes in the monthly growth rate
+// carry a smoothness prior, so thin geographies get a smooth, still-identified
+// index whose standard errors widen where pairs are scarce. Each geography's index
+// is 100 in its first month with a pair.
+
+const START_YEAR = 2010;
+const MIN_SALE_PRICE = 50_000;
+const MAX_SALE_PRICE = 50_000_000;
+// Re-sales inside this window are mostly flips, corrections and non-market
+// transfers rather than appreciation
+const MIN_HOLD_MONTHS = 6;
+// Pairs moving more than ~50% a year usually reflect renovation or a
+// mismatched unit
+const MAX_ANNUAL_LOG_CHANGE = 0.4;
+const MIN_PAIRS = 30;
+// Prior standard deviation of the month-to-month change in the index's
+// monthly growth rate (second difference of the log index)
+const GROWTH_CHANGE_SD = 0.005;
+const STAGE1_VARIANCE = 0.04;
+// Floor on a pair's predicted variance, as a share of the mean squared residual
+const MIN_VARIANCE_SHARE = 0.25;
+const INSERT_BATCH = 1000;
+
+const BOROUGH_NAMES: Record<string, string> = {
+  "1": "Manhattan", "2": "Bronx", "3": "Brooklyn", "4": "Queens", "5": "Staten Island",
+};
+
+interface SalePair {
+  zipCode: string;
+  neighborhoodKey: string | null;
+  neighborhood: string | null;
+  boroughCode: string | null;
+  state: string;
+  from: number; // months since January of START_YEAR
+  to: number;
+  logChange: number;
+}
+
+interface GeoPairs {
+  geoType: string;
+  geoId: string;
+  geoName: string;
+  state: string;
+  pairs: SalePair[];
+}
+
+interface IndexEstimate {
+  firstPeriod: number;
+  logIndex: Float64Array;
+  standardError: Float64Array;
+  pairCounts: Int32Array;
+}
+
+function slug(name: string): string {
+  return name.toLowerCase().replace(/\s+/g, "-");
+}
+
+function periodDate(month: number): string {
+  const year = START_YEAR + Math.floor(month / 12);
+  return `${year}-${String((month % 12) + 1).padStart(2, "0")}-01`;
+}
+
+async function loadPairs(): Promise<SalePair[]> {
+  const result = await db.execute(sql`
+    WITH unit_sales AS (
+      SELECT
+        COALESCE(s.unit_bbl, s.property_id) AS unit_key,
+        s.sale_date,
+        s.sale_price,
+        p.zip_code,
+        ${neighborhoodKey("p")} AS neighborhood_key,
+        p.neighborhood,
+        p.state,
+        CASE WHEN p.state = 'NY' THEN LEFT(COALESCE(s.base_bbl, p.bbl_normalized), 1) END AS borough_code
+      FROM sales s
+      JOIN properties p ON p.id = s.property_id
+      WHERE COALESCE(s.arms_length, true)
+        AND s.sale_price BETWEEN ${MIN_SALE_PRICE} AND ${MAX_SALE_PRICE}
+        AND s.sale_date >= ${`${START_YEAR}-01-01`}::date
+        -- Without a unit BBL a condo or co-op sale can't be told apart from
+        -- other units in the same building
+        AND (s.unit_bbl IS NOT NULL OR p.property_type NOT IN ('Condo', 'Co-op'))
+    ),
+    sequenced AS (
+      SELECT
+        us.*,
+        LAG(us.sale_date) OVER (PARTITION BY us.unit_key ORDER BY us.sale_date) AS prev_date,
+        LAG(us.sale_price) OVER (PARTITION BY us.unit_key ORDER BY us.sale_date) AS prev_price
+      FROM unit_sales us
+    )
+    SELECT
+      zip_code,
+      neighborhood_key,
+      neighborhood,
+      state,
+      borough_code,
+      ((EXTRACT(YEAR FROM prev_date)::int - ${START_YEAR}) * 12 + EXTRACT(MONTH FROM prev_date)::int - 1) AS from_month,
+      ((EXTRACT(YEAR FROM sale_date)::int - ${START_YEAR}) * 12 + EXTRACT(MONTH FROM sale_date)::int - 1) AS to_month,
+      LN(sale_price::float / prev_price) AS log_change
+    FROM sequenced
+    WHERE prev_date IS NOT NULL
+  `);
+
+  const pairs: SalePair[] = [];
+  for (const r of result.rows as any[]) {
+    const from = Number(r.from_month);
+    const to = Number(r.to_month);
+    const logChange = Number(r.log_change);
+    const gap = to - from;
+    if (gap < MIN_HOLD_MONTHS || !isFinite(logChange)) continue;
+    if (Math.abs(logChange) / (gap / 12) > MAX_ANNUAL_LOG_CHANGE) continue;
+    pairs.push({
+      zipCode: r.zip_code,
+      neighborhoodKey: r.neighborhood_key || null,
+      neighborhood: r.neighborhood || null,
+      boroughCode: r.borough_code && BOROUGH_NAMES[r.borough_code] ? r.borough_code : null,
+      state: r.state,
+      from,
+      to,
+      logChange,
+    });
+  }
+  return pairs;
+}
+
+function groupPairs(pairs: SalePair[]): GeoPairs[] {
+  const groups = new Map<string, GeoPairs>();
+  const add = (geoType: string, geoId: string, geoName: string, pair: SalePair) => {
+    const key = `${geoType}:${geoId}:${pair.state}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = { geoType, geoId, geoName, state: pair.state, pairs: [] };
+      groups.set(key, group);
+    }
+    group.pairs.push(pair);
+  };
+  for (const pair of pairs) {
+    if (pair.zipCode) add("zip", pair.zipCode, pair.zipCode, pair);
+    if (pair.neighborhoodKey) add("neighborhood", pair.neighborhoodKey, pair.neighborhood || pair.neighborhoodKey, pair);
+    if (pair.boroughCode) {
+      const name = BOROUGH_NAMES[pair.boroughCode];
+      add("borough", slug(name), name, pair);
+    }
+  }
+  return Array.from(groups.values()).filter((g) => g.pairs.length >= MIN_PAIRS);
+}
+
+/**
+ * Estimates one geography's monthly log index from its repeat-sale pairs.
+ * The first month with a pair is the base (log index 0, no standard error).
+ */
+function estimateIndex(pairs: SalePair[]): IndexEstimate {
+  let firstPeriod = Infinity;
+  let lastPeriod = -Infinity;
+  for (const p of pairs) {
+    firstPeriod = Math.min(firstPeriod, p.from);
+    lastPeriod = Math.max(lastPeriod, p.to);
+  }
+  const periods = lastPeriod - firstPeriod + 1;
+  // Parameter k is the log index of month firstPeriod + k + 1
+  const n = periods - 1;
+  const priorPrecision = 1 / (GROWTH_CHANGE_SD * GROWTH_CHANGE_SD);
+
+  const fit = (weights: (pair: SalePair) => number) => {
+    const a = new Float64Array(n * n);
+    const b = new Float64Array(n);
+    for (const pair of pairs) {
+      const w = weights(pair);
+      const i = pair.from - firstPeriod - 1; // -1 when the pair starts in the base month
+      const j = pair.to - firstPeriod - 1;
+      if (i >= 0) {
+        a[i * n + i] += w;
+        b[i] -= w * pair.logChange;
+      }
+      a[j * n + j] += w;
+      b[j] += w * pair.logChange;
+      if (i >= 0) {
+        a[i * n + j] -= w;
+        a[j * n + i] -= w;
+      }
+    }
+    // Second differences of the log index (month 0 is fixed at 0, so the
+    // first one involves only parameters 0 and 1)
+    for (let t = 2; t < periods; t++) {
+      const terms: Array<[number, number]> = [[t - 1, 1], [t - 2, -2], [t - 3, 1]];
+      for (const [p, cp] of terms) {
+        if (p < 0) continue;
+        for (const [q, cq] of terms) {
+          if (q < 0) continue;
+          a[p * n + q] += priorPrecision * cp * cq;
+        }
+      }
+    }
+    const l = choleskyFactor(a, n);
+    return { beta: choleskySolve(l, b, n), l };
+  };
+  const logIndexAt = (beta: Float64Array, period: number) => (period === firstPeriod ? 0 : beta[period - firstPeriod - 1]);
+  const residual = (beta: Float64Array, pair: SalePair) =>
+    pair.logChange - (logIndexAt(beta, pair.to) - logIndexAt(beta, pair.from));
+
+  // Stage 1: equal weights
+  const stage1 = fit(() => 1 / STAGE1_VARIANCE);
+
+  // Stage 2: squared residual ~ alpha + beta * holding period
+  let sx = 0, sy = 0, sxx = 0, sxy = 0;
+  for (const pair of pairs) {
+    const gap = pair.to - pair.from;
+    const e2 = residual(stage1.beta, pair) ** 2;
+    sx += gap;
+    sy += e2;
+    sxx += gap * gap;
+    sxy += gap * e2;
+  }
+  const count = pairs.length;
+  const meanSq = sy / count;
+  const varGap = sxx - (sx * sx) / count;
+  const slope = varGap > 0 ? Math.max(0, (sxy - (sx * sy) / count) / varGap) : 0;
+  const intercept = meanSq - slope * (sx / count);
+  const floor = Math.max(meanSq * MIN_VARIANCE_SHARE, 1e-6);
+
+  // Stage 3: weight each pair by its predicted variance
+  const stage3 = fit((pair) => 1 / Math.max(intercept + slope * (pair.to - pair.from), floor));
+  const variances = choleskyInverseDiagonal(stage3.l, n);
+
+  const logIndex = new Float64Array(periods);
+  const standardError = new Float64Array(periods);
+  const pairCounts = new Int32Array(periods);
+  for (let k = 0; k < n; k++) {
+    logIndex[k + 1] = stage3.beta[k];
+    standardError[k + 1] = Math.sqrt(variances[k]);
+  }
+  for (const pair of pairs) {
+    pairCounts[pair.from - firstPeriod]++;
+    pairCounts[pair.to - firstPeriod]++;
+  }
+  return { firstPeriod, logIndex, standardError, pairCounts };
+}
+
+/**
+ * Re-estimates the repeat-sales index for every ZIP, neighborhood and NYC
+ * borough with enough pairs and replaces repeat_sales_index. Returns the
+ * number of index rows written.
+ */
+export async function computeRepeatSalesIndex(): Promise<number> {
+  console.log("\n📈 Computing repeat-sales price index...");
+  const pairs = await loadPairs();
+  const groups = groupPairs(pairs);
+  console.log(`  ${pairs.length.toLocaleString()} repeat-sale pairs across ${groups.length} geographies`);
+
+  const rows: InsertRepeatSalesIndex[] = [];
+  for (const group of groups) {
+    const estimate = estimateIndex(group.pairs);
+    for (let k = 0; k < estimate.logIndex.length; k++) {
+      rows.push({
+        geoType: group.geoType,
+        geoId: group.geoId,
+        geoName: group.geoName,
+        state: group.state,
+        period: periodDate(estimate.firstPeriod + k),
+        indexValue: 100 * Math.exp(estimate.logIndex[k]),
+        standardError: estimate.standardError[k],
+        pairCount: estimate.pairCounts[k],
+      });
+    }
+  }
+
+  // The whole history is re-estimated each run, so earlier months revise too
+  await db.delete(repeatSalesIndex);
+  for (let i = 0; i < rows.length; i += INSERT_BATCH) {
+    await db.insert(repeatSalesIndex).values(rows.slice(i, i + INSERT_BATCH));
+  }
+
+  console.log(`✅ Wrote ${rows.length.toLocaleString()} index points`);
+  return rows.length;
+}
@@ -0,0 +1,435 @@
+import { db } from "../db";
+import {
+  properties,
+  scoreBacktests,
+  type MarketAggregate,
+  type ScoreBacktest,
+  type ScoreBacktestReport,
+  type ScoreBacktestRow,
+} from "@shared/schema";
+import { sql, desc, inArray } from "drizzle-orm";
+import { trainPointInTimeAvm } from "./avm";
+import { neighborhoodKey } from "./neighborhoods";
+import { scoreProperty, SCORE_MODEL_VERSION, type ScoreInputs } from "./opportunityScore";
+
+// Opportunity score backtest.
+//
+// Replays the scoring as of a past date using only what was known then: a
+// point-in-time AVM trained on earlier sales supplies the estimated value,
+// and the last sale, ZIP market and ZIP activity come from sales up to that
+// date. Comps and building signals are only stored as of today, so they are
+// left out and mispricing falls back to the ZIP market value, as it does for
+// any property without comps. Each scored property's first sale within the
+// horizon is compared with its as-of AVM value grown by the repeat-sales
+// index for its ZIP (or neighborhood); a score that works earns higher
+// excess returns in higher deciles.
+
+const DEFAULT_HORIZON_MONTHS = 24;
+const DEFAULT_SAMPLE = 100_000;
+const MARKET_WINDOW_MONTHS = 12;
+const MIN_SALE_PRICE = 10_000;
+const MIN_MARKET_SALES = 5;
+const DECILES = 10;
+// Fewest sales with an excess return for a rank correlation or decile spread
+const MIN_CORRELATION_SALES = 30;
+const MIN_DECILE_SALES = 5;
+const BATCH_SIZE = 2000;
+
+interface BacktestOptions {
+  asOf?: Date;
+  horizonMonths?: number;
+  sample?: number;
+  persist?: boolean;
+}
+
+interface BacktestResult {
+  score: number;
+  decile: number;
+  state: string;
+  propertyType: string;
+  sold: boolean;
+  vsAvm: number | null;
+  excessReturn: number | null;
+}
+
+function addMonths(date: Date, months: number): Date {
+  const d = new Date(date);
+  d.setUTCMonth(d.getUTCMonth() + months);
+  return d;
+}
+
+function monthKey(date: Date): string {
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, "0")}`;
+}
+
+function round3(n: number): number {
+  return Math.round(n * 1000) / 1000;
+}
+
+function mean(values: number[]): number | null {
+  return values.length ? values.reduce((a, b) => a + b, 0) / values.length : null;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+// Ranks starting at 1, ties sharing their average rank
+function ranks(values: number[]): number[] {
+  const order = values.map((v, i) => ({ v, i })).sort((a, b) => a.v - b.v);
+  const result = new Array<number>(values.length);
+  for (let start = 0; start < order.length; ) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].v === order[start].v) end++;
+    for (let k = start; k <= end; k++) result[order[k].i] = (start + end) / 2 + 1;
+    start = end + 1;
+  }
+  return result;
+}
+
+function spearman(xs: number[], ys: number[]): number | null {
+  if (xs.length < MIN_CORRELATION_SALES) return null;
+  const rx = ranks(xs);
+  const ry = ranks(ys);
+  const mx = mean(rx)!;
+  const my = mean(ry)!;
+  let cov = 0, vx = 0, vy = 0;
+  for (let i = 0; i < rx.length; i++) {
+    cov += (rx[i] - mx) * (ry[i] - my);
+    vx += (rx[i] - mx) ** 2;
+    vy += (ry[i] - my) ** 2;
+  }
+  return vx > 0 && vy > 0 ? cov / Math.sqrt(vx * vy) : null;
+}
+
+function groupBy<T>(rows: T[], key: (row: T) => string): Map<string, T[]> {
+  const grouped = new Map<string, T[]>();
+  for (const row of rows) {
+    const k = key(row);
+    const list = grouped.get(k) || [];
+    list.push(row);
+    grouped.set(k, list);
+  }
+  return grouped;
+}
+
+function backtestRow(label: string, results: BacktestResult[], segment: boolean): ScoreBacktestRow {
+  const sold = results.filter((r) => r.sold);
+  const withExcess = sold.filter((r) => r.excessReturn !== null);
+  const excess = withExcess.map((r) => r.excessReturn!);
+  const vsAvm = sold.map((r) => r.vsAvm).filter((v): v is number => v !== null);
+  const rounded = (n: number | null) => (n === null ? null : round3(n));
+
+  const row: ScoreBacktestRow = {
+    label,
+    properties: results.length,
+    sold: sold.length,
+    meanScore: Math.round(mean(results.map((r) => r.score))! * 10) / 10,
+    meanVsAvm: rounded(mean(vsAvm)),
+    meanExcessReturn: rounded(mean(excess)),
+    medianExcessReturn: rounded(median(excess)),
+    hitRate: excess.length ? round3(excess.filter((e) => e > 0).length / excess.length) : null,
+  };
+  if (segment) {
+    const decileExcess = (decile: number) => withExcess.filter((r) => r.decile === decile).map((r) => r.excessReturn!);
+    const top = decileExcess(DECILES);
+    const bottom = decileExcess(1);
+    row.decileSpread = top.length >= MIN_DECILE_SALES && bottom.length >= MIN_DECILE_SALES
+      ? round3(mean(top)! - mean(bottom)!)
+      : null;
+    row.rankCorrelation = rounded(spearman(withExcess.map((r) => r.score), excess));
+  }
+  return row;
+}
+
+/**
+ * ZIP market rows built from the sales in the window before asOf, keyed like
+ * the live scoring's: "zip|propertyType" and "zip|" for all types.
+ */
+async function loadMarketsAsOf(asOf: Date): Promise<Map<string, MarketAggregate>> {
+  const since = addMonths(asOf, -MARKET_WINDOW_MONTHS);
+  const result = await db.execute(sql`
+    SELECT p.zip_code,
+      GROUPING(p.property_type) = 1 AS all_types,
+      p.property_type,
+      MIN(p.state) AS state,
+      PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY s.sale_price) AS median_price,
+      PERCENTILE_CONT(0.25) WITHIN GROUP (ORDER BY s.sale_price) AS p25_price,
+      PERCENTILE_CONT(0.75) WITHIN GROUP (ORDER BY s.sale_price) AS p75_price,
+      PERCENTILE_CONT(0.5) WITHIN GROUP (ORDER BY s.sale_price::float / p.sqft) FILTER (WHERE p.sqft > 0) AS median_ppsf,
+      COUNT(*)::int AS sales
+    FROM sales s
+    JOIN properties p ON p.id = s.property_id
+    WHERE COALESCE(s.arms_length, true) = true
+      AND s.sale_price >= ${MIN_SALE_PRICE}
+      AND s.sale_date > ${since.toISOString()}::timestamp
+      AND s.sale_date <= ${asOf.toISOString()}::timestamp
+      AND p.zip_code IS NOT NULL
+    GROUP BY GROUPING SETS ((p.zip_code, p.property_type), (p.zip_code))
+    HAVING COUNT(*) >= ${MIN_MARKET_SALES}
+  `);
+
+  const num = (v: unknown) => (v === null || v === undefined ? null : Number(v));
+  const markets = new Map<string, MarketAggregate>();
+  for (const r of result.rows as any[]) {
+    const propertyType: string | null = r.all_types ? null : r.property_type;
+    const key = `${r.zip_code}|${propertyType ?? ""}`;
+    markets.set(key, {
+      id: `as-of:${key}`,
+      geoType: "zip",
+      geoId: r.zip_code,
+      geoName: r.zip_code,
+      state: r.state,
+      propertyType,
+      bedsBand: null,
+      bathsBand: null,
+      yearBuiltBand: null,
+      sizeBand: null,
+      medianPrice: r.median_price === null ? null : Math.round(Number(r.median_price)),
+      medianPricePerSqft: num(r.median_ppsf),
+      p25Price: r.p25_price === null ? null : Math.round(Number(r.p25_price)),
+      p75Price: r.p75_price === null ? null : Math.round(Number(r.p75_price)),
+      p25PricePerSqft: null,
+      p75PricePerSqft: null,
+      transactionCount: r.sales,
+      turnoverRate: null,
+      volatility: null,
+      trend3m: null,
+      trend6m: null,
+      trend12m: null,
+      computedAt: asOf,
+    });
+  }
+  return markets;
+}
+
+async function loadZipActivityAsOf(asOf: Date): Promise<Map<string, { properties: number; sales12m: number }>> {
+  const since = addMonths(asOf, -MARKET_WINDOW_MONTHS);
+  const result = await db.execute(sql`
+    SELECT p.zip_code, COUNT(DISTINCT p.id)::int AS properties, COUNT(s.id)::int AS sales_12m
+    FROM properties p
+    LEFT JOIN sales s ON s.property_id = p.id
+      AND s.sale_date > ${since.toISOString()}::timestamp
+      AND s.sale_date <= ${asOf.toISOString()}::timestamp
+      AND COALESCE(s.arms_length, true) = true
+    GROUP BY p.zip_code
+  `);
+  const activity = new Map<string, { properties: number; sales12m: number }>();
+  for (const r of result.rows as any[]) {
+    activity.set(r.zip_code, { properties: r.properties, sales12m: r.sales_12m });
+  }
+  return activity;
+}
+
+/**
+ * Repeat-sales index values by "geoType:geoId:state", then by "YYYY-MM".
+ */
+async function loadIndexes(): Promise<Map<string, Map<string, number>>> {
+  const result = await db.execute(sql`
+    SELECT geo_type, geo_id, state, to_char(period, 'YYYY-MM') AS month, index_value
+    FROM repeat_sales_index
+    WHERE geo_type IN ('zip', 'neighborhood')
+  `);
+  const indexes = new Map<string, Map<string, number>>();
+  for (const r of result.rows as any[]) {
+    const key = `${r.geo_type}:${r.geo_id}:${r.state}`;
+    let series = indexes.get(key);
+    if (!series) {
+      series = new Map();
+      indexes.set(key, series);
+    }
+    series.set(r.month, Number(r.index_value));
+  }
+  return indexes;
+}
+
+/**
+ * Scores a deterministic sample of properties as of a past date and reports
+ * how their later sales did by score decile, state and property type. Saves
+ * the report unless persist is false.
+ */
+export async function runScoreBacktest(options: BacktestOptions = {}): Promise<{ backtestId: string | null; report: ScoreBacktestReport }> {
+  const horizonMonths = options.horizonMonths ?? DEFAULT_HORIZON_MONTHS;
+  const asOf = options.asOf ?? addMonths(new Date(), -horizonMonths);
+  const horizonEnd = addMonths(asOf, horizonMonths);
+  const sample = options.sample ?? DEFAULT_SAMPLE;
+  console.log(`\n🧪 Backtesting opportunity scores as of ${asOf.toISOString().slice(0, 10)} over ${horizonMonths} months...`);
+  if (horizonEnd > new Date()) {
+    console.log(`  ⚠️  The horizon runs past today; sales after ${new Date().toISOString().slice(0, 10)} can't be observed yet`);
+  }
+
+  const valueAsOf = await trainPointInTimeAvm(asOf);
+  const markets = await loadMarketsAsOf(asOf);
+  const zipActivity = await loadZipActivityAsOf(asOf);
+  const indexes = await loadIndexes();
+  const startMonth = monthKey(asOf);
+  const indexGrowth = (key: string, saleDate: Date) => {
+    const series = indexes.get(key);
+    const start = series?.get(startMonth);
+    const end = series?.get(monthKey(saleDate));
+    return start && end ? end / start : null;
+  };
+
+  // md5 ordering gives the same sample for the same data on every run
+  const sampled = await db.execute(sql`
+    SELECT id FROM properties
+    WHERE zip_code IS NOT NULL
+      AND (year_built IS NULL OR year_built <= ${asOf.getUTCFullYear()})
+    ORDER BY md5(id)
+    LIMIT ${sample}
+  `);
+  const sampleIds = (sampled.rows as any[]).map((r) => r.id as string);
+  console.log(`  ${sampleIds.length.toLocaleString()} properties sampled, ${markets.size.toLocaleString()} as-of ZIP markets`);
+
+  const scored: Array<Omit<BacktestResult, "decile">> = [];
+  for (let i = 0; i < sampleIds.length; i += BATCH_SIZE) {
+    const ids = sampleIds.slice(i, i + BATCH_SIZE);
+    const batch = await db.execute(sql`
+      SELECT properties.id, properties.zip_code, properties.state, properties.property_type,
+        ${neighborhoodKey("properties")} AS neighborhood_key,
+        properties.sqft, properties.lot_size, properties.beds, properties.baths, properties.year_built,
+        prev.id AS last_sale_id, prev.sale_price AS last_sale_price, prev.sale_date AS last_sale_date,
+        next.sale_price AS next_sale_price, next.sale_date AS next_sale_date
+      FROM properties
+      LEFT JOIN LATERAL (
+        SELECT s.id, s.sale_price, s.sale_date FROM sales s
+        WHERE s.property_id = properties.id
+          AND COALESCE(s.arms_length, true) = true
+          AND s.sale_price >= ${MIN_SALE_PRICE}
+          AND s.sale_date <= ${asOf.toISOString()}::timestamp
+        ORDER BY s.sale_date DESC
+        LIMIT 1
+      ) prev ON true
+      LEFT JOIN LATERAL (
+        SELECT s.sale_price, s.sale_date FROM sales s
+        WHERE s.property_id = properties.id
+          AND COALESCE(s.arms_length, true) = true
+          AND s.sale_price >= ${MIN_SALE_PRICE}
+          AND s.sale_date > ${asOf.toISOString()}::timestamp
+          AND s.sale_date <= ${horizonEnd.toISOString()}::timestamp
+        ORDER BY s.sale_date
+        LIMIT 1
+      ) next ON true
+      WHERE ${inArray(properties.id, ids)}
+    `);
+
+    const num = (v: unknown) => (v === null || v === undefined ? null : Number(v));
+    for (const r of batch.rows as any[]) {
+      const subject = {
+        state: r.state,
+        zipCode: r.zip_code,
+        propertyType: r.property_type,
+        sqft: num(r.sqft),
+        beds: num(r.beds),
+        baths: num(r.baths),
+        yearBuilt: num(r.year_built),
+        lotSize: num(r.lot_size),
+      };
+      const avmValue = valueAsOf(subject);
+      const lastSale = r.last_sale_id
+        ? { id: r.last_sale_id as string, salePrice: Number(r.last_sale_price), saleDate: new Date(r.last_sale_date) }
+        : null;
+      const property: ScoreInputs["property"] = {
+        id: r.id,
+        zipCode: subject.zipCode,
+        propertyType: subject.propertyType,
+        sqft: subject.sqft,
+        lotSize: subject.lotSize,
+        beds: subject.beds,
+        yearBuilt: subject.yearBuilt,
+        estimatedValue: avmValue,
+        lastSalePrice: lastSale?.salePrice ?? null,
+        lastSaleDate: lastSale?.saleDate ?? null,
+        pricePerSqft: subject.sqft ? Math.round(avmValue / subject.sqft) : null,
+      };
+      const { breakdown } = scoreProperty({
+        property,
+        lastSale,
+        comps: [],
+        market: markets.get(`${property.zipCode}|${property.propertyType}`) ?? markets.get(`${property.zipCode}|`) ?? null,
+        zipActivity: zipActivity.get(property.zipCode) ?? null,
+        signals: null,
+        asOf,
+      });
+
+      let vsAvm: number | null = null;
+      let excessReturn: number | null = null;
+      if (r.next_sale_price !== null) {
+        const salePrice = Number(r.next_sale_price);
+        const saleDate = new Date(r.next_sale_date);
+        vsAvm = salePrice / avmValue - 1;
+        const growth =
+          indexGrowth(`zip:${subject.zipCode}:${subject.state}`, saleDate) ??
+          (r.neighborhood_key ? indexGrowth(`neighborhood:${r.neighborhood_key}:${subject.state}`, saleDate) : null);
+        if (growth) excessReturn = salePrice / (avmValue * growth) - 1;
+      }
+      scored.push({
+        score: breakdown.overall,
+        state: subject.state,
+        propertyType: subject.propertyType,
+        sold: r.next_sale_price !== null,
+        vsAvm,
+        excessReturn,
+      });
+    }
+  }
+  if (scored.length === 0) {
+    throw new Error("No properties to backtest");
+  }
+
+  // Deciles by score across the whole sample; ties keep the sample order
+  const results: BacktestResult[] = scored
+    .map((r, i) => ({ r, i }))
+    .sort((a, b) => a.r.score - b.r.score || a.i - b.i)
+    .map(({ r }, rank) => ({ ...r, decile: Math.floor((rank * DECILES) / scored.length) + 1 }));
+
+  const byDecile = Array.from({ length: DECILES }, (_, d) =>
+    backtestRow(String(d + 1), results.filter((r) => r.decile === d + 1), false)
+  );
+  const byState = Array.from(groupBy(results, (r) => r.state))
+    .map(([state, group]) => backtestRow(state, group, true))
+    .sort((a, b) => b.properties - a.properties);
+  const byPropertyType = Array.from(groupBy(results, (r) => r.propertyType))
+    .map(([propertyType, group]) => backtestRow(propertyType, group, true))
+    .sort((a, b) => b.properties - a.properties);
+  const overall = backtestRow("All", results, true);
+  const top = byDecile[DECILES - 1];
+  const bottom = byDecile[0];
+
+  const report: ScoreBacktestReport = {
+    summary: {
+      asOf: asOf.toISOString(),
+      horizonMonths,
+      modelVersion: SCORE_MODEL_VERSION,
+      propertiesScored: results.length,
+      salesObserved: results.filter((r) => r.excessReturn !== null).length,
+      topDecileExcessReturn: top.meanExcessReturn,
+      bottomDecileExcessReturn: bottom.meanExcessReturn,
+      decileSpread: overall.decileSpread ?? null,
+      rankCorrelation: overall.rankCorrelation ?? null,
+      topDecileHitRate: top.hitRate,
+      overallHitRate: overall.hitRate,
+      generatedAt: new Date().toISOString(),
+    },
+    byDecile,
+    byState,
+    byPropertyType,
+  };
+  console.log(`  ${report.summary.salesObserved.toLocaleString()} later sales with an index-adjusted AVM to compare against`);
+  if (options.persist === false) return { backtestId: null, report };
+
+  const [saved] = await db
+    .insert(scoreBacktests)
+    .values({ asOf, horizonMonths, modelVersion: SCORE_MODEL_VERSION, report })
+    .returning({ id: scoreBacktests.id });
+  console.log(`✅ Saved score backtest ${saved.id}`);
+  return { backtestId: saved.id, report };
+}
+
+export async function getLatestScoreBacktest(): Promise<ScoreBacktest | undefined> {
+  const [backtest] = await db.select().from(scoreBacktests).orderBy(desc(scoreBacktests.createdAt)).limit(1);
+  return backtest;
+}
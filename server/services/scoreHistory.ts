@@ -0,0 +1,107 @@
+import { db } from "../db";
+import { storage } from "../storage";
+import { opportunityScoreHistory, sales, type InsertOpportunityScoreHistory } from "@shared/schema";
+import { and, eq, gt, inArray, desc, isNotNull } from "drizzle-orm";
+
+// Opportunity score history.
+//
+// Property scores are recorded by computeOpportunityScores as each batch is
+// scored; unit scores are computed on request by getUnitOpportunityData, so
+// recordUnitScoreHistory() recomputes every unit with a sale and records them
+// in a refresh step. Either way a row is only added when something changed
+// since the subject's latest row.
+
+// Bump when the scoring in getUnitOpportunityData changes
+export const UNIT_SCORE_MODEL_VERSION = "unit-v1";
+
+const UNIT_BATCH_SIZE = 500;
+
+type SubjectType = "property" | "unit";
+
+function sameComponents(a: unknown, b: Record<string, number>): boolean {
+  const prev = (a || {}) as Record<string, number>;
+  const keys = Object.keys(b);
+  return keys.length === Object.keys(prev).length && keys.every((k) => prev[k] === b[k]);
+}
+
+/**
+ * Appends history rows for subjects whose score, components or model version
+ * differ from their latest row. Returns the number of rows added.
+ */
+export async function recordScoreHistory(
+  subjectType: SubjectType,
+  rows: Array<Omit<InsertOpportunityScoreHistory, "subjectType" | "recordedAt"> & { components: Record<string, number> }>,
+  recordedAt: Date = new Date()
+): Promise<number> {
+  if (rows.length === 0) return 0;
+
+  const latest = await db
+    .selectDistinctOn([opportunityScoreHistory.subjectId], {
+      subjectId: opportunityScoreHistory.subjectId,
+      score: opportunityScoreHistory.score,
+      components: opportunityScoreHistory.components,
+      modelVersion: opportunityScoreHistory.modelVersion,
+    })
+    .from(opportunityScoreHistory)
+    .where(
+      and(
+        eq(opportunityScoreHistory.subjectType, subjectType),
+        inArray(opportunityScoreHistory.subjectId, rows.map((r) => r.subjectId))
+      )
+    )
+    .orderBy(opportunityScoreHistory.subjectId, desc(opportunityScoreHistory.recordedAt));
+  const latestBySubject = new Map(latest.map((r) => [r.subjectId, r]));
+
+  const changed = rows.filter((row) => {
+    const prev = latestBySubject.get(row.subjectId);
+    return !prev || prev.score !== row.score || prev.modelVersion !== row.modelVersion || !sameComponents(prev.components, row.components);
+  });
+  if (changed.length === 0) return 0;
+
+  await db.insert(opportunityScoreHistory).values(changed.map((row) => ({ ...row, subjectType, recordedAt })));
+  return changed.length;
+}
+
+/**
+ * Recomputes the score of every condo unit with a recorded sale and records
+ * the ones that moved. Returns the number of history rows added.
+ */
+export async function recordUnitScoreHistory(): Promise<number> {
+  console.log("\n🏢 Recording unit opportunity scores...");
+  const recordedAt = new Date();
+  let lastUnitBbl = "";
+  let units = 0;
+  let recorded = 0;
+
+  while (true) {
+    const batch = await db
+      .selectDistinct({ unitBbl: sales.unitBbl })
+      .from(sales)
+      .where(and(isNotNull(sales.unitBbl), gt(sales.unitBbl, lastUnitBbl)))
+      .orderBy(sales.unitBbl)
+      .limit(UNIT_BATCH_SIZE);
+    if (batch.length === 0) break;
+    lastUnitBbl = batch[batch.length - 1].unitBbl!;
+
+    const rows: Parameters<typeof recordScoreHistory>[1] = [];
+    for (const { unitBbl } of batch) {
+      const data = await storage.getUnitOpportunityData(unitBbl!);
+      if (!data || data.opportunityScore === null || !data.scoreBreakdown) continue;
+      rows.push({
+        subjectId: unitBbl!,
+        score: data.opportunityScore,
+        components: { ...data.scoreBreakdown },
+        modelVersion: UNIT_SCORE_MODEL_VERSION,
+        confidenceLevel: null,
+      });
+    }
+    recorded += await recordScoreHistory("unit", rows, recordedAt);
+    units += batch.length;
+    if (units % 10000 < UNIT_BATCH_SIZE) {
+      console.log(`  Scored ${units.toLocaleString()} units...`);
+    }
+  }
+
+  console.log(`✅ Scored ${units.toLocaleString()} units, ${recorded.toLocaleString()} score changes recorded`);
+  return recorded;
+}
@@ -1,10 +1,13 @@
-import { eq, and, desc, gte, lte, inArray, sql, or, ilike, isNotNull } from "drizzle-orm";
+import { eq, and, desc, gte, lte, inArray, notInArray, sql, or, ilike, isNotNull, isNull, getTableColumns, type SQL } from "drizzle-orm";
 import { db } from "./db";
 import {
   users,
   properties,
   sales,
   marketAggregates,
+  marketAggregateSnapshots,
+  repeatSalesIndex,
+  neighborhoodBoundaries,
   coverageMatrix,
   watchlists,
   watchlistProperties,
@@ -15,9 +18,15 @@ import {
   aiChats,
   apiKeys,
   propertySignalSummary,
+  propertyScores,
+  opportunityScoreHistory,
+  avmValuations,
   savedSearches,
   propertyChanges,
   savedSearchNotifications,
+  scheduledJobRuns,
+  etlRuns,
+  etlRunSteps,
   condoUnits,
   buildings,
   type User,
@@ -27,6 +36,13 @@ import {
   type Sale,
   type InsertSale,
   type MarketAggregate,
+  type MarketAggregateSnapshot,
+  type ScoreHistory,
+  type ScoreHistoryEvent,
+  type RepeatSalesIndex,
+  type RepeatSalesIndexSeries,
+  type NeighborhoodBoundary,
+  type NeighborhoodBoundaryFeature,
   type InsertMarketAggregate,
   type CoverageMatrix,
   type InsertCoverageMatrix,
@@ -47,17 +63,47 @@ import {
   type ApiKey,
   type InsertApiKey,
   type ScreenerFilters,
+  type ScreenerSort,
+  type SortOrder,
+  type ScreenerCursor,
+  type ScreenerPageRequest,
+  type ScreenerPage,
+  type SearchArea,
   type UpAndComingZip,
   type PropertySignalSummary,
   type InsertPropertySignalSummary,
+  type OpportunityScoreBreakdown,
+  type PropertyValuationSummary,
+  type ConfidenceLevel,
+  type AvmValueDriver,
   type SavedSearch,
   type InsertSavedSearch,
   type PropertyChange,
   type InsertPropertyChange,
   type SavedSearchNotification,
   type InsertSavedSearchNotification,
+  type ScheduledJobRun,
+  type InsertScheduledJobRun,
+  type InsertEtlRun,
+  type EtlRunStep,
+  type InsertEtlRunStep,
+  type EtlRunWithSteps,
   type Building,
   type InsertBuilding,
+  type BandRange,
+  type ScreenerFacetKey,
+  type ScreenerFacetCount,
+  type ScreenerFacets,
+  bandRanges,
+  floodRiskLevels,
+  propertyTypes,
+  bedsBands,
+  bathsBands,
+  yearBuiltBands,
+  sizeBands,
+  scoreBands,
+  confidenceLevels,
+  screenerFacetKeys,
 } from "@shared/schema";
 
 export interface IStorage {
@@ -81,8 +127,13 @@ export interface IStorage {
   // Property operations
   getProperty(id: string): Promise<Property | undefined>;
   getPropertyByIdOrSlug(idOrSlug: string): Promise<Property | undefined>;
+  getPropertiesByIds(ids: string[]): Promise<Property[]>;
   getProperties(filters: ScreenerFilters, limit?: number, offset?: number): Promise<Property[]>;
-  getCondoUnitsAsProperties(zipCodes: string[], limit?: number, offset?: number): Promise<Property[]>;
+  countProperties(filters: ScreenerFilters): Promise<number>;
+  getPropertyFacets(filters: ScreenerFilters): Promise<ScreenerFacets>;
+  getMatchingPropertyIds(filters: ScreenerFilters, limit: number): Promise<string[]>;
+  getPropertiesPage(filters: ScreenerFilters, page: ScreenerPageRequest): Promise<ScreenerPage>;
+  getCondoUnitsPage(zipCodes: string[], filters: ScreenerFilters, page: ScreenerPageRequest): Promise<ScreenerPage>;
   getPropertiesByArea(geoType: string, geoId: string, limit?: number): Promise<Property[]>;
   getTopOpportunities(limit?: number): Promise<Property[]>;
   getAllPropertiesForSitemap(): Promise<Pick<Property, 'id' | 'address' | 'city' | 'zipCode'>[]>;
@@ -119,17 +170,14 @@ export interface IStorage {
   
   // Market aggregate operations
   getMarketAggregates(geoType: string, geoId: string, filters?: any): Promise<MarketAggregate[]>;
+  getOverallMarketAggregate(geoType: string, geoId: string): Promise<MarketAggregate | undefined>;
+  getMarketAggregateHistory(geoType: string, geoId: string, filters?: any, months?: number): Promise<MarketAggregateSnapshot[]>;
+  getRepeatSalesIndex(geoType: string, geoId: string, state?: string): Promise<RepeatSalesIndexSeries | null>;
+  getNeighborhoodBoundary(id: string): Promise<NeighborhoodBoundaryFeature | undefined>;
+  getNeighborhoodBoundaries(options: { state?: string; bbox?: [number, number, number, number] }): Promise<NeighborhoodBoundaryFeature[]>;
   getMarketOverview(): Promise<MarketAggregate[]>;
   createMarketAggregate(aggregate: InsertMarketAggregate): Promise<MarketAggregate>;
   
-  // Geo search
-  searchGeo(query: string): Promise<Array<{ type: string; id: string; name: string; state: string }>>;
-  searchUnified(query: string, entityFilter?: "all" | "buildings" | "units"): Promise<{
-    buildings: Array<{ baseBbl: string; displayAddress: string; borough: string | null; unitCount: number }>;
-    units: Array<{ unitBbl: string; baseBbl: string; unitDesignation: string | null; displayAddress: string | null; borough: string | null; slug: string | null }>;
-    locations: Array<{ type: string; id: string; name: string; state: string }>;
-  }>;
-  
   // Coverage matrix operations
   getCoverageMatrix(state?: string): Promise<CoverageMatrix[]>;
   createCoverageMatrix(coverage: InsertCoverageMatrix): Promise<CoverageMatrix>;
@@ -150,6 +198,8 @@ export interface IStorage {
   createAlert(alert: InsertAlert): Promise<Alert>;
   updateAlert(id: string, alert: Partial<InsertAlert>): Promise<Alert | undefined>;
   deleteAlert(id: string, userId: string): Promise<void>;
+  getActiveAlerts(): Promise<Alert[]>;
+  markAlertTriggered(id: string, triggeredAt: Date): Promise<void>;
   
   // Notification operations
   getNotifications(userId: string): Promise<Notification[]>;
@@ -169,11 +219,14 @@ export interface IStorage {
   createAiChat(chat: InsertAiChat): Promise<AiChat>;
   
   // Up and coming ZIP codes
-  getUpAndComingZips(state?: string, limit?: number): Promise<UpAndComingZip[]>;
+  getUpAndComingZips(state?: string, limit?: number, trendSource?: "median" | "repeat_sales"): Promise<UpAndComingZip[]>;
   
   // NYC Deep Coverage - Property Signals
   getPropertySignals(propertyId: string): Promise<PropertySignalSummary | undefined>;
   getPropertySignalsByBbl(bbl: string): Promise<PropertySignalSummary | undefined>;
+  getPropertyScoreBreakdown(propertyId: string): Promise<OpportunityScoreBreakdown | undefined>;
+  getPropertyValuation(propertyId: string): Promise<PropertyValuationSummary | undefined>;
+  getScoreHistory(subjectType: "property" | "unit", subjectId: string): Promise<ScoreHistory | undefined>;
   createOrUpdatePropertySignals(signals: InsertPropertySignalSummary): Promise<PropertySignalSummary>;
   getPropertiesWithDeepCoverage(geoType: string, geoId: string, limit?: number): Promise<(Property & { signals?: PropertySignalSummary })[]>;
   getDeepCoverageCounts(geoType: string, geoId: string): Promise<{ totalProperties: number; withSignals: number }>;
@@ -205,18 +258,36 @@ export interface IStorage {
   updateSavedSearch(id: string, userId: string, data: Partial<InsertSavedSearch>): Promise<SavedSearch | undefined>;
   deleteSavedSearch(id: string, userId: string): Promise<void>;
   getActiveSavedSearchesByFrequency(frequency: string): Promise<SavedSearch[]>;
-  updateSavedSearchMatchCount(id: string, count: number): Promise<void>;
+  updateSavedSearchMatchCount(id: string, count: number, matchedPropertyIds?: string[]): Promise<void>;
   
   // Property Change operations
   createPropertyChange(change: InsertPropertyChange): Promise<PropertyChange>;
-  getUnprocessedChanges(forDigest: boolean, limit?: number): Promise<PropertyChange[]>;
+  createPropertyChanges(changes: InsertPropertyChange[]): Promise<number>;
+  getUnprocessedChangesMatching(filters: ScreenerFilters, forDigest: boolean): Promise<PropertyChange[]>;
   markChangesProcessed(ids: string[], forDigest: boolean): Promise<void>;
+  markUnprocessedChangesBefore(before: Date, forDigest: boolean, keepIds: string[]): Promise<number>;
   getRecentChangesForProperty(propertyId: string, since: Date): Promise<PropertyChange[]>;
+  getChangesForProperties(propertyIds: string[], since: Date): Promise<PropertyChange[]>;
   
   // Saved Search Notification operations
   createSavedSearchNotification(notification: InsertSavedSearchNotification): Promise<SavedSearchNotification>;
   getRecentNotificationsForSearch(searchId: string, limit?: number): Promise<SavedSearchNotification[]>;
   
+  // Scheduled job operations
+  tryAcquireJobLock(jobName: string, owner: string, ttlMs: number): Promise<boolean>;
+  releaseJobLock(jobName: string, owner: string): Promise<void>;
+  createScheduledJobRun(run: InsertScheduledJobRun): Promise<ScheduledJobRun>;
+  finishScheduledJobRun(id: string, data: Partial<InsertScheduledJobRun>): Promise<void>;
+  getLastScheduledJobRun(jobName: string, status?: string): Promise<ScheduledJobRun | undefined>;
+  getScheduledJobRuns(limit?: number): Promise<ScheduledJobRun[]>;
+  
+  // ETL run operations
+  createEtlRun(run: InsertEtlRun, stepNames: string[]): Promise<EtlRunWithSteps>;
+  updateEtlRun(id: string, data: Partial<InsertEtlRun>): Promise<void>;
+  updateEtlRunStep(id: string, data: Partial<InsertEtlRunStep>): Promise<void>;
+  getEtlRun(id: string): Promise<EtlRunWithSteps | undefined>;
+  getEtlRuns(limit?: number, pipeline?: string): Promise<EtlRunWithSteps[]>;
+  
   // Condo Units search
   searchCondoUnits(params: {
     borough?: string;
@@ -454,6 +525,239 @@ export interface IStorage {
   }>>;
 }
 
+function bandRangeCondition(column: unknown, [min, max]: BandRange): SQL | undefined {
+  if (min !== null && max !== null) return sql`(${column} >= ${min} AND ${column} < ${max})`;
+  if (min !== null) return sql`${column} >= ${min}`;
+  if (max !== null) return sql`${column} < ${max}`;
+  return undefined;
+}
+
+// Builds an OR of the numeric ranges behind the selected band labels.
+// `column` may be a table column or a raw SQL expression.
+function bandCondition(column: unknown, bands: string[] | undefined, ranges: Record<string, BandRange>): SQL | undefined {
+  if (!bands || bands.length === 0) return undefined;
+  const parts: SQL[] = [];
+  for (const band of bands) {
+    const range = ranges[band];
+    const condition = range && bandRangeCondition(column, range);
+    if (condition) parts.push(condition);
+  }
+  return parts.length > 0 ? sql`(${sql.join(parts, sql` OR `)})` : undefined;
+}
+
+// The band label a value falls in, NULL when it has no value
+function bandLabel(column: unknown, ranges: Record<string, BandRange>): SQL {
+  const cases: SQL[] = [];
+  for (const [band, range] of Object.entries(ranges)) {
+    const condition = bandRangeCondition(column, range);
+    if (condition) cases.push(sql`WHEN ${condition} THEN ${band}::text`);
+  }
+  return sql`(CASE ${sql.join(cases, sql` `)} END)`;
+}
+
+// Index change (%) from `months` before the last point; series rows are
+// consecutive months
+function indexChange(rows: RepeatSalesIndex[], months: number): number | null {
+  if (rows.length <= months) return null;
+  const latest = rows[rows.length - 1].indexValue;
+  const past = rows[rows.length - 1 - months].indexValue;
+  return past > 0 ? (latest / past - 1) * 100 : null;
+}
+
+// Neighborhood geoIds are boundary ids ("ny-bk0101") for assigned properties
+// and the slugged free-text neighborhood ("cd-108" for "CD 108") otherwise,
+// matching how the aggregate refreshes key them
+function neighborhoodCondition(geoId: string): SQL {
+  return or(
+    eq(properties.neighborhoodId, geoId),
+    and(
+      isNull(properties.neighborhoodId),
+      sql`LOWER(REGEXP_REPLACE(${properties.neighborhood}, '\\s+', '-', 'g')) = ${geoId.toLowerCase()}`
+    )
+  )!;
+}
+
+// City and county geoIds are the slugged name ("jersey-city"), as the
+// aggregate refreshes key them; the plain name ("Jersey City") matches too
+function placeNameCondition(column: typeof properties.city | typeof properties.county, geoId: string): SQL {
+  return sql`LOWER(REGEXP_REPLACE(${column}, '\\s+', '-', 'g')) = ${geoId.toLowerCase().replace(/\s+/g, "-")}`;
+}
+
+function toBoundaryFeature(boundary: NeighborhoodBoundary): NeighborhoodBoundaryFeature {
+  return {
+    type: "Feature",
+    id: boundary.id,
+    properties: {
+      name: boundary.name,
+      state: boundary.state,
+      kind: boundary.kind,
+      parentName: boundary.parentName,
+    },
+    geometry: { type: "MultiPolygon", coordinates: boundary.geometry as number[][][][] },
+  };
+}
+
+// City and ZIP facet values returned, busiest first
+const FACET_VALUE_LIMIT = 25;
+
+const METERS_PER_DEGREE = 111_320;
+
+function searchAreaBounds(area: SearchArea): { minLat: number; maxLat: number; minLng: number; maxLng: number } {
+  if (area.type === "radius") {
+    const dLat = area.radiusMeters / METERS_PER_DEGREE;
+    const dLng = area.radiusMeters / (METERS_PER_DEGREE * Math.cos((area.center.lat * Math.PI) / 180));
+    return {
+      minLat: area.center.lat - dLat,
+      maxLat: area.center.lat + dLat,
+      minLng: area.center.lng - dLng,
+      maxLng: area.center.lng + dLng,
+    };
+  }
+  const lats = area.coordinates.map(([, lat]) => lat);
+  const lngs = area.coordinates.map(([lng]) => lng);
+  return { minLat: Math.min(...lats), maxLat: Math.max(...lats), minLng: Math.min(...lngs), maxLng: Math.max(...lngs) };
+}
+
+// Drawn search area. The bounding box is checked first, on the indexed
+// gridLat/gridLng columns (floor(coord * 1000)) where the table has them
+// (rows whose grid cell was never set fall through to the lat/lng box),
+// then the exact test: the distance on an equirectangular projection for a
+// radius, even-odd ray casting for a polygon.
+function searchAreaCondition(
+  area: SearchArea,
+  cols: { lat: unknown; lng: unknown; gridLat?: unknown; gridLng?: unknown }
+): SQL {
+  const bounds = searchAreaBounds(area);
+  const lat = sql`${cols.lat}::float8`;
+  const lng = sql`${cols.lng}::float8`;
+  const conditions: SQL[] = [];
+  if (cols.gridLat && cols.gridLng) {
+    conditions.push(sql`(
+      (${cols.gridLat} BETWEEN ${Math.floor(bounds.minLat * 1000)} AND ${Math.floor(bounds.maxLat * 1000)}
+        AND ${cols.gridLng} BETWEEN ${Math.floor(bounds.minLng * 1000)} AND ${Math.floor(bounds.maxLng * 1000)})
+      OR ${cols.gridLat} IS NULL OR ${cols.gridLng} IS NULL
+    )`);
+  }
+  conditions.push(
+    sql`${lat} BETWEEN ${bounds.minLat} AND ${bounds.maxLat}`,
+    sql`${lng} BETWEEN ${bounds.minLng} AND ${bounds.maxLng}`
+  );
+
+  if (area.type === "radius") {
+    const metersPerDegreeLng = METERS_PER_DEGREE * Math.cos((area.center.lat * Math.PI) / 180);
+    conditions.push(sql`
+      power((${lat} - ${area.center.lat}) * ${METERS_PER_DEGREE}, 2) +
+      power((${lng} - ${area.center.lng}) * ${metersPerDegreeLng}, 2) <= ${area.radiusMeters ** 2}
+    `);
+  } else {
+    // Horizontal edges never cross the ray, and skipping them keeps the
+    // slope finite
+    const ring = area.coordinates;
+    const crossings: SQL[] = [];
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xi, yi] = ring[i];
+      const [xj, yj] = ring[j];
+      if (yi === yj) continue;
+      const slope = (xj - xi) / (yj - yi);
+      crossings.push(sql`CASE WHEN (${lat} > ${yi}) <> (${lat} > ${yj}) AND ${lng} < ${xi} + ${slope} * (${lat} - ${yi}) THEN 1 ELSE 0 END`);
+    }
+    conditions.push(crossings.length > 0 ? sql`(${sql.join(crossings, sql` + `)}) % 2 = 1` : sql`FALSE`);
+  }
+  return sql`(${sql.join(conditions, sql` AND `)})`;
+}
+
+function hasSignalFilters(filters: ScreenerFilters): boolean {
+  return !!(filters.transitScoreMin || filters.buildingHealthMin || filters.floodRiskMax || filters.distressScoreMin);
+}
+
+// Conditions for the unit-level and signal filters shared by every screener
+// surface (screener, saved searches, external API). Column references are
+// passed in so the same rules apply to the properties table and to raw
+// condo-unit queries.
+function screenerFacetConditions(
+  filters: ScreenerFilters,
+  cols: {
+    beds: unknown;
+    baths: unknown;
+    yearBuilt: unknown;
+    sqft: unknown;
+    transitScore: unknown;
+    buildingHealth: unknown;
+    floodRiskLevel: unknown;
+    distressScore: unknown;
+    lat: unknown;
+    lng: unknown;
+    gridLat?: unknown;
+    gridLng?: unknown;
+  }
+): SQL[] {
+  const conditions: (SQL | undefined)[] = [
+    bandCondition(cols.beds, filters.bedsBands, bandRanges.beds),
+    bandCondition(cols.baths, filters.bathsBands, bandRanges.baths),
+    bandCondition(cols.yearBuilt, filters.yearBuiltBands, bandRanges.yearBuilt),
+    bandCondition(cols.sqft, filters.sizeBands, bandRanges.size),
+  ];
+
+  if (filters.bedsMin !== undefined) conditions.push(sql`${cols.beds} >= ${filters.bedsMin}`);
+  if (filters.bedsMax !== undefined) conditions.push(sql`${cols.beds} <= ${filters.bedsMax}`);
+  if (filters.bathsMin !== undefined) conditions.push(sql`${cols.baths} >= ${filters.bathsMin}`);
+
+  if (filters.transitScoreMin) conditions.push(sql`${cols.transitScore} >= ${filters.transitScoreMin}`);
+  if (filters.buildingHealthMin) conditions.push(sql`${cols.buildingHealth} >= ${filters.buildingHealthMin}`);
+  if (filters.floodRiskMax) {
+    const maxIndex = floodRiskLevels.indexOf(filters.floodRiskMax);
+    if (maxIndex >= 0) {
+      const allowed = floodRiskLevels.slice(0, maxIndex + 1).map((level) => sql`${level}`);
+      conditions.push(sql`${cols.floodRiskLevel} IN (${sql.join(allowed, sql`, `)})`);
+    }
+  }
+  if (filters.distressScoreMin) conditions.push(sql`${cols.distressScore} >= ${filters.distressScoreMin}`);
+  if (filters.area) conditions.push(searchAreaCondition(filters.area, cols));
+
+  return conditions.filter((c): c is SQL => c !== undefined);
+}
+
+interface SortKey {
+  expr: unknown;
+  cast: "int" | "float8" | "timestamp";
+}
+
+// Sort expressions for the properties table and for raw condo-unit queries;
+// the cast is the expression's type, so cursor values compare on the index
+const propertySortKeys: Record<ScreenerSort, SortKey> = {
+  score: { expr: properties.opportunityScore, cast: "int" },
+  price: { expr: properties.estimatedValue, cast: "int" },
+  price_per_sqft: {
+    expr: sql`COALESCE(${properties.pricePerSqft}::float8, ${properties.estimatedValue}::float8 / NULLIF(${properties.sqft}, 0))`,
+    cast: "float8",
+  },
+  last_sale_date: { expr: properties.lastSaleDate, cast: "timestamp" },
+  score_change: { expr: properties.scoreChange, cast: "int" },
+};
+
+const unitSortKeys: Record<ScreenerSort, SortKey> = {
+  score: { expr: sql`p.opportunity_score`, cast: "int" },
+  price: { expr: sql`ls.sale_price`, cast: "int" },
+  price_per_sqft: { expr: sql`CASE WHEN cu.sqft >= 100 THEN ls.sale_price::float8 / cu.sqft END`, cast: "float8" },
+  last_sale_date: { expr: sql`ls.sale_date`, cast: "timestamp" },
+  score_change: { expr: sql`p.score_change`, cast: "int" },
+};
+
+// Rows after the cursor in keysetOrder: past its value, or tied on the value
+// with a greater id. Rows without a value sort last, ordered by id alone.
+function keysetCondition(key: SortKey, id: unknown, cursor: ScreenerCursor): SQL {
+  if (cursor.value === null) return sql`(${key.expr} IS NULL AND ${id} > ${cursor.id})`;
+  const value = sql`${cursor.value}::${sql.raw(key.cast)}`;
+  const past = cursor.order === "desc" ? sql`${key.expr} < ${value}` : sql`${key.expr} > ${value}`;
+  return sql`(${past} OR (${key.expr} = ${value} AND ${id} > ${cursor.id}) OR ${key.expr} IS NULL)`;
+}
+
+function keysetOrder(key: SortKey, id: unknown, order: SortOrder): SQL {
+  return order === "desc"
+    ? sql`${key.expr} DESC NULLS LAST, ${id}`
+    : sql`${key.expr} ASC NULLS LAST, ${id}`;
+}
+
 export class DatabaseStorage implements IStorage {
   // User operations
   async getUser(id: string): Promise<User | undefined> {
@@ -570,8 +874,15 @@ export class DatabaseStorage implements IStorage {
     return property;
   }
 
-  async getProperties(filters: ScreenerFilters, limit = 50, offset = 0): Promise<Property[]> {
-    const conditions = [];
+  async getPropertiesByIds(ids: string[]): Promise<Property[]> {
+    if (ids.length === 0) return [];
+    return await db.select().from(properties).where(inArray(properties.id, ids));
+  }
+
+  // Shared by getProperties and the saved-search count/id queries so a
+  // search's total, its id set and the screener page always agree
+  private propertyScreenerConditions(filters: ScreenerFilters): (SQL | undefined)[] {
+    const conditions: (SQL | undefined)[] = [];
     
     // Always filter out properties with invalid sqft data to prevent unrealistic price/sqft
     // Properties must have valid sqft (>= 100) and reasonable pricePerSqft (>= 50 $/sqft for Tri-State area)
@@ -638,78 +949,308 @@ export class DatabaseStorage implements IStorage {
     if (filters.confidenceLevels && filters.confidenceLevels.length > 0) {
       conditions.push(inArray(properties.confidenceLevel, filters.confidenceLevels));
     }
+    conditions.push(...screenerFacetConditions(filters, {
+      beds: properties.beds,
+      baths: properties.baths,
+      yearBuilt: properties.yearBuilt,
+      sqft: properties.sqft,
+      transitScore: propertySignalSummary.transitScore,
+      buildingHealth: propertySignalSummary.buildingHealthScore,
+      floodRiskLevel: propertySignalSummary.floodRiskLevel,
+      distressScore: propertySignalSummary.distressScore,
+      lat: properties.latitude,
+      lng: properties.longitude,
+      gridLat: properties.gridLat,
+      gridLng: properties.gridLng,
+    }));
+    return conditions;
+  }
 
-    const query = conditions.length > 0
-      ? db.select().from(properties).where(and(...conditions))
-      : db.select().from(properties);
+  async getProperties(filters: ScreenerFilters, limit = 50, offset = 0): Promise<Property[]> {
+    const conditions = this.propertyScreenerConditions(filters);
+    const query = hasSignalFilters(filters)
+      ? db
+          .select(getTableColumns(properties))
+          .from(properties)
+          .innerJoin(propertySignalSummary, eq(properties.id, propertySignalSummary.propertyId))
+          .where(and(...conditions))
+      : db.select().from(properties).where(and(...conditions));
     
     return await query
-      .orderBy(desc(properties.opportunityScore))
+      .orderBy(desc(properties.opportunityScore), properties.id)
       .limit(limit)
       .offset(offset);
   }
 
-  // Returns NYC condo UNITS shaped as Property records, using each unit's
-  // most recent arms-length sale as the price. This avoids the building-shell
-  // problem in the legacy properties table where NYC "condo" rows are whole
-  // buildings (4000-6000 sqft, year_built 1870-1920) instead of real units.
-  async getCondoUnitsAsProperties(zipCodes: string[], limit = 50, offset = 0): Promise<Property[]> {
-    if (!zipCodes || zipCodes.length === 0) return [];
-    const zipList = sql.join(zipCodes.map((z) => sql`${z}`), sql`, `);
+  async getPropertiesPage(filters: ScreenerFilters, page: ScreenerPageRequest): Promise<ScreenerPage> {
+    const key = propertySortKeys[page.sort];
+    const conditions = this.propertyScreenerConditions(filters);
+    if (page.cursor) conditions.push(keysetCondition(key, properties.id, page.cursor));
+    const columns = { ...getTableColumns(properties), sortValue: sql<string | null>`(${key.expr})::text` };
+    const query = hasSignalFilters(filters)
+      ? db
+          .select(columns)
+          .from(properties)
+          .innerJoin(propertySignalSummary, eq(properties.id, propertySignalSummary.propertyId))
+          .where(and(...conditions))
+      : db.select(columns).from(properties).where(and(...conditions));
+
+    const [rows, total] = await Promise.all([
+      query.orderBy(keysetOrder(key, properties.id, page.order)).limit(page.limit + 1),
+      this.countProperties(filters),
+    ]);
+    const last = rows[page.limit - 1];
+    return {
+      items: rows.slice(0, page.limit).map(({ sortValue, ...property }) => property),
+      total,
+      nextCursor: rows.length > page.limit ? { sort: page.sort, order: page.order, value: last.sortValue, id: last.id } : null,
+    };
+  }
+
+  async countProperties(filters: ScreenerFilters): Promise<number> {
+    const conditions = this.propertyScreenerConditions(filters);
+    const query = hasSignalFilters(filters)
+      ? db
+          .select({ count: sql<number>`count(*)::int` })
+          .from(properties)
+          .innerJoin(propertySignalSummary, eq(properties.id, propertySignalSummary.propertyId))
+          .where(and(...conditions))
+      : db.select({ count: sql<number>`count(*)::int` }).from(properties).where(and(...conditions));
+
+    const [result] = await query;
+    return result?.count || 0;
+  }
+
+  // Facet counts in one scan. Rows failing more than one facet's own filter
+  // can't count toward any facet and are dropped; each grouping set then
+  // counts the rows that pass every other facet's filter.
+  async getPropertyFacets(filters: ScreenerFilters): Promise<ScreenerFacets> {
+    const baseConditions = this.propertyScreenerConditions({
+      ...filters,
+      propertyTypes: undefined,
+      bedsBands: undefined,
+      bathsBands: undefined,
+      yearBuiltBands: undefined,
+      sizeBands: undefined,
+      confidenceLevels: undefined,
+      cities: undefined,
+      zipCodes: undefined,
+      opportunityScoreMin: undefined,
+    });
+    const dimensions: Record<ScreenerFacetKey, { value: SQL; condition?: SQL }> = {
+      propertyType: {
+        value: sql`${properties.propertyType}`,
+        condition: filters.propertyTypes?.length ? inArray(properties.propertyType, filters.propertyTypes) : undefined,
+      },
+      beds: { value: bandLabel(properties.beds, bandRanges.beds), condition: bandCondition(properties.beds, filters.bedsBands, bandRanges.beds) },
+      baths: { value: bandLabel(properties.baths, bandRanges.baths), condition: bandCondition(properties.baths, filters.bathsBands, bandRanges.baths) },
+      yearBuilt: {
+        value: bandLabel(properties.yearBuilt, bandRanges.yearBuilt),
+        condition: bandCondition(properties.yearBuilt, filters.yearBuiltBands, bandRanges.yearBuilt),
+      },
+      size: { value: bandLabel(properties.sqft, bandRanges.size), condition: bandCondition(properties.sqft, filters.sizeBands, bandRanges.size) },
+      confidenceLevel: {
+        value: sql`${properties.confidenceLevel}`,
+        condition: filters.confidenceLevels?.length ? inArray(properties.confidenceLevel, filters.confidenceLevels) : undefined,
+      },
+      city: { value: sql`${properties.city}`, condition: filters.cities?.length ? inArray(properties.city, filters.cities) : undefined },
+      zipCode: { value: sql`${properties.zipCode}`, condition: filters.zipCodes?.length ? inArray(properties.zipCode, filters.zipCodes) : undefined },
+      score: {
+        value: bandLabel(properties.opportunityScore, bandRanges.score),
+        condition: filters.opportunityScoreMin ? gte(properties.opportunityScore, filters.opportunityScoreMin) : undefined,
+      },
+    };
+
+    const col = (prefix: string, i: number) => sql.raw(`${prefix}_${i}`);
+    const active = screenerFacetKeys.flatMap((key, i) => (dimensions[key].condition ? [i] : []));
+    const failures = (indexes: number[]) => sql.join(indexes.map((i) => col("f", i)), sql` + `);
+    const columns = [
+      ...screenerFacetKeys.map((key, i) => sql`${dimensions[key].value} AS ${col("d", i)}`),
+      ...active.map((i) => sql`CASE WHEN ${dimensions[screenerFacetKeys[i]].condition} THEN 0 ELSE 1 END AS ${col("f", i)}`),
+    ];
+    const counts = screenerFacetKeys.map((_, i) => {
+      const others = active.filter((j) => j !== i);
+      return others.length > 0
+        ? sql`COUNT(*) FILTER (WHERE ${failures(others)} = 0)::int AS ${col("c", i)}`
+        : sql`COUNT(*)::int AS ${col("c", i)}`;
+    });
+    const signalJoin = hasSignalFilters(filters)
+      ? sql`JOIN ${propertySignalSummary} ON ${propertySignalSummary.propertyId} = ${properties.id}`
+      : sql``;
+
     const result: any = await db.execute(sql`
-      WITH latest_sale AS (
+      SELECT
+        ${sql.join(screenerFacetKeys.map((_, i) => sql`GROUPING(${col("d", i)}) AS ${col("g", i)}, ${col("d", i)}`), sql`, `)},
+        ${sql.join(counts, sql`, `)}
+      FROM (
+        SELECT ${sql.join(columns, sql`, `)}
+        FROM ${properties}
+        ${signalJoin}
+        WHERE ${and(...baseConditions)}
+      ) f
+      ${active.length > 1 ? sql`WHERE ${failures(active)} <= 1` : sql``}
+      GROUP BY GROUPING SETS (${sql.join(screenerFacetKeys.map((_, i) => sql`(${col("d", i)})`), sql`, `)})
+    `);
+
+    const counted = new Map<ScreenerFacetKey, Map<string, number>>(screenerFacetKeys.map((key) => [key, new Map()]));
+    for (const row of result.rows as any[]) {
+      const i = screenerFacetKeys.findIndex((_, j) => Number(row[`g_${j}`]) === 0);
+      if (i < 0 || row[`d_${i}`] === null) continue;
+      counted.get(screenerFacetKeys[i])!.set(String(row[`d_${i}`]), Number(row[`c_${i}`]));
+    }
+
+    // Fixed options come back in their own order, zeros included; cities and
+    // ZIPs are the busiest few plus whatever is selected
+    const fixed = (key: ScreenerFacetKey, options: readonly string[]): ScreenerFacetCount[] => {
+      const values = counted.get(key)!;
+      const extra = Array.from(values.keys()).filter((v) => !options.includes(v));
+      return [...options, ...extra].map((value) => ({ value, count: values.get(value) ?? 0 }));
+    };
+    const top = (key: ScreenerFacetKey, selected: string[] = []): ScreenerFacetCount[] => {
+      const ranked = Array.from(counted.get(key)!, ([value, count]) => ({ value, count }))
+        .filter((f) => f.count > 0)
+        .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+      return ranked.filter((f, i) => i < FACET_VALUE_LIMIT || selected.includes(f.value));
+    };
+    return {
+      propertyType: fixed("propertyType", propertyTypes),
+      beds: fixed("beds", bedsBands),
+      baths: fixed("baths", bathsBands),
+      yearBuilt: fixed("yearBuilt", yearBuiltBands),
+      size: fixed("size", sizeBands),
+      confidenceLevel: fixed("confidenceLevel", confidenceLevels),
+      city: top("city", filters.cities),
+      zipCode: top("zipCode", filters.zipCodes),
+      score: fixed("score", scoreBands),
+    };
+  }
+
+  async getMatchingPropertyIds(filters: ScreenerFilters, limit: number): Promise<string[]> {
+    const conditions = this.propertyScreenerConditions(filters);
+    const query = hasSignalFilters(filters)
+      ? db
+          .select({ id: properties.id })
+          .from(properties)
+          .innerJoin(propertySignalSummary, eq(properties.id, propertySignalSummary.propertyId))
+          .where(and(...conditions))
+      : db.select({ id: properties.id }).from(properties).where(and(...conditions));
+
+    // The id tie-break keeps the capped set stable between runs, so ties
+    // don't swap in and out as fake new/dropped matches
+    const rows = await query.orderBy(desc(properties.opportunityScore), properties.id).limit(limit);
+    return rows.map((r) => r.id);
+  }
+
+  // NYC condo UNITS shaped as Property records, using each unit's most recent
+  // arms-length sale as the price. This avoids the building-shell problem in
+  // the legacy properties table where NYC "condo" rows are whole buildings
+  // (4000-6000 sqft, year_built 1870-1920) instead of real units.
+  async getCondoUnitsPage(zipCodes: string[], filters: ScreenerFilters, page: ScreenerPageRequest): Promise<ScreenerPage> {
+    if ((!zipCodes || zipCodes.length === 0) && !filters.area) return { items: [], total: 0, nextCursor: null };
+    // Units come from the ZIPs when given, otherwise from the drawn area
+    const unitScope = zipCodes && zipCodes.length > 0
+      ? sql`cu.zip_code IN (${sql.join(zipCodes.map((z) => sql`${z}`), sql`, `)})`
+      : searchAreaCondition(filters.area!, { lat: sql`cu.latitude`, lng: sql`cu.longitude` });
+
+    const conditions: SQL[] = [];
+    if (filters.priceMin) conditions.push(sql`ls.sale_price >= ${filters.priceMin}`);
+    if (filters.priceMax) conditions.push(sql`ls.sale_price <= ${filters.priceMax}`);
+    if (filters.opportunityScoreMin) conditions.push(sql`p.opportunity_score >= ${filters.opportunityScoreMin}`);
+    if (filters.confidenceLevels && filters.confidenceLevels.length > 0) {
+      conditions.push(sql`p.confidence_level IN (${sql.join(filters.confidenceLevels.map((c) => sql`${c}`), sql`, `)})`);
+    }
+    conditions.push(...screenerFacetConditions(filters, {
+      beds: sql`cu.beds`,
+      baths: sql`cu.baths`,
+      yearBuilt: sql`p.year_built`,
+      sqft: sql`cu.sqft`,
+      transitScore: sql`pss.transit_score`,
+      buildingHealth: sql`pss.building_health_score`,
+      floodRiskLevel: sql`pss.flood_risk_level`,
+      distressScore: sql`pss.distress_score`,
+      lat: sql`cu.latitude`,
+      lng: sql`cu.longitude`,
+    }));
+
+    const latestSale = sql`
+      latest_sale AS (
         SELECT DISTINCT ON (s.unit_bbl)
           s.unit_bbl, s.sale_price, s.sale_date
         FROM sales s
         JOIN condo_units cu ON cu.unit_bbl = s.unit_bbl
-        WHERE cu.zip_code IN (${zipList})
+        WHERE ${unitScope}
           AND s.unit_bbl IS NOT NULL
           AND s.sale_price >= 100000
           AND s.sale_date >= NOW() - INTERVAL '36 months'
         ORDER BY s.unit_bbl, s.sale_date DESC
       )
-      SELECT
-        cu.unit_bbl                                AS id,
-        cu.unit_bbl                                AS bbl,
-        cu.base_bbl                                AS bbl_normalized,
-        cu.unit_display_address                    AS address,
-        cu.unit_designation                        AS unit,
-        COALESCE(cu.borough, p.city, 'New York')   AS city,
-        'NY'                                       AS state,
-        cu.zip_code                                AS zip_code,
-        p.county                                   AS county,
-        p.neighborhood                             AS neighborhood,
-        cu.latitude                                AS latitude,
-        cu.longitude                               AS longitude,
-        NULL::int                                  AS grid_lat,
-        NULL::int                                  AS grid_lng,
-        'Condo'                                    AS property_type,
-        cu.beds                                    AS beds,
-        cu.baths                                   AS baths,
-        cu.sqft                                    AS sqft,
-        NULL::int                                  AS lot_size,
-        p.year_built                               AS year_built,
-        ls.sale_price                              AS last_sale_price,
-        ls.sale_date                               AS last_sale_date,
-        ls.sale_price                              AS estimated_value,
-        CASE WHEN cu.sqft IS NOT NULL AND cu.sqft >= 100
-             THEN (ls.sale_price::numeric / cu.sqft)::real
-             ELSE NULL
-        END                                        AS price_per_sqft,
-        p.opportunity_score                        AS opportunity_score,
-        p.confidence_level                         AS confidence_level,
-        NULL::text                                 AS image_url,
-        ARRAY['ACRIS','condo_units']::text[]       AS data_sources,
-        cu.created_at                              AS created_at,
-        cu.updated_at                              AS updated_at
+    `;
+    const unitRows = sql`
       FROM latest_sale ls
       JOIN condo_units cu ON cu.unit_bbl = ls.unit_bbl
       LEFT JOIN properties p ON p.id = cu.building_property_id
-      ORDER BY ls.sale_date DESC, p.opportunity_score DESC NULLS LAST
-      LIMIT ${limit} OFFSET ${offset}
-    `);
+      LEFT JOIN property_signal_summary pss ON pss.property_id = p.id
+    `;
+    const whereClause = (c: SQL[]) => (c.length > 0 ? sql`WHERE ${sql.join(c, sql` AND `)}` : sql``);
+
+    // Filters and the cursor are applied before LIMIT so pages stay full
+    const key = unitSortKeys[page.sort];
+    const pageConditions = page.cursor
+      ? [...conditions, keysetCondition(key, sql`cu.unit_bbl`, page.cursor)]
+      : conditions;
+    const [result, countResult]: any[] = await Promise.all([
+      db.execute(sql`
+        WITH ${latestSale}
+        SELECT
+          cu.unit_bbl                                AS id,
+          cu.unit_bbl                                AS bbl,
+          cu.base_bbl                                AS bbl_normalized,
+          cu.unit_display_address                    AS address,
+          cu.unit_designation                        AS unit,
+          COALESCE(cu.borough, p.city, 'New York')   AS city,
+          'NY'                                       AS state,
+          cu.zip_code                                AS zip_code,
+          p.county                                   AS county,
+          p.neighborhood                             AS neighborhood,
+          cu.latitude                                AS latitude,
+          cu.longitude                               AS longitude,
+          NULL::int                                  AS grid_lat,
+          NULL::int                                  AS grid_lng,
+          'Condo'                                    AS property_type,
+          cu.beds                                    AS beds,
+          cu.baths                                   AS baths,
+          cu.sqft                                    AS sqft,
+          NULL::int                                  AS lot_size,
+          p.year_built                               AS year_built,
+          ls.sale_price                              AS last_sale_price,
+          ls.sale_date                               AS last_sale_date,
+          ls.sale_price                              AS estimated_value,
+          CASE WHEN cu.sqft IS NOT NULL AND cu.sqft >= 100
+               THEN (ls.sale_price::numeric / cu.sqft)::real
+               ELSE NULL
+          END                                        AS price_per_sqft,
+          p.opportunity_score                        AS opportunity_score,
+          p.score_change                             AS score_change,
+          p.confidence_level                         AS confidence_level,
+          NULL::text                                 AS image_url,
+          ARRAY['ACRIS','condo_units']::text[]       AS data_sources,
+          cu.created_at                              AS created_at,
+          cu.updated_at                              AS updated_at,
+          (${key.expr})::text                        AS sort_value
+        ${unitRows}
+        ${whereClause(pageConditions)}
+        ORDER BY ${keysetOrder(key, sql`cu.unit_bbl`, page.order)}
+        LIMIT ${page.limit + 1}
+      `),
+      db.execute(sql`
+        WITH ${latestSale}
+        SELECT COUNT(*)::int AS count
+        ${unitRows}
+        ${whereClause(conditions)}
+      `),
+    ]);
     const rows: any[] = result.rows || [];
-    return rows.map((r) => ({
+    const items = rows.slice(0, page.limit).map((r) => ({
       id: r.id,
       bbl: r.bbl,
       bblNormalized: r.bbl_normalized,
@@ -720,6 +1261,7 @@ export class DatabaseStorage implements IStorage {
       zipCode: r.zip_code,
       county: r.county,
       neighborhood: r.neighborhood,
+      neighborhoodId: null,
       latitude: r.latitude,
       longitude: r.longitude,
       gridLat: r.grid_lat,
@@ -735,12 +1277,19 @@ export class DatabaseStorage implements IStorage {
       estimatedValue: r.estimated_value,
       pricePerSqft: r.price_per_sqft,
       opportunityScore: r.opportunity_score,
+      scoreChange: r.score_change,
       confidenceLevel: r.confidence_level,
       imageUrl: r.image_url,
       dataSources: r.data_sources,
       createdAt: r.created_at,
       updatedAt: r.updated_at,
     })) as Property[];
+    const last = rows[page.limit - 1];
+    return {
+      items,
+      total: countResult.rows?.[0]?.count ?? 0,
+      nextCursor: rows.length > page.limit ? { sort: page.sort, order: page.order, value: last.sort_value, id: last.id } : null,
+    };
   }
 
   async getPropertiesByArea(geoType: string, geoId: string, limit = 50): Promise<Property[]> {
@@ -751,13 +1300,16 @@ export class DatabaseStorage implements IStorage {
         condition = eq(properties.zipCode, geoId);
         break;
       case "city":
-        condition = eq(properties.city, geoId);
+        condition = placeNameCondition(properties.city, geoId);
+        break;
+      case "county":
+        condition = placeNameCondition(properties.county, geoId);
         break;
       case "state":
         condition = eq(properties.state, geoId);
         break;
       case "neighborhood":
-        condition = eq(properties.neighborhood, geoId);
+        condition = neighborhoodCondition(geoId);
         break;
       default:
         return [];
@@ -1007,17 +1559,11 @@ export class DatabaseStorage implements IStorage {
     if (geoType === "zip") {
       whereCondition = eq(properties.zipCode, geoId);
     } else if (geoType === "city") {
-      // Properties.city stores titlecase ("Hoboken") but the UI/popular chips
-      // use slugged lowercase ids ("hoboken"). Match case-insensitively.
-      whereCondition = ilike(properties.city, geoId);
+      whereCondition = placeNameCondition(properties.city, geoId);
+    } else if (geoType === "county") {
+      whereCondition = placeNameCondition(properties.county, geoId);
     } else if (geoType === "neighborhood") {
-      // Aggregates store kebab-case ("cd-108") while properties.neighborhood
-      // stores the original CD code with a space ("CD 108"). Try both.
-      const variants = [
-        geoId,
-        geoId.toUpperCase().replace(/-/g, " "),
-      ];
-      whereCondition = inArray(properties.neighborhood, variants);
+      whereCondition = neighborhoodCondition(geoId);
     } else if (geoType === "state") {
       whereCondition = eq(properties.state, geoId);
     } else {
@@ -1173,296 +1719,158 @@ export class DatabaseStorage implements IStorage {
     return [];
   }
 
-  async getMarketOverview(): Promise<MarketAggregate[]> {
-    return await db
+  // The row covering every property in the geography, not one segment of it
+  async getOverallMarketAggregate(geoType: string, geoId: string): Promise<MarketAggregate | undefined> {
+    const [row] = await db
       .select()
       .from(marketAggregates)
-      .where(eq(marketAggregates.geoType, "state"))
-      .orderBy(marketAggregates.state);
-  }
-
-  async createMarketAggregate(aggregate: InsertMarketAggregate): Promise<MarketAggregate> {
-    const [created] = await db.insert(marketAggregates).values(aggregate).returning();
-    return created;
+      .where(
+        and(
+          eq(marketAggregates.geoType, geoType),
+          eq(marketAggregates.geoId, geoId),
+          isNull(marketAggregates.propertyType),
+          isNull(marketAggregates.bedsBand),
+          isNull(marketAggregates.bathsBand),
+          isNull(marketAggregates.yearBuiltBand),
+          isNull(marketAggregates.sizeBand)
+        )
+      )
+      .orderBy(desc(marketAggregates.computedAt))
+      .limit(1);
+    return row;
   }
 
-  // Geo search
-  async searchGeo(query: string): Promise<Array<{ type: string; id: string; name: string; state: string }>> {
-    // Neighborhood name to CD code mapping for common NYC neighborhoods
-    const neighborhoodMappings: Record<string, { code: string; name: string; city: string }> = {
-      "upper east side": { code: "CD 108", name: "Upper East Side", city: "Manhattan" },
-      "upper west side": { code: "CD 107", name: "Upper West Side", city: "Manhattan" },
-      "midtown": { code: "CD 105", name: "Midtown", city: "Manhattan" },
-      "chelsea": { code: "CD 104", name: "Chelsea", city: "Manhattan" },
-      "greenwich village": { code: "CD 102", name: "Greenwich Village", city: "Manhattan" },
-      "soho": { code: "CD 102", name: "SoHo", city: "Manhattan" },
-      "tribeca": { code: "CD 101", name: "Tribeca", city: "Manhattan" },
-      "lower east side": { code: "CD 103", name: "Lower East Side", city: "Manhattan" },
-      "east village": { code: "CD 103", name: "East Village", city: "Manhattan" },
-      "harlem": { code: "CD 110", name: "Harlem", city: "Manhattan" },
-      "east harlem": { code: "CD 111", name: "East Harlem", city: "Manhattan" },
-      "washington heights": { code: "CD 112", name: "Washington Heights", city: "Manhattan" },
-      "williamsburg": { code: "CD 301", name: "Williamsburg", city: "Brooklyn" },
-      "brooklyn heights": { code: "CD 302", name: "Brooklyn Heights", city: "Brooklyn" },
-      "park slope": { code: "CD 306", name: "Park Slope", city: "Brooklyn" },
-      "bed stuy": { code: "CD 303", name: "Bedford-Stuyvesant", city: "Brooklyn" },
-      "bedford stuyvesant": { code: "CD 303", name: "Bedford-Stuyvesant", city: "Brooklyn" },
-      "bushwick": { code: "CD 304", name: "Bushwick", city: "Brooklyn" },
-      "crown heights": { code: "CD 308", name: "Crown Heights", city: "Brooklyn" },
-      "astoria": { code: "CD 401", name: "Astoria", city: "Queens" },
-      "long island city": { code: "CD 402", name: "Long Island City", city: "Queens" },
-      "flushing": { code: "CD 407", name: "Flushing", city: "Queens" },
-      "jamaica": { code: "CD 412", name: "Jamaica", city: "Queens" },
-      "south bronx": { code: "CD 201", name: "South Bronx", city: "Bronx" },
-      "fordham": { code: "CD 205", name: "Fordham", city: "Bronx" },
-      "riverdale": { code: "CD 208", name: "Riverdale", city: "Bronx" },
-    };
-
-    const queryLower = query.toLowerCase();
-    
-    const stateSearchMap: Record<string, { id: string; name: string }> = {
-      "new york": { id: "NY", name: "New York" },
-      "ny": { id: "NY", name: "New York" },
-      "new jersey": { id: "NJ", name: "New Jersey" },
-      "nj": { id: "NJ", name: "New Jersey" },
-      "jersey": { id: "NJ", name: "New Jersey" },
-      "connecticut": { id: "CT", name: "Connecticut" },
-      "ct": { id: "CT", name: "Connecticut" },
-    };
-    const stateMatches: Array<{ type: string; id: string; name: string; state: string }> = [];
-    for (const [key, value] of Object.entries(stateSearchMap)) {
-      if (key.startsWith(queryLower) || queryLower.startsWith(key)) {
-        if (!stateMatches.find(m => m.id === value.id)) {
-          stateMatches.push({ type: "state", id: value.id, name: value.name, state: value.id });
-        }
-      }
-    }
+  async getMarketAggregateHistory(
+    geoType: string,
+    geoId: string,
+    filters?: any,
+    months = 24
+  ): Promise<MarketAggregateSnapshot[]> {
+    const idCondition =
+      geoType === "city" || geoType === "neighborhood"
+        ? ilike(marketAggregateSnapshots.geoId, geoId)
+        : eq(marketAggregateSnapshots.geoId, geoId);
+
+    // One series per segment: an unset (or "all") band means the rows that
+    // aggregate across that band, not every band mixed together.
+    const band = (value: unknown) => (typeof value === "string" && value !== "all" ? value : "");
+    const segmentKey = [
+      band(filters?.propertyType),
+      band(filters?.bedsBand),
+      band(filters?.bathsBand),
+      band(filters?.yearBuiltBand),
+      band(filters?.sizeBand),
+    ].join("|");
+
+    const since = new Date();
+    since.setUTCDate(1);
+    since.setUTCMonth(since.getUTCMonth() - months);
 
-    const neighborhoodMatches: Array<{ type: string; id: string; name: string; state: string }> = [];
-    
-    // Check for neighborhood name matches.
-    // Aggregates are stored with kebab-case ids ("cd-108"), so we slug the
-    // mapping's CD code to the same format the API expects.
-    for (const [key, value] of Object.entries(neighborhoodMappings)) {
-      if (key.includes(queryLower) || queryLower.includes(key.split(" ")[0])) {
-        neighborhoodMatches.push({
-          type: "neighborhood",
-          id: value.code.toLowerCase().replace(/\s+/g, "-"),
-          name: `${value.name}, ${value.city}`,
-          state: "NY",
-        });
-      }
+    const conditions = [
+      eq(marketAggregateSnapshots.geoType, geoType),
+      idCondition,
+      eq(marketAggregateSnapshots.segmentKey, segmentKey),
+      gte(marketAggregateSnapshots.period, since.toISOString().slice(0, 10)),
+    ];
+    if (filters?.state) {
+      conditions.push(eq(marketAggregateSnapshots.state, filters.state));
     }
 
-    const zipMatches = await db
-      .select({
-        id: properties.zipCode,
-        name: properties.zipCode,
-        state: properties.state,
-      })
-      .from(properties)
-      .where(ilike(properties.zipCode, `${query}%`))
-      .groupBy(properties.zipCode, properties.state)
-      .limit(5);
+    return await db
+      .select()
+      .from(marketAggregateSnapshots)
+      .where(and(...conditions))
+      .orderBy(marketAggregateSnapshots.period);
+  }
 
-    const cityMatches = await db
-      .select({
-        id: properties.city,
-        name: properties.city,
-        state: properties.state,
-      })
-      .from(properties)
-      .where(ilike(properties.city, `%${query}%`))
-      .groupBy(properties.city, properties.state)
-      .limit(5);
-
-    return [
-      ...stateMatches,
-      ...neighborhoodMatches.slice(0, 5),
-      ...zipMatches.map((z) => ({ type: "zip", id: z.id, name: z.name, state: z.state })),
-      ...cityMatches.map((c) => ({ type: "city", id: c.id, name: c.name, state: c.state })),
+  async getRepeatSalesIndex(geoType: string, geoId: string, state?: string): Promise<RepeatSalesIndexSeries | null> {
+    const conditions = [
+      eq(repeatSalesIndex.geoType, geoType),
+      geoType === "zip" ? eq(repeatSalesIndex.geoId, geoId) : ilike(repeatSalesIndex.geoId, geoId),
     ];
-  }
+    if (state) conditions.push(eq(repeatSalesIndex.state, state));
 
-  // Smart NYC address parser
-  private parseNYCAddress(query: string): { buildingQuery: string; unitDesignation: string | null } {
-    // Normalize and tokenize
-    let normalized = query.trim().toLowerCase();
-    
-    // Expand directional abbreviations
-    normalized = normalized
-      .replace(/\be\b/gi, "east")
-      .replace(/\bw\b/gi, "west")
-      .replace(/\bn\b/gi, "north")
-      .replace(/\bs\b/gi, "south");
-    
-    // Normalize ordinals (72nd -> 72, 1st -> 1)
-    normalized = normalized.replace(/(\d+)(st|nd|rd|th)\b/gi, "$1");
-    
-    // Normalize street type abbreviations
-    normalized = normalized
-      .replace(/\bave(nue)?\b/gi, "avenue")
-      .replace(/\bblvd\b/gi, "boulevard")
-      .replace(/\bpkwy\b/gi, "parkway")
-      .replace(/\bpl\b/gi, "place")
-      .replace(/\bdr\b/gi, "drive");
-    
-    // Remove "street" word as DB format doesn't always include it
-    normalized = normalized.replace(/\bstreet\b/gi, "");
-    
-    // Tokenize
-    const tokens = normalized.split(/\s+/).filter(t => t.length > 0);
-    
-    if (tokens.length === 0) {
-      return { buildingQuery: query, unitDesignation: null };
-    }
-    
-    // Pattern: [street number] [direction?] [street number/name] [unit?]
-    // Examples: "52 east 72 12b" -> building: "52 east 72", unit: "12b"
-    //           "404 east 76" -> building: "404 east 76", unit: null
-    
-    // Check if first token is a street number
-    const firstIsNumber = /^\d+$/.test(tokens[0]);
-    if (!firstIsNumber) {
-      // Not a typical address, return as-is
-      return { buildingQuery: normalized.replace(/\s+/g, " ").trim(), unitDesignation: null };
-    }
-    
-    // Find where building address ends and unit begins
-    // Heuristics: 
-    // - Unit designations typically: alphanumeric like "12b", "PH2", "3A", or start with letters
-    // - Building addresses: number + direction + street number/name
-    
-    let buildingTokens: string[] = [tokens[0]]; // Start with street number
-    let unitDesignation: string | null = null;
-    
-    for (let i = 1; i < tokens.length; i++) {
-      const token = tokens[i];
-      const isDirection = /^(east|west|north|south)$/.test(token);
-      const isStreetNumber = /^\d+$/.test(token);
-      const isStreetName = /^(avenue|broadway|park|madison|lexington|boulevard|parkway|place|drive)$/.test(token);
-      const isUnitPrefix = /^(apt|unit|ph|phd|penthouse|#)$/i.test(token);
-      const looksLikeUnit = /^([a-z]+\d+|\d+[a-z]+|ph\d*|phd?\d*|[a-z]{1,2})$/i.test(token);
-      
-      // If we see a unit prefix, everything after is the unit
-      if (isUnitPrefix) {
-        unitDesignation = tokens.slice(i + 1).join(" ").toUpperCase() || token.toUpperCase();
-        break;
-      }
-      
-      // If this looks like a unit designation and we already have a reasonable building address
-      if (buildingTokens.length >= 2 && looksLikeUnit && !isDirection && !isStreetNumber && !isStreetName) {
-        // Check if remaining tokens are all unit-like
-        const remaining = tokens.slice(i);
-        const allUnitLike = remaining.every(t => 
-          /^([a-z]+\d+|\d+[a-z]+|ph\d*|phd?\d*|[a-z]{1,2}|\d+)$/i.test(t)
-        );
-        
-        if (allUnitLike && remaining.length <= 2) {
-          unitDesignation = remaining.join("").toUpperCase();
-          break;
-        }
-      }
-      
-      // Otherwise, this is part of the building address
-      buildingTokens.push(token);
+    const rows = await db
+      .select()
+      .from(repeatSalesIndex)
+      .where(and(...conditions))
+      .orderBy(repeatSalesIndex.state, repeatSalesIndex.period);
+    if (rows.length === 0) return null;
+
+    // A name shared across states resolves to the longest series
+    const byState = new Map<string, RepeatSalesIndex[]>();
+    for (const row of rows) {
+      const list = byState.get(row.state) || [];
+      list.push(row);
+      byState.set(row.state, list);
     }
-    
-    const buildingQuery = buildingTokens.join(" ").trim();
-    
-    return { buildingQuery, unitDesignation };
-  }
+    const series = Array.from(byState.values()).sort((a, b) => b.length - a.length)[0];
+    const first = series[0];
 
-  async searchUnified(query: string, entityFilter: "all" | "buildings" | "units" = "all"): Promise<{
-    buildings: Array<{ baseBbl: string; displayAddress: string; borough: string | null; unitCount: number }>;
-    units: Array<{ unitBbl: string; baseBbl: string; unitDesignation: string | null; displayAddress: string | null; borough: string | null; slug: string | null }>;
-    locations: Array<{ type: string; id: string; name: string; state: string }>;
-  }> {
-    // Parse the address using smart NYC address parser
-    const { buildingQuery, unitDesignation } = this.parseNYCAddress(query);
-    
-    const searchQuery = `%${buildingQuery}%`;
-    
-    // Search buildings by normalized address
-    const buildingResults = entityFilter === "units" ? [] : await db
-      .select({
-        baseBbl: buildings.baseBbl,
-        displayAddress: buildings.displayAddress,
-        borough: buildings.borough,
-        unitCount: buildings.unitCount,
-      })
-      .from(buildings)
-      .where(
-        or(
-          ilike(buildings.displayAddress, searchQuery),
-          ilike(buildings.baseBbl, searchQuery)
-        )
-      )
-      .limit(10);
+    return {
+      geoType: first.geoType,
+      geoId: first.geoId,
+      geoName: first.geoName,
+      state: first.state,
+      points: series.map((row) => ({
+        period: row.period,
+        index: row.indexValue,
+        low: row.indexValue * Math.exp(-1.96 * row.standardError),
+        high: row.indexValue * Math.exp(1.96 * row.standardError),
+        standardError: row.standardError,
+        pairCount: row.pairCount,
+      })),
+      // Each pair is counted in both of its months
+      totalPairs: Math.round(series.reduce((sum, row) => sum + row.pairCount, 0) / 2),
+      change3m: indexChange(series, 3),
+      change6m: indexChange(series, 6),
+      change12m: indexChange(series, 12),
+    };
+  }
 
-    // Search units - if unit designation detected, search more precisely
-    let unitResults: Array<{ unitBbl: string; baseBbl: string; unitDesignation: string | null; displayAddress: string | null; borough: string | null; slug: string | null }> = [];
-    
-    if (entityFilter !== "buildings") {
-      if (unitDesignation && buildingResults.length > 0) {
-        // Search for specific unit in matched buildings
-        const buildingBbls = buildingResults.map(b => b.baseBbl);
-        unitResults = await db
-          .select({
-            unitBbl: condoUnits.unitBbl,
-            baseBbl: condoUnits.baseBbl,
-            unitDesignation: condoUnits.unitDesignation,
-            displayAddress: condoUnits.unitDisplayAddress,
-            borough: condoUnits.borough,
-            slug: condoUnits.slug,
-          })
-          .from(condoUnits)
-          .where(
-            and(
-              inArray(condoUnits.baseBbl, buildingBbls),
-              or(
-                ilike(condoUnits.unitDesignation, `%${unitDesignation}%`),
-                ilike(condoUnits.unitDesignation, unitDesignation)
-              )
-            )
-          )
-          .limit(10);
-      } else {
-        // General unit search
-        unitResults = await db
-          .select({
-            unitBbl: condoUnits.unitBbl,
-            baseBbl: condoUnits.baseBbl,
-            unitDesignation: condoUnits.unitDesignation,
-            displayAddress: condoUnits.unitDisplayAddress,
-            borough: condoUnits.borough,
-            slug: condoUnits.slug,
-          })
-          .from(condoUnits)
-          .where(
-            or(
-              ilike(condoUnits.unitDisplayAddress, searchQuery),
-              ilike(condoUnits.unitDesignation, `%${query}%`),
-              ilike(condoUnits.unitBbl, `%${query.replace(/[-\s]/g, "")}%`)
-            )
-          )
-          .limit(10);
-      }
+  async getNeighborhoodBoundary(id: string): Promise<NeighborhoodBoundaryFeature | undefined> {
+    const [boundary] = await db
+      .select()
+      .from(neighborhoodBoundaries)
+      .where(eq(neighborhoodBoundaries.id, id.toLowerCase()));
+    return boundary ? toBoundaryFeature(boundary) : undefined;
+  }
+
+  async getNeighborhoodBoundaries(options: {
+    state?: string;
+    bbox?: [number, number, number, number];
+  }): Promise<NeighborhoodBoundaryFeature[]> {
+    const conditions: SQL[] = [];
+    if (options.state) conditions.push(eq(neighborhoodBoundaries.state, options.state));
+    if (options.bbox) {
+      // Boundaries whose bounding box overlaps the requested one
+      const [minLng, minLat, maxLng, maxLat] = options.bbox;
+      conditions.push(
+        lte(neighborhoodBoundaries.minLng, maxLng),
+        gte(neighborhoodBoundaries.maxLng, minLng),
+        lte(neighborhoodBoundaries.minLat, maxLat),
+        gte(neighborhoodBoundaries.maxLat, minLat)
+      );
     }
+    const rows = await db
+      .select()
+      .from(neighborhoodBoundaries)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(neighborhoodBoundaries.name);
+    return rows.map(toBoundaryFeature);
+  }
 
-    // Get location results only for "all" filter
-    const locations = entityFilter === "all" ? await this.searchGeo(query) : [];
+  async getMarketOverview(): Promise<MarketAggregate[]> {
+    return await db
+      .select()
+      .from(marketAggregates)
+      .where(eq(marketAggregates.geoType, "state"))
+      .orderBy(marketAggregates.state);
+  }
 
-    return {
-      buildings: buildingResults.map(b => ({
-        baseBbl: b.baseBbl,
-        displayAddress: b.displayAddress || "",
-        borough: b.borough,
-        unitCount: b.unitCount || 0,
-      })),
-      units: unitResults,
-      locations,
-    };
+  async createMarketAggregate(aggregate: InsertMarketAggregate): Promise<MarketAggregate> {
+    const [created] = await db.insert(marketAggregates).values(aggregate).returning();
+    return created;
   }
 
   // Coverage matrix operations
@@ -1558,6 +1966,20 @@ export class DatabaseStorage implements IStorage {
       .where(and(eq(alerts.id, id), eq(alerts.userId, userId)));
   }
 
+  async getActiveAlerts(): Promise<Alert[]> {
+    return await db
+      .select()
+      .from(alerts)
+      .where(eq(alerts.isActive, true));
+  }
+
+  async markAlertTriggered(id: string, triggeredAt: Date): Promise<void> {
+    await db
+      .update(alerts)
+      .set({ lastTriggered: triggeredAt })
+      .where(eq(alerts.id, id));
+  }
+
   // Notification operations
   async getNotifications(userId: string): Promise<Notification[]> {
     return await db
@@ -1626,12 +2048,16 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Up and coming ZIP codes
-  async getUpAndComingZips(state?: string, limit = 25): Promise<UpAndComingZip[]> {
+  async getUpAndComingZips(
+    state?: string,
+    limit = 25,
+    trendSource: "median" | "repeat_sales" = "median"
+  ): Promise<UpAndComingZip[]> {
     // Get ZIP-level market aggregates with trend data
-    const conditions = [
-      eq(marketAggregates.geoType, "zip"),
-      isNotNull(marketAggregates.trend12m),
-    ];
+    const conditions = [eq(marketAggregates.geoType, "zip")];
+    if (trendSource === "median") {
+      conditions.push(isNotNull(marketAggregates.trend12m));
+    }
     
     if (state) {
       conditions.push(eq(marketAggregates.state, state));
@@ -1642,6 +2068,30 @@ export class DatabaseStorage implements IStorage {
       .from(marketAggregates)
       .where(and(...conditions));
 
+    // Repeat-sales index changes (%) per ZIP, for indexes with a pair in the
+    // last year; other ZIPs keep their median-based trends
+    const indexTrends = new Map<string, { trend3m: number | null; trend6m: number | null; trend12m: number | null }>();
+    if (trendSource === "repeat_sales") {
+      const indexRows = await db.execute(sql`
+        SELECT
+          geo_id,
+          (array_agg(index_value ORDER BY period DESC))[1] AS latest,
+          (array_agg(index_value ORDER BY period DESC))[4] AS m3,
+          (array_agg(index_value ORDER BY period DESC))[7] AS m6,
+          (array_agg(index_value ORDER BY period DESC))[13] AS m12
+        FROM repeat_sales_index
+        WHERE geo_type = 'zip' ${state ? sql`AND state = ${state}` : sql``}
+        GROUP BY geo_id
+        HAVING MAX(period) >= (date_trunc('month', NOW()) - INTERVAL '12 months')::date
+      `);
+      const change = (latest: number, past: unknown) =>
+        past != null && Number(past) > 0 ? (latest / Number(past) - 1) * 100 : null;
+      for (const r of indexRows.rows as any[]) {
+        const latest = Number(r.latest);
+        indexTrends.set(r.geo_id, { trend3m: change(latest, r.m3), trend6m: change(latest, r.m6), trend12m: change(latest, r.m12) });
+      }
+    }
+
     // Get property counts and avg opportunity scores per ZIP
     const propertyStats = await db
       .select({
@@ -1682,14 +2132,25 @@ export class DatabaseStorage implements IStorage {
     const entries = Array.from(zipMap.entries());
     for (const [zipCode, data] of entries) {
       const { aggregate, stats } = data;
+      const indexTrend = indexTrends.get(zipCode);
+      // Aggregate trends are stored as fractions; rank and return percent
+      // like the repeat-sales changes
+      const fromIndex = indexTrend?.trend12m != null;
+      const trends = fromIndex
+        ? indexTrend
+        : {
+            trend3m: aggregate.trend3m != null ? aggregate.trend3m * 100 : null,
+            trend6m: aggregate.trend6m != null ? aggregate.trend6m * 100 : null,
+            trend12m: aggregate.trend12m != null ? aggregate.trend12m * 100 : null,
+          };
       
       // Skip if no positive trend
-      if (!aggregate.trend12m || aggregate.trend12m <= 0) continue;
+      if (!trends.trend12m || trends.trend12m <= 0) continue;
 
       // Calculate momentum
-      const trend12m = aggregate.trend12m || 0;
-      const trend6m = aggregate.trend6m || 0;
-      const trend3m = aggregate.trend3m || 0;
+      const trend12m = trends.trend12m || 0;
+      const trend6m = trends.trend6m || 0;
+      const trend3m = trends.trend3m || 0;
       
       let momentum: "accelerating" | "steady" | "decelerating";
       if (trend3m > trend6m && trend6m > 0) {
@@ -1731,9 +2192,10 @@ export class DatabaseStorage implements IStorage {
         city: stats?.city || aggregate.geoName,
         state: aggregate.state,
         trendScore: Math.min(100, Math.max(0, trendScore)),
-        trend12m: aggregate.trend12m,
-        trend6m: aggregate.trend6m,
-        trend3m: aggregate.trend3m,
+        trend12m: trends.trend12m,
+        trend6m: trends.trend6m,
+        trend3m: trends.trend3m,
+        trendSource: fromIndex ? "repeat_sales" : "median",
         medianPrice: aggregate.medianPrice,
         medianPricePerSqft: aggregate.medianPricePerSqft,
         transactionCount: aggregate.transactionCount,
@@ -1768,6 +2230,127 @@ export class DatabaseStorage implements IStorage {
     return signals;
   }
 
+  async getPropertyScoreBreakdown(propertyId: string): Promise<OpportunityScoreBreakdown | undefined> {
+    const [score] = await db
+      .select()
+      .from(propertyScores)
+      .where(eq(propertyScores.propertyId, propertyId));
+    if (!score) return undefined;
+    return {
+      overall: score.overall,
+      mispricing: score.mispricing,
+      confidence: score.confidence,
+      liquidity: score.liquidity,
+      risk: score.risk,
+      valueAdd: score.valueAdd,
+      explanations: score.explanations,
+      evidence: score.evidence as OpportunityScoreBreakdown["evidence"],
+    };
+  }
+
+  async getPropertyValuation(propertyId: string): Promise<PropertyValuationSummary | undefined> {
+    const [valuation] = await db
+      .select()
+      .from(avmValuations)
+      .where(eq(avmValuations.propertyId, propertyId));
+    if (!valuation) return undefined;
+    return {
+      estimatedValue: valuation.estimatedValue,
+      valueLow: valuation.valueLow,
+      valueHigh: valuation.valueHigh,
+      confidenceLevel: valuation.confidenceLevel as ConfidenceLevel,
+      drivers: valuation.drivers as AvmValueDriver[],
+      computedAt: valuation.computedAt?.toISOString() ?? null,
+    };
+  }
+
+  async getScoreHistory(subjectType: "property" | "unit", subjectId: string): Promise<ScoreHistory | undefined> {
+    // Sales are matched to the subject itself; permits, violations and
+    // complaints to its building lot
+    let bbl: string | null;
+    let saleMatch: SQL;
+    let saleType: SQL = sql`'sale'`;
+    if (subjectType === "property") {
+      const [property] = await db.select({ bbl: properties.bbl }).from(properties).where(eq(properties.id, subjectId));
+      if (!property) return undefined;
+      bbl = property.bbl;
+      saleMatch = sql`s.property_id = ${subjectId}`;
+    } else {
+      const unit = await this.getCondoUnit(subjectId);
+      if (!unit) return undefined;
+      bbl = unit.baseBbl;
+      saleMatch = sql`(s.unit_bbl = ${subjectId} OR s.base_bbl = ${unit.baseBbl})`;
+      saleType = sql`CASE WHEN s.unit_bbl = ${subjectId} THEN 'sale' ELSE 'building_sale' END`;
+    }
+
+    const history = await db
+      .select()
+      .from(opportunityScoreHistory)
+      .where(and(eq(opportunityScoreHistory.subjectType, subjectType), eq(opportunityScoreHistory.subjectId, subjectId)))
+      .orderBy(opportunityScoreHistory.recordedAt);
+    if (history.length === 0) return { subjectType, subjectId, points: [] };
+
+    const since = history[0].recordedAt;
+    const eventRows = await db.execute(sql`
+      SELECT * FROM (
+        SELECT
+          s.id,
+          ${saleType} AS type,
+          s.sale_date AS date,
+          s.sale_price::text AS detail
+        FROM sales s
+        WHERE ${saleMatch} AND s.sale_date > ${since}
+        UNION ALL
+        SELECT id, 'permit', COALESCE(issuance_date, filing_date), CONCAT_WS(': ', job_type, LEFT(job_description, 80))
+        FROM dob_permits_raw
+        WHERE bbl = ${bbl} AND COALESCE(issuance_date, filing_date) > ${since}
+        UNION ALL
+        SELECT id, 'violation', inspection_date, CONCAT_WS(': ', 'Class ' || violation_class, LEFT(description, 80))
+        FROM hpd_violations_raw
+        WHERE bbl = ${bbl} AND inspection_date > ${since}
+        UNION ALL
+        SELECT id, 'complaint', date_entered, complaint_category_description
+        FROM dob_complaints_raw
+        WHERE bbl = ${bbl} AND date_entered > ${since}
+      ) e
+      ORDER BY date DESC
+      LIMIT 500
+    `);
+    const events = (eventRows.rows as any[]).map((r) => {
+      const date = new Date(r.date);
+      let description: string;
+      if (r.type === "sale") description = `Sold for $${Number(r.detail).toLocaleString()}`;
+      else if (r.type === "building_sale") description = `Another unit in the building sold for $${Number(r.detail).toLocaleString()}`;
+      else if (r.type === "permit") description = `Permit ${r.detail || "filed"}`;
+      else if (r.type === "violation") description = `HPD violation ${r.detail || ""}`.trim();
+      else description = `DOB complaint${r.detail ? `: ${r.detail}` : ""}`;
+      return { type: r.type, id: r.id, date, description };
+    });
+
+    // Each point carries the events recorded since the previous point, most
+    // recent first
+    const MAX_EVENTS_PER_POINT = 5;
+    const points = history.map((row, i) => {
+      const prev = i > 0 ? history[i - 1] : null;
+      const pointEvents: ScoreHistoryEvent[] = prev
+        ? events
+            .filter((e) => e.date > prev.recordedAt && e.date <= row.recordedAt)
+            .slice(0, MAX_EVENTS_PER_POINT)
+            .map((e) => ({ ...e, date: e.date.toISOString() }))
+        : [];
+      return {
+        recordedAt: row.recordedAt.toISOString(),
+        score: row.score,
+        components: row.components as Record<string, number>,
+        modelVersion: row.modelVersion,
+        change: prev ? row.score - prev.score : null,
+        events: pointEvents,
+      };
+    });
+
+    return { subjectType, subjectId, points };
+  }
+
   async createOrUpdatePropertySignals(signals: InsertPropertySignalSummary): Promise<PropertySignalSummary> {
     const existing = await this.getPropertySignals(signals.propertyId);
     if (existing) {
@@ -1792,7 +2375,7 @@ export class DatabaseStorage implements IStorage {
     } else if (geoType === "county") {
       conditions.push(eq(properties.county, geoId));
     } else if (geoType === "neighborhood") {
-      conditions.push(eq(properties.neighborhood, geoId));
+      conditions.push(neighborhoodCondition(geoId));
     }
     
     // Only NYC properties with state = 'NY' and borough cities
@@ -1833,7 +2416,7 @@ export class DatabaseStorage implements IStorage {
     } else if (geoType === "county") {
       conditions.push(eq(properties.county, geoId));
     } else if (geoType === "neighborhood") {
-      conditions.push(eq(properties.neighborhood, geoId));
+      conditions.push(neighborhoodCondition(geoId));
     }
     
     // Only NYC properties with state = 'NY' and borough cities
@@ -2023,10 +2606,15 @@ export class DatabaseStorage implements IStorage {
       );
   }
 
-  async updateSavedSearchMatchCount(id: string, count: number): Promise<void> {
+  async updateSavedSearchMatchCount(id: string, count: number, matchedPropertyIds?: string[]): Promise<void> {
     await db
       .update(savedSearches)
-      .set({ matchCount: count, lastRunAt: new Date(), updatedAt: new Date() })
+      .set({
+        matchCount: count,
+        ...(matchedPropertyIds ? { lastMatchedPropertyIds: matchedPropertyIds } : {}),
+        lastRunAt: new Date(),
+        updatedAt: new Date(),
+      })
       .where(eq(savedSearches.id, id));
   }
 
@@ -2039,17 +2627,35 @@ export class DatabaseStorage implements IStorage {
     return newChange;
   }
 
-  async getUnprocessedChanges(forDigest: boolean, limit = 1000): Promise<PropertyChange[]> {
-    const processedColumn = forDigest 
-      ? propertyChanges.processedForDigest 
+  async createPropertyChanges(changes: InsertPropertyChange[]): Promise<number> {
+    const batchSize = 1000;
+    for (let i = 0; i < changes.length; i += batchSize) {
+      await db.insert(propertyChanges).values(changes.slice(i, i + batchSize));
+    }
+    return changes.length;
+  }
+
+  // Every unprocessed change to a property the filters match, over the whole
+  // result set rather than a saved search's capped id list
+  async getUnprocessedChangesMatching(filters: ScreenerFilters, forDigest: boolean): Promise<PropertyChange[]> {
+    const processedColumn = forDigest
+      ? propertyChanges.processedForDigest
       : propertyChanges.processedForInstant;
-    
-    return await db
-      .select()
-      .from(propertyChanges)
-      .where(eq(processedColumn, false))
-      .orderBy(desc(propertyChanges.changedAt))
-      .limit(limit);
+    const conditions = [eq(processedColumn, false), ...this.propertyScreenerConditions(filters)];
+    const query = hasSignalFilters(filters)
+      ? db
+          .select(getTableColumns(propertyChanges))
+          .from(propertyChanges)
+          .innerJoin(properties, eq(properties.id, propertyChanges.propertyId))
+          .innerJoin(propertySignalSummary, eq(properties.id, propertySignalSummary.propertyId))
+          .where(and(...conditions))
+      : db
+          .select(getTableColumns(propertyChanges))
+          .from(propertyChanges)
+          .innerJoin(properties, eq(properties.id, propertyChanges.propertyId))
+          .where(and(...conditions));
+
+    return await query.orderBy(desc(propertyChanges.changedAt));
   }
 
   async markChangesProcessed(ids: string[], forDigest: boolean): Promise<void> {
@@ -2065,6 +2671,30 @@ export class DatabaseStorage implements IStorage {
       .where(inArray(propertyChanges.id, ids));
   }
 
+  // Marks everything left unprocessed from before a run, except the changes
+  // still owed to a search whose alert failed, so changes no search matched
+  // don't pile up
+  async markUnprocessedChangesBefore(before: Date, forDigest: boolean, keepIds: string[]): Promise<number> {
+    const processedColumn = forDigest
+      ? propertyChanges.processedForDigest
+      : propertyChanges.processedForInstant;
+    const updateData = forDigest
+      ? { processedForDigest: true }
+      : { processedForInstant: true };
+
+    const result = await db
+      .update(propertyChanges)
+      .set(updateData)
+      .where(
+        and(
+          eq(processedColumn, false),
+          lte(propertyChanges.changedAt, before),
+          keepIds.length > 0 ? notInArray(propertyChanges.id, keepIds) : undefined
+        )
+      );
+    return result.rowCount ?? 0;
+  }
+
   async getRecentChangesForProperty(propertyId: string, since: Date): Promise<PropertyChange[]> {
     return await db
       .select()
@@ -2078,6 +2708,20 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(propertyChanges.changedAt));
   }
 
+  async getChangesForProperties(propertyIds: string[], since: Date): Promise<PropertyChange[]> {
+    if (propertyIds.length === 0) return [];
+    return await db
+      .select()
+      .from(propertyChanges)
+      .where(
+        and(
+          inArray(propertyChanges.propertyId, propertyIds),
+          gte(propertyChanges.changedAt, since)
+        )
+      )
+      .orderBy(desc(propertyChanges.changedAt));
+  }
+
   // Saved Search Notification operations
   async createSavedSearchNotification(notification: InsertSavedSearchNotification): Promise<SavedSearchNotification> {
     const [newNotification] = await db
@@ -2096,6 +2740,114 @@ export class DatabaseStorage implements IStorage {
       .limit(limit);
   }
 
+  // Scheduled job operations
+  async tryAcquireJobLock(jobName: string, owner: string, ttlMs: number): Promise<boolean> {
+    // Insert the lease, or take it over only if the current one has expired
+    const result = await db.execute(sql`
+      INSERT INTO job_locks (job_name, locked_by, locked_until, acquired_at)
+      VALUES (${jobName}, ${owner}, NOW() + (${ttlMs} || ' milliseconds')::interval, NOW())
+      ON CONFLICT (job_name) DO UPDATE SET
+        locked_by = EXCLUDED.locked_by,
+        locked_until = EXCLUDED.locked_until,
+        acquired_at = EXCLUDED.acquired_at
+      WHERE job_locks.locked_until < NOW()
+      RETURNING job_name
+    `);
+    return result.rows.length > 0;
+  }
+
+  async releaseJobLock(jobName: string, owner: string): Promise<void> {
+    await db.execute(sql`
+      DELETE FROM job_locks WHERE job_name = ${jobName} AND locked_by = ${owner}
+    `);
+  }
+
+  async createScheduledJobRun(run: InsertScheduledJobRun): Promise<ScheduledJobRun> {
+    const [created] = await db.insert(scheduledJobRuns).values(run).returning();
+    return created;
+  }
+
+  async finishScheduledJobRun(id: string, data: Partial<InsertScheduledJobRun>): Promise<void> {
+    await db
+      .update(scheduledJobRuns)
+      .set(data)
+      .where(eq(scheduledJobRuns.id, id));
+  }
+
+  async getLastScheduledJobRun(jobName: string, status?: string): Promise<ScheduledJobRun | undefined> {
+    const conditions = [eq(scheduledJobRuns.jobName, jobName)];
+    if (status) conditions.push(eq(scheduledJobRuns.status, status));
+    const [run] = await db
+      .select()
+      .from(scheduledJobRuns)
+      .where(and(...conditions))
+      .orderBy(desc(scheduledJobRuns.startedAt))
+      .limit(1);
+    return run;
+  }
+
+  async getScheduledJobRuns(limit = 50): Promise<ScheduledJobRun[]> {
+    return await db
+      .select()
+      .from(scheduledJobRuns)
+      .orderBy(desc(scheduledJobRuns.startedAt))
+      .limit(limit);
+  }
+
+  // ETL run operations
+  async createEtlRun(run: InsertEtlRun, stepNames: string[]): Promise<EtlRunWithSteps> {
+    const [created] = await db.insert(etlRuns).values(run).returning();
+    const steps = stepNames.length > 0
+      ? await db
+          .insert(etlRunSteps)
+          .values(stepNames.map((stepName, stepOrder) => ({ runId: created.id, stepName, stepOrder })))
+          .returning()
+      : [];
+    return { ...created, steps: steps.sort((a, b) => a.stepOrder - b.stepOrder) };
+  }
+
+  async updateEtlRun(id: string, data: Partial<InsertEtlRun>): Promise<void> {
+    await db.update(etlRuns).set(data).where(eq(etlRuns.id, id));
+  }
+
+  async updateEtlRunStep(id: string, data: Partial<InsertEtlRunStep>): Promise<void> {
+    await db.update(etlRunSteps).set(data).where(eq(etlRunSteps.id, id));
+  }
+
+  async getEtlRun(id: string): Promise<EtlRunWithSteps | undefined> {
+    const [run] = await db.select().from(etlRuns).where(eq(etlRuns.id, id));
+    if (!run) return undefined;
+    const steps = await db
+      .select()
+      .from(etlRunSteps)
+      .where(eq(etlRunSteps.runId, id))
+      .orderBy(etlRunSteps.stepOrder);
+    return { ...run, steps };
+  }
+
+  async getEtlRuns(limit = 25, pipeline?: string): Promise<EtlRunWithSteps[]> {
+    const runs = await db
+      .select()
+      .from(etlRuns)
+      .where(pipeline ? eq(etlRuns.pipeline, pipeline) : undefined)
+      .orderBy(desc(etlRuns.startedAt))
+      .limit(limit);
+    if (runs.length === 0) return [];
+
+    const steps = await db
+      .select()
+      .from(etlRunSteps)
+      .where(inArray(etlRunSteps.runId, runs.map((r) => r.id)))
+      .orderBy(etlRunSteps.stepOrder);
+    const stepsByRun = new Map<string, EtlRunStep[]>();
+    for (const step of steps) {
+      const list = stepsByRun.get(step.runId) || [];
+      list.push(step);
+      stepsByRun.set(step.runId, list);
+    }
+    return runs.map((run) => ({ ...run, steps: stepsByRun.get(run.id) || [] }));
+  }
+
   // Condo Units search
   async searchCondoUnits(params: {
     borough?: string;
@@ -7,6 +7,7 @@ import {
   real,
   boolean,
   timestamp,
+  date,
   jsonb,
   index,
   uniqueIndex,
@@ -111,6 +112,44 @@ export const bedsBands = ["0-1", "2", "3", "4", "5+"] as const;
 export const bathsBands = ["1", "2", "3+"] as const;
 export const yearBuiltBands = ["pre-1940", "1940-69", "1970-89", "1990-2009", "2010+"] as const;
 export const sizeBands = ["<1000", "1000-1499", "1500-1999", "2000-2999", "3000+"] as const;
+export const scoreBands = ["0-19", "20-39", "40-59", "60-79", "80+"] as const;
+
+// Numeric range behind each band label: [min inclusive, max exclusive], null = open-ended
+export type BandRange = [number | null, number | null];
+export const bandRanges: {
+  beds: Record<string, BandRange>;
+  baths: Record<string, BandRange>;
+  yearBuilt: Record<string, BandRange>;
+  size: Record<string, BandRange>;
+  score: Record<string, BandRange>;
+} = {
+  beds: { "0-1": [null, 2], "2": [2, 3], "3": [3, 4], "4": [4, 5], "5+": [5, null] },
+  baths: { "1": [null, 2], "2": [2, 3], "3+": [3, null] },
+  yearBuilt: { "pre-1940": [null, 1940], "1940-69": [1940, 1970], "1970-89": [1970, 1990], "1990-2009": [1990, 2010], "2010+": [2010, null] },
+  size: { "<1000": [null, 1000], "1000-1499": [1000, 1500], "1500-1999": [1500, 2000], "2000-2999": [2000, 3000], "3000+": [3000, null] },
+  score: { "0-19": [null, 20], "20-39": [20, 40], "40-59": [40, 60], "60-79": [60, 80], "80+": [80, null] },
+};
+
+// Flood risk levels, least to most severe
+export const floodRiskLevels = ["minimal", "moderate", "high", "severe"] as const;
+export type FloodRiskLevel = typeof floodRiskLevels[number];
+
+// Future flood scenarios from the NYC sea level rise and stormwater flood maps
+export const floodScenarios = [
+  "slr_2050s_100yr",
+  "slr_2080s_100yr",
+  "stormwater_moderate_2050",
+  "stormwater_extreme_2080",
+] as const;
+export type FloodScenario = typeof floodScenarios[number];
+
+// Distress levels, from the distress score on property_signal_summary
+export const distressLevels = ["none", "low", "elevated", "high"] as const;
+export type DistressLevel = typeof distressLevels[number];
+
+// Evidence kinds behind a distress score
+export const distressFlags = ["lis_pendens", "tax_lien", "loan_maturity", "hpd_hazardous"] as const;
+export type DistressFlag = typeof distressFlags[number];
 
 // Coverage levels
 export const coverageLevels = ["MarketOnly", "PropertyFacts", "SalesHistory", "Listings", "Comps", "AltSignals"] as const;
@@ -138,6 +177,7 @@ export const properties = pgTable(
     zipCode: varchar("zip_code").notNull(),
     county: varchar("county"),
     neighborhood: varchar("neighborhood"),
+    neighborhoodId: varchar("neighborhood_id"), // neighborhood_boundaries.id containing the lat/lng
     latitude: real("latitude"),
     longitude: real("longitude"),
     gridLat: integer("grid_lat"), // floor(lat * 1000) for fast spatial lookup (~100m precision)
@@ -153,6 +193,7 @@ export const properties = pgTable(
     estimatedValue: integer("estimated_value"),
     pricePerSqft: real("price_per_sqft"),
     opportunityScore: integer("opportunity_score"),
+    scoreChange: integer("score_change"), // points moved at the last recompute that changed the score
     confidenceLevel: varchar("confidence_level"),
     imageUrl: text("image_url"),
     dataSources: text("data_sources").array(), // Track which datasets contributed
@@ -165,6 +206,8 @@ export const properties = pgTable(
     index("idx_properties_city").on(table.city),
     index("idx_properties_state").on(table.state),
     index("idx_properties_grid").on(table.gridLat, table.gridLng),
+    index("idx_properties_neighborhood").on(table.neighborhoodId),
+    index("idx_properties_score").on(table.opportunityScore.desc().nullsLast(), table.id),
   ]
 );
 
@@ -254,6 +297,93 @@ export const insertMarketAggregateSchema = createInsertSchema(marketAggregates).
 export type InsertMarketAggregate = z.infer<typeof insertMarketAggregateSchema>;
 export type MarketAggregate = typeof marketAggregates.$inferSelect;
 
+// Market Aggregate Snapshots - monthly history of market_aggregates. Each
+// refresh upserts the current month, so the latest refresh in a month wins
+// and earlier months are kept.
+export const marketAggregateSnapshots = pgTable(
+  "market_aggregate_snapshots",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    period: date("period").notNull(), // first day of the month
+    geoType: varchar("geo_type").notNull(),
+    geoId: varchar("geo_id").notNull(),
+    geoName: varchar("geo_name").notNull(),
+    state: varchar("state").notNull(),
+    propertyType: varchar("property_type"),
+    bedsBand: varchar("beds_band"),
+    bathsBand: varchar("baths_band"),
+    yearBuiltBand: varchar("year_built_band"),
+    sizeBand: varchar("size_band"),
+    segmentKey: varchar("segment_key").notNull(), // property type and bands joined with "|"
+    medianPrice: integer("median_price"),
+    medianPricePerSqft: real("median_price_per_sqft"),
+    p25Price: integer("p25_price"),
+    p75Price: integer("p75_price"),
+    p25PricePerSqft: real("p25_price_per_sqft"),
+    p75PricePerSqft: real("p75_price_per_sqft"),
+    transactionCount: integer("transaction_count"),
+    turnoverRate: real("turnover_rate"),
+    computedAt: timestamp("computed_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("idx_aggregate_snapshots_key").on(table.geoType, table.geoId, table.state, table.segmentKey, table.period),
+    index("idx_aggregate_snapshots_period").on(table.period),
+  ]
+);
+
+export type MarketAggregateSnapshot = typeof marketAggregateSnapshots.$inferSelect;
+
+// Repeat Sales Index - monthly Case-Shiller-style price index per geography,
+// re-estimated in full from repeat-sale pairs on each run (index = 100 in the
+// first month). standardError is on the log index.
+export const repeatSalesIndex = pgTable(
+  "repeat_sales_index",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    geoType: varchar("geo_type").notNull(), // zip, neighborhood, borough
+    geoId: varchar("geo_id").notNull(),
+    geoName: varchar("geo_name").notNull(),
+    state: varchar("state").notNull(),
+    period: date("period").notNull(), // first day of the month
+    indexValue: real("index_value").notNull(),
+    standardError: real("standard_error").notNull(),
+    pairCount: integer("pair_count").notNull(), // pairs with a sale in this month
+    computedAt: timestamp("computed_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("idx_repeat_sales_index_key").on(table.geoType, table.geoId, table.state, table.period),
+  ]
+);
+
+export const insertRepeatSalesIndexSchema = createInsertSchema(repeatSalesIndex).omit({
+  id: true,
+  computedAt: true,
+});
+export type InsertRepeatSalesIndex = z.infer<typeof insertRepeatSalesIndexSchema>;
+export type RepeatSalesIndex = typeof repeatSalesIndex.$inferSelect;
+
+export type RepeatSalesIndexPoint = {
+  period: string;
+  index: number;
+  low: number; // index at -1.96 standard errors
+  high: number; // index at +1.96 standard errors
+  standardError: number;
+  pairCount: number;
+};
+
+export type RepeatSalesIndexSeries = {
+  geoType: string;
+  geoId: string;
+  geoName: string;
+  state: string;
+  points: RepeatSalesIndexPoint[];
+  totalPairs: number;
+  // Index change (%) over the trailing 3, 6 and 12 months
+  change3m: number | null;
+  change6m: number | null;
+  change12m: number | null;
+};
+
 // Coverage Matrix - data quality by geography
 export const coverageMatrix = pgTable(
   "coverage_matrix",
@@ -379,11 +509,20 @@ export const comps = pgTable(
     id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
     subjectPropertyId: varchar("subject_property_id").references(() => properties.id).notNull(),
     compPropertyId: varchar("comp_property_id").references(() => properties.id).notNull(),
-    similarityScore: real("similarity_score"),
+    compSaleId: varchar("comp_sale_id").references(() => sales.id), // Sale the comp is priced from (null = properties.last_sale_*)
+    compSalePrice: integer("comp_sale_price"),
+    compSaleDate: timestamp("comp_sale_date"),
+    distanceMeters: integer("distance_meters"),
+    similarityScore: real("similarity_score"), // 0-100
+    // Dollar adjustments applied to compSalePrice to arrive at adjustedPrice
     sqftAdjustment: real("sqft_adjustment"),
     ageAdjustment: real("age_adjustment"),
     bedsAdjustment: real("beds_adjustment"),
+    bathsAdjustment: real("baths_adjustment"),
+    timeAdjustment: real("time_adjustment"), // Market movement since the comp sold
     adjustedPrice: integer("adjusted_price"),
+    similarityComponents: jsonb("similarity_components"), // Per-feature 0-1 scores that make up similarityScore
+    selectionReasons: text("selection_reasons").array(), // Human-readable reasons this comp was chosen
     computedAt: timestamp("computed_at").defaultNow(),
   },
   (table) => [index("idx_comps_subject").on(table.subjectPropertyId)]
@@ -549,7 +688,7 @@ export const acrisRaw = pgTable(
     docAmount: real("doc_amount"),
     percentTransferred: real("percent_transferred"),
     goodThroughDate: timestamp("good_through_date"),
-    partyType: varchar("party_type"), // buyer, seller, lender
+    partyType: varchar("party_type"), // PARTY rows: grantor (seller, borrower) or grantee (buyer, lender)
     partyName: text("party_name"),
     partyAddress: text("party_address"),
     streetNumber: varchar("street_number"),
@@ -557,6 +696,7 @@ export const acrisRaw = pgTable(
     unit: varchar("unit"),
     city: varchar("city"),
     state: varchar("state"),
+    zipCode: varchar("zip_code"),
     country: varchar("country"),
     rawData: jsonb("raw_data"),
     importedAt: timestamp("imported_at").defaultNow(),
@@ -611,6 +751,35 @@ export const hpdRaw = pgTable(
 
 export type HpdRaw = typeof hpdRaw.$inferSelect;
 
+// HPD Registration Contacts - owners, officers and agents named on each
+// building registration; officers shared across corporate owners link them
+// in the ownership graph
+export const hpdContactsRaw = pgTable(
+  "hpd_contacts_raw",
+  {
+    id: varchar("id").primaryKey(), // "hpdc-{registrationcontactid}"
+    registrationId: varchar("registration_id"),
+    contactType: varchar("contact_type"), // CorporateOwner, HeadOfficer, Officer, IndividualOwner, Agent, ...
+    contactDescription: text("contact_description"),
+    corporationName: text("corporation_name"),
+    firstName: varchar("first_name"),
+    lastName: varchar("last_name"),
+    businessHouseNumber: varchar("business_house_number"),
+    businessStreetName: text("business_street_name"),
+    businessApartment: varchar("business_apartment"),
+    businessCity: varchar("business_city"),
+    businessState: varchar("business_state"),
+    businessZip: varchar("business_zip"),
+    rawData: jsonb("raw_data"),
+    importedAt: timestamp("imported_at").defaultNow(),
+  },
+  (table) => [
+    index("idx_hpd_contacts_registration").on(table.registrationId),
+  ]
+);
+
+export type HpdContactRaw = typeof hpdContactsRaw.$inferSelect;
+
 // DOB Permits Raw - Building permits from NYC DOB
 export const dobPermitsRaw = pgTable(
   "dob_permits_raw",
@@ -723,6 +892,112 @@ export const complaints311Raw = pgTable(
 
 export type Complaint311Raw = typeof complaints311Raw.$inferSelect;
 
+// HPD Violations Raw - one row per HPD housing maintenance code violation
+export const hpdViolationsRaw = pgTable(
+  "hpd_violations_raw",
+  {
+    id: varchar("id").primaryKey(), // hpd-violation-<violationid>
+    violationId: varchar("violation_id").notNull(),
+    buildingId: varchar("building_id"),
+    bbl: varchar("bbl"),
+    boroId: varchar("boro_id"),
+    borough: varchar("borough"),
+    block: varchar("block"),
+    lot: varchar("lot"),
+    houseNumber: varchar("house_number"),
+    streetName: text("street_name"),
+    zipCode: varchar("zip_code"),
+    violationClass: varchar("violation_class"), // A, B, C, I
+    violationStatus: varchar("violation_status"), // Open, Close
+    currentStatus: varchar("current_status"),
+    inspectionDate: timestamp("inspection_date"),
+    description: text("description"),
+    rawData: jsonb("raw_data"),
+    importedAt: timestamp("imported_at").defaultNow(),
+  },
+  (table) => [
+    index("idx_hpd_violations_building").on(table.buildingId),
+    index("idx_hpd_violations_bbl").on(table.bbl),
+    index("idx_hpd_violations_inspection").on(table.inspectionDate),
+  ]
+);
+
+export type HpdViolationRaw = typeof hpdViolationsRaw.$inferSelect;
+
+// Tax Lien Sale Lists Raw - NYC DOF lists of lots eligible for the annual tax
+// lien sale, one row per lot per list month and notice cycle
+export const taxLienSaleListsRaw = pgTable(
+  "tax_lien_sale_lists_raw",
+  {
+    id: varchar("id").primaryKey(), // tax-lien-<bbl>-<month>-<cycle>
+    bbl: varchar("bbl").notNull(),
+    borough: varchar("borough"),
+    block: varchar("block"),
+    lot: varchar("lot"),
+    listMonth: timestamp("list_month").notNull(),
+    cycle: varchar("cycle"), // 90 Day Notice, 60 Day Notice, ...
+    taxClassCode: varchar("tax_class_code"),
+    buildingClass: varchar("building_class"),
+    houseNumber: varchar("house_number"),
+    streetName: text("street_name"),
+    zipCode: varchar("zip_code"),
+    waterDebtOnly: boolean("water_debt_only").default(false),
+    rawData: jsonb("raw_data"),
+    importedAt: timestamp("imported_at").defaultNow(),
+  },
+  (table) => [
+    index("idx_tax_lien_bbl").on(table.bbl),
+    index("idx_tax_lien_month").on(table.listMonth),
+  ]
+);
+
+export type TaxLienSaleListRaw = typeof taxLienSaleListsRaw.$inferSelect;
+
+// Lis Pendens Raw - notices of pending action (mostly foreclosures) from a
+// local county clerk export; NYC rows carry a BBL, others are matched to a
+// property by address
+export const lisPendensRaw = pgTable(
+  "lis_pendens_raw",
+  {
+    id: varchar("id").primaryKey(), // lp-<hash of state, case number and parcel>
+    bbl: varchar("bbl"),
+    propertyId: varchar("property_id"),
+    address: text("address"),
+    city: varchar("city"),
+    state: varchar("state").notNull(),
+    caseNumber: varchar("case_number"),
+    caseType: varchar("case_type"), // foreclosure, other
+    plaintiff: text("plaintiff"),
+    defendant: text("defendant"),
+    filedDate: timestamp("filed_date").notNull(),
+    cancelledDate: timestamp("cancelled_date"), // cancelled or discharged; null while pending
+    rawData: jsonb("raw_data"),
+    importedAt: timestamp("imported_at").defaultNow(),
+  },
+  (table) => [
+    index("idx_lis_pendens_bbl").on(table.bbl),
+    index("idx_lis_pendens_property").on(table.propertyId),
+  ]
+);
+
+export type LisPendensRaw = typeof lisPendensRaw.$inferSelect;
+
+// Source Watermarks - high-water mark of each incrementally synced Socrata feed
+export const sourceWatermarks = pgTable("source_watermarks", {
+  source: varchar("source").primaryKey(), // dob_permits, complaints_311, hpd_violations, ...
+  watermarkField: varchar("watermark_field").notNull(), // :updated_at or a record date column
+  highWaterMark: varchar("high_water_mark"), // last value of watermarkField synced
+  lastRecordId: varchar("last_record_id"), // Socrata :id of the last record at highWaterMark
+  filter: text("filter"), // SoQL where clause the mark was synced under
+  backfillStartedAt: timestamp("backfill_started_at"),
+  backfillComplete: boolean("backfill_complete").default(false),
+  recordsSynced: integer("records_synced").default(0),
+  lastSyncedAt: timestamp("last_synced_at"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export type SourceWatermark = typeof sourceWatermarks.$inferSelect;
+
 // Subway Entrances - MTA subway station entrances for transit accessibility
 export const subwayEntrances = pgTable(
   "subway_entrances",
@@ -780,6 +1055,115 @@ export const floodZones = pgTable(
 
 export type FloodZone = typeof floodZones.$inferSelect;
 
+// Flood Hazard Areas - FEMA NFHL flood hazard polygons and NYC sea level rise /
+// stormwater scenario polygons, imported from local shapefiles or GeoJSON.
+// Property flood signals are assigned by testing lat/lng against them.
+export const floodHazardAreas = pgTable(
+  "flood_hazard_areas",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    source: varchar("source").notNull(), // fema_nfhl, nyc_sea_level_rise, nyc_stormwater
+    scenario: varchar("scenario"), // future scenario key, null for FEMA's current maps
+    floodZone: varchar("flood_zone"), // FEMA zone (AE, VE, X-SHADED) or stormwater flood category
+    floodZoneSubtype: varchar("flood_zone_subtype"),
+    baseFloodElevation: real("base_flood_elevation"), // feet, where FEMA publishes a static BFE
+    isHighRisk: boolean("is_high_risk").default(false), // Zone A or V
+    isModerateRisk: boolean("is_moderate_risk").default(false), // Zone X shaded
+    geometry: jsonb("geometry").notNull(), // GeoJSON MultiPolygon coordinates, [lng, lat]
+    minLat: real("min_lat").notNull(),
+    minLng: real("min_lng").notNull(),
+    maxLat: real("max_lat").notNull(),
+    maxLng: real("max_lng").notNull(),
+    importedAt: timestamp("imported_at").defaultNow(),
+  },
+  (table) => [
+    index("idx_flood_hazard_source").on(table.source, table.scenario),
+  ]
+);
+
+export const insertFloodHazardAreaSchema = createInsertSchema(floodHazardAreas).omit({
+  id: true,
+  importedAt: true,
+});
+export type InsertFloodHazardArea = z.infer<typeof insertFloodHazardAreaSchema>;
+export type FloodHazardArea = typeof floodHazardAreas.$inferSelect;
+
+// Neighborhood Boundaries - NYC NTAs and NJ/CT municipalities imported from
+// local GeoJSON; properties, condo units and buildings are assigned to the
+// polygon containing them
+export const neighborhoodBoundaries = pgTable(
+  "neighborhood_boundaries",
+  {
+    id: varchar("id").primaryKey(), // "{state}-{source code}", used as the neighborhood geoId
+    name: varchar("name").notNull(),
+    state: varchar("state").notNull(),
+    kind: varchar("kind").notNull(), // nta, municipality
+    sourceCode: varchar("source_code").notNull(), // NTA code, municipal code or town number
+    parentName: varchar("parent_name"), // borough or county
+    geometry: jsonb("geometry").notNull(), // GeoJSON MultiPolygon, [lng, lat] positions
+    minLat: real("min_lat").notNull(),
+    minLng: real("min_lng").notNull(),
+    maxLat: real("max_lat").notNull(),
+    maxLng: real("max_lng").notNull(),
+    importedAt: timestamp("imported_at").defaultNow(),
+  },
+  (table) => [
+    index("idx_neighborhood_boundaries_state").on(table.state),
+    index("idx_neighborhood_boundaries_name").on(table.name),
+  ]
+);
+
+export const insertNeighborhoodBoundarySchema = createInsertSchema(neighborhoodBoundaries).omit({
+  importedAt: true,
+});
+export type InsertNeighborhoodBoundary = z.infer<typeof insertNeighborhoodBoundarySchema>;
+export type NeighborhoodBoundary = typeof neighborhoodBoundaries.$inferSelect;
+
+// Gazetteer - searchable place names behind /api/search/geo and GlobalSearch
+export const gazetteerKinds = ["state", "borough", "county", "town", "neighborhood", "zip"] as const;
+export type GazetteerKind = typeof gazetteerKinds[number];
+
+export const gazetteerEntries = pgTable(
+  "gazetteer_entries",
+  {
+    id: varchar("id").primaryKey(), // "{kind}:{state}:{geoId}"
+    kind: varchar("kind").notNull(), // GazetteerKind
+    // Market geography the entry opens (state, city, county, neighborhood, zip)
+    geoType: varchar("geo_type").notNull(),
+    geoId: varchar("geo_id").notNull(),
+    name: varchar("name").notNull(),
+    state: varchar("state").notNull(),
+    parentId: varchar("parent_id"), // gazetteer id of the borough, county or town containing it
+    parentName: varchar("parent_name"),
+    aliases: text("aliases").array(), // alternate names and abbreviations as written
+    searchTerms: text("search_terms").array().notNull(), // normalized name, variants and aliases
+    propertyCount: integer("property_count").default(0),
+    source: varchar("source").notNull(), // builtin, boundaries, properties, names_file
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    index("idx_gazetteer_kind").on(table.kind),
+    index("idx_gazetteer_state").on(table.state),
+  ]
+);
+
+export const insertGazetteerEntrySchema = createInsertSchema(gazetteerEntries).omit({
+  updatedAt: true,
+});
+export type InsertGazetteerEntry = z.infer<typeof insertGazetteerEntrySchema>;
+export type GazetteerEntry = typeof gazetteerEntries.$inferSelect;
+
+// One /api/search/geo match; type and id are the market geography to open
+export type GeoSearchResult = {
+  type: string;
+  id: string;
+  name: string;
+  state: string;
+  kind: GazetteerKind;
+  parentName: string | null;
+  matchedAlias: string | null;
+};
+
 // Amenities - Parks, restaurants, retail for walkability scoring
 export const amenities = pgTable(
   "amenities",
@@ -860,6 +1244,25 @@ export const propertySignalSummary = pgTable(
     isFloodHighRisk: boolean("is_flood_high_risk").default(false),
     isFloodModerateRisk: boolean("is_flood_moderate_risk").default(false),
     floodRiskLevel: varchar("flood_risk_level"), // minimal, moderate, high, severe
+    floodZoneSubtype: varchar("flood_zone_subtype"),
+    baseFloodElevation: real("base_flood_elevation"), // feet
+    floodHighRiskDistanceMeters: integer("flood_high_risk_distance_meters"), // 0 inside, null beyond 2km
+    futureFloodScenarios: text("future_flood_scenarios").array(), // sea level rise / stormwater scenario keys
+    floodDataSource: varchar("flood_data_source"), // fema_nfhl when assigned from polygons, else estimated
+    
+    // Distress (motivated seller signals)
+    activeLisPendens: integer("active_lis_pendens").default(0), // filed in the last 3 years, not cancelled
+    lastLisPendensDate: timestamp("last_lis_pendens_date"),
+    onTaxLienSaleList: boolean("on_tax_lien_sale_list").default(false), // listed in the last 12 months
+    taxLienListDate: timestamp("tax_lien_list_date"),
+    lastMortgageDate: timestamp("last_mortgage_date"), // latest mortgage not followed by a satisfaction
+    lastMortgageAmount: real("last_mortgage_amount"),
+    loanAgeMonths: integer("loan_age_months"),
+    estimatedMaturityDate: timestamp("estimated_maturity_date"), // from a typical term for the property type
+    distressScore: integer("distress_score"), // 0-100, higher is more distressed
+    distressLevel: varchar("distress_level"), // none, low, elevated, high
+    distressFlags: text("distress_flags").array(), // DistressFlag keys behind the score
+    distressEvidence: jsonb("distress_evidence"), // DistressEvidence[]
     
     // Amenity density
     amenities400m: integer("amenities_400m").default(0), // ~5 min walk
@@ -884,6 +1287,7 @@ export const propertySignalSummary = pgTable(
     index("idx_signal_bbl").on(table.bbl),
     index("idx_signal_health").on(table.buildingHealthScore),
     index("idx_signal_transit").on(table.transitScore),
+    index("idx_signal_distress").on(table.distressScore),
   ]
 );
 
@@ -894,6 +1298,126 @@ export const insertPropertySignalSummarySchema = createInsertSchema(propertySign
 export type InsertPropertySignalSummary = z.infer<typeof insertPropertySignalSummarySchema>;
 export type PropertySignalSummary = typeof propertySignalSummary.$inferSelect;
 
+// Property Scores - persisted opportunity score breakdown per property, with
+// the explanations and evidence (comp, sale, market, signal ids) behind it
+export const propertyScores = pgTable(
+  "property_scores",
+  {
+    propertyId: varchar("property_id").primaryKey().references(() => properties.id, { onDelete: "cascade" }),
+    overall: integer("overall").notNull(),
+    mispricing: integer("mispricing").notNull(),
+    confidence: integer("confidence").notNull(),
+    liquidity: integer("liquidity").notNull(),
+    risk: integer("risk").notNull(), // higher is safer
+    valueAdd: integer("value_add").notNull(),
+    confidenceLevel: varchar("confidence_level").notNull(),
+    explanations: text("explanations").array().notNull(),
+    evidence: jsonb("evidence").notNull(), // OpportunityScoreBreakdown["evidence"]
+    marketValue: integer("market_value"), // value the mispricing component compared against
+    priceBasis: integer("price_basis"), // sale price or estimate that was compared
+    computedAt: timestamp("computed_at").defaultNow(),
+  },
+  (table) => [index("idx_property_scores_overall").on(table.overall)]
+);
+
+export const insertPropertyScoreSchema = createInsertSchema(propertyScores).omit({
+  computedAt: true,
+});
+export type InsertPropertyScore = z.infer<typeof insertPropertyScoreSchema>;
+export type PropertyScore = typeof propertyScores.$inferSelect;
+
+// Opportunity Score History - dated property and unit scores. A row is added
+// when a recompute changes the score, a component or the model version, so
+// consecutive rows always differ.
+export const opportunityScoreHistory = pgTable(
+  "opportunity_score_history",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    subjectType: varchar("subject_type").notNull(), // property, unit
+    subjectId: varchar("subject_id").notNull(), // property id or unit BBL
+    score: integer("score").notNull(),
+    components: jsonb("components").notNull(), // component name -> points
+    modelVersion: varchar("model_version").notNull(),
+    confidenceLevel: varchar("confidence_level"),
+    recordedAt: timestamp("recorded_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("idx_score_history_subject").on(table.subjectType, table.subjectId, table.recordedAt),
+  ]
+);
+
+export const insertOpportunityScoreHistorySchema = createInsertSchema(opportunityScoreHistory).omit({
+  id: true,
+});
+export type InsertOpportunityScoreHistory = z.infer<typeof insertOpportunityScoreHistorySchema>;
+export type OpportunityScoreHistory = typeof opportunityScoreHistory.$inferSelect;
+
+// AVM Models - sales-trained valuation models; the latest one values properties
+export const avmModels = pgTable(
+  "avm_models",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    asOf: timestamp("as_of").notNull(), // date values are estimated at
+    trainingSales: integer("training_sales").notNull(),
+    holdoutSales: integer("holdout_sales").notNull(),
+    model: jsonb("model").notNull(), // coefficients, feature scaling, imputation and residual quantiles
+    evaluation: jsonb("evaluation").notNull(), // AvmEvaluation from the holdout split
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("idx_avm_models_created").on(table.createdAt)]
+);
+
+export const insertAvmModelSchema = createInsertSchema(avmModels).omit({
+  id: true,
+  createdAt: true,
+});
+export type InsertAvmModel = z.infer<typeof insertAvmModelSchema>;
+export type AvmModel = typeof avmModels.$inferSelect;
+
+// AVM Valuations - latest AVM estimate per property with its P10-P90 range
+export const avmValuations = pgTable(
+  "avm_valuations",
+  {
+    propertyId: varchar("property_id").primaryKey().references(() => properties.id, { onDelete: "cascade" }),
+    modelId: varchar("model_id").references(() => avmModels.id, { onDelete: "cascade" }).notNull(),
+    estimatedValue: integer("estimated_value").notNull(),
+    valueLow: integer("value_low").notNull(), // P10
+    valueHigh: integer("value_high").notNull(), // P90
+    confidenceLevel: varchar("confidence_level").notNull(),
+    drivers: jsonb("drivers").notNull(), // AvmValueDriver[], largest effect first
+    computedAt: timestamp("computed_at").defaultNow(),
+  },
+  (table) => [index("idx_avm_valuations_model").on(table.modelId)]
+);
+
+export const insertAvmValuationSchema = createInsertSchema(avmValuations).omit({
+  computedAt: true,
+});
+export type InsertAvmValuation = z.infer<typeof insertAvmValuationSchema>;
+export type AvmValuation = typeof avmValuations.$inferSelect;
+
+// Score Backtests - opportunity scores replayed as of a past date and checked
+// against the sales that followed
+export const scoreBacktests = pgTable(
+  "score_backtests",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    asOf: timestamp("as_of").notNull(), // date the properties were scored at
+    horizonMonths: integer("horizon_months").notNull(),
+    modelVersion: varchar("model_version").notNull(),
+    report: jsonb("report").notNull(), // ScoreBacktestReport
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("idx_score_backtests_created").on(table.createdAt)]
+);
+
+export const insertScoreBacktestSchema = createInsertSchema(scoreBacktests).omit({
+  id: true,
+  createdAt: true,
+});
+export type InsertScoreBacktest = z.infer<typeof insertScoreBacktestSchema>;
+export type ScoreBacktest = typeof scoreBacktests.$inferSelect;
+
 // ============================================
 // NORMALIZED TABLES - Processed and linked data
 // ============================================
@@ -931,7 +1455,7 @@ export const propertyTransactions = pgTable(
     propertyId: varchar("property_id").references(() => properties.id),
     bbl: varchar("bbl").notNull(),
     documentId: varchar("document_id"),
-    transactionType: varchar("transaction_type").notNull(), // sale, mortgage, refinance, transfer
+    transactionType: varchar("transaction_type").notNull(), // sale, mortgage, assignment, satisfaction, transfer
     transactionDate: timestamp("transaction_date").notNull(),
     amount: real("amount"),
     buyerName: text("buyer_name"),
@@ -949,6 +1473,108 @@ export const propertyTransactions = pgTable(
 
 export type PropertyTransaction = typeof propertyTransactions.$inferSelect;
 
+// Ownership Graph - ACRIS party names on property_transactions clustered
+// into owner entities (LLC spelling variants collapse into one), linked to
+// each other through shared mailing addresses and HPD registration officers.
+// Rebuilt from scratch by scripts/build-ownership-graph.ts; entity ids are
+// derived from the cluster key so they survive rebuilds.
+export const ownerEntityTypes = [
+  "llc",
+  "corporation",
+  "partnership",
+  "trust",
+  "bank",
+  "government",
+  "individual",
+  "other",
+] as const;
+export type OwnerEntityType = typeof ownerEntityTypes[number];
+
+export const ownerLinkTypes = ["shared_address", "shared_signatory"] as const;
+export type OwnerLinkType = typeof ownerLinkTypes[number];
+
+export const ownerEntities = pgTable(
+  "owner_entities",
+  {
+    id: varchar("id").primaryKey(), // "owner-{hash of cluster key}"
+    name: text("name").notNull(), // most frequent spelling
+    clusterKey: text("cluster_key").notNull().unique(), // normalized name without legal suffix
+    entityType: varchar("entity_type").notNull(),
+    groupId: varchar("group_id"), // connected component of owner_links, i.e. the portfolio
+    propertyCount: integer("property_count").default(0), // current holdings
+    acquisitionCount: integer("acquisition_count").default(0),
+    firstAcquisitionDate: timestamp("first_acquisition_date"),
+    lastAcquisitionDate: timestamp("last_acquisition_date"),
+    mailingAddresses: text("mailing_addresses").array(),
+    signatories: text("signatories").array(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    index("idx_owner_entities_group").on(table.groupId),
+  ]
+);
+
+export const insertOwnerEntitySchema = createInsertSchema(ownerEntities).omit({
+  updatedAt: true,
+});
+export type InsertOwnerEntity = z.infer<typeof insertOwnerEntitySchema>;
+export type OwnerEntity = typeof ownerEntities.$inferSelect;
+
+// Every raw party name as written on ACRIS documents, mapped to its entity
+export const ownerAliases = pgTable(
+  "owner_aliases",
+  {
+    rawName: text("raw_name").primaryKey(),
+    entityId: varchar("entity_id").notNull().references(() => ownerEntities.id, { onDelete: "cascade" }),
+    occurrences: integer("occurrences").default(0),
+  },
+  (table) => [
+    index("idx_owner_aliases_entity").on(table.entityId),
+  ]
+);
+
+export type OwnerAlias = typeof ownerAliases.$inferSelect;
+
+// Stored in both directions so either entity finds the link
+export const ownerLinks = pgTable(
+  "owner_links",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    entityId: varchar("entity_id").notNull().references(() => ownerEntities.id, { onDelete: "cascade" }),
+    linkedEntityId: varchar("linked_entity_id").notNull().references(() => ownerEntities.id, { onDelete: "cascade" }),
+    linkType: varchar("link_type").notNull(),
+    evidence: text("evidence"), // the shared address or signatory name
+  },
+  (table) => [
+    uniqueIndex("idx_owner_links_key").on(table.entityId, table.linkedEntityId, table.linkType),
+  ]
+);
+
+export type OwnerLink = typeof ownerLinks.$inferSelect;
+
+// One row per entity per transaction it was party to
+export const ownershipParties = pgTable(
+  "ownership_parties",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    entityId: varchar("entity_id").notNull().references(() => ownerEntities.id, { onDelete: "cascade" }),
+    transactionId: varchar("transaction_id").notNull(),
+    propertyId: varchar("property_id"),
+    bbl: varchar("bbl").notNull(),
+    role: varchar("role").notNull(), // buyer, seller, lender
+    transactionDate: timestamp("transaction_date").notNull(),
+    amount: real("amount"),
+    isCurrentOwner: boolean("is_current_owner").default(false), // buyer on the latest deed for the lot
+  },
+  (table) => [
+    index("idx_ownership_parties_entity").on(table.entityId, table.role),
+    index("idx_ownership_parties_property").on(table.propertyId),
+    index("idx_ownership_parties_bbl").on(table.bbl),
+  ]
+);
+
+export type OwnershipParty = typeof ownershipParties.$inferSelect;
+
 // Property Compliance - HPD violations and complaints
 export const propertyCompliance = pgTable(
   "property_compliance",
@@ -1118,6 +1744,7 @@ export const savedSearches = pgTable(
     
     // Tracking
     matchCount: integer("match_count").default(0), // Current # of matching properties
+    lastMatchedPropertyIds: text("last_matched_property_ids").array(), // Result set from the last run, for new/dropped deltas
     lastRunAt: timestamp("last_run_at"),
     lastNotifiedAt: timestamp("last_notified_at"),
     
@@ -1134,6 +1761,7 @@ export const savedSearches = pgTable(
 export const insertSavedSearchSchema = createInsertSchema(savedSearches).omit({
   id: true,
   matchCount: true,
+  lastMatchedPropertyIds: true,
   lastRunAt: true,
   lastNotifiedAt: true,
   createdAt: true,
@@ -1152,6 +1780,7 @@ export const propertyChangeTypes = [
   "permits_added",
   "violations_added",
   "flood_status_change",
+  "distress_signal",
 ] as const;
 export type PropertyChangeType = typeof propertyChangeTypes[number];
 
@@ -1189,6 +1818,32 @@ export const insertPropertyChangeSchema = createInsertSchema(propertyChanges).om
 export type InsertPropertyChange = z.infer<typeof insertPropertyChangeSchema>;
 export type PropertyChange = typeof propertyChanges.$inferSelect;
 
+// Property State Snapshots - the alert-relevant state of every property,
+// captured before a data refresh and diffed against the live tables after
+// it to record property_changes. Rows are deleted once the diff has run.
+export const propertyStateSnapshots = pgTable(
+  "property_state_snapshots",
+  {
+    snapshotId: varchar("snapshot_id").notNull(),
+    propertyId: varchar("property_id").notNull(),
+    estimatedValue: integer("estimated_value"),
+    lastSalePrice: integer("last_sale_price"),
+    lastSaleDate: timestamp("last_sale_date"),
+    opportunityScore: integer("opportunity_score"),
+    activePermits: integer("active_permits"),
+    openHpdViolations: integer("open_hpd_violations"),
+    floodZone: varchar("flood_zone"),
+    floodRiskLevel: varchar("flood_risk_level"),
+    distressScore: integer("distress_score"),
+    distressFlags: text("distress_flags").array(),
+    capturedAt: timestamp("captured_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("idx_property_state_snapshots_key").on(table.snapshotId, table.propertyId),
+    index("idx_property_state_snapshots_captured").on(table.capturedAt),
+  ]
+);
+
 // Saved Search Notifications - Track sent notifications
 export const savedSearchNotifications = pgTable(
   "saved_search_notifications",
@@ -1284,6 +1939,7 @@ export const condoUnits = pgTable(
     longitude: real("longitude"),
     borough: varchar("borough"),
     zipCode: varchar("zip_code"),
+    neighborhoodId: varchar("neighborhood_id"),
     // Unit specifications (for future data enrichment)
     beds: integer("beds"),
     baths: real("baths"),
@@ -1298,6 +1954,7 @@ export const condoUnits = pgTable(
     index("idx_condo_units_address").on(table.unitDisplayAddress),
     index("idx_condo_units_type_hint").on(table.unitTypeHint),
     index("idx_condo_units_slug").on(table.slug),
+    index("idx_condo_units_neighborhood").on(table.neighborhoodId),
   ]
 );
 
@@ -1321,6 +1978,7 @@ export const buildings = pgTable(
     longitude: real("longitude"),
     borough: varchar("borough"),
     zipCode: varchar("zip_code"),
+    neighborhoodId: varchar("neighborhood_id"),
     unitCount: integer("unit_count").default(0),
     residentialUnitCount: integer("residential_unit_count").default(0),
     createdAt: timestamp("created_at").defaultNow(),
@@ -1330,6 +1988,7 @@ export const buildings = pgTable(
     index("idx_buildings_address").on(table.displayAddress),
     index("idx_buildings_borough").on(table.borough),
     index("idx_buildings_zip").on(table.zipCode),
+    index("idx_buildings_neighborhood").on(table.neighborhoodId),
   ]
 );
 
@@ -1340,6 +1999,66 @@ export const insertBuildingSchema = createInsertSchema(buildings).omit({
 export type InsertBuilding = z.infer<typeof insertBuildingSchema>;
 export type Building = typeof buildings.$inferSelect;
 
+// Address search index - normalized address tokens for every building and
+// condo unit, rebuilt by server/etl/address-search-index.ts
+export const addressSearchIndex = pgTable(
+  "address_search_index",
+  {
+    id: varchar("id").primaryKey(), // "building:{baseBbl}" or "unit:{unitBbl}"
+    entityType: varchar("entity_type").notNull(), // building, unit
+    baseBbl: varchar("base_bbl").notNull(),
+    unitBbl: varchar("unit_bbl"),
+    houseNumber: varchar("house_number"), // "52", "35-15" (Queens hyphenated)
+    street: varchar("street"), // normalized: "west 57 street"
+    streetCore: varchar("street_core"), // without the street type: "west 57"
+    streetTrigrams: text("street_trigrams").array().notNull(), // trigrams of streetCore
+    unitDesignation: varchar("unit_designation"), // as recorded: "APT 4-B"
+    unit: varchar("unit"), // normalized designation: "4B", "PH2"
+    borough: varchar("borough"),
+    zipCode: varchar("zip_code"),
+    displayAddress: text("display_address"),
+    unitCount: integer("unit_count"),
+    slug: varchar("slug"),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    index("idx_address_search_house_number").on(table.houseNumber),
+    // Pattern ops so prefix LIKE on the street, BBL and unit BBL can use them
+    index("idx_address_search_street_core").on(table.streetCore.op("text_pattern_ops")),
+    index("idx_address_search_base_bbl").on(table.baseBbl.op("text_pattern_ops")),
+    index("idx_address_search_unit_bbl").on(table.unitBbl.op("text_pattern_ops")),
+    index("idx_address_search_trigrams").using("gin", table.streetTrigrams),
+  ]
+);
+
+export type AddressSearchIndexEntry = typeof addressSearchIndex.$inferSelect;
+
+// How a search result matched the query: every parsed part exactly, the
+// right street with a partial house number or unit, a typo-tolerant street
+// match, or a BBL
+export const addressMatchTypes = ["exact", "partial", "fuzzy", "bbl"] as const;
+export type AddressMatchType = typeof addressMatchTypes[number];
+
+export type BuildingSearchResult = {
+  baseBbl: string;
+  displayAddress: string;
+  borough: string | null;
+  unitCount: number;
+  matchType: AddressMatchType;
+  score: number;
+};
+
+export type UnitSearchResult = {
+  unitBbl: string;
+  baseBbl: string;
+  unitDesignation: string | null;
+  displayAddress: string | null;
+  borough: string | null;
+  slug: string | null;
+  matchType: AddressMatchType;
+  score: number;
+};
+
 // Cached AI-generated narratives for unit/property SEO pages.
 // Regenerated quarterly (90 days) so crawlers see substantive unique prose.
 export const pageNarratives = pgTable(
@@ -1361,7 +2080,7 @@ export type PageNarrative = typeof pageNarratives.$inferSelect;
 
 // Entity Resolution Map - tracks source record mappings to properties
 // Supports multiple match types with confidence scoring
-export const matchTypes = ["bbl_exact", "unit_registry", "address_normalized", "address_fuzzy", "geoclient"] as const;
+export const matchTypes = ["bbl_exact", "unit_registry", "parcel_id", "address_normalized", "address_fuzzy", "geoclient", "manual_review"] as const;
 export type MatchType = typeof matchTypes[number];
 
 export const entityResolutionMap = pgTable(
@@ -1372,7 +2091,7 @@ export const entityResolutionMap = pgTable(
     sourceRecordId: varchar("source_record_id").notNull(), // Original record ID from source
     sourceBbl: varchar("source_bbl"), // BBL as provided by source
     matchedPropertyId: varchar("matched_property_id").references(() => properties.id),
-    matchType: varchar("match_type").notNull(), // bbl_exact, unit_registry, address_normalized, address_fuzzy
+    matchType: varchar("match_type").notNull(), // bbl_exact, unit_registry, parcel_id, address_normalized, address_fuzzy
     matchConfidence: real("match_confidence").notNull(), // 0.0-1.0
     matchMetadata: jsonb("match_metadata"), // Details about match (normalized address, etc.)
     createdAt: timestamp("created_at").defaultNow(),
@@ -1394,6 +2113,72 @@ export const insertEntityResolutionSchema = createInsertSchema(entityResolutionM
 export type InsertEntityResolution = z.infer<typeof insertEntityResolutionSchema>;
 export type EntityResolution = typeof entityResolutionMap.$inferSelect;
 
+// Match Review Decisions - admin rulings on unresolved sales and low-confidence
+// entity matches, reapplied whenever matching runs again. Subjects are keyed
+// by stable source identifiers rather than row ids, since sales and resolution
+// rows are recreated on re-import.
+export const matchReviewSubjectTypes = ["sale", "entity_resolution"] as const;
+export type MatchReviewSubjectType = typeof matchReviewSubjectTypes[number];
+export const matchReviewActions = ["accept", "reassign", "reject"] as const;
+export type MatchReviewAction = typeof matchReviewActions[number];
+
+export const matchReviewDecisions = pgTable(
+  "match_review_decisions",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    subjectType: varchar("subject_type").notNull(), // sale, entity_resolution
+    subjectKey: varchar("subject_key").notNull(),
+    action: varchar("action").notNull(), // accept, reassign, reject
+    propertyId: varchar("property_id").references(() => properties.id, { onDelete: "set null" }),
+    unitBbl: varchar("unit_bbl"),
+    reason: varchar("reason"), // queue group the subject was in when decided
+    note: text("note"),
+    decidedBy: varchar("decided_by").references(() => users.id, { onDelete: "set null" }),
+    decidedAt: timestamp("decided_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("idx_match_review_subject").on(table.subjectType, table.subjectKey),
+    index("idx_match_review_property").on(table.propertyId),
+  ]
+);
+
+export const insertMatchReviewDecisionSchema = createInsertSchema(matchReviewDecisions).omit({
+  id: true,
+  decidedAt: true,
+});
+export type InsertMatchReviewDecision = z.infer<typeof insertMatchReviewDecisionSchema>;
+export type MatchReviewDecision = typeof matchReviewDecisions.$inferSelect;
+
+export type MatchCandidate = {
+  propertyId: string | null;
+  unitBbl: string | null;
+  address: string;
+  bbl: string | null;
+  via: "address" | "block_lot";
+  detail: string;
+};
+
+export type MatchReviewItem = {
+  subjectType: MatchReviewSubjectType;
+  subjectKey: string;
+  sourceSystem: string;
+  sourceRecordId: string;
+  address: string | null;
+  bbl: string | null;
+  currentPropertyId: string | null;
+  currentAddress: string | null;
+  matchType: string | null;
+  matchConfidence: number | null;
+  detail: string | null;
+};
+
+export type MatchReviewGroup = {
+  subjectType: MatchReviewSubjectType;
+  reason: string;
+  count: number;
+  items: MatchReviewItem[];
+};
+
 // Usage Tracking for Free tier limits
 export const usageTracking = pgTable(
   "usage_tracking",
@@ -1417,6 +2202,112 @@ export const insertUsageTrackingSchema = createInsertSchema(usageTracking).omit(
 export type InsertUsageTracking = z.infer<typeof insertUsageTrackingSchema>;
 export type UsageTracking = typeof usageTracking.$inferSelect;
 
+// Scheduled job locks - one row per job; a lease that expires so a crashed
+// instance can't hold a job forever
+export const jobLocks = pgTable("job_locks", {
+  jobName: varchar("job_name").primaryKey(),
+  lockedBy: varchar("locked_by").notNull(), // hostname-pid of the holder
+  lockedUntil: timestamp("locked_until").notNull(),
+  acquiredAt: timestamp("acquired_at").defaultNow(),
+});
+
+export type JobLock = typeof jobLocks.$inferSelect;
+
+// Scheduled job runs - outcome of every scheduler/cron job execution
+export const scheduledJobRunStatuses = ["running", "succeeded", "failed"] as const;
+export type ScheduledJobRunStatus = typeof scheduledJobRunStatuses[number];
+
+export const scheduledJobRuns = pgTable(
+  "scheduled_job_runs",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    jobName: varchar("job_name").notNull(), // instant_alerts, daily_digest, weekly_digest
+    status: varchar("status").notNull().default("running"), // ScheduledJobRunStatus
+    trigger: varchar("trigger").notNull().default("scheduler"), // scheduler, cron
+    instanceId: varchar("instance_id"),
+    startedAt: timestamp("started_at").defaultNow(),
+    finishedAt: timestamp("finished_at"),
+    durationMs: integer("duration_ms"),
+    result: jsonb("result"),
+    error: text("error"),
+  },
+  (table) => [
+    index("idx_job_runs_name_started").on(table.jobName, table.startedAt),
+  ]
+);
+
+export const insertScheduledJobRunSchema = createInsertSchema(scheduledJobRuns).omit({
+  id: true,
+  startedAt: true,
+});
+export type InsertScheduledJobRun = z.infer<typeof insertScheduledJobRunSchema>;
+export type ScheduledJobRun = typeof scheduledJobRuns.$inferSelect;
+
+// ETL runs - one row per execution of an ETL pipeline script, with a row per step
+export const etlRunStatuses = ["running", "succeeded", "failed"] as const;
+export type EtlRunStatus = typeof etlRunStatuses[number];
+
+export const etlStepStatuses = ["pending", "running", "succeeded", "failed", "skipped"] as const;
+export type EtlStepStatus = typeof etlStepStatuses[number];
+
+export const etlRuns = pgTable(
+  "etl_runs",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    pipeline: varchar("pipeline").notNull(), // refresh_all_data, refresh_prices, finish_refresh, etl_imports, nyc_deep_coverage
+    status: varchar("status").notNull().default("running"), // EtlRunStatus
+    trigger: varchar("trigger").notNull().default("cli"), // cli, admin, startup
+    triggeredBy: varchar("triggered_by").references(() => users.id),
+    resumedFromRunId: varchar("resumed_from_run_id"),
+    instanceId: varchar("instance_id"),
+    startedAt: timestamp("started_at").defaultNow(),
+    finishedAt: timestamp("finished_at"),
+    durationMs: integer("duration_ms"),
+    error: text("error"),
+    metadata: jsonb("metadata"), // run-wide state set up before the steps (e.g. the change baseline), read back on resume
+  },
+  (table) => [
+    index("idx_etl_runs_pipeline_started").on(table.pipeline, table.startedAt),
+  ]
+);
+
+export const etlRunSteps = pgTable(
+  "etl_run_steps",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    runId: varchar("run_id").notNull().references(() => etlRuns.id, { onDelete: "cascade" }),
+    stepOrder: integer("step_order").notNull(),
+    stepName: varchar("step_name").notNull(),
+    status: varchar("status").notNull().default("pending"), // EtlStepStatus
+    startedAt: timestamp("started_at"),
+    finishedAt: timestamp("finished_at"),
+    durationMs: integer("duration_ms"),
+    rowsRead: integer("rows_read"),
+    rowsWritten: integer("rows_written"),
+    rowsRejected: integer("rows_rejected"),
+    error: text("error"),
+    metadata: jsonb("metadata"), // step-specific results, carried forward when a run is resumed
+  },
+  (table) => [
+    index("idx_etl_run_steps_run").on(table.runId, table.stepOrder),
+  ]
+);
+
+export const insertEtlRunSchema = createInsertSchema(etlRuns).omit({
+  id: true,
+  startedAt: true,
+});
+export type InsertEtlRun = z.infer<typeof insertEtlRunSchema>;
+export type EtlRun = typeof etlRuns.$inferSelect;
+
+export const insertEtlRunStepSchema = createInsertSchema(etlRunSteps).omit({
+  id: true,
+});
+export type InsertEtlRunStep = z.infer<typeof insertEtlRunStepSchema>;
+export type EtlRunStep = typeof etlRunSteps.$inferSelect;
+
+export type EtlRunWithSteps = EtlRun & { steps: EtlRunStep[] };
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   watchlists: many(watchlists),
@@ -1470,6 +2361,119 @@ export type OpportunityScoreBreakdown = {
   evidence: { type: string; id: string; description: string }[];
 };
 
+// Something recorded between two score history points that may explain the move
+export type ScoreHistoryEvent = {
+  type: "sale" | "building_sale" | "permit" | "violation" | "complaint";
+  id: string;
+  date: string;
+  description: string;
+};
+
+export type ScoreHistoryPoint = {
+  recordedAt: string;
+  score: number;
+  components: Record<string, number>;
+  modelVersion: string;
+  change: number | null; // vs the previous point
+  events: ScoreHistoryEvent[]; // since the previous point
+};
+
+export type ScoreHistory = {
+  subjectType: "property" | "unit";
+  subjectId: string;
+  points: ScoreHistoryPoint[];
+};
+
+// A feature group's effect on an AVM estimate, relative to the typical
+// training sale (0.12 = +12%)
+export type AvmValueDriver = {
+  feature: string;
+  label: string;
+  effect: number;
+};
+
+export type PropertyValuationSummary = {
+  estimatedValue: number;
+  valueLow: number;
+  valueHigh: number;
+  confidenceLevel: ConfidenceLevel;
+  drivers: AvmValueDriver[];
+  computedAt: string | null;
+};
+
+// Holdout error for one slice of sales; APEs are fractions (0.1 = 10%)
+export type AvmEvaluationRow = {
+  state: string;
+  propertyType: string | null;
+  sales: number;
+  medianApe: number;
+  meanApe: number;
+  within10: number;
+  within20: number;
+  intervalCoverage: number; // share of sales inside their P10-P90 range
+};
+
+export type AvmEvaluation = {
+  asOf: string;
+  trainingSales: number;
+  holdoutSales: number;
+  overall: AvmEvaluationRow;
+  byState: AvmEvaluationRow[];
+  bySegment: AvmEvaluationRow[];
+};
+
+// One slice of a score backtest. Returns are fractions (0.05 = 5%): vsAvm is
+// the later sale against the as-of AVM, excess return against the AVM grown
+// by the repeat-sales index, and a hit is a sale with positive excess return.
+export type ScoreBacktestRow = {
+  label: string; // decile ("1" lowest to "10" highest), state or property type
+  properties: number;
+  sold: number; // sold within the horizon
+  meanScore: number;
+  meanVsAvm: number | null;
+  meanExcessReturn: number | null;
+  medianExcessReturn: number | null;
+  hitRate: number | null;
+  // State and property type rows only: top minus bottom decile mean excess
+  // return, and the score's rank correlation with excess return
+  decileSpread?: number | null;
+  rankCorrelation?: number | null;
+};
+
+export type ScoreBacktestSummary = {
+  asOf: string;
+  horizonMonths: number;
+  modelVersion: string;
+  propertiesScored: number;
+  salesObserved: number; // sales with an excess return
+  topDecileExcessReturn: number | null;
+  bottomDecileExcessReturn: number | null;
+  decileSpread: number | null;
+  rankCorrelation: number | null;
+  topDecileHitRate: number | null;
+  overallHitRate: number | null;
+  generatedAt: string;
+};
+
+export type ScoreBacktestReport = {
+  summary: ScoreBacktestSummary;
+  byDecile: ScoreBacktestRow[];
+  byState: ScoreBacktestRow[];
+  byPropertyType: ScoreBacktestRow[];
+};
+
+// Per-feature similarity scores (0-1) stored on each comp row.
+// A feature is omitted when either side is missing that attribute.
+export type CompSimilarityComponents = {
+  distance?: number;
+  propertyType?: number;
+  beds?: number;
+  baths?: number;
+  sqft?: number;
+  yearBuilt?: number;
+  recency?: number;
+};
+
 // AI Response type
 export type AIResponse = {
   answerSummary: string;
@@ -1479,6 +2483,92 @@ export type AIResponse = {
   limitations: string[];
 };
 
+// A neighborhood polygon as a GeoJSON Feature, for map overlays
+export type NeighborhoodBoundaryFeature = {
+  type: "Feature";
+  id: string;
+  properties: {
+    name: string;
+    state: string;
+    kind: string;
+    parentName: string | null;
+  };
+  geometry: {
+    type: "MultiPolygon";
+    coordinates: number[][][][];
+  };
+};
+
+// Owner portfolio for an entity in the ownership graph
+export type OwnerHolding = {
+  propertyId: string | null;
+  bbl: string;
+  address: string | null;
+  city: string | null;
+  zipCode: string | null;
+  acquiredAt: Date;
+  price: number | null;
+};
+
+export type OwnerProfile = {
+  entity: OwnerEntity;
+  aliases: Array<{ rawName: string; occurrences: number }>;
+  holdings: OwnerHolding[];
+  linkedEntities: Array<{
+    id: string;
+    name: string;
+    entityType: string;
+    propertyCount: number;
+    linkType: OwnerLinkType;
+    evidence: string | null;
+  }>;
+  // Totals across every entity in the same group, when linked to others
+  group: { id: string; entityCount: number; propertyCount: number } | null;
+  acquisitionsByYear: Array<{ year: number; count: number }>;
+  cadence: {
+    medianMonthsBetween: number | null;
+    last12Months: number;
+    lastAcquisitionDate: Date | null;
+  };
+  // Lenders on mortgages recorded against the entity's properties after it bought them
+  lenders: Array<{
+    id: string;
+    name: string;
+    loanCount: number;
+    totalAmount: number | null;
+    lastLoanDate: Date;
+  }>;
+};
+
+// One item behind a property's distress score
+export type DistressEvidence = {
+  flag: DistressFlag;
+  label: string;
+  points: number;
+  date: string | null;
+  sourceId: string | null; // case number, tax lien list row or ACRIS document id
+};
+
+// Drawn search area (screener map, saved searches, external API). Polygon
+// rings are GeoJSON [lng, lat] pairs; the closing point may be omitted.
+export const MAX_SEARCH_AREA_VERTICES = 200;
+export const MAX_SEARCH_RADIUS_METERS = 50_000;
+
+const lngLat = z.tuple([z.number().min(-180).max(180), z.number().min(-90).max(90)]);
+
+export const searchAreaSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("polygon"),
+    coordinates: z.array(lngLat).min(3).max(MAX_SEARCH_AREA_VERTICES),
+  }),
+  z.object({
+    type: z.literal("radius"),
+    center: z.object({ lat: z.number().min(-90).max(90), lng: z.number().min(-180).max(180) }),
+    radiusMeters: z.number().positive().max(MAX_SEARCH_RADIUS_METERS),
+  }),
+]);
+export type SearchArea = z.infer<typeof searchAreaSchema>;
+
 // Filter types for screener
 export type ScreenerFilters = {
   state?: State;
@@ -1493,8 +2583,63 @@ export type ScreenerFilters = {
   priceMax?: number;
   opportunityScoreMin?: number;
   confidenceLevels?: ConfidenceLevel[];
+  bedsMin?: number;
+  bedsMax?: number;
+  bathsMin?: number;
+  // Signal thresholds (property_signal_summary); properties without signals never match
+  transitScoreMin?: number;
+  buildingHealthMin?: number;
+  floodRiskMax?: FloodRiskLevel;
+  distressScoreMin?: number;
+  // Only properties whose coordinates fall inside the drawn area
+  area?: SearchArea;
 };
 
+// Screener sort keys. Every sort breaks ties on id so keyset pages never
+// skip or repeat a row; rows without a value come last in either order.
+export const screenerSorts = ["score", "price", "price_per_sqft", "last_sale_date", "score_change"] as const;
+export type ScreenerSort = typeof screenerSorts[number];
+export type SortOrder = "asc" | "desc";
+
+// Position after the last row of a page: its sort value (as text) and id
+export type ScreenerCursor = {
+  sort: ScreenerSort;
+  order: SortOrder;
+  value: string | null;
+  id: string;
+};
+
+export type ScreenerPageRequest = {
+  sort: ScreenerSort;
+  order: SortOrder;
+  limit: number;
+  cursor?: ScreenerCursor;
+};
+
+export type ScreenerPage = {
+  items: Property[];
+  total: number;
+  nextCursor: ScreenerCursor | null;
+};
+
+// Screener facets. Each option is counted with every other active filter
+// applied but not the facet's own, so the count is what selecting it (or
+// adding it to the selection) would give.
+export const screenerFacetKeys = [
+  "propertyType",
+  "beds",
+  "baths",
+  "yearBuilt",
+  "size",
+  "confidenceLevel",
+  "city",
+  "zipCode",
+  "score",
+] as const;
+export type ScreenerFacetKey = typeof screenerFacetKeys[number];
+export type ScreenerFacetCount = { value: string; count: number };
+export type ScreenerFacets = Record<ScreenerFacetKey, ScreenerFacetCount[]>;
+
 // Up and Coming ZIP code type
 export type UpAndComingZip = {
   zipCode: string;
@@ -1504,6 +2649,7 @@ export type UpAndComingZip = {
   trend12m: number | null; // YoY appreciation %
   trend6m: number | null; // 6-month trend %
   trend3m: number | null; // 3-month trend %
+  trendSource: "median" | "repeat_sales"; // where the trends above come from
   medianPrice: number | null;
   medianPricePerSqft: number | null;
   transactionCount: number | null;